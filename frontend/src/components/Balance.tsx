@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { api, UserWithWallet } from '../services/api';
+import { api, UserWallet, UserWithWallet, WalletStatus } from '../services/api';
 import { formatCurrency } from '../utils/format';
 import './Form.css';
 
@@ -17,7 +17,11 @@ export default function Balance({
   const [users, setUsers] = useState<UserWithWallet[]>([]);
   const [selectedUserId, setSelectedUserId] = useState<string>(initialUserId || '');
   const [balance, setBalance] = useState<number | null>(null);
+  const [availableBalance, setAvailableBalance] = useState<number | null>(null);
+  const [currency, setCurrency] = useState('USD');
   const [walletId, setWalletId] = useState<string | null>(null);
+  const [walletStatus, setWalletStatus] = useState<WalletStatus>('active');
+  const [wallets, setWallets] = useState<UserWallet[]>([]);
   const [selectedUser, setSelectedUser] = useState<UserWithWallet | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingUsers, setLoadingUsers] = useState(true);
@@ -63,13 +67,20 @@ export default function Balance({
     setError(null);
     setBalance(null);
     setWalletId(null);
+    setWallets([]);
     setSelectedUser(user);
 
     try {
       const response = await api.getBalance(userId);
       
-      setBalance(response.balance);
+      setBalance(response.ledger_balance);
+      setAvailableBalance(response.available_balance);
+      setCurrency(response.currency);
       setWalletId(response.wallet_id);
+      setWalletStatus(response.status);
+
+      const walletsResponse = await api.getUserWallets(userId);
+      setWallets(walletsResponse.wallets);
 
       if (onBalanceFound) {
         onBalanceFound(response.wallet_id, response.user_id, user.email);
@@ -121,14 +132,30 @@ export default function Balance({
         <div className="balance-result">
           <div className="balance-card">
             <div className="balance-label">Balance</div>
-            <div className="balance-amount">{formatCurrency(balance)}</div>
+            <div className="balance-amount">{formatCurrency(balance, currency)}</div>
             <div className="balance-details">
+              {availableBalance !== null && availableBalance !== balance && (
+                <div>Available: {formatCurrency(availableBalance, currency)}</div>
+              )}
               <div>User: {selectedUser.name}</div>
               <div>Email: {selectedUser.email}</div>
               <div>Wallet ID: {walletId}</div>
+              <div>Status: {walletStatus.replace('_', ' ')}</div>
               <div>User ID: {selectedUser.id}</div>
             </div>
           </div>
+          {wallets.length > 1 && (
+            <div className="balance-details">
+              <div className="balance-label">All wallets</div>
+              {wallets.map((w) => (
+                <div key={w.id}>
+                  {w.label}
+                  {w.is_default ? ' (default)' : ''}:{' '}
+                  {formatCurrency(w.balance, w.currency)}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
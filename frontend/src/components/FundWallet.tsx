@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { api, UserWithWallet } from '../services/api';
+import { toMinorUnits, minorUnitStep } from '../utils/format';
 import './Form.css';
 
 interface FundWalletProps {
@@ -51,6 +52,8 @@ export default function FundWallet({ walletId: initialWalletId = '' }: FundWalle
     }
   };
 
+  const currency = users.find(u => u.id === selectedUserId)?.currency ?? 'USD';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -58,16 +61,16 @@ export default function FundWallet({ walletId: initialWalletId = '' }: FundWalle
     setSuccess(null);
 
     try {
-      // Convert amount to cents (integer)
-      const amountInCents = Math.round(parseFloat(amount) * 100);
+      // Convert amount to minor units (integer) of the wallet currency
+      const amountInMinorUnits = toMinorUnits(amount, currency);
       
-      if (amountInCents <= 0) {
+      if (amountInMinorUnits <= 0) {
         throw new Error('Amount must be greater than 0');
       }
 
       const response = await api.fundWallet(
         walletId,
-        amountInCents,
+        amountInMinorUnits,
         externalPaymentRef
       );
       
@@ -110,16 +113,16 @@ export default function FundWallet({ walletId: initialWalletId = '' }: FundWalle
         </div>
 
         <div className="form-group">
-          <label htmlFor="amount">Amount (USD)</label>
+          <label htmlFor="amount">Amount ({currency})</label>
           <input
             id="amount"
             type="number"
-            step="0.01"
-            min="0.01"
+            step={minorUnitStep(currency)}
+            min={minorUnitStep(currency)}
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
             required
-            placeholder="0.00"
+            placeholder={minorUnitStep(currency).replace(/1$/, '0')}
           />
         </div>
 
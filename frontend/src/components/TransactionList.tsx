@@ -16,8 +16,13 @@ export default function TransactionList({ walletId: initialWalletId }: Transacti
   const [loadingUsers, setLoadingUsers] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [limit, setLimit] = useState(50);
-  const [offset, setOffset] = useState(0);
+  // Cursors of the pages visited so far; the last one is the current page
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [direction, setDirection] = useState<'' | 'credit' | 'debit'>('');
   const [total, setTotal] = useState<number | null>(null);
+  const cursor = cursors[cursors.length - 1];
+  const pageStart = (cursors.length - 1) * limit;
 
   useEffect(() => {
     const fetchUsers = async () => {
@@ -50,7 +55,7 @@ export default function TransactionList({ walletId: initialWalletId }: Transacti
     if (user) {
       setSelectedUserId(userId);
       setWalletId(user.wallet_id);
-      setOffset(0); // Reset to first page when user changes
+      setCursors([undefined]); // Reset to first page when user changes
     }
   };
 
@@ -61,16 +66,20 @@ export default function TransactionList({ walletId: initialWalletId }: Transacti
     setError(null);
 
     try {
-      const response = await api.getTransactions(walletId, limit, offset);
+      const response = await api.getTransactions(walletId, limit, cursor, {
+        direction: direction || undefined,
+        includeTotal: true,
+      });
       setTransactions(response.transactions);
-      setTotal(response.pagination.total || response.transactions.length);
+      setNextCursor(response.pagination.next_cursor);
+      setTotal(response.pagination.total ?? null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch transactions');
       setTransactions([]);
     } finally {
       setLoading(false);
     }
-  }, [walletId, limit, offset]);
+  }, [walletId, limit, cursor, direction]);
 
   useEffect(() => {
     if (walletId) {
@@ -107,6 +116,22 @@ export default function TransactionList({ walletId: initialWalletId }: Transacti
             ))}
           </select>
         </div>
+
+        <div className="form-group">
+          <label htmlFor="directionFilter">Direction</label>
+          <select
+            id="directionFilter"
+            value={direction}
+            onChange={(e) => {
+              setDirection(e.target.value as '' | 'credit' | 'debit');
+              setCursors([undefined]);
+            }}
+          >
+            <option value="">All</option>
+            <option value="credit">Credits</option>
+            <option value="debit">Debits</option>
+          </select>
+        </div>
       </form>
 
       {loadingUsers && <div className="message">Loading users...</div>}
@@ -121,19 +146,20 @@ export default function TransactionList({ walletId: initialWalletId }: Transacti
               <button
                 type="button"
                 className="button button-secondary"
-                onClick={() => setOffset(Math.max(0, offset - limit))}
-                disabled={offset === 0 || loading}
+                onClick={() => setCursors(cursors.slice(0, -1))}
+                disabled={cursors.length === 1 || loading}
               >
                 Previous
               </button>
               <span className="pagination-info">
-                Showing {offset + 1} - {Math.min(offset + limit, total || transactions.length)} of {total || transactions.length}
+                Showing {pageStart + 1} - {pageStart + transactions.length}
+                {total !== null && ` of ${total}`}
               </span>
               <button
                 type="button"
                 className="button button-secondary"
-                onClick={() => setOffset(offset + limit)}
-                disabled={transactions.length < limit || loading}
+                onClick={() => nextCursor && setCursors([...cursors, nextCursor])}
+                disabled={!nextCursor || loading}
               >
                 Next
               </button>
@@ -147,6 +173,9 @@ export default function TransactionList({ walletId: initialWalletId }: Transacti
                   <th>ID</th>
                   <th>Amount</th>
                   <th>Direction</th>
+                  <th>Type</th>
+                  <th>Counterparty</th>
+                  <th>Balance</th>
                   <th>Transaction Ref</th>
                   <th>Date</th>
                 </tr>
@@ -156,13 +185,28 @@ export default function TransactionList({ walletId: initialWalletId }: Transacti
                   <tr key={tx.id}>
                     <td className="tx-id">{tx.id.slice(0, 8)}...</td>
                     <td className={`tx-amount ${tx.direction}`}>
-                      {tx.direction === 'credit' ? '+' : '-'}{formatCurrency(tx.amount)}
+                      {tx.direction === 'credit' ? '+' : '-'}{formatCurrency(tx.amount, tx.currency)}
                     </td>
                     <td>
                       <span className={`badge ${tx.direction}`}>
                         {tx.direction}
                       </span>
                     </td>
+                    <td>
+                      {tx.type}
+                      {tx.status && tx.status !== 'completed' && (
+                        <span className="badge"> {tx.status.replace('_', ' ')}</span>
+                      )}
+                    </td>
+                    <td className="tx-counterparty">
+                      {tx.counterparty
+                        ? tx.counterparty.display_name
+                          ? `${tx.counterparty.display_name} (${tx.counterparty.masked_email})`
+                          : `${tx.counterparty.wallet_id.slice(0, 8)}...`
+                        : '—'}
+                      {tx.memo && <div className="tx-memo">{tx.memo}</div>}
+                    </td>
+                    <td className="tx-balance">{formatCurrency(tx.balance_after, tx.currency)}</td>
                     <td className="tx-ref">{tx.transaction_reference}</td>
                     <td className="tx-date">{formatDate(tx.created_at)}</td>
                   </tr>
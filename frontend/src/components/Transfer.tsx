@@ -1,11 +1,26 @@
 import { useState, useEffect } from 'react';
-import { api, UserWithWallet } from '../services/api';
+import { api, UserWithWallet, LimitUsage } from '../services/api';
+import { toMinorUnits, minorUnitStep, formatCurrency } from '../utils/format';
 import './Form.css';
 
 interface TransferProps {
   senderWalletId?: string;
 }
 
+const LIMIT_LABELS: Record<LimitUsage['limit'], string> = {
+  max_single_amount: 'Per transfer',
+  daily_amount: 'Left today',
+  monthly_amount: 'Left this month',
+  max_transfer_count: 'Transfers left',
+};
+
+const REPEAT_OPTIONS = [
+  { value: '', label: 'Does not repeat' },
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+];
+
 export default function Transfer({ senderWalletId: initialSenderWalletId = '' }: TransferProps) {
   const [users, setUsers] = useState<UserWithWallet[]>([]);
   const [senderUserId, setSenderUserId] = useState<string>('');
@@ -13,10 +28,16 @@ export default function Transfer({ senderWalletId: initialSenderWalletId = '' }:
   const [senderWalletId, setSenderWalletId] = useState(initialSenderWalletId);
   const [receiverWalletId, setReceiverWalletId] = useState('');
   const [amount, setAmount] = useState('');
+  const [memo, setMemo] = useState('');
+  const [scheduled, setScheduled] = useState(false);
+  const [startAt, setStartAt] = useState('');
+  const [repeat, setRepeat] = useState('');
+  const [repeatCount, setRepeatCount] = useState('');
   const [loading, setLoading] = useState(false);
   const [loadingUsers, setLoadingUsers] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [limits, setLimits] = useState<LimitUsage[]>([]);
 
   useEffect(() => {
     const fetchUsers = async () => {
@@ -43,6 +64,19 @@ export default function Transfer({ senderWalletId: initialSenderWalletId = '' }:
     fetchUsers();
   }, [initialSenderWalletId]);
 
+  useEffect(() => {
+    if (!senderWalletId) {
+      setLimits([]);
+      return;
+    }
+
+    // Limits are informational; the transfer itself enforces them
+    api
+      .getWalletLimits(senderWalletId)
+      .then((response) => setLimits(response.usage))
+      .catch(() => setLimits([]));
+  }, [senderWalletId, success]);
+
   const handleSenderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const userId = e.target.value;
     const user = users.find(u => u.id === userId);
@@ -61,6 +95,8 @@ export default function Transfer({ senderWalletId: initialSenderWalletId = '' }:
     }
   };
 
+  const currency = users.find(u => u.id === senderUserId)?.currency ?? 'USD';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -73,23 +109,55 @@ export default function Transfer({ senderWalletId: initialSenderWalletId = '' }:
         throw new Error('Sender and receiver must be different');
       }
 
-      // Convert amount to cents (integer)
-      const amountInCents = Math.round(parseFloat(amount) * 100);
+      // Convert amount to minor units (integer) of the wallet currency
+      const amountInMinorUnits = toMinorUnits(amount, currency);
       
-      if (amountInCents <= 0) {
+      if (amountInMinorUnits <= 0) {
         throw new Error('Amount must be greater than 0');
       }
 
-      const response = await api.transferFunds(
-        senderWalletId,
-        receiverWalletId,
-        amountInCents
-      );
-      
-      setSuccess(
-        `Transfer completed successfully! Transfer ID: ${response.transfer.id}`
-      );
+      if (scheduled) {
+        // datetime-local has no zone; the browser's local time is meant
+        const start = new Date(startAt);
+        if (isNaN(start.getTime()) || start.getTime() < Date.now()) {
+          throw new Error('Start time must be in the future');
+        }
+
+        const recurrence = repeat
+          ? `FREQ=${repeat}${repeatCount ? `;COUNT=${repeatCount}` : ''}`
+          : undefined;
+
+        const response = await api.createScheduledTransfer(
+          senderWalletId,
+          receiverWalletId,
+          amountInMinorUnits,
+          start.toISOString(),
+          recurrence,
+          memo.trim() || undefined
+        );
+
+        setSuccess(
+          `Transfer scheduled! First run: ${new Date(
+            response.scheduled_transfer.start_at
+          ).toLocaleString()}. Schedule ID: ${response.scheduled_transfer.id}`
+        );
+        setStartAt('');
+        setRepeat('');
+        setRepeatCount('');
+      } else {
+        const response = await api.transferFunds(
+          senderWalletId,
+          receiverWalletId,
+          amountInMinorUnits,
+          memo.trim() || undefined
+        );
+
+        setSuccess(
+          `Transfer completed successfully! Transfer ID: ${response.transfer.id}`
+        );
+      }
       setAmount('');
+      setMemo('');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to transfer funds');
     } finally {
@@ -101,7 +169,7 @@ export default function Transfer({ senderWalletId: initialSenderWalletId = '' }:
     <div className="card">
       <h2>Transfer Funds</h2>
       <p className="card-description">
-        Transfer funds between two wallets.
+        Transfer funds between two wallets now, or schedule it once or on repeat.
       </p>
 
       <form onSubmit={handleSubmit} className="form">
@@ -117,7 +185,7 @@ export default function Transfer({ senderWalletId: initialSenderWalletId = '' }:
             <option value="">-- Select sender --</option>
             {users.map((user) => (
               <option key={user.id} value={user.id}>
-                {user.name} ({user.email})
+                {user.name} ({user.email}) · {user.currency}
               </option>
             ))}
           </select>
@@ -134,7 +202,8 @@ export default function Transfer({ senderWalletId: initialSenderWalletId = '' }:
           >
             <option value="">-- Select receiver --</option>
             {users
-              .filter((user) => user.id !== senderUserId)
+              // Transfers only move money between wallets of the same currency
+              .filter((user) => user.id !== senderUserId && user.currency === currency)
               .map((user) => (
                 <option key={user.id} value={user.id}>
                   {user.name} ({user.email})
@@ -144,25 +213,108 @@ export default function Transfer({ senderWalletId: initialSenderWalletId = '' }:
         </div>
 
         <div className="form-group">
-          <label htmlFor="amount">Amount (USD)</label>
+          <label htmlFor="amount">Amount ({currency})</label>
           <input
             id="amount"
             type="number"
-            step="0.01"
-            min="0.01"
+            step={minorUnitStep(currency)}
+            min={minorUnitStep(currency)}
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
             required
-            placeholder="0.00"
+            placeholder={minorUnitStep(currency).replace(/1$/, '0')}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="memo">Memo (optional)</label>
+          <input
+            id="memo"
+            type="text"
+            maxLength={140}
+            value={memo}
+            onChange={(e) => setMemo(e.target.value)}
+            placeholder="What is this for?"
           />
         </div>
 
+        <div className="form-group">
+          <label htmlFor="when">When</label>
+          <select
+            id="when"
+            value={scheduled ? 'later' : 'now'}
+            onChange={(e) => setScheduled(e.target.value === 'later')}
+          >
+            <option value="now">Send now</option>
+            <option value="later">Schedule</option>
+          </select>
+        </div>
+
+        {scheduled && (
+          <>
+            <div className="form-group">
+              <label htmlFor="startAt">Start</label>
+              <input
+                id="startAt"
+                type="datetime-local"
+                value={startAt}
+                onChange={(e) => setStartAt(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="repeat">Repeat</label>
+              <select
+                id="repeat"
+                value={repeat}
+                onChange={(e) => setRepeat(e.target.value)}
+              >
+                {REPEAT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {repeat && (
+              <div className="form-group">
+                <label htmlFor="repeatCount">Number of transfers (optional)</label>
+                <input
+                  id="repeatCount"
+                  type="number"
+                  step={1}
+                  min={1}
+                  max={1000}
+                  value={repeatCount}
+                  onChange={(e) => setRepeatCount(e.target.value)}
+                  placeholder="Until cancelled"
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        {limits.length > 0 && (
+          <div className="message">
+            {limits.map((usage) => (
+              <div key={usage.limit}>
+                {LIMIT_LABELS[usage.limit]}:{' '}
+                {usage.limit === 'max_transfer_count'
+                  ? usage.remaining
+                  : formatCurrency(usage.remaining, currency)}
+              </div>
+            ))}
+          </div>
+        )}
+
         {loadingUsers && <div className="message">Loading users...</div>}
         {error && <div className="message error">{error}</div>}
         {success && <div className="message success">{success}</div>}
 
         <button type="submit" className="button button-primary" disabled={loading}>
-          {loading ? 'Processing...' : 'Transfer Funds'}
+          {loading ? 'Processing...' : scheduled ? 'Schedule Transfer' : 'Transfer Funds'}
         </button>
       </form>
     </div>
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { api } from '../services/api';
+import { SUPPORTED_CURRENCIES } from '../utils/format';
 import './Form.css';
 
 interface UserFormProps {
@@ -9,6 +10,7 @@ interface UserFormProps {
 export default function UserForm({ onUserCreated }: UserFormProps) {
   const [email, setEmail] = useState('');
   const [name, setName] = useState('');
+  const [currency, setCurrency] = useState('USD');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -20,7 +22,7 @@ export default function UserForm({ onUserCreated }: UserFormProps) {
     setSuccess(null);
 
     try {
-      const response = await api.createUser(email, name);
+      const response = await api.createUser(email, name, currency);
       setSuccess(`User created successfully! User ID: ${response.user.id}`);
       onUserCreated(response.user.id, response.wallet.id);
       setEmail('');
@@ -64,6 +66,21 @@ export default function UserForm({ onUserCreated }: UserFormProps) {
           />
         </div>
 
+        <div className="form-group">
+          <label htmlFor="currency">Wallet Currency</label>
+          <select
+            id="currency"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+          >
+            {SUPPORTED_CURRENCIES.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {error && <div className="message error">{error}</div>}
         {success && <div className="message success">{success}</div>}
 
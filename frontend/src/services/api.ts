@@ -6,12 +6,37 @@ export interface User {
   created_at: string;
 }
 
+export type WalletStatus = 'active' | 'frozen' | 'debit_frozen' | 'closed';
+
+/** Mirrors JOURNAL_TYPES on the backend */
+export type JournalType =
+  | 'fund'
+  | 'transfer'
+  | 'fee'
+  | 'reversal'
+  | 'withdrawal';
+
 export interface Wallet {
   id: string;
   user_id: string;
+  label: string;
+  is_default: boolean;
+  currency: string;
+  status: WalletStatus;
   created_at: string;
 }
 
+export interface UserWallet extends Wallet {
+  balance: number;
+  ledger_balance: number;
+  /** Ledger balance less what unexpired holds reserve */
+  available_balance: number;
+}
+
+export interface UserWalletsResponse {
+  wallets: UserWallet[];
+}
+
 export interface CreateUserResponse {
   user: User;
   wallet: Wallet;
@@ -21,17 +46,43 @@ export interface BalanceResponse {
   wallet_id: string;
   user_id: string;
   balance: number;
+  ledger_balance: number;
+  /** Ledger balance less what unexpired holds reserve */
+  available_balance: number;
+  currency: string;
+  status: WalletStatus;
   email?: string;
 }
 
+export interface Counterparty {
+  wallet_id: string;
+  wallet_label: string | null;
+  user_id: string | null;
+  display_name: string | null;
+  masked_email: string | null;
+}
+
 export interface Transaction {
   id: string;
   wallet_id: string;
   amount: number;
+  currency: string;
   direction: "credit" | "debit";
+  /** Journal type; only present in history */
+  type?: JournalType;
+  /** Transfer status, or completed for entries without a transfer; only present in history */
+  status?: "completed" | "partially_reversed" | "reversed";
+  /** Other side of a transfer or reversal; only present in history */
+  counterparty?: Counterparty | null;
   transaction_reference: string;
   transfer_id: string | null;
   external_payment_ref: string | null;
+  /** From the entry's transfer; only present in history */
+  memo?: string | null;
+  metadata?: Record<string, string | number | boolean | null> | null;
+  client_reference?: string | null;
+  /** Wallet balance right after this entry */
+  balance_after: number;
   created_at: string;
 }
 
@@ -44,7 +95,26 @@ export interface Transfer {
   sender_wallet_id: string;
   receiver_wallet_id: string;
   amount: number;
-  status: "pending" | "completed" | "failed";
+  currency: string;
+  receiver_amount: number;
+  receiver_currency: string;
+  fx_quote_id: string | null;
+  fee_amount: number;
+  reversed_amount?: number;
+  status:
+    | "pending"
+    | "completed"
+    | "failed"
+    | "partially_reversed"
+    | "reversed"
+    | "voided"
+    | "expired";
+  memo: string | null;
+  metadata: Record<string, string | number | boolean | null>;
+  client_reference: string | null;
+  /** Set only on holds */
+  authorized_amount: number | null;
+  hold_expires_at: string | null;
   created_at: string;
 }
 
@@ -52,20 +122,82 @@ export interface TransferResponse {
   transfer: Transfer;
 }
 
+export interface ScheduledTransfer {
+  id: string;
+  sender_wallet_id: string;
+  receiver_wallet_id: string;
+  amount: number;
+  currency: string;
+  memo: string | null;
+  metadata: Record<string, string | number | boolean | null>;
+  start_at: string;
+  /** RRULE subset such as FREQ=MONTHLY;COUNT=12; null for a one-off */
+  recurrence: string | null;
+  status: "active" | "paused" | "cancelled" | "completed" | "failed";
+  next_occurrence: number;
+  next_run_at: string | null;
+  attempts: number;
+  last_error: string | null;
+  last_run_at: string | null;
+  last_transfer_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduledTransferResponse {
+  scheduled_transfer: ScheduledTransfer;
+}
+
+export type SpendingLimitType =
+  | "max_single_amount"
+  | "daily_amount"
+  | "monthly_amount"
+  | "max_transfer_count";
+
+export interface LimitUsage {
+  limit: SpendingLimitType;
+  max: number;
+  used: number;
+  remaining: number;
+  resets_at: string | null;
+}
+
+export interface WalletLimitsResponse {
+  wallet_id: string;
+  currency: string;
+  source: "wallet" | "tier" | null;
+  limit_id: string | null;
+  usage: LimitUsage[];
+}
+
 export interface TransactionsResponse {
   transactions: Transaction[];
   pagination: {
     limit: number;
-    offset: number;
+    count: number;
+    next_cursor: string | null;
+    has_more: boolean;
     total?: number;
   };
 }
 
+export interface TransactionFilters {
+  direction?: 'credit' | 'debit';
+  type?: JournalType[];
+  minAmount?: number;
+  maxAmount?: number;
+  from?: string;
+  to?: string;
+  counterpartyWalletId?: string;
+  includeTotal?: boolean;
+}
+
 export interface UserWithWallet {
   id: string;
   email: string;
   name: string;
   wallet_id: string;
+  currency: string;
   created_at: string;
 }
 
@@ -80,6 +212,7 @@ export interface ApiError {
 
 // API Client
 const API_BASE_URL = import.meta.env.PROD ? "" : "http://localhost:3000";
+const API_TOKEN = import.meta.env.VITE_API_TOKEN;
 
 async function request<T>(
   endpoint: string,
@@ -90,6 +223,7 @@ async function request<T>(
     ...options,
     headers: {
       "Content-Type": "application/json",
+      ...(API_TOKEN ? { Authorization: `Bearer ${API_TOKEN}` } : {}),
       ...options.headers,
     },
   });
@@ -120,15 +254,26 @@ export const api = {
   /**
    * Create a new user and wallet
    */
-  async createUser(email: string, name: string): Promise<CreateUserResponse> {
+  async createUser(
+    email: string,
+    name: string,
+    currency?: string
+  ): Promise<CreateUserResponse> {
     return request<CreateUserResponse>("/api/v1/users", {
       method: "POST",
-      body: JSON.stringify({ email, name }),
+      body: JSON.stringify({ email, name, currency }),
     });
   },
 
   /**
-   * Get wallet balance for a user by user ID
+   * List a user's wallets with balances, default wallet first
+   */
+  async getUserWallets(userId: string): Promise<UserWalletsResponse> {
+    return request<UserWalletsResponse>(`/api/v1/users/${userId}/wallets`);
+  },
+
+  /**
+   * Get default wallet balance for a user by user ID
    */
   async getBalance(userId: string): Promise<BalanceResponse> {
     return request<BalanceResponse>(`/api/v1/wallets/${userId}/balance`);
@@ -171,7 +316,8 @@ export const api = {
   async transferFunds(
     senderWalletId: string,
     receiverWalletId: string,
-    amount: number
+    amount: number,
+    memo?: string
   ): Promise<TransferResponse> {
     const idempotencyKey = generateIdempotencyKey();
     return request<TransferResponse>("/api/v1/transactions/transfer", {
@@ -183,23 +329,78 @@ export const api = {
         senderWalletId,
         receiverWalletId,
         amount,
+        ...(memo && { memo }),
       }),
     });
   },
 
   /**
-   * Get transaction history for a wallet
+   * Schedule a transfer at startAt, repeating per recurrence when given
+   */
+  async createScheduledTransfer(
+    senderWalletId: string,
+    receiverWalletId: string,
+    amount: number,
+    startAt: string,
+    recurrence?: string,
+    memo?: string
+  ): Promise<ScheduledTransferResponse> {
+    const idempotencyKey = generateIdempotencyKey();
+    return request<ScheduledTransferResponse>("/api/v1/scheduled-transfers", {
+      method: "POST",
+      headers: {
+        "Idempotency-Key": idempotencyKey,
+      },
+      body: JSON.stringify({
+        senderWalletId,
+        receiverWalletId,
+        amount,
+        startAt,
+        ...(recurrence && { recurrence }),
+        ...(memo && { memo }),
+      }),
+    });
+  },
+
+  /**
+   * Get the spending limits of a wallet and the remaining allowance
+   */
+  async getWalletLimits(walletId: string): Promise<WalletLimitsResponse> {
+    return request<WalletLimitsResponse>(`/api/v1/wallets/${walletId}/limits`);
+  },
+
+  /**
+   * Get a page of transaction history for a wallet. Pass the previous page's
+   * next_cursor to continue.
    */
   async getTransactions(
     walletId: string,
     limit: number = 50,
-    offset: number = 0
+    cursor?: string,
+    filters: TransactionFilters = {}
   ): Promise<TransactionsResponse> {
     const params = new URLSearchParams({
       walletId,
       limit: limit.toString(),
-      offset: offset.toString(),
     });
+    if (cursor) params.set('cursor', cursor);
+    if (filters.direction) params.set('direction', filters.direction);
+    if (filters.type?.length) params.set('type', filters.type.join(','));
+    if (filters.minAmount !== undefined) params.set('minAmount', filters.minAmount.toString());
+    if (filters.maxAmount !== undefined) params.set('maxAmount', filters.maxAmount.toString());
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    if (filters.counterpartyWalletId) {
+      params.set('counterpartyWalletId', filters.counterpartyWalletId);
+    }
+    if (filters.includeTotal) params.set('includeTotal', 'true');
     return request<TransactionsResponse>(`/api/v1/transactions?${params}`);
   },
+
+  /**
+   * Get a single ledger entry with its counterparty
+   */
+  async getTransaction(id: string): Promise<{ transaction: Transaction }> {
+    return request<{ transaction: Transaction }>(`/api/v1/transactions/${id}`);
+  },
 };
@@ -1,14 +1,65 @@
 /**
- * Format amount in cents to USD currency string with thousand separators
- * @param amount Amount in cents (integer)
- * @returns Formatted string like "$350,000.00"
+ * ISO 4217 minor-unit exponents, mirroring the backend's supported currencies
  */
-export function formatCurrency(amount: number): string {
-  const dollars = amount / 100;
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  AUD: 2,
+  BHD: 3,
+  CAD: 2,
+  CHF: 2,
+  CLP: 0,
+  EUR: 2,
+  GBP: 2,
+  GHS: 2,
+  INR: 2,
+  JOD: 3,
+  JPY: 0,
+  KES: 2,
+  KRW: 0,
+  KWD: 3,
+  NGN: 2,
+  OMR: 3,
+  TND: 3,
+  USD: 2,
+  VND: 0,
+  ZAR: 2,
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_EXPONENTS);
+
+/**
+ * Number of decimal places in a currency's minor unit (JPY 0, USD 2, KWD 3)
+ */
+export function getCurrencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[currency] ?? 2;
+}
+
+/**
+ * Format amount in minor units to a currency string with thousand separators
+ * @param amount Amount in minor units (integer), e.g. cents for USD
+ * @param currency ISO 4217 code, defaults to USD
+ * @returns Formatted string like "$350,000.00", "¥500" or "KWD 1.234"
+ */
+export function formatCurrency(amount: number, currency: string = "USD"): string {
+  const exponent = getCurrencyExponent(currency);
   return new Intl.NumberFormat("en-US", {
     style: "currency",
-    currency: "USD",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(dollars);
+    currency,
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent,
+  }).format(amount / 10 ** exponent);
+}
+
+/**
+ * Convert a user-entered major-unit amount ("12.34") to integer minor units
+ */
+export function toMinorUnits(value: string, currency: string = "USD"): number {
+  return Math.round(parseFloat(value) * 10 ** getCurrencyExponent(currency));
+}
+
+/**
+ * Smallest amount that can be entered for a currency, e.g. "0.01" for USD, "1" for JPY
+ */
+export function minorUnitStep(currency: string = "USD"): string {
+  const exponent = getCurrencyExponent(currency);
+  return exponent === 0 ? "1" : `0.${"0".repeat(exponent - 1)}1`;
 }
@@ -4,6 +4,7 @@ interface ImportMetaEnv {
   readonly PROD: boolean;
   readonly DEV: boolean;
   readonly MODE: string;
+  readonly VITE_API_TOKEN?: string;
 }
 
 interface ImportMeta {
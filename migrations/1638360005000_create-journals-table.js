@@ -0,0 +1,99 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    CREATE TYPE journal_type AS ENUM ('fund', 'transfer', 'fee', 'reversal');
+
+    CREATE TABLE journals (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      type journal_type NOT NULL,
+      transaction_reference VARCHAR(255) UNIQUE NOT NULL,
+      transfer_id UUID REFERENCES transfers(id) ON DELETE SET NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX idx_journals_transfer_id ON journals(transfer_id);
+
+    -- System accounts (e.g. external funding clearing) are wallets without an owner
+    ALTER TABLE wallets ALTER COLUMN user_id DROP NOT NULL;
+    ALTER TABLE wallets ADD COLUMN system_code VARCHAR(64) UNIQUE;
+    ALTER TABLE wallets ADD CONSTRAINT wallets_owner_check
+      CHECK ((user_id IS NULL) <> (system_code IS NULL));
+
+    INSERT INTO wallets (system_code) VALUES ('external_funding_clearing');
+
+    ALTER TABLE ledger_entries
+      ADD COLUMN journal_id UUID REFERENCES journals(id) ON DELETE CASCADE;
+
+    -- Backfill one journal per existing transaction reference
+    INSERT INTO journals (type, transaction_reference, transfer_id, created_at)
+    SELECT
+      CASE WHEN MIN(transfer_id::text) IS NULL THEN 'fund' ELSE 'transfer' END::journal_type,
+      transaction_reference,
+      MIN(transfer_id::text)::uuid,
+      MIN(created_at)
+    FROM ledger_entries
+    GROUP BY transaction_reference;
+
+    UPDATE ledger_entries le
+    SET journal_id = j.id
+    FROM journals j
+    WHERE j.transaction_reference = le.transaction_reference;
+
+    -- Historical funding credits had no offsetting leg; post it against clearing
+    INSERT INTO ledger_entries
+      (wallet_id, amount, direction, transaction_reference, journal_id, created_at)
+    SELECT w.id, le.amount, 'debit', le.transaction_reference, le.journal_id, le.created_at
+    FROM ledger_entries le
+    JOIN journals j ON j.id = le.journal_id AND j.type = 'fund'
+    CROSS JOIN wallets w
+    WHERE le.direction = 'credit' AND w.system_code = 'external_funding_clearing';
+
+    ALTER TABLE ledger_entries ALTER COLUMN journal_id SET NOT NULL;
+
+    CREATE INDEX idx_ledger_entries_journal_id ON ledger_entries(journal_id);
+
+    -- Every journal must net to zero by the time its transaction commits
+    CREATE FUNCTION check_journal_balanced() RETURNS trigger AS $$
+    DECLARE
+      imbalance BIGINT;
+    BEGIN
+      SELECT COALESCE(SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END), 0)
+      INTO imbalance
+      FROM ledger_entries
+      WHERE journal_id = NEW.journal_id;
+
+      IF imbalance <> 0 THEN
+        RAISE EXCEPTION 'Journal % is unbalanced by %', NEW.journal_id, imbalance
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    CREATE CONSTRAINT TRIGGER trg_ledger_entries_journal_balanced
+      AFTER INSERT ON ledger_entries
+      DEFERRABLE INITIALLY DEFERRED
+      FOR EACH ROW EXECUTE FUNCTION check_journal_balanced();
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP TRIGGER IF EXISTS trg_ledger_entries_journal_balanced ON ledger_entries;
+    DROP FUNCTION IF EXISTS check_journal_balanced();
+
+    DELETE FROM ledger_entries
+    WHERE wallet_id IN (SELECT id FROM wallets WHERE system_code IS NOT NULL);
+
+    ALTER TABLE ledger_entries DROP COLUMN IF EXISTS journal_id;
+    DROP TABLE IF EXISTS journals CASCADE;
+    DROP TYPE IF EXISTS journal_type;
+
+    DELETE FROM wallets WHERE system_code IS NOT NULL;
+    ALTER TABLE wallets DROP CONSTRAINT IF EXISTS wallets_owner_check;
+    ALTER TABLE wallets DROP COLUMN IF EXISTS system_code;
+    ALTER TABLE wallets ALTER COLUMN user_id SET NOT NULL;
+  `);
+};
@@ -0,0 +1,28 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    CREATE TABLE wallet_balances (
+      wallet_id UUID PRIMARY KEY REFERENCES wallets(id) ON DELETE CASCADE,
+      balance BIGINT NOT NULL DEFAULT 0,
+      entry_count BIGINT NOT NULL DEFAULT 0,
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    -- Seed from the existing ledger; from here on postings keep it current
+    INSERT INTO wallet_balances (wallet_id, balance, entry_count)
+    SELECT
+      wallet_id,
+      COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) -
+      COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0),
+      COUNT(*)
+    FROM ledger_entries
+    GROUP BY wallet_id;
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS wallet_balances CASCADE;
+  `);
+};
@@ -0,0 +1,31 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    ALTER TYPE transfer_status ADD VALUE IF NOT EXISTS 'partially_reversed';
+    ALTER TYPE transfer_status ADD VALUE IF NOT EXISTS 'reversed';
+
+    ALTER TABLE transfers
+      ADD COLUMN reversed_amount BIGINT NOT NULL DEFAULT 0,
+      ADD CONSTRAINT transfers_reversed_amount_check
+        CHECK (reversed_amount >= 0 AND reversed_amount <= amount);
+
+    CREATE TABLE transfer_reversals (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      transfer_id UUID NOT NULL REFERENCES transfers(id) ON DELETE CASCADE,
+      amount BIGINT NOT NULL CHECK (amount > 0),
+      reason VARCHAR(500),
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX idx_transfer_reversals_transfer_id ON transfer_reversals(transfer_id);
+  `);
+};
+
+module.exports.down = (pgm) => {
+  // Enum values cannot be dropped; 'partially_reversed' and 'reversed' stay on transfer_status
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS transfer_reversals CASCADE;
+    ALTER TABLE transfers DROP COLUMN IF EXISTS reversed_amount;
+  `);
+};
@@ -0,0 +1,84 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    -- Existing wallets and their history are USD
+    ALTER TABLE wallets
+      ADD COLUMN currency CHAR(3) NOT NULL DEFAULT 'USD'
+        CHECK (currency ~ '^[A-Z]{3}$');
+
+    -- One system account per code and currency
+    ALTER TABLE wallets DROP CONSTRAINT wallets_system_code_key;
+    ALTER TABLE wallets
+      ADD CONSTRAINT wallets_system_code_currency_key UNIQUE (system_code, currency);
+
+    ALTER TABLE ledger_entries ADD COLUMN currency CHAR(3);
+    UPDATE ledger_entries le
+    SET currency = w.currency
+    FROM wallets w
+    WHERE w.id = le.wallet_id;
+    ALTER TABLE ledger_entries ALTER COLUMN currency SET NOT NULL;
+
+    ALTER TABLE transfers ADD COLUMN currency CHAR(3);
+    UPDATE transfers t
+    SET currency = w.currency
+    FROM wallets w
+    WHERE w.id = t.sender_wallet_id;
+    ALTER TABLE transfers ALTER COLUMN currency SET NOT NULL;
+
+    -- A journal may span currencies (FX), but each currency must net to zero
+    CREATE OR REPLACE FUNCTION check_journal_balanced() RETURNS trigger AS $$
+    DECLARE
+      unbalanced RECORD;
+    BEGIN
+      SELECT
+        currency,
+        SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END) as imbalance
+      INTO unbalanced
+      FROM ledger_entries
+      WHERE journal_id = NEW.journal_id
+      GROUP BY currency
+      HAVING SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END) <> 0
+      LIMIT 1;
+
+      IF FOUND THEN
+        RAISE EXCEPTION 'Journal % is unbalanced by % %',
+          NEW.journal_id, unbalanced.imbalance, unbalanced.currency
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    CREATE OR REPLACE FUNCTION check_journal_balanced() RETURNS trigger AS $$
+    DECLARE
+      imbalance BIGINT;
+    BEGIN
+      SELECT COALESCE(SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END), 0)
+      INTO imbalance
+      FROM ledger_entries
+      WHERE journal_id = NEW.journal_id;
+
+      IF imbalance <> 0 THEN
+        RAISE EXCEPTION 'Journal % is unbalanced by %', NEW.journal_id, imbalance
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    ALTER TABLE transfers DROP COLUMN IF EXISTS currency;
+    ALTER TABLE ledger_entries DROP COLUMN IF EXISTS currency;
+
+    DELETE FROM wallets WHERE system_code IS NOT NULL AND currency <> 'USD';
+    ALTER TABLE wallets DROP CONSTRAINT IF EXISTS wallets_system_code_currency_key;
+    ALTER TABLE wallets ADD CONSTRAINT wallets_system_code_key UNIQUE (system_code);
+    ALTER TABLE wallets DROP COLUMN IF EXISTS currency;
+  `);
+};
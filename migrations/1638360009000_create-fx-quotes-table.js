@@ -0,0 +1,48 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    CREATE TABLE fx_quotes (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      source_currency CHAR(3) NOT NULL,
+      target_currency CHAR(3) NOT NULL,
+      rate NUMERIC(24, 12) NOT NULL CHECK (rate > 0),
+      source_amount BIGINT NOT NULL CHECK (source_amount > 0),
+      target_amount BIGINT NOT NULL CHECK (target_amount > 0),
+      expires_at TIMESTAMP NOT NULL,
+      used_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      CHECK (source_currency <> target_currency)
+    );
+
+    CREATE INDEX idx_fx_quotes_expires_at ON fx_quotes(expires_at);
+
+    -- What the receiver got; differs from amount/currency only for FX transfers
+    ALTER TABLE transfers
+      ADD COLUMN receiver_amount BIGINT,
+      ADD COLUMN receiver_currency CHAR(3),
+      ADD COLUMN fx_quote_id UUID UNIQUE REFERENCES fx_quotes(id);
+
+    UPDATE transfers
+    SET receiver_amount = amount, receiver_currency = currency;
+
+    ALTER TABLE transfers
+      ALTER COLUMN receiver_amount SET NOT NULL,
+      ALTER COLUMN receiver_currency SET NOT NULL,
+      ADD CONSTRAINT transfers_receiver_amount_check CHECK (receiver_amount > 0),
+      ADD CONSTRAINT transfers_fx_quote_check
+        CHECK ((currency = receiver_currency) = (fx_quote_id IS NULL));
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    ALTER TABLE transfers
+      DROP CONSTRAINT IF EXISTS transfers_fx_quote_check,
+      DROP COLUMN IF EXISTS fx_quote_id,
+      DROP COLUMN IF EXISTS receiver_currency,
+      DROP COLUMN IF EXISTS receiver_amount;
+
+    DROP TABLE IF EXISTS fx_quotes;
+  `);
+};
@@ -0,0 +1,28 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    CREATE TABLE api_keys (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      name VARCHAR(255) NOT NULL,
+      -- Public part of the key, used to look it up; the secret is only stored hashed
+      key_prefix VARCHAR(32) UNIQUE NOT NULL,
+      secret_hash CHAR(64) NOT NULL,
+      scopes TEXT[] NOT NULL DEFAULT '{}',
+      rate_limit_per_minute INTEGER NOT NULL CHECK (rate_limit_per_minute > 0),
+      -- Fixed one-minute window, advanced by the same UPDATE that records usage
+      rate_window_started_at TIMESTAMP,
+      rate_window_count INTEGER NOT NULL DEFAULT 0,
+      last_used_at TIMESTAMP,
+      rotated_at TIMESTAMP,
+      revoked_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS api_keys;
+  `);
+};
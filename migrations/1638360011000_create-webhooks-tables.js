@@ -0,0 +1,50 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    CREATE TABLE webhook_subscriptions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      url VARCHAR(2048) NOT NULL,
+      event_types TEXT[] NOT NULL CHECK (cardinality(event_types) > 0),
+      -- Kept in plaintext because every delivery is signed with it
+      secret VARCHAR(128) NOT NULL,
+      disabled_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TYPE webhook_delivery_status AS ENUM ('pending', 'delivered', 'dead_lettered');
+
+    -- Transactional outbox: rows are written in the same transaction as the
+    -- money movement and sent by the webhook worker after commit
+    CREATE TABLE webhook_deliveries (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+      event_id UUID NOT NULL,
+      event_type VARCHAR(64) NOT NULL,
+      payload JSONB NOT NULL,
+      status webhook_delivery_status NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_error TEXT,
+      last_response_status INTEGER,
+      delivered_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE (subscription_id, event_id)
+    );
+
+    CREATE INDEX idx_webhook_deliveries_due
+      ON webhook_deliveries(next_attempt_at)
+      WHERE status = 'pending';
+    CREATE INDEX idx_webhook_deliveries_dead_lettered
+      ON webhook_deliveries(created_at)
+      WHERE status = 'dead_lettered';
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS webhook_deliveries;
+    DROP TYPE IF EXISTS webhook_delivery_status;
+    DROP TABLE IF EXISTS webhook_subscriptions;
+  `);
+};
@@ -0,0 +1,37 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    -- Append-only log of domain events, written in the same transaction as the
+    -- change they describe. position gives consumers a total order to resume from.
+    CREATE TABLE outbox_events (
+      position BIGSERIAL PRIMARY KEY,
+      id UUID UNIQUE NOT NULL DEFAULT gen_random_uuid(),
+      aggregate_type VARCHAR(64) NOT NULL,
+      aggregate_id UUID NOT NULL,
+      event_type VARCHAR(64) NOT NULL,
+      payload JSONB NOT NULL,
+      -- Positions are assigned before commit, so a later position can become
+      -- visible first. Relays only read rows whose transaction is older than
+      -- every transaction still in flight.
+      transaction_id xid8 NOT NULL DEFAULT pg_current_xact_id(),
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX idx_outbox_events_aggregate
+      ON outbox_events(aggregate_type, aggregate_id);
+
+    CREATE TABLE event_consumer_offsets (
+      consumer VARCHAR(128) PRIMARY KEY,
+      last_position BIGINT NOT NULL DEFAULT 0,
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS event_consumer_offsets;
+    DROP TABLE IF EXISTS outbox_events;
+  `);
+};
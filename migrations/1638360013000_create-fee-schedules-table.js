@@ -0,0 +1,34 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    -- Pricing tier used to pick fee schedules; every existing user starts on standard
+    ALTER TABLE users ADD COLUMN tier VARCHAR(32) NOT NULL DEFAULT 'standard';
+
+    -- Fee charged to the sender on top of amount, in the transfer currency
+    ALTER TABLE transfers
+      ADD COLUMN fee_amount BIGINT NOT NULL DEFAULT 0 CHECK (fee_amount >= 0);
+
+    CREATE TABLE fee_schedules (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      operation VARCHAR(32) NOT NULL,
+      -- NULL applies to every tier without a schedule of its own
+      tier VARCHAR(32),
+      currency CHAR(3) NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+      rule JSONB NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE UNIQUE INDEX idx_fee_schedules_scope
+      ON fee_schedules(operation, COALESCE(tier, ''), currency);
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS fee_schedules;
+    ALTER TABLE transfers DROP COLUMN IF EXISTS fee_amount;
+    ALTER TABLE users DROP COLUMN IF EXISTS tier;
+  `);
+};
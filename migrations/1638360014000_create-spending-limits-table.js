@@ -0,0 +1,38 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    -- Either one wallet's own limits or the default for a tier in a currency
+    CREATE TABLE spending_limits (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      wallet_id UUID UNIQUE REFERENCES wallets(id) ON DELETE CASCADE,
+      tier VARCHAR(32),
+      currency CHAR(3) NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+      max_single_amount BIGINT CHECK (max_single_amount > 0),
+      daily_amount BIGINT CHECK (daily_amount > 0),
+      monthly_amount BIGINT CHECK (monthly_amount > 0),
+      max_transfer_count INTEGER CHECK (max_transfer_count > 0),
+      count_window_seconds INTEGER CHECK (count_window_seconds > 0),
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      CONSTRAINT spending_limits_scope_check
+        CHECK ((wallet_id IS NULL) <> (tier IS NULL)),
+      CONSTRAINT spending_limits_count_window_check
+        CHECK ((max_transfer_count IS NULL) = (count_window_seconds IS NULL))
+    );
+
+    CREATE UNIQUE INDEX idx_spending_limits_tier_currency
+      ON spending_limits(tier, currency) WHERE tier IS NOT NULL;
+
+    -- Usage is summed over a sender's recent transfers on every transfer
+    CREATE INDEX idx_transfers_sender_wallet_id_created_at
+      ON transfers(sender_wallet_id, created_at);
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP INDEX IF EXISTS idx_transfers_sender_wallet_id_created_at;
+    DROP TABLE IF EXISTS spending_limits;
+  `);
+};
@@ -0,0 +1,32 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    CREATE TYPE wallet_status AS ENUM ('active', 'frozen', 'debit_frozen', 'closed');
+
+    ALTER TABLE wallets ADD COLUMN status wallet_status NOT NULL DEFAULT 'active';
+
+    -- Audit trail of every status change; closing may sweep the balance out
+    CREATE TABLE wallet_status_changes (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      wallet_id UUID NOT NULL REFERENCES wallets(id) ON DELETE CASCADE,
+      from_status wallet_status NOT NULL,
+      to_status wallet_status NOT NULL,
+      reason VARCHAR(500) NOT NULL,
+      changed_by VARCHAR(255) NOT NULL,
+      sweep_transfer_id UUID REFERENCES transfers(id) ON DELETE SET NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX idx_wallet_status_changes_wallet_id
+      ON wallet_status_changes(wallet_id, created_at);
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS wallet_status_changes;
+    ALTER TABLE wallets DROP COLUMN IF EXISTS status;
+    DROP TYPE IF EXISTS wallet_status;
+  `);
+};
@@ -0,0 +1,38 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    ALTER TABLE wallets ADD COLUMN label VARCHAR(64);
+    ALTER TABLE wallets ADD COLUMN is_default BOOLEAN NOT NULL DEFAULT false;
+
+    -- Existing user wallets become each user's default "main" wallet
+    UPDATE wallets SET label = 'main', is_default = true
+    WHERE user_id IS NOT NULL;
+
+    ALTER TABLE wallets DROP CONSTRAINT wallets_user_id_key;
+
+    -- User wallets are labelled; system accounts are neither labelled nor default
+    ALTER TABLE wallets ADD CONSTRAINT wallets_label_check
+      CHECK ((user_id IS NULL) = (label IS NULL) AND (user_id IS NOT NULL OR NOT is_default));
+
+    CREATE UNIQUE INDEX idx_wallets_user_label ON wallets(user_id, label)
+      WHERE user_id IS NOT NULL;
+
+    CREATE UNIQUE INDEX idx_wallets_user_default ON wallets(user_id)
+      WHERE is_default;
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DELETE FROM wallets WHERE user_id IS NOT NULL AND NOT is_default;
+
+    DROP INDEX IF EXISTS idx_wallets_user_default;
+    DROP INDEX IF EXISTS idx_wallets_user_label;
+    ALTER TABLE wallets DROP CONSTRAINT IF EXISTS wallets_label_check;
+    ALTER TABLE wallets ADD CONSTRAINT wallets_user_id_key UNIQUE (user_id);
+
+    ALTER TABLE wallets DROP COLUMN IF EXISTS is_default;
+    ALTER TABLE wallets DROP COLUMN IF EXISTS label;
+  `);
+};
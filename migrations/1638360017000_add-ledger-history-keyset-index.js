@@ -0,0 +1,20 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    -- History pages are keyed on (created_at, id) newest first
+    CREATE INDEX idx_ledger_entries_wallet_history
+      ON ledger_entries(wallet_id, created_at DESC, id DESC);
+
+    DROP INDEX IF EXISTS idx_ledger_entries_wallet_id_created_at;
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    CREATE INDEX IF NOT EXISTS idx_ledger_entries_wallet_id_created_at
+      ON ledger_entries(wallet_id, created_at);
+
+    DROP INDEX IF EXISTS idx_ledger_entries_wallet_history;
+  `);
+};
@@ -0,0 +1,28 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    ALTER TABLE ledger_entries ADD COLUMN balance_after BIGINT;
+
+    -- Backfill historical rows with a running total in history order; new
+    -- postings record it under the wallet balance lock
+    UPDATE ledger_entries le
+    SET balance_after = running.balance_after
+    FROM (
+      SELECT
+        id,
+        SUM(CASE WHEN direction = 'credit' THEN amount ELSE -amount END)
+          OVER (PARTITION BY wallet_id ORDER BY created_at, id) AS balance_after
+      FROM ledger_entries
+    ) running
+    WHERE running.id = le.id;
+
+    ALTER TABLE ledger_entries ALTER COLUMN balance_after SET NOT NULL;
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    ALTER TABLE ledger_entries DROP COLUMN IF EXISTS balance_after;
+  `);
+};
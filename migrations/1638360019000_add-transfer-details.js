@@ -0,0 +1,24 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    ALTER TABLE transfers ADD COLUMN memo VARCHAR(140);
+    ALTER TABLE transfers ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}';
+    ALTER TABLE transfers ADD COLUMN client_reference VARCHAR(128);
+
+    -- Senders reconcile against their own references, so they only need to
+    -- be unique per sending wallet
+    CREATE UNIQUE INDEX idx_transfers_sender_client_reference
+      ON transfers(sender_wallet_id, client_reference)
+      WHERE client_reference IS NOT NULL;
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP INDEX IF EXISTS idx_transfers_sender_client_reference;
+    ALTER TABLE transfers DROP COLUMN IF EXISTS client_reference;
+    ALTER TABLE transfers DROP COLUMN IF EXISTS metadata;
+    ALTER TABLE transfers DROP COLUMN IF EXISTS memo;
+  `);
+};
@@ -0,0 +1,26 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    -- Transfer listings are keyed on (created_at, id) newest first, per side
+    CREATE INDEX idx_transfers_sender_history
+      ON transfers(sender_wallet_id, created_at DESC, id DESC);
+    CREATE INDEX idx_transfers_receiver_history
+      ON transfers(receiver_wallet_id, created_at DESC, id DESC);
+
+    DROP INDEX IF EXISTS idx_transfers_sender_wallet_id_created_at;
+    DROP INDEX IF EXISTS idx_transfers_receiver_wallet_id;
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    CREATE INDEX IF NOT EXISTS idx_transfers_receiver_wallet_id
+      ON transfers(receiver_wallet_id);
+    CREATE INDEX IF NOT EXISTS idx_transfers_sender_wallet_id_created_at
+      ON transfers(sender_wallet_id, created_at);
+
+    DROP INDEX IF EXISTS idx_transfers_receiver_history;
+    DROP INDEX IF EXISTS idx_transfers_sender_history;
+  `);
+};
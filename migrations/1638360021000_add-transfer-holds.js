@@ -0,0 +1,34 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    ALTER TYPE transfer_status ADD VALUE IF NOT EXISTS 'voided';
+    ALTER TYPE transfer_status ADD VALUE IF NOT EXISTS 'expired';
+
+    -- A hold is a transfer left pending until it is captured, voided or
+    -- expires; direct transfers leave both columns null
+    ALTER TABLE transfers
+      ADD COLUMN authorized_amount BIGINT,
+      ADD COLUMN hold_expires_at TIMESTAMP,
+      ADD CONSTRAINT transfers_hold_check
+        CHECK ((authorized_amount IS NULL) = (hold_expires_at IS NULL)),
+      -- Captures may take less than was authorized, never more
+      ADD CONSTRAINT transfers_authorized_amount_check
+        CHECK (authorized_amount >= amount);
+
+    -- Available balance sums a sender's pending holds on every transfer
+    CREATE INDEX idx_transfers_pending_holds
+      ON transfers(sender_wallet_id, hold_expires_at)
+      WHERE status = 'pending';
+  `);
+};
+
+module.exports.down = (pgm) => {
+  // Enum values cannot be dropped; 'voided' and 'expired' stay on transfer_status
+  return pgm.db.query(`
+    DROP INDEX IF EXISTS idx_transfers_pending_holds;
+    ALTER TABLE transfers
+      DROP COLUMN IF EXISTS hold_expires_at,
+      DROP COLUMN IF EXISTS authorized_amount;
+  `);
+};
@@ -0,0 +1,50 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    CREATE TYPE scheduled_transfer_status AS ENUM (
+      'active', 'paused', 'cancelled', 'completed', 'failed'
+    );
+
+    CREATE TABLE scheduled_transfers (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      sender_wallet_id UUID NOT NULL REFERENCES wallets(id),
+      receiver_wallet_id UUID NOT NULL REFERENCES wallets(id),
+      amount BIGINT NOT NULL CHECK (amount > 0),
+      currency VARCHAR(3) NOT NULL,
+      memo VARCHAR(140),
+      metadata JSONB NOT NULL DEFAULT '{}',
+      start_at TIMESTAMP NOT NULL,
+      -- RRULE-style rule such as FREQ=MONTHLY;COUNT=12; null for one-off
+      recurrence VARCHAR(256),
+      status scheduled_transfer_status NOT NULL DEFAULT 'active',
+      -- Zero-based index of the occurrence to run next; part of the
+      -- client_reference of its transfer, so each runs at most once
+      next_occurrence INTEGER NOT NULL DEFAULT 0,
+      -- Null once nothing is left to run
+      next_run_at TIMESTAMP,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      last_run_at TIMESTAMP,
+      last_transfer_id UUID REFERENCES transfers(id),
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      CHECK (sender_wallet_id <> receiver_wallet_id)
+    );
+
+    CREATE INDEX idx_scheduled_transfers_due
+      ON scheduled_transfers(next_run_at)
+      WHERE status = 'active';
+    CREATE INDEX idx_scheduled_transfers_sender
+      ON scheduled_transfers(sender_wallet_id, created_at);
+    CREATE INDEX idx_scheduled_transfers_receiver
+      ON scheduled_transfers(receiver_wallet_id);
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS scheduled_transfers;
+    DROP TYPE IF EXISTS scheduled_transfer_status;
+  `);
+};
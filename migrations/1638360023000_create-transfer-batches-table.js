@@ -0,0 +1,66 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    CREATE TYPE transfer_batch_mode AS ENUM ('all_or_nothing', 'best_effort');
+    CREATE TYPE transfer_batch_status AS ENUM (
+      'pending', 'processing', 'completed', 'partially_completed', 'failed'
+    );
+    CREATE TYPE transfer_batch_item_status AS ENUM (
+      'pending', 'completed', 'failed', 'skipped'
+    );
+
+    CREATE TABLE transfer_batches (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      sender_wallet_id UUID NOT NULL REFERENCES wallets(id),
+      currency VARCHAR(3) NOT NULL,
+      mode transfer_batch_mode NOT NULL,
+      status transfer_batch_status NOT NULL DEFAULT 'pending',
+      item_count INTEGER NOT NULL CHECK (item_count > 0),
+      total_amount BIGINT NOT NULL CHECK (total_amount > 0),
+      succeeded_count INTEGER NOT NULL DEFAULT 0,
+      failed_count INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      -- A processing batch whose worker died is picked up again after this
+      lease_expires_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      started_at TIMESTAMP,
+      completed_at TIMESTAMP
+    );
+
+    CREATE INDEX idx_transfer_batches_claimable
+      ON transfer_batches(created_at)
+      WHERE status IN ('pending', 'processing');
+    CREATE INDEX idx_transfer_batches_sender
+      ON transfer_batches(sender_wallet_id, created_at);
+
+    -- receiver_wallet_id has no foreign key: an unknown receiver fails its
+    -- item, not the whole request
+    CREATE TABLE transfer_batch_items (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      batch_id UUID NOT NULL REFERENCES transfer_batches(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      receiver_wallet_id UUID NOT NULL,
+      amount BIGINT NOT NULL CHECK (amount > 0),
+      memo VARCHAR(140),
+      metadata JSONB NOT NULL DEFAULT '{}',
+      client_reference VARCHAR(128),
+      status transfer_batch_item_status NOT NULL DEFAULT 'pending',
+      transfer_id UUID REFERENCES transfers(id),
+      error_code VARCHAR(64),
+      error_message TEXT,
+      UNIQUE (batch_id, position),
+      UNIQUE (batch_id, client_reference)
+    );
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS transfer_batch_items;
+    DROP TABLE IF EXISTS transfer_batches;
+    DROP TYPE IF EXISTS transfer_batch_item_status;
+    DROP TYPE IF EXISTS transfer_batch_status;
+    DROP TYPE IF EXISTS transfer_batch_mode;
+  `);
+};
@@ -0,0 +1,41 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    CREATE TYPE payment_request_status AS ENUM (
+      'pending', 'accepted', 'declined', 'cancelled', 'expired'
+    );
+
+    CREATE TABLE payment_requests (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      requester_wallet_id UUID NOT NULL REFERENCES wallets(id),
+      payer_wallet_id UUID NOT NULL REFERENCES wallets(id),
+      amount BIGINT NOT NULL CHECK (amount > 0),
+      currency VARCHAR(3) NOT NULL,
+      memo VARCHAR(140),
+      metadata JSONB NOT NULL DEFAULT '{}',
+      status payment_request_status NOT NULL DEFAULT 'pending',
+      expires_at TIMESTAMP NOT NULL,
+      transfer_id UUID REFERENCES transfers(id),
+      responded_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      CHECK (requester_wallet_id <> payer_wallet_id)
+    );
+
+    CREATE INDEX idx_payment_requests_payer
+      ON payment_requests(payer_wallet_id, created_at);
+    CREATE INDEX idx_payment_requests_requester
+      ON payment_requests(requester_wallet_id, created_at);
+    CREATE INDEX idx_payment_requests_expiring
+      ON payment_requests(expires_at)
+      WHERE status = 'pending';
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS payment_requests;
+    DROP TYPE IF EXISTS payment_request_status;
+  `);
+};
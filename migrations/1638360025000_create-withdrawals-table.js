@@ -0,0 +1,43 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    ALTER TYPE journal_type ADD VALUE IF NOT EXISTS 'withdrawal';
+
+    CREATE TYPE withdrawal_status AS ENUM ('pending', 'settled', 'failed');
+
+    CREATE TABLE withdrawals (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      wallet_id UUID NOT NULL REFERENCES wallets(id),
+      amount BIGINT NOT NULL CHECK (amount > 0),
+      currency VARCHAR(3) NOT NULL,
+      -- Also on the wallet's debit posting, where the unique index on
+      -- ledger_entries keeps it from clashing with a funding reference
+      external_payment_ref VARCHAR(255) NOT NULL UNIQUE,
+      destination JSONB NOT NULL DEFAULT '{}',
+      status withdrawal_status NOT NULL DEFAULT 'pending',
+      provider VARCHAR(64) NOT NULL,
+      provider_reference VARCHAR(255),
+      failure_reason TEXT,
+      transaction_reference VARCHAR(255) NOT NULL,
+      reversal_transaction_reference VARCHAR(255),
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      completed_at TIMESTAMP,
+      CHECK ((status = 'pending') = (completed_at IS NULL)),
+      CHECK ((status = 'failed') = (reversal_transaction_reference IS NOT NULL))
+    );
+
+    CREATE INDEX idx_withdrawals_wallet
+      ON withdrawals(wallet_id, created_at);
+    CREATE UNIQUE INDEX idx_withdrawals_provider_reference
+      ON withdrawals(provider, provider_reference);
+  `);
+};
+
+module.exports.down = (pgm) => {
+  // Enum values cannot be dropped; 'withdrawal' stays on journal_type
+  return pgm.db.query(`
+    DROP TABLE IF EXISTS withdrawals;
+    DROP TYPE IF EXISTS withdrawal_status;
+  `);
+};
@@ -0,0 +1,16 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    -- Runs started, counted as each claim is made, so a batch whose worker
+    -- keeps dying is given up as well
+    ALTER TABLE transfer_batches
+      ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    ALTER TABLE transfer_batches DROP COLUMN IF EXISTS attempts;
+  `);
+};
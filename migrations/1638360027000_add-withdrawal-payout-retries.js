@@ -0,0 +1,30 @@
+"use strict";
+
+module.exports.up = (pgm) => {
+  return pgm.db.query(`
+    -- A pending withdrawal with a next attempt time is a payout still to be
+    -- submitted to the provider; it is cleared once the provider accepts it
+    ALTER TABLE withdrawals
+      ADD COLUMN payout_attempts INTEGER NOT NULL DEFAULT 0,
+      ADD COLUMN next_payout_attempt_at TIMESTAMP,
+      ADD COLUMN last_payout_error TEXT;
+
+    -- Payouts interrupted before the provider's reference was recorded
+    UPDATE withdrawals SET next_payout_attempt_at = NOW()
+    WHERE status = 'pending' AND provider_reference IS NULL;
+
+    CREATE INDEX idx_withdrawals_payout_due
+      ON withdrawals(next_payout_attempt_at)
+      WHERE status = 'pending' AND next_payout_attempt_at IS NOT NULL;
+  `);
+};
+
+module.exports.down = (pgm) => {
+  return pgm.db.query(`
+    DROP INDEX IF EXISTS idx_withdrawals_payout_due;
+    ALTER TABLE withdrawals
+      DROP COLUMN IF EXISTS payout_attempts,
+      DROP COLUMN IF EXISTS next_payout_attempt_at,
+      DROP COLUMN IF EXISTS last_payout_error;
+  `);
+};
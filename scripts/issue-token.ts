@@ -0,0 +1,46 @@
+import dotenv from "dotenv";
+import jwt from "jsonwebtoken";
+
+dotenv.config();
+
+/**
+ * Mint an HS256 token signed with JWT_SECRET for local development.
+ * Usage: yarn auth:token <subject> [scope ...]
+ * A token with scopes is issued as a service token.
+ */
+function issueToken() {
+  const [subject, ...scopes] = process.argv.slice(2);
+
+  if (!subject) {
+    console.error("Usage: yarn auth:token <subject> [scope ...]");
+    process.exitCode = 1;
+    return;
+  }
+
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    console.error("JWT_SECRET must be set to issue tokens");
+    process.exitCode = 1;
+    return;
+  }
+
+  const claims: Record<string, unknown> = { sub: subject };
+  if (scopes.length > 0) {
+    claims.type = "service";
+    claims.scope = scopes.join(" ");
+  }
+
+  const options: jwt.SignOptions = { algorithm: "HS256", expiresIn: "12h" };
+  if (process.env.JWT_ISSUER) {
+    options.issuer = process.env.JWT_ISSUER;
+  }
+  if (process.env.JWT_AUDIENCE) {
+    options.audience = process.env.JWT_AUDIENCE;
+  }
+
+  const token = jwt.sign(claims, secret, options);
+
+  console.log(token);
+}
+
+issueToken();
@@ -0,0 +1,41 @@
+import dotenv from "dotenv";
+
+// Load environment variables before the pool is created
+dotenv.config();
+
+import { pool } from "../src/config/database";
+import { ledgerService } from "../src/services/LedgerService";
+
+/**
+ * Compare materialized wallet balances with the ledger.
+ * Pass --repair to rewrite drifted balances. Exits non-zero when drift is found
+ * so it can run from cron or CI and alert.
+ */
+async function reconcile() {
+  const repair = process.argv.includes("--repair");
+
+  try {
+    const drifts = await ledgerService.reconcileBalances({ repair });
+
+    if (drifts.length === 0) {
+      console.log("All wallet balances match the ledger.");
+      return;
+    }
+
+    console.log(`Found ${drifts.length} wallet(s) with balance drift:`);
+    console.table(drifts);
+
+    if (repair) {
+      console.log("Drifted balances were rewritten from the ledger.");
+    } else {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("Error reconciling balances:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+reconcile();
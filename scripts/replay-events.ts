@@ -0,0 +1,43 @@
+import dotenv from "dotenv";
+
+// Load environment variables before the pool is created
+dotenv.config();
+
+import { pool } from "../src/config/database";
+import { outboxService } from "../src/services/OutboxService";
+
+/**
+ * Show outbox consumer offsets, or rewind one so the relay publishes again.
+ *
+ *   yarn events:replay                    list consumers and their offsets
+ *   yarn events:replay <consumer> [pos]   republish every event after pos (default 0)
+ */
+async function replay() {
+  const [consumer, position = "0"] = process.argv.slice(2);
+
+  try {
+    if (!consumer) {
+      console.table(await outboxService.listOffsets());
+      return;
+    }
+
+    const lastPosition = parseInt(position, 10);
+    if (!Number.isInteger(lastPosition) || lastPosition < 0) {
+      console.error(`Invalid position "${position}"`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const offset = await outboxService.resetOffset(consumer, lastPosition);
+    console.log(
+      `Consumer "${offset.consumer}" will republish events after position ${offset.last_position}.`
+    );
+  } catch (error) {
+    console.error("Error resetting consumer offset:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+replay();
@@ -49,9 +49,26 @@ async function resetDatabase() {
     console.log("Dropping all tables and types...");
 
     // Drop tables in reverse dependency order
+    await client.query("DROP TABLE IF EXISTS withdrawals CASCADE");
+    await client.query("DROP TABLE IF EXISTS payment_requests CASCADE");
+    await client.query("DROP TABLE IF EXISTS transfer_batch_items CASCADE");
+    await client.query("DROP TABLE IF EXISTS transfer_batches CASCADE");
+    await client.query("DROP TABLE IF EXISTS scheduled_transfers CASCADE");
+    await client.query("DROP TABLE IF EXISTS event_consumer_offsets CASCADE");
+    await client.query("DROP TABLE IF EXISTS outbox_events CASCADE");
+    await client.query("DROP TABLE IF EXISTS webhook_deliveries CASCADE");
+    await client.query("DROP TABLE IF EXISTS webhook_subscriptions CASCADE");
+    await client.query("DROP TABLE IF EXISTS wallet_balances CASCADE");
     await client.query("DROP TABLE IF EXISTS ledger_entries CASCADE");
+    await client.query("DROP TABLE IF EXISTS journals CASCADE");
+    await client.query("DROP TABLE IF EXISTS transfer_reversals CASCADE");
     await client.query("DROP TABLE IF EXISTS transfers CASCADE");
+    await client.query("DROP TABLE IF EXISTS fx_quotes CASCADE");
+    await client.query("DROP TABLE IF EXISTS fee_schedules CASCADE");
+    await client.query("DROP TABLE IF EXISTS spending_limits CASCADE");
     await client.query("DROP TABLE IF EXISTS idempotency_keys CASCADE");
+    await client.query("DROP TABLE IF EXISTS api_keys CASCADE");
+    await client.query("DROP TABLE IF EXISTS wallet_status_changes CASCADE");
     await client.query("DROP TABLE IF EXISTS wallets CASCADE");
     await client.query("DROP TABLE IF EXISTS users CASCADE");
     await client.query("DROP TABLE IF EXISTS pgmigrations CASCADE");
@@ -59,6 +76,22 @@ async function resetDatabase() {
     // Drop ENUM types (they persist after table drops)
     await client.query("DROP TYPE IF EXISTS transfer_status CASCADE");
     await client.query("DROP TYPE IF EXISTS ledger_direction CASCADE");
+    await client.query("DROP TYPE IF EXISTS journal_type CASCADE");
+    await client.query(
+      "DROP TYPE IF EXISTS webhook_delivery_status CASCADE"
+    );
+    await client.query("DROP TYPE IF EXISTS wallet_status CASCADE");
+    await client.query(
+      "DROP TYPE IF EXISTS scheduled_transfer_status CASCADE"
+    );
+    await client.query(
+      "DROP TYPE IF EXISTS transfer_batch_item_status CASCADE"
+    );
+    await client.query("DROP TYPE IF EXISTS transfer_batch_status CASCADE");
+    await client.query("DROP TYPE IF EXISTS transfer_batch_mode CASCADE");
+    await client.query("DROP TYPE IF EXISTS payment_request_status CASCADE");
+    await client.query("DROP TYPE IF EXISTS withdrawal_status CASCADE");
+    await client.query("DROP FUNCTION IF EXISTS check_journal_balanced CASCADE");
 
     console.log("All tables dropped successfully.");
 
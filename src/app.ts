@@ -4,11 +4,29 @@ import swaggerUi from "swagger-ui-express";
 import YAML from "yamljs";
 import path from "path";
 import { errorHandler } from "./middleware/errorHandler";
+import { authenticate, requireScope } from "./middleware/auth";
+import { Scope } from "./models/Principal";
 import { logger } from "./utils/logger";
 import usersRouter from "./routes/users";
 import walletsRouter from "./routes/wallets";
 import transactionsRouter from "./routes/transactions";
+import transfersRouter from "./routes/transfers";
+import scheduledTransfersRouter from "./routes/scheduledTransfers";
+import paymentRequestsRouter from "./routes/paymentRequests";
+import ledgerRouter from "./routes/ledger";
+import apiKeysRouter from "./routes/apiKeys";
+import webhooksRouter from "./routes/webhooks";
+import feesRouter from "./routes/fees";
+import limitsRouter from "./routes/limits";
 import healthRouter from "./routes/health";
+import metricsRouter from "./routes/metrics";
+import { webhookWorker } from "./workers/WebhookWorker";
+import { outboxRelay } from "./workers/OutboxRelay";
+import { holdExpiryWorker } from "./workers/HoldExpiryWorker";
+import { scheduledTransferWorker } from "./workers/ScheduledTransferWorker";
+import { transferBatchWorker } from "./workers/TransferBatchWorker";
+import { paymentRequestExpiryWorker } from "./workers/PaymentRequestExpiryWorker";
+import { payoutWorker } from "./workers/PayoutWorker";
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -22,12 +40,18 @@ app.use(
         : ["http://localhost:5173", "http://localhost:3000"],
     credentials: true,
     methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "Idempotency-Key"],
+    allowedHeaders: [
+      "Content-Type",
+      "Authorization",
+      "X-API-Key",
+      "Idempotency-Key",
+    ],
   })
 );
 
 // Middleware
-app.use(express.json());
+// Room for transfer batches of up to TRANSFER_BATCH_MAX_ITEMS items
+app.use(express.json({ limit: "1mb" }));
 app.use(express.urlencoded({ extended: true }));
 
 // Request logging middleware
@@ -47,10 +71,49 @@ const swaggerDocument = YAML.load(swaggerDocumentPath);
 app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerDocument));
 
 // API Routes with versioning (must come before static file serving)
+// Users handles its own auth since sign-up is public
 app.use("/api/v1/users", usersRouter);
-app.use("/api/v1/wallets", walletsRouter);
-app.use("/api/v1/transactions", transactionsRouter);
+app.use("/api/v1/wallets", authenticate, walletsRouter);
+app.use("/api/v1/transactions", authenticate, transactionsRouter);
+app.use("/api/v1/transfers", authenticate, transfersRouter);
+app.use(
+  "/api/v1/scheduled-transfers",
+  authenticate,
+  scheduledTransfersRouter
+);
+app.use("/api/v1/payment-requests", authenticate, paymentRequestsRouter);
+app.use("/api/v1/ledger", authenticate, ledgerRouter);
+app.use(
+  "/api/v1/api-keys",
+  authenticate,
+  requireScope(Scope.ADMIN),
+  apiKeysRouter
+);
+app.use(
+  "/api/v1/webhooks",
+  authenticate,
+  requireScope(Scope.ADMIN),
+  webhooksRouter
+);
+app.use(
+  "/api/v1/fees",
+  authenticate,
+  requireScope(Scope.ADMIN),
+  feesRouter
+);
+app.use(
+  "/api/v1/limits",
+  authenticate,
+  requireScope(Scope.ADMIN),
+  limitsRouter
+);
 app.use("/api/v1/health", healthRouter);
+app.use(
+  "/api/v1/metrics",
+  authenticate,
+  requireScope(Scope.ADMIN),
+  metricsRouter
+);
 
 // Serve static files from dist/public in production
 if (process.env.NODE_ENV === "production") {
@@ -77,7 +140,16 @@ if (process.env.NODE_ENV !== "production") {
         users: "/api/v1/users",
         wallets: "/api/v1/wallets",
         transactions: "/api/v1/transactions",
+        transfers: "/api/v1/transfers",
+        scheduledTransfers: "/api/v1/scheduled-transfers",
+        paymentRequests: "/api/v1/payment-requests",
+        ledger: "/api/v1/ledger",
+        apiKeys: "/api/v1/api-keys",
+        webhooks: "/api/v1/webhooks",
+        fees: "/api/v1/fees",
+        limits: "/api/v1/limits",
         health: "/api/v1/health",
+        metrics: "/api/v1/metrics",
         apiDocs: "/api-docs",
       },
       note: "Frontend UI available at http://localhost:5173 in development",
@@ -96,6 +168,14 @@ if (require.main === (module as NodeModule)) {
       environment: process.env.NODE_ENV || "development",
     });
   });
+
+  webhookWorker.start();
+  outboxRelay.start();
+  holdExpiryWorker.start();
+  scheduledTransferWorker.start();
+  transferBatchWorker.start();
+  paymentRequestExpiryWorker.start();
+  payoutWorker.start();
 }
 
 export default app;
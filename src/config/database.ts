@@ -1,4 +1,4 @@
-import { Pool, PoolConfig } from "pg";
+import { Pool, PoolClient, PoolConfig } from "pg";
 
 const config: PoolConfig = {
   host: process.env.DB_HOST || "localhost",
@@ -13,6 +13,12 @@ const config: PoolConfig = {
 
 export const pool = new Pool(config);
 
+/**
+ * Anything that can run a query: the shared pool, or a checked-out client
+ * when the caller is inside its own transaction
+ */
+export type DbClient = Pool | PoolClient;
+
 pool.on("error", (err: Error) => {
   // eslint-disable-next-line no-console
   console.error("Unexpected error on idle client", err);
@@ -0,0 +1,101 @@
+import { EventEmitter } from "events";
+import { promises as fs } from "fs";
+import { OutboxEvent } from "../models/OutboxEvent";
+
+/**
+ * Destination the outbox relay publishes to. `name` doubles as the consumer
+ * name its offset is stored under. publish must only resolve once the whole
+ * batch is durably handed off; a rejection makes the relay retry it.
+ */
+export interface EventSink {
+  readonly name: string;
+  publish(events: OutboxEvent[]): Promise<void>;
+}
+
+/**
+ * In-process bus. Every event is emitted under its type and under "event".
+ */
+export const eventBus = new EventEmitter();
+
+export class EmitterSink implements EventSink {
+  readonly name = "emitter";
+
+  constructor(private emitter: EventEmitter = eventBus) {}
+
+  async publish(events: OutboxEvent[]): Promise<void> {
+    for (const event of events) {
+      this.emitter.emit(event.event_type, event);
+      this.emitter.emit("event", event);
+    }
+  }
+}
+
+/**
+ * Appends one JSON document per line, for log shippers and local debugging
+ */
+export class NdjsonFileSink implements EventSink {
+  readonly name = "ndjson";
+
+  constructor(private filePath: string) {}
+
+  async publish(events: OutboxEvent[]): Promise<void> {
+    const lines = events.map((event) => `${JSON.stringify(event)}\n`).join("");
+    await fs.appendFile(this.filePath, lines);
+  }
+}
+
+export interface BrokerMessage {
+  key: string;
+  value: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * The part of a Kafka/NATS/SQS-style producer the relay needs. Adapt a
+ * client library to this to publish outbox events to a broker.
+ */
+export interface BrokerProducer {
+  send(topic: string, messages: BrokerMessage[]): Promise<void>;
+}
+
+/**
+ * Publishes to a broker topic keyed by aggregate ID, so events for the same
+ * wallet or transfer stay in order on partitioned brokers
+ */
+export class BrokerSink implements EventSink {
+  constructor(
+    private producer: BrokerProducer,
+    private topic: string,
+    readonly name: string = "broker"
+  ) {}
+
+  async publish(events: OutboxEvent[]): Promise<void> {
+    await this.producer.send(
+      this.topic,
+      events.map((event) => ({
+        key: event.aggregate_id,
+        value: JSON.stringify(event),
+        headers: { "event-id": event.id, "event-type": event.event_type },
+      }))
+    );
+  }
+}
+
+/**
+ * Pick a sink from OUTBOX_SINK ("emitter" or "ndjson"). Broker sinks need a
+ * producer and are wired up in code.
+ */
+export function createSinkFromEnv(): EventSink {
+  const sink = process.env.OUTBOX_SINK || "emitter";
+
+  switch (sink) {
+    case "emitter":
+      return new EmitterSink();
+    case "ndjson":
+      return new NdjsonFileSink(
+        process.env.OUTBOX_NDJSON_FILE || "outbox-events.ndjson"
+      );
+    default:
+      throw new Error(`Unknown OUTBOX_SINK "${sink}"`);
+  }
+}
@@ -1,50 +1,186 @@
-import { Request, Response, NextFunction } from 'express';
-import { AppError } from '../utils/errors';
+import { Request, Response, NextFunction } from "express";
+import { authService } from "../services/AuthService";
+import { apiKeyService } from "../services/ApiKeyService";
+import { walletService } from "../services/WalletService";
+import { Principal, Scope } from "../models/Principal";
+import {
+  ForbiddenError,
+  RateLimitExceededError,
+  UnauthorizedError,
+  WalletNotFoundError,
+} from "../utils/errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** The authenticated caller, set by authenticate */
+      user?: Principal;
+    }
+  }
+}
 
 /**
- * Authentication middleware placeholder
- * 
- * In a production system, this would:
- * 1. Extract JWT token from Authorization header (Bearer <token>)
- * 2. Verify token signature using a secret key
- * 3. Check token expiration
- * 4. Extract user information from token payload
- * 5. Attach user info to req.user for downstream handlers
- * 
- * Example implementation:
- * 
- * import jwt from 'jsonwebtoken';
- * 
- * export function authenticate(req: Request, res: Response, next: NextFunction) {
- *   const authHeader = req.headers.authorization;
- *   
- *   if (!authHeader || !authHeader.startsWith('Bearer ')) {
- *     throw new AppError('Missing or invalid authorization header', 401, 'UNAUTHORIZED');
- *   }
- * 
- *   const token = authHeader.substring(7);
- *   
- *   try {
- *     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { userId: string };
- *     req.user = { userId: decoded.userId };
- *     next();
- *   } catch (error) {
- *     throw new AppError('Invalid or expired token', 401, 'UNAUTHORIZED');
- *   }
- * }
- * 
+ * Authentication middleware
+ * Accepts either an `Authorization: Bearer <token>` JWT (HS256 or RS256) or
+ * an `X-API-Key` header, and attaches the caller to req.user
+ *
  * To use: app.use('/transactions', authenticate, transactionsRouter);
  */
-
 export function authenticate(req: Request, res: Response, next: NextFunction) {
-  // Placeholder: In production, implement JWT verification here
-  // For now, this middleware is a no-op but demonstrates where auth would be added
-  
-  // Example: Uncomment to require authentication
-  // const authHeader = req.headers.authorization;
-  // if (!authHeader) {
-  //   throw new AppError('Authentication required', 401, 'UNAUTHORIZED');
-  // }
-  
-  next();
+  const authHeader = req.headers.authorization;
+  const apiKey = req.headers["x-api-key"];
+
+  if (authHeader) {
+    if (!authHeader.startsWith("Bearer ")) {
+      return next(
+        new UnauthorizedError("Missing or invalid authorization header")
+      );
+    }
+
+    try {
+      req.user = authService.verifyToken(authHeader.substring(7));
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  if (typeof apiKey === "string") {
+    return apiKeyService
+      .authenticate(apiKey)
+      .then((principal) => {
+        req.user = principal;
+        next();
+      })
+      .catch((error) => {
+        if (error instanceof RateLimitExceededError) {
+          res.setHeader("Retry-After", String(error.retryAfterSeconds));
+        }
+        next(error);
+      });
+  }
+
+  next(new UnauthorizedError("Missing or invalid authorization header"));
+}
+
+export function hasScope(principal: Principal, scope: string): boolean {
+  return principal.scopes.includes(scope);
+}
+
+/**
+ * Whether the caller may act on wallets it does not own: admins always,
+ * others only through one of the given route-specific scopes
+ */
+export function canBypassOwnership(
+  principal: Principal,
+  bypassScopes: string[] = []
+): boolean {
+  return [Scope.ADMIN, ...bypassScopes].some((scope) =>
+    hasScope(principal, scope)
+  );
+}
+
+/**
+ * Only let callers holding one of the scopes through, e.g. for back-office
+ * routes
+ */
+export function requireScope(...scopes: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError());
+    }
+
+    if (!scopes.some((scope) => hasScope(req.user!, scope))) {
+      return next(
+        new ForbiddenError(`Missing required scope ${scopes.join(" or ")}`)
+      );
+    }
+
+    next();
+  };
+}
+
+/**
+ * Whether the caller is the given user or may bypass ownership
+ */
+export function canAccessUser(principal: Principal, userId: string): boolean {
+  return canBypassOwnership(principal) || principal.user_id === userId;
+}
+
+/**
+ * Throws unless the caller is the given user or may bypass ownership
+ */
+export function assertUserAccess(
+  principal: Principal | undefined,
+  userId: string
+): void {
+  if (!principal) {
+    throw new UnauthorizedError();
+  }
+
+  if (!canAccessUser(principal, userId)) {
+    throw new ForbiddenError(`Not authorized to access user ${userId}`);
+  }
+}
+
+/**
+ * Throw unless the caller owns the wallet or holds one of the bypass scopes.
+ * For handlers that only learn the wallet after loading something else.
+ */
+export async function assertWalletAccess(
+  principal: Principal | undefined,
+  walletId: string,
+  ...bypassScopes: string[]
+): Promise<void> {
+  if (!principal) {
+    throw new UnauthorizedError();
+  }
+
+  if (canBypassOwnership(principal, bypassScopes)) {
+    return;
+  }
+
+  const wallet = await walletService.getWallet(walletId);
+
+  if (!wallet) {
+    throw new WalletNotFoundError(walletId);
+  }
+
+  // Service principals own no wallets, and system accounts have no owner, so
+  // a missing user_id on either side is never a match
+  if (
+    principal.user_id === null ||
+    wallet.user_id === null ||
+    wallet.user_id !== principal.user_id
+  ) {
+    throw new ForbiddenError(`Not authorized to access wallet ${walletId}`);
+  }
+}
+
+/**
+ * Only let the wallet's owner, or a caller holding one of the bypass scopes,
+ * through. Must run after validate() so the selected wallet ID is
+ * well-formed; a missing ID is left to the handler.
+ */
+export function requireWalletOwner(
+  selectWalletId: (req: Request) => string | undefined,
+  ...bypassScopes: string[]
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError());
+    }
+
+    const walletId = selectWalletId(req);
+    if (!walletId) {
+      return next();
+    }
+
+    try {
+      await assertWalletAccess(req.user, walletId, ...bypassScopes);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
 }
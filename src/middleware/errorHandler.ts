@@ -24,6 +24,7 @@ export function errorHandler(
     return res.status(err.statusCode).json({
       error: err.code || "APPLICATION_ERROR",
       message: err.message,
+      ...(err.details && { details: err.details }),
     });
   }
 
@@ -62,6 +62,12 @@ export function idempotencyMiddleware(
       res.json = function (body: any) {
         responseBody = body;
 
+        // Server errors (e.g. a transaction conflict) are transient; leave the
+        // key unused so the client can retry with it
+        if (responseStatus >= 500) {
+          return originalJson(body);
+        }
+
         // Store the response for future idempotent requests
         idempotencyService
           .storeKey(idempotencyKey, requestHash, responseStatus, responseBody)
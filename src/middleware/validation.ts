@@ -1,6 +1,12 @@
 import { Request, Response, NextFunction } from "express";
 import { z, ZodError } from "zod";
 import { ValidationError } from "../utils/errors";
+import {
+  isSupportedCurrency,
+  MAX_AMOUNT_MAJOR_UNITS,
+  MAX_CURRENCY_EXPONENT,
+} from "../utils/currency";
+import { parseRecurrence } from "../utils/recurrence";
 
 /**
  * Validation middleware factory
@@ -41,15 +47,28 @@ export function validate(schema: {
 export const uuidSchema = z.string().uuid();
 
 /**
- * Validate positive integer (for amounts)
+ * Validate positive integer (for amounts in minor units)
  * Coerces string numbers to numbers for JSON compatibility
- * Maximum amount: 1,000,000,000,000 (10 billion dollars in cents)
+ * Maximum amount: 10 billion major units in the highest-exponent currency.
+ * The exact per-currency ceiling is enforced by services once the wallet's
+ * currency is known (see assertAmountWithinLimit).
  */
 export const positiveIntegerSchema = z.coerce
   .number()
   .int("Amount must be an integer")
   .positive("Amount must be a positive integer")
-  .max(1_000_000_000_000, "Amount exceeds maximum allowed value");
+  .max(
+    MAX_AMOUNT_MAJOR_UNITS * 10 ** MAX_CURRENCY_EXPONENT,
+    "Amount exceeds maximum allowed value"
+  );
+
+/**
+ * Validate ISO 4217 currency code (case-insensitive input, normalized to upper case)
+ */
+export const currencySchema = z
+  .string()
+  .toUpperCase()
+  .refine(isSupportedCurrency, "Unsupported currency");
 
 /**
  * Validate non-empty string
@@ -87,3 +106,119 @@ export const idempotencyKeySchema = z
   .string()
   .min(1, "Idempotency key cannot be empty")
   .max(255, "Idempotency key must not exceed 255 characters");
+
+/**
+ * Validate free-text reason (reversals, status changes) with length constraint
+ */
+export const reasonSchema = z
+  .string()
+  .min(1, "Reason cannot be empty")
+  .max(500, "Reason must not exceed 500 characters");
+
+/**
+ * Validate user tier name (fee schedules and limits are keyed by tier)
+ */
+export const tierSchema = z
+  .string()
+  .min(1, "Tier cannot be empty")
+  .max(32, "Tier must not exceed 32 characters")
+  .regex(
+    /^[a-z0-9_-]+$/,
+    "Tier may only contain lowercase letters, digits, dashes and underscores"
+  );
+
+/**
+ * Validate wallet label; labels are unique per user
+ */
+export const walletLabelSchema = z
+  .string()
+  .trim()
+  .min(1, "Label cannot be empty")
+  .max(64, "Label must not exceed 64 characters");
+
+/**
+ * Validate a transfer memo. Control and invisible formatting characters are
+ * stripped and whitespace runs collapsed before the length check, so what is
+ * stored is what both parties see.
+ */
+export const memoSchema = z
+  .string()
+  .transform((value) =>
+    value
+      .normalize("NFC")
+      .replace(/[\p{Cc}\p{Cf}]/gu, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+  )
+  .pipe(
+    z
+      .string()
+      .min(1, "Memo cannot be empty")
+      .max(140, "Memo must not exceed 140 characters")
+  );
+
+/**
+ * Validate transfer metadata: a flat object of up to 20 keys whose values
+ * are strings, numbers, booleans or null, at most 2KB once serialized
+ */
+export const metadataSchema = z
+  .record(
+    z
+      .string()
+      .min(1, "Metadata keys cannot be empty")
+      .max(40, "Metadata keys must not exceed 40 characters"),
+    z.union([
+      z.string().max(500, "Metadata values must not exceed 500 characters"),
+      z.number().finite(),
+      z.boolean(),
+      z.null(),
+    ])
+  )
+  .refine(
+    (value) => Object.keys(value).length <= 20,
+    "Metadata must not have more than 20 keys"
+  )
+  .refine(
+    (value) => Buffer.byteLength(JSON.stringify(value), "utf8") <= 2048,
+    "Metadata must not exceed 2048 bytes"
+  );
+
+// Prefixes of the references services derive for the transfers they make
+// themselves, e.g. paying a payment request or a scheduled occurrence; a
+// client transfer must never be taken for one of those
+const RESERVED_CLIENT_REFERENCE_PREFIXES = ["payment_request_", "scheduled_"];
+
+/**
+ * Validate a client-supplied reference; unique per sending wallet
+ */
+export const clientReferenceSchema = z
+  .string()
+  .trim()
+  .min(1, "Client reference cannot be empty")
+  .max(128, "Client reference must not exceed 128 characters")
+  .refine(
+    (value) =>
+      !RESERVED_CLIENT_REFERENCE_PREFIXES.some((prefix) =>
+        value.startsWith(prefix)
+      ),
+    `Client reference must not start with ${RESERVED_CLIENT_REFERENCE_PREFIXES.join(" or ")}`
+  );
+
+/**
+ * Validate a recurrence rule, e.g. FREQ=MONTHLY;COUNT=12; see
+ * utils/recurrence for the supported RRULE subset
+ */
+export const recurrenceSchema = z
+  .string()
+  .trim()
+  .max(256, "Recurrence must not exceed 256 characters")
+  .superRefine((value, ctx) => {
+    try {
+      parseRecurrence(value);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
@@ -0,0 +1,27 @@
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** Public identifier embedded in the key; safe to log and display */
+  key_prefix: string;
+  scopes: string[];
+  rate_limit_per_minute: number;
+  last_used_at: Date | null;
+  rotated_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: string[];
+  rate_limit_per_minute?: number;
+}
+
+/**
+ * A key together with its plaintext value, returned only when the key is
+ * created or rotated
+ */
+export interface IssuedApiKey {
+  api_key: ApiKey;
+  key: string;
+}
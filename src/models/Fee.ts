@@ -0,0 +1,69 @@
+/**
+ * internal_transfer prices same-currency moves between wallets of one user,
+ * so pocket-to-pocket moves can be priced apart from payments to others.
+ * Cross-currency moves are always fx_transfer.
+ */
+export const FEE_OPERATIONS = [
+  "transfer",
+  "fx_transfer",
+  "internal_transfer",
+] as const;
+
+export type FeeOperation = (typeof FEE_OPERATIONS)[number];
+
+export const DEFAULT_USER_TIER = "standard";
+
+export interface FlatFeeRule {
+  type: "flat";
+  /** Minor units of the schedule currency */
+  amount: number;
+}
+
+export interface PercentageFeeRule {
+  type: "percentage";
+  /** 1 basis point = 0.01% */
+  basis_points: number;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Bracket of a tiered rule; `up_to` is inclusive and null means no upper bound
+ */
+export interface FeeTier {
+  up_to: number | null;
+  rule: FlatFeeRule | PercentageFeeRule;
+}
+
+/**
+ * The first bracket whose `up_to` covers the amount prices the whole amount
+ */
+export interface TieredFeeRule {
+  type: "tiered";
+  tiers: FeeTier[];
+}
+
+export type FeeRule = FlatFeeRule | PercentageFeeRule | TieredFeeRule;
+
+export interface FeeSchedule {
+  id: string;
+  operation: FeeOperation;
+  tier: string | null;
+  currency: string;
+  rule: FeeRule;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UpsertFeeScheduleInput {
+  operation: FeeOperation;
+  tier?: string | null;
+  currency: string;
+  rule: FeeRule;
+}
+
+export interface FeeQuote {
+  fee_amount: number;
+  /** Schedule that priced the fee; null when no schedule applies */
+  schedule_id: string | null;
+}
@@ -0,0 +1,18 @@
+export interface FxQuote {
+  id: string;
+  source_currency: string;
+  target_currency: string;
+  /** Units of target currency per one unit of source currency (major units) */
+  rate: number;
+  source_amount: number;
+  target_amount: number;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+export interface CreateFxQuoteInput {
+  source_currency: string;
+  target_currency: string;
+  source_amount: number;
+}
@@ -0,0 +1,44 @@
+import { LedgerDirection, LedgerEntry } from "./LedgerEntry";
+
+export const JOURNAL_TYPES = [
+  "fund",
+  "transfer",
+  "fee",
+  "reversal",
+  "withdrawal",
+] as const;
+
+export type JournalType = (typeof JOURNAL_TYPES)[number];
+
+export interface Journal {
+  id: string;
+  type: JournalType;
+  transaction_reference: string;
+  transfer_id: string | null;
+  created_at: Date;
+}
+
+export interface JournalPosting {
+  wallet_id: string;
+  amount: number;
+  currency: string;
+  direction: LedgerDirection;
+  external_payment_ref?: string | null;
+}
+
+export interface PostJournalInput {
+  type: JournalType;
+  transaction_reference: string;
+  transfer_id?: string | null;
+  postings: JournalPosting[];
+  /**
+   * Post even if a wallet status forbids it; only for closing sweeps and
+   * returning failed withdrawals
+   */
+  skip_status_check?: boolean;
+}
+
+export interface PostedJournal {
+  journal: Journal;
+  entries: LedgerEntry[];
+}
@@ -1,21 +1,120 @@
+import { JournalType } from "./Journal";
+import { TransferMetadata, TransferStatus } from "./Transfer";
+
 export type LedgerDirection = "credit" | "debit";
 
 export interface LedgerEntry {
   id: string;
+  journal_id: string;
   wallet_id: string;
   amount: number;
+  currency: string;
   direction: LedgerDirection;
   transaction_reference: string;
   transfer_id: string | null;
   external_payment_ref: string | null;
+  /** Wallet balance immediately after this entry was posted */
+  balance_after: number;
   created_at: Date;
 }
 
+/**
+ * The other side of a transfer as shown to the wallet owner. System
+ * accounts have no user, so only the wallet is known.
+ */
+export interface Counterparty {
+  wallet_id: string;
+  wallet_label: string | null;
+  user_id: string | null;
+  display_name: string | null;
+  masked_email: string | null;
+}
+
+/**
+ * Ledger entry as shown in wallet history, tagged with its journal type so
+ * fees charged on a transfer can be told apart from the transfer itself
+ */
+export interface LedgerHistoryEntry extends LedgerEntry {
+  type: JournalType;
+  /** The transfer's current status, or completed for entries without one */
+  status: TransferStatus;
+  /** Set on transfer and reversal entries only */
+  counterparty: Counterparty | null;
+  /** The transfer's details, shown to both parties; null without a transfer */
+  memo: string | null;
+  metadata: TransferMetadata | null;
+  client_reference: string | null;
+}
+
+/**
+ * Filters for a page of wallet history. Amount bounds and from are
+ * inclusive, to is exclusive.
+ */
+export interface LedgerHistoryQuery {
+  wallet_id: string;
+  limit: number;
+  /** Opaque cursor from the previous page's next_cursor */
+  cursor?: string;
+  direction?: LedgerDirection;
+  types?: JournalType[];
+  min_amount?: number;
+  max_amount?: number;
+  from?: Date;
+  to?: Date;
+  /** Only entries of transfers to or from this wallet */
+  counterparty_wallet_id?: string;
+  /** Count every matching entry across all pages; costs an extra query */
+  include_total?: boolean;
+}
+
+export interface LedgerHistoryPage {
+  entries: LedgerHistoryEntry[];
+  /** Pass back as cursor for the next page; null on the last page */
+  next_cursor: string | null;
+  total?: number;
+}
+
 export interface CreateLedgerEntryInput {
+  journal_id: string;
   wallet_id: string;
   amount: number;
+  currency: string;
   direction: LedgerDirection;
   transaction_reference: string;
   transfer_id?: string | null;
   external_payment_ref?: string | null;
+  /** Post even if the wallet status forbids it; only for closing sweeps */
+  skip_status_check?: boolean;
+}
+
+export interface TrialBalanceAccount {
+  wallet_id: string;
+  user_id: string | null;
+  system_code: string | null;
+  currency: string;
+  total_debits: number;
+  total_credits: number;
+  balance: number;
+}
+
+/**
+ * Debits and credits only net within a currency, so totals are per currency
+ */
+export interface TrialBalanceTotals {
+  currency: string;
+  total_debits: number;
+  total_credits: number;
+  net: number;
+}
+
+export interface TrialBalance {
+  accounts: TrialBalanceAccount[];
+  totals: TrialBalanceTotals[];
+}
+
+export interface BalanceDrift {
+  wallet_id: string;
+  materialized_balance: number;
+  ledger_balance: number;
+  drift: number;
 }
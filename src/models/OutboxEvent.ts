@@ -0,0 +1,52 @@
+export const OutboxEventType = {
+  USER_CREATED: "user.created",
+  WALLET_CREATED: "wallet.created",
+  WALLET_FUNDED: "wallet.funded",
+  TRANSFER_COMPLETED: "transfer.completed",
+  TRANSFER_REVERSED: "transfer.reversed",
+  WALLET_STATUS_CHANGED: "wallet.status_changed",
+  PAYMENT_REQUEST_CREATED: "payment_request.created",
+  PAYMENT_REQUEST_ACCEPTED: "payment_request.accepted",
+  PAYMENT_REQUEST_DECLINED: "payment_request.declined",
+  PAYMENT_REQUEST_CANCELLED: "payment_request.cancelled",
+  PAYMENT_REQUEST_EXPIRED: "payment_request.expired",
+  WITHDRAWAL_CREATED: "withdrawal.created",
+  WITHDRAWAL_SETTLED: "withdrawal.settled",
+  WITHDRAWAL_FAILED: "withdrawal.failed",
+} as const;
+
+export type OutboxEventTypeName =
+  (typeof OutboxEventType)[keyof typeof OutboxEventType];
+
+export type AggregateType =
+  | "user"
+  | "wallet"
+  | "transfer"
+  | "payment_request"
+  | "withdrawal";
+
+export interface AppendOutboxEventInput {
+  aggregate_type: AggregateType;
+  aggregate_id: string;
+  event_type: OutboxEventTypeName;
+  payload: Record<string, unknown>;
+}
+
+export interface OutboxEvent {
+  position: number;
+  id: string;
+  aggregate_type: AggregateType;
+  aggregate_id: string;
+  event_type: OutboxEventTypeName;
+  payload: Record<string, unknown>;
+  created_at: Date;
+}
+
+/**
+ * How far a named consumer has read the outbox
+ */
+export interface ConsumerOffset {
+  consumer: string;
+  last_position: number;
+  updated_at: Date;
+}
@@ -0,0 +1,44 @@
+import { TransferMetadata } from "./Transfer";
+
+/**
+ * Requests are pending until the payer accepts or declines them, the
+ * requester cancels them or expires_at passes. Every other status is final.
+ */
+export const PAYMENT_REQUEST_STATUSES = [
+  "pending",
+  "accepted",
+  "declined",
+  "cancelled",
+  "expired",
+] as const;
+
+export type PaymentRequestStatus = (typeof PAYMENT_REQUEST_STATUSES)[number];
+
+export interface PaymentRequest {
+  id: string;
+  /** Wallet asking to be paid; receives the funds on accept */
+  requester_wallet_id: string;
+  /** Wallet asked to pay; the sender of the transfer on accept */
+  payer_wallet_id: string;
+  amount: number;
+  currency: string;
+  memo: string | null;
+  metadata: TransferMetadata;
+  status: PaymentRequestStatus;
+  expires_at: Date;
+  /** The transfer that paid an accepted request */
+  transfer_id: string | null;
+  /** When the request left pending */
+  responded_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreatePaymentRequestInput {
+  requester_wallet_id: string;
+  payer_wallet_id: string;
+  amount: number;
+  memo?: string;
+  metadata?: TransferMetadata;
+  expires_in_seconds?: number;
+}
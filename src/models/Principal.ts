@@ -0,0 +1,47 @@
+/**
+ * The authenticated caller of a request. User principals act on their own
+ * wallets; service principals are back-office or machine clients.
+ */
+export interface Principal {
+  type: "user" | "service";
+  /** A user ID for user principals; a client or API key ID otherwise */
+  subject: string;
+  /** Owning user, or null for service principals */
+  user_id: string | null;
+  scopes: string[];
+}
+
+/**
+ * Scopes that grant access beyond the caller's own wallets
+ */
+export const Scope = {
+  /** Back-office access; bypasses wallet ownership checks */
+  ADMIN: "admin",
+  /** Fund any wallet, e.g. from a payment processor integration */
+  FUNDING_WRITE: "funding:write",
+  /** Withdraw from any wallet */
+  PAYOUTS_WRITE: "payouts:write",
+  /**
+   * Report payout outcomes, for the payout provider's callbacks. Kept apart
+   * from payouts:write so a client that creates payouts can't also fail one
+   * that was paid and have it refunded.
+   */
+  PAYOUTS_CALLBACK: "payouts:callback",
+  /** Transfer from any wallet */
+  TRANSFERS_WRITE: "transfers:write",
+  /** Read ledger reports */
+  LEDGER_READ: "ledger:read",
+} as const;
+
+export type ScopeName = (typeof Scope)[keyof typeof Scope];
+
+/**
+ * Scopes that may be granted to API keys; admin stays with tokens issued by
+ * the identity provider
+ */
+export const API_KEY_SCOPES = [
+  Scope.FUNDING_WRITE,
+  Scope.PAYOUTS_WRITE,
+  Scope.TRANSFERS_WRITE,
+  Scope.LEDGER_READ,
+] as const;
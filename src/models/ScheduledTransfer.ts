@@ -0,0 +1,52 @@
+import { TransferMetadata } from "./Transfer";
+
+/**
+ * active schedules run when due; paused ones skip the occurrences that fall
+ * due meanwhile. completed, cancelled and failed are final: failed means the
+ * last occurrence was given up, or one could never succeed (e.g. a closed
+ * wallet).
+ */
+export const SCHEDULED_TRANSFER_STATUSES = [
+  "active",
+  "paused",
+  "cancelled",
+  "completed",
+  "failed",
+] as const;
+
+export type ScheduledTransferStatus =
+  (typeof SCHEDULED_TRANSFER_STATUSES)[number];
+
+export interface ScheduledTransfer {
+  id: string;
+  sender_wallet_id: string;
+  receiver_wallet_id: string;
+  amount: number;
+  currency: string;
+  memo: string | null;
+  metadata: TransferMetadata;
+  start_at: Date;
+  /** RRULE subset such as FREQ=MONTHLY;COUNT=12; null for a one-off */
+  recurrence: string | null;
+  status: ScheduledTransferStatus;
+  /** Zero-based index of the occurrence to run next */
+  next_occurrence: number;
+  next_run_at: Date | null;
+  /** Failed attempts at the current occurrence */
+  attempts: number;
+  last_error: string | null;
+  last_run_at: Date | null;
+  last_transfer_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateScheduledTransferInput {
+  sender_wallet_id: string;
+  receiver_wallet_id: string;
+  amount: number;
+  memo?: string;
+  metadata?: TransferMetadata;
+  start_at: Date;
+  recurrence?: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * Limits a wallet's outgoing transfers can hit, in the order they are checked
+ */
+export const SPENDING_LIMIT_TYPES = [
+  "max_single_amount",
+  "daily_amount",
+  "monthly_amount",
+  "max_transfer_count",
+] as const;
+
+export type SpendingLimitType = (typeof SPENDING_LIMIT_TYPES)[number];
+
+/**
+ * Limits for one wallet, or the default for every wallet of a tier in a
+ * currency. Amounts are minor units of `currency`; a null limit is unlimited.
+ */
+export interface SpendingLimit {
+  id: string;
+  wallet_id: string | null;
+  tier: string | null;
+  currency: string;
+  max_single_amount: number | null;
+  /** Outgoing total per calendar day */
+  daily_amount: number | null;
+  /** Outgoing total per calendar month */
+  monthly_amount: number | null;
+  /** Outgoing transfers per rolling window of count_window_seconds */
+  max_transfer_count: number | null;
+  count_window_seconds: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SpendingLimitValues {
+  max_single_amount?: number | null;
+  daily_amount?: number | null;
+  monthly_amount?: number | null;
+  max_transfer_count?: number | null;
+  count_window_seconds?: number | null;
+}
+
+export interface LimitUsage {
+  limit: SpendingLimitType;
+  max: number;
+  used: number;
+  remaining: number;
+  /** When used drops back to zero, or frees a slot for the count limit */
+  resets_at: Date | null;
+}
+
+export interface WalletLimits {
+  wallet_id: string;
+  currency: string;
+  /** Where the limits come from; null when the wallet is unlimited */
+  source: "wallet" | "tier" | null;
+  limit_id: string | null;
+  usage: LimitUsage[];
+}
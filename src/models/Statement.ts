@@ -0,0 +1,63 @@
+import { JournalType } from "./Journal";
+import { LedgerDirection } from "./LedgerEntry";
+
+export const STATEMENT_FORMATS = ["json", "csv", "pdf"] as const;
+
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+/**
+ * Statement period; from is inclusive, to is exclusive
+ */
+export interface StatementRequest {
+  wallet_id: string;
+  from: Date;
+  to: Date;
+}
+
+export interface StatementHeader {
+  wallet_id: string;
+  currency: string;
+  label: string | null;
+  from: Date;
+  to: Date;
+  /** Balance after the last entry before from */
+  opening_balance: number;
+  generated_at: Date;
+}
+
+export interface StatementLine {
+  entry_id: string;
+  created_at: Date;
+  type: JournalType;
+  direction: LedgerDirection;
+  amount: number;
+  balance_after: number;
+  transaction_reference: string;
+  transfer_id: string | null;
+}
+
+export interface StatementTypeTotal {
+  type: JournalType;
+  credits: number;
+  debits: number;
+  count: number;
+}
+
+export interface StatementSummary {
+  closing_balance: number;
+  total_credits: number;
+  total_debits: number;
+  entry_count: number;
+  totals_by_type: StatementTypeTotal[];
+}
+
+/**
+ * Renders a statement as it is read. The service calls begin once, lines
+ * once per batch in ledger order, then end; writers must not buffer the
+ * whole statement.
+ */
+export interface StatementWriter {
+  begin(header: StatementHeader): Promise<void>;
+  lines(lines: StatementLine[]): Promise<void>;
+  end(summary: StatementSummary): Promise<void>;
+}
@@ -1,16 +1,132 @@
-export type TransferStatus = 'pending' | 'completed' | 'failed';
+import { LedgerEntry } from './LedgerEntry';
+
+export const TRANSFER_STATUSES = [
+  'pending',
+  'completed',
+  'failed',
+  'partially_reversed',
+  'reversed',
+  'voided',
+  'expired',
+] as const;
+
+/**
+ * pending: a hold reserving funds, or a direct transfer mid-flight. voided
+ * and expired: holds released without moving money.
+ */
+export type TransferStatus = (typeof TRANSFER_STATUSES)[number];
+
+export type TransferMetadataValue = string | number | boolean | null;
+
+/**
+ * Flat key/value pairs the sender attaches for its own reconciliation
+ */
+export type TransferMetadata = Record<string, TransferMetadataValue>;
 
 export interface Transfer {
   id: string;
   sender_wallet_id: string;
   receiver_wallet_id: string;
   amount: number;
+  currency: string;
+  /** Amount credited to the receiver; differs from amount only for FX transfers */
+  receiver_amount: number;
+  receiver_currency: string;
+  fx_quote_id: string | null;
+  /** Charged to the sender on top of amount, in the transfer currency */
+  fee_amount: number;
+  reversed_amount: number;
   status: TransferStatus;
+  memo: string | null;
+  metadata: TransferMetadata;
+  /** Sender-supplied reference, unique per sending wallet */
+  client_reference: string | null;
+  /** Set on holds: the amount first reserved; amount is what was captured */
+  authorized_amount: number | null;
+  /** Set on holds: when an uncaptured hold stops reserving funds */
+  hold_expires_at: Date | null;
   created_at: Date;
 }
 
+/**
+ * A transfer with the ledger entries of its transfer journal: the debit and
+ * credit legs, plus the FX clearing legs for cross-currency transfers. Fees
+ * and reversals post their own journals and are not included.
+ */
+export interface TransferWithEntries extends Transfer {
+  entries: LedgerEntry[];
+}
+
+export type TransferRole = 'sender' | 'receiver';
+
+/**
+ * Filters for a page of a wallet's transfers, newest first. from is
+ * inclusive, to is exclusive.
+ */
+export interface TransferListQuery {
+  wallet_id: string;
+  limit: number;
+  /** Opaque cursor from the previous page's next_cursor */
+  cursor?: string;
+  /** Only transfers where the wallet played this side; both by default */
+  role?: TransferRole;
+  statuses?: TransferStatus[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface TransferPage {
+  transfers: TransferWithEntries[];
+  /** Pass back as cursor for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
 export interface CreateTransferInput {
   sender_wallet_id: string;
   receiver_wallet_id: string;
   amount: number;
+  /** Required when sender and receiver wallets hold different currencies */
+  quote_id?: string;
+  memo?: string;
+  metadata?: TransferMetadata;
+  client_reference?: string;
+}
+
+/**
+ * Reserve funds for a later capture. Holds are same-currency only.
+ */
+export interface PlaceHoldInput extends Omit<CreateTransferInput, 'quote_id'> {
+  /** Defaults to HOLD_TTL_SECONDS */
+  expires_in_seconds?: number;
+}
+
+export interface CaptureHoldInput {
+  transfer_id: string;
+  /** Defaults to the full authorized amount */
+  amount?: number;
+}
+
+/**
+ * What a transfer would cost the sender, without moving any money
+ */
+export interface TransferFeePreview {
+  amount: number;
+  currency: string;
+  fee_amount: number;
+  total_debit: number;
+}
+
+export interface TransferReversal {
+  id: string;
+  transfer_id: string;
+  amount: number;
+  reason: string | null;
+  created_at: Date;
+}
+
+export interface ReverseTransferInput {
+  transfer_id: string;
+  /** Defaults to the full amount not yet reversed */
+  amount?: number;
+  reason?: string | null;
 }
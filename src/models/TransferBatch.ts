@@ -0,0 +1,83 @@
+import { TransferMetadata } from "./Transfer";
+
+/**
+ * all_or_nothing: the first failed item rolls every transfer in the batch
+ * back. best_effort: each item stands or fails on its own.
+ */
+export const TRANSFER_BATCH_MODES = ["all_or_nothing", "best_effort"] as const;
+
+export type TransferBatchMode = (typeof TRANSFER_BATCH_MODES)[number];
+
+/**
+ * Batches are pending until a worker picks them up. completed: every item
+ * was paid. partially_completed: a best_effort batch where some items
+ * failed. failed: nothing was paid.
+ */
+export const TRANSFER_BATCH_STATUSES = [
+  "pending",
+  "processing",
+  "completed",
+  "partially_completed",
+  "failed",
+] as const;
+
+export type TransferBatchStatus = (typeof TRANSFER_BATCH_STATUSES)[number];
+
+/**
+ * skipped: not paid because an all_or_nothing batch failed on another item
+ */
+export type TransferBatchItemStatus =
+  | "pending"
+  | "completed"
+  | "failed"
+  | "skipped";
+
+export interface TransferBatch {
+  id: string;
+  sender_wallet_id: string;
+  currency: string;
+  mode: TransferBatchMode;
+  status: TransferBatchStatus;
+  item_count: number;
+  /** Sum of the item amounts, before fees */
+  total_amount: number;
+  succeeded_count: number;
+  failed_count: number;
+  /** Why the batch failed as a whole, if it did */
+  error: string | null;
+  /** How many times a worker has started running the batch */
+  attempts: number;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+export interface TransferBatchItem {
+  id: string;
+  batch_id: string;
+  /** Zero-based position of the item in the request */
+  position: number;
+  receiver_wallet_id: string;
+  amount: number;
+  memo: string | null;
+  metadata: TransferMetadata;
+  client_reference: string | null;
+  status: TransferBatchItemStatus;
+  transfer_id: string | null;
+  error_code: string | null;
+  error_message: string | null;
+}
+
+export interface TransferBatchItemInput {
+  receiver_wallet_id: string;
+  amount: number;
+  memo?: string;
+  metadata?: TransferMetadata;
+  client_reference?: string;
+}
+
+export interface CreateTransferBatchInput {
+  sender_wallet_id: string;
+  mode: TransferBatchMode;
+  items: TransferBatchItemInput[];
+}
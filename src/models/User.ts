@@ -2,10 +2,14 @@ export interface User {
   id: string;
   email: string;
   name: string;
+  /** Tier used to pick fee schedules and default spending limits */
+  tier: string;
   created_at: Date;
 }
 
 export interface CreateUserInput {
   email: string;
   name: string;
+  /** Currency of the user's wallet; defaults to USD */
+  currency?: string;
 }
@@ -1,5 +1,90 @@
+export const WALLET_STATUSES = [
+  "active",
+  "frozen",
+  "debit_frozen",
+  "closed",
+] as const;
+
+/**
+ * active: unrestricted. frozen: no postings in either direction.
+ * debit_frozen: can receive funds but not send them. closed: terminal.
+ */
+export type WalletStatus = (typeof WALLET_STATUSES)[number];
+
+/** Label of the wallet every user gets on sign-up */
+export const DEFAULT_WALLET_LABEL = "main";
+
 export interface Wallet {
   id: string;
   user_id: string;
+  /** Unique per user, e.g. "main", "savings", "bills" */
+  label: string;
+  /** The wallet user-level endpoints such as /wallets/:userId/balance use */
+  is_default: boolean;
+  /** ISO 4217 code; balances and amounts are in this currency's minor unit */
+  currency: string;
+  status: WalletStatus;
   created_at: Date;
 }
+
+/**
+ * ledger_balance is what the ledger holds; available_balance is what can be
+ * spent, after funds reserved by unexpired holds
+ */
+export interface WalletBalances {
+  ledger_balance: number;
+  available_balance: number;
+}
+
+export interface WalletWithBalance extends Wallet, WalletBalances {
+  /** Same as ledger_balance */
+  balance: number;
+}
+
+export interface CreateWalletInput {
+  user_id: string;
+  label: string;
+  currency?: string;
+}
+
+export interface WalletStatusChange {
+  id: string;
+  wallet_id: string;
+  from_status: WalletStatus;
+  to_status: WalletStatus;
+  reason: string;
+  /** Principal subject of the admin who made the change */
+  changed_by: string;
+  /** Transfer that moved the remaining balance out when closing */
+  sweep_transfer_id: string | null;
+  created_at: Date;
+}
+
+export interface ChangeWalletStatusInput {
+  wallet_id: string;
+  status: Exclude<WalletStatus, "closed">;
+  reason: string;
+  changed_by: string;
+}
+
+export interface CloseWalletInput {
+  wallet_id: string;
+  reason: string;
+  changed_by: string;
+  /** Required when the wallet still holds funds */
+  sweep_to_wallet_id?: string;
+}
+
+/**
+ * Codes of ledger-owned system wallets used as the offsetting side of
+ * journals that move money into or out of the platform
+ */
+export const SystemAccount = {
+  EXTERNAL_FUNDING_CLEARING: "external_funding_clearing",
+  FX_CLEARING: "fx_clearing",
+  FEE_REVENUE: "fee_revenue",
+  PAYOUT_CLEARING: "payout_clearing",
+} as const;
+
+export type SystemAccountCode =
+  (typeof SystemAccount)[keyof typeof SystemAccount];
@@ -0,0 +1,78 @@
+export const WebhookEventType = {
+  WALLET_FUNDED: "wallet.funded",
+  TRANSFER_COMPLETED: "transfer.completed",
+  TRANSFER_REVERSED: "transfer.reversed",
+  PAYMENT_REQUEST_CREATED: "payment_request.created",
+  PAYMENT_REQUEST_ACCEPTED: "payment_request.accepted",
+  PAYMENT_REQUEST_DECLINED: "payment_request.declined",
+  PAYMENT_REQUEST_CANCELLED: "payment_request.cancelled",
+  PAYMENT_REQUEST_EXPIRED: "payment_request.expired",
+  WITHDRAWAL_CREATED: "withdrawal.created",
+  WITHDRAWAL_SETTLED: "withdrawal.settled",
+  WITHDRAWAL_FAILED: "withdrawal.failed",
+} as const;
+
+export type WebhookEventTypeName =
+  (typeof WebhookEventType)[keyof typeof WebhookEventType];
+
+export const WEBHOOK_EVENT_TYPES = [
+  WebhookEventType.WALLET_FUNDED,
+  WebhookEventType.TRANSFER_COMPLETED,
+  WebhookEventType.TRANSFER_REVERSED,
+  WebhookEventType.PAYMENT_REQUEST_CREATED,
+  WebhookEventType.PAYMENT_REQUEST_ACCEPTED,
+  WebhookEventType.PAYMENT_REQUEST_DECLINED,
+  WebhookEventType.PAYMENT_REQUEST_CANCELLED,
+  WebhookEventType.PAYMENT_REQUEST_EXPIRED,
+  WebhookEventType.WITHDRAWAL_CREATED,
+  WebhookEventType.WITHDRAWAL_SETTLED,
+  WebhookEventType.WITHDRAWAL_FAILED,
+] as const;
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  event_types: WebhookEventTypeName[];
+  disabled_at: Date | null;
+  created_at: Date;
+}
+
+export interface CreateWebhookSubscriptionInput {
+  url: string;
+  event_types: WebhookEventTypeName[];
+}
+
+/**
+ * A subscription with its signing secret, returned only on creation
+ */
+export interface CreatedWebhookSubscription {
+  subscription: WebhookSubscription;
+  secret: string;
+}
+
+/**
+ * Body POSTed to subscribers
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventTypeName;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead_lettered";
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: WebhookEventTypeName;
+  payload: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  last_response_status: number | null;
+  delivered_at: Date | null;
+  created_at: Date;
+}
@@ -0,0 +1,56 @@
+import { TransferMetadata } from "./Transfer";
+
+/**
+ * Withdrawals are pending from the moment the wallet is debited until the
+ * payout provider reports the payout settled or failed. Both are final; a
+ * failed withdrawal has had its debit returned to the wallet.
+ */
+export const WITHDRAWAL_STATUSES = ["pending", "settled", "failed"] as const;
+
+export type WithdrawalStatus = (typeof WITHDRAWAL_STATUSES)[number];
+
+/**
+ * Where a payout is sent, in whatever flat form the payout provider expects,
+ * e.g. { "type": "bank_account", "account_id": "acct_123" }
+ */
+export type PayoutDestination = TransferMetadata;
+
+export interface Withdrawal {
+  id: string;
+  wallet_id: string;
+  amount: number;
+  currency: string;
+  /** Unique across withdrawals and fundings */
+  external_payment_ref: string;
+  destination: PayoutDestination;
+  status: WithdrawalStatus;
+  /** Name of the payout provider the payout was sent through */
+  provider: string;
+  /** The provider's ID for the payout, once it has accepted it */
+  provider_reference: string | null;
+  /** Times the payout has been submitted to the provider */
+  payout_attempts: number;
+  /**
+   * When the payout is next submitted; null once the provider accepts it,
+   * or once its attempts are used up and it awaits review
+   */
+  next_payout_attempt_at: Date | null;
+  /** Why the last submission to the provider did not go through */
+  last_payout_error: string | null;
+  /** Why a failed payout failed, as reported by the provider */
+  failure_reason: string | null;
+  /** Reference of the journal that debited the wallet */
+  transaction_reference: string;
+  /** Reference of the journal that returned the debit of a failed payout */
+  reversal_transaction_reference: string | null;
+  created_at: Date;
+  /** When the withdrawal was settled or failed */
+  completed_at: Date | null;
+}
+
+export interface CreateWithdrawalInput {
+  wallet_id: string;
+  amount: number;
+  external_payment_ref: string;
+  destination: PayoutDestination;
+}
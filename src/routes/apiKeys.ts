@@ -0,0 +1,145 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { apiKeyService } from "../services/ApiKeyService";
+import { ApiKey } from "../models/ApiKey";
+import { API_KEY_SCOPES } from "../models/Principal";
+import { validate, uuidSchema, nameSchema } from "../middleware/validation";
+import { z } from "zod";
+import { logger, createRequestId } from "../utils/logger";
+
+const router = Router();
+
+const createApiKeySchema = {
+  body: z.object({
+    name: nameSchema,
+    scopes: z
+      .array(z.enum(API_KEY_SCOPES))
+      .min(1, "At least one scope is required"),
+    rateLimitPerMinute: z.number().int().positive().max(100000).optional(),
+  }),
+};
+
+const apiKeyIdSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+/**
+ * GET /api-keys
+ * List API keys (never includes secrets)
+ */
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  const correlationId = createRequestId();
+  logger.info("Listing API keys", { correlationId });
+
+  try {
+    const apiKeys = await apiKeyService.listKeys();
+
+    res.json({ api_keys: apiKeys.map(toApiKeyResponse) });
+  } catch (error) {
+    logger.error("Failed to list API keys", {
+      correlationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    next(error);
+  }
+});
+
+/**
+ * POST /api-keys
+ * Create an API key; the key itself is only returned in this response
+ */
+router.post(
+  "/",
+  validate(createApiKeySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Creating API key", {
+      correlationId,
+      name: req.body.name,
+      scopes: req.body.scopes,
+    });
+
+    try {
+      const { api_key, key } = await apiKeyService.createKey({
+        name: req.body.name,
+        scopes: req.body.scopes,
+        rate_limit_per_minute: req.body.rateLimitPerMinute,
+      });
+
+      res.status(201).json({ api_key: toApiKeyResponse(api_key), key });
+    } catch (error) {
+      logger.error("Failed to create API key", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api-keys/:id/rotate
+ * Issue a new key for the same client; the old key stops working immediately
+ */
+router.post(
+  "/:id/rotate",
+  validate(apiKeyIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Rotating API key", { correlationId, apiKeyId: req.params.id });
+
+    try {
+      const { api_key, key } = await apiKeyService.rotateKey(req.params.id);
+
+      res.json({ api_key: toApiKeyResponse(api_key), key });
+    } catch (error) {
+      logger.error("Failed to rotate API key", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api-keys/:id/revoke
+ * Permanently disable an API key
+ */
+router.post(
+  "/:id/revoke",
+  validate(apiKeyIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Revoking API key", { correlationId, apiKeyId: req.params.id });
+
+    try {
+      const apiKey = await apiKeyService.revokeKey(req.params.id);
+
+      res.json({ api_key: toApiKeyResponse(apiKey) });
+    } catch (error) {
+      logger.error("Failed to revoke API key", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+function toApiKeyResponse(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    key_prefix: apiKey.key_prefix,
+    scopes: apiKey.scopes,
+    rate_limit_per_minute: apiKey.rate_limit_per_minute,
+    last_used_at: apiKey.last_used_at,
+    rotated_at: apiKey.rotated_at,
+    revoked_at: apiKey.revoked_at,
+    created_at: apiKey.created_at,
+  };
+}
+
+export default router;
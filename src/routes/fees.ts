@@ -0,0 +1,160 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { feeService } from "../services/FeeService";
+import { FEE_OPERATIONS } from "../models/Fee";
+import {
+  validate,
+  uuidSchema,
+  currencySchema,
+  tierSchema,
+} from "../middleware/validation";
+import { z } from "zod";
+import { logger, createRequestId } from "../utils/logger";
+
+const router = Router();
+
+const feeAmountSchema = z.number().int().nonnegative();
+
+const flatRuleSchema = z.object({
+  type: z.literal("flat"),
+  amount: feeAmountSchema,
+});
+
+const percentageRuleSchema = z
+  .object({
+    type: z.literal("percentage"),
+    basis_points: z.number().int().nonnegative().max(10000),
+    min: feeAmountSchema.optional(),
+    max: feeAmountSchema.optional(),
+  })
+  .refine(
+    (rule) =>
+      rule.min === undefined || rule.max === undefined || rule.min <= rule.max,
+    { message: "min must not exceed max", path: ["min"] }
+  );
+
+const tieredRuleSchema = z.object({
+  type: z.literal("tiered"),
+  tiers: z
+    .array(
+      z.object({
+        up_to: z.number().int().positive().nullable(),
+        rule: z.union([flatRuleSchema, percentageRuleSchema]),
+      })
+    )
+    .min(1, "At least one tier is required")
+    .refine(
+      (tiers) => tiers[tiers.length - 1].up_to === null,
+      "The last tier must have up_to null"
+    )
+    .refine(
+      (tiers) =>
+        tiers
+          .slice(0, -1)
+          .every(
+            (tier, i) =>
+              tier.up_to !== null &&
+              (i === 0 || tier.up_to > (tiers[i - 1].up_to as number))
+          ),
+      "Tier up_to values must be increasing"
+    ),
+});
+
+const upsertScheduleSchema = {
+  body: z.object({
+    operation: z.enum(FEE_OPERATIONS),
+    tier: tierSchema.nullable().optional(),
+    currency: currencySchema,
+    rule: z.union([flatRuleSchema, percentageRuleSchema, tieredRuleSchema]),
+  }),
+};
+
+const idSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+/**
+ * GET /fees/schedules
+ * List fee schedules
+ */
+router.get(
+  "/schedules",
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Listing fee schedules", { correlationId });
+
+    try {
+      const schedules = await feeService.listSchedules();
+
+      res.json({ schedules });
+    } catch (error) {
+      logger.error("Failed to list fee schedules", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /fees/schedules
+ * Create or replace the schedule for an operation, tier and currency; omit
+ * tier for the schedule that applies to every tier without its own
+ */
+router.put(
+  "/schedules",
+  validate(upsertScheduleSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Saving fee schedule", {
+      correlationId,
+      operation: req.body.operation,
+      tier: req.body.tier,
+      currency: req.body.currency,
+    });
+
+    try {
+      const schedule = await feeService.upsertSchedule(req.body);
+
+      res.json({ schedule });
+    } catch (error) {
+      logger.error("Failed to save fee schedule", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /fees/schedules/:id
+ * Delete a fee schedule
+ */
+router.delete(
+  "/schedules/:id",
+  validate(idSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Deleting fee schedule", {
+      correlationId,
+      scheduleId: req.params.id,
+    });
+
+    try {
+      const schedule = await feeService.deleteSchedule(req.params.id);
+
+      res.json({ schedule });
+    } catch (error) {
+      logger.error("Failed to delete fee schedule", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { ledgerService } from "../services/LedgerService";
+import { requireScope } from "../middleware/auth";
+import { Scope } from "../models/Principal";
+import { logger, createRequestId } from "../utils/logger";
+
+const router = Router();
+
+/**
+ * GET /ledger/trial-balance
+ * Debit and credit totals per account across every journal
+ * Requires the admin or ledger:read scope
+ */
+router.get(
+  "/trial-balance",
+  requireScope(Scope.ADMIN, Scope.LEDGER_READ),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Getting trial balance", { correlationId });
+
+    try {
+      const trialBalance = await ledgerService.getTrialBalance();
+
+      res.json({
+        accounts: trialBalance.accounts,
+        totals: trialBalance.totals.map((t) => ({
+          currency: t.currency,
+          debits: t.total_debits,
+          credits: t.total_credits,
+          net: t.net,
+        })),
+      });
+    } catch (error) {
+      logger.error("Failed to get trial balance", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /ledger/reconciliation
+ * Compare materialized wallet balances with balances recomputed from the ledger
+ * Requires the admin or ledger:read scope
+ */
+router.get(
+  "/reconciliation",
+  requireScope(Scope.ADMIN, Scope.LEDGER_READ),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Reconciling wallet balances", { correlationId });
+
+    try {
+      const drifts = await ledgerService.reconcileBalances();
+
+      res.json({
+        consistent: drifts.length === 0,
+        drifts,
+      });
+    } catch (error) {
+      logger.error("Failed to reconcile wallet balances", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /ledger/reconciliation
+ * Reconcile and rewrite any drifted wallet balance from the ledger
+ * Requires the admin scope
+ */
+router.post(
+  "/reconciliation",
+  requireScope(Scope.ADMIN),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Repairing wallet balances", { correlationId });
+
+    try {
+      const drifts = await ledgerService.reconcileBalances({ repair: true });
+
+      res.json({
+        repaired: drifts.length,
+        drifts,
+      });
+    } catch (error) {
+      logger.error("Failed to repair wallet balances", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,169 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { spendingLimitService } from "../services/SpendingLimitService";
+import {
+  validate,
+  uuidSchema,
+  currencySchema,
+  tierSchema,
+} from "../middleware/validation";
+import { z } from "zod";
+import { logger, createRequestId } from "../utils/logger";
+
+const router = Router();
+
+const limitValueSchema = z.number().int().positive().nullable().optional();
+
+const limitValuesSchema = z
+  .object({
+    max_single_amount: limitValueSchema,
+    daily_amount: limitValueSchema,
+    monthly_amount: limitValueSchema,
+    max_transfer_count: limitValueSchema,
+    count_window_seconds: limitValueSchema,
+  })
+  .refine(
+    (values) =>
+      (values.max_transfer_count == null) ===
+      (values.count_window_seconds == null),
+    {
+      message:
+        "max_transfer_count and count_window_seconds must be set together",
+      path: ["count_window_seconds"],
+    }
+  );
+
+const walletLimitSchema = {
+  params: z.object({
+    walletId: uuidSchema,
+  }),
+  body: limitValuesSchema,
+};
+
+const tierLimitSchema = {
+  params: z.object({
+    tier: tierSchema,
+    currency: currencySchema,
+  }),
+  body: limitValuesSchema,
+};
+
+const idSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+/**
+ * GET /limits
+ * List wallet and tier spending limits
+ */
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  const correlationId = createRequestId();
+  logger.info("Listing spending limits", { correlationId });
+
+  try {
+    const limits = await spendingLimitService.listLimits();
+
+    res.json({ limits });
+  } catch (error) {
+    logger.error("Failed to list spending limits", {
+      correlationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    next(error);
+  }
+});
+
+/**
+ * PUT /limits/wallets/:walletId
+ * Set a wallet's own limits, overriding its tier's defaults
+ */
+router.put(
+  "/wallets/:walletId",
+  validate(walletLimitSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Saving wallet spending limit", {
+      correlationId,
+      walletId: req.params.walletId,
+    });
+
+    try {
+      const limit = await spendingLimitService.upsertWalletLimit(
+        req.params.walletId,
+        req.body
+      );
+
+      res.json({ limit });
+    } catch (error) {
+      logger.error("Failed to save wallet spending limit", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /limits/tiers/:tier/:currency
+ * Set the default limits for wallets in a currency owned by a tier's users
+ */
+router.put(
+  "/tiers/:tier/:currency",
+  validate(tierLimitSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Saving tier spending limit", {
+      correlationId,
+      tier: req.params.tier,
+      currency: req.params.currency,
+    });
+
+    try {
+      const limit = await spendingLimitService.upsertTierLimit(
+        req.params.tier,
+        req.params.currency,
+        req.body
+      );
+
+      res.json({ limit });
+    } catch (error) {
+      logger.error("Failed to save tier spending limit", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /limits/:id
+ * Delete a spending limit; a wallet limit falls back to its tier's defaults
+ */
+router.delete(
+  "/:id",
+  validate(idSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Deleting spending limit", {
+      correlationId,
+      limitId: req.params.id,
+    });
+
+    try {
+      const limit = await spendingLimitService.deleteLimit(req.params.id);
+
+      res.json({ limit });
+    } catch (error) {
+      logger.error("Failed to delete spending limit", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router, Request, Response } from "express";
+import { metrics } from "../utils/metrics";
+
+const router = Router();
+
+/**
+ * GET /metrics
+ * Process metrics in the Prometheus text format
+ */
+router.get("/", (req: Request, res: Response) => {
+  res.type("text/plain; version=0.0.4").send(metrics.render());
+});
+
+export default router;
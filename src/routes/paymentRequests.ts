@@ -0,0 +1,324 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { paymentRequestService } from "../services/PaymentRequestService";
+import {
+  PaymentRequest,
+  PAYMENT_REQUEST_STATUSES,
+} from "../models/PaymentRequest";
+import { ForbiddenError, PaymentRequestNotFoundError } from "../utils/errors";
+import {
+  validate,
+  uuidSchema,
+  positiveIntegerSchema,
+  memoSchema,
+  metadataSchema,
+} from "../middleware/validation";
+import { idempotencyMiddleware } from "../middleware/idempotency";
+import { assertWalletAccess, requireWalletOwner } from "../middleware/auth";
+import { Scope } from "../models/Principal";
+import { z } from "zod";
+import { logger, createRequestId } from "../utils/logger";
+
+const router = Router();
+
+const createRequestSchema = {
+  body: z
+    .object({
+      requesterWalletId: uuidSchema,
+      payerWalletId: uuidSchema,
+      amount: positiveIntegerSchema,
+      memo: memoSchema.optional(),
+      metadata: metadataSchema.optional(),
+      // Up to 30 days; defaults to PAYMENT_REQUEST_TTL_SECONDS
+      expiresInSeconds: z
+        .number()
+        .int()
+        .positive()
+        .max(30 * 24 * 60 * 60)
+        .optional(),
+    })
+    .refine((data) => data.requesterWalletId !== data.payerWalletId, {
+      message: "Cannot request funds from the same wallet",
+      path: ["payerWalletId"],
+    }),
+};
+
+const listRequestsSchema = {
+  query: z.object({
+    walletId: uuidSchema,
+    // payer: requests the wallet was asked to pay; requester: ones it sent
+    role: z.enum(["payer", "requester"]).optional(),
+    // Comma-separated, e.g. status=pending,accepted
+    status: z
+      .string()
+      .transform((value) => value.split(","))
+      .pipe(z.array(z.enum(PAYMENT_REQUEST_STATUSES)))
+      .optional(),
+  }),
+};
+
+const requestIdSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+/**
+ * Load a payment request and check the caller may act on it as one of the
+ * given sides: the owner of that side's wallet or a holder of the
+ * transfers:write scope
+ */
+async function loadRequestFor(
+  req: Request,
+  requestId: string,
+  ...sides: ("payer" | "requester")[]
+): Promise<PaymentRequest> {
+  const request = await paymentRequestService.getRequest(requestId);
+
+  if (!request) {
+    throw new PaymentRequestNotFoundError(requestId);
+  }
+
+  const [walletId, otherWalletId] = sides.map((side) =>
+    side === "payer" ? request.payer_wallet_id : request.requester_wallet_id
+  );
+
+  try {
+    await assertWalletAccess(req.user, walletId, Scope.TRANSFERS_WRITE);
+  } catch (error) {
+    if (!(error instanceof ForbiddenError) || !otherWalletId) {
+      throw error;
+    }
+    await assertWalletAccess(req.user, otherWalletId);
+  }
+
+  return request;
+}
+
+/**
+ * POST /payment-requests
+ * Ask another wallet to pay an amount into the requester wallet before
+ * expiresInSeconds runs out
+ * Requires Idempotency-Key header; caller must own the requester wallet or
+ * hold the transfers:write scope
+ */
+router.post(
+  "/",
+  idempotencyMiddleware,
+  validate(createRequestSchema),
+  requireWalletOwner(
+    (req) => req.body.requesterWalletId,
+    Scope.TRANSFERS_WRITE
+  ),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Creating payment request", {
+      correlationId,
+      requesterWalletId: req.body.requesterWalletId,
+      payerWalletId: req.body.payerWalletId,
+      amount: req.body.amount,
+    });
+
+    try {
+      const request = await paymentRequestService.createRequest({
+        requester_wallet_id: req.body.requesterWalletId,
+        payer_wallet_id: req.body.payerWalletId,
+        amount: req.body.amount,
+        memo: req.body.memo,
+        metadata: req.body.metadata,
+        expires_in_seconds: req.body.expiresInSeconds,
+      });
+
+      res.status(201).json({ payment_request: request });
+    } catch (error) {
+      logger.error("Failed to create payment request", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /payment-requests
+ * List a wallet's incoming and outgoing payment requests, newest first
+ * Caller must own the wallet or hold the transfers:write scope
+ */
+router.get(
+  "/",
+  validate(listRequestsSchema),
+  requireWalletOwner(
+    (req) => req.query.walletId as string,
+    Scope.TRANSFERS_WRITE
+  ),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+
+    // TypeScript doesn't know that Zod validation transformed the query
+    const query = req.query as unknown as z.infer<
+      typeof listRequestsSchema.query
+    >;
+
+    logger.info("Listing payment requests", {
+      correlationId,
+      walletId: query.walletId,
+      role: query.role,
+    });
+
+    try {
+      const requests = await paymentRequestService.listRequests(
+        query.walletId,
+        query.role,
+        query.status
+      );
+
+      res.json({ payment_requests: requests });
+    } catch (error) {
+      logger.error("Failed to list payment requests", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /payment-requests/:id
+ * Get a payment request with its status and, once accepted, its transfer
+ * Caller must own the payer or the requester wallet, or hold the
+ * transfers:write scope
+ */
+router.get(
+  "/:id",
+  validate(requestIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Getting payment request", {
+      correlationId,
+      paymentRequestId: req.params.id,
+    });
+
+    try {
+      const request = await loadRequestFor(
+        req,
+        req.params.id,
+        "payer",
+        "requester"
+      );
+
+      res.json({ payment_request: request });
+    } catch (error) {
+      logger.error("Failed to get payment request", {
+        correlationId,
+        paymentRequestId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /payment-requests/:id/accept
+ * Pay a pending request with a transfer from the payer to the requester
+ * Requires Idempotency-Key header; caller must own the payer wallet or hold
+ * the transfers:write scope
+ */
+router.post(
+  "/:id/accept",
+  idempotencyMiddleware,
+  validate(requestIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Accepting payment request", {
+      correlationId,
+      paymentRequestId: req.params.id,
+    });
+
+    try {
+      await loadRequestFor(req, req.params.id, "payer");
+
+      const request = await paymentRequestService.acceptRequest(
+        req.params.id
+      );
+
+      res.json({ payment_request: request });
+    } catch (error) {
+      logger.error("Failed to accept payment request", {
+        correlationId,
+        paymentRequestId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /payment-requests/:id/decline
+ * Refuse a pending request without paying it
+ * Caller must own the payer wallet or hold the transfers:write scope
+ */
+router.post(
+  "/:id/decline",
+  validate(requestIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Declining payment request", {
+      correlationId,
+      paymentRequestId: req.params.id,
+    });
+
+    try {
+      await loadRequestFor(req, req.params.id, "payer");
+
+      const request = await paymentRequestService.declineRequest(
+        req.params.id
+      );
+
+      res.json({ payment_request: request });
+    } catch (error) {
+      logger.error("Failed to decline payment request", {
+        correlationId,
+        paymentRequestId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /payment-requests/:id/cancel
+ * Withdraw a pending request
+ * Caller must own the requester wallet or hold the transfers:write scope
+ */
+router.post(
+  "/:id/cancel",
+  validate(requestIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Cancelling payment request", {
+      correlationId,
+      paymentRequestId: req.params.id,
+    });
+
+    try {
+      await loadRequestFor(req, req.params.id, "requester");
+
+      const request = await paymentRequestService.cancelRequest(req.params.id);
+
+      res.json({ payment_request: request });
+    } catch (error) {
+      logger.error("Failed to cancel payment request", {
+        correlationId,
+        paymentRequestId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,303 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { scheduledTransferService } from "../services/ScheduledTransferService";
+import {
+  ScheduledTransfer,
+  SCHEDULED_TRANSFER_STATUSES,
+} from "../models/ScheduledTransfer";
+import { ScheduledTransferNotFoundError } from "../utils/errors";
+import {
+  validate,
+  uuidSchema,
+  positiveIntegerSchema,
+  memoSchema,
+  metadataSchema,
+  recurrenceSchema,
+} from "../middleware/validation";
+import { idempotencyMiddleware } from "../middleware/idempotency";
+import { assertWalletAccess, requireWalletOwner } from "../middleware/auth";
+import { Scope } from "../models/Principal";
+import { z } from "zod";
+import { logger, createRequestId } from "../utils/logger";
+
+const router = Router();
+
+const createScheduleSchema = {
+  body: z
+    .object({
+      senderWalletId: uuidSchema,
+      receiverWalletId: uuidSchema,
+      amount: positiveIntegerSchema,
+      startAt: z.coerce.date(),
+      recurrence: recurrenceSchema.optional(),
+      memo: memoSchema.optional(),
+      metadata: metadataSchema.optional(),
+    })
+    .refine((data) => data.senderWalletId !== data.receiverWalletId, {
+      message: "Cannot schedule transfers from a wallet to itself",
+      path: ["receiverWalletId"],
+    }),
+};
+
+const listSchedulesSchema = {
+  query: z.object({
+    walletId: uuidSchema,
+    // Comma-separated, e.g. status=active,paused
+    status: z
+      .string()
+      .transform((value) => value.split(","))
+      .pipe(z.array(z.enum(SCHEDULED_TRANSFER_STATUSES)))
+      .optional(),
+  }),
+};
+
+const scheduleIdSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+/**
+ * Load a schedule and check the caller may manage it: the sender wallet's
+ * owner or a holder of the transfers:write scope
+ */
+async function loadOwnedSchedule(
+  req: Request,
+  scheduleId: string
+): Promise<ScheduledTransfer> {
+  const schedule = await scheduledTransferService.getSchedule(scheduleId);
+
+  if (!schedule) {
+    throw new ScheduledTransferNotFoundError(scheduleId);
+  }
+
+  await assertWalletAccess(
+    req.user,
+    schedule.sender_wallet_id,
+    Scope.TRANSFERS_WRITE
+  );
+
+  return schedule;
+}
+
+/**
+ * POST /scheduled-transfers
+ * Schedule a transfer at startAt, repeating per recurrence when given
+ * Requires Idempotency-Key header; caller must own the sender wallet or
+ * hold the transfers:write scope
+ */
+router.post(
+  "/",
+  idempotencyMiddleware,
+  validate(createScheduleSchema),
+  requireWalletOwner(
+    (req) => req.body.senderWalletId,
+    Scope.TRANSFERS_WRITE
+  ),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Creating scheduled transfer", {
+      correlationId,
+      senderWalletId: req.body.senderWalletId,
+      receiverWalletId: req.body.receiverWalletId,
+      amount: req.body.amount,
+      startAt: req.body.startAt,
+      recurrence: req.body.recurrence,
+    });
+
+    try {
+      const schedule = await scheduledTransferService.createSchedule({
+        sender_wallet_id: req.body.senderWalletId,
+        receiver_wallet_id: req.body.receiverWalletId,
+        amount: req.body.amount,
+        start_at: req.body.startAt,
+        recurrence: req.body.recurrence,
+        memo: req.body.memo,
+        metadata: req.body.metadata,
+      });
+
+      res.status(201).json({ scheduled_transfer: schedule });
+    } catch (error) {
+      logger.error("Failed to create scheduled transfer", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /scheduled-transfers
+ * List the schedules a wallet pays from, newest first
+ * Caller must own the wallet or hold the transfers:write scope
+ */
+router.get(
+  "/",
+  validate(listSchedulesSchema),
+  requireWalletOwner(
+    (req) => req.query.walletId as string,
+    Scope.TRANSFERS_WRITE
+  ),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+
+    // TypeScript doesn't know that Zod validation transformed the query
+    const query = req.query as unknown as z.infer<
+      typeof listSchedulesSchema.query
+    >;
+
+    logger.info("Listing scheduled transfers", {
+      correlationId,
+      walletId: query.walletId,
+    });
+
+    try {
+      const schedules = await scheduledTransferService.listSchedules(
+        query.walletId,
+        query.status
+      );
+
+      res.json({ scheduled_transfers: schedules });
+    } catch (error) {
+      logger.error("Failed to list scheduled transfers", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /scheduled-transfers/:id
+ * Get a schedule with its next run and the outcome of its last one
+ * Caller must own the sender wallet or hold the transfers:write scope
+ */
+router.get(
+  "/:id",
+  validate(scheduleIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Getting scheduled transfer", {
+      correlationId,
+      scheduleId: req.params.id,
+    });
+
+    try {
+      const schedule = await loadOwnedSchedule(req, req.params.id);
+
+      res.json({ scheduled_transfer: schedule });
+    } catch (error) {
+      logger.error("Failed to get scheduled transfer", {
+        correlationId,
+        scheduleId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /scheduled-transfers/:id/pause
+ * Pause an active schedule; occurrences due meanwhile are skipped
+ * Caller must own the sender wallet or hold the transfers:write scope
+ */
+router.post(
+  "/:id/pause",
+  validate(scheduleIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Pausing scheduled transfer", {
+      correlationId,
+      scheduleId: req.params.id,
+    });
+
+    try {
+      await loadOwnedSchedule(req, req.params.id);
+
+      const schedule = await scheduledTransferService.pauseSchedule(
+        req.params.id
+      );
+
+      res.json({ scheduled_transfer: schedule });
+    } catch (error) {
+      logger.error("Failed to pause scheduled transfer", {
+        correlationId,
+        scheduleId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /scheduled-transfers/:id/resume
+ * Resume a paused schedule from its next occurrence that is not yet due
+ * Caller must own the sender wallet or hold the transfers:write scope
+ */
+router.post(
+  "/:id/resume",
+  validate(scheduleIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Resuming scheduled transfer", {
+      correlationId,
+      scheduleId: req.params.id,
+    });
+
+    try {
+      await loadOwnedSchedule(req, req.params.id);
+
+      const schedule = await scheduledTransferService.resumeSchedule(
+        req.params.id
+      );
+
+      res.json({ scheduled_transfer: schedule });
+    } catch (error) {
+      logger.error("Failed to resume scheduled transfer", {
+        correlationId,
+        scheduleId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /scheduled-transfers/:id/cancel
+ * Cancel an active or paused schedule for good
+ * Caller must own the sender wallet or hold the transfers:write scope
+ */
+router.post(
+  "/:id/cancel",
+  validate(scheduleIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Cancelling scheduled transfer", {
+      correlationId,
+      scheduleId: req.params.id,
+    });
+
+    try {
+      await loadOwnedSchedule(req, req.params.id);
+
+      const schedule = await scheduledTransferService.cancelSchedule(
+        req.params.id
+      );
+
+      res.json({ scheduled_transfer: schedule });
+    } catch (error) {
+      logger.error("Failed to cancel scheduled transfer", {
+        correlationId,
+        scheduleId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+export default router;
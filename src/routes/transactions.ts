@@ -1,14 +1,46 @@
-import { Router, Request, Response, NextFunction } from "express";
+import express, { Router, Request, Response, NextFunction } from "express";
 import { fundingService } from "../services/FundingService";
+import { withdrawalService } from "../services/WithdrawalService";
 import { transferService } from "../services/TransferService";
+import { transferBatchService } from "../services/TransferBatchService";
 import { ledgerService } from "../services/LedgerService";
+import { fxService } from "../services/FxService";
+import { FxQuote } from "../models/FxQuote";
+import { JOURNAL_TYPES } from "../models/Journal";
+import { LedgerHistoryEntry } from "../models/LedgerEntry";
+import {
+  TRANSFER_BATCH_MODES,
+  TransferBatchItemInput,
+} from "../models/TransferBatch";
+import {
+  ForbiddenError,
+  FxQuoteNotFoundError,
+  TransactionNotFoundError,
+  TransferBatchNotFoundError,
+  TransferNotFoundError,
+  ValidationError,
+  WithdrawalNotFoundError,
+} from "../utils/errors";
+import { parseCsv } from "../utils/csv";
 import {
   validate,
   uuidSchema,
   positiveIntegerSchema,
   externalPaymentRefSchema,
+  reasonSchema,
+  currencySchema,
+  memoSchema,
+  metadataSchema,
+  clientReferenceSchema,
 } from "../middleware/validation";
 import { idempotencyMiddleware } from "../middleware/idempotency";
+import { toTransferResponse } from "./transfers";
+import {
+  assertWalletAccess,
+  requireScope,
+  requireWalletOwner,
+} from "../middleware/auth";
+import { Scope } from "../models/Principal";
 import { z } from "zod";
 import { logger, createRequestId } from "../utils/logger";
 
@@ -22,12 +54,41 @@ const fundWalletSchema = {
   }),
 };
 
+const withdrawSchema = {
+  body: z.object({
+    walletId: uuidSchema,
+    amount: positiveIntegerSchema,
+    externalPaymentRef: externalPaymentRefSchema,
+    // Passed through to the payout provider, e.g. a bank account ID
+    destination: metadataSchema,
+  }),
+};
+
+const withdrawalIdSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+const failWithdrawalSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+  body: z.object({
+    reason: reasonSchema,
+  }),
+};
+
 const transferSchema = {
   body: z
     .object({
       senderWalletId: uuidSchema,
       receiverWalletId: uuidSchema,
       amount: positiveIntegerSchema,
+      quoteId: uuidSchema.optional(),
+      memo: memoSchema.optional(),
+      metadata: metadataSchema.optional(),
+      clientReference: clientReferenceSchema.optional(),
     })
     .refine((data) => data.senderWalletId !== data.receiverWalletId, {
       message: "Cannot transfer funds from a wallet to itself",
@@ -35,23 +96,254 @@ const transferSchema = {
     }),
 };
 
+const placeHoldSchema = {
+  body: z
+    .object({
+      senderWalletId: uuidSchema,
+      receiverWalletId: uuidSchema,
+      amount: positiveIntegerSchema,
+      // Up to 30 days; defaults to HOLD_TTL_SECONDS
+      expiresInSeconds: z
+        .number()
+        .int()
+        .positive()
+        .max(30 * 24 * 60 * 60)
+        .optional(),
+      memo: memoSchema.optional(),
+      metadata: metadataSchema.optional(),
+      clientReference: clientReferenceSchema.optional(),
+    })
+    .refine((data) => data.senderWalletId !== data.receiverWalletId, {
+      message: "Cannot hold funds from a wallet for itself",
+      path: ["receiverWalletId"],
+    }),
+};
+
+const captureHoldSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+  body: z.object({
+    amount: positiveIntegerSchema.optional(),
+  }),
+};
+
+const voidHoldSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+const batchItemSchema = z.object({
+  receiverWalletId: uuidSchema,
+  amount: positiveIntegerSchema,
+  memo: memoSchema.optional(),
+  metadata: metadataSchema.optional(),
+  clientReference: clientReferenceSchema.optional(),
+});
+
+const createBatchSchema = {
+  body: z.object({
+    senderWalletId: uuidSchema,
+    mode: z.enum(TRANSFER_BATCH_MODES).default("all_or_nothing"),
+    items: z.array(batchItemSchema).min(1, "A batch needs at least one item"),
+  }),
+};
+
+const createCsvBatchSchema = {
+  body: z.object({
+    senderWalletId: uuidSchema,
+    mode: z.enum(TRANSFER_BATCH_MODES).default("all_or_nothing"),
+    csv: z.string().min(1, "Send the items as a text/csv request body"),
+  }),
+};
+
+const getBatchSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+type BatchItemBody = z.infer<typeof batchItemSchema>;
+
+// Batch item field read from each CSV column
+const CSV_BATCH_COLUMNS: Record<string, keyof BatchItemBody> = {
+  receiver_wallet_id: "receiverWalletId",
+  amount: "amount",
+  client_reference: "clientReference",
+  memo: "memo",
+};
+
+// Errors listed in one response before the rest are only counted
+const MAX_CSV_ERRORS = 20;
+
+const createFxQuoteSchema = {
+  body: z
+    .object({
+      sourceCurrency: currencySchema,
+      targetCurrency: currencySchema,
+      amount: positiveIntegerSchema,
+    })
+    .refine((data) => data.sourceCurrency !== data.targetCurrency, {
+      message: "Source and target currencies must differ",
+      path: ["targetCurrency"],
+    }),
+};
+
+const getFxQuoteSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+const reverseTransferSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+  body: z.object({
+    amount: positiveIntegerSchema.optional(),
+    reason: reasonSchema.optional(),
+  }),
+};
+
 const getTransactionsSchema = {
   query: z.object({
     walletId: uuidSchema.optional(),
     limit: z.coerce.number().int().positive().max(100).optional().default(50),
-    offset: z.coerce.number().int().nonnegative().optional().default(0),
+    cursor: z.string().max(512).optional(),
+    direction: z.enum(["credit", "debit"]).optional(),
+    // Comma-separated, e.g. type=fund,reversal
+    type: z
+      .string()
+      .transform((value) => value.split(","))
+      .pipe(z.array(z.enum(JOURNAL_TYPES)))
+      .optional(),
+    minAmount: positiveIntegerSchema.optional(),
+    maxAmount: positiveIntegerSchema.optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    counterpartyWalletId: uuidSchema.optional(),
+    includeTotal: z
+      .enum(["true", "false"])
+      .transform((value) => value === "true")
+      .optional(),
+  }),
+};
+
+const getTransactionSchema = {
+  params: z.object({
+    id: uuidSchema,
   }),
 };
 
+function toBatchItemInput(item: BatchItemBody): TransferBatchItemInput {
+  return {
+    receiver_wallet_id: item.receiverWalletId,
+    amount: item.amount,
+    memo: item.memo,
+    metadata: item.metadata,
+    client_reference: item.clientReference,
+  };
+}
+
+/**
+ * Turn an uploaded CSV into batch items, checking each row against the same
+ * schema as JSON items. The header row names the columns in any order;
+ * receiver_wallet_id and amount are required, client_reference and memo
+ * optional. Errors are reported by line.
+ */
+function parseBatchCsv(csv: string): TransferBatchItemInput[] {
+  const [header, ...rows] = parseCsv(csv);
+  const columns = (header?.fields ?? []).map((f) => f.trim().toLowerCase());
+
+  const unknown = columns.filter((column) => !(column in CSV_BATCH_COLUMNS));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Invalid CSV: unknown columns ${unknown.join(", ")}`
+    );
+  }
+
+  for (const required of ["receiver_wallet_id", "amount"]) {
+    if (!columns.includes(required)) {
+      throw new ValidationError(`Invalid CSV: missing column ${required}`);
+    }
+  }
+
+  if (rows.length === 0) {
+    throw new ValidationError("Invalid CSV: no item rows");
+  }
+
+  const items: TransferBatchItemInput[] = [];
+  const errors: string[] = [];
+
+  for (const row of rows) {
+    if (row.fields.length !== columns.length) {
+      errors.push(
+        `line ${row.line}: expected ${columns.length} fields, got ${row.fields.length}`
+      );
+      continue;
+    }
+
+    // Empty cells are absent values, so optional columns may be left blank
+    const fields: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      const value = row.fields[i].trim();
+      if (value !== "") {
+        fields[CSV_BATCH_COLUMNS[column]] = value;
+      }
+    });
+
+    const parsed = batchItemSchema.safeParse(fields);
+
+    if (parsed.success) {
+      items.push(toBatchItemInput(parsed.data));
+    } else {
+      for (const issue of parsed.error.errors) {
+        const column = Object.keys(CSV_BATCH_COLUMNS).find(
+          (name) => CSV_BATCH_COLUMNS[name] === issue.path[0]
+        );
+        errors.push(`line ${row.line}: ${column}: ${issue.message}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    const more =
+      errors.length > MAX_CSV_ERRORS
+        ? ` and ${errors.length - MAX_CSV_ERRORS} more`
+        : "";
+    throw new ValidationError(
+      `Invalid CSV: ${errors.slice(0, MAX_CSV_ERRORS).join(", ")}${more}`
+    );
+  }
+
+  return items;
+}
+
+/**
+ * Fold the text/csv body and the query string into one body, so the
+ * idempotency key covers both and validate() checks them together
+ */
+function csvBatchBody(req: Request, res: Response, next: NextFunction) {
+  req.body = {
+    senderWalletId: req.query.senderWalletId,
+    mode: req.query.mode,
+    csv: typeof req.body === "string" ? req.body : "",
+  };
+  next();
+}
+
 /**
  * POST /transactions/fund
  * Fund a wallet via external payment reference
- * Requires Idempotency-Key header
+ * Requires Idempotency-Key header; caller must own the wallet or hold the
+ * funding:write scope
  */
 router.post(
   "/fund",
   idempotencyMiddleware,
   validate(fundWalletSchema),
+  requireWalletOwner((req) => req.body.walletId, Scope.FUNDING_WRITE),
   async (req: Request, res: Response, next: NextFunction) => {
     const requestId = createRequestId();
     logger.info("Funding wallet", {
@@ -69,9 +361,11 @@ router.post(
           id: entry.id,
           wallet_id: entry.wallet_id,
           amount: entry.amount,
+          currency: entry.currency,
           direction: entry.direction,
           transaction_reference: entry.transaction_reference,
           external_payment_ref: entry.external_payment_ref,
+          balance_after: entry.balance_after,
           created_at: entry.created_at,
         },
       });
@@ -85,15 +379,170 @@ router.post(
   }
 );
 
+/**
+ * POST /transactions/withdraw
+ * Pay funds out of a wallet to an external destination through the payout
+ * provider; the withdrawal stays pending until the provider reports it
+ * settled or failed
+ * Requires Idempotency-Key header; caller must own the wallet or hold the
+ * payouts:write scope
+ */
+router.post(
+  "/withdraw",
+  idempotencyMiddleware,
+  validate(withdrawSchema),
+  requireWalletOwner((req) => req.body.walletId, Scope.PAYOUTS_WRITE),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = createRequestId();
+    logger.info("Withdrawing from wallet", {
+      requestId,
+      walletId: req.body.walletId,
+      amount: req.body.amount,
+      externalPaymentRef: req.body.externalPaymentRef,
+    });
+
+    try {
+      const withdrawal = await withdrawalService.withdraw({
+        wallet_id: req.body.walletId,
+        amount: req.body.amount,
+        external_payment_ref: req.body.externalPaymentRef,
+        destination: req.body.destination,
+      });
+
+      res.status(201).json({ withdrawal });
+    } catch (error) {
+      logger.error("Failed to withdraw from wallet", {
+        requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /transactions/withdrawals/:id
+ * Get a withdrawal with its settlement status
+ * Caller must own the wallet or hold the payouts:write scope
+ */
+router.get(
+  "/withdrawals/:id",
+  validate(withdrawalIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = createRequestId();
+    logger.info("Getting withdrawal", {
+      requestId,
+      withdrawalId: req.params.id,
+    });
+
+    try {
+      const withdrawal = await withdrawalService.getWithdrawal(req.params.id);
+
+      if (!withdrawal) {
+        throw new WithdrawalNotFoundError(req.params.id);
+      }
+
+      await assertWalletAccess(
+        req.user,
+        withdrawal.wallet_id,
+        Scope.PAYOUTS_WRITE
+      );
+
+      res.json({ withdrawal });
+    } catch (error) {
+      logger.error("Failed to get withdrawal", {
+        requestId,
+        withdrawalId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /transactions/withdrawals/:id/settle
+ * Payout provider callback: the payout reached its destination
+ * Requires the admin or payouts:callback scope
+ */
+router.post(
+  "/withdrawals/:id/settle",
+  requireScope(Scope.ADMIN, Scope.PAYOUTS_CALLBACK),
+  validate(withdrawalIdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = createRequestId();
+    logger.info("Settling withdrawal", {
+      requestId,
+      withdrawalId: req.params.id,
+    });
+
+    try {
+      const withdrawal = await withdrawalService.settleWithdrawal(
+        req.params.id
+      );
+
+      res.json({ withdrawal });
+    } catch (error) {
+      logger.error("Failed to settle withdrawal", {
+        requestId,
+        withdrawalId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /transactions/withdrawals/:id/fail
+ * Payout provider callback: the payout failed, so its debit is returned to
+ * the wallet
+ * Requires the admin or payouts:callback scope
+ */
+router.post(
+  "/withdrawals/:id/fail",
+  requireScope(Scope.ADMIN, Scope.PAYOUTS_CALLBACK),
+  validate(failWithdrawalSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = createRequestId();
+    logger.info("Failing withdrawal", {
+      requestId,
+      withdrawalId: req.params.id,
+      reason: req.body.reason,
+    });
+
+    try {
+      const withdrawal = await withdrawalService.failWithdrawal(
+        req.params.id,
+        req.body.reason
+      );
+
+      res.json({ withdrawal });
+    } catch (error) {
+      logger.error("Failed to fail withdrawal", {
+        requestId,
+        withdrawalId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /transactions/transfer
  * Transfer funds between two wallets
- * Requires Idempotency-Key header
+ * Requires Idempotency-Key header; caller must own the sender wallet or
+ * hold the transfers:write scope
  */
 router.post(
   "/transfer",
   idempotencyMiddleware,
   validate(transferSchema),
+  requireWalletOwner(
+    (req) => req.body.senderWalletId,
+    Scope.TRANSFERS_WRITE
+  ),
   async (req: Request, res: Response, next: NextFunction) => {
     const correlationId = createRequestId();
     logger.info("Initiating transfer", {
@@ -101,6 +550,8 @@ router.post(
       senderWalletId: req.body.senderWalletId,
       receiverWalletId: req.body.receiverWalletId,
       amount: req.body.amount,
+      quoteId: req.body.quoteId,
+      clientReference: req.body.clientReference,
     });
 
     try {
@@ -108,20 +559,431 @@ router.post(
         sender_wallet_id: req.body.senderWalletId,
         receiver_wallet_id: req.body.receiverWalletId,
         amount: req.body.amount,
+        quote_id: req.body.quoteId,
+        memo: req.body.memo,
+        metadata: req.body.metadata,
+        client_reference: req.body.clientReference,
+      });
+
+      res.status(201).json({ transfer: toTransferResponse(transfer) });
+    } catch (error) {
+      logger.error("Transfer failed", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /transactions/transfer/quote
+ * Dry run of a transfer: the fee it would be charged and the total debit
+ * Caller must own the sender wallet or hold the transfers:write scope
+ */
+router.post(
+  "/transfer/quote",
+  validate(transferSchema),
+  requireWalletOwner(
+    (req) => req.body.senderWalletId,
+    Scope.TRANSFERS_WRITE
+  ),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Quoting transfer fee", {
+      correlationId,
+      senderWalletId: req.body.senderWalletId,
+      receiverWalletId: req.body.receiverWalletId,
+      amount: req.body.amount,
+    });
+
+    try {
+      const preview = await transferService.previewFee({
+        sender_wallet_id: req.body.senderWalletId,
+        receiver_wallet_id: req.body.receiverWalletId,
+        amount: req.body.amount,
+      });
+
+      res.json({ quote: preview });
+    } catch (error) {
+      logger.error("Failed to quote transfer fee", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /transactions/holds
+ * Reserve funds in the sender wallet for the receiver, to be captured or
+ * voided later; the hold expires after expiresInSeconds
+ * Requires Idempotency-Key header; caller must own the sender wallet or
+ * hold the transfers:write scope
+ */
+router.post(
+  "/holds",
+  idempotencyMiddleware,
+  validate(placeHoldSchema),
+  requireWalletOwner(
+    (req) => req.body.senderWalletId,
+    Scope.TRANSFERS_WRITE
+  ),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Placing hold", {
+      correlationId,
+      senderWalletId: req.body.senderWalletId,
+      receiverWalletId: req.body.receiverWalletId,
+      amount: req.body.amount,
+      expiresInSeconds: req.body.expiresInSeconds,
+      clientReference: req.body.clientReference,
+    });
+
+    try {
+      const hold = await transferService.placeHold({
+        sender_wallet_id: req.body.senderWalletId,
+        receiver_wallet_id: req.body.receiverWalletId,
+        amount: req.body.amount,
+        expires_in_seconds: req.body.expiresInSeconds,
+        memo: req.body.memo,
+        metadata: req.body.metadata,
+        client_reference: req.body.clientReference,
+      });
+
+      res.status(201).json({ transfer: toTransferResponse(hold) });
+    } catch (error) {
+      logger.error("Failed to place hold", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /transactions/holds/:id/capture
+ * Complete a hold for its full amount, or for less when amount is given;
+ * the rest is released
+ * Requires Idempotency-Key header; caller must own the receiver wallet or
+ * hold the transfers:write scope
+ */
+router.post(
+  "/holds/:id/capture",
+  idempotencyMiddleware,
+  validate(captureHoldSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Capturing hold", {
+      correlationId,
+      transferId: req.params.id,
+      amount: req.body.amount,
+    });
+
+    try {
+      const hold = await transferService.getTransfer(req.params.id);
+
+      if (!hold) {
+        throw new TransferNotFoundError(req.params.id);
+      }
+
+      await assertWalletAccess(
+        req.user,
+        hold.receiver_wallet_id,
+        Scope.TRANSFERS_WRITE
+      );
+
+      const transfer = await transferService.captureHold({
+        transfer_id: req.params.id,
+        amount: req.body.amount,
+      });
+
+      res.json({ transfer: toTransferResponse(transfer) });
+    } catch (error) {
+      logger.error("Failed to capture hold", {
+        correlationId,
+        transferId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /transactions/holds/:id/void
+ * Release a hold without moving any money
+ * Requires Idempotency-Key header; caller must own the sender or the
+ * receiver wallet, or hold the transfers:write scope
+ */
+router.post(
+  "/holds/:id/void",
+  idempotencyMiddleware,
+  validate(voidHoldSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Voiding hold", { correlationId, transferId: req.params.id });
+
+    try {
+      const hold = await transferService.getTransfer(req.params.id);
+
+      if (!hold) {
+        throw new TransferNotFoundError(req.params.id);
+      }
+
+      try {
+        await assertWalletAccess(
+          req.user,
+          hold.sender_wallet_id,
+          Scope.TRANSFERS_WRITE
+        );
+      } catch (error) {
+        if (!(error instanceof ForbiddenError)) {
+          throw error;
+        }
+        await assertWalletAccess(req.user, hold.receiver_wallet_id);
+      }
+
+      const transfer = await transferService.voidHold(req.params.id);
+
+      res.json({ transfer: toTransferResponse(transfer) });
+    } catch (error) {
+      logger.error("Failed to void hold", {
+        correlationId,
+        transferId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /transactions/batches
+ * Queue up to TRANSFER_BATCH_MAX_ITEMS transfers from one sender, run
+ * asynchronously all-or-nothing or best-effort; poll GET
+ * /transactions/batches/:id for the outcome
+ * Requires Idempotency-Key header; caller must own the sender wallet or
+ * hold the transfers:write scope
+ */
+router.post(
+  "/batches",
+  idempotencyMiddleware,
+  validate(createBatchSchema),
+  requireWalletOwner((req) => req.body.senderWalletId, Scope.TRANSFERS_WRITE),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Creating transfer batch", {
+      correlationId,
+      senderWalletId: req.body.senderWalletId,
+      mode: req.body.mode,
+      itemCount: req.body.items.length,
+    });
+
+    try {
+      const batch = await transferBatchService.createBatch({
+        sender_wallet_id: req.body.senderWalletId,
+        mode: req.body.mode,
+        items: req.body.items.map(toBatchItemInput),
+      });
+
+      res.status(202).json({ batch });
+    } catch (error) {
+      logger.error("Failed to create transfer batch", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /transactions/batches/csv?senderWalletId=...&mode=...
+ * Same as POST /transactions/batches with the items uploaded as a text/csv
+ * body: a header row, then one transfer per row
+ * Requires Idempotency-Key header; caller must own the sender wallet or
+ * hold the transfers:write scope
+ */
+router.post(
+  "/batches/csv",
+  express.text({ type: "text/csv", limit: "1mb" }),
+  csvBatchBody,
+  idempotencyMiddleware,
+  validate(createCsvBatchSchema),
+  requireWalletOwner((req) => req.body.senderWalletId, Scope.TRANSFERS_WRITE),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Creating transfer batch from CSV", {
+      correlationId,
+      senderWalletId: req.body.senderWalletId,
+      mode: req.body.mode,
+    });
+
+    try {
+      const batch = await transferBatchService.createBatch({
+        sender_wallet_id: req.body.senderWalletId,
+        mode: req.body.mode,
+        items: parseBatchCsv(req.body.csv),
+      });
+
+      res.status(202).json({ batch });
+    } catch (error) {
+      logger.error("Failed to create transfer batch from CSV", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /transactions/batches/:id
+ * Get a batch's status with the outcome of every item, in request order
+ * Caller must own the sender wallet or hold the transfers:write scope
+ */
+router.get(
+  "/batches/:id",
+  validate(getBatchSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Getting transfer batch", {
+      correlationId,
+      batchId: req.params.id,
+    });
+
+    try {
+      const batch = await transferBatchService.getBatch(req.params.id);
+
+      if (!batch) {
+        throw new TransferBatchNotFoundError(req.params.id);
+      }
+
+      await assertWalletAccess(
+        req.user,
+        batch.sender_wallet_id,
+        Scope.TRANSFERS_WRITE
+      );
+
+      const items = await transferBatchService.getBatchItems(batch.id);
+
+      res.json({ batch, items });
+    } catch (error) {
+      logger.error("Failed to get transfer batch", {
+        correlationId,
+        batchId: req.params.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /transactions/fx-quotes
+ * Lock an FX rate for converting an amount between two currencies
+ * Requires Idempotency-Key header
+ */
+router.post(
+  "/fx-quotes",
+  idempotencyMiddleware,
+  validate(createFxQuoteSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Creating FX quote", {
+      correlationId,
+      sourceCurrency: req.body.sourceCurrency,
+      targetCurrency: req.body.targetCurrency,
+      amount: req.body.amount,
+    });
+
+    try {
+      const quote = await fxService.createQuote({
+        source_currency: req.body.sourceCurrency,
+        target_currency: req.body.targetCurrency,
+        source_amount: req.body.amount,
+      });
+
+      res.status(201).json({ quote: toQuoteResponse(quote) });
+    } catch (error) {
+      logger.error("Failed to create FX quote", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /transactions/fx-quotes/:id
+ * Get an FX quote
+ */
+router.get(
+  "/fx-quotes/:id",
+  validate(getFxQuoteSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Getting FX quote", { correlationId, quoteId: req.params.id });
+
+    try {
+      const quote = await fxService.getQuote(req.params.id);
+
+      if (!quote) {
+        throw new FxQuoteNotFoundError(req.params.id);
+      }
+
+      res.json({ quote: toQuoteResponse(quote) });
+    } catch (error) {
+      logger.error("Failed to get FX quote", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /transactions/transfer/:id/reverse
+ * Reverse a completed transfer in full, or partially when amount is given
+ * Requires Idempotency-Key header and the admin scope
+ */
+router.post(
+  "/transfer/:id/reverse",
+  requireScope(Scope.ADMIN),
+  idempotencyMiddleware,
+  validate(reverseTransferSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Reversing transfer", {
+      correlationId,
+      transferId: req.params.id,
+      amount: req.body.amount,
+    });
+
+    try {
+      const { transfer, reversal } = await transferService.reverseTransfer({
+        transfer_id: req.params.id,
+        amount: req.body.amount,
+        reason: req.body.reason,
       });
 
       res.status(201).json({
-        transfer: {
-          id: transfer.id,
-          sender_wallet_id: transfer.sender_wallet_id,
-          receiver_wallet_id: transfer.receiver_wallet_id,
-          amount: transfer.amount,
-          status: transfer.status,
-          created_at: transfer.created_at,
+        reversal: {
+          id: reversal.id,
+          transfer_id: reversal.transfer_id,
+          amount: reversal.amount,
+          reason: reversal.reason,
+          created_at: reversal.created_at,
         },
+        transfer: toTransferResponse(transfer),
       });
     } catch (error) {
-      logger.error("Transfer failed", {
+      logger.error("Transfer reversal failed", {
         correlationId,
         error: error instanceof Error ? error.message : String(error),
       });
@@ -132,20 +994,23 @@ router.post(
 
 /**
  * GET /transactions
- * Get transaction history for a wallet
+ * Get a page of transaction history for a wallet, newest first, with
+ * optional filters; pass pagination.next_cursor back as cursor for more
+ * Caller must own the wallet
  */
 router.get(
   "/",
   validate(getTransactionsSchema),
+  requireWalletOwner((req) => req.query.walletId as string | undefined),
   async (req: Request, res: Response, next: NextFunction) => {
     const correlationId = createRequestId();
-    const { walletId, limit, offset } = req.query;
+    const { walletId, limit, cursor } = req.query;
 
     logger.info("Getting transactions", {
       correlationId,
       walletId,
       limit,
-      offset,
+      cursor,
     });
 
     try {
@@ -156,32 +1021,33 @@ router.get(
         });
       }
 
-      // TypeScript doesn't know that Zod validation coerced these to numbers
-      const limitNum = typeof limit === "number" ? limit : Number(limit) || 50;
-      const offsetNum =
-        typeof offset === "number" ? offset : Number(offset) || 0;
+      // TypeScript doesn't know that Zod validation coerced the query
+      const query = req.query as unknown as z.infer<
+        typeof getTransactionsSchema.query
+      >;
 
-      const entries = await ledgerService.getEntries(
-        walletId as string,
-        limitNum,
-        offsetNum
-      );
+      const page = await ledgerService.getEntries({
+        wallet_id: walletId as string,
+        limit: query.limit,
+        cursor: query.cursor,
+        direction: query.direction,
+        types: query.type,
+        min_amount: query.minAmount,
+        max_amount: query.maxAmount,
+        from: query.from,
+        to: query.to,
+        counterparty_wallet_id: query.counterpartyWalletId,
+        include_total: query.includeTotal,
+      });
 
       res.json({
-        transactions: entries.map((entry) => ({
-          id: entry.id,
-          wallet_id: entry.wallet_id,
-          amount: entry.amount,
-          direction: entry.direction,
-          transaction_reference: entry.transaction_reference,
-          transfer_id: entry.transfer_id,
-          external_payment_ref: entry.external_payment_ref,
-          created_at: entry.created_at,
-        })),
+        transactions: page.entries.map(toHistoryResponse),
         pagination: {
-          limit: limitNum,
-          offset: offsetNum,
-          count: entries.length,
+          limit: query.limit,
+          count: page.entries.length,
+          next_cursor: page.next_cursor,
+          has_more: page.next_cursor !== null,
+          ...(page.total !== undefined && { total: page.total }),
         },
       });
     } catch (error) {
@@ -194,4 +1060,77 @@ router.get(
   }
 );
 
+/**
+ * GET /transactions/:id
+ * Get a single ledger entry with its type, status and counterparty
+ * Caller must own the entry's wallet
+ */
+router.get(
+  "/:id",
+  validate(getTransactionSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    const { id } = req.params;
+
+    logger.info("Getting transaction", {
+      correlationId,
+      entryId: id,
+    });
+
+    try {
+      const entry = await ledgerService.getHistoryEntry(id);
+
+      if (!entry) {
+        throw new TransactionNotFoundError(id);
+      }
+
+      await assertWalletAccess(req.user, entry.wallet_id);
+
+      res.json({ transaction: toHistoryResponse(entry) });
+    } catch (error) {
+      logger.error("Failed to get transaction", {
+        correlationId,
+        entryId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+function toHistoryResponse(entry: LedgerHistoryEntry) {
+  return {
+    id: entry.id,
+    wallet_id: entry.wallet_id,
+    amount: entry.amount,
+    currency: entry.currency,
+    direction: entry.direction,
+    type: entry.type,
+    status: entry.status,
+    counterparty: entry.counterparty,
+    transaction_reference: entry.transaction_reference,
+    transfer_id: entry.transfer_id,
+    external_payment_ref: entry.external_payment_ref,
+    memo: entry.memo,
+    client_reference: entry.client_reference,
+    metadata: entry.metadata,
+    balance_after: entry.balance_after,
+    created_at: entry.created_at,
+  };
+}
+
+function toQuoteResponse(quote: FxQuote) {
+  return {
+    id: quote.id,
+    source_currency: quote.source_currency,
+    target_currency: quote.target_currency,
+    rate: quote.rate,
+    source_amount: quote.source_amount,
+    target_amount: quote.target_amount,
+    expires_at: quote.expires_at,
+    used: quote.used_at !== null,
+    created_at: quote.created_at,
+  };
+}
+
 export default router;
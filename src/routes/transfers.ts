@@ -0,0 +1,177 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { transferService } from "../services/TransferService";
+import { LedgerEntry } from "../models/LedgerEntry";
+import { Transfer, TRANSFER_STATUSES } from "../models/Transfer";
+import { ForbiddenError, TransferNotFoundError } from "../utils/errors";
+import { validate, uuidSchema } from "../middleware/validation";
+import { assertWalletAccess, requireWalletOwner } from "../middleware/auth";
+import { z } from "zod";
+import { logger, createRequestId } from "../utils/logger";
+
+const router = Router();
+
+const listTransfersSchema = {
+  query: z.object({
+    walletId: uuidSchema,
+    limit: z.coerce.number().int().positive().max(100).optional().default(50),
+    cursor: z.string().max(512).optional(),
+    role: z.enum(["sender", "receiver"]).optional(),
+    // Comma-separated, e.g. status=partially_reversed,reversed
+    status: z
+      .string()
+      .transform((value) => value.split(","))
+      .pipe(z.array(z.enum(TRANSFER_STATUSES)))
+      .optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  }),
+};
+
+const getTransferSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+/**
+ * GET /transfers
+ * Get a page of the transfers a wallet sent or received, newest first, each
+ * with its ledger entries; pass pagination.next_cursor back as cursor for more
+ * Caller must own the wallet
+ */
+router.get(
+  "/",
+  validate(listTransfersSchema),
+  requireWalletOwner((req) => req.query.walletId as string),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+
+    // TypeScript doesn't know that Zod validation coerced the query
+    const query = req.query as unknown as z.infer<
+      typeof listTransfersSchema.query
+    >;
+
+    logger.info("Listing transfers", {
+      correlationId,
+      walletId: query.walletId,
+      role: query.role,
+      cursor: query.cursor,
+    });
+
+    try {
+      const page = await transferService.listTransfers({
+        wallet_id: query.walletId,
+        limit: query.limit,
+        cursor: query.cursor,
+        role: query.role,
+        statuses: query.status,
+        from: query.from,
+        to: query.to,
+      });
+
+      res.json({
+        transfers: page.transfers.map((transfer) => ({
+          ...toTransferResponse(transfer),
+          entries: transfer.entries.map(toEntryResponse),
+        })),
+        pagination: {
+          limit: query.limit,
+          count: page.transfers.length,
+          next_cursor: page.next_cursor,
+          has_more: page.next_cursor !== null,
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to list transfers", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /transfers/:id
+ * Get a transfer with the ledger entries of its transfer journal
+ * Caller must own the sender or the receiver wallet
+ */
+router.get(
+  "/:id",
+  validate(getTransferSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    const { id } = req.params;
+
+    logger.info("Getting transfer", { correlationId, transferId: id });
+
+    try {
+      const transfer = await transferService.getTransferWithEntries(id);
+
+      if (!transfer) {
+        throw new TransferNotFoundError(id);
+      }
+
+      try {
+        await assertWalletAccess(req.user, transfer.sender_wallet_id);
+      } catch (error) {
+        if (!(error instanceof ForbiddenError)) {
+          throw error;
+        }
+        await assertWalletAccess(req.user, transfer.receiver_wallet_id);
+      }
+
+      res.json({
+        transfer: {
+          ...toTransferResponse(transfer),
+          entries: transfer.entries.map(toEntryResponse),
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to get transfer", {
+        correlationId,
+        transferId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+export function toTransferResponse(transfer: Transfer) {
+  return {
+    id: transfer.id,
+    sender_wallet_id: transfer.sender_wallet_id,
+    receiver_wallet_id: transfer.receiver_wallet_id,
+    amount: transfer.amount,
+    currency: transfer.currency,
+    receiver_amount: transfer.receiver_amount,
+    receiver_currency: transfer.receiver_currency,
+    fx_quote_id: transfer.fx_quote_id,
+    fee_amount: transfer.fee_amount,
+    reversed_amount: transfer.reversed_amount,
+    status: transfer.status,
+    memo: transfer.memo,
+    metadata: transfer.metadata,
+    client_reference: transfer.client_reference,
+    authorized_amount: transfer.authorized_amount,
+    hold_expires_at: transfer.hold_expires_at,
+    created_at: transfer.created_at,
+  };
+}
+
+/**
+ * Legs omit balance_after, which would reveal the other party's balance
+ */
+function toEntryResponse(entry: LedgerEntry) {
+  return {
+    id: entry.id,
+    wallet_id: entry.wallet_id,
+    amount: entry.amount,
+    currency: entry.currency,
+    direction: entry.direction,
+    created_at: entry.created_at,
+  };
+}
+
+export default router;
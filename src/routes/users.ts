@@ -1,6 +1,20 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { walletService } from "../services/WalletService";
-import { validate, emailSchema, nameSchema } from "../middleware/validation";
+import {
+  validate,
+  emailSchema,
+  nameSchema,
+  currencySchema,
+  uuidSchema,
+  tierSchema,
+  walletLabelSchema,
+} from "../middleware/validation";
+import {
+  authenticate,
+  requireScope,
+  assertUserAccess,
+} from "../middleware/auth";
+import { Scope } from "../models/Principal";
 import { z } from "zod";
 import { logger, createRequestId } from "../utils/logger";
 
@@ -10,37 +24,78 @@ const createUserSchema = {
   body: z.object({
     email: emailSchema,
     name: nameSchema,
+    currency: currencySchema.optional(),
+  }),
+};
+
+const setTierSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+  body: z.object({
+    tier: tierSchema,
+  }),
+};
+
+const listWalletsSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+const createWalletSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+  body: z.object({
+    label: walletLabelSchema,
+    currency: currencySchema.optional(),
+  }),
+};
+
+const setDefaultWalletSchema = {
+  params: z.object({
+    id: uuidSchema,
+    walletId: uuidSchema,
   }),
 };
 
 /**
  * GET /users
- * Get all users with their wallet IDs
+ * Get all users with their default wallet IDs
+ * Requires the admin scope
  */
-router.get("/", async (req: Request, res: Response, next: NextFunction) => {
-  const correlationId = createRequestId();
-  logger.info("Getting all users", { correlationId });
-
-  try {
-    const users = await walletService.getAllUsersWithWallets();
-
-    res.json({
-      users: users.map((u) => ({
-        id: u.user.id,
-        email: u.user.email,
-        name: u.user.name,
-        wallet_id: u.wallet.id,
-        created_at: u.user.created_at,
-      })),
-    });
-  } catch (error) {
-    logger.error("Failed to get users", {
-      correlationId,
-      error: error instanceof Error ? error.message : String(error),
-    });
-    next(error);
+router.get(
+  "/",
+  authenticate,
+  requireScope(Scope.ADMIN),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Getting all users", { correlationId });
+
+    try {
+      const users = await walletService.getAllUsersWithWallets();
+
+      res.json({
+        users: users.map((u) => ({
+          id: u.user.id,
+          email: u.user.email,
+          name: u.user.name,
+          tier: u.user.tier,
+          wallet_id: u.wallet.id,
+          currency: u.wallet.currency,
+          created_at: u.user.created_at,
+        })),
+      });
+    } catch (error) {
+      logger.error("Failed to get users", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
   }
-});
+);
 
 /**
  * POST /users
@@ -69,6 +124,9 @@ router.post(
         wallet: {
           id: wallet.id,
           user_id: wallet.user_id,
+          label: wallet.label,
+          is_default: wallet.is_default,
+          currency: wallet.currency,
           created_at: wallet.created_at,
         },
       });
@@ -82,4 +140,153 @@ router.post(
   }
 );
 
+/**
+ * PUT /users/:id/tier
+ * Move a user to another tier; fee schedules for that tier apply from their
+ * next transfer
+ * Requires the admin scope
+ */
+router.put(
+  "/:id/tier",
+  authenticate,
+  requireScope(Scope.ADMIN),
+  validate(setTierSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Setting user tier", {
+      correlationId,
+      userId: req.params.id,
+      tier: req.body.tier,
+    });
+
+    try {
+      const user = await walletService.setUserTier(
+        req.params.id,
+        req.body.tier
+      );
+
+      res.json({
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          tier: user.tier,
+          created_at: user.created_at,
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to set user tier", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /users/:id/wallets
+ * List a user's wallets with their balances, default wallet first
+ * Caller must be that user
+ */
+router.get(
+  "/:id/wallets",
+  authenticate,
+  validate(listWalletsSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Listing user wallets", {
+      correlationId,
+      userId: req.params.id,
+    });
+
+    try {
+      assertUserAccess(req.user, req.params.id);
+
+      const wallets = await walletService.listUserWallets(req.params.id);
+
+      res.json({ wallets });
+    } catch (error) {
+      logger.error("Failed to list user wallets", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /users/:id/wallets
+ * Open another labelled wallet for a user, optionally in another currency
+ * Caller must be that user
+ */
+router.post(
+  "/:id/wallets",
+  authenticate,
+  validate(createWalletSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Creating wallet", {
+      correlationId,
+      userId: req.params.id,
+      label: req.body.label,
+    });
+
+    try {
+      assertUserAccess(req.user, req.params.id);
+
+      const wallet = await walletService.createWallet({
+        user_id: req.params.id,
+        label: req.body.label,
+        currency: req.body.currency,
+      });
+
+      res.status(201).json({ wallet });
+    } catch (error) {
+      logger.error("Failed to create wallet", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /users/:id/wallets/:walletId/default
+ * Make one of the user's wallets their default
+ * Caller must be that user
+ */
+router.put(
+  "/:id/wallets/:walletId/default",
+  authenticate,
+  validate(setDefaultWalletSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Setting default wallet", {
+      correlationId,
+      userId: req.params.id,
+      walletId: req.params.walletId,
+    });
+
+    try {
+      assertUserAccess(req.user, req.params.id);
+
+      const wallet = await walletService.setDefaultWallet(
+        req.params.id,
+        req.params.walletId
+      );
+
+      res.json({ wallet });
+    } catch (error) {
+      logger.error("Failed to set default wallet", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
 export default router;
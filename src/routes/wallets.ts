@@ -1,6 +1,26 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { walletService } from "../services/WalletService";
-import { validate, uuidSchema, emailSchema } from "../middleware/validation";
+import { spendingLimitService } from "../services/SpendingLimitService";
+import { statementService } from "../services/StatementService";
+import {
+  createStatementWriter,
+  STATEMENT_CONTENT_TYPES,
+} from "../statements/writers";
+import { STATEMENT_FORMATS } from "../models/Statement";
+import {
+  validate,
+  uuidSchema,
+  emailSchema,
+  reasonSchema,
+} from "../middleware/validation";
+import {
+  assertUserAccess,
+  canAccessUser,
+  requireWalletOwner,
+  requireScope,
+} from "../middleware/auth";
+import { idempotencyMiddleware } from "../middleware/idempotency";
+import { Scope } from "../models/Principal";
 import { z } from "zod";
 import { logger, createRequestId } from "../utils/logger";
 
@@ -12,6 +32,49 @@ const getBalanceSchema = {
   }),
 };
 
+const getLimitsSchema = {
+  params: z.object({
+    walletId: uuidSchema,
+  }),
+};
+
+const getStatementSchema = {
+  params: z.object({
+    walletId: uuidSchema,
+  }),
+  query: z.object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    format: z.enum(STATEMENT_FORMATS).optional().default("json"),
+  }),
+};
+
+const getStatusHistorySchema = {
+  params: z.object({
+    walletId: uuidSchema,
+  }),
+};
+
+const setStatusSchema = {
+  params: z.object({
+    walletId: uuidSchema,
+  }),
+  body: z.object({
+    status: z.enum(["active", "frozen", "debit_frozen"]),
+    reason: reasonSchema,
+  }),
+};
+
+const closeWalletSchema = {
+  params: z.object({
+    walletId: uuidSchema,
+  }),
+  body: z.object({
+    reason: reasonSchema,
+    sweepToWalletId: uuidSchema.optional(),
+  }),
+};
+
 const getBalanceByEmailSchema = {
   params: z.object({
     email: emailSchema,
@@ -20,7 +83,9 @@ const getBalanceByEmailSchema = {
 
 /**
  * GET /wallets/balance/by-email/:email
- * Get wallet balance for a user by email
+ * Get wallet balance for a user by email: the ledger balance and the
+ * available balance after holds
+ * Caller must be that user; any other email is reported not found
  * This route must come before /:userId/balance to avoid route conflicts
  */
 router.get(
@@ -38,7 +103,9 @@ router.get(
     try {
       const user = await walletService.getUserByEmail(email);
 
-      if (!user) {
+      // Someone else's email answers like an unregistered one, so the route
+      // can't be used to find out who has an account
+      if (!user || !canAccessUser(req.user!, user.id)) {
         return res.status(404).json({
           error: "USER_NOT_FOUND",
           message: `User with email ${email} not found`,
@@ -54,13 +121,18 @@ router.get(
         });
       }
 
-      const balance = await walletService.getBalance(wallet.id);
+      const { ledger_balance, available_balance } =
+        await walletService.getBalances(wallet.id);
 
       res.json({
         wallet_id: wallet.id,
         user_id: user.id,
         email: user.email,
-        balance,
+        balance: ledger_balance,
+        ledger_balance,
+        available_balance,
+        currency: wallet.currency,
+        status: wallet.status,
       });
     } catch (error) {
       logger.error("Failed to get balance by email", {
@@ -75,7 +147,9 @@ router.get(
 
 /**
  * GET /wallets/:userId/balance
- * Get wallet balance for a user by user ID
+ * Get wallet balance for a user by user ID: the ledger balance and the
+ * available balance after holds
+ * Caller must be that user
  */
 router.get(
   "/:userId/balance",
@@ -90,6 +164,8 @@ router.get(
     });
 
     try {
+      assertUserAccess(req.user, userId);
+
       const wallet = await walletService.getWalletByUserId(userId);
 
       if (!wallet) {
@@ -99,12 +175,17 @@ router.get(
         });
       }
 
-      const balance = await walletService.getBalance(wallet.id);
+      const { ledger_balance, available_balance } =
+        await walletService.getBalances(wallet.id);
 
       res.json({
         wallet_id: wallet.id,
         user_id: userId,
-        balance,
+        balance: ledger_balance,
+        ledger_balance,
+        available_balance,
+        currency: wallet.currency,
+        status: wallet.status,
       });
     } catch (error) {
       logger.error("Failed to get balance", {
@@ -117,4 +198,210 @@ router.get(
   }
 );
 
+/**
+ * GET /wallets/:walletId/limits
+ * Get the spending limits that apply to a wallet and the remaining allowance
+ * Caller must own the wallet
+ */
+router.get(
+  "/:walletId/limits",
+  validate(getLimitsSchema),
+  requireWalletOwner((req) => req.params.walletId),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    const { walletId } = req.params;
+
+    logger.info("Getting wallet limits", {
+      correlationId,
+      walletId,
+    });
+
+    try {
+      const limits = await spendingLimitService.getWalletLimits(walletId);
+
+      res.json(limits);
+    } catch (error) {
+      logger.error("Failed to get wallet limits", {
+        correlationId,
+        walletId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /wallets/:walletId/statements
+ * Stream a statement for a period as JSON, CSV or PDF: opening balance,
+ * every entry with its running balance, closing balance and totals by type
+ * Caller must own the wallet
+ */
+router.get(
+  "/:walletId/statements",
+  validate(getStatementSchema),
+  requireWalletOwner((req) => req.params.walletId),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    const { walletId } = req.params;
+    // TypeScript doesn't know that Zod validation coerced the query
+    const { from, to, format } = req.query as unknown as z.infer<
+      typeof getStatementSchema.query
+    >;
+
+    logger.info("Generating wallet statement", {
+      correlationId,
+      walletId,
+      from,
+      to,
+      format,
+    });
+
+    try {
+      const filename = `statement-${walletId}-${from.toISOString().slice(0, 10)}-${to.toISOString().slice(0, 10)}.${format}`;
+      res.setHeader("Content-Type", STATEMENT_CONTENT_TYPES[format]);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}"`
+      );
+
+      await statementService.writeStatement(
+        { wallet_id: walletId, from, to },
+        createStatementWriter(format, res)
+      );
+
+      res.end();
+    } catch (error) {
+      logger.error("Failed to generate wallet statement", {
+        correlationId,
+        walletId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Once streaming has started the status line is gone; cut the
+      // response short so the client sees a truncated download, not a
+      // statement that looks complete
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+
+      res.removeHeader("Content-Disposition");
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /wallets/:walletId/status
+ * Freeze, debit-freeze or reactivate a wallet with an audit reason
+ * Requires the admin scope
+ */
+router.put(
+  "/:walletId/status",
+  requireScope(Scope.ADMIN),
+  validate(setStatusSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    const { walletId } = req.params;
+
+    logger.info("Changing wallet status", {
+      correlationId,
+      walletId,
+      status: req.body.status,
+    });
+
+    try {
+      const wallet = await walletService.setWalletStatus({
+        wallet_id: walletId,
+        status: req.body.status,
+        reason: req.body.reason,
+        changed_by: req.user!.subject,
+      });
+
+      res.json({ wallet });
+    } catch (error) {
+      logger.error("Failed to change wallet status", {
+        correlationId,
+        walletId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /wallets/:walletId/close
+ * Close a wallet; any remaining balance must be swept to sweepToWalletId
+ * Requires Idempotency-Key header and the admin scope
+ */
+router.post(
+  "/:walletId/close",
+  requireScope(Scope.ADMIN),
+  idempotencyMiddleware,
+  validate(closeWalletSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    const { walletId } = req.params;
+
+    logger.info("Closing wallet", {
+      correlationId,
+      walletId,
+      sweepToWalletId: req.body.sweepToWalletId,
+    });
+
+    try {
+      const { wallet, sweep_transfer_id } = await walletService.closeWallet({
+        wallet_id: walletId,
+        reason: req.body.reason,
+        changed_by: req.user!.subject,
+        sweep_to_wallet_id: req.body.sweepToWalletId,
+      });
+
+      res.json({ wallet, sweep_transfer_id });
+    } catch (error) {
+      logger.error("Failed to close wallet", {
+        correlationId,
+        walletId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /wallets/:walletId/status-history
+ * List every status change on a wallet, oldest first
+ * Requires the admin scope
+ */
+router.get(
+  "/:walletId/status-history",
+  requireScope(Scope.ADMIN),
+  validate(getStatusHistorySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    const { walletId } = req.params;
+
+    logger.info("Getting wallet status history", {
+      correlationId,
+      walletId,
+    });
+
+    try {
+      const changes = await walletService.getWalletStatusHistory(walletId);
+
+      res.json({ changes });
+    } catch (error) {
+      logger.error("Failed to get wallet status history", {
+        correlationId,
+        walletId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,177 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { webhookService } from "../services/WebhookService";
+import { WEBHOOK_EVENT_TYPES } from "../models/Webhook";
+import { validate, uuidSchema } from "../middleware/validation";
+import { z } from "zod";
+import { logger, createRequestId } from "../utils/logger";
+
+const router = Router();
+
+const createSubscriptionSchema = {
+  body: z.object({
+    url: z
+      .string()
+      .url("Invalid URL")
+      .max(2048)
+      .refine((url) => /^https?:\/\//i.test(url), "URL must use http or https"),
+    eventTypes: z
+      .array(z.enum(WEBHOOK_EVENT_TYPES))
+      .min(1, "At least one event type is required"),
+  }),
+};
+
+const idSchema = {
+  params: z.object({
+    id: uuidSchema,
+  }),
+};
+
+const deadLettersSchema = {
+  query: z.object({
+    limit: z.coerce.number().int().positive().max(100).optional().default(50),
+  }),
+};
+
+/**
+ * GET /webhooks/subscriptions
+ * List webhook subscriptions (never includes signing secrets)
+ */
+router.get(
+  "/subscriptions",
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Listing webhook subscriptions", { correlationId });
+
+    try {
+      const subscriptions = await webhookService.listSubscriptions();
+
+      res.json({ subscriptions });
+    } catch (error) {
+      logger.error("Failed to list webhook subscriptions", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /webhooks/subscriptions
+ * Register a URL for events; the signing secret is only returned here
+ */
+router.post(
+  "/subscriptions",
+  validate(createSubscriptionSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Creating webhook subscription", {
+      correlationId,
+      url: req.body.url,
+      eventTypes: req.body.eventTypes,
+    });
+
+    try {
+      const { subscription, secret } =
+        await webhookService.createSubscription({
+          url: req.body.url,
+          event_types: req.body.eventTypes,
+        });
+
+      res.status(201).json({ subscription, secret });
+    } catch (error) {
+      logger.error("Failed to create webhook subscription", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /webhooks/subscriptions/:id
+ * Disable a subscription; its undelivered events are dead-lettered
+ */
+router.delete(
+  "/subscriptions/:id",
+  validate(idSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Disabling webhook subscription", {
+      correlationId,
+      subscriptionId: req.params.id,
+    });
+
+    try {
+      const subscription = await webhookService.disableSubscription(
+        req.params.id
+      );
+
+      res.json({ subscription });
+    } catch (error) {
+      logger.error("Failed to disable webhook subscription", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /webhooks/dead-letters
+ * Deliveries that ran out of attempts, newest first
+ */
+router.get(
+  "/dead-letters",
+  validate(deadLettersSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Listing dead-lettered webhooks", { correlationId });
+
+    try {
+      const deliveries = await webhookService.listDeadLetters(
+        Number(req.query.limit) || 50
+      );
+
+      res.json({ deliveries });
+    } catch (error) {
+      logger.error("Failed to list dead-lettered webhooks", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /webhooks/deliveries/:id/retry
+ * Requeue a dead-lettered delivery with a fresh attempt budget
+ */
+router.post(
+  "/deliveries/:id/retry",
+  validate(idSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const correlationId = createRequestId();
+    logger.info("Retrying webhook delivery", {
+      correlationId,
+      deliveryId: req.params.id,
+    });
+
+    try {
+      const delivery = await webhookService.retryDelivery(req.params.id);
+
+      res.json({ delivery });
+    } catch (error) {
+      logger.error("Failed to retry webhook delivery", {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      next(error);
+    }
+  }
+);
+
+export default router;
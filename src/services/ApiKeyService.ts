@@ -0,0 +1,245 @@
+import crypto from "crypto";
+import { pool } from "../config/database";
+import { ApiKey, CreateApiKeyInput, IssuedApiKey } from "../models/ApiKey";
+import { Principal } from "../models/Principal";
+import {
+  ApiKeyNotFoundError,
+  ApiKeyRevokedError,
+  RateLimitExceededError,
+  UnauthorizedError,
+} from "../utils/errors";
+import { logger } from "../utils/logger";
+
+const KEY_PREFIX = "lwk";
+const KEY_PATTERN = /^lwk_([0-9a-f]{12})_([A-Za-z0-9_-]{32})$/;
+
+export class ApiKeyService {
+  private readonly defaultRateLimit: number;
+
+  constructor() {
+    this.defaultRateLimit = parseInt(
+      process.env.API_KEY_DEFAULT_RATE_LIMIT || "600",
+      10
+    );
+  }
+
+  /**
+   * Create a key. The plaintext key is returned once and never stored.
+   */
+  async createKey(input: CreateApiKeyInput): Promise<IssuedApiKey> {
+    const { prefix, secret, key } = this.generateKey();
+
+    const result = await pool.query(
+      `INSERT INTO api_keys
+        (name, key_prefix, secret_hash, scopes, rate_limit_per_minute)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *`,
+      [
+        input.name,
+        prefix,
+        this.hashSecret(secret),
+        input.scopes,
+        input.rate_limit_per_minute ?? this.defaultRateLimit,
+      ]
+    );
+
+    const apiKey = this.mapRowToApiKey(result.rows[0]);
+
+    logger.info("API key created", {
+      apiKeyId: apiKey.id,
+      keyPrefix: apiKey.key_prefix,
+      scopes: apiKey.scopes,
+    });
+
+    return { api_key: apiKey, key };
+  }
+
+  async getKey(apiKeyId: string): Promise<ApiKey | null> {
+    const result = await pool.query("SELECT * FROM api_keys WHERE id = $1", [
+      apiKeyId,
+    ]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToApiKey(result.rows[0]);
+  }
+
+  async listKeys(): Promise<ApiKey[]> {
+    const result = await pool.query(
+      "SELECT * FROM api_keys ORDER BY created_at DESC"
+    );
+
+    return result.rows.map((row) => this.mapRowToApiKey(row));
+  }
+
+  /**
+   * Replace the key's secret; the previous key stops working immediately.
+   * Name, scopes and rate limit carry over.
+   */
+  async rotateKey(apiKeyId: string): Promise<IssuedApiKey> {
+    const { prefix, secret, key } = this.generateKey();
+
+    const result = await pool.query(
+      `UPDATE api_keys
+      SET key_prefix = $2, secret_hash = $3, rotated_at = NOW()
+      WHERE id = $1 AND revoked_at IS NULL
+      RETURNING *`,
+      [apiKeyId, prefix, this.hashSecret(secret)]
+    );
+
+    if (result.rows.length === 0) {
+      await this.assertKeyExists(apiKeyId);
+      throw new ApiKeyRevokedError(apiKeyId);
+    }
+
+    const apiKey = this.mapRowToApiKey(result.rows[0]);
+
+    logger.info("API key rotated", {
+      apiKeyId: apiKey.id,
+      keyPrefix: apiKey.key_prefix,
+    });
+
+    return { api_key: apiKey, key };
+  }
+
+  /**
+   * Revoke a key. Revoking an already revoked key is a no-op.
+   */
+  async revokeKey(apiKeyId: string): Promise<ApiKey> {
+    const result = await pool.query(
+      `UPDATE api_keys
+      SET revoked_at = COALESCE(revoked_at, NOW())
+      WHERE id = $1
+      RETURNING *`,
+      [apiKeyId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ApiKeyNotFoundError(apiKeyId);
+    }
+
+    const apiKey = this.mapRowToApiKey(result.rows[0]);
+
+    logger.info("API key revoked", { apiKeyId: apiKey.id });
+
+    return apiKey;
+  }
+
+  /**
+   * Resolve a presented key to a service principal, record its use and
+   * apply its per-minute rate limit
+   */
+  async authenticate(key: string): Promise<Principal> {
+    const match = KEY_PATTERN.exec(key);
+    if (!match) {
+      throw new UnauthorizedError("Invalid API key");
+    }
+
+    const [, prefix, secret] = match;
+    const result = await pool.query(
+      "SELECT * FROM api_keys WHERE key_prefix = $1",
+      [prefix]
+    );
+
+    const row = result.rows[0];
+    if (!row || !this.secretMatches(secret, row.secret_hash)) {
+      throw new UnauthorizedError("Invalid API key");
+    }
+
+    if (row.revoked_at) {
+      throw new UnauthorizedError("API key has been revoked");
+    }
+
+    await this.recordUsage(row.id);
+
+    return {
+      type: "service",
+      subject: row.id,
+      user_id: null,
+      scopes: row.scopes,
+    };
+  }
+
+  /**
+   * Count the request against the key's current one-minute window and stamp
+   * last_used_at in a single atomic update
+   */
+  private async recordUsage(apiKeyId: string): Promise<void> {
+    // SET expressions see the pre-update row, RETURNING sees the new one
+    const result = await pool.query(
+      `UPDATE api_keys
+      SET last_used_at = NOW(),
+        rate_window_started_at = CASE
+          WHEN rate_window_started_at IS NULL
+            OR rate_window_started_at <= NOW() - INTERVAL '1 minute'
+          THEN NOW() ELSE rate_window_started_at END,
+        rate_window_count = CASE
+          WHEN rate_window_started_at IS NULL
+            OR rate_window_started_at <= NOW() - INTERVAL '1 minute'
+          THEN 1 ELSE rate_window_count + 1 END
+      WHERE id = $1
+      RETURNING rate_window_count, rate_limit_per_minute,
+        CEIL(EXTRACT(EPOCH FROM
+          rate_window_started_at + INTERVAL '1 minute' - NOW()
+        )) AS retry_after`,
+      [apiKeyId]
+    );
+
+    const row = result.rows[0];
+    if (row && row.rate_window_count > row.rate_limit_per_minute) {
+      logger.warn("API key rate limit exceeded", {
+        apiKeyId,
+        limit: row.rate_limit_per_minute,
+      });
+      throw new RateLimitExceededError(
+        Math.max(1, parseInt(row.retry_after, 10))
+      );
+    }
+  }
+
+  private async assertKeyExists(apiKeyId: string): Promise<void> {
+    const apiKey = await this.getKey(apiKeyId);
+    if (!apiKey) {
+      throw new ApiKeyNotFoundError(apiKeyId);
+    }
+  }
+
+  private generateKey(): { prefix: string; secret: string; key: string } {
+    const prefix = crypto.randomBytes(6).toString("hex");
+    const secret = crypto.randomBytes(24).toString("base64url");
+    return { prefix, secret, key: `${KEY_PREFIX}_${prefix}_${secret}` };
+  }
+
+  /**
+   * Secrets are 192 random bits, so a plain SHA-256 is enough; a slow KDF
+   * would only add latency to every request
+   */
+  private hashSecret(secret: string): string {
+    return crypto.createHash("sha256").update(secret).digest("hex");
+  }
+
+  private secretMatches(secret: string, storedHash: string): boolean {
+    return crypto.timingSafeEqual(
+      Buffer.from(this.hashSecret(secret), "hex"),
+      Buffer.from(storedHash, "hex")
+    );
+  }
+
+  private mapRowToApiKey(row: Record<string, any>): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      key_prefix: row.key_prefix,
+      scopes: row.scopes,
+      rate_limit_per_minute: row.rate_limit_per_minute,
+      last_used_at: row.last_used_at,
+      rotated_at: row.rotated_at,
+      revoked_at: row.revoked_at,
+      created_at: row.created_at,
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
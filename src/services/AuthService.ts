@@ -0,0 +1,156 @@
+import crypto from "crypto";
+import fs from "fs";
+import jwt, { JwtHeader, JwtPayload, VerifyOptions } from "jsonwebtoken";
+import { Principal } from "../models/Principal";
+import { UnauthorizedError } from "../utils/errors";
+import { logger } from "../utils/logger";
+
+export interface AuthConfig {
+  /** Shared secret for HS256 tokens */
+  hmacSecret?: string;
+  /** RSA public keys in JWK form for RS256 tokens, selected by `kid` */
+  jwks?: crypto.JsonWebKey[];
+  issuer?: string;
+  audience?: string;
+}
+
+export class AuthService {
+  private rsaKeys = new Map<string, crypto.KeyObject>();
+
+  constructor(private config: AuthConfig) {
+    for (const jwk of config.jwks || []) {
+      if (jwk.kty !== "RSA") {
+        continue;
+      }
+      const kid = typeof jwk.kid === "string" ? jwk.kid : "";
+      this.rsaKeys.set(
+        kid,
+        crypto.createPublicKey({ key: jwk, format: "jwk" })
+      );
+    }
+  }
+
+  /**
+   * Verify a bearer token and map its claims to a principal.
+   * The signing key is chosen from the token's algorithm, so an HS256 token
+   * can never be checked against an RSA public key or vice versa.
+   */
+  verifyToken(token: string): Principal {
+    const decoded = jwt.decode(token, { complete: true });
+
+    if (!decoded || typeof decoded.payload === "string") {
+      throw new UnauthorizedError("Invalid token");
+    }
+
+    const key = this.resolveKey(decoded.header);
+    const options: VerifyOptions = {
+      algorithms: [decoded.header.alg as jwt.Algorithm],
+    };
+    if (this.config.issuer) {
+      options.issuer = this.config.issuer;
+    }
+    if (this.config.audience) {
+      options.audience = this.config.audience;
+    }
+
+    let payload: JwtPayload;
+    try {
+      payload = jwt.verify(token, key, options) as JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new UnauthorizedError("Token has expired");
+      }
+      throw new UnauthorizedError("Invalid token");
+    }
+
+    if (typeof payload.sub !== "string" || payload.sub.length === 0) {
+      throw new UnauthorizedError("Token has no subject");
+    }
+
+    const isService = payload.type === "service";
+
+    return {
+      type: isService ? "service" : "user",
+      subject: payload.sub,
+      user_id: isService ? null : payload.sub,
+      scopes: this.parseScopes(payload),
+    };
+  }
+
+  private resolveKey(header: JwtHeader): jwt.Secret {
+    switch (header.alg) {
+      case "HS256":
+        if (!this.config.hmacSecret) {
+          throw new UnauthorizedError("HS256 tokens are not accepted");
+        }
+        return this.config.hmacSecret;
+
+      case "RS256": {
+        // Without a kid the key is only unambiguous when exactly one is loaded
+        const key = header.kid
+          ? this.rsaKeys.get(header.kid)
+          : this.rsaKeys.size === 1
+            ? this.rsaKeys.values().next().value
+            : undefined;
+
+        if (!key) {
+          throw new UnauthorizedError("Unknown token signing key");
+        }
+        return key;
+      }
+
+      default:
+        throw new UnauthorizedError(
+          `Unsupported token algorithm ${header.alg}`
+        );
+    }
+  }
+
+  /**
+   * Scopes come from the OAuth-style space-delimited `scope` claim or a
+   * `scopes` array
+   */
+  private parseScopes(payload: JwtPayload): string[] {
+    if (typeof payload.scope === "string") {
+      return payload.scope.split(" ").filter((s: string) => s.length > 0);
+    }
+    if (Array.isArray(payload.scopes)) {
+      return payload.scopes.filter(
+        (s: unknown): s is string => typeof s === "string"
+      );
+    }
+    return [];
+  }
+}
+
+/**
+ * Auth settings from JWT_SECRET, JWT_JWKS_FILE, JWT_ISSUER and JWT_AUDIENCE
+ */
+export function loadAuthConfig(): AuthConfig {
+  const config: AuthConfig = {
+    hmacSecret: process.env.JWT_SECRET || undefined,
+    issuer: process.env.JWT_ISSUER || undefined,
+    audience: process.env.JWT_AUDIENCE || undefined,
+  };
+
+  const jwksFile = process.env.JWT_JWKS_FILE;
+  if (jwksFile) {
+    const jwks = JSON.parse(fs.readFileSync(jwksFile, "utf8"));
+    config.jwks = jwks.keys || [];
+
+    logger.info("Loaded JWKS from file", {
+      jwksFile,
+      keys: config.jwks!.length,
+    });
+  }
+
+  if (!config.hmacSecret && !config.jwks) {
+    logger.warn(
+      "No JWT_SECRET or JWT_JWKS_FILE configured; all tokens will be rejected"
+    );
+  }
+
+  return config;
+}
+
+export const authService = new AuthService(loadAuthConfig());
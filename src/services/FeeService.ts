@@ -0,0 +1,158 @@
+import { pool, DbClient } from "../config/database";
+import {
+  DEFAULT_USER_TIER,
+  FeeOperation,
+  FeeQuote,
+  FeeRule,
+  FeeSchedule,
+  FlatFeeRule,
+  PercentageFeeRule,
+  UpsertFeeScheduleInput,
+} from "../models/Fee";
+import { FeeScheduleNotFoundError } from "../utils/errors";
+import { logger } from "../utils/logger";
+
+function applySimpleRule(
+  rule: FlatFeeRule | PercentageFeeRule,
+  amount: number
+): number {
+  if (rule.type === "flat") {
+    return rule.amount;
+  }
+
+  // BigInt keeps amount * basis points exact beyond 2^53; rounds half up
+  let fee = Number(
+    (BigInt(amount) * BigInt(rule.basis_points) + BigInt(5000)) /
+      BigInt(10000)
+  );
+
+  if (rule.min !== undefined) {
+    fee = Math.max(fee, rule.min);
+  }
+  if (rule.max !== undefined) {
+    fee = Math.min(fee, rule.max);
+  }
+
+  return fee;
+}
+
+/**
+ * Fee in minor units for moving `amount` under `rule`
+ */
+export function calculateFee(rule: FeeRule, amount: number): number {
+  if (rule.type !== "tiered") {
+    return applySimpleRule(rule, amount);
+  }
+
+  const tier =
+    rule.tiers.find((t) => t.up_to === null || amount <= t.up_to) ??
+    rule.tiers[rule.tiers.length - 1];
+
+  return applySimpleRule(tier.rule, amount);
+}
+
+export class FeeService {
+  async listSchedules(): Promise<FeeSchedule[]> {
+    const result = await pool.query(
+      `SELECT * FROM fee_schedules
+      ORDER BY operation, currency, tier NULLS FIRST`
+    );
+
+    return result.rows.map((row) => this.mapRowToSchedule(row));
+  }
+
+  /**
+   * Create or replace the schedule for an operation, tier and currency.
+   * A null tier is the fallback for tiers without their own schedule.
+   */
+  async upsertSchedule(input: UpsertFeeScheduleInput): Promise<FeeSchedule> {
+    const result = await pool.query(
+      `INSERT INTO fee_schedules (operation, tier, currency, rule)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (operation, COALESCE(tier, ''), currency) DO UPDATE
+      SET rule = EXCLUDED.rule, updated_at = NOW()
+      RETURNING *`,
+      [input.operation, input.tier ?? null, input.currency, input.rule]
+    );
+
+    const schedule = this.mapRowToSchedule(result.rows[0]);
+
+    logger.info("Fee schedule saved", {
+      scheduleId: schedule.id,
+      operation: schedule.operation,
+      tier: schedule.tier,
+      currency: schedule.currency,
+    });
+
+    return schedule;
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<FeeSchedule> {
+    const result = await pool.query(
+      "DELETE FROM fee_schedules WHERE id = $1 RETURNING *",
+      [scheduleId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new FeeScheduleNotFoundError(scheduleId);
+    }
+
+    logger.info("Fee schedule deleted", { scheduleId });
+
+    return this.mapRowToSchedule(result.rows[0]);
+  }
+
+  /**
+   * Price an operation for the owner of `walletId`: the schedule for the
+   * owner's tier wins, then the catch-all schedule, otherwise no fee.
+   * System wallets have no owner and are priced on the default tier.
+   */
+  async quoteForWallet(
+    operation: FeeOperation,
+    walletId: string,
+    currency: string,
+    amount: number,
+    client: DbClient = pool
+  ): Promise<FeeQuote> {
+    const result = await client.query(
+      `SELECT fs.* FROM fee_schedules fs
+      CROSS JOIN (
+        SELECT COALESCE(u.tier, $4) AS tier
+        FROM wallets w
+        LEFT JOIN users u ON u.id = w.user_id
+        WHERE w.id = $3
+      ) owner
+      WHERE fs.operation = $1
+        AND fs.currency = $2
+        AND (fs.tier = owner.tier OR fs.tier IS NULL)
+      ORDER BY fs.tier NULLS LAST
+      LIMIT 1`,
+      [operation, currency, walletId, DEFAULT_USER_TIER]
+    );
+
+    if (result.rows.length === 0) {
+      return { fee_amount: 0, schedule_id: null };
+    }
+
+    const schedule = this.mapRowToSchedule(result.rows[0]);
+
+    return {
+      fee_amount: calculateFee(schedule.rule, amount),
+      schedule_id: schedule.id,
+    };
+  }
+
+  private mapRowToSchedule(row: Record<string, any>): FeeSchedule {
+    return {
+      id: row.id,
+      operation: row.operation,
+      tier: row.tier,
+      currency: row.currency,
+      rule: row.rule,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+export const feeService = new FeeService();
@@ -1,7 +1,18 @@
 import { LedgerService, ledgerService } from "./LedgerService";
+import { WebhookService, webhookService } from "./WebhookService";
+import { OutboxService, outboxService } from "./OutboxService";
 import { LedgerEntry } from "../models/LedgerEntry";
-import { DuplicatePaymentRefError } from "../utils/errors";
+import { SystemAccount } from "../models/Wallet";
+import { WebhookEventType } from "../models/Webhook";
+import { OutboxEventType } from "../models/OutboxEvent";
+import {
+  DuplicatePaymentRefError,
+  WalletNotFoundError,
+} from "../utils/errors";
+import { assertAmountWithinLimit } from "../utils/currency";
 import { logger } from "../utils/logger";
+import { assertWalletAcceptsPosting } from "../utils/walletStatus";
+import { transactionRunner } from "../utils/transaction";
 import { v4 as uuidv4 } from "uuid";
 
 export interface FundWalletInput {
@@ -11,8 +22,17 @@ export interface FundWalletInput {
 }
 
 export class FundingService {
-  constructor(private ledgerService: LedgerService) {}
+  constructor(
+    private ledgerService: LedgerService,
+    private webhookService: WebhookService,
+    private outboxService: OutboxService
+  ) {}
 
+  /**
+   * Credit a wallet from an external payment. The offsetting debit lands on the
+   * external funding clearing account for the wallet's currency so the
+   * journal nets to zero. Returns the wallet's credit posting.
+   */
   async fundWallet(input: FundWalletInput): Promise<LedgerEntry> {
     const existingEntry =
       await this.ledgerService.findEntryByExternalPaymentRef(
@@ -29,23 +49,105 @@ export class FundingService {
 
     const transactionReference = `fund_${uuidv4()}`;
 
-    const entry = await this.ledgerService.createEntry({
-      wallet_id: input.walletId,
-      amount: input.amount,
-      direction: "credit",
-      transaction_reference: transactionReference,
-      external_payment_ref: input.externalPaymentRef,
-    });
-
-    logger.info("Wallet funded", {
-      walletId: input.walletId,
-      amount: input.amount,
-      externalPaymentRef: input.externalPaymentRef,
-      entryId: entry.id,
-    });
-
-    return entry;
+    try {
+      const entry = await transactionRunner.run(
+        { name: "fund_wallet" },
+        async (client) => {
+          const walletResult = await client.query(
+            "SELECT currency, status FROM wallets WHERE id = $1",
+            [input.walletId]
+          );
+
+          if (walletResult.rows.length === 0) {
+            throw new WalletNotFoundError(input.walletId);
+          }
+
+          const currency: string = walletResult.rows[0].currency;
+          assertAmountWithinLimit(input.amount, currency);
+          assertWalletAcceptsPosting(
+            input.walletId,
+            walletResult.rows[0].status,
+            "credit"
+          );
+
+          const clearingWalletId = await this.ledgerService.getSystemWalletId(
+            SystemAccount.EXTERNAL_FUNDING_CLEARING,
+            currency,
+            client
+          );
+
+          const { entries } = await this.ledgerService.postJournal(client, {
+            type: "fund",
+            transaction_reference: transactionReference,
+            postings: [
+              {
+                wallet_id: clearingWalletId,
+                amount: input.amount,
+                currency,
+                direction: "debit",
+              },
+              {
+                wallet_id: input.walletId,
+                amount: input.amount,
+                currency,
+                direction: "credit",
+                external_payment_ref: input.externalPaymentRef,
+              },
+            ],
+          });
+
+          const entry = entries.find((e) => e.wallet_id === input.walletId)!;
+
+          const funded = {
+            wallet_id: entry.wallet_id,
+            entry_id: entry.id,
+            amount: entry.amount,
+            currency: entry.currency,
+            transaction_reference: entry.transaction_reference,
+            external_payment_ref: entry.external_payment_ref,
+          };
+
+          await this.webhookService.enqueue(
+            client,
+            WebhookEventType.WALLET_FUNDED,
+            funded
+          );
+          await this.outboxService.append(client, {
+            aggregate_type: "wallet",
+            aggregate_id: entry.wallet_id,
+            event_type: OutboxEventType.WALLET_FUNDED,
+            payload: funded,
+          });
+
+          return entry;
+        }
+      );
+
+      logger.info("Wallet funded", {
+        walletId: input.walletId,
+        amount: input.amount,
+        currency: entry.currency,
+        externalPaymentRef: input.externalPaymentRef,
+        entryId: entry.id,
+      });
+
+      return entry;
+    } catch (error: any) {
+      // A concurrent request with the same reference won the unique constraint
+      if (
+        error?.code === "23505" &&
+        error?.constraint?.includes("external_payment_ref")
+      ) {
+        throw new DuplicatePaymentRefError(input.externalPaymentRef);
+      }
+
+      throw error;
+    }
   }
 }
 
-export const fundingService = new FundingService(ledgerService);
+export const fundingService = new FundingService(
+  ledgerService,
+  webhookService,
+  outboxService
+);
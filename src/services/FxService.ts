@@ -0,0 +1,149 @@
+import { pool, DbClient } from "../config/database";
+import { FxQuote, CreateFxQuoteInput } from "../models/FxQuote";
+import { RateProvider, createRateProvider } from "./RateProvider";
+import {
+  ValidationError,
+  FxQuoteNotFoundError,
+  FxQuoteExpiredError,
+  FxQuoteAlreadyUsedError,
+} from "../utils/errors";
+import { assertAmountWithinLimit, convertAmount } from "../utils/currency";
+import { logger } from "../utils/logger";
+
+export class FxService {
+  private readonly quoteTtlSeconds: number;
+
+  constructor(private rateProvider: RateProvider) {
+    this.quoteTtlSeconds = parseInt(
+      process.env.FX_QUOTE_TTL_SECONDS || "60",
+      10
+    );
+  }
+
+  /**
+   * Lock in a rate for converting source_amount into the target currency.
+   * The quote can be redeemed by exactly one transfer before it expires.
+   */
+  async createQuote(input: CreateFxQuoteInput): Promise<FxQuote> {
+    if (input.source_currency === input.target_currency) {
+      throw new ValidationError(
+        "Source and target currencies must differ for an FX quote"
+      );
+    }
+
+    assertAmountWithinLimit(input.source_amount, input.source_currency);
+
+    // Round to the stored precision so the persisted rate reproduces target_amount
+    const rate = Number(
+      (
+        await this.rateProvider.getRate(
+          input.source_currency,
+          input.target_currency
+        )
+      ).toFixed(12)
+    );
+    const targetAmount = convertAmount(
+      input.source_amount,
+      input.source_currency,
+      input.target_currency,
+      rate
+    );
+
+    if (targetAmount <= 0) {
+      throw new ValidationError(
+        `Amount is too small to convert to ${input.target_currency}`
+      );
+    }
+
+    const result = await pool.query(
+      `INSERT INTO fx_quotes 
+        (id, source_currency, target_currency, rate, source_amount, target_amount, expires_at)
+      VALUES (gen_random_uuid(), $1, $2, $3, $4, $5, NOW() + make_interval(secs => $6))
+      RETURNING *`,
+      [
+        input.source_currency,
+        input.target_currency,
+        rate,
+        input.source_amount,
+        targetAmount,
+        this.quoteTtlSeconds,
+      ]
+    );
+
+    const quote = this.mapRowToQuote(result.rows[0]);
+
+    logger.info("FX quote created", {
+      quoteId: quote.id,
+      pair: `${quote.source_currency}/${quote.target_currency}`,
+      rate: quote.rate,
+      sourceAmount: quote.source_amount,
+      targetAmount: quote.target_amount,
+    });
+
+    return quote;
+  }
+
+  async getQuote(quoteId: string): Promise<FxQuote | null> {
+    const result = await pool.query("SELECT * FROM fx_quotes WHERE id = $1", [
+      quoteId,
+    ]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToQuote(result.rows[0]);
+  }
+
+  /**
+   * Lock a quote for redemption inside the caller's transaction.
+   * Rejects quotes that are unknown, already used or past their expiry.
+   */
+  async lockQuote(client: DbClient, quoteId: string): Promise<FxQuote> {
+    const result = await client.query(
+      `SELECT *, expires_at <= NOW() as expired
+      FROM fx_quotes
+      WHERE id = $1
+      FOR UPDATE`,
+      [quoteId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new FxQuoteNotFoundError(quoteId);
+    }
+
+    const quote = this.mapRowToQuote(result.rows[0]);
+
+    if (quote.used_at) {
+      throw new FxQuoteAlreadyUsedError(quoteId);
+    }
+
+    if (result.rows[0].expired) {
+      throw new FxQuoteExpiredError(quoteId);
+    }
+
+    return quote;
+  }
+
+  async markQuoteUsed(client: DbClient, quoteId: string): Promise<void> {
+    await client.query("UPDATE fx_quotes SET used_at = NOW() WHERE id = $1", [
+      quoteId,
+    ]);
+  }
+
+  private mapRowToQuote(row: Record<string, any>): FxQuote {
+    return {
+      id: row.id,
+      source_currency: row.source_currency,
+      target_currency: row.target_currency,
+      rate: parseFloat(row.rate),
+      source_amount: parseInt(row.source_amount, 10),
+      target_amount: parseInt(row.target_amount, 10),
+      expires_at: row.expires_at,
+      used_at: row.used_at,
+      created_at: row.created_at,
+    };
+  }
+}
+
+export const fxService = new FxService(createRateProvider());
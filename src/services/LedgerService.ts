@@ -1,18 +1,112 @@
-import { pool } from "../config/database";
+import { pool, DbClient } from "../config/database";
 import {
   LedgerEntry,
   CreateLedgerEntryInput,
+  LedgerHistoryEntry,
+  LedgerHistoryQuery,
+  LedgerHistoryPage,
   LedgerDirection,
+  TrialBalance,
+  BalanceDrift,
+  TrialBalanceTotals,
 } from "../models/LedgerEntry";
-import { WalletNotFoundError } from "../utils/errors";
+import {
+  Journal,
+  JournalType,
+  PostJournalInput,
+  PostedJournal,
+} from "../models/Journal";
+import { SystemAccountCode, WalletBalances } from "../models/Wallet";
+import { TransferStatus } from "../models/Transfer";
+import {
+  WalletNotFoundError,
+  UnbalancedJournalError,
+  CurrencyMismatchError,
+} from "../utils/errors";
 import { logger } from "../utils/logger";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import { assertWalletAcceptsPosting } from "../utils/walletStatus";
+import { transactionRunner } from "../utils/transaction";
+import { maskEmail } from "../utils/mask";
+
+/**
+ * History rows carry their journal type and transfer status, and transfer
+ * and reversal entries the wallet on the other side of the transfer with its
+ * owner. Fee entries share the transfer_id but have no counterparty.
+ */
+const HISTORY_COLUMNS = `le.*, j.type, t.status AS transfer_status,
+  t.memo, t.metadata, t.client_reference,
+  cw.id AS counterparty_wallet_id, cw.label AS counterparty_label,
+  cu.id AS counterparty_user_id, cu.name AS counterparty_name,
+  cu.email AS counterparty_email`;
+
+const HISTORY_FROM = `FROM ledger_entries le
+  JOIN journals j ON j.id = le.journal_id
+  LEFT JOIN transfers t ON t.id = le.transfer_id
+  LEFT JOIN wallets cw ON j.type IN ('transfer', 'reversal')
+    AND cw.id = CASE WHEN t.sender_wallet_id = le.wallet_id
+      THEN t.receiver_wallet_id ELSE t.sender_wallet_id END
+  LEFT JOIN users cu ON cu.id = cw.user_id`;
 
 export class LedgerService {
+  /**
+   * Read the materialized wallet balance.
+   * wallet_balances is updated in the same transaction as every posting,
+   * so this is always consistent with the ledger without scanning it.
+   */
+  async getBalance(walletId: string): Promise<number> {
+    const result = await pool.query(
+      `SELECT balance FROM wallet_balances
+      WHERE wallet_id = $1`,
+      [walletId]
+    );
+
+    return this.parseBalance(result.rows[0]);
+  }
+
+  /**
+   * Funds reserved by a wallet's unexpired holds, including the fee quoted
+   * for each. Holds are pending transfers and only reach the ledger when
+   * captured, so they reduce the available balance, not the ledger balance.
+   */
+  async getHeldAmount(
+    walletId: string,
+    client: DbClient = pool,
+    excludeTransferId?: string
+  ): Promise<number> {
+    const result = await client.query(
+      `SELECT COALESCE(SUM(amount + fee_amount), 0) AS held
+      FROM transfers
+      WHERE sender_wallet_id = $1 AND status = 'pending'
+        AND hold_expires_at > NOW()
+        AND id IS DISTINCT FROM $2`,
+      [walletId, excludeTransferId ?? null]
+    );
+
+    return parseInt(result.rows[0].held, 10);
+  }
+
+  /**
+   * The ledger balance and what is left of it after holds
+   */
+  async getBalances(walletId: string): Promise<WalletBalances> {
+    const [ledgerBalance, held] = await Promise.all([
+      this.getBalance(walletId),
+      this.getHeldAmount(walletId),
+    ]);
+
+    return {
+      ledger_balance: ledgerBalance,
+      available_balance: ledgerBalance - held,
+    };
+  }
+
   /**
    * Calculate wallet balance from ledger entries
    * Balance = SUM(credits) - SUM(debits)
+   * Used for reconciliation; reads should go through getBalance.
    */
-  async getBalance(walletId: string): Promise<number> {
+  async computeBalance(walletId: string): Promise<number> {
     const result = await pool.query(
       `SELECT 
         COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) -
@@ -22,17 +116,22 @@ export class LedgerService {
       [walletId]
     );
 
-    if (!result.rows[0] || result.rows[0].balance === null) {
-      return 0;
-    }
-
-    const balance = parseInt(result.rows[0].balance, 10);
-    return isNaN(balance) ? 0 : balance;
+    return this.parseBalance(result.rows[0]);
   }
 
-  async createEntry(input: CreateLedgerEntryInput): Promise<LedgerEntry> {
-    const walletCheck = await pool.query(
-      "SELECT id FROM wallets WHERE id = $1",
+  /**
+   * Insert a single posting. Postings must belong to a journal; the deferred
+   * balance trigger rejects the transaction if that journal does not net to zero,
+   * so callers outside postJournal are responsible for writing the other legs.
+   * The posting currency must match the wallet's currency, and the wallet
+   * status must allow a posting in that direction.
+   */
+  async createEntry(
+    input: CreateLedgerEntryInput,
+    client: DbClient = pool
+  ): Promise<LedgerEntry> {
+    const walletCheck = await client.query(
+      "SELECT id, currency, status FROM wallets WHERE id = $1",
       [input.wallet_id]
     );
 
@@ -40,18 +139,53 @@ export class LedgerService {
       throw new WalletNotFoundError(input.wallet_id);
     }
 
-    const result = await pool.query(
+    if (walletCheck.rows[0].currency !== input.currency) {
+      throw new CurrencyMismatchError(
+        `Wallet ${input.wallet_id} is denominated in ${walletCheck.rows[0].currency}, not ${input.currency}`
+      );
+    }
+
+    if (!input.skip_status_check) {
+      assertWalletAcceptsPosting(
+        input.wallet_id,
+        walletCheck.rows[0].status,
+        input.direction
+      );
+    }
+
+    // Moving the materialized balance first takes its row lock, so postings to
+    // one wallet are serialized and each entry can record the balance it left
+    const balanceResult = await client.query(
+      `INSERT INTO wallet_balances (wallet_id, balance, entry_count, updated_at)
+      VALUES ($1, $2, 1, NOW())
+      ON CONFLICT (wallet_id) DO UPDATE SET
+        balance = wallet_balances.balance + EXCLUDED.balance,
+        entry_count = wallet_balances.entry_count + 1,
+        updated_at = NOW()
+      RETURNING balance`,
+      [
+        input.wallet_id,
+        input.direction === "credit" ? input.amount : -input.amount,
+      ]
+    );
+
+    // clock_timestamp() rather than the transaction start time, so created_at
+    // follows lock order and history sorted by it shows a consistent balance
+    const result = await client.query(
       `INSERT INTO ledger_entries 
-        (wallet_id, amount, direction, transaction_reference, transfer_id, external_payment_ref)
-      VALUES ($1, $2, $3, $4, $5, $6)
+        (journal_id, wallet_id, amount, currency, direction, transaction_reference, transfer_id, external_payment_ref, balance_after, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, clock_timestamp())
       RETURNING *`,
       [
+        input.journal_id,
         input.wallet_id,
         input.amount,
+        input.currency,
         input.direction,
         input.transaction_reference,
         input.transfer_id || null,
         input.external_payment_ref || null,
+        balanceResult.rows[0].balance,
       ]
     );
 
@@ -61,29 +195,321 @@ export class LedgerService {
       entryId: entry.id,
       walletId: entry.wallet_id,
       amount: entry.amount,
+      currency: entry.currency,
       direction: entry.direction,
+      balanceAfter: entry.balance_after,
       transactionReference: entry.transaction_reference,
     });
 
     return entry;
   }
 
-  async getEntries(
-    walletId: string,
-    limit: number = 50,
-    offset: number = 0
-  ): Promise<LedgerEntry[]> {
+  /**
+   * Record a balanced journal: one header plus two or more postings whose
+   * credits equal their debits. Must be called with the client of an open
+   * transaction so the header and every leg commit or roll back together.
+   */
+  async postJournal(
+    client: DbClient,
+    input: PostJournalInput
+  ): Promise<PostedJournal> {
+    this.assertBalanced(input);
+
+    const journalResult = await client.query(
+      `INSERT INTO journals (type, transaction_reference, transfer_id)
+      VALUES ($1, $2, $3)
+      RETURNING *`,
+      [input.type, input.transaction_reference, input.transfer_id || null]
+    );
+
+    const journal = this.mapRowToJournal(journalResult.rows[0]);
+
+    const entries: LedgerEntry[] = [];
+    for (const posting of input.postings) {
+      entries.push(
+        await this.createEntry(
+          {
+            journal_id: journal.id,
+            wallet_id: posting.wallet_id,
+            amount: posting.amount,
+            currency: posting.currency,
+            direction: posting.direction,
+            transaction_reference: journal.transaction_reference,
+            transfer_id: journal.transfer_id,
+            external_payment_ref: posting.external_payment_ref,
+            skip_status_check: input.skip_status_check,
+          },
+          client
+        )
+      );
+    }
+
+    logger.info("Journal posted", {
+      journalId: journal.id,
+      type: journal.type,
+      transactionReference: journal.transaction_reference,
+      postings: entries.length,
+    });
+
+    return { journal, entries };
+  }
+
+  /**
+   * Resolve the wallet backing a system account in the given currency,
+   * creating it on first use
+   */
+  async getSystemWalletId(
+    code: SystemAccountCode,
+    currency: string,
+    client: DbClient = pool
+  ): Promise<string> {
+    const existing = await client.query(
+      "SELECT id FROM wallets WHERE system_code = $1 AND currency = $2",
+      [code, currency]
+    );
+
+    if (existing.rows.length > 0) {
+      return existing.rows[0].id;
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO wallets (id, system_code, currency)
+      VALUES (gen_random_uuid(), $1, $2)
+      ON CONFLICT (system_code, currency) DO NOTHING
+      RETURNING id`,
+      [code, currency]
+    );
+
+    if (inserted.rows.length > 0) {
+      return inserted.rows[0].id;
+    }
+
+    // Lost a race with a concurrent insert; the row exists now
+    const created = await client.query(
+      "SELECT id FROM wallets WHERE system_code = $1 AND currency = $2",
+      [code, currency]
+    );
+
+    return created.rows[0].id;
+  }
+
+  /**
+   * Sum debits and credits per account across the whole ledger.
+   * With every journal balanced, debits equal credits within each currency
+   * and every per-currency net is 0.
+   */
+  async getTrialBalance(): Promise<TrialBalance> {
     const result = await pool.query(
-      `SELECT * FROM ledger_entries
-      WHERE wallet_id = $1
-      ORDER BY created_at DESC
-      LIMIT $2 OFFSET $3`,
-      [walletId, limit, offset]
+      `SELECT 
+        w.id as wallet_id,
+        w.user_id,
+        w.system_code,
+        w.currency,
+        COALESCE(SUM(le.amount) FILTER (WHERE le.direction = 'debit'), 0) as total_debits,
+        COALESCE(SUM(le.amount) FILTER (WHERE le.direction = 'credit'), 0) as total_credits
+      FROM wallets w
+      INNER JOIN ledger_entries le ON le.wallet_id = w.id
+      GROUP BY w.id, w.user_id, w.system_code, w.currency
+      ORDER BY w.currency, w.system_code NULLS LAST, w.id`
     );
 
-    return result.rows.map((row: Record<string, any>) =>
-      this.mapRowToLedgerEntry(row)
+    const accounts = result.rows.map((row: Record<string, any>) => {
+      const totalDebits = parseInt(row.total_debits, 10);
+      const totalCredits = parseInt(row.total_credits, 10);
+
+      return {
+        wallet_id: row.wallet_id,
+        user_id: row.user_id,
+        system_code: row.system_code,
+        currency: row.currency,
+        total_debits: totalDebits,
+        total_credits: totalCredits,
+        balance: totalCredits - totalDebits,
+      };
+    });
+
+    const totalsByCurrency = new Map<string, TrialBalanceTotals>();
+    for (const account of accounts) {
+      const totals = totalsByCurrency.get(account.currency) || {
+        currency: account.currency,
+        total_debits: 0,
+        total_credits: 0,
+        net: 0,
+      };
+      totals.total_debits += account.total_debits;
+      totals.total_credits += account.total_credits;
+      totals.net = totals.total_credits - totals.total_debits;
+      totalsByCurrency.set(account.currency, totals);
+    }
+
+    return {
+      accounts,
+      totals: Array.from(totalsByCurrency.values()),
+    };
+  }
+
+  /**
+   * Recompute every wallet balance from the raw ledger and compare it with
+   * the materialized value. With repair, drifted rows are rewritten from the
+   * ledger while holding the balance row lock.
+   */
+  async reconcileBalances(
+    options: { repair?: boolean } = {}
+  ): Promise<BalanceDrift[]> {
+    const result = await pool.query(
+      `SELECT
+        COALESCE(wb.wallet_id, le.wallet_id) as wallet_id,
+        COALESCE(wb.balance, 0) as materialized_balance,
+        COALESCE(le.balance, 0) as ledger_balance
+      FROM wallet_balances wb
+      FULL OUTER JOIN (
+        SELECT 
+          wallet_id,
+          COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) -
+          COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0) as balance
+        FROM ledger_entries
+        GROUP BY wallet_id
+      ) le ON le.wallet_id = wb.wallet_id
+      WHERE COALESCE(wb.balance, 0) <> COALESCE(le.balance, 0)`
+    );
+
+    const drifts: BalanceDrift[] = result.rows.map(
+      (row: Record<string, any>) => {
+        const materialized = parseInt(row.materialized_balance, 10);
+        const ledger = parseInt(row.ledger_balance, 10);
+
+        return {
+          wallet_id: row.wallet_id,
+          materialized_balance: materialized,
+          ledger_balance: ledger,
+          drift: materialized - ledger,
+        };
+      }
     );
+
+    if (drifts.length > 0) {
+      logger.warn("Wallet balance drift detected", {
+        count: drifts.length,
+        walletIds: drifts.map((d) => d.wallet_id),
+      });
+    }
+
+    if (options.repair) {
+      for (const drift of drifts) {
+        await this.repairBalance(drift.wallet_id);
+      }
+    }
+
+    return drifts;
+  }
+
+  /**
+   * Read one page of a wallet's history, newest first. Pages are keyed on
+   * (created_at, id) rather than an offset, so entries posted while a client
+   * pages through never shift rows between pages.
+   */
+  async getEntries(query: LedgerHistoryQuery): Promise<LedgerHistoryPage> {
+    const params: unknown[] = [query.wallet_id];
+    const filters = ["le.wallet_id = $1"];
+    const addFilter = (sql: (param: string) => string, value: unknown) => {
+      params.push(value);
+      filters.push(sql(`$${params.length}`));
+    };
+
+    if (query.direction) {
+      addFilter((p) => `le.direction = ${p}`, query.direction);
+    }
+    if (query.types && query.types.length > 0) {
+      addFilter((p) => `j.type = ANY(${p}::journal_type[])`, query.types);
+    }
+    if (query.min_amount !== undefined) {
+      addFilter((p) => `le.amount >= ${p}`, query.min_amount);
+    }
+    if (query.max_amount !== undefined) {
+      addFilter((p) => `le.amount <= ${p}`, query.max_amount);
+    }
+    if (query.from) {
+      addFilter((p) => `le.created_at >= ${p}`, query.from);
+    }
+    if (query.to) {
+      addFilter((p) => `le.created_at < ${p}`, query.to);
+    }
+    if (query.counterparty_wallet_id) {
+      addFilter(
+        (p) => `EXISTS (
+          SELECT 1 FROM transfers t
+          WHERE t.id = le.transfer_id
+            AND ${p} IN (t.sender_wallet_id, t.receiver_wallet_id)
+            AND ${p} <> le.wallet_id
+        )`,
+        query.counterparty_wallet_id
+      );
+    }
+
+    let total: number | undefined;
+    if (query.include_total) {
+      const countResult = await pool.query(
+        `SELECT COUNT(*) AS total FROM ledger_entries le
+        JOIN journals j ON j.id = le.journal_id
+        WHERE ${filters.join(" AND ")}`,
+        params
+      );
+      total = parseInt(countResult.rows[0].total, 10);
+    }
+
+    const pageParams = [...params];
+    const pageFilters = [...filters];
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      pageParams.push(cursor.created_at, cursor.id);
+      pageFilters.push(
+        `(le.created_at, le.id) < ($${pageParams.length - 1}::timestamp, $${pageParams.length}::uuid)`
+      );
+    }
+    // One extra row tells us whether another page exists
+    pageParams.push(query.limit + 1);
+
+    const result = await pool.query(
+      `SELECT ${HISTORY_COLUMNS}, le.created_at::text AS cursor_created_at
+      ${HISTORY_FROM}
+      WHERE ${pageFilters.join(" AND ")}
+      ORDER BY le.created_at DESC, le.id DESC
+      LIMIT $${pageParams.length}`,
+      pageParams
+    );
+
+    const rows = result.rows.slice(0, query.limit);
+    const last = rows[rows.length - 1];
+    const nextCursor =
+      result.rows.length > query.limit
+        ? encodeCursor({ created_at: last.cursor_created_at, id: last.id })
+        : null;
+
+    return {
+      entries: rows.map((row: Record<string, any>) =>
+        this.mapRowToHistoryEntry(row)
+      ),
+      next_cursor: nextCursor,
+      ...(total !== undefined && { total }),
+    };
+  }
+
+  /**
+   * Read a single entry as it appears in history
+   */
+  async getHistoryEntry(entryId: string): Promise<LedgerHistoryEntry | null> {
+    const result = await pool.query(
+      `SELECT ${HISTORY_COLUMNS}
+      ${HISTORY_FROM}
+      WHERE le.id = $1`,
+      [entryId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToHistoryEntry(result.rows[0]);
   }
 
   async findEntryByExternalPaymentRef(
@@ -117,18 +543,153 @@ export class LedgerService {
     );
   }
 
+  /**
+   * Entries for several references in one query, in posting order
+   */
+  async getEntriesByTransactionReferences(
+    transactionReferences: string[]
+  ): Promise<LedgerEntry[]> {
+    if (transactionReferences.length === 0) {
+      return [];
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM ledger_entries
+      WHERE transaction_reference = ANY($1)
+      ORDER BY created_at ASC, id ASC`,
+      [transactionReferences]
+    );
+
+    return result.rows.map((row: Record<string, any>) =>
+      this.mapRowToLedgerEntry(row)
+    );
+  }
+
+  private async repairBalance(walletId: string): Promise<void> {
+    await transactionRunner.run({ name: "repair_balance" }, async (client) => {
+      // Make sure the row exists, then hold its lock so no posting lands mid-recompute
+      await client.query(
+        `INSERT INTO wallet_balances (wallet_id)
+        VALUES ($1)
+        ON CONFLICT (wallet_id) DO NOTHING`,
+        [walletId]
+      );
+      await client.query(
+        "SELECT wallet_id FROM wallet_balances WHERE wallet_id = $1 FOR UPDATE",
+        [walletId]
+      );
+
+      await client.query(
+        `UPDATE wallet_balances SET
+          balance = le.balance,
+          entry_count = le.entry_count,
+          updated_at = NOW()
+        FROM (
+          SELECT 
+            COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) -
+            COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0) as balance,
+            COUNT(*) as entry_count
+          FROM ledger_entries
+          WHERE wallet_id = $1
+        ) le
+        WHERE wallet_balances.wallet_id = $1`,
+        [walletId]
+      );
+    });
+
+    logger.info("Wallet balance repaired from ledger", { walletId });
+  }
+
+  private parseBalance(row: Record<string, any> | undefined): number {
+    if (!row || row.balance === null || row.balance === undefined) {
+      return 0;
+    }
+
+    const balance = parseInt(row.balance, 10);
+    return isNaN(balance) ? 0 : balance;
+  }
+
+  private assertBalanced(input: PostJournalInput): void {
+    if (input.postings.length < 2) {
+      throw new UnbalancedJournalError(
+        `Journal ${input.transaction_reference} needs at least two postings`
+      );
+    }
+
+    // Postings only offset each other within the same currency
+    const netByCurrency = new Map<string, number>();
+    for (const posting of input.postings) {
+      if (!Number.isInteger(posting.amount) || posting.amount <= 0) {
+        throw new UnbalancedJournalError(
+          `Journal ${input.transaction_reference} has a non-positive posting amount`
+        );
+      }
+      const signed =
+        posting.direction === "credit" ? posting.amount : -posting.amount;
+      netByCurrency.set(
+        posting.currency,
+        (netByCurrency.get(posting.currency) || 0) + signed
+      );
+    }
+
+    for (const [currency, net] of netByCurrency) {
+      if (net !== 0) {
+        throw new UnbalancedJournalError(
+          `Journal ${input.transaction_reference} is unbalanced by ${net} ${currency}`
+        );
+      }
+    }
+  }
+
+  private mapRowToJournal(row: Record<string, any>): Journal {
+    return {
+      id: row.id,
+      type: row.type as JournalType,
+      transaction_reference: row.transaction_reference,
+      transfer_id: row.transfer_id,
+      created_at: row.created_at,
+    };
+  }
+
   private mapRowToLedgerEntry(row: Record<string, any>): LedgerEntry {
     return {
       id: row.id,
+      journal_id: row.journal_id,
       wallet_id: row.wallet_id,
       amount: parseInt(row.amount, 10),
+      currency: row.currency,
       direction: row.direction as LedgerDirection,
       transaction_reference: row.transaction_reference,
       transfer_id: row.transfer_id,
       external_payment_ref: row.external_payment_ref,
+      balance_after: parseInt(row.balance_after, 10),
       created_at: row.created_at,
     };
   }
+
+  private mapRowToHistoryEntry(row: Record<string, any>): LedgerHistoryEntry {
+    return {
+      ...this.mapRowToLedgerEntry(row),
+      type: row.type as JournalType,
+      // Postings only exist once their journal commits; only transfers
+      // change status afterwards
+      status: (row.transfer_status as TransferStatus) || "completed",
+      counterparty: row.counterparty_wallet_id
+        ? {
+            wallet_id: row.counterparty_wallet_id,
+            wallet_label: row.counterparty_label,
+            user_id: row.counterparty_user_id,
+            display_name: row.counterparty_name,
+            masked_email: row.counterparty_email
+              ? maskEmail(row.counterparty_email)
+              : null,
+          }
+        : null,
+      memo: row.memo ?? null,
+      metadata: row.metadata ?? null,
+      client_reference: row.client_reference ?? null,
+    };
+  }
 }
 
 export const ledgerService = new LedgerService();
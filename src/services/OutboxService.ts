@@ -0,0 +1,164 @@
+import { pool, DbClient } from "../config/database";
+import {
+  AppendOutboxEventInput,
+  ConsumerOffset,
+  OutboxEvent,
+} from "../models/OutboxEvent";
+import { logger } from "../utils/logger";
+import { transactionRunner } from "../utils/transaction";
+
+export class OutboxService {
+  /**
+   * Record a domain event. Must be called with the client of the transaction
+   * that makes the change, so the event commits or rolls back with it.
+   */
+  async append(
+    client: DbClient,
+    input: AppendOutboxEventInput
+  ): Promise<OutboxEvent> {
+    const result = await client.query(
+      `INSERT INTO outbox_events (aggregate_type, aggregate_id, event_type, payload)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *`,
+      [
+        input.aggregate_type,
+        input.aggregate_id,
+        input.event_type,
+        JSON.stringify(input.payload),
+      ]
+    );
+
+    return this.mapRowToEvent(result.rows[0]);
+  }
+
+  /**
+   * Events after `position` in order. Rows from transactions that may still
+   * be in flight are held back, so a consumer never moves past an event that
+   * has yet to become visible.
+   */
+  async getEventsAfter(
+    position: number,
+    limit: number,
+    client: DbClient = pool
+  ): Promise<OutboxEvent[]> {
+    const result = await client.query(
+      `SELECT * FROM outbox_events
+      WHERE position > $1
+        AND transaction_id < pg_snapshot_xmin(pg_current_snapshot())
+      ORDER BY position
+      LIMIT $2`,
+      [position, limit]
+    );
+
+    return result.rows.map((row) => this.mapRowToEvent(row));
+  }
+
+  /**
+   * Pass the next batch of events after the consumer's offset to `handler`,
+   * then advance the offset. The offset row stays locked while the handler
+   * runs, so a second relay for the same consumer skips the batch instead of
+   * publishing it twice. If the handler throws, the offset is left alone and
+   * the batch is retried; a deadlock hands the batch over again straight
+   * away. Returns how many events were handled.
+   */
+  async consume(
+    consumer: string,
+    limit: number,
+    handler: (events: OutboxEvent[]) => Promise<void>
+  ): Promise<number> {
+    return transactionRunner.run(
+      { name: "consume_outbox" },
+      async (client) => {
+        await client.query(
+          `INSERT INTO event_consumer_offsets (consumer)
+          VALUES ($1)
+          ON CONFLICT (consumer) DO NOTHING`,
+          [consumer]
+        );
+
+        const offsetResult = await client.query(
+          `SELECT last_position FROM event_consumer_offsets
+          WHERE consumer = $1
+          FOR UPDATE SKIP LOCKED`,
+          [consumer]
+        );
+
+        if (offsetResult.rows.length === 0) {
+          // Another relay holds this consumer
+          return 0;
+        }
+
+        const events = await this.getEventsAfter(
+          parseInt(offsetResult.rows[0].last_position, 10),
+          limit,
+          client
+        );
+
+        if (events.length > 0) {
+          await handler(events);
+
+          await client.query(
+            `UPDATE event_consumer_offsets
+            SET last_position = $2, updated_at = NOW()
+            WHERE consumer = $1`,
+            [consumer, events[events.length - 1].position]
+          );
+        }
+
+        return events.length;
+      }
+    );
+  }
+
+  async listOffsets(): Promise<ConsumerOffset[]> {
+    const result = await pool.query(
+      "SELECT * FROM event_consumer_offsets ORDER BY consumer"
+    );
+
+    return result.rows.map((row) => this.mapRowToOffset(row));
+  }
+
+  /**
+   * Move a consumer's offset so that every event after `position` is
+   * published again. Use 0 to replay the whole log.
+   */
+  async resetOffset(
+    consumer: string,
+    position: number
+  ): Promise<ConsumerOffset> {
+    const result = await pool.query(
+      `INSERT INTO event_consumer_offsets (consumer, last_position)
+      VALUES ($1, $2)
+      ON CONFLICT (consumer) DO UPDATE
+      SET last_position = EXCLUDED.last_position, updated_at = NOW()
+      RETURNING *`,
+      [consumer, position]
+    );
+
+    logger.info("Event consumer offset reset", { consumer, position });
+
+    return this.mapRowToOffset(result.rows[0]);
+  }
+
+  private mapRowToEvent(row: Record<string, any>): OutboxEvent {
+    return {
+      position: parseInt(row.position, 10),
+      id: row.id,
+      aggregate_type: row.aggregate_type,
+      aggregate_id: row.aggregate_id,
+      event_type: row.event_type,
+      payload: row.payload,
+      created_at: row.created_at,
+    };
+  }
+
+  private mapRowToOffset(row: Record<string, any>): ConsumerOffset {
+    return {
+      consumer: row.consumer,
+      last_position: parseInt(row.last_position, 10),
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+export const outboxService = new OutboxService();
@@ -0,0 +1,571 @@
+import { pool, DbClient } from "../config/database";
+import {
+  PaymentRequest,
+  PaymentRequestStatus,
+  CreatePaymentRequestInput,
+} from "../models/PaymentRequest";
+import { WebhookEventType, WebhookEventTypeName } from "../models/Webhook";
+import { OutboxEventTypeName } from "../models/OutboxEvent";
+import { TransferService, transferService } from "./TransferService";
+import { WebhookService, webhookService } from "./WebhookService";
+import { OutboxService, outboxService } from "./OutboxService";
+import {
+  CurrencyMismatchError,
+  DuplicateClientReferenceError,
+  InvalidPaymentRequestStateError,
+  PaymentRequestExpiredError,
+  PaymentRequestNotFoundError,
+  ValidationError,
+  WalletClosedError,
+  WalletNotFoundError,
+} from "../utils/errors";
+import { assertAmountWithinLimit } from "../utils/currency";
+import { logger } from "../utils/logger";
+import { transactionRunner } from "../utils/transaction";
+
+const DEFAULT_PAYMENT_REQUEST_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// An accept that died between claiming a request and recording its transfer
+// may be retried after this long
+const ACCEPT_LEASE_SECONDS = 60;
+
+// Event published as a request enters each status
+const STATUS_EVENTS: Record<
+  PaymentRequestStatus,
+  WebhookEventTypeName & OutboxEventTypeName
+> = {
+  pending: WebhookEventType.PAYMENT_REQUEST_CREATED,
+  accepted: WebhookEventType.PAYMENT_REQUEST_ACCEPTED,
+  declined: WebhookEventType.PAYMENT_REQUEST_DECLINED,
+  cancelled: WebhookEventType.PAYMENT_REQUEST_CANCELLED,
+  expired: WebhookEventType.PAYMENT_REQUEST_EXPIRED,
+};
+
+/**
+ * client_reference of the transfer that pays a request. The transfer
+ * service allows a client_reference once per sender, so a request can never
+ * be paid twice, even when an accept dies after the transfer commits.
+ */
+export function paymentRequestReference(requestId: string) {
+  return `payment_request_${requestId}`;
+}
+
+export class PaymentRequestService {
+  private readonly ttlSeconds: number;
+
+  constructor(
+    private transferService: TransferService,
+    private webhookService: WebhookService,
+    private outboxService: OutboxService
+  ) {
+    this.ttlSeconds = parseInt(
+      process.env.PAYMENT_REQUEST_TTL_SECONDS ||
+        String(DEFAULT_PAYMENT_REQUEST_TTL_SECONDS),
+      10
+    );
+  }
+
+  /**
+   * Ask the payer wallet to pay amount into the requester wallet. Requests
+   * are same-currency only and lapse after expires_in_seconds (default
+   * PAYMENT_REQUEST_TTL_SECONDS).
+   */
+  async createRequest(
+    input: CreatePaymentRequestInput
+  ): Promise<PaymentRequest> {
+    if (input.requester_wallet_id === input.payer_wallet_id) {
+      throw new ValidationError("Cannot request funds from the same wallet");
+    }
+
+    const wallets = await pool.query(
+      "SELECT id, currency, status FROM wallets WHERE id = ANY($1)",
+      [[input.requester_wallet_id, input.payer_wallet_id]]
+    );
+    const requester = wallets.rows.find(
+      (w) => w.id === input.requester_wallet_id
+    );
+    const payer = wallets.rows.find((w) => w.id === input.payer_wallet_id);
+
+    if (!requester || !payer) {
+      throw new WalletNotFoundError(
+        requester ? input.payer_wallet_id : input.requester_wallet_id
+      );
+    }
+
+    for (const wallet of [requester, payer]) {
+      if (wallet.status === "closed") {
+        throw new WalletClosedError(wallet.id);
+      }
+    }
+
+    if (requester.currency !== payer.currency) {
+      throw new CurrencyMismatchError(
+        `Cannot request ${requester.currency} from a ${payer.currency} wallet; payment requests are same-currency only`
+      );
+    }
+
+    assertAmountWithinLimit(input.amount, requester.currency);
+
+    const request = await transactionRunner.run(
+      { name: "create_payment_request" },
+      async (client) => {
+        const result = await client.query(
+          `INSERT INTO payment_requests
+            (requester_wallet_id, payer_wallet_id, amount, currency, memo,
+             metadata, expires_at)
+          VALUES ($1, $2, $3, $4, $5, $6, NOW() + make_interval(secs => $7))
+          RETURNING *`,
+          [
+            input.requester_wallet_id,
+            input.payer_wallet_id,
+            input.amount,
+            requester.currency,
+            input.memo || null,
+            JSON.stringify(input.metadata || {}),
+            input.expires_in_seconds ?? this.ttlSeconds,
+          ]
+        );
+
+        const created = this.mapRowToRequest(result.rows[0]);
+        await this.publish(client, created);
+
+        return created;
+      }
+    );
+
+    logger.info("Payment request created", {
+      paymentRequestId: request.id,
+      requesterWalletId: request.requester_wallet_id,
+      payerWalletId: request.payer_wallet_id,
+      amount: request.amount,
+      expiresAt: request.expires_at,
+    });
+
+    return request;
+  }
+
+  async getRequest(requestId: string): Promise<PaymentRequest | null> {
+    const result = await pool.query(
+      "SELECT * FROM payment_requests WHERE id = $1",
+      [requestId]
+    );
+
+    return result.rows.length > 0
+      ? this.mapRowToRequest(result.rows[0])
+      : null;
+  }
+
+  /**
+   * List the requests a wallet has received (role payer), sent (role
+   * requester) or both, newest first
+   */
+  async listRequests(
+    walletId: string,
+    role?: "payer" | "requester",
+    statuses?: PaymentRequestStatus[]
+  ): Promise<PaymentRequest[]> {
+    const result = await pool.query(
+      `SELECT * FROM payment_requests
+      WHERE (($2::text IS NULL OR $2 = 'payer') AND payer_wallet_id = $1
+          OR ($2::text IS NULL OR $2 = 'requester')
+            AND requester_wallet_id = $1)
+        AND ($3::payment_request_status[] IS NULL
+          OR status = ANY($3::payment_request_status[]))
+      ORDER BY created_at DESC, id DESC`,
+      [
+        walletId,
+        role ?? null,
+        statuses && statuses.length > 0 ? statuses : null,
+      ]
+    );
+
+    return result.rows.map((row) => this.mapRowToRequest(row));
+  }
+
+  /**
+   * Pay a pending request with a transfer from the payer to the requester.
+   * The request is claimed as accepted first, so a cancel, decline or
+   * expiry cannot race the transfer; if the transfer fails, e.g. on
+   * insufficient balance, the request is pending again and the error is
+   * rethrown.
+   */
+  async acceptRequest(requestId: string): Promise<PaymentRequest> {
+    const claimed = await pool.query(
+      `UPDATE payment_requests
+      SET status = 'accepted', responded_at = NOW(), updated_at = NOW()
+      WHERE id = $1
+        AND expires_at > NOW()
+        AND (status = 'pending'
+          OR status = 'accepted' AND transfer_id IS NULL
+            AND responded_at <= NOW() - make_interval(secs => $2))
+      RETURNING *`,
+      [requestId, ACCEPT_LEASE_SECONDS]
+    );
+
+    if (claimed.rows.length === 0) {
+      const current = await this.getRequest(requestId);
+
+      if (!current) {
+        throw new PaymentRequestNotFoundError(requestId);
+      }
+
+      // A stale claim on a lapsed request is left to recoverStaleAccepts
+      if (
+        current.status === "pending" ||
+        (current.status === "accepted" &&
+          !current.transfer_id &&
+          current.expires_at <= new Date())
+      ) {
+        throw new PaymentRequestExpiredError(requestId);
+      }
+
+      throw new InvalidPaymentRequestStateError(
+        current.status === "accepted" && !current.transfer_id
+          ? `Payment request ${requestId} is already being accepted`
+          : `Payment request ${requestId} is ${current.status} and cannot be accepted`
+      );
+    }
+
+    const request = this.mapRowToRequest(claimed.rows[0]);
+    let transferId: string;
+
+    try {
+      const transfer = await this.transferService.transfer({
+        sender_wallet_id: request.payer_wallet_id,
+        receiver_wallet_id: request.requester_wallet_id,
+        amount: request.amount,
+        memo: request.memo ?? undefined,
+        metadata: request.metadata,
+        client_reference: paymentRequestReference(request.id),
+      });
+      transferId = transfer.id;
+    } catch (error) {
+      // An earlier accept may have made the transfer but died before
+      // recording it
+      const earlier =
+        error instanceof DuplicateClientReferenceError &&
+        typeof error.details?.transfer_id === "string"
+          ? await this.transferService.findMatchingTransfer(
+              error.details.transfer_id,
+              this.expectedTransfer(request)
+            )
+          : null;
+
+      if (!earlier) {
+        await this.release(pool, request.id);
+        throw error;
+      }
+
+      transferId = earlier.id;
+    }
+
+    const accepted = await transactionRunner.run(
+      { name: "accept_payment_request" },
+      async (client) => {
+        const result = await client.query(
+          `UPDATE payment_requests
+          SET transfer_id = $2, updated_at = NOW()
+          WHERE id = $1
+          RETURNING *`,
+          [request.id, transferId]
+        );
+
+        const updated = this.mapRowToRequest(result.rows[0]);
+        await this.publish(client, updated);
+
+        return updated;
+      }
+    );
+
+    logger.info("Payment request accepted", {
+      paymentRequestId: accepted.id,
+      transferId,
+    });
+
+    return accepted;
+  }
+
+  /**
+   * Settle accepts that died between claiming a request and recording its
+   * transfer, once their lease has run out. A request whose transfer went
+   * through is recorded as accepted; any other is pending again, to be
+   * accepted or to expire.
+   */
+  async recoverStaleAccepts(limit: number = 100): Promise<PaymentRequest[]> {
+    const stale = await pool.query(
+      `SELECT id FROM payment_requests
+      WHERE status = 'accepted' AND transfer_id IS NULL
+        AND responded_at <= NOW() - make_interval(secs => $1)
+      ORDER BY responded_at ASC
+      LIMIT $2`,
+      [ACCEPT_LEASE_SECONDS, limit]
+    );
+
+    const recovered: PaymentRequest[] = [];
+
+    for (const { id } of stale.rows) {
+      const request = await transactionRunner.run(
+        { name: "recover_payment_request" },
+        async (client) => {
+          // A retried accept may have picked it up since
+          const result = await client.query(
+            `SELECT * FROM payment_requests
+            WHERE id = $1 AND status = 'accepted' AND transfer_id IS NULL
+              AND responded_at <= NOW() - make_interval(secs => $2)
+            FOR UPDATE`,
+            [id, ACCEPT_LEASE_SECONDS]
+          );
+
+          if (result.rows.length === 0) {
+            return null;
+          }
+
+          const current = this.mapRowToRequest(result.rows[0]);
+
+          // Waits out a transfer from the payer that is still committing
+          await client.query("SELECT id FROM wallets WHERE id = $1 FOR UPDATE", [
+            current.payer_wallet_id,
+          ]);
+
+          const transferResult = await client.query(
+            `SELECT id FROM transfers
+            WHERE sender_wallet_id = $1 AND client_reference = $2`,
+            [current.payer_wallet_id, paymentRequestReference(current.id)]
+          );
+
+          const transfer =
+            transferResult.rows.length > 0
+              ? await this.transferService.findMatchingTransfer(
+                  transferResult.rows[0].id,
+                  this.expectedTransfer(current),
+                  client
+                )
+              : null;
+
+          if (!transfer) {
+            return this.release(client, current.id);
+          }
+
+          const updated = await client.query(
+            `UPDATE payment_requests
+            SET transfer_id = $2, updated_at = NOW()
+            WHERE id = $1
+            RETURNING *`,
+            [current.id, transfer.id]
+          );
+
+          const accepted = this.mapRowToRequest(updated.rows[0]);
+          await this.publish(client, accepted);
+
+          return accepted;
+        }
+      );
+
+      if (request) {
+        recovered.push(request);
+      }
+    }
+
+    if (recovered.length > 0) {
+      logger.info("Stale payment request accepts recovered", {
+        count: recovered.length,
+        paymentRequestIds: recovered.map((request) => request.id),
+      });
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Refuse a pending request as its payer
+   */
+  async declineRequest(requestId: string): Promise<PaymentRequest> {
+    return this.close(requestId, "declined");
+  }
+
+  /**
+   * Withdraw a pending request as its requester
+   */
+  async cancelRequest(requestId: string): Promise<PaymentRequest> {
+    return this.close(requestId, "cancelled");
+  }
+
+  /**
+   * Mark pending requests past expires_at as expired and notify both sides.
+   * Requests locked by a concurrent response are left for the next sweep.
+   */
+  async expireRequests(limit: number = 100): Promise<PaymentRequest[]> {
+    const expired = await transactionRunner.run(
+      { name: "expire_payment_requests" },
+      async (client) => {
+        const result = await client.query(
+          `UPDATE payment_requests
+          SET status = 'expired', responded_at = NOW(), updated_at = NOW()
+          WHERE id IN (
+            SELECT id FROM payment_requests
+            WHERE status = 'pending' AND expires_at <= NOW()
+            ORDER BY expires_at ASC
+            LIMIT $1
+            FOR UPDATE SKIP LOCKED
+          )
+          RETURNING *`,
+          [limit]
+        );
+
+        const requests = result.rows.map((row: Record<string, any>) =>
+          this.mapRowToRequest(row)
+        );
+
+        for (const request of requests) {
+          await this.publish(client, request);
+        }
+
+        return requests;
+      }
+    );
+
+    if (expired.length > 0) {
+      logger.info("Payment requests expired", {
+        count: expired.length,
+        paymentRequestIds: expired.map((request) => request.id),
+      });
+    }
+
+    return expired;
+  }
+
+  /**
+   * Move a pending request to a final status without paying it
+   */
+  private async close(
+    requestId: string,
+    status: "declined" | "cancelled"
+  ): Promise<PaymentRequest> {
+    const name =
+      status === "declined"
+        ? "decline_payment_request"
+        : "cancel_payment_request";
+
+    const request = await transactionRunner.run({ name }, async (client) => {
+      const current = await this.lockRequest(client, requestId);
+
+      if (current.status !== "pending") {
+        throw new InvalidPaymentRequestStateError(
+          `Payment request ${requestId} is ${current.status} and cannot be ${status}`
+        );
+      }
+
+      if (current.expires_at.getTime() <= Date.now()) {
+        throw new PaymentRequestExpiredError(requestId);
+      }
+
+      const result = await client.query(
+        `UPDATE payment_requests
+        SET status = $2, responded_at = NOW(), updated_at = NOW()
+        WHERE id = $1
+        RETURNING *`,
+        [requestId, status]
+      );
+
+      const updated = this.mapRowToRequest(result.rows[0]);
+      await this.publish(client, updated);
+
+      return updated;
+    });
+
+    logger.info(`Payment request ${status}`, { paymentRequestId: requestId });
+
+    return request;
+  }
+
+  /**
+   * Queue the event for the request's current status for webhooks and the
+   * outbox, in the caller's transaction
+   */
+  private async publish(
+    client: DbClient,
+    request: PaymentRequest
+  ): Promise<void> {
+    const eventType = STATUS_EVENTS[request.status];
+
+    await this.webhookService.enqueue(client, eventType, {
+      payment_request: request,
+    });
+    await this.outboxService.append(client, {
+      aggregate_type: "payment_request",
+      aggregate_id: request.id,
+      event_type: eventType,
+      payload: { payment_request: request },
+    });
+  }
+
+  /**
+   * Put a request claimed by an accept that did not pay it back to pending
+   */
+  private async release(
+    client: DbClient,
+    requestId: string
+  ): Promise<PaymentRequest | null> {
+    const result = await client.query(
+      `UPDATE payment_requests
+      SET status = 'pending', responded_at = NULL, updated_at = NOW()
+      WHERE id = $1 AND status = 'accepted' AND transfer_id IS NULL
+      RETURNING *`,
+      [requestId]
+    );
+
+    return result.rows[0] ? this.mapRowToRequest(result.rows[0]) : null;
+  }
+
+  /**
+   * What the transfer paying a request moves
+   */
+  private expectedTransfer(request: PaymentRequest) {
+    return {
+      sender_wallet_id: request.payer_wallet_id,
+      receiver_wallet_id: request.requester_wallet_id,
+      amount: request.amount,
+      currency: request.currency,
+    };
+  }
+
+  private async lockRequest(
+    client: DbClient,
+    requestId: string
+  ): Promise<PaymentRequest> {
+    const result = await client.query(
+      "SELECT * FROM payment_requests WHERE id = $1 FOR UPDATE",
+      [requestId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new PaymentRequestNotFoundError(requestId);
+    }
+
+    return this.mapRowToRequest(result.rows[0]);
+  }
+
+  private mapRowToRequest(row: Record<string, any>): PaymentRequest {
+    return {
+      id: row.id,
+      requester_wallet_id: row.requester_wallet_id,
+      payer_wallet_id: row.payer_wallet_id,
+      amount: parseInt(row.amount, 10),
+      currency: row.currency,
+      memo: row.memo ?? null,
+      metadata: row.metadata ?? {},
+      status: row.status,
+      expires_at: row.expires_at,
+      transfer_id: row.transfer_id ?? null,
+      responded_at: row.responded_at ?? null,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+export const paymentRequestService = new PaymentRequestService(
+  transferService,
+  webhookService,
+  outboxService
+);
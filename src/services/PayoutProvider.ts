@@ -0,0 +1,75 @@
+import { v4 as uuidv4 } from "uuid";
+import { PayoutDestination } from "../models/Withdrawal";
+import { logger } from "../utils/logger";
+
+export interface PayoutRequest {
+  withdrawal_id: string;
+  amount: number;
+  currency: string;
+  destination: PayoutDestination;
+  external_payment_ref: string;
+  /**
+   * The same for every attempt at one withdrawal, so a payout submitted
+   * again after a lost response is not paid twice
+   */
+  idempotency_key: string;
+}
+
+/**
+ * Sends money out of the platform. A payout is only submitted here; the
+ * provider reports whether it settled or failed later, through the
+ * withdrawal settle and fail callbacks.
+ */
+export interface PayoutProvider {
+  /** Recorded on each withdrawal sent through the provider */
+  readonly name: string;
+  /**
+   * Submit a payout and resolve with the provider's reference for it.
+   * Resubmitting with the same idempotency key resolves with the same
+   * reference. Rejects with PayoutRejectedError if the provider refuses the
+   * payout outright; any other rejection is retried.
+   */
+  createPayout(request: PayoutRequest): Promise<string>;
+}
+
+/**
+ * Fake provider for local development and tests. Accepts every payout and
+ * leaves it pending until a callback reports its outcome.
+ */
+export class LocalPayoutProvider implements PayoutProvider {
+  readonly name = "local";
+  private references = new Map<string, string>();
+
+  async createPayout(request: PayoutRequest): Promise<string> {
+    const existing = this.references.get(request.idempotency_key);
+    if (existing) {
+      return existing;
+    }
+
+    const reference = `local_${uuidv4()}`;
+    this.references.set(request.idempotency_key, reference);
+
+    logger.info("Local payout created", {
+      withdrawalId: request.withdrawal_id,
+      amount: request.amount,
+      currency: request.currency,
+      providerReference: reference,
+    });
+
+    return reference;
+  }
+}
+
+/**
+ * Payout provider configured by PAYOUT_PROVIDER. Only the local fake ships
+ * with the service.
+ */
+export function createPayoutProvider(): PayoutProvider {
+  const name = process.env.PAYOUT_PROVIDER || "local";
+
+  if (name !== "local") {
+    throw new Error(`Unknown payout provider: ${name}`);
+  }
+
+  return new LocalPayoutProvider();
+}
@@ -0,0 +1,56 @@
+import fs from "fs";
+import { FxRateUnavailableError } from "../utils/errors";
+import { logger } from "../utils/logger";
+
+/**
+ * Source of FX rates. A rate is the number of target-currency major units
+ * for one source-currency major unit.
+ */
+export interface RateProvider {
+  getRate(sourceCurrency: string, targetCurrency: string): Promise<number>;
+}
+
+/**
+ * Rates from a fixed table keyed by pair ("USD/EUR").
+ * When only the inverse pair is listed, its reciprocal is used.
+ */
+export class StaticRateProvider implements RateProvider {
+  constructor(private rates: Record<string, number>) {}
+
+  async getRate(sourceCurrency: string, targetCurrency: string): Promise<number> {
+    const direct = this.rates[`${sourceCurrency}/${targetCurrency}`];
+    if (direct !== undefined && direct > 0) {
+      return direct;
+    }
+
+    const inverse = this.rates[`${targetCurrency}/${sourceCurrency}`];
+    if (inverse !== undefined && inverse > 0) {
+      return 1 / inverse;
+    }
+
+    throw new FxRateUnavailableError(sourceCurrency, targetCurrency);
+  }
+}
+
+/**
+ * Static rates loaded from a JSON file, e.g. { "USD/EUR": 0.92, "USD/JPY": 151.2 }
+ */
+export class FileRateProvider extends StaticRateProvider {
+  constructor(filePath: string) {
+    const rates = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    super(rates);
+
+    logger.info("Loaded FX rates from file", {
+      filePath,
+      pairs: Object.keys(rates).length,
+    });
+  }
+}
+
+/**
+ * Rate provider configured by FX_RATES_FILE; without it no pairs are quoted
+ */
+export function createRateProvider(): RateProvider {
+  const filePath = process.env.FX_RATES_FILE;
+  return filePath ? new FileRateProvider(filePath) : new StaticRateProvider({});
+}
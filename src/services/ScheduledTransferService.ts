@@ -0,0 +1,540 @@
+import { pool, DbClient } from "../config/database";
+import {
+  ScheduledTransfer,
+  ScheduledTransferStatus,
+  CreateScheduledTransferInput,
+} from "../models/ScheduledTransfer";
+import { TransferService, transferService } from "./TransferService";
+import {
+  CurrencyMismatchError,
+  DuplicateClientReferenceError,
+  InvalidScheduledTransferStateError,
+  ScheduledTransferNotFoundError,
+  ValidationError,
+  WalletClosedError,
+  WalletNotFoundError,
+} from "../utils/errors";
+import { assertAmountWithinLimit } from "../utils/currency";
+import { occurrenceAt, parseRecurrence } from "../utils/recurrence";
+import { logger } from "../utils/logger";
+import { transactionRunner } from "../utils/transaction";
+
+// A claimed schedule is picked up again by another worker if not settled by then
+const CLAIM_LEASE_SECONDS = 300;
+const MAX_RETRY_DELAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * client_reference of the transfer made for one occurrence. The transfer
+ * service allows a client_reference once per sender, so an occurrence can
+ * never be paid twice, even when a worker dies after the transfer commits.
+ */
+export function occurrenceReference(scheduleId: string, index: number) {
+  return `scheduled_${scheduleId}_${index}`;
+}
+
+/**
+ * Failures that retrying cannot fix
+ */
+function isPermanentFailure(error: unknown): boolean {
+  return (
+    error instanceof WalletNotFoundError ||
+    error instanceof WalletClosedError ||
+    error instanceof CurrencyMismatchError ||
+    error instanceof ValidationError
+  );
+}
+
+export class ScheduledTransferService {
+  private readonly maxAttempts: number;
+  private readonly retryBaseSeconds: number;
+
+  constructor(private transferService: TransferService) {
+    this.maxAttempts = parseInt(
+      process.env.SCHEDULED_TRANSFER_MAX_ATTEMPTS || "4",
+      10
+    );
+    this.retryBaseSeconds = parseInt(
+      process.env.SCHEDULED_TRANSFER_RETRY_BASE_SECONDS || "3600",
+      10
+    );
+  }
+
+  /**
+   * Schedule a same-currency transfer once at start_at, or repeatedly per
+   * recurrence starting then
+   */
+  async createSchedule(
+    input: CreateScheduledTransferInput
+  ): Promise<ScheduledTransfer> {
+    const rule = input.recurrence ? parseRecurrence(input.recurrence) : null;
+
+    if (input.start_at.getTime() < Date.now()) {
+      throw new ValidationError("Start time must not be in the past");
+    }
+
+    if (!occurrenceAt(input.start_at, rule, 0)) {
+      throw new ValidationError("Recurrence ends before the start time");
+    }
+
+    const wallets = await pool.query(
+      "SELECT id, currency, status FROM wallets WHERE id = ANY($1)",
+      [[input.sender_wallet_id, input.receiver_wallet_id]]
+    );
+    const sender = wallets.rows.find((w) => w.id === input.sender_wallet_id);
+    const receiver = wallets.rows.find(
+      (w) => w.id === input.receiver_wallet_id
+    );
+
+    if (!sender || !receiver) {
+      throw new WalletNotFoundError(
+        sender ? input.receiver_wallet_id : input.sender_wallet_id
+      );
+    }
+
+    for (const wallet of [sender, receiver]) {
+      if (wallet.status === "closed") {
+        throw new WalletClosedError(wallet.id);
+      }
+    }
+
+    if (sender.currency !== receiver.currency) {
+      throw new CurrencyMismatchError(
+        `Cannot schedule transfers from a ${sender.currency} wallet to a ${receiver.currency} wallet; scheduled transfers are same-currency only`
+      );
+    }
+
+    assertAmountWithinLimit(input.amount, sender.currency);
+
+    const result = await pool.query(
+      `INSERT INTO scheduled_transfers
+        (sender_wallet_id, receiver_wallet_id, amount, currency, memo,
+         metadata, start_at, recurrence, next_run_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $7)
+      RETURNING *`,
+      [
+        input.sender_wallet_id,
+        input.receiver_wallet_id,
+        input.amount,
+        sender.currency,
+        input.memo || null,
+        JSON.stringify(input.metadata || {}),
+        input.start_at,
+        input.recurrence || null,
+      ]
+    );
+
+    const schedule = this.mapRowToSchedule(result.rows[0]);
+
+    logger.info("Scheduled transfer created", {
+      scheduleId: schedule.id,
+      senderWalletId: schedule.sender_wallet_id,
+      receiverWalletId: schedule.receiver_wallet_id,
+      amount: schedule.amount,
+      startAt: schedule.start_at,
+      recurrence: schedule.recurrence,
+    });
+
+    return schedule;
+  }
+
+  async getSchedule(scheduleId: string): Promise<ScheduledTransfer | null> {
+    const result = await pool.query(
+      "SELECT * FROM scheduled_transfers WHERE id = $1",
+      [scheduleId]
+    );
+
+    return result.rows.length > 0
+      ? this.mapRowToSchedule(result.rows[0])
+      : null;
+  }
+
+  /**
+   * List the schedules a wallet pays from, newest first
+   */
+  async listSchedules(
+    walletId: string,
+    statuses?: ScheduledTransferStatus[]
+  ): Promise<ScheduledTransfer[]> {
+    const result = await pool.query(
+      `SELECT * FROM scheduled_transfers
+      WHERE sender_wallet_id = $1
+        AND ($2::scheduled_transfer_status[] IS NULL
+          OR status = ANY($2::scheduled_transfer_status[]))
+      ORDER BY created_at DESC, id DESC`,
+      [walletId, statuses && statuses.length > 0 ? statuses : null]
+    );
+
+    return result.rows.map((row) => this.mapRowToSchedule(row));
+  }
+
+  /**
+   * Stop running an active schedule. Occurrences that fall due while it is
+   * paused are skipped.
+   */
+  async pauseSchedule(scheduleId: string): Promise<ScheduledTransfer> {
+    const schedule = await transactionRunner.run(
+      { name: "pause_scheduled_transfer" },
+      async (client) => {
+        const current = await this.lockSchedule(client, scheduleId);
+
+        if (current.status !== "active") {
+          throw new InvalidScheduledTransferStateError(
+            `Scheduled transfer ${scheduleId} is ${current.status} and cannot be paused`
+          );
+        }
+
+        const result = await client.query(
+          `UPDATE scheduled_transfers
+          SET status = 'paused', updated_at = NOW()
+          WHERE id = $1
+          RETURNING *`,
+          [scheduleId]
+        );
+
+        return this.mapRowToSchedule(result.rows[0]);
+      }
+    );
+
+    logger.info("Scheduled transfer paused", { scheduleId });
+
+    return schedule;
+  }
+
+  /**
+   * Restart a paused schedule from its next occurrence that is not yet due.
+   * A one-off whose time passed while paused runs right away; a schedule
+   * with no occurrences left completes.
+   */
+  async resumeSchedule(scheduleId: string): Promise<ScheduledTransfer> {
+    const schedule = await transactionRunner.run(
+      { name: "resume_scheduled_transfer" },
+      async (client) => {
+        const current = await this.lockSchedule(client, scheduleId);
+
+        if (current.status !== "paused") {
+          throw new InvalidScheduledTransferStateError(
+            `Scheduled transfer ${scheduleId} is ${current.status} and cannot be resumed`
+          );
+        }
+
+        const next = this.findOccurrence(
+          current,
+          current.next_occurrence,
+          new Date()
+        );
+
+        const result = await client.query(
+          `UPDATE scheduled_transfers
+          SET status = $2, next_occurrence = $3, next_run_at = $4,
+            attempts = 0, updated_at = NOW()
+          WHERE id = $1
+          RETURNING *`,
+          [
+            scheduleId,
+            next ? "active" : "completed",
+            next ? next.index : current.next_occurrence,
+            next ? next.at : null,
+          ]
+        );
+
+        return this.mapRowToSchedule(result.rows[0]);
+      }
+    );
+
+    logger.info("Scheduled transfer resumed", {
+      scheduleId,
+      status: schedule.status,
+      nextRunAt: schedule.next_run_at,
+    });
+
+    return schedule;
+  }
+
+  /**
+   * Stop an active or paused schedule for good. Transfers already made are
+   * not affected.
+   */
+  async cancelSchedule(scheduleId: string): Promise<ScheduledTransfer> {
+    const schedule = await transactionRunner.run(
+      { name: "cancel_scheduled_transfer" },
+      async (client) => {
+        const current = await this.lockSchedule(client, scheduleId);
+
+        if (current.status !== "active" && current.status !== "paused") {
+          throw new InvalidScheduledTransferStateError(
+            `Scheduled transfer ${scheduleId} is ${current.status} and cannot be cancelled`
+          );
+        }
+
+        const result = await client.query(
+          `UPDATE scheduled_transfers
+          SET status = 'cancelled', next_run_at = NULL, updated_at = NOW()
+          WHERE id = $1
+          RETURNING *`,
+          [scheduleId]
+        );
+
+        return this.mapRowToSchedule(result.rows[0]);
+      }
+    );
+
+    logger.info("Scheduled transfer cancelled", { scheduleId });
+
+    return schedule;
+  }
+
+  /**
+   * Claim up to `limit` due schedules and run their current occurrence.
+   * Returns how many were attempted. Safe to run from several workers at
+   * once.
+   */
+  async runDue(limit: number = 10): Promise<number> {
+    const result = await pool.query(
+      `UPDATE scheduled_transfers
+      SET next_run_at = NOW() + make_interval(secs => $2)
+      WHERE id IN (
+        SELECT id FROM scheduled_transfers
+        WHERE status = 'active' AND next_run_at <= NOW()
+        ORDER BY next_run_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`,
+      [limit, CLAIM_LEASE_SECONDS]
+    );
+
+    for (const row of result.rows) {
+      await this.runOccurrence(this.mapRowToSchedule(row));
+    }
+
+    return result.rows.length;
+  }
+
+  private async runOccurrence(schedule: ScheduledTransfer): Promise<void> {
+    let transferId: string;
+
+    try {
+      const transfer = await this.transferService.transfer({
+        sender_wallet_id: schedule.sender_wallet_id,
+        receiver_wallet_id: schedule.receiver_wallet_id,
+        amount: schedule.amount,
+        memo: schedule.memo ?? undefined,
+        metadata: schedule.metadata,
+        client_reference: occurrenceReference(
+          schedule.id,
+          schedule.next_occurrence
+        ),
+      });
+      transferId = transfer.id;
+    } catch (error) {
+      // An earlier run may have made the transfer but died before recording
+      // it
+      const earlier =
+        error instanceof DuplicateClientReferenceError &&
+        typeof error.details?.transfer_id === "string"
+          ? await this.transferService.findMatchingTransfer(
+              error.details.transfer_id,
+              {
+                sender_wallet_id: schedule.sender_wallet_id,
+                receiver_wallet_id: schedule.receiver_wallet_id,
+                amount: schedule.amount,
+                currency: schedule.currency,
+              }
+            )
+          : null;
+
+      if (!earlier) {
+        await this.recordFailure(schedule, error);
+        return;
+      }
+
+      transferId = earlier.id;
+    }
+
+    await this.advance(schedule, { transferId });
+
+    logger.info("Scheduled transfer ran", {
+      scheduleId: schedule.id,
+      occurrence: schedule.next_occurrence,
+      transferId,
+    });
+  }
+
+  /**
+   * Retry the occurrence with exponential backoff, or give it up once its
+   * attempts are used up or the error is permanent
+   */
+  private async recordFailure(
+    schedule: ScheduledTransfer,
+    error: unknown
+  ): Promise<void> {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const attempts = schedule.attempts + 1;
+    const permanent = isPermanentFailure(error);
+
+    if (permanent || attempts >= this.maxAttempts) {
+      await this.advance(schedule, { errorMessage, permanent });
+
+      logger.warn("Scheduled transfer occurrence given up", {
+        scheduleId: schedule.id,
+        occurrence: schedule.next_occurrence,
+        attempts,
+        permanent,
+        error: errorMessage,
+      });
+      return;
+    }
+
+    const delaySeconds = Math.min(
+      this.retryBaseSeconds * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY_SECONDS
+    );
+
+    // A pause or cancel made while the transfer ran stands
+    await pool.query(
+      `UPDATE scheduled_transfers
+      SET attempts = $2,
+        last_error = $3,
+        last_run_at = NOW(),
+        next_run_at = CASE WHEN status = 'active'
+          THEN NOW() + make_interval(secs => $4)
+          ELSE next_run_at END,
+        updated_at = NOW()
+      WHERE id = $1`,
+      [schedule.id, attempts, errorMessage, delaySeconds]
+    );
+
+    logger.warn("Scheduled transfer failed", {
+      scheduleId: schedule.id,
+      occurrence: schedule.next_occurrence,
+      attempts,
+      error: errorMessage,
+      retryInSeconds: delaySeconds,
+    });
+  }
+
+  /**
+   * Move past the current occurrence, paid or given up, to the next one that
+   * is not yet due. As on resume, occurrences missed while the worker was
+   * down or the occurrence was being retried are skipped rather than paid
+   * in a burst. The schedule completes after its last paid occurrence and
+   * fails after a given-up one, or at once on a permanent error.
+   */
+  private async advance(
+    schedule: ScheduledTransfer,
+    outcome:
+      | { transferId: string }
+      | { errorMessage: string; permanent: boolean }
+  ): Promise<void> {
+    const paid = "transferId" in outcome;
+    const next =
+      paid || !outcome.permanent
+        ? this.findOccurrence(
+            schedule,
+            schedule.next_occurrence + 1,
+            new Date()
+          )
+        : null;
+
+    if (next && next.index > schedule.next_occurrence + 1) {
+      logger.warn("Scheduled transfer skipped missed occurrences", {
+        scheduleId: schedule.id,
+        from: schedule.next_occurrence + 1,
+        to: next.index - 1,
+      });
+    }
+
+    // A pause or cancel made while the transfer ran stands
+    await pool.query(
+      `UPDATE scheduled_transfers
+      SET next_occurrence = $2,
+        attempts = 0,
+        last_error = $3,
+        last_run_at = NOW(),
+        last_transfer_id = COALESCE($4, last_transfer_id),
+        next_run_at = CASE WHEN status = 'active'
+          THEN $5::timestamp ELSE next_run_at END,
+        status = CASE WHEN status = 'active' AND $5::timestamp IS NULL
+          THEN $6::scheduled_transfer_status ELSE status END,
+        updated_at = NOW()
+      WHERE id = $1`,
+      [
+        schedule.id,
+        next ? next.index : schedule.next_occurrence + 1,
+        paid ? null : outcome.errorMessage,
+        paid ? outcome.transferId : null,
+        next ? next.at : null,
+        paid ? "completed" : "failed",
+      ]
+    );
+  }
+
+  /**
+   * The first occurrence from `fromIndex` on, skipping those before
+   * notBefore unless the schedule is a one-off
+   */
+  private findOccurrence(
+    schedule: ScheduledTransfer,
+    fromIndex: number,
+    notBefore: Date | null
+  ): { index: number; at: Date } | null {
+    const rule = schedule.recurrence
+      ? parseRecurrence(schedule.recurrence)
+      : null;
+
+    for (let index = fromIndex; ; index++) {
+      const at = occurrenceAt(schedule.start_at, rule, index);
+
+      if (!at) {
+        return null;
+      }
+
+      if (!rule || !notBefore || at >= notBefore) {
+        return { index, at };
+      }
+    }
+  }
+
+  private async lockSchedule(
+    client: DbClient,
+    scheduleId: string
+  ): Promise<ScheduledTransfer> {
+    const result = await client.query(
+      "SELECT * FROM scheduled_transfers WHERE id = $1 FOR UPDATE",
+      [scheduleId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ScheduledTransferNotFoundError(scheduleId);
+    }
+
+    return this.mapRowToSchedule(result.rows[0]);
+  }
+
+  private mapRowToSchedule(row: Record<string, any>): ScheduledTransfer {
+    return {
+      id: row.id,
+      sender_wallet_id: row.sender_wallet_id,
+      receiver_wallet_id: row.receiver_wallet_id,
+      amount: parseInt(row.amount, 10),
+      currency: row.currency,
+      memo: row.memo ?? null,
+      metadata: row.metadata ?? {},
+      start_at: row.start_at,
+      recurrence: row.recurrence ?? null,
+      status: row.status,
+      next_occurrence: row.next_occurrence,
+      next_run_at: row.next_run_at ?? null,
+      attempts: row.attempts,
+      last_error: row.last_error ?? null,
+      last_run_at: row.last_run_at ?? null,
+      last_transfer_id: row.last_transfer_id ?? null,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+export const scheduledTransferService = new ScheduledTransferService(
+  transferService
+);
@@ -0,0 +1,336 @@
+import { pool, DbClient } from "../config/database";
+import {
+  LimitUsage,
+  SpendingLimit,
+  SpendingLimitType,
+  SpendingLimitValues,
+  WalletLimits,
+} from "../models/SpendingLimit";
+import { DEFAULT_USER_TIER } from "../models/Fee";
+import {
+  LimitExceededError,
+  SpendingLimitNotFoundError,
+  WalletNotFoundError,
+} from "../utils/errors";
+import { formatAmount } from "../utils/currency";
+import { logger } from "../utils/logger";
+
+const LIMIT_COLUMNS = [
+  "max_single_amount",
+  "daily_amount",
+  "monthly_amount",
+  "max_transfer_count",
+  "count_window_seconds",
+] as const;
+
+export class SpendingLimitService {
+  async listLimits(): Promise<SpendingLimit[]> {
+    const result = await pool.query(
+      `SELECT * FROM spending_limits
+      ORDER BY tier NULLS LAST, currency, wallet_id`
+    );
+
+    return result.rows.map((row) => this.mapRowToLimit(row));
+  }
+
+  /**
+   * Set a wallet's own limits, replacing its tier's defaults entirely.
+   * Omitted values are unlimited.
+   */
+  async upsertWalletLimit(
+    walletId: string,
+    values: SpendingLimitValues
+  ): Promise<SpendingLimit> {
+    const result = await pool.query(
+      `INSERT INTO spending_limits
+        (wallet_id, currency, ${LIMIT_COLUMNS.join(", ")})
+      SELECT id, currency, $2, $3, $4, $5, $6
+      FROM wallets
+      WHERE id = $1
+      ON CONFLICT (wallet_id) DO UPDATE SET
+        ${this.updateAssignments()}
+      RETURNING *`,
+      [walletId, ...this.limitParams(values)]
+    );
+
+    if (result.rows.length === 0) {
+      throw new WalletNotFoundError(walletId);
+    }
+
+    const limit = this.mapRowToLimit(result.rows[0]);
+    logger.info("Wallet spending limit saved", { walletId, limitId: limit.id });
+
+    return limit;
+  }
+
+  /**
+   * Set the default limits for wallets in `currency` owned by users on `tier`
+   */
+  async upsertTierLimit(
+    tier: string,
+    currency: string,
+    values: SpendingLimitValues
+  ): Promise<SpendingLimit> {
+    const result = await pool.query(
+      `INSERT INTO spending_limits
+        (tier, currency, ${LIMIT_COLUMNS.join(", ")})
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (tier, currency) WHERE tier IS NOT NULL DO UPDATE SET
+        ${this.updateAssignments()}
+      RETURNING *`,
+      [tier, currency, ...this.limitParams(values)]
+    );
+
+    const limit = this.mapRowToLimit(result.rows[0]);
+    logger.info("Tier spending limit saved", {
+      tier,
+      currency,
+      limitId: limit.id,
+    });
+
+    return limit;
+  }
+
+  async deleteLimit(limitId: string): Promise<SpendingLimit> {
+    const result = await pool.query(
+      "DELETE FROM spending_limits WHERE id = $1 RETURNING *",
+      [limitId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new SpendingLimitNotFoundError(limitId);
+    }
+
+    logger.info("Spending limit deleted", { limitId });
+
+    return this.mapRowToLimit(result.rows[0]);
+  }
+
+  /**
+   * The limits that apply to a wallet and how much of each is left
+   */
+  async getWalletLimits(
+    walletId: string,
+    client: DbClient = pool
+  ): Promise<WalletLimits> {
+    const { currency, limit } = await this.resolveLimit(client, walletId);
+
+    return {
+      wallet_id: walletId,
+      currency,
+      source: limit ? (limit.wallet_id ? "wallet" : "tier") : null,
+      limit_id: limit?.id ?? null,
+      usage: limit ? await this.measureUsage(client, walletId, limit) : [],
+    };
+  }
+
+  /**
+   * Reject an outgoing transfer or withdrawal of `amount` that would break
+   * any limit. Must run on its transaction after the wallet is locked, so
+   * concurrent debits from the wallet see each other's usage.
+   */
+  async assertWithinLimits(
+    client: DbClient,
+    walletId: string,
+    amount: number
+  ): Promise<void> {
+    const { currency, limit } = await this.resolveLimit(client, walletId);
+
+    if (!limit) {
+      return;
+    }
+
+    const usage = await this.measureUsage(client, walletId, limit);
+
+    for (const u of usage) {
+      const needed = u.limit === "max_transfer_count" ? 1 : amount;
+
+      if (u.used + needed > u.max) {
+        logger.warn("Spending limit exceeded", {
+          walletId,
+          limit: u.limit,
+          max: u.max,
+          used: u.used,
+          amount,
+        });
+        throw new LimitExceededError(
+          u.limit,
+          u.resets_at,
+          this.describeBreach(u, limit, currency)
+        );
+      }
+    }
+  }
+
+  /**
+   * A wallet's own limits win over its owner's tier defaults. System wallets
+   * have no owner and fall back to the default tier.
+   */
+  private async resolveLimit(
+    client: DbClient,
+    walletId: string
+  ): Promise<{ currency: string; limit: SpendingLimit | null }> {
+    const result = await client.query(
+      `SELECT sl.*, w.currency AS wallet_currency
+      FROM wallets w
+      LEFT JOIN users u ON u.id = w.user_id
+      LEFT JOIN spending_limits sl ON sl.wallet_id = w.id
+        OR (sl.tier = COALESCE(u.tier, $2) AND sl.currency = w.currency)
+      WHERE w.id = $1
+      ORDER BY sl.wallet_id NULLS LAST
+      LIMIT 1`,
+      [walletId, DEFAULT_USER_TIER]
+    );
+
+    if (result.rows.length === 0) {
+      throw new WalletNotFoundError(walletId);
+    }
+
+    const row = result.rows[0];
+
+    return {
+      currency: row.wallet_currency,
+      limit: row.id ? this.mapRowToLimit(row) : null,
+    };
+  }
+
+  /**
+   * Outgoing usage against each configured limit. Days and months are
+   * calendar periods in the database time zone; the count window is rolling.
+   * Every transfer that did not fail counts, including reversed ones.
+   */
+  private async measureUsage(
+    client: DbClient,
+    walletId: string,
+    limit: SpendingLimit
+  ): Promise<LimitUsage[]> {
+    const result = await client.query(
+      `SELECT
+        COALESCE(SUM(amount) FILTER (
+          WHERE created_at >= date_trunc('day', NOW())
+        ), 0) AS daily_used,
+        COALESCE(SUM(amount) FILTER (
+          WHERE created_at >= date_trunc('month', NOW())
+        ), 0) AS monthly_used,
+        COUNT(*) FILTER (
+          WHERE created_at > NOW() - make_interval(secs => $2)
+        ) AS window_count,
+        MIN(created_at) FILTER (
+          WHERE created_at > NOW() - make_interval(secs => $2)
+        ) + make_interval(secs => $2) AS window_resets_at,
+        date_trunc('day', NOW()) + INTERVAL '1 day' AS daily_resets_at,
+        date_trunc('month', NOW()) + INTERVAL '1 month' AS monthly_resets_at
+      FROM (
+        SELECT amount, created_at FROM transfers
+        WHERE sender_wallet_id = $1
+          -- Released holds never moved money; live holds count in full
+          AND status NOT IN ('failed', 'voided', 'expired')
+          AND NOT (status = 'pending' AND hold_expires_at <= NOW())
+        UNION ALL
+        -- Failed withdrawals were returned to the wallet
+        SELECT amount, created_at FROM withdrawals
+        WHERE wallet_id = $1 AND status <> 'failed'
+      ) AS outgoing
+      WHERE created_at >= LEAST(
+        date_trunc('month', NOW()),
+        NOW() - make_interval(secs => $2)
+      )`,
+      [walletId, limit.count_window_seconds ?? 0]
+    );
+
+    const row = result.rows[0];
+    const usage: LimitUsage[] = [];
+
+    const add = (
+      type: SpendingLimitType,
+      max: number | null,
+      used: number,
+      resetsAt: Date | null
+    ) => {
+      if (max !== null) {
+        usage.push({
+          limit: type,
+          max,
+          used,
+          remaining: Math.max(max - used, 0),
+          resets_at: resetsAt,
+        });
+      }
+    };
+
+    add("max_single_amount", limit.max_single_amount, 0, null);
+    add(
+      "daily_amount",
+      limit.daily_amount,
+      parseInt(row.daily_used, 10),
+      row.daily_resets_at
+    );
+    add(
+      "monthly_amount",
+      limit.monthly_amount,
+      parseInt(row.monthly_used, 10),
+      row.monthly_resets_at
+    );
+    add(
+      "max_transfer_count",
+      limit.max_transfer_count,
+      parseInt(row.window_count, 10),
+      row.window_resets_at ?? null
+    );
+
+    return usage;
+  }
+
+  private describeBreach(
+    usage: LimitUsage,
+    limit: SpendingLimit,
+    currency: string
+  ): string {
+    const resets = usage.resets_at
+      ? `; resets at ${new Date(usage.resets_at).toISOString()}`
+      : "";
+
+    switch (usage.limit) {
+      case "max_single_amount":
+        return `Transfer exceeds the single transfer limit of ${formatAmount(usage.max, currency)}`;
+      case "daily_amount":
+        return `Transfer exceeds the daily limit of ${formatAmount(usage.max, currency)}, ${formatAmount(usage.remaining, currency)} remaining${resets}`;
+      case "monthly_amount":
+        return `Transfer exceeds the monthly limit of ${formatAmount(usage.max, currency)}, ${formatAmount(usage.remaining, currency)} remaining${resets}`;
+      case "max_transfer_count":
+        return `Transfer exceeds the limit of ${usage.max} transfers per ${limit.count_window_seconds} seconds${resets}`;
+    }
+  }
+
+  private limitParams(values: SpendingLimitValues): (number | null)[] {
+    return LIMIT_COLUMNS.map((column) => values[column] ?? null);
+  }
+
+  private updateAssignments(): string {
+    return [
+      ...LIMIT_COLUMNS.map((column) => `${column} = EXCLUDED.${column}`),
+      "updated_at = NOW()",
+    ].join(",\n        ");
+  }
+
+  private mapRowToLimit(row: Record<string, any>): SpendingLimit {
+    const toNumber = (value: string | null) =>
+      value === null || value === undefined ? null : parseInt(value, 10);
+
+    return {
+      id: row.id,
+      wallet_id: row.wallet_id,
+      tier: row.tier,
+      currency: row.currency,
+      max_single_amount: toNumber(row.max_single_amount),
+      daily_amount: toNumber(row.daily_amount),
+      monthly_amount: toNumber(row.monthly_amount),
+      max_transfer_count: toNumber(row.max_transfer_count),
+      count_window_seconds: toNumber(row.count_window_seconds),
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+export const spendingLimitService = new SpendingLimitService();
@@ -0,0 +1,193 @@
+import { DbClient } from "../config/database";
+import { JournalType } from "../models/Journal";
+import { LedgerDirection } from "../models/LedgerEntry";
+import {
+  StatementRequest,
+  StatementHeader,
+  StatementLine,
+  StatementSummary,
+  StatementTypeTotal,
+  StatementWriter,
+} from "../models/Statement";
+import { ValidationError, WalletNotFoundError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import { transactionRunner } from "../utils/transaction";
+
+/**
+ * Entries read per query while streaming a statement
+ */
+export const STATEMENT_BATCH_SIZE = 500;
+
+export class StatementService {
+  constructor(private batchSize: number = STATEMENT_BATCH_SIZE) {}
+
+  /**
+   * Stream a statement for a wallet into writer: the opening balance, every
+   * entry in the period with its running balance, then the closing balance
+   * and totals by journal type. Entries are read in keyset batches so memory
+   * stays flat however long the period is. Every line's balance_after was
+   * recorded at posting time, so the statement needs no recomputation.
+   *
+   * Every read shares one REPEATABLE READ snapshot, so postings made while
+   * the statement streams cannot make its closing balance disagree with its
+   * lines. A read-only transaction at that level never conflicts, so the
+   * work is never retried after the writer has been written to.
+   */
+  async writeStatement(
+    request: StatementRequest,
+    writer: StatementWriter
+  ): Promise<StatementSummary> {
+    if (request.from >= request.to) {
+      throw new ValidationError("Statement period must end after it starts");
+    }
+
+    const summary = await transactionRunner.run(
+      {
+        name: "write_statement",
+        isolationLevel: "REPEATABLE READ",
+        readOnly: true,
+      },
+      (client) => this.streamStatement(client, request, writer)
+    );
+
+    logger.info("Statement generated", {
+      walletId: request.wallet_id,
+      from: request.from,
+      to: request.to,
+      entryCount: summary.entry_count,
+    });
+
+    return summary;
+  }
+
+  private async streamStatement(
+    client: DbClient,
+    request: StatementRequest,
+    writer: StatementWriter
+  ): Promise<StatementSummary> {
+    const walletResult = await client.query(
+      "SELECT currency, label FROM wallets WHERE id = $1",
+      [request.wallet_id]
+    );
+
+    if (walletResult.rows.length === 0) {
+      throw new WalletNotFoundError(request.wallet_id);
+    }
+
+    const openingResult = await client.query(
+      `SELECT balance_after FROM ledger_entries
+      WHERE wallet_id = $1 AND created_at < $2
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1`,
+      [request.wallet_id, request.from]
+    );
+
+    const header: StatementHeader = {
+      wallet_id: request.wallet_id,
+      currency: walletResult.rows[0].currency,
+      label: walletResult.rows[0].label,
+      from: request.from,
+      to: request.to,
+      opening_balance:
+        openingResult.rows.length > 0
+          ? parseInt(openingResult.rows[0].balance_after, 10)
+          : 0,
+      generated_at: new Date(),
+    };
+
+    await writer.begin(header);
+
+    const summary: StatementSummary = {
+      closing_balance: header.opening_balance,
+      total_credits: 0,
+      total_debits: 0,
+      entry_count: 0,
+      totals_by_type: [],
+    };
+    const totalsByType = new Map<JournalType, StatementTypeTotal>();
+
+    // Position of the last row read, as the database renders it, so
+    // microseconds survive between batches
+    let after: { created_at: string; id: string } | null = null;
+
+    for (;;) {
+      const params: unknown[] = [request.wallet_id, request.from, request.to];
+      let keyset = "";
+      if (after) {
+        params.push(after.created_at, after.id);
+        keyset = "AND (le.created_at, le.id) > ($4::timestamp, $5::uuid)";
+      }
+      params.push(this.batchSize);
+
+      const result = await client.query(
+        `SELECT le.*, j.type, le.created_at::text AS cursor_created_at
+        FROM ledger_entries le
+        JOIN journals j ON j.id = le.journal_id
+        WHERE le.wallet_id = $1 AND le.created_at >= $2 AND le.created_at < $3
+          ${keyset}
+        ORDER BY le.created_at ASC, le.id ASC
+        LIMIT $${params.length}`,
+        params
+      );
+
+      if (result.rows.length === 0) {
+        break;
+      }
+
+      const lines = result.rows.map((row: Record<string, any>) =>
+        this.mapRowToLine(row)
+      );
+
+      for (const line of lines) {
+        const totals = totalsByType.get(line.type) || {
+          type: line.type,
+          credits: 0,
+          debits: 0,
+          count: 0,
+        };
+        if (line.direction === "credit") {
+          totals.credits += line.amount;
+          summary.total_credits += line.amount;
+        } else {
+          totals.debits += line.amount;
+          summary.total_debits += line.amount;
+        }
+        totals.count += 1;
+        totalsByType.set(line.type, totals);
+      }
+
+      summary.entry_count += lines.length;
+      summary.closing_balance = lines[lines.length - 1].balance_after;
+
+      await writer.lines(lines);
+
+      const last = result.rows[result.rows.length - 1];
+      after = { created_at: last.cursor_created_at, id: last.id };
+
+      if (result.rows.length < this.batchSize) {
+        break;
+      }
+    }
+
+    summary.totals_by_type = Array.from(totalsByType.values());
+
+    await writer.end(summary);
+
+    return summary;
+  }
+
+  private mapRowToLine(row: Record<string, any>): StatementLine {
+    return {
+      entry_id: row.id,
+      created_at: row.created_at,
+      type: row.type as JournalType,
+      direction: row.direction as LedgerDirection,
+      amount: parseInt(row.amount, 10),
+      balance_after: parseInt(row.balance_after, 10),
+      transaction_reference: row.transaction_reference,
+      transfer_id: row.transfer_id,
+    };
+  }
+}
+
+export const statementService = new StatementService();
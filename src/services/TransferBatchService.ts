@@ -0,0 +1,453 @@
+import { pool } from "../config/database";
+import {
+  TransferBatch,
+  TransferBatchItem,
+  TransferBatchItemStatus,
+  TransferBatchStatus,
+  CreateTransferBatchInput,
+} from "../models/TransferBatch";
+import {
+  TransferService,
+  TransferManyOutcome,
+  transferService,
+} from "./TransferService";
+import {
+  AppError,
+  TransactionConflictError,
+  ValidationError,
+  WalletClosedError,
+  WalletNotFoundError,
+} from "../utils/errors";
+import { assertAmountWithinLimit } from "../utils/currency";
+import { logger } from "../utils/logger";
+import { transactionRunner } from "../utils/transaction";
+
+// A claimed batch is picked up again by another worker if not settled by then
+const CLAIM_LEASE_SECONDS = 300;
+
+interface ItemResult {
+  status: TransferBatchItemStatus;
+  transfer_id: string | null;
+  error_code: string | null;
+  error_message: string | null;
+}
+
+/**
+ * What to record for one item: the transfer or error transferMany() returned
+ * for it, or skipped when it never ran or was rolled back with its batch
+ */
+function toItemResult(
+  outcome: TransferManyOutcome | undefined,
+  rolledBack: boolean
+): ItemResult {
+  if (outcome && "error" in outcome) {
+    return {
+      status: "failed",
+      transfer_id: null,
+      error_code: outcome.error.code ?? null,
+      error_message: outcome.error.message,
+    };
+  }
+
+  if (outcome && !rolledBack) {
+    return {
+      status: "completed",
+      transfer_id: outcome.transfer.id,
+      error_code: null,
+      error_message: null,
+    };
+  }
+
+  return {
+    status: "skipped",
+    transfer_id: null,
+    error_code: null,
+    error_message: null,
+  };
+}
+
+function toBatchStatus(succeeded: number, total: number): TransferBatchStatus {
+  if (succeeded === total) {
+    return "completed";
+  }
+  return succeeded === 0 ? "failed" : "partially_completed";
+}
+
+export class TransferBatchService {
+  private readonly maxItems: number;
+  private readonly maxAttempts: number;
+
+  constructor(private transferService: TransferService) {
+    this.maxItems = parseInt(
+      process.env.TRANSFER_BATCH_MAX_ITEMS || "1000",
+      10
+    );
+    this.maxAttempts = parseInt(
+      process.env.TRANSFER_BATCH_MAX_ATTEMPTS || "5",
+      10
+    );
+  }
+
+  /**
+   * Queue a batch of same-currency transfers from one sender. Items are
+   * checked for shape here; balances, limits and receivers are checked when
+   * a worker runs the batch.
+   */
+  async createBatch(input: CreateTransferBatchInput): Promise<TransferBatch> {
+    if (input.items.length > this.maxItems) {
+      throw new ValidationError(
+        `A batch can hold at most ${this.maxItems} items, got ${input.items.length}`
+      );
+    }
+
+    const references = new Set<string>();
+
+    input.items.forEach((item, position) => {
+      if (item.receiver_wallet_id === input.sender_wallet_id) {
+        throw new ValidationError(
+          `Item ${position} transfers funds from a wallet to itself`
+        );
+      }
+
+      if (item.client_reference) {
+        if (references.has(item.client_reference)) {
+          throw new ValidationError(
+            `Item ${position} repeats client reference ${item.client_reference}`
+          );
+        }
+        references.add(item.client_reference);
+      }
+    });
+
+    const walletResult = await pool.query(
+      "SELECT id, currency, status FROM wallets WHERE id = $1",
+      [input.sender_wallet_id]
+    );
+    const sender = walletResult.rows[0];
+
+    if (!sender) {
+      throw new WalletNotFoundError(input.sender_wallet_id);
+    }
+
+    if (sender.status === "closed") {
+      throw new WalletClosedError(sender.id);
+    }
+
+    for (const item of input.items) {
+      assertAmountWithinLimit(item.amount, sender.currency);
+    }
+
+    const totalAmount = input.items.reduce((sum, item) => sum + item.amount, 0);
+
+    const batch = await transactionRunner.run(
+      { name: "create_transfer_batch" },
+      async (client) => {
+        const batchResult = await client.query(
+          `INSERT INTO transfer_batches
+            (sender_wallet_id, currency, mode, item_count, total_amount)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING *`,
+          [
+            input.sender_wallet_id,
+            sender.currency,
+            input.mode,
+            input.items.length,
+            totalAmount,
+          ]
+        );
+
+        await client.query(
+          `INSERT INTO transfer_batch_items
+            (batch_id, position, receiver_wallet_id, amount, memo, metadata,
+             client_reference)
+          SELECT $1, item.ordinality - 1, item.receiver_wallet_id,
+            item.amount, item.memo, item.metadata, item.client_reference
+          FROM unnest($2::uuid[], $3::bigint[], $4::text[], $5::jsonb[],
+            $6::text[])
+            WITH ORDINALITY AS item(receiver_wallet_id, amount, memo,
+              metadata, client_reference, ordinality)`,
+          [
+            batchResult.rows[0].id,
+            input.items.map((item) => item.receiver_wallet_id),
+            input.items.map((item) => item.amount),
+            input.items.map((item) => item.memo || null),
+            input.items.map((item) => JSON.stringify(item.metadata || {})),
+            input.items.map((item) => item.client_reference || null),
+          ]
+        );
+
+        return this.mapRowToBatch(batchResult.rows[0]);
+      }
+    );
+
+    logger.info("Transfer batch created", {
+      batchId: batch.id,
+      senderWalletId: batch.sender_wallet_id,
+      mode: batch.mode,
+      itemCount: batch.item_count,
+      totalAmount: batch.total_amount,
+    });
+
+    return batch;
+  }
+
+  async getBatch(batchId: string): Promise<TransferBatch | null> {
+    const result = await pool.query(
+      "SELECT * FROM transfer_batches WHERE id = $1",
+      [batchId]
+    );
+
+    return result.rows.length > 0 ? this.mapRowToBatch(result.rows[0]) : null;
+  }
+
+  async getBatchItems(batchId: string): Promise<TransferBatchItem[]> {
+    const result = await pool.query(
+      `SELECT * FROM transfer_batch_items
+      WHERE batch_id = $1
+      ORDER BY position ASC`,
+      [batchId]
+    );
+
+    return result.rows.map((row) => this.mapRowToItem(row));
+  }
+
+  /**
+   * Claim up to `limit` queued batches, oldest first, and run each. Returns
+   * how many were claimed. Safe to run from several workers at once.
+   */
+  async processPending(limit: number = 5): Promise<number> {
+    const result = await pool.query(
+      `UPDATE transfer_batches
+      SET status = 'processing',
+        attempts = attempts + 1,
+        started_at = COALESCE(started_at, NOW()),
+        lease_expires_at = NOW() + make_interval(secs => $2)
+      WHERE id IN (
+        SELECT id FROM transfer_batches
+        WHERE status = 'pending'
+          OR (status = 'processing' AND lease_expires_at <= NOW())
+        ORDER BY created_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`,
+      [limit, CLAIM_LEASE_SECONDS]
+    );
+
+    for (const row of result.rows) {
+      await this.processBatch(this.mapRowToBatch(row));
+    }
+
+    return result.rows.length;
+  }
+
+  /**
+   * Run every item of a claimed batch in one transaction holding the sender
+   * lock throughout, and record each item's outcome in the same
+   * transaction. An all_or_nothing batch stops at its first failure and
+   * rolls back what it had paid. A batch is given up after
+   * TRANSFER_BATCH_MAX_ATTEMPTS runs that did not finish.
+   */
+  private async processBatch(batch: TransferBatch): Promise<void> {
+    const allOrNothing = batch.mode === "all_or_nothing";
+
+    // Earlier runs died without recording anything, e.g. the worker crashed
+    if (batch.attempts > this.maxAttempts) {
+      await this.failBatch(
+        batch,
+        `Gave up after ${this.maxAttempts} attempts that did not finish`
+      );
+      return;
+    }
+
+    try {
+      const processed = await transactionRunner.run(
+        { name: "process_transfer_batch", isolationLevel: "SERIALIZABLE" },
+        async (client) => {
+          // A worker whose lease lapsed may have finished it meanwhile
+          const current = await client.query(
+            "SELECT status FROM transfer_batches WHERE id = $1 FOR UPDATE",
+            [batch.id]
+          );
+
+          if (current.rows[0]?.status !== "processing") {
+            return null;
+          }
+
+          const itemResult = await client.query(
+            `SELECT * FROM transfer_batch_items
+            WHERE batch_id = $1
+            ORDER BY position ASC`,
+            [batch.id]
+          );
+          const items = itemResult.rows.map((row) => this.mapRowToItem(row));
+
+          await client.query("SAVEPOINT transfer_batch");
+
+          const outcomes = await this.transferService.transferMany(
+            client,
+            batch.sender_wallet_id,
+            items.map((item) => ({
+              receiver_wallet_id: item.receiver_wallet_id,
+              amount: item.amount,
+              memo: item.memo ?? undefined,
+              metadata: item.metadata,
+              client_reference: item.client_reference ?? undefined,
+            })),
+            allOrNothing
+          );
+
+          const failedAt = outcomes.findIndex((outcome) => "error" in outcome);
+          const rolledBack = allOrNothing && failedAt !== -1;
+
+          if (rolledBack) {
+            await client.query("ROLLBACK TO SAVEPOINT transfer_batch");
+          }
+
+          const results = items.map((_, i) =>
+            toItemResult(outcomes[i], rolledBack)
+          );
+
+          await client.query(
+            `UPDATE transfer_batch_items AS item
+            SET status = result.status,
+              transfer_id = result.transfer_id,
+              error_code = result.error_code,
+              error_message = result.error_message
+            FROM unnest($1::uuid[], $2::transfer_batch_item_status[],
+              $3::uuid[], $4::text[], $5::text[])
+              AS result(id, status, transfer_id, error_code, error_message)
+            WHERE item.id = result.id`,
+            [
+              items.map((item) => item.id),
+              results.map((result) => result.status),
+              results.map((result) => result.transfer_id),
+              results.map((result) => result.error_code),
+              results.map((result) => result.error_message),
+            ]
+          );
+
+          const succeeded = results.filter(
+            (result) => result.status === "completed"
+          ).length;
+          const failed = results.filter(
+            (result) => result.status === "failed"
+          ).length;
+
+          const batchResult = await client.query(
+            `UPDATE transfer_batches
+            SET status = $2, succeeded_count = $3, failed_count = $4,
+              error = $5, completed_at = NOW(), lease_expires_at = NULL
+            WHERE id = $1
+            RETURNING *`,
+            [
+              batch.id,
+              toBatchStatus(succeeded, items.length),
+              succeeded,
+              failed,
+              rolledBack
+                ? `Item ${failedAt} failed, so no item was paid: ${results[failedAt].error_message}`
+                : null,
+            ]
+          );
+
+          return this.mapRowToBatch(batchResult.rows[0]);
+        }
+      );
+
+      if (processed) {
+        logger.info("Transfer batch processed", {
+          batchId: processed.id,
+          status: processed.status,
+          succeededCount: processed.succeeded_count,
+          failedCount: processed.failed_count,
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (
+        error instanceof AppError &&
+        !(error instanceof TransactionConflictError)
+      ) {
+        await this.failBatch(batch, message);
+        return;
+      }
+
+      // Anything else, conflicts included, is retried once the lease lapses,
+      // until the attempts are used up
+      if (batch.attempts >= this.maxAttempts) {
+        await this.failBatch(
+          batch,
+          `Gave up after ${batch.attempts} attempts: ${message}`
+        );
+        return;
+      }
+
+      logger.error("Transfer batch processing failed", {
+        batchId: batch.id,
+        attempts: batch.attempts,
+        error: message,
+      });
+    }
+  }
+
+  /**
+   * Fail a batch none of whose items could run, e.g. because its sender
+   * wallet is gone or its attempts are used up
+   */
+  private async failBatch(batch: TransferBatch, message: string) {
+    await pool.query(
+      `UPDATE transfer_batch_items SET status = 'skipped'
+      WHERE batch_id = $1 AND status = 'pending'`,
+      [batch.id]
+    );
+    await pool.query(
+      `UPDATE transfer_batches
+      SET status = 'failed', error = $2, completed_at = NOW(),
+        lease_expires_at = NULL
+      WHERE id = $1 AND status = 'processing'`,
+      [batch.id, message]
+    );
+
+    logger.warn("Transfer batch failed", { batchId: batch.id, error: message });
+  }
+
+  private mapRowToBatch(row: Record<string, any>): TransferBatch {
+    return {
+      id: row.id,
+      sender_wallet_id: row.sender_wallet_id,
+      currency: row.currency,
+      mode: row.mode,
+      status: row.status,
+      item_count: row.item_count,
+      total_amount: parseInt(row.total_amount, 10),
+      succeeded_count: row.succeeded_count,
+      failed_count: row.failed_count,
+      error: row.error ?? null,
+      attempts: row.attempts ?? 0,
+      created_at: row.created_at,
+      started_at: row.started_at ?? null,
+      completed_at: row.completed_at ?? null,
+    };
+  }
+
+  private mapRowToItem(row: Record<string, any>): TransferBatchItem {
+    return {
+      id: row.id,
+      batch_id: row.batch_id,
+      position: row.position,
+      receiver_wallet_id: row.receiver_wallet_id,
+      amount: parseInt(row.amount, 10),
+      memo: row.memo ?? null,
+      metadata: row.metadata ?? {},
+      client_reference: row.client_reference ?? null,
+      status: row.status,
+      transfer_id: row.transfer_id ?? null,
+      error_code: row.error_code ?? null,
+      error_message: row.error_message ?? null,
+    };
+  }
+}
+
+export const transferBatchService = new TransferBatchService(transferService);
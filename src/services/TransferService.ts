@@ -1,155 +1,1095 @@
 import { pool } from "../config/database";
-import { Transfer, CreateTransferInput } from "../models/Transfer";
+import {
+  Transfer,
+  CreateTransferInput,
+  TransferReversal,
+  ReverseTransferInput,
+  TransferFeePreview,
+  TransferWithEntries,
+  TransferListQuery,
+  TransferPage,
+  PlaceHoldInput,
+  CaptureHoldInput,
+} from "../models/Transfer";
+import { TransferBatchItemInput } from "../models/TransferBatch";
+import { JournalPosting } from "../models/Journal";
+import { SystemAccount, WalletStatus } from "../models/Wallet";
+import { DbClient } from "../config/database";
 import { LedgerService, ledgerService } from "./LedgerService";
-import { InsufficientBalanceError, WalletNotFoundError } from "../utils/errors";
+import { FxService, fxService } from "./FxService";
+import { WebhookService, webhookService } from "./WebhookService";
+import { OutboxService, outboxService } from "./OutboxService";
+import { FeeService, feeService } from "./FeeService";
+import {
+  SpendingLimitService,
+  spendingLimitService,
+} from "./SpendingLimitService";
+import { WebhookEventType } from "../models/Webhook";
+import { OutboxEventType } from "../models/OutboxEvent";
+import { FeeOperation } from "../models/Fee";
+import {
+  AppError,
+  InsufficientBalanceError,
+  WalletNotFoundError,
+  TransferNotFoundError,
+  InvalidTransferStateError,
+  ReversalAmountExceededError,
+  CurrencyMismatchError,
+  ValidationError,
+  FxQuoteNotFoundError,
+  FxQuoteExpiredError,
+  FxQuoteAlreadyUsedError,
+  TransactionConflictError,
+  LimitExceededError,
+  WalletFrozenError,
+  WalletDebitFrozenError,
+  WalletClosedError,
+  DuplicateClientReferenceError,
+  HoldExpiredError,
+  CaptureAmountExceededError,
+} from "../utils/errors";
+import { assertAmountWithinLimit, formatAmount } from "../utils/currency";
 import { logger } from "../utils/logger";
+import { assertWalletAcceptsPosting } from "../utils/walletStatus";
+import { transactionRunner } from "../utils/transaction";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
 import { v4 as uuidv4 } from "uuid";
 
+interface LockedWallet {
+  id: string;
+  user_id: string | null;
+  currency: string;
+  status: WalletStatus;
+}
+
+/**
+ * What became of one transfer of transferMany(): the transfer, or the error
+ * that stopped it
+ */
+export type TransferManyOutcome = { transfer: Transfer } | { error: AppError };
+
+/**
+ * How long a hold reserves funds when the caller does not say: 7 days
+ */
+export const DEFAULT_HOLD_TTL_SECONDS = 7 * 24 * 60 * 60;
+
 export class TransferService {
-  constructor(private ledgerService: LedgerService) {}
+  private holdTtlSeconds: number;
 
+  constructor(
+    private ledgerService: LedgerService,
+    private fxService: FxService,
+    private webhookService: WebhookService,
+    private outboxService: OutboxService,
+    private feeService: FeeService,
+    private spendingLimitService: SpendingLimitService
+  ) {
+    this.holdTtlSeconds = parseInt(
+      process.env.HOLD_TTL_SECONDS || String(DEFAULT_HOLD_TTL_SECONDS),
+      10
+    );
+  }
+
+  /**
+   * Move funds between two wallets. Wallets of different currencies need a
+   * quote_id from an unexpired FX quote matching the pair and amount; the
+   * sender is debited amount and the receiver credited the quoted target amount.
+   * Any fee from the sender's fee schedule is charged on top of amount, in
+   * the sender's currency, as a separate journal crediting fee revenue.
+   * The sender's spending limits apply to amount, excluding the fee, and
+   * amount plus fee must fit in the sender's available balance.
+   * A client_reference may only be used once per sending wallet.
+   */
   async transfer(input: CreateTransferInput): Promise<Transfer> {
-    const client = await pool.connect();
+    const transfer = await this.createTransfer(input, null);
+
+    logger.info("Transfer completed", {
+      transferId: transfer.id,
+      senderWalletId: transfer.sender_wallet_id,
+      receiverWalletId: transfer.receiver_wallet_id,
+      amount: transfer.amount,
+      currency: transfer.currency,
+      receiverAmount: transfer.receiver_amount,
+      receiverCurrency: transfer.receiver_currency,
+      fxQuoteId: transfer.fx_quote_id,
+      feeAmount: transfer.fee_amount,
+    });
+
+    return transfer;
+  }
+
+  /**
+   * Reserve funds for a later capture. The hold is a pending transfer that
+   * passes the same checks as transfer(), with spending limits applied to the
+   * authorized amount. Until it is captured, voided or expires, amount plus
+   * the quoted fee is taken out of the sender's available balance; the
+   * ledger balance only changes on capture.
+   */
+  async placeHold(input: PlaceHoldInput): Promise<Transfer> {
+    const hold = await this.createTransfer(
+      input,
+      input.expires_in_seconds ?? this.holdTtlSeconds
+    );
+
+    logger.info("Hold placed", {
+      transferId: hold.id,
+      senderWalletId: hold.sender_wallet_id,
+      receiverWalletId: hold.receiver_wallet_id,
+      amount: hold.amount,
+      currency: hold.currency,
+      feeAmount: hold.fee_amount,
+      expiresAt: hold.hold_expires_at,
+    });
+
+    return hold;
+  }
 
+  /**
+   * Capture all or part of an unexpired hold as a completed transfer. The
+   * fee is quoted again for the captured amount and the rest of the
+   * reservation is released. Spending limits were applied when the hold was
+   * placed and are not checked again.
+   */
+  async captureHold(input: CaptureHoldInput): Promise<Transfer> {
     try {
-      await client.query("BEGIN");
-      await client.query("SET TRANSACTION ISOLATION LEVEL SERIALIZABLE");
+      const transfer = await transactionRunner.run(
+        { name: "capture_hold", isolationLevel: "SERIALIZABLE" },
+        async (client) => {
+          // Lock the hold first, like reverseTransfer(), so a capture cannot
+          // race a void or the expiry sweep
+          const { hold, expired } = await this.lockHold(
+            client,
+            input.transfer_id
+          );
 
-      // Sort wallet IDs to ensure consistent locking order (prevents deadlocks)
-      const walletIds = [
-        input.sender_wallet_id,
-        input.receiver_wallet_id,
-      ].sort();
-      const [firstWalletId, secondWalletId] = walletIds;
+          if (expired) {
+            throw new HoldExpiredError(hold.id);
+          }
+
+          const authorized = hold.authorized_amount!;
+          const amount = input.amount ?? authorized;
 
-      const wallet1Result = await client.query(
-        "SELECT id FROM wallets WHERE id = $1 FOR UPDATE",
-        [firstWalletId]
+          if (amount > authorized) {
+            throw new CaptureAmountExceededError(amount, authorized);
+          }
+
+          const { sender, receiver } = await this.lockWallets(
+            client,
+            hold.sender_wallet_id,
+            hold.receiver_wallet_id
+          );
+
+          assertWalletAcceptsPosting(sender.id, sender.status, "debit");
+          assertWalletAcceptsPosting(receiver.id, receiver.status, "credit");
+
+          const { fee_amount: feeAmount } =
+            await this.feeService.quoteForWallet(
+              this.feeOperation(sender, receiver),
+              hold.sender_wallet_id,
+              hold.currency,
+              amount,
+              client
+            );
+
+          // The hold's own reservation is what pays for the capture
+          await this.assertAvailableBalance(
+            client,
+            hold.sender_wallet_id,
+            amount + feeAmount,
+            hold.currency,
+            hold.id
+          );
+
+          await client.query(
+            `UPDATE transfers
+            SET amount = $2, receiver_amount = $2, fee_amount = $3
+            WHERE id = $1`,
+            [hold.id, amount, feeAmount]
+          );
+
+          return this.completeTransfer(client, {
+            ...hold,
+            amount,
+            receiver_amount: amount,
+            fee_amount: feeAmount,
+          });
+        }
       );
 
-      const wallet2Result = await client.query(
-        "SELECT id FROM wallets WHERE id = $1 FOR UPDATE",
-        [secondWalletId]
+      logger.info("Hold captured", {
+        transferId: transfer.id,
+        amount: transfer.amount,
+        authorizedAmount: transfer.authorized_amount,
+        feeAmount: transfer.fee_amount,
+      });
+
+      return transfer;
+    } catch (error) {
+      if (
+        error instanceof TransferNotFoundError ||
+        error instanceof InvalidTransferStateError ||
+        error instanceof HoldExpiredError ||
+        error instanceof CaptureAmountExceededError ||
+        error instanceof InsufficientBalanceError ||
+        error instanceof WalletFrozenError ||
+        error instanceof WalletDebitFrozenError ||
+        error instanceof WalletClosedError ||
+        error instanceof TransactionConflictError
+      ) {
+        throw error;
+      }
+
+      logger.error("Hold capture failed", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        input,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Release a pending hold without moving any money
+   */
+  async voidHold(transferId: string): Promise<Transfer> {
+    const hold = await transactionRunner.run(
+      { name: "void_hold" },
+      async (client) => {
+        await this.lockHold(client, transferId);
+
+        const result = await client.query(
+          `UPDATE transfers SET status = 'voided' WHERE id = $1 RETURNING *`,
+          [transferId]
+        );
+
+        return this.mapRowToTransfer(result.rows[0]);
+      }
+    );
+
+    logger.info("Hold voided", { transferId: hold.id });
+
+    return hold;
+  }
+
+  /**
+   * Mark holds past hold_expires_at as expired. They already stopped
+   * reserving funds at that time; this only settles their status. Rows
+   * locked by a concurrent capture or void are left for the next sweep.
+   */
+  async expireHolds(limit: number = 100): Promise<Transfer[]> {
+    const result = await pool.query(
+      `UPDATE transfers SET status = 'expired'
+      WHERE id IN (
+        SELECT id FROM transfers
+        WHERE status = 'pending' AND hold_expires_at <= NOW()
+        ORDER BY hold_expires_at ASC
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`,
+      [limit]
+    );
+
+    const expired = result.rows.map((row: Record<string, any>) =>
+      this.mapRowToTransfer(row)
+    );
+
+    if (expired.length > 0) {
+      logger.info("Holds expired", {
+        count: expired.length,
+        transferIds: expired.map((hold: Transfer) => hold.id),
+      });
+    }
+
+    return expired;
+  }
+
+  /**
+   * Make many same-currency transfers from one sender inside the caller's
+   * transaction. The sender and every receiver are locked once, in ID
+   * order, then each transfer passes the same checks and ledger path as
+   * transfer() under its own savepoint, so a failed one leaves nothing
+   * behind. Business errors are returned in its place; with stopOnFailure
+   * nothing after the first failure is attempted. Database errors are
+   * rethrown for the transaction to roll back or retry.
+   */
+  async transferMany(
+    client: DbClient,
+    senderWalletId: string,
+    items: TransferBatchItemInput[],
+    stopOnFailure: boolean
+  ): Promise<TransferManyOutcome[]> {
+    const walletIds = [
+      ...new Set([senderWalletId, ...items.map((i) => i.receiver_wallet_id)]),
+    ];
+
+    // ORDER BY id locks in the same order as lockWallets(), avoiding deadlocks
+    const walletResult = await client.query(
+      `SELECT id, user_id, currency, status FROM wallets
+      WHERE id = ANY($1)
+      ORDER BY id
+      FOR UPDATE`,
+      [walletIds]
+    );
+    const wallets = new Map<string, LockedWallet>(
+      walletResult.rows.map((row: LockedWallet) => [row.id, row])
+    );
+    const sender = wallets.get(senderWalletId);
+
+    if (!sender) {
+      throw new WalletNotFoundError(senderWalletId);
+    }
+
+    const outcomes: TransferManyOutcome[] = [];
+
+    for (const item of items) {
+      await client.query("SAVEPOINT transfer_many_item");
+
+      try {
+        const receiver = wallets.get(item.receiver_wallet_id);
+
+        if (!receiver) {
+          throw new WalletNotFoundError(item.receiver_wallet_id);
+        }
+
+        if (receiver.id === sender.id) {
+          throw new ValidationError(
+            "Cannot transfer funds from a wallet to itself"
+          );
+        }
+
+        const transfer = await this.insertTransfer(
+          client,
+          sender,
+          receiver,
+          { ...item, sender_wallet_id: senderWalletId },
+          null
+        );
+
+        await client.query("RELEASE SAVEPOINT transfer_many_item");
+        outcomes.push({ transfer });
+      } catch (error) {
+        if (!(error instanceof AppError)) {
+          throw error;
+        }
+
+        await client.query("ROLLBACK TO SAVEPOINT transfer_many_item");
+        outcomes.push({ error });
+
+        if (stopOnFailure) {
+          break;
+        }
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Move a closing wallet's whole balance to another wallet of the same
+   * currency inside the caller's transaction. The sweep is a completed
+   * transfer like any other, publishing transfer.completed, but charges no
+   * fee, counts against no spending limit and may debit a frozen wallet,
+   * since closing is how compliance releases its funds.
+   */
+  async sweepBalance(
+    client: DbClient,
+    senderWalletId: string,
+    receiverWalletId: string,
+    amount: number
+  ): Promise<Transfer> {
+    const { sender, receiver } = await this.lockWallets(
+      client,
+      senderWalletId,
+      receiverWalletId
+    );
+
+    if (sender.currency !== receiver.currency) {
+      throw new CurrencyMismatchError(
+        `Cannot sweep a ${sender.currency} wallet into a ${receiver.currency} wallet`
       );
+    }
+
+    assertWalletAcceptsPosting(receiver.id, receiver.status, "credit");
+
+    await this.assertAvailableBalance(
+      client,
+      sender.id,
+      amount,
+      sender.currency
+    );
 
-      if (wallet1Result.rows.length === 0 || wallet2Result.rows.length === 0) {
-        const missingWalletId =
-          wallet1Result.rows.length === 0 ? firstWalletId : secondWalletId;
-        throw new WalletNotFoundError(missingWalletId);
+    const transferId = uuidv4();
+
+    await client.query(
+      `INSERT INTO transfers
+        (id, sender_wallet_id, receiver_wallet_id, amount, currency,
+         receiver_amount, receiver_currency, status)
+      VALUES ($1, $2, $3, $4, $5, $4, $5, 'pending')`,
+      [transferId, sender.id, receiver.id, amount, sender.currency]
+    );
+
+    return this.completeTransfer(
+      client,
+      {
+        id: transferId,
+        sender_wallet_id: sender.id,
+        receiver_wallet_id: receiver.id,
+        amount,
+        currency: sender.currency,
+        receiver_amount: amount,
+        receiver_currency: receiver.currency,
+        fx_quote_id: null,
+        fee_amount: 0,
+      },
+      // The sender may be frozen; the receiver was checked above
+      true
+    );
+  }
+
+  /**
+   * Shared by transfer() and placeHold(): lock both wallets and insert the
+   * transfer in a transaction of its own
+   */
+  private async createTransfer(
+    input: CreateTransferInput,
+    holdTtlSeconds: number | null
+  ): Promise<Transfer> {
+    const isHold = holdTtlSeconds !== null;
+
+    try {
+      return await transactionRunner.run(
+        {
+          name: isHold ? "place_hold" : "transfer",
+          isolationLevel: "SERIALIZABLE",
+        },
+        async (client) => {
+          const { sender, receiver } = await this.lockWallets(
+            client,
+            input.sender_wallet_id,
+            input.receiver_wallet_id
+          );
+
+          return this.insertTransfer(
+            client,
+            sender,
+            receiver,
+            input,
+            holdTtlSeconds
+          );
+        }
+      );
+    } catch (error) {
+      if (
+        error instanceof InsufficientBalanceError ||
+        error instanceof WalletNotFoundError ||
+        error instanceof CurrencyMismatchError ||
+        error instanceof ValidationError ||
+        error instanceof FxQuoteNotFoundError ||
+        error instanceof FxQuoteExpiredError ||
+        error instanceof FxQuoteAlreadyUsedError ||
+        error instanceof LimitExceededError ||
+        error instanceof WalletFrozenError ||
+        error instanceof WalletDebitFrozenError ||
+        error instanceof WalletClosedError ||
+        error instanceof DuplicateClientReferenceError ||
+        error instanceof TransactionConflictError
+      ) {
+        throw error;
       }
 
-      const balanceResult = await client.query(
-        `SELECT 
-          COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) -
-          COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0) as balance
-        FROM ledger_entries
-        WHERE wallet_id = $1`,
-        [input.sender_wallet_id]
+      // Backstop for the check above; the unique index has the final say
+      if (
+        (error as any)?.code === "23505" &&
+        (error as any)?.constraint?.includes("client_reference") &&
+        input.client_reference
+      ) {
+        throw new DuplicateClientReferenceError(input.client_reference);
+      }
+
+      logger.error(isHold ? "Hold failed" : "Transfer failed", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        input,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Validate, price and record a transfer between two wallets the caller has
+   * locked, then complete it or, with holdTtlSeconds, leave it pending as a
+   * hold
+   */
+  private async insertTransfer(
+    client: DbClient,
+    sender: LockedWallet,
+    receiver: LockedWallet,
+    input: CreateTransferInput,
+    holdTtlSeconds: number | null
+  ): Promise<Transfer> {
+    const isHold = holdTtlSeconds !== null;
+
+    const senderCurrency: string = sender.currency;
+    const receiverCurrency: string = receiver.currency;
+
+    // Fail before quoting or limit checks; the ledger re-checks on post
+    assertWalletAcceptsPosting(sender.id, sender.status, "debit");
+    assertWalletAcceptsPosting(receiver.id, receiver.status, "credit");
+
+    const currency = senderCurrency;
+    assertAmountWithinLimit(input.amount, currency);
+
+    if (input.client_reference) {
+      // The sender row lock serializes this check with concurrent
+      // transfers from the same wallet
+      const existing = await client.query(
+        `SELECT id FROM transfers
+        WHERE sender_wallet_id = $1 AND client_reference = $2`,
+        [input.sender_wallet_id, input.client_reference]
       );
 
-      if (!balanceResult.rows[0] || balanceResult.rows[0].balance === null) {
-        throw new InsufficientBalanceError(
-          `Insufficient balance. Available: $0.00, Required: $${(input.amount / 100).toFixed(2)}`
+      if (existing.rows.length > 0) {
+        throw new DuplicateClientReferenceError(
+          input.client_reference,
+          existing.rows[0].id
         );
       }
+    }
+
+    let receiverAmount = input.amount;
 
-      const balance = parseInt(balanceResult.rows[0].balance, 10);
-      if (isNaN(balance)) {
-        throw new InsufficientBalanceError(
-          `Insufficient balance. Available: $0.00, Required: $${(input.amount / 100).toFixed(2)}`
+    if (isHold && senderCurrency !== receiverCurrency) {
+      throw new CurrencyMismatchError(
+        `Cannot hold funds from a ${senderCurrency} wallet for a ${receiverCurrency} wallet; holds are same-currency only`
+      );
+    } else if (input.quote_id) {
+      const quote = await this.fxService.lockQuote(client, input.quote_id);
+
+      if (
+        quote.source_currency !== senderCurrency ||
+        quote.target_currency !== receiverCurrency
+      ) {
+        throw new CurrencyMismatchError(
+          `FX quote ${quote.id} converts ${quote.source_currency} to ${quote.target_currency}, not ${senderCurrency} to ${receiverCurrency}`
         );
       }
 
-      if (balance < input.amount) {
-        const availableUSD = (balance / 100).toFixed(2);
-        const requiredUSD = (input.amount / 100).toFixed(2);
-        throw new InsufficientBalanceError(
-          `Insufficient balance. Available: $${availableUSD}, Required: $${requiredUSD}`
+      if (quote.source_amount !== input.amount) {
+        throw new ValidationError(
+          `Transfer amount ${input.amount} does not match quoted amount ${quote.source_amount}`
         );
       }
 
-      const transferId = uuidv4();
-      const transactionReference = `transfer_${transferId}`;
-
-      await client.query(
-        `INSERT INTO transfers 
-          (id, sender_wallet_id, receiver_wallet_id, amount, status)
-        VALUES ($1, $2, $3, $4, 'pending')
-        RETURNING *`,
-        [
-          transferId,
-          input.sender_wallet_id,
-          input.receiver_wallet_id,
-          input.amount,
-        ]
+      receiverAmount = quote.target_amount;
+    } else if (senderCurrency !== receiverCurrency) {
+      throw new CurrencyMismatchError(
+        `Cannot transfer from a ${senderCurrency} wallet to a ${receiverCurrency} wallet without an FX quote`
       );
+    }
 
-      // Create debit entry for sender
-      await client.query(
-        `INSERT INTO ledger_entries 
-          (wallet_id, amount, direction, transaction_reference, transfer_id)
-        VALUES ($1, $2, 'debit', $3, $4)`,
-        [input.sender_wallet_id, input.amount, transactionReference, transferId]
-      );
+    const { fee_amount: feeAmount } = await this.feeService.quoteForWallet(
+      this.feeOperation(sender, receiver),
+      input.sender_wallet_id,
+      currency,
+      input.amount,
+      client
+    );
+
+    // Runs under the sender lock so concurrent transfers count each other
+    await this.spendingLimitService.assertWithinLimits(
+      client,
+      input.sender_wallet_id,
+      input.amount
+    );
+
+    await this.assertAvailableBalance(
+      client,
+      input.sender_wallet_id,
+      input.amount + feeAmount,
+      currency
+    );
+
+    const transferId = uuidv4();
+
+    const insertResult = await client.query(
+      `INSERT INTO transfers 
+        (id, sender_wallet_id, receiver_wallet_id, amount, currency,
+         receiver_amount, receiver_currency, fx_quote_id, fee_amount,
+         memo, metadata, client_reference, authorized_amount,
+         hold_expires_at, status)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
+        NOW() + make_interval(secs => $14), 'pending')
+      RETURNING *`,
+      [
+        transferId,
+        input.sender_wallet_id,
+        input.receiver_wallet_id,
+        input.amount,
+        currency,
+        receiverAmount,
+        receiverCurrency,
+        input.quote_id || null,
+        feeAmount,
+        input.memo || null,
+        JSON.stringify(input.metadata || {}),
+        input.client_reference || null,
+        isHold ? input.amount : null,
+        holdTtlSeconds,
+      ]
+    );
+
+    if (isHold) {
+      return this.mapRowToTransfer(insertResult.rows[0]);
+    }
+
+    return this.completeTransfer(client, {
+      id: transferId,
+      sender_wallet_id: input.sender_wallet_id,
+      receiver_wallet_id: input.receiver_wallet_id,
+      amount: input.amount,
+      currency,
+      receiver_amount: receiverAmount,
+      receiver_currency: receiverCurrency,
+      fx_quote_id: input.quote_id || null,
+      fee_amount: feeAmount,
+    });
+  }
+
+  /**
+   * Post a pending transfer's journals (the transfer itself, then any fee),
+   * redeem its FX quote and mark it completed, queueing transfer.completed.
+   * skipStatusCheck lets the transfer journal debit a frozen wallet.
+   */
+  private async completeTransfer(
+    client: DbClient,
+    pending: Pick<
+      Transfer,
+      | "id"
+      | "sender_wallet_id"
+      | "receiver_wallet_id"
+      | "amount"
+      | "currency"
+      | "receiver_amount"
+      | "receiver_currency"
+      | "fx_quote_id"
+      | "fee_amount"
+    >,
+    skipStatusCheck = false
+  ): Promise<Transfer> {
+    // Debit sender and credit receiver as one balanced journal
+    await this.ledgerService.postJournal(client, {
+      type: "transfer",
+      transaction_reference: transferReference(pending.id),
+      transfer_id: pending.id,
+      ...(skipStatusCheck && { skip_status_check: true }),
+      postings: await this.buildPostings(
+        client,
+        {
+          walletId: pending.sender_wallet_id,
+          amount: pending.amount,
+          currency: pending.currency,
+        },
+        {
+          walletId: pending.receiver_wallet_id,
+          amount: pending.receiver_amount,
+          currency: pending.receiver_currency,
+        }
+      ),
+    });
 
-      // Create credit entry for receiver
-      await client.query(
-        `INSERT INTO ledger_entries 
-          (wallet_id, amount, direction, transaction_reference, transfer_id)
-        VALUES ($1, $2, 'credit', $3, $4)`,
-        [
-          input.receiver_wallet_id,
-          input.amount,
-          transactionReference,
-          transferId,
-        ]
+    if (pending.fee_amount > 0) {
+      const feeRevenueWalletId = await this.ledgerService.getSystemWalletId(
+        SystemAccount.FEE_REVENUE,
+        pending.currency,
+        client
       );
 
-      await client.query(
-        `UPDATE transfers SET status = 'completed' WHERE id = $1`,
-        [transferId]
+      await this.ledgerService.postJournal(client, {
+        type: "fee",
+        transaction_reference: `fee_${pending.id}`,
+        transfer_id: pending.id,
+        postings: [
+          {
+            wallet_id: pending.sender_wallet_id,
+            amount: pending.fee_amount,
+            currency: pending.currency,
+            direction: "debit",
+          },
+          {
+            wallet_id: feeRevenueWalletId,
+            amount: pending.fee_amount,
+            currency: pending.currency,
+            direction: "credit",
+          },
+        ],
+      });
+    }
+
+    if (pending.fx_quote_id) {
+      await this.fxService.markQuoteUsed(client, pending.fx_quote_id);
+    }
+
+    await client.query(
+      `UPDATE transfers SET status = 'completed' WHERE id = $1`,
+      [pending.id]
+    );
+
+    // Fetch the updated transfer to get the correct status (before commit, still in transaction)
+    const updatedTransferResult = await client.query(
+      "SELECT * FROM transfers WHERE id = $1",
+      [pending.id]
+    );
+
+    const transfer = this.mapRowToTransfer(updatedTransferResult.rows[0]);
+
+    await this.webhookService.enqueue(
+      client,
+      WebhookEventType.TRANSFER_COMPLETED,
+      { transfer }
+    );
+    await this.outboxService.append(client, {
+      aggregate_type: "transfer",
+      aggregate_id: transfer.id,
+      event_type: OutboxEventType.TRANSFER_COMPLETED,
+      payload: { transfer },
+    });
+
+    return transfer;
+  }
+
+  /**
+   * Lock both wallets of a transfer, sorted by ID so concurrent transfers
+   * between the same pair always lock in the same order (prevents deadlocks)
+   */
+  private async lockWallets(
+    client: DbClient,
+    senderWalletId: string,
+    receiverWalletId: string
+  ): Promise<{ sender: LockedWallet; receiver: LockedWallet }> {
+    const [firstWalletId, secondWalletId] = [
+      senderWalletId,
+      receiverWalletId,
+    ].sort();
+
+    const wallet1Result = await client.query(
+      `SELECT id, user_id, currency, status FROM wallets
+      WHERE id = $1 FOR UPDATE`,
+      [firstWalletId]
+    );
+
+    const wallet2Result = await client.query(
+      `SELECT id, user_id, currency, status FROM wallets
+      WHERE id = $1 FOR UPDATE`,
+      [secondWalletId]
+    );
+
+    if (wallet1Result.rows.length === 0 || wallet2Result.rows.length === 0) {
+      const missingWalletId =
+        wallet1Result.rows.length === 0 ? firstWalletId : secondWalletId;
+      throw new WalletNotFoundError(missingWalletId);
+    }
+
+    const lockedWallets: LockedWallet[] = [
+      wallet1Result.rows[0],
+      wallet2Result.rows[0],
+    ];
+
+    return {
+      sender: lockedWallets.find((w) => w.id === senderWalletId)!,
+      receiver: lockedWallets.find((w) => w.id === receiverWalletId)!,
+    };
+  }
+
+  /**
+   * Throw unless the wallet's ledger balance, less what its holds reserve,
+   * covers required. Call with the wallet locked.
+   */
+  private async assertAvailableBalance(
+    client: DbClient,
+    walletId: string,
+    required: number,
+    currency: string,
+    excludeHoldId?: string
+  ): Promise<void> {
+    const balanceResult = await client.query(
+      `SELECT balance FROM wallet_balances
+      WHERE wallet_id = $1`,
+      [walletId]
+    );
+
+    // Wallets that never received a posting have no balance row yet
+    const balance =
+      balanceResult.rows[0] && balanceResult.rows[0].balance !== null
+        ? parseInt(balanceResult.rows[0].balance, 10)
+        : 0;
+    const held = await this.ledgerService.getHeldAmount(
+      walletId,
+      client,
+      excludeHoldId
+    );
+    const available = isNaN(balance) ? 0 : balance - held;
+
+    if (isNaN(balance) || available < required) {
+      throw new InsufficientBalanceError(
+        `Insufficient balance. Available: ${formatAmount(available, currency)}, Required: ${formatAmount(required, currency)}`
       );
+    }
+  }
+
+  /**
+   * Lock a transfer that must be a pending hold
+   */
+  private async lockHold(
+    client: DbClient,
+    transferId: string
+  ): Promise<{ hold: Transfer; expired: boolean }> {
+    const result = await client.query(
+      `SELECT *, hold_expires_at <= NOW() AS hold_expired
+      FROM transfers WHERE id = $1 FOR UPDATE`,
+      [transferId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new TransferNotFoundError(transferId);
+    }
+
+    const hold = this.mapRowToTransfer(result.rows[0]);
 
-      // Fetch the updated transfer to get the correct status (before commit, still in transaction)
-      const updatedTransferResult = await client.query(
-        "SELECT * FROM transfers WHERE id = $1",
-        [transferId]
+    if (hold.authorized_amount === null) {
+      throw new InvalidTransferStateError(`Transfer ${hold.id} is not a hold`);
+    }
+
+    if (hold.status !== "pending") {
+      throw new InvalidTransferStateError(
+        `Hold ${hold.id} is ${hold.status} and can no longer be captured or voided`
       );
+    }
+
+    return { hold, expired: result.rows[0].hold_expired === true };
+  }
+
+  /**
+   * Reverse all or part of a completed transfer.
+   * Posts a compensating journal (debit receiver, credit sender) linked to the
+   * original transfer and moves it to partially_reversed or reversed.
+   * FX transfers can only be reversed in full, at the original quoted rate.
+   * Fees charged on the original transfer are not refunded, and both wallets
+   * must still accept the postings, so frozen or closed wallets block it.
+   */
+  async reverseTransfer(
+    input: ReverseTransferInput
+  ): Promise<{ transfer: Transfer; reversal: TransferReversal }> {
+    try {
+      const { transfer, reversal } = await transactionRunner.run(
+        { name: "reverse_transfer", isolationLevel: "SERIALIZABLE" },
+        async (client) => {
+          // Lock the transfer first so concurrent reversals are serialized
+          const transferResult = await client.query(
+            "SELECT * FROM transfers WHERE id = $1 FOR UPDATE",
+            [input.transfer_id]
+          );
+
+          if (transferResult.rows.length === 0) {
+            throw new TransferNotFoundError(input.transfer_id);
+          }
+
+          const original = this.mapRowToTransfer(transferResult.rows[0]);
+
+          if (
+            original.status !== "completed" &&
+            original.status !== "partially_reversed"
+          ) {
+            throw new InvalidTransferStateError(
+              `Transfer ${original.id} is ${original.status} and cannot be reversed`
+            );
+          }
+
+          const reversible = original.amount - original.reversed_amount;
+          const amount = input.amount ?? reversible;
+
+          if (amount > reversible) {
+            throw new ReversalAmountExceededError(amount, reversible);
+          }
+
+          const isFx = original.currency !== original.receiver_currency;
+          if (isFx && amount !== original.amount) {
+            throw new InvalidTransferStateError(
+              `Transfer ${original.id} is an FX transfer and can only be reversed in full`
+            );
+          }
+
+          // What the receiver gives back, in the receiver's currency
+          const receiverAmount = isFx ? original.receiver_amount : amount;
+
+          // Same lock order as transfer() to avoid deadlocks
+          const walletIds = [
+            original.sender_wallet_id,
+            original.receiver_wallet_id,
+          ].sort();
+
+          for (const walletId of walletIds) {
+            await client.query(
+              "SELECT id FROM wallets WHERE id = $1 FOR UPDATE",
+              [walletId]
+            );
+          }
 
-      await client.query("COMMIT");
+          // Funds the receiver has reserved with holds are not theirs to
+          // give back
+          await this.assertAvailableBalance(
+            client,
+            original.receiver_wallet_id,
+            receiverAmount,
+            original.receiver_currency
+          );
 
-      const transfer = this.mapRowToTransfer(updatedTransferResult.rows[0]);
+          const reversalResult = await client.query(
+            `INSERT INTO transfer_reversals (id, transfer_id, amount, reason)
+            VALUES (gen_random_uuid(), $1, $2, $3)
+            RETURNING *`,
+            [original.id, amount, input.reason || null]
+          );
 
-      logger.info("Transfer completed", {
+          const reversal = this.mapRowToReversal(reversalResult.rows[0]);
+
+          await this.ledgerService.postJournal(client, {
+            type: "reversal",
+            transaction_reference: `reversal_${reversal.id}`,
+            transfer_id: original.id,
+            postings: await this.buildPostings(
+              client,
+              {
+                walletId: original.receiver_wallet_id,
+                amount: receiverAmount,
+                currency: original.receiver_currency,
+              },
+              {
+                walletId: original.sender_wallet_id,
+                amount,
+                currency: original.currency,
+              }
+            ),
+          });
+
+          const updatedTransferResult = await client.query(
+            `UPDATE transfers SET
+              reversed_amount = reversed_amount + $2,
+              status = CASE
+                WHEN reversed_amount + $2 = amount THEN 'reversed'::transfer_status
+                ELSE 'partially_reversed'::transfer_status
+              END
+            WHERE id = $1
+            RETURNING *`,
+            [original.id, amount]
+          );
+
+          const transfer = this.mapRowToTransfer(updatedTransferResult.rows[0]);
+
+          await this.webhookService.enqueue(
+            client,
+            WebhookEventType.TRANSFER_REVERSED,
+            { transfer, reversal }
+          );
+          await this.outboxService.append(client, {
+            aggregate_type: "transfer",
+            aggregate_id: transfer.id,
+            event_type: OutboxEventType.TRANSFER_REVERSED,
+            payload: { transfer, reversal },
+          });
+
+          return { transfer, reversal };
+        }
+      );
+
+      logger.info("Transfer reversed", {
         transferId: transfer.id,
-        senderWalletId: transfer.sender_wallet_id,
-        receiverWalletId: transfer.receiver_wallet_id,
-        amount: transfer.amount,
+        reversalId: reversal.id,
+        amount: reversal.amount,
+        reversedAmount: transfer.reversed_amount,
+        status: transfer.status,
       });
 
-      return transfer;
+      return { transfer, reversal };
     } catch (error) {
-      await client.query("ROLLBACK");
-
       if (
+        error instanceof TransferNotFoundError ||
+        error instanceof InvalidTransferStateError ||
+        error instanceof ReversalAmountExceededError ||
         error instanceof InsufficientBalanceError ||
-        error instanceof WalletNotFoundError
+        error instanceof WalletFrozenError ||
+        error instanceof WalletDebitFrozenError ||
+        error instanceof WalletClosedError ||
+        error instanceof TransactionConflictError
       ) {
         throw error;
       }
 
-      logger.error("Transfer failed", {
+      logger.error("Transfer reversal failed", {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
         input,
       });
 
       throw error;
-    } finally {
-      client.release();
     }
   }
 
+  /**
+   * Dry run of the fee a transfer would be charged, without moving funds.
+   * Uses the same schedule resolution as transfer() but takes no locks, so
+   * the result can differ if the schedule changes before the transfer runs.
+   */
+  async previewFee(input: CreateTransferInput): Promise<TransferFeePreview> {
+    const result = await pool.query(
+      "SELECT id, user_id, currency FROM wallets WHERE id = ANY($1)",
+      [[input.sender_wallet_id, input.receiver_wallet_id]]
+    );
+
+    const sender = result.rows.find((w) => w.id === input.sender_wallet_id);
+    const receiver = result.rows.find(
+      (w) => w.id === input.receiver_wallet_id
+    );
+
+    if (!sender || !receiver) {
+      throw new WalletNotFoundError(
+        !sender ? input.sender_wallet_id : input.receiver_wallet_id
+      );
+    }
+
+    const currency: string = sender.currency;
+    assertAmountWithinLimit(input.amount, currency);
+
+    const { fee_amount } = await this.feeService.quoteForWallet(
+      this.feeOperation(sender, receiver),
+      input.sender_wallet_id,
+      currency,
+      input.amount
+    );
+
+    return {
+      amount: input.amount,
+      currency,
+      fee_amount,
+      total_debit: input.amount + fee_amount,
+    };
+  }
+
+  async getReversals(transferId: string): Promise<TransferReversal[]> {
+    const result = await pool.query(
+      `SELECT * FROM transfer_reversals
+      WHERE transfer_id = $1
+      ORDER BY created_at ASC`,
+      [transferId]
+    );
+
+    return result.rows.map((row: Record<string, any>) =>
+      this.mapRowToReversal(row)
+    );
+  }
+
   async getTransfer(transferId: string): Promise<Transfer | null> {
     const result = await pool.query("SELECT * FROM transfers WHERE id = $1", [
       transferId,
@@ -162,16 +1102,269 @@ export class TransferService {
     return this.mapRowToTransfer(result.rows[0]);
   }
 
+  /**
+   * The transfer made under a client_reference a service derives for its own
+   * transfers, e.g. by an accept or worker that died before recording it,
+   * but only if it paid exactly what was expected. Anything else under that
+   * reference was not made by the service, and null is returned.
+   */
+  async findMatchingTransfer(
+    transferId: string,
+    expected: Pick<
+      Transfer,
+      "sender_wallet_id" | "receiver_wallet_id" | "amount" | "currency"
+    >,
+    client: DbClient = pool
+  ): Promise<Transfer | null> {
+    const result = await client.query("SELECT * FROM transfers WHERE id = $1", [
+      transferId,
+    ]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const transfer = this.mapRowToTransfer(result.rows[0]);
+
+    // Holds never captured and failed transfers paid nothing
+    const paid =
+      transfer.status === "completed" ||
+      transfer.status === "partially_reversed" ||
+      transfer.status === "reversed";
+
+    const matches =
+      transfer.sender_wallet_id === expected.sender_wallet_id &&
+      transfer.receiver_wallet_id === expected.receiver_wallet_id &&
+      transfer.amount === expected.amount &&
+      transfer.currency === expected.currency;
+
+    return paid && matches ? transfer : null;
+  }
+
+  /**
+   * A transfer with the ledger entries of its transfer journal
+   */
+  async getTransferWithEntries(
+    transferId: string
+  ): Promise<TransferWithEntries | null> {
+    const transfer = await this.getTransfer(transferId);
+
+    if (!transfer) {
+      return null;
+    }
+
+    const entries = await this.ledgerService.getEntriesByTransactionReference(
+      transferReference(transfer.id)
+    );
+
+    return { ...transfer, entries };
+  }
+
+  /**
+   * Read one page of the transfers a wallet sent or received, newest first,
+   * keyed on (created_at, id) like wallet history. The ledger entries of
+   * the whole page are read in one query.
+   */
+  async listTransfers(query: TransferListQuery): Promise<TransferPage> {
+    const params: unknown[] = [query.wallet_id];
+    const filters: string[] = [];
+    const addFilter = (sql: (param: string) => string, value: unknown) => {
+      params.push(value);
+      filters.push(sql(`$${params.length}`));
+    };
+
+    if (query.role === "sender") {
+      filters.push("t.sender_wallet_id = $1");
+    } else if (query.role === "receiver") {
+      filters.push("t.receiver_wallet_id = $1");
+    } else {
+      filters.push("(t.sender_wallet_id = $1 OR t.receiver_wallet_id = $1)");
+    }
+
+    if (query.statuses && query.statuses.length > 0) {
+      addFilter(
+        (p) => `t.status = ANY(${p}::transfer_status[])`,
+        query.statuses
+      );
+    }
+    if (query.from) {
+      addFilter((p) => `t.created_at >= ${p}`, query.from);
+    }
+    if (query.to) {
+      addFilter((p) => `t.created_at < ${p}`, query.to);
+    }
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      params.push(cursor.created_at, cursor.id);
+      filters.push(
+        `(t.created_at, t.id) < ($${params.length - 1}::timestamp, $${params.length}::uuid)`
+      );
+    }
+    // One extra row tells us whether another page exists
+    params.push(query.limit + 1);
+
+    const result = await pool.query(
+      `SELECT t.*, t.created_at::text AS cursor_created_at
+      FROM transfers t
+      WHERE ${filters.join(" AND ")}
+      ORDER BY t.created_at DESC, t.id DESC
+      LIMIT $${params.length}`,
+      params
+    );
+
+    const rows = result.rows.slice(0, query.limit);
+    const last = rows[rows.length - 1];
+    const nextCursor =
+      result.rows.length > query.limit
+        ? encodeCursor({ created_at: last.cursor_created_at, id: last.id })
+        : null;
+
+    const transfers = rows.map((row: Record<string, any>) =>
+      this.mapRowToTransfer(row)
+    );
+    const entries = await this.ledgerService.getEntriesByTransactionReferences(
+      transfers.map((transfer: Transfer) => transferReference(transfer.id))
+    );
+
+    return {
+      transfers: transfers.map((transfer: Transfer) => ({
+        ...transfer,
+        entries: entries.filter(
+          (entry) =>
+            entry.transaction_reference === transferReference(transfer.id)
+        ),
+      })),
+      next_cursor: nextCursor,
+    };
+  }
+
+  /**
+   * Postings moving funds from one wallet to another. Same-currency moves are
+   * a plain debit/credit pair; cross-currency moves route through the FX
+   * clearing account of each currency so every currency nets to zero.
+   */
+  private async buildPostings(
+    client: DbClient,
+    from: { walletId: string; amount: number; currency: string },
+    to: { walletId: string; amount: number; currency: string }
+  ): Promise<JournalPosting[]> {
+    if (from.currency === to.currency) {
+      return [
+        {
+          wallet_id: from.walletId,
+          amount: from.amount,
+          currency: from.currency,
+          direction: "debit",
+        },
+        {
+          wallet_id: to.walletId,
+          amount: to.amount,
+          currency: to.currency,
+          direction: "credit",
+        },
+      ];
+    }
+
+    const fromClearingId = await this.ledgerService.getSystemWalletId(
+      SystemAccount.FX_CLEARING,
+      from.currency,
+      client
+    );
+    const toClearingId = await this.ledgerService.getSystemWalletId(
+      SystemAccount.FX_CLEARING,
+      to.currency,
+      client
+    );
+
+    return [
+      {
+        wallet_id: from.walletId,
+        amount: from.amount,
+        currency: from.currency,
+        direction: "debit",
+      },
+      {
+        wallet_id: fromClearingId,
+        amount: from.amount,
+        currency: from.currency,
+        direction: "credit",
+      },
+      {
+        wallet_id: toClearingId,
+        amount: to.amount,
+        currency: to.currency,
+        direction: "debit",
+      },
+      {
+        wallet_id: to.walletId,
+        amount: to.amount,
+        currency: to.currency,
+        direction: "credit",
+      },
+    ];
+  }
+
+  private feeOperation(
+    sender: { user_id: string | null; currency: string },
+    receiver: { user_id: string | null; currency: string }
+  ): FeeOperation {
+    if (sender.currency !== receiver.currency) {
+      return "fx_transfer";
+    }
+
+    return sender.user_id && sender.user_id === receiver.user_id
+      ? "internal_transfer"
+      : "transfer";
+  }
+
   private mapRowToTransfer(row: Record<string, any>): Transfer {
     return {
       id: row.id,
       sender_wallet_id: row.sender_wallet_id,
       receiver_wallet_id: row.receiver_wallet_id,
       amount: parseInt(row.amount, 10),
+      currency: row.currency,
+      receiver_amount: parseInt(row.receiver_amount ?? row.amount, 10),
+      receiver_currency: row.receiver_currency ?? row.currency,
+      fx_quote_id: row.fx_quote_id ?? null,
+      fee_amount: parseInt(row.fee_amount || "0", 10),
+      reversed_amount: parseInt(row.reversed_amount || "0", 10),
       status: row.status,
+      memo: row.memo ?? null,
+      metadata: row.metadata ?? {},
+      client_reference: row.client_reference ?? null,
+      authorized_amount:
+        row.authorized_amount !== null && row.authorized_amount !== undefined
+          ? parseInt(row.authorized_amount, 10)
+          : null,
+      hold_expires_at: row.hold_expires_at ?? null,
       created_at: row.created_at,
     };
   }
+
+  private mapRowToReversal(row: Record<string, any>): TransferReversal {
+    return {
+      id: row.id,
+      transfer_id: row.transfer_id,
+      amount: parseInt(row.amount, 10),
+      reason: row.reason,
+      created_at: row.created_at,
+    };
+  }
+}
+
+/**
+ * Reference shared by a transfer's journal and its ledger entries
+ */
+function transferReference(transferId: string): string {
+  return `transfer_${transferId}`;
 }
 
-export const transferService = new TransferService(ledgerService);
+export const transferService = new TransferService(
+  ledgerService,
+  fxService,
+  webhookService,
+  outboxService,
+  feeService,
+  spendingLimitService
+);
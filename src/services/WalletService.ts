@@ -1,51 +1,85 @@
-import { pool } from "../config/database";
+import { pool, DbClient } from "../config/database";
 import { User, CreateUserInput } from "../models/User";
-import { Wallet } from "../models/Wallet";
+import {
+  Wallet,
+  WalletStatus,
+  WalletStatusChange,
+  WalletWithBalance,
+  WalletBalances,
+  CreateWalletInput,
+  ChangeWalletStatusInput,
+  CloseWalletInput,
+  DEFAULT_WALLET_LABEL,
+} from "../models/Wallet";
 import { LedgerService, ledgerService } from "./LedgerService";
-import { UserNotFoundError, DuplicateEmailError } from "../utils/errors";
+import { OutboxService, outboxService } from "./OutboxService";
+import { TransferService, transferService } from "./TransferService";
+import { OutboxEventType } from "../models/OutboxEvent";
+import { DEFAULT_CURRENCY, formatAmount } from "../utils/currency";
+import {
+  UserNotFoundError,
+  DuplicateEmailError,
+  WalletNotFoundError,
+  WalletClosedError,
+  WalletNotEmptyError,
+  ValidationError,
+  DuplicateWalletLabelError,
+} from "../utils/errors";
 import { logger } from "../utils/logger";
+import { transactionRunner } from "../utils/transaction";
 
 export class WalletService {
-  constructor(private ledgerService: LedgerService) {}
+  constructor(
+    private ledgerService: LedgerService,
+    private outboxService: OutboxService,
+    private transferService: TransferService
+  ) {}
 
   async createUser(
     input: CreateUserInput
   ): Promise<{ user: User; wallet: Wallet }> {
-    const client = await pool.connect();
-
     try {
-      await client.query("BEGIN");
-
-      const userResult = await client.query(
-        `INSERT INTO users (id, email, name)
-        VALUES (gen_random_uuid(), $1, $2)
-        RETURNING *`,
-        [input.email, input.name]
-      );
-
-      const user = this.mapRowToUser(userResult.rows[0]);
-
-      const walletResult = await client.query(
-        `INSERT INTO wallets (id, user_id)
-        VALUES (gen_random_uuid(), $1)
-        RETURNING *`,
-        [user.id]
+      const { user, wallet } = await transactionRunner.run(
+        { name: "create_user" },
+        async (client) => {
+          const userResult = await client.query(
+            `INSERT INTO users (id, email, name)
+            VALUES (gen_random_uuid(), $1, $2)
+            RETURNING *`,
+            [input.email, input.name]
+          );
+
+          const user = this.mapRowToUser(userResult.rows[0]);
+
+          const walletResult = await client.query(
+            `INSERT INTO wallets (id, user_id, label, is_default, currency)
+            VALUES (gen_random_uuid(), $1, $2, true, $3)
+            RETURNING *`,
+            [user.id, DEFAULT_WALLET_LABEL, input.currency || DEFAULT_CURRENCY]
+          );
+
+          const wallet = this.mapRowToWallet(walletResult.rows[0]);
+
+          await this.outboxService.append(client, {
+            aggregate_type: "user",
+            aggregate_id: user.id,
+            event_type: OutboxEventType.USER_CREATED,
+            payload: { user, wallet },
+          });
+
+          return { user, wallet };
+        }
       );
 
-      const wallet = this.mapRowToWallet(walletResult.rows[0]);
-
-      await client.query("COMMIT");
-
       logger.info("User and wallet created", {
         userId: user.id,
         walletId: wallet.id,
+        currency: wallet.currency,
         email: user.email,
       });
 
       return { user, wallet };
     } catch (error: any) {
-      await client.query("ROLLBACK");
-
       if (error?.code === "23505") {
         if (
           error?.constraint?.includes("email") ||
@@ -57,11 +91,163 @@ export class WalletService {
       }
 
       throw error;
-    } finally {
-      client.release();
     }
   }
 
+  /**
+   * Open another wallet for an existing user, e.g. a savings pocket or a
+   * wallet in another currency. It never becomes the default on creation.
+   */
+  async createWallet(input: CreateWalletInput): Promise<Wallet> {
+    try {
+      const wallet = await transactionRunner.run(
+        { name: "create_wallet" },
+        async (client) => {
+          const walletResult = await client.query(
+            `INSERT INTO wallets (id, user_id, label, currency)
+            SELECT gen_random_uuid(), id, $2, $3 FROM users WHERE id = $1
+            RETURNING *`,
+            [input.user_id, input.label, input.currency || DEFAULT_CURRENCY]
+          );
+
+          if (walletResult.rows.length === 0) {
+            throw new UserNotFoundError(input.user_id);
+          }
+
+          const wallet = this.mapRowToWallet(walletResult.rows[0]);
+
+          await this.outboxService.append(client, {
+            aggregate_type: "wallet",
+            aggregate_id: wallet.id,
+            event_type: OutboxEventType.WALLET_CREATED,
+            payload: { wallet },
+          });
+
+          return wallet;
+        }
+      );
+
+      logger.info("Wallet created", {
+        userId: wallet.user_id,
+        walletId: wallet.id,
+        label: wallet.label,
+        currency: wallet.currency,
+      });
+
+      return wallet;
+    } catch (error: any) {
+      if (
+        error?.code === "23505" &&
+        error?.constraint?.includes("user_label")
+      ) {
+        throw new DuplicateWalletLabelError(input.label);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * List a user's wallets with their ledger and available balances, default
+   * wallet first
+   */
+  async listUserWallets(userId: string): Promise<WalletWithBalance[]> {
+    const user = await this.getUser(userId);
+
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    const result = await pool.query(
+      `SELECT w.*, COALESCE(b.balance, 0) AS balance
+      FROM wallets w
+      LEFT JOIN wallet_balances b ON b.wallet_id = w.id
+      WHERE w.user_id = $1
+      ORDER BY w.is_default DESC, w.created_at ASC`,
+      [userId]
+    );
+
+    return Promise.all(
+      result.rows.map(async (row) => {
+        const balance = parseInt(row.balance, 10);
+        const held = await this.ledgerService.getHeldAmount(row.id);
+
+        return {
+          ...this.mapRowToWallet(row),
+          balance,
+          ledger_balance: balance,
+          available_balance: balance - held,
+        };
+      })
+    );
+  }
+
+  /**
+   * Make one of a user's open wallets their default
+   */
+  async setDefaultWallet(userId: string, walletId: string): Promise<Wallet> {
+    const wallet = await transactionRunner.run(
+      { name: "set_default_wallet" },
+      async (client) => {
+        const result = await client.query(
+          "SELECT * FROM wallets WHERE user_id = $1 ORDER BY id FOR UPDATE",
+          [userId]
+        );
+
+        const row = result.rows.find((w) => w.id === walletId);
+
+        if (!row) {
+          throw new WalletNotFoundError(walletId);
+        }
+
+        if (row.status === "closed") {
+          throw new WalletClosedError(walletId);
+        }
+
+        if (row.is_default) {
+          return this.mapRowToWallet(row);
+        }
+
+        // Clear the old default first; the one-default index is not deferrable
+        await client.query(
+          `UPDATE wallets SET is_default = false
+          WHERE user_id = $1 AND is_default`,
+          [userId]
+        );
+
+        const updated = await client.query(
+          "UPDATE wallets SET is_default = true WHERE id = $1 RETURNING *",
+          [walletId]
+        );
+
+        return this.mapRowToWallet(updated.rows[0]);
+      }
+    );
+
+    logger.info("Default wallet changed", { userId, walletId });
+
+    return wallet;
+  }
+
+  /**
+   * Move a user to another pricing tier; fee schedules for that tier apply
+   * to their next transfer
+   */
+  async setUserTier(userId: string, tier: string): Promise<User> {
+    const result = await pool.query(
+      "UPDATE users SET tier = $2 WHERE id = $1 RETURNING *",
+      [userId, tier]
+    );
+
+    if (result.rows.length === 0) {
+      throw new UserNotFoundError(userId);
+    }
+
+    logger.info("User tier changed", { userId, tier });
+
+    return this.mapRowToUser(result.rows[0]);
+  }
+
   async getUser(userId: string): Promise<User | null> {
     const result = await pool.query("SELECT * FROM users WHERE id = $1", [
       userId,
@@ -86,9 +272,12 @@ export class WalletService {
     return this.mapRowToUser(result.rows[0]);
   }
 
+  /**
+   * Resolve a user's default wallet
+   */
   async getWalletByUserId(userId: string): Promise<Wallet | null> {
     const result = await pool.query(
-      "SELECT * FROM wallets WHERE user_id = $1",
+      "SELECT * FROM wallets WHERE user_id = $1 AND is_default",
       [userId]
     );
 
@@ -112,6 +301,22 @@ export class WalletService {
     return this.ledgerService.getBalance(walletId);
   }
 
+  /**
+   * The wallet's ledger balance and its available balance after holds
+   */
+  async getBalances(walletId: string): Promise<WalletBalances> {
+    const walletCheck = await pool.query(
+      "SELECT id FROM wallets WHERE id = $1",
+      [walletId]
+    );
+
+    if (walletCheck.rows.length === 0) {
+      throw new UserNotFoundError(walletId);
+    }
+
+    return this.ledgerService.getBalances(walletId);
+  }
+
   async getWallet(walletId: string): Promise<Wallet | null> {
     const result = await pool.query("SELECT * FROM wallets WHERE id = $1", [
       walletId,
@@ -124,6 +329,189 @@ export class WalletService {
     return this.mapRowToWallet(result.rows[0]);
   }
 
+  /**
+   * Freeze, debit-freeze or reactivate a wallet, recording who did it and
+   * why. Setting the current status again is a no-op. Closed wallets cannot
+   * be reopened; use closeWallet to close one.
+   */
+  async setWalletStatus(input: ChangeWalletStatusInput): Promise<Wallet> {
+    const wallet = await transactionRunner.run(
+      { name: "change_wallet_status" },
+      async (client) => {
+        const wallet = await this.lockWalletForStatusChange(
+          client,
+          input.wallet_id
+        );
+
+        if (wallet.status === input.status) {
+          return wallet;
+        }
+
+        return this.applyStatusChange(client, wallet, input.status, {
+          reason: input.reason,
+          changed_by: input.changed_by,
+          sweep_transfer_id: null,
+        });
+      }
+    );
+
+    logger.info("Wallet status changed", {
+      walletId: wallet.id,
+      status: wallet.status,
+      changedBy: input.changed_by,
+    });
+
+    return wallet;
+  }
+
+  /**
+   * Close a wallet for good. A wallet holding funds can only be closed by
+   * sweeping the whole balance to another wallet of the same currency, which
+   * is recorded as a normal transfer. Frozen wallets can be swept, since
+   * closing is how compliance releases their funds; the target must be able
+   * to receive. A default wallet can only be closed once it is the user's
+   * last open wallet.
+   */
+  async closeWallet(
+    input: CloseWalletInput
+  ): Promise<{ wallet: Wallet; sweep_transfer_id: string | null }> {
+    const result = await transactionRunner.run(
+      { name: "close_wallet", isolationLevel: "SERIALIZABLE" },
+      async (client) => {
+        if (input.sweep_to_wallet_id === input.wallet_id) {
+          throw new ValidationError("Cannot sweep a wallet into itself");
+        }
+
+        // Same lock order as transfers to avoid deadlocks
+        const walletIds = [input.wallet_id];
+        if (input.sweep_to_wallet_id) {
+          walletIds.push(input.sweep_to_wallet_id);
+        }
+
+        const locked = new Map<string, Wallet>();
+        for (const walletId of walletIds.sort()) {
+          locked.set(
+            walletId,
+            await this.lockWalletForStatusChange(client, walletId)
+          );
+        }
+
+        const wallet = locked.get(input.wallet_id)!;
+
+        if (wallet.is_default) {
+          const others = await client.query(
+            `SELECT 1 FROM wallets
+            WHERE user_id = $1 AND id <> $2 AND status <> 'closed'
+            LIMIT 1`,
+            [wallet.user_id, wallet.id]
+          );
+
+          if (others.rows.length > 0) {
+            throw new ValidationError(
+              `Wallet ${wallet.id} is the default wallet; make another wallet the default before closing it`
+            );
+          }
+        }
+
+        // A pending withdrawal may yet fail and return its funds here
+        const pendingWithdrawals = await client.query(
+          `SELECT 1 FROM withdrawals
+          WHERE wallet_id = $1 AND status = 'pending'
+          LIMIT 1`,
+          [wallet.id]
+        );
+
+        if (pendingWithdrawals.rows.length > 0) {
+          throw new WalletNotEmptyError(
+            `Wallet ${wallet.id} has pending withdrawals and can be closed once they settle or fail`
+          );
+        }
+
+        const balanceResult = await client.query(
+          "SELECT balance FROM wallet_balances WHERE wallet_id = $1",
+          [wallet.id]
+        );
+        const balance = balanceResult.rows[0]
+          ? parseInt(balanceResult.rows[0].balance, 10)
+          : 0;
+
+        if (balance > 0 && !input.sweep_to_wallet_id) {
+          throw new WalletNotEmptyError(
+            `Wallet ${wallet.id} still holds ${formatAmount(balance, wallet.currency)} and needs a sweep target to close`
+          );
+        }
+
+        // Holds on either side could never be captured once it is closed,
+        // and voiding them first frees the whole balance for the sweep
+        await client.query(
+          `UPDATE transfers SET status = 'voided'
+          WHERE status = 'pending'
+            AND (sender_wallet_id = $1 OR receiver_wallet_id = $1)`,
+          [wallet.id]
+        );
+
+        let sweepTransferId: string | null = null;
+
+        if (balance > 0) {
+          const sweep = await this.transferService.sweepBalance(
+            client,
+            wallet.id,
+            input.sweep_to_wallet_id!,
+            balance
+          );
+          sweepTransferId = sweep.id;
+        }
+
+        // Nor could schedules paying from or into it ever run again
+        await client.query(
+          `UPDATE scheduled_transfers
+          SET status = 'cancelled', next_run_at = NULL, updated_at = NOW()
+          WHERE status IN ('active', 'paused')
+            AND (sender_wallet_id = $1 OR receiver_wallet_id = $1)`,
+          [wallet.id]
+        );
+
+        // Or payment requests to or from it be paid
+        await client.query(
+          `UPDATE payment_requests
+          SET status = 'cancelled', responded_at = NOW(), updated_at = NOW()
+          WHERE status = 'pending'
+            AND (requester_wallet_id = $1 OR payer_wallet_id = $1)`,
+          [wallet.id]
+        );
+
+        const closed = await this.applyStatusChange(client, wallet, "closed", {
+          reason: input.reason,
+          changed_by: input.changed_by,
+          sweep_transfer_id: sweepTransferId,
+        });
+
+        return { wallet: closed, sweep_transfer_id: sweepTransferId };
+      }
+    );
+
+    logger.info("Wallet closed", {
+      walletId: result.wallet.id,
+      sweepTransferId: result.sweep_transfer_id,
+      changedBy: input.changed_by,
+    });
+
+    return result;
+  }
+
+  async getWalletStatusHistory(
+    walletId: string
+  ): Promise<WalletStatusChange[]> {
+    const result = await pool.query(
+      `SELECT * FROM wallet_status_changes
+      WHERE wallet_id = $1
+      ORDER BY created_at ASC`,
+      [walletId]
+    );
+
+    return result.rows.map((row) => this.mapRowToStatusChange(row));
+  }
+
   async getAllUsersWithWallets(): Promise<
     Array<{ user: User; wallet: Wallet }>
   > {
@@ -132,12 +520,17 @@ export class WalletService {
         u.id as user_id,
         u.email,
         u.name,
+        u.tier,
         u.created_at as user_created_at,
         w.id as wallet_id,
         w.user_id as wallet_user_id,
+        w.label,
+        w.is_default,
+        w.currency,
+        w.status,
         w.created_at as wallet_created_at
       FROM users u
-      INNER JOIN wallets w ON u.id = w.user_id
+      INNER JOIN wallets w ON u.id = w.user_id AND w.is_default
       ORDER BY u.created_at DESC`
     );
 
@@ -146,21 +539,103 @@ export class WalletService {
         id: row.user_id,
         email: row.email,
         name: row.name,
+        tier: row.tier,
         created_at: row.user_created_at,
       },
       wallet: {
         id: row.wallet_id,
         user_id: row.wallet_user_id,
+        label: row.label,
+        is_default: row.is_default,
+        currency: row.currency,
+        status: row.status,
         created_at: row.wallet_created_at,
       },
     }));
   }
 
+  /**
+   * Lock a user wallet ahead of a status change. System accounts have no
+   * lifecycle and closed wallets are final.
+   */
+  private async lockWalletForStatusChange(
+    client: DbClient,
+    walletId: string
+  ): Promise<Wallet> {
+    const result = await client.query(
+      "SELECT * FROM wallets WHERE id = $1 FOR UPDATE",
+      [walletId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new WalletNotFoundError(walletId);
+    }
+
+    const row = result.rows[0];
+
+    if (row.system_code) {
+      throw new ValidationError(
+        `Wallet ${walletId} is a system account and has no status lifecycle`
+      );
+    }
+
+    if (row.status === "closed") {
+      throw new WalletClosedError(walletId);
+    }
+
+    return this.mapRowToWallet(row);
+  }
+
+  private async applyStatusChange(
+    client: DbClient,
+    wallet: Wallet,
+    status: WalletStatus,
+    audit: {
+      reason: string;
+      changed_by: string;
+      sweep_transfer_id: string | null;
+    }
+  ): Promise<Wallet> {
+    const walletResult = await client.query(
+      "UPDATE wallets SET status = $2 WHERE id = $1 RETURNING *",
+      [wallet.id, status]
+    );
+
+    const changeResult = await client.query(
+      `INSERT INTO wallet_status_changes
+        (wallet_id, from_status, to_status, reason, changed_by,
+         sweep_transfer_id)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *`,
+      [
+        wallet.id,
+        wallet.status,
+        status,
+        audit.reason,
+        audit.changed_by,
+        audit.sweep_transfer_id,
+      ]
+    );
+
+    const updated = this.mapRowToWallet(walletResult.rows[0]);
+    const change = this.mapRowToStatusChange(changeResult.rows[0]);
+
+    await this.outboxService.append(client, {
+      aggregate_type: "wallet",
+      aggregate_id: wallet.id,
+      event_type: OutboxEventType.WALLET_STATUS_CHANGED,
+      payload: { wallet: updated, change },
+    });
+
+    return updated;
+  }
+
   private mapRowToUser(row: Record<string, any>): User {
     return {
       id: row.id,
       email: row.email,
       name: row.name,
+      tier: row.tier,
       created_at: row.created_at,
     };
   }
@@ -169,9 +644,30 @@ export class WalletService {
     return {
       id: row.id,
       user_id: row.user_id,
+      label: row.label,
+      is_default: row.is_default,
+      currency: row.currency,
+      status: row.status,
+      created_at: row.created_at,
+    };
+  }
+
+  private mapRowToStatusChange(row: Record<string, any>): WalletStatusChange {
+    return {
+      id: row.id,
+      wallet_id: row.wallet_id,
+      from_status: row.from_status,
+      to_status: row.to_status,
+      reason: row.reason,
+      changed_by: row.changed_by,
+      sweep_transfer_id: row.sweep_transfer_id,
       created_at: row.created_at,
     };
   }
 }
 
-export const walletService = new WalletService(ledgerService);
+export const walletService = new WalletService(
+  ledgerService,
+  outboxService,
+  transferService
+);
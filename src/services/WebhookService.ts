@@ -0,0 +1,342 @@
+import crypto from "crypto";
+import { pool, DbClient } from "../config/database";
+import {
+  WebhookSubscription,
+  CreateWebhookSubscriptionInput,
+  CreatedWebhookSubscription,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventTypeName,
+} from "../models/Webhook";
+import {
+  WebhookDeliveryNotFoundError,
+  WebhookSubscriptionNotFoundError,
+} from "../utils/errors";
+import { logger } from "../utils/logger";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Sends one signed webhook request and reports the HTTP status
+ */
+export type WebhookTransport = (
+  url: string,
+  body: string,
+  headers: Record<string, string>
+) => Promise<{ status: number }>;
+
+export function createHttpTransport(timeoutMs: number): WebhookTransport {
+  return async (url, body, headers) => {
+    const response = await fetch(url, {
+      method: "POST",
+      body,
+      headers,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    return { status: response.status };
+  };
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded. Subscribers recompute
+ * it with their secret and compare against the v1 value of the
+ * Webhook-Signature header.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+// A claimed delivery is retried by another worker if not settled by then
+const CLAIM_LEASE_SECONDS = 300;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+export class WebhookService {
+  private readonly maxAttempts: number;
+  private readonly retryBaseSeconds: number;
+
+  constructor(private transport: WebhookTransport) {
+    this.maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10);
+    this.retryBaseSeconds = parseInt(
+      process.env.WEBHOOK_RETRY_BASE_SECONDS || "30",
+      10
+    );
+  }
+
+  /**
+   * Register a URL for the given event types. The signing secret is
+   * returned once.
+   */
+  async createSubscription(
+    input: CreateWebhookSubscriptionInput
+  ): Promise<CreatedWebhookSubscription> {
+    const secret = `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+
+    const result = await pool.query(
+      `INSERT INTO webhook_subscriptions (url, event_types, secret)
+      VALUES ($1, $2, $3)
+      RETURNING *`,
+      [input.url, input.event_types, secret]
+    );
+
+    const subscription = this.mapRowToSubscription(result.rows[0]);
+
+    logger.info("Webhook subscription created", {
+      subscriptionId: subscription.id,
+      url: subscription.url,
+      eventTypes: subscription.event_types,
+    });
+
+    return { subscription, secret };
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    const result = await pool.query(
+      "SELECT * FROM webhook_subscriptions ORDER BY created_at DESC"
+    );
+
+    return result.rows.map((row) => this.mapRowToSubscription(row));
+  }
+
+  /**
+   * Stop sending to a subscription. Pending deliveries are dead-lettered
+   * when the worker picks them up.
+   */
+  async disableSubscription(
+    subscriptionId: string
+  ): Promise<WebhookSubscription> {
+    const result = await pool.query(
+      `UPDATE webhook_subscriptions
+      SET disabled_at = COALESCE(disabled_at, NOW())
+      WHERE id = $1
+      RETURNING *`,
+      [subscriptionId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new WebhookSubscriptionNotFoundError(subscriptionId);
+    }
+
+    logger.info("Webhook subscription disabled", { subscriptionId });
+
+    return this.mapRowToSubscription(result.rows[0]);
+  }
+
+  /**
+   * Queue an event for every active subscription to its type. Must be called
+   * with the client of the transaction that makes the change, so the event
+   * commits or rolls back with it.
+   */
+  async enqueue(
+    client: DbClient,
+    type: WebhookEventTypeName,
+    data: Record<string, unknown>
+  ): Promise<WebhookEvent> {
+    const event: WebhookEvent = {
+      id: uuidv4(),
+      type,
+      created_at: new Date().toISOString(),
+      data,
+    };
+
+    await client.query(
+      `INSERT INTO webhook_deliveries (subscription_id, event_id, event_type, payload)
+      SELECT id, $1, $2, $3
+      FROM webhook_subscriptions
+      WHERE disabled_at IS NULL AND $2 = ANY(event_types)`,
+      [event.id, event.type, JSON.stringify(event)]
+    );
+
+    return event;
+  }
+
+  /**
+   * Claim up to `limit` due deliveries and send them. Returns how many were
+   * attempted. Safe to run from several workers at once.
+   */
+  async dispatchDue(limit: number = 10): Promise<number> {
+    const result = await pool.query(
+      `UPDATE webhook_deliveries d
+      SET next_attempt_at = NOW() + make_interval(secs => $2)
+      FROM webhook_subscriptions s
+      WHERE s.id = d.subscription_id
+        AND d.id IN (
+          SELECT id FROM webhook_deliveries
+          WHERE status = 'pending' AND next_attempt_at <= NOW()
+          ORDER BY next_attempt_at
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+      RETURNING d.*, s.url, s.secret, s.disabled_at AS subscription_disabled_at`,
+      [limit, CLAIM_LEASE_SECONDS]
+    );
+
+    for (const row of result.rows) {
+      await this.deliver(row);
+    }
+
+    return result.rows.length;
+  }
+
+  async listDeadLetters(limit: number = 50): Promise<WebhookDelivery[]> {
+    const result = await pool.query(
+      `SELECT * FROM webhook_deliveries
+      WHERE status = 'dead_lettered'
+      ORDER BY created_at DESC
+      LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map((row) => this.mapRowToDelivery(row));
+  }
+
+  /**
+   * Put a dead-lettered delivery back in the queue with a fresh attempt budget
+   */
+  async retryDelivery(deliveryId: string): Promise<WebhookDelivery> {
+    const result = await pool.query(
+      `UPDATE webhook_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = NOW(), last_error = NULL
+      WHERE id = $1 AND status = 'dead_lettered'
+      RETURNING *`,
+      [deliveryId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new WebhookDeliveryNotFoundError(deliveryId);
+    }
+
+    logger.info("Webhook delivery requeued", { deliveryId });
+
+    return this.mapRowToDelivery(result.rows[0]);
+  }
+
+  private async deliver(row: Record<string, any>): Promise<void> {
+    if (row.subscription_disabled_at) {
+      await this.recordFailure(row, null, "Subscription disabled", true);
+      return;
+    }
+
+    const body = JSON.stringify(row.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signWebhookPayload(row.secret, timestamp, body);
+
+    try {
+      const { status } = await this.transport(row.url, body, {
+        "Content-Type": "application/json",
+        "Webhook-Id": row.event_id,
+        "Webhook-Timestamp": String(timestamp),
+        "Webhook-Signature": `t=${timestamp},v1=${signature}`,
+      });
+
+      if (status >= 200 && status < 300) {
+        await pool.query(
+          `UPDATE webhook_deliveries
+          SET status = 'delivered', attempts = attempts + 1,
+            last_response_status = $2, last_error = NULL, delivered_at = NOW()
+          WHERE id = $1`,
+          [row.id, status]
+        );
+
+        logger.info("Webhook delivered", {
+          deliveryId: row.id,
+          eventType: row.event_type,
+          status,
+        });
+        return;
+      }
+
+      await this.recordFailure(row, status, `Endpoint responded ${status}`);
+    } catch (error) {
+      await this.recordFailure(
+        row,
+        null,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Schedule the next attempt with exponential backoff, or dead-letter the
+   * delivery once its attempts are used up
+   */
+  private async recordFailure(
+    row: Record<string, any>,
+    responseStatus: number | null,
+    errorMessage: string,
+    deadLetter: boolean = false
+  ): Promise<void> {
+    const attempts = row.attempts + 1;
+    const exhausted = deadLetter || attempts >= this.maxAttempts;
+    const delaySeconds = Math.min(
+      this.retryBaseSeconds * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY_SECONDS
+    );
+
+    await pool.query(
+      `UPDATE webhook_deliveries
+      SET attempts = $2,
+        status = $3,
+        next_attempt_at = NOW() + make_interval(secs => $4),
+        last_response_status = $5,
+        last_error = $6
+      WHERE id = $1`,
+      [
+        row.id,
+        attempts,
+        exhausted ? "dead_lettered" : "pending",
+        exhausted ? 0 : delaySeconds,
+        responseStatus,
+        errorMessage,
+      ]
+    );
+
+    logger.warn(
+      exhausted ? "Webhook delivery dead-lettered" : "Webhook delivery failed",
+      {
+        deliveryId: row.id,
+        eventType: row.event_type,
+        attempts,
+        responseStatus,
+        error: errorMessage,
+        retryInSeconds: exhausted ? undefined : delaySeconds,
+      }
+    );
+  }
+
+  private mapRowToSubscription(row: Record<string, any>): WebhookSubscription {
+    return {
+      id: row.id,
+      url: row.url,
+      event_types: row.event_types,
+      disabled_at: row.disabled_at,
+      created_at: row.created_at,
+    };
+  }
+
+  private mapRowToDelivery(row: Record<string, any>): WebhookDelivery {
+    return {
+      id: row.id,
+      subscription_id: row.subscription_id,
+      event_id: row.event_id,
+      event_type: row.event_type,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      next_attempt_at: row.next_attempt_at,
+      last_error: row.last_error,
+      last_response_status: row.last_response_status,
+      delivered_at: row.delivered_at,
+      created_at: row.created_at,
+    };
+  }
+}
+
+export const webhookService = new WebhookService(
+  createHttpTransport(parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000", 10))
+);
@@ -0,0 +1,632 @@
+import { pool, DbClient } from "../config/database";
+import {
+  Withdrawal,
+  WithdrawalStatus,
+  CreateWithdrawalInput,
+} from "../models/Withdrawal";
+import { SystemAccount } from "../models/Wallet";
+import { WebhookEventType, WebhookEventTypeName } from "../models/Webhook";
+import { OutboxEventTypeName } from "../models/OutboxEvent";
+import { LedgerService, ledgerService } from "./LedgerService";
+import { WebhookService, webhookService } from "./WebhookService";
+import { OutboxService, outboxService } from "./OutboxService";
+import {
+  SpendingLimitService,
+  spendingLimitService,
+} from "./SpendingLimitService";
+import { PayoutProvider, createPayoutProvider } from "./PayoutProvider";
+import {
+  DuplicatePaymentRefError,
+  InsufficientBalanceError,
+  InvalidWithdrawalStateError,
+  PayoutRejectedError,
+  WalletNotFoundError,
+  WithdrawalNotFoundError,
+} from "../utils/errors";
+import { assertAmountWithinLimit, formatAmount } from "../utils/currency";
+import { logger } from "../utils/logger";
+import { assertWalletAcceptsPosting } from "../utils/walletStatus";
+import { transactionRunner } from "../utils/transaction";
+import { v4 as uuidv4 } from "uuid";
+
+// Event published as a withdrawal enters each status
+const STATUS_EVENTS: Record<
+  WithdrawalStatus,
+  WebhookEventTypeName & OutboxEventTypeName
+> = {
+  pending: WebhookEventType.WITHDRAWAL_CREATED,
+  settled: WebhookEventType.WITHDRAWAL_SETTLED,
+  failed: WebhookEventType.WITHDRAWAL_FAILED,
+};
+
+// A claimed payout is submitted again by another worker if not settled by then
+const CLAIM_LEASE_SECONDS = 300;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+export class WithdrawalService {
+  private readonly maxPayoutAttempts: number;
+  private readonly payoutRetryBaseSeconds: number;
+
+  constructor(
+    private ledgerService: LedgerService,
+    private webhookService: WebhookService,
+    private outboxService: OutboxService,
+    private spendingLimitService: SpendingLimitService,
+    private payoutProvider: PayoutProvider
+  ) {
+    this.maxPayoutAttempts = parseInt(
+      process.env.PAYOUT_MAX_ATTEMPTS || "5",
+      10
+    );
+    this.payoutRetryBaseSeconds = parseInt(
+      process.env.PAYOUT_RETRY_BASE_SECONDS || "60",
+      10
+    );
+  }
+
+  /**
+   * Debit a wallet into the payout clearing account for its currency and
+   * queue the payout in the same transaction, then try to submit it to the
+   * provider straight away. A payout that could not be submitted, including
+   * one interrupted by a crash, is retried by the payout worker. The
+   * withdrawal stays pending until the provider reports the outcome; one the
+   * provider refuses outright is failed and returned to the wallet.
+   */
+  async withdraw(input: CreateWithdrawalInput): Promise<Withdrawal> {
+    const existingEntry =
+      await this.ledgerService.findEntryByExternalPaymentRef(
+        input.external_payment_ref
+      );
+
+    if (existingEntry) {
+      logger.warn("Duplicate external payment reference detected", {
+        externalPaymentRef: input.external_payment_ref,
+        existingEntryId: existingEntry.id,
+      });
+      throw new DuplicatePaymentRefError(input.external_payment_ref);
+    }
+
+    const withdrawalId = uuidv4();
+    let withdrawal: Withdrawal;
+
+    try {
+      withdrawal = await transactionRunner.run(
+        { name: "withdraw" },
+        async (client) => {
+          // Locked so concurrent debits can't both pass the balance check
+          const walletResult = await client.query(
+            "SELECT currency, status FROM wallets WHERE id = $1 FOR UPDATE",
+            [input.wallet_id]
+          );
+
+          if (walletResult.rows.length === 0) {
+            throw new WalletNotFoundError(input.wallet_id);
+          }
+
+          const currency: string = walletResult.rows[0].currency;
+          assertAmountWithinLimit(input.amount, currency);
+          assertWalletAcceptsPosting(
+            input.wallet_id,
+            walletResult.rows[0].status,
+            "debit"
+          );
+
+          // Withdrawals count against the same limits as transfers
+          await this.spendingLimitService.assertWithinLimits(
+            client,
+            input.wallet_id,
+            input.amount
+          );
+
+          const balanceResult = await client.query(
+            "SELECT balance FROM wallet_balances WHERE wallet_id = $1",
+            [input.wallet_id]
+          );
+          const balance = balanceResult.rows[0]
+            ? parseInt(balanceResult.rows[0].balance, 10)
+            : 0;
+          const held = await this.ledgerService.getHeldAmount(
+            input.wallet_id,
+            client
+          );
+
+          if (balance - held < input.amount) {
+            throw new InsufficientBalanceError(
+              `Insufficient balance. Available: ${formatAmount(balance - held, currency)}, Required: ${formatAmount(input.amount, currency)}`
+            );
+          }
+
+          const clearingWalletId = await this.ledgerService.getSystemWalletId(
+            SystemAccount.PAYOUT_CLEARING,
+            currency,
+            client
+          );
+
+          const transactionReference = `withdrawal_${withdrawalId}`;
+
+          await this.ledgerService.postJournal(client, {
+            type: "withdrawal",
+            transaction_reference: transactionReference,
+            postings: [
+              {
+                wallet_id: input.wallet_id,
+                amount: input.amount,
+                currency,
+                direction: "debit",
+                external_payment_ref: input.external_payment_ref,
+              },
+              {
+                wallet_id: clearingWalletId,
+                amount: input.amount,
+                currency,
+                direction: "credit",
+              },
+            ],
+          });
+
+          // Due at once, so the payout worker submits it if this request can't
+          const result = await client.query(
+            `INSERT INTO withdrawals
+              (id, wallet_id, amount, currency, external_payment_ref,
+               destination, provider, transaction_reference,
+               next_payout_attempt_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+            RETURNING *`,
+            [
+              withdrawalId,
+              input.wallet_id,
+              input.amount,
+              currency,
+              input.external_payment_ref,
+              JSON.stringify(input.destination),
+              this.payoutProvider.name,
+              transactionReference,
+            ]
+          );
+
+          const created = this.mapRowToWithdrawal(result.rows[0]);
+          await this.publish(client, created);
+
+          return created;
+        }
+      );
+    } catch (error: any) {
+      // A concurrent request with the same reference won the unique constraint
+      if (
+        error?.code === "23505" &&
+        error?.constraint?.includes("external_payment_ref")
+      ) {
+        throw new DuplicatePaymentRefError(input.external_payment_ref);
+      }
+
+      throw error;
+    }
+
+    logger.info("Withdrawal created", {
+      withdrawalId: withdrawal.id,
+      walletId: withdrawal.wallet_id,
+      amount: withdrawal.amount,
+      currency: withdrawal.currency,
+      externalPaymentRef: withdrawal.external_payment_ref,
+    });
+
+    // Sent once the debit has committed, so no lock is held across the call.
+    // The withdrawal stands whatever happens here; the payout worker picks
+    // the payout up again once the claim's lease lapses.
+    try {
+      const claimed = await pool.query(
+        `UPDATE withdrawals
+        SET payout_attempts = payout_attempts + 1,
+          next_payout_attempt_at = NOW() + make_interval(secs => $2)
+        WHERE id = $1
+          AND status = 'pending'
+          AND next_payout_attempt_at <= NOW()
+        RETURNING *`,
+        [withdrawal.id, CLAIM_LEASE_SECONDS]
+      );
+
+      // The payout worker got to it first
+      if (claimed.rows.length === 0) {
+        return (await this.getWithdrawal(withdrawal.id)) ?? withdrawal;
+      }
+
+      return await this.submitPayout(
+        this.mapRowToWithdrawal(claimed.rows[0])
+      );
+    } catch (error) {
+      logger.error("Payout submission failed after withdrawal committed", {
+        withdrawalId: withdrawal.id,
+        provider: withdrawal.provider,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return withdrawal;
+    }
+  }
+
+  /**
+   * Claim up to `limit` payouts due for submission, oldest first, and submit
+   * each. Returns how many were claimed. Safe to run from several workers at
+   * once.
+   */
+  async submitDuePayouts(limit: number = 10): Promise<number> {
+    const result = await pool.query(
+      `UPDATE withdrawals
+      SET payout_attempts = payout_attempts + 1,
+        next_payout_attempt_at = NOW() + make_interval(secs => $2)
+      WHERE id IN (
+        SELECT id FROM withdrawals
+        WHERE status = 'pending' AND next_payout_attempt_at <= NOW()
+        ORDER BY next_payout_attempt_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`,
+      [limit, CLAIM_LEASE_SECONDS]
+    );
+
+    // One payout's error must not hold up the rest of the batch
+    for (const row of result.rows) {
+      try {
+        await this.submitPayout(this.mapRowToWithdrawal(row));
+      } catch (error) {
+        logger.error("Payout submission failed", {
+          withdrawalId: row.id,
+          provider: row.provider,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return result.rows.length;
+  }
+
+  async getWithdrawal(withdrawalId: string): Promise<Withdrawal | null> {
+    const result = await pool.query(
+      "SELECT * FROM withdrawals WHERE id = $1",
+      [withdrawalId]
+    );
+
+    return result.rows.length > 0
+      ? this.mapRowToWithdrawal(result.rows[0])
+      : null;
+  }
+
+  /**
+   * Record that the provider paid a pending withdrawal out. The funds stay
+   * in payout clearing, which the provider's settlement report offsets.
+   * Reporting an already settled withdrawal again is a no-op.
+   */
+  async settleWithdrawal(withdrawalId: string): Promise<Withdrawal> {
+    const withdrawal = await transactionRunner.run(
+      { name: "settle_withdrawal" },
+      async (client) => {
+        const current = await this.lockWithdrawal(client, withdrawalId);
+
+        if (current.status === "settled") {
+          return current;
+        }
+
+        this.assertPending(current, "settled");
+
+        const result = await client.query(
+          `UPDATE withdrawals
+          SET status = 'settled', completed_at = NOW()
+          WHERE id = $1
+          RETURNING *`,
+          [withdrawalId]
+        );
+
+        const settled = this.mapRowToWithdrawal(result.rows[0]);
+        await this.publish(client, settled);
+
+        return settled;
+      }
+    );
+
+    logger.info("Withdrawal settled", {
+      withdrawalId: withdrawal.id,
+      walletId: withdrawal.wallet_id,
+      amount: withdrawal.amount,
+    });
+
+    return withdrawal;
+  }
+
+  /**
+   * Record that a pending withdrawal's payout failed and return its debit
+   * from payout clearing to the wallet. The return lands even if the wallet
+   * has been frozen since. Reporting an already failed withdrawal again is a
+   * no-op.
+   */
+  async failWithdrawal(
+    withdrawalId: string,
+    reason: string
+  ): Promise<Withdrawal> {
+    const withdrawal = await transactionRunner.run(
+      { name: "fail_withdrawal" },
+      async (client) => {
+        const current = await this.lockWithdrawal(client, withdrawalId);
+
+        if (current.status === "failed") {
+          return current;
+        }
+
+        this.assertPending(current, "failed");
+
+        const clearingWalletId = await this.ledgerService.getSystemWalletId(
+          SystemAccount.PAYOUT_CLEARING,
+          current.currency,
+          client
+        );
+
+        const reversalReference = `withdrawal_reversal_${current.id}`;
+
+        await this.ledgerService.postJournal(client, {
+          type: "reversal",
+          transaction_reference: reversalReference,
+          skip_status_check: true,
+          postings: [
+            {
+              wallet_id: clearingWalletId,
+              amount: current.amount,
+              currency: current.currency,
+              direction: "debit",
+            },
+            {
+              wallet_id: current.wallet_id,
+              amount: current.amount,
+              currency: current.currency,
+              direction: "credit",
+            },
+          ],
+        });
+
+        const result = await client.query(
+          `UPDATE withdrawals
+          SET status = 'failed', failure_reason = $2,
+            reversal_transaction_reference = $3, completed_at = NOW()
+          WHERE id = $1
+          RETURNING *`,
+          [withdrawalId, reason, reversalReference]
+        );
+
+        const failed = this.mapRowToWithdrawal(result.rows[0]);
+        await this.publish(client, failed);
+
+        return failed;
+      }
+    );
+
+    logger.info("Withdrawal failed", {
+      withdrawalId: withdrawal.id,
+      walletId: withdrawal.wallet_id,
+      amount: withdrawal.amount,
+      reason: withdrawal.failure_reason,
+    });
+
+    return withdrawal;
+  }
+
+  /**
+   * Submit a claimed payout, keyed by the withdrawal ID so the provider
+   * pays it once however many times it is submitted. A payout the provider
+   * refuses is failed; any other error is retried with exponential backoff
+   * until PAYOUT_MAX_ATTEMPTS submissions have been made, after which it is
+   * left for review.
+   */
+  private async submitPayout(withdrawal: Withdrawal): Promise<Withdrawal> {
+    // Earlier submissions died without recording anything
+    if (withdrawal.payout_attempts > this.maxPayoutAttempts) {
+      return this.holdForReview(
+        withdrawal,
+        `Payout submission did not finish after ${this.maxPayoutAttempts} attempts`
+      );
+    }
+
+    let providerReference: string;
+    try {
+      providerReference = await this.payoutProvider.createPayout({
+        withdrawal_id: withdrawal.id,
+        amount: withdrawal.amount,
+        currency: withdrawal.currency,
+        destination: withdrawal.destination,
+        external_payment_ref: withdrawal.external_payment_ref,
+        idempotency_key: withdrawal.id,
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+
+      if (error instanceof PayoutRejectedError) {
+        logger.warn("Payout provider rejected withdrawal", {
+          withdrawalId: withdrawal.id,
+          provider: withdrawal.provider,
+          error: reason,
+        });
+        return this.failRejectedPayout(withdrawal, reason);
+      }
+
+      return this.recordPayoutError(withdrawal, reason);
+    }
+
+    const result = await pool.query(
+      `UPDATE withdrawals
+      SET provider_reference = $2,
+        next_payout_attempt_at = NULL,
+        last_payout_error = NULL
+      WHERE id = $1
+      RETURNING *`,
+      [withdrawal.id, providerReference]
+    );
+
+    return this.mapRowToWithdrawal(result.rows[0]);
+  }
+
+  /**
+   * Fail a withdrawal whose payout the provider refused. A settle or fail
+   * callback may have resolved it since it was claimed, in which case it is
+   * returned as it now is.
+   */
+  private async failRejectedPayout(
+    withdrawal: Withdrawal,
+    reason: string
+  ): Promise<Withdrawal> {
+    try {
+      return await this.failWithdrawal(withdrawal.id, reason);
+    } catch (error) {
+      if (!(error instanceof InvalidWithdrawalStateError)) {
+        throw error;
+      }
+
+      logger.warn("Rejected payout already resolved", {
+        withdrawalId: withdrawal.id,
+        error: error.message,
+      });
+      return (await this.getWithdrawal(withdrawal.id)) ?? withdrawal;
+    }
+  }
+
+  /**
+   * Schedule the next submission of a payout the provider could not be
+   * reached for, or leave it for review once its attempts are used up
+   */
+  private async recordPayoutError(
+    withdrawal: Withdrawal,
+    reason: string
+  ): Promise<Withdrawal> {
+    const attempts = withdrawal.payout_attempts;
+
+    if (attempts >= this.maxPayoutAttempts) {
+      return this.holdForReview(
+        withdrawal,
+        `Payout could not be submitted after ${attempts} attempts: ${reason}`
+      );
+    }
+
+    const delaySeconds = Math.min(
+      this.payoutRetryBaseSeconds * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY_SECONDS
+    );
+
+    // A callback may have settled or failed it meanwhile
+    const result = await pool.query(
+      `UPDATE withdrawals
+      SET next_payout_attempt_at = NOW() + make_interval(secs => $2),
+        last_payout_error = $3
+      WHERE id = $1 AND status = 'pending'
+      RETURNING *`,
+      [withdrawal.id, delaySeconds, reason]
+    );
+
+    logger.warn("Payout submission failed", {
+      withdrawalId: withdrawal.id,
+      provider: withdrawal.provider,
+      attempts,
+      retryInSeconds: delaySeconds,
+      error: reason,
+    });
+
+    return result.rows.length > 0
+      ? this.mapRowToWithdrawal(result.rows[0])
+      : ((await this.getWithdrawal(withdrawal.id)) ?? withdrawal);
+  }
+
+  /**
+   * Stop submitting a payout whose attempts are used up. It stays pending
+   * with its debit in payout clearing: the provider may have accepted a
+   * submission whose response was lost, so only its settle or fail callback,
+   * once the outcome is confirmed with the provider, may resolve it.
+   */
+  private async holdForReview(
+    withdrawal: Withdrawal,
+    reason: string
+  ): Promise<Withdrawal> {
+    const result = await pool.query(
+      `UPDATE withdrawals
+      SET next_payout_attempt_at = NULL, last_payout_error = $2
+      WHERE id = $1 AND status = 'pending'
+      RETURNING *`,
+      [withdrawal.id, reason]
+    );
+
+    logger.error("Payout needs review", {
+      withdrawalId: withdrawal.id,
+      provider: withdrawal.provider,
+      attempts: withdrawal.payout_attempts,
+      error: reason,
+    });
+
+    return result.rows.length > 0
+      ? this.mapRowToWithdrawal(result.rows[0])
+      : ((await this.getWithdrawal(withdrawal.id)) ?? withdrawal);
+  }
+
+  private assertPending(withdrawal: Withdrawal, target: WithdrawalStatus) {
+    if (withdrawal.status !== "pending") {
+      throw new InvalidWithdrawalStateError(
+        `Withdrawal ${withdrawal.id} is ${withdrawal.status} and cannot be ${target}`
+      );
+    }
+  }
+
+  private async publish(
+    client: DbClient,
+    withdrawal: Withdrawal
+  ): Promise<void> {
+    const eventType = STATUS_EVENTS[withdrawal.status];
+
+    await this.webhookService.enqueue(client, eventType, { withdrawal });
+    await this.outboxService.append(client, {
+      aggregate_type: "withdrawal",
+      aggregate_id: withdrawal.id,
+      event_type: eventType,
+      payload: { withdrawal },
+    });
+  }
+
+  private async lockWithdrawal(
+    client: DbClient,
+    withdrawalId: string
+  ): Promise<Withdrawal> {
+    const result = await client.query(
+      "SELECT * FROM withdrawals WHERE id = $1 FOR UPDATE",
+      [withdrawalId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new WithdrawalNotFoundError(withdrawalId);
+    }
+
+    return this.mapRowToWithdrawal(result.rows[0]);
+  }
+
+  private mapRowToWithdrawal(row: Record<string, any>): Withdrawal {
+    return {
+      id: row.id,
+      wallet_id: row.wallet_id,
+      amount: parseInt(row.amount, 10),
+      currency: row.currency,
+      external_payment_ref: row.external_payment_ref,
+      destination: row.destination ?? {},
+      status: row.status,
+      provider: row.provider,
+      provider_reference: row.provider_reference ?? null,
+      payout_attempts: row.payout_attempts ?? 0,
+      next_payout_attempt_at: row.next_payout_attempt_at ?? null,
+      last_payout_error: row.last_payout_error ?? null,
+      failure_reason: row.failure_reason ?? null,
+      transaction_reference: row.transaction_reference,
+      reversal_transaction_reference:
+        row.reversal_transaction_reference ?? null,
+      created_at: row.created_at,
+      completed_at: row.completed_at ?? null,
+    };
+  }
+}
+
+export const withdrawalService = new WithdrawalService(
+  ledgerService,
+  webhookService,
+  outboxService,
+  spendingLimitService,
+  createPayoutProvider()
+);
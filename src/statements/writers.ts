@@ -0,0 +1,396 @@
+import { Writable } from "stream";
+import {
+  StatementFormat,
+  StatementHeader,
+  StatementLine,
+  StatementSummary,
+  StatementWriter,
+} from "../models/Statement";
+import { toMajorUnits } from "../utils/currency";
+import { PdfDocument, PdfFont, PdfText, PDF_PAGE_HEIGHT } from "../utils/pdf";
+
+export const STATEMENT_CONTENT_TYPES: Record<StatementFormat, string> = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  pdf: "application/pdf",
+};
+
+/**
+ * Write a chunk and wait for the stream to drain when its buffer is full,
+ * so a slow client throttles the database reads instead of filling memory
+ */
+async function writeChunk(out: Writable, chunk: string | Buffer): Promise<void> {
+  if (out.destroyed) {
+    throw new Error("Statement output closed before it finished");
+  }
+  if (out.write(chunk)) {
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = () => {
+      out.off("close", onClose);
+      resolve();
+    };
+    const onClose = () => {
+      out.off("drain", onDrain);
+      reject(new Error("Statement output closed before it finished"));
+    };
+    out.once("drain", onDrain);
+    out.once("close", onClose);
+  });
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace("T", " ").slice(0, 19);
+}
+
+/**
+ * Streams a single JSON document. Amounts stay in minor units, as in the
+ * rest of the API.
+ */
+export class JsonStatementWriter implements StatementWriter {
+  private first = true;
+
+  constructor(private out: Writable) {}
+
+  async begin(header: StatementHeader): Promise<void> {
+    const opening = JSON.stringify(header);
+    // Reopen the header object so entries and the summary can follow it
+    await writeChunk(this.out, `${opening.slice(0, -1)},"entries":[`);
+  }
+
+  async lines(lines: StatementLine[]): Promise<void> {
+    const json = lines.map((line) => JSON.stringify(line)).join(",");
+    await writeChunk(this.out, this.first ? json : `,${json}`);
+    this.first = false;
+  }
+
+  async end(summary: StatementSummary): Promise<void> {
+    const closing = JSON.stringify(summary);
+    await writeChunk(this.out, `],${closing.slice(1)}`);
+  }
+}
+
+const CSV_COLUMNS = [
+  "row",
+  "date",
+  "type",
+  "direction",
+  "reference",
+  "transfer_id",
+  "debit",
+  "credit",
+  "balance",
+  "currency",
+];
+
+function csvField(value: string | null | undefined): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One row per entry in major-unit decimals, framed by opening_balance and
+ * closing_balance rows and followed by total rows per journal type plus a
+ * grand total with an empty type
+ */
+export class CsvStatementWriter implements StatementWriter {
+  private currency = "";
+  private to = new Date();
+
+  constructor(private out: Writable) {}
+
+  async begin(header: StatementHeader): Promise<void> {
+    this.currency = header.currency;
+    this.to = header.to;
+    await writeChunk(
+      this.out,
+      this.row(CSV_COLUMNS) +
+        this.row([
+          "opening_balance",
+          formatTimestamp(header.from),
+          "",
+          "",
+          "",
+          "",
+          "",
+          "",
+          toMajorUnits(header.opening_balance, this.currency),
+          this.currency,
+        ])
+    );
+  }
+
+  async lines(lines: StatementLine[]): Promise<void> {
+    const rows = lines.map((line) =>
+      this.row([
+        "entry",
+        formatTimestamp(line.created_at),
+        line.type,
+        line.direction,
+        line.transaction_reference,
+        line.transfer_id,
+        line.direction === "debit"
+          ? toMajorUnits(line.amount, this.currency)
+          : "",
+        line.direction === "credit"
+          ? toMajorUnits(line.amount, this.currency)
+          : "",
+        toMajorUnits(line.balance_after, this.currency),
+        this.currency,
+      ])
+    );
+    await writeChunk(this.out, rows.join(""));
+  }
+
+  async end(summary: StatementSummary): Promise<void> {
+    const rows = [
+      this.row([
+        "closing_balance",
+        formatTimestamp(this.to),
+        "",
+        "",
+        "",
+        "",
+        "",
+        "",
+        toMajorUnits(summary.closing_balance, this.currency),
+        this.currency,
+      ]),
+      ...summary.totals_by_type.map((total) =>
+        this.totalRow(total.type, total.debits, total.credits)
+      ),
+      this.totalRow("", summary.total_debits, summary.total_credits),
+    ];
+    await writeChunk(this.out, rows.join(""));
+  }
+
+  private totalRow(type: string, debits: number, credits: number): string {
+    return this.row([
+      "total",
+      "",
+      type,
+      "",
+      "",
+      "",
+      toMajorUnits(debits, this.currency),
+      toMajorUnits(credits, this.currency),
+      "",
+      this.currency,
+    ]);
+  }
+
+  private row(fields: (string | null)[]): string {
+    return `${fields.map(csvField).join(",")}\r\n`;
+  }
+}
+
+const PDF_MARGIN = 50;
+const PDF_BOTTOM = 60;
+const PDF_LINE_HEIGHT = 13;
+const PDF_FONT_SIZE = 9;
+const PDF_REFERENCE_CHARS = 24;
+
+const PDF_COLUMNS = {
+  date: PDF_MARGIN,
+  type: 150,
+  reference: 205,
+  debit: 400,
+  credit: 470,
+  balance: 545,
+};
+
+/**
+ * Paginated A4 statement. Only the page being laid out is held in memory;
+ * finished pages go straight to the output.
+ */
+export class PdfStatementWriter implements StatementWriter {
+  private document: PdfDocument;
+  private texts: PdfText[] = [];
+  private y = 0;
+  private pageNumber = 0;
+  private currency = "";
+
+  constructor(out: Writable) {
+    this.document = new PdfDocument((chunk) => writeChunk(out, chunk));
+  }
+
+  async begin(header: StatementHeader): Promise<void> {
+    this.currency = header.currency;
+    await this.document.begin();
+    this.startPage();
+
+    this.text(PDF_MARGIN, "Account Statement", { font: "bold", size: 16 });
+    this.y -= 8;
+    this.text(PDF_MARGIN, `Wallet: ${header.wallet_id}`);
+    if (header.label) {
+      this.text(PDF_MARGIN, `Label: ${header.label}`);
+    }
+    this.text(
+      PDF_MARGIN,
+      `Period: ${formatTimestamp(header.from)} to ${formatTimestamp(header.to)} UTC`
+    );
+    this.text(PDF_MARGIN, `Currency: ${header.currency}`);
+    this.text(
+      PDF_MARGIN,
+      `Generated: ${formatTimestamp(header.generated_at)} UTC`
+    );
+    this.y -= PDF_LINE_HEIGHT;
+    this.text(
+      PDF_MARGIN,
+      `Opening balance: ${toMajorUnits(header.opening_balance, this.currency)}`,
+      { font: "bold" }
+    );
+    this.y -= PDF_LINE_HEIGHT / 2;
+    this.tableHeader();
+  }
+
+  async lines(lines: StatementLine[]): Promise<void> {
+    for (const line of lines) {
+      if (this.y - PDF_LINE_HEIGHT < PDF_BOTTOM) {
+        await this.flushPage();
+        this.startPage();
+        this.tableHeader();
+      }
+
+      const reference =
+        line.transaction_reference.length > PDF_REFERENCE_CHARS
+          ? `${line.transaction_reference.slice(0, PDF_REFERENCE_CHARS - 3)}...`
+          : line.transaction_reference;
+      const amount = toMajorUnits(line.amount, this.currency);
+
+      this.texts.push(
+        this.cell(PDF_COLUMNS.date, formatTimestamp(line.created_at)),
+        this.cell(PDF_COLUMNS.type, line.type),
+        this.cell(PDF_COLUMNS.reference, reference),
+        this.cell(
+          line.direction === "debit" ? PDF_COLUMNS.debit : PDF_COLUMNS.credit,
+          amount,
+          "right"
+        ),
+        this.cell(
+          PDF_COLUMNS.balance,
+          toMajorUnits(line.balance_after, this.currency),
+          "right"
+        )
+      );
+      this.y -= PDF_LINE_HEIGHT;
+    }
+  }
+
+  async end(summary: StatementSummary): Promise<void> {
+    const needed = (summary.totals_by_type.length + 6) * PDF_LINE_HEIGHT;
+    if (this.y - needed < PDF_BOTTOM) {
+      await this.flushPage();
+      this.startPage();
+    }
+
+    this.y -= PDF_LINE_HEIGHT / 2;
+    this.tableRow("Totals", "Debits", "Credits", "Entries", "bold");
+    for (const total of summary.totals_by_type) {
+      this.tableRow(
+        total.type,
+        toMajorUnits(total.debits, this.currency),
+        toMajorUnits(total.credits, this.currency),
+        String(total.count)
+      );
+    }
+    this.tableRow(
+      "All",
+      toMajorUnits(summary.total_debits, this.currency),
+      toMajorUnits(summary.total_credits, this.currency),
+      String(summary.entry_count),
+      "bold"
+    );
+    this.y -= PDF_LINE_HEIGHT;
+    this.text(
+      PDF_MARGIN,
+      `Closing balance: ${toMajorUnits(summary.closing_balance, this.currency)}`,
+      { font: "bold" }
+    );
+
+    await this.flushPage();
+    await this.document.end();
+  }
+
+  private startPage(): void {
+    this.pageNumber += 1;
+    this.texts = [];
+    this.y = PDF_PAGE_HEIGHT - PDF_MARGIN;
+  }
+
+  private async flushPage(): Promise<void> {
+    this.texts.push({
+      x: PDF_COLUMNS.balance,
+      y: PDF_BOTTOM / 2,
+      text: `Page ${this.pageNumber}`,
+      size: 8,
+      align: "right",
+    });
+    await this.document.addPage(this.texts);
+  }
+
+  private tableHeader(): void {
+    this.texts.push(
+      this.cell(PDF_COLUMNS.date, "Date (UTC)", "left", "bold"),
+      this.cell(PDF_COLUMNS.type, "Type", "left", "bold"),
+      this.cell(PDF_COLUMNS.reference, "Reference", "left", "bold"),
+      this.cell(PDF_COLUMNS.debit, "Debit", "right", "bold"),
+      this.cell(PDF_COLUMNS.credit, "Credit", "right", "bold"),
+      this.cell(PDF_COLUMNS.balance, "Balance", "right", "bold")
+    );
+    this.y -= PDF_LINE_HEIGHT;
+  }
+
+  private tableRow(
+    label: string,
+    debits: string,
+    credits: string,
+    count: string,
+    font: PdfFont = "regular"
+  ): void {
+    this.texts.push(
+      this.cell(PDF_COLUMNS.date, label, "left", font),
+      this.cell(PDF_COLUMNS.debit, debits, "right", font),
+      this.cell(PDF_COLUMNS.credit, credits, "right", font),
+      this.cell(PDF_COLUMNS.balance, count, "right", font)
+    );
+    this.y -= PDF_LINE_HEIGHT;
+  }
+
+  private text(
+    x: number,
+    text: string,
+    options: { font?: PdfFont; size?: number } = {}
+  ): void {
+    const size = options.size || 10;
+    this.texts.push({ x, y: this.y, text, font: options.font, size });
+    this.y -= size + 4;
+  }
+
+  private cell(
+    x: number,
+    text: string,
+    align: "left" | "right" = "left",
+    font: PdfFont = "regular"
+  ): PdfText {
+    return { x, y: this.y, text, font, size: PDF_FONT_SIZE, align };
+  }
+}
+
+export function createStatementWriter(
+  format: StatementFormat,
+  out: Writable
+): StatementWriter {
+  switch (format) {
+    case "json":
+      return new JsonStatementWriter(out);
+    case "csv":
+      return new CsvStatementWriter(out);
+    case "pdf":
+      return new PdfStatementWriter(out);
+  }
+}
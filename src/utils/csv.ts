@@ -0,0 +1,74 @@
+import { ValidationError } from "./errors";
+
+export interface CsvRow {
+  /** One-based line the row starts on, for error messages */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Parse RFC 4180 CSV: comma-separated fields, optionally double-quoted with
+ * "" for a literal quote, rows ending in CRLF or LF. Quoted fields may span
+ * lines. A leading byte order mark and blank lines are ignored.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    fields.push(field);
+    // A line with nothing on it is not a row of one empty field
+    if (fields.length > 1 || fields[0] !== "") {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError(
+      `Invalid CSV: unterminated quoted field starting on line ${rowLine}`
+    );
+  }
+
+  endRow();
+
+  return rows;
+}
@@ -0,0 +1,119 @@
+import { ValidationError } from "./errors";
+
+/**
+ * ISO 4217 minor-unit exponents for supported currencies.
+ * Amounts are always stored as integers in the currency's minor unit
+ * (cents for USD, yen for JPY, fils for KWD).
+ */
+export const CURRENCY_EXPONENTS: Readonly<Record<string, number>> = {
+  AUD: 2,
+  BHD: 3,
+  CAD: 2,
+  CHF: 2,
+  CLP: 0,
+  EUR: 2,
+  GBP: 2,
+  GHS: 2,
+  INR: 2,
+  JOD: 3,
+  JPY: 0,
+  KES: 2,
+  KRW: 0,
+  KWD: 3,
+  NGN: 2,
+  OMR: 3,
+  TND: 3,
+  USD: 2,
+  VND: 0,
+  ZAR: 2,
+};
+
+export const DEFAULT_CURRENCY = "USD";
+
+/**
+ * Largest amount accepted for a single operation, in major units
+ * (10 billion of any currency)
+ */
+export const MAX_AMOUNT_MAJOR_UNITS = 10_000_000_000;
+
+export const MAX_CURRENCY_EXPONENT = Math.max(
+  ...Object.values(CURRENCY_EXPONENTS)
+);
+
+export function isSupportedCurrency(currency: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CURRENCY_EXPONENTS, currency);
+}
+
+export function getCurrencyExponent(currency: string): number {
+  if (!isSupportedCurrency(currency)) {
+    throw new ValidationError(`Unsupported currency ${currency}`);
+  }
+  return CURRENCY_EXPONENTS[currency];
+}
+
+/**
+ * Maximum amount in minor units for a currency
+ */
+export function getMaxAmount(currency: string): number {
+  return MAX_AMOUNT_MAJOR_UNITS * 10 ** getCurrencyExponent(currency);
+}
+
+/**
+ * Reject amounts above the per-currency maximum.
+ * Request schemas only know the global ceiling; the exact limit depends on
+ * the wallet's currency, so services call this once the wallet is loaded.
+ */
+export function assertAmountWithinLimit(amount: number, currency: string): void {
+  if (amount > getMaxAmount(currency)) {
+    throw new ValidationError(
+      `Amount exceeds maximum allowed value for ${currency}`
+    );
+  }
+}
+
+/**
+ * Format an amount in minor units, e.g. formatAmount(12345, "USD") => "$123.45",
+ * formatAmount(500, "JPY") => "¥500"
+ */
+export function formatAmount(amount: number, currency: string): string {
+  const exponent = getCurrencyExponent(currency);
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent,
+  }).format(amount / 10 ** exponent);
+}
+
+/**
+ * Render minor units as a plain decimal in major units, e.g.
+ * toMajorUnits(-12345, "USD") => "-123.45". Integer arithmetic only, for
+ * exports that must round-trip exactly.
+ */
+export function toMajorUnits(amount: number, currency: string): string {
+  const exponent = getCurrencyExponent(currency);
+  const digits = Math.abs(amount).toString().padStart(exponent + 1, "0");
+  const sign = amount < 0 ? "-" : "";
+
+  if (exponent === 0) {
+    return `${sign}${digits}`;
+  }
+
+  return `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+}
+
+/**
+ * Convert an amount in source minor units to target minor units at a
+ * major-unit rate, rounding down so conversion never credits more than quoted
+ */
+export function convertAmount(
+  amount: number,
+  sourceCurrency: string,
+  targetCurrency: string,
+  rate: number
+): number {
+  const scale =
+    10 ** (getCurrencyExponent(targetCurrency) - getCurrencyExponent(sourceCurrency));
+  // Trim binary floating point noise (e.g. 28.999999999999996) before flooring
+  return Math.floor(Number((amount * rate * scale).toFixed(6)));
+}
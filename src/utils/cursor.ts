@@ -0,0 +1,50 @@
+import { ValidationError } from "./errors";
+
+/**
+ * Position in a (created_at, id) keyset. created_at is the database's own
+ * text rendering of the timestamp, so microseconds survive the round trip;
+ * a JavaScript Date would truncate them and skip rows on the next page.
+ */
+export interface KeysetCursor {
+  created_at: string;
+  id: string;
+}
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Encode a keyset position as an opaque, URL-safe token
+ */
+export function encodeCursor(cursor: KeysetCursor): string {
+  return Buffer.from(JSON.stringify([cursor.created_at, cursor.id])).toString(
+    "base64url"
+  );
+}
+
+/**
+ * Decode a token from encodeCursor, rejecting anything else with a
+ * ValidationError so a tampered cursor never reaches SQL
+ */
+export function decodeCursor(token: string): KeysetCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new ValidationError("Invalid cursor");
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 2 ||
+    typeof decoded[0] !== "string" ||
+    typeof decoded[1] !== "string" ||
+    !TIMESTAMP_PATTERN.test(decoded[0]) ||
+    !UUID_PATTERN.test(decoded[1])
+  ) {
+    throw new ValidationError("Invalid cursor");
+  }
+
+  return { created_at: decoded[0], id: decoded[1] };
+}
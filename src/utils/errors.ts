@@ -1,4 +1,7 @@
 export class AppError extends Error {
+  /** Machine-readable context returned to the client alongside the code */
+  public details?: Record<string, unknown>;
+
   constructor(
     message: string,
     public statusCode: number = 500,
@@ -69,3 +72,335 @@ export class ValidationError extends AppError {
     super(message, 400, "VALIDATION_ERROR");
   }
 }
+
+export class UnbalancedJournalError extends AppError {
+  constructor(message: string = "Journal postings do not balance") {
+    super(message, 500, "UNBALANCED_JOURNAL");
+  }
+}
+
+export class TransferNotFoundError extends AppError {
+  constructor(transferId?: string) {
+    super(
+      transferId ? `Transfer ${transferId} not found` : "Transfer not found",
+      404,
+      "TRANSFER_NOT_FOUND"
+    );
+  }
+}
+
+export class TransactionNotFoundError extends AppError {
+  constructor(entryId?: string) {
+    super(
+      entryId ? `Transaction ${entryId} not found` : "Transaction not found",
+      404,
+      "TRANSACTION_NOT_FOUND"
+    );
+  }
+}
+
+export class InvalidTransferStateError extends AppError {
+  constructor(message: string) {
+    super(message, 409, "INVALID_TRANSFER_STATE");
+  }
+}
+
+export class ReversalAmountExceededError extends AppError {
+  constructor(requested: number, reversible: number) {
+    super(
+      `Reversal amount ${requested} exceeds reversible amount ${reversible}`,
+      400,
+      "REVERSAL_AMOUNT_EXCEEDED"
+    );
+  }
+}
+
+export class CurrencyMismatchError extends AppError {
+  constructor(message: string) {
+    super(message, 400, "CURRENCY_MISMATCH");
+  }
+}
+
+export class FxRateUnavailableError extends AppError {
+  constructor(sourceCurrency: string, targetCurrency: string) {
+    super(
+      `No FX rate available for ${sourceCurrency}/${targetCurrency}`,
+      400,
+      "FX_RATE_UNAVAILABLE"
+    );
+  }
+}
+
+export class FxQuoteNotFoundError extends AppError {
+  constructor(quoteId?: string) {
+    super(
+      quoteId ? `FX quote ${quoteId} not found` : "FX quote not found",
+      404,
+      "FX_QUOTE_NOT_FOUND"
+    );
+  }
+}
+
+export class FxQuoteExpiredError extends AppError {
+  constructor(quoteId: string) {
+    super(`FX quote ${quoteId} has expired`, 409, "FX_QUOTE_EXPIRED");
+  }
+}
+
+export class FxQuoteAlreadyUsedError extends AppError {
+  constructor(quoteId: string) {
+    super(
+      `FX quote ${quoteId} has already been used`,
+      409,
+      "FX_QUOTE_ALREADY_USED"
+    );
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string = "Authentication required") {
+    super(message, 401, "UNAUTHORIZED");
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = "Access denied") {
+    super(message, 403, "FORBIDDEN");
+  }
+}
+
+export class ApiKeyNotFoundError extends AppError {
+  constructor(apiKeyId?: string) {
+    super(
+      apiKeyId ? `API key ${apiKeyId} not found` : "API key not found",
+      404,
+      "API_KEY_NOT_FOUND"
+    );
+  }
+}
+
+export class ApiKeyRevokedError extends AppError {
+  constructor(apiKeyId: string) {
+    super(`API key ${apiKeyId} has been revoked`, 409, "API_KEY_REVOKED");
+  }
+}
+
+export class RateLimitExceededError extends AppError {
+  constructor(public retryAfterSeconds: number) {
+    super(
+      `Rate limit exceeded, retry in ${retryAfterSeconds} seconds`,
+      429,
+      "RATE_LIMIT_EXCEEDED"
+    );
+  }
+}
+
+export class WebhookSubscriptionNotFoundError extends AppError {
+  constructor(subscriptionId?: string) {
+    super(
+      subscriptionId
+        ? `Webhook subscription ${subscriptionId} not found`
+        : "Webhook subscription not found",
+      404,
+      "WEBHOOK_SUBSCRIPTION_NOT_FOUND"
+    );
+  }
+}
+
+export class WebhookDeliveryNotFoundError extends AppError {
+  constructor(deliveryId?: string) {
+    super(
+      deliveryId
+        ? `Webhook delivery ${deliveryId} not found`
+        : "Webhook delivery not found",
+      404,
+      "WEBHOOK_DELIVERY_NOT_FOUND"
+    );
+  }
+}
+
+export class TransactionConflictError extends AppError {
+  constructor() {
+    super(
+      "The request conflicted with concurrent activity, please retry",
+      503,
+      "TRANSACTION_CONFLICT"
+    );
+  }
+}
+
+export class FeeScheduleNotFoundError extends AppError {
+  constructor(scheduleId?: string) {
+    super(
+      scheduleId
+        ? `Fee schedule ${scheduleId} not found`
+        : "Fee schedule not found",
+      404,
+      "FEE_SCHEDULE_NOT_FOUND"
+    );
+  }
+}
+
+export class LimitExceededError extends AppError {
+  constructor(
+    public limit: string,
+    public resetsAt: Date | null,
+    message: string
+  ) {
+    super(message, 400, "LIMIT_EXCEEDED");
+    this.details = { limit, resets_at: resetsAt };
+  }
+}
+
+export class SpendingLimitNotFoundError extends AppError {
+  constructor(limitId?: string) {
+    super(
+      limitId
+        ? `Spending limit ${limitId} not found`
+        : "Spending limit not found",
+      404,
+      "SPENDING_LIMIT_NOT_FOUND"
+    );
+  }
+}
+
+export class WalletFrozenError extends AppError {
+  constructor(walletId: string) {
+    super(`Wallet ${walletId} is frozen`, 409, "WALLET_FROZEN");
+  }
+}
+
+export class WalletDebitFrozenError extends AppError {
+  constructor(walletId: string) {
+    super(
+      `Wallet ${walletId} is frozen for outgoing funds`,
+      409,
+      "WALLET_DEBIT_FROZEN"
+    );
+  }
+}
+
+export class WalletClosedError extends AppError {
+  constructor(walletId: string) {
+    super(`Wallet ${walletId} is closed`, 409, "WALLET_CLOSED");
+  }
+}
+
+export class WalletNotEmptyError extends AppError {
+  constructor(message: string) {
+    super(message, 409, "WALLET_NOT_EMPTY");
+  }
+}
+
+export class DuplicateWalletLabelError extends AppError {
+  constructor(label: string) {
+    super(
+      `User already has a wallet labelled ${label}`,
+      409,
+      "DUPLICATE_WALLET_LABEL"
+    );
+  }
+}
+
+export class DuplicateClientReferenceError extends AppError {
+  constructor(clientReference: string, transferId?: string) {
+    super(
+      `Client reference ${clientReference} was already used by this wallet`,
+      409,
+      "DUPLICATE_CLIENT_REFERENCE"
+    );
+    if (transferId) {
+      this.details = { transfer_id: transferId };
+    }
+  }
+}
+
+export class HoldExpiredError extends AppError {
+  constructor(transferId: string) {
+    super(`Hold ${transferId} has expired`, 409, "HOLD_EXPIRED");
+  }
+}
+
+export class CaptureAmountExceededError extends AppError {
+  constructor(requested: number, authorized: number) {
+    super(
+      `Capture amount ${requested} exceeds authorized amount ${authorized}`,
+      400,
+      "CAPTURE_AMOUNT_EXCEEDED"
+    );
+  }
+}
+
+export class ScheduledTransferNotFoundError extends AppError {
+  constructor(scheduleId: string) {
+    super(
+      `Scheduled transfer ${scheduleId} not found`,
+      404,
+      "SCHEDULED_TRANSFER_NOT_FOUND"
+    );
+  }
+}
+
+export class InvalidScheduledTransferStateError extends AppError {
+  constructor(message: string) {
+    super(message, 409, "INVALID_SCHEDULED_TRANSFER_STATE");
+  }
+}
+
+export class TransferBatchNotFoundError extends AppError {
+  constructor(batchId: string) {
+    super(
+      `Transfer batch ${batchId} not found`,
+      404,
+      "TRANSFER_BATCH_NOT_FOUND"
+    );
+  }
+}
+
+export class PaymentRequestNotFoundError extends AppError {
+  constructor(requestId: string) {
+    super(
+      `Payment request ${requestId} not found`,
+      404,
+      "PAYMENT_REQUEST_NOT_FOUND"
+    );
+  }
+}
+
+export class InvalidPaymentRequestStateError extends AppError {
+  constructor(message: string) {
+    super(message, 409, "INVALID_PAYMENT_REQUEST_STATE");
+  }
+}
+
+export class PaymentRequestExpiredError extends AppError {
+  constructor(requestId: string) {
+    super(
+      `Payment request ${requestId} has expired`,
+      409,
+      "PAYMENT_REQUEST_EXPIRED"
+    );
+  }
+}
+
+export class WithdrawalNotFoundError extends AppError {
+  constructor(withdrawalId: string) {
+    super(`Withdrawal ${withdrawalId} not found`, 404, "WITHDRAWAL_NOT_FOUND");
+  }
+}
+
+export class InvalidWithdrawalStateError extends AppError {
+  constructor(message: string) {
+    super(message, 409, "INVALID_WITHDRAWAL_STATE");
+  }
+}
+
+/**
+ * Thrown by a payout provider that refuses a payout outright. Any other
+ * error from a provider is treated as transient and the payout is retried.
+ */
+export class PayoutRejectedError extends AppError {
+  constructor(message: string) {
+    super(message, 422, "PAYOUT_REJECTED");
+  }
+}
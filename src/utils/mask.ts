@@ -0,0 +1,12 @@
+/**
+ * Mask an email for display to other users, keeping the first character of
+ * the local part and the domain, e.g. "jane@example.com" => "j***@example.com"
+ */
+export function maskEmail(email: string): string {
+  const at = email.lastIndexOf("@");
+  if (at <= 0) {
+    return "***";
+  }
+
+  return `${email[0]}***${email.slice(at)}`;
+}
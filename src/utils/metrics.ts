@@ -0,0 +1,75 @@
+export type MetricLabels = Record<string, string>;
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/["\\\n]/g, "\\$&")}"`)
+    .join(",");
+}
+
+/**
+ * Monotonic counter, one series per distinct label set
+ */
+export class Counter {
+  private series = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + value);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+    ];
+    for (const [key, value] of this.series) {
+      lines.push(
+        key ? `${this.name}{${key}} ${value}` : `${this.name} ${value}`
+      );
+    }
+    return lines.join("\n");
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * In-process metrics, rendered in the Prometheus text format
+ */
+export class MetricsRegistry {
+  private counters = new Map<string, Counter>();
+
+  counter(name: string, help: string): Counter {
+    let counter = this.counters.get(name);
+    if (!counter) {
+      counter = new Counter(name, help);
+      this.counters.set(name, counter);
+    }
+    return counter;
+  }
+
+  render(): string {
+    return (
+      Array.from(this.counters.values())
+        .map((counter) => counter.render())
+        .join("\n\n") + "\n"
+    );
+  }
+
+  reset(): void {
+    for (const counter of this.counters.values()) {
+      counter.reset();
+    }
+  }
+}
+
+export const metrics = new MetricsRegistry();
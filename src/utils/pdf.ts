@@ -0,0 +1,156 @@
+/**
+ * Minimal streaming PDF 1.4 writer for text-only documents such as
+ * statements. Uses the standard Helvetica fonts, which every reader ships,
+ * so nothing has to be embedded and no native or network dependency is
+ * needed. Pages are written as they are added; only the page tree, catalog
+ * and cross-reference table are held back until end().
+ */
+
+/** A4 in points */
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  font?: PdfFont;
+  size?: number;
+  /** With "right", x is where the text ends */
+  align?: "left" | "right";
+}
+
+const CATALOG_ID = 1;
+const PAGES_ID = 2;
+const FONT_IDS: Record<PdfFont, number> = { regular: 3, bold: 4 };
+const FONT_NAMES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+const FONT_BASES: Record<PdfFont, string> = {
+  regular: "Helvetica",
+  bold: "Helvetica-Bold",
+};
+
+// Helvetica glyph widths in 1/1000 em. Figures and separators are exact (and
+// the same in the bold face), which is what right-aligned amounts need;
+// anything else falls back to the figure width.
+const GLYPH_WIDTHS: Record<string, number> = {
+  " ": 278,
+  ",": 278,
+  ".": 278,
+  "-": 333,
+  ":": 278,
+  "/": 278,
+};
+const DEFAULT_GLYPH_WIDTH = 556;
+
+/**
+ * Width of text in points at the given font size
+ */
+export function pdfTextWidth(text: string, size: number): number {
+  let units = 0;
+  for (const char of text) {
+    units += GLYPH_WIDTHS[char] ?? DEFAULT_GLYPH_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Encode text as a PDF string literal in WinAnsiEncoding. Characters the
+ * standard fonts cannot show become "?".
+ */
+function encodeText(text: string): string {
+  let encoded = "";
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === "\\" || char === "(" || char === ")") {
+      encoded += `\\${char}`;
+    } else if (char === "€") {
+      encoded += "\x80";
+    } else if ((code >= 32 && code < 127) || (code >= 160 && code <= 255)) {
+      encoded += char;
+    } else {
+      encoded += "?";
+    }
+  }
+  return `(${encoded})`;
+}
+
+export class PdfDocument {
+  private offset = 0;
+  private objectOffsets: number[] = [];
+  private pageIds: number[] = [];
+  private nextId = 5;
+
+  constructor(private write: (chunk: Buffer) => Promise<void>) {}
+
+  async begin(): Promise<void> {
+    // The comment of high-bit bytes marks the file as binary for transfer tools
+    await this.emit("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+
+    for (const font of ["regular", "bold"] as PdfFont[]) {
+      await this.writeObject(
+        FONT_IDS[font],
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_BASES[font]} /Encoding /WinAnsiEncoding >>`
+      );
+    }
+  }
+
+  async addPage(texts: PdfText[]): Promise<void> {
+    const content = texts
+      .map((t) => {
+        const font = t.font || "regular";
+        const size = t.size || 10;
+        const x =
+          t.align === "right" ? t.x - pdfTextWidth(t.text, size) : t.x;
+        return `BT /${FONT_NAMES[font]} ${size} Tf ${x.toFixed(2)} ${t.y.toFixed(2)} Td ${encodeText(t.text)} Tj ET`;
+      })
+      .join("\n");
+
+    const contentId = this.nextId++;
+    await this.writeObject(
+      contentId,
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`
+    );
+
+    const pageId = this.nextId++;
+    await this.writeObject(
+      pageId,
+      `<< /Type /Page /Parent ${PAGES_ID} 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << /F1 ${FONT_IDS.regular} 0 R /F2 ${FONT_IDS.bold} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    this.pageIds.push(pageId);
+  }
+
+  async end(): Promise<void> {
+    const kids = this.pageIds.map((id) => `${id} 0 R`).join(" ");
+    await this.writeObject(
+      PAGES_ID,
+      `<< /Type /Pages /Kids [${kids}] /Count ${this.pageIds.length} >>`
+    );
+    await this.writeObject(
+      CATALOG_ID,
+      `<< /Type /Catalog /Pages ${PAGES_ID} 0 R >>`
+    );
+
+    const xrefOffset = this.offset;
+    const size = this.nextId;
+    let xref = `xref\n0 ${size}\n0000000000 65535 f \n`;
+    for (let id = 1; id < size; id++) {
+      xref += `${String(this.objectOffsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    xref += `trailer\n<< /Size ${size} /Root ${CATALOG_ID} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    await this.emit(xref);
+  }
+
+  private async writeObject(id: number, body: string): Promise<void> {
+    this.objectOffsets[id] = this.offset;
+    await this.emit(`${id} 0 obj\n${body}\nendobj\n`);
+  }
+
+  private async emit(text: string): Promise<void> {
+    const chunk = Buffer.from(text, "latin1");
+    this.offset += chunk.length;
+    await this.write(chunk);
+  }
+}
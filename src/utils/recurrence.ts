@@ -0,0 +1,160 @@
+import { ValidationError } from "./errors";
+
+export const RECURRENCE_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+/**
+ * A parsed subset of an RFC 5545 RRULE: FREQ, INTERVAL and at most one of
+ * COUNT and UNTIL, e.g. FREQ=WEEKLY;INTERVAL=2;COUNT=10
+ */
+export interface Recurrence {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Number of occurrences, including the first */
+  count: number | null;
+  /** No occurrence falls after this instant */
+  until: Date | null;
+}
+
+const MAX_INTERVAL = 1000;
+const MAX_COUNT = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// UNTIL in RFC 5545 form: a UTC date or date-time, 20250131 or 20250131T090000Z
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/;
+
+function parsePositiveInteger(name: string, value: string, max: number) {
+  const parsed = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+
+  if (!(parsed >= 1 && parsed <= max)) {
+    throw new ValidationError(
+      `Recurrence ${name} must be an integer from 1 to ${max}`
+    );
+  }
+
+  return parsed;
+}
+
+function parseUntil(value: string): Date {
+  const match = UNTIL_PATTERN.exec(value);
+
+  if (match) {
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    // A bare date includes the whole day
+    const until = new Date(
+      match[4]
+        ? Date.UTC(year, month - 1, day, hour, minute, second)
+        : Date.UTC(year, month - 1, day, 23, 59, 59, 999)
+    );
+
+    // Date.UTC rolls 20250231 over into March; reject it instead
+    if (until.getUTCMonth() === month - 1 && until.getUTCDate() === day) {
+      return until;
+    }
+  }
+
+  throw new ValidationError(
+    "Recurrence UNTIL must be a UTC date such as 20250131 or 20250131T090000Z"
+  );
+}
+
+/**
+ * Parse a rule, rejecting anything outside the supported subset with a
+ * ValidationError
+ */
+export function parseRecurrence(rule: string): Recurrence {
+  const parts = new Map<string, string>();
+
+  for (const part of rule.split(";")) {
+    const [key, value, ...rest] = part.split("=");
+    const name = key.trim().toUpperCase();
+
+    if (!name || value === undefined || rest.length > 0 || parts.has(name)) {
+      throw new ValidationError(`Invalid recurrence rule: ${rule}`);
+    }
+
+    parts.set(name, value.trim().toUpperCase());
+  }
+
+  for (const name of parts.keys()) {
+    if (!["FREQ", "INTERVAL", "COUNT", "UNTIL"].includes(name)) {
+      throw new ValidationError(`Unsupported recurrence part: ${name}`);
+    }
+  }
+
+  const freq = parts.get("FREQ");
+
+  if (!freq || !(RECURRENCE_FREQUENCIES as readonly string[]).includes(freq)) {
+    throw new ValidationError(
+      `Recurrence FREQ must be one of ${RECURRENCE_FREQUENCIES.join(", ")}`
+    );
+  }
+
+  if (parts.has("COUNT") && parts.has("UNTIL")) {
+    throw new ValidationError("Recurrence cannot have both COUNT and UNTIL");
+  }
+
+  const interval = parts.get("INTERVAL");
+  const count = parts.get("COUNT");
+  const until = parts.get("UNTIL");
+
+  return {
+    freq: freq as RecurrenceFrequency,
+    interval: interval
+      ? parsePositiveInteger("INTERVAL", interval, MAX_INTERVAL)
+      : 1,
+    count: count ? parsePositiveInteger("COUNT", count, MAX_COUNT) : null,
+    until: until ? parseUntil(until) : null,
+  };
+}
+
+/**
+ * When the zero-based occurrence `index` of a schedule starting at `start`
+ * falls, or null when the rule ends before it. A null rule is a one-off with
+ * a single occurrence at start. Every occurrence is computed from start, so
+ * a monthly schedule on the 31st runs on the last day of shorter months and
+ * returns to the 31st afterwards. All arithmetic is in UTC.
+ */
+export function occurrenceAt(
+  start: Date,
+  rule: Recurrence | null,
+  index: number
+): Date | null {
+  if (!rule) {
+    return index === 0 ? start : null;
+  }
+
+  if (rule.count !== null && index >= rule.count) {
+    return null;
+  }
+
+  const steps = index * rule.interval;
+  let at: Date;
+
+  switch (rule.freq) {
+    case "DAILY":
+      at = new Date(start.getTime() + steps * DAY_MS);
+      break;
+    case "WEEKLY":
+      at = new Date(start.getTime() + steps * 7 * DAY_MS);
+      break;
+    case "MONTHLY": {
+      const year = start.getUTCFullYear();
+      const month = start.getUTCMonth() + steps;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      at = new Date(
+        Date.UTC(
+          year,
+          month,
+          Math.min(start.getUTCDate(), lastDay),
+          start.getUTCHours(),
+          start.getUTCMinutes(),
+          start.getUTCSeconds(),
+          start.getUTCMilliseconds()
+        )
+      );
+      break;
+    }
+  }
+
+  return rule.until && at > rule.until ? null : at;
+}
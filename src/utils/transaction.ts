@@ -0,0 +1,138 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/database";
+import { TransactionConflictError } from "./errors";
+import { metrics } from "./metrics";
+import { logger } from "./logger";
+
+export type IsolationLevel =
+  | "READ COMMITTED"
+  | "REPEATABLE READ"
+  | "SERIALIZABLE";
+
+export interface TransactionOptions {
+  /** Identifies the transaction in logs and metrics */
+  name: string;
+  isolationLevel?: IsolationLevel;
+  /** Refuse writes; set along with isolationLevel */
+  readOnly?: boolean;
+}
+
+// serialization_failure and deadlock_detected: the transaction did nothing
+// wrong and can succeed if run again
+const RETRYABLE_SQLSTATES = new Set(["40001", "40P01"]);
+
+export function isRetryableTransactionError(error: unknown): boolean {
+  return RETRYABLE_SQLSTATES.has((error as { code?: string })?.code ?? "");
+}
+
+const retries = metrics.counter(
+  "db_transaction_retries_total",
+  "Transactions retried after a serialization failure or deadlock"
+);
+const conflicts = metrics.counter(
+  "db_transaction_conflicts_total",
+  "Transactions that still conflicted after the last retry"
+);
+
+export class TransactionRunner {
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly retryMaxMs: number;
+
+  constructor(
+    private sleep: (ms: number) => Promise<void> = (ms) =>
+      new Promise((resolve) => setTimeout(resolve, ms)),
+    private random: () => number = Math.random
+  ) {
+    this.maxAttempts = parseInt(process.env.TX_MAX_ATTEMPTS || "5", 10);
+    this.retryBaseMs = parseInt(process.env.TX_RETRY_BASE_MS || "20", 10);
+    this.retryMaxMs = parseInt(process.env.TX_RETRY_MAX_MS || "1000", 10);
+  }
+
+  /**
+   * Run `work` inside BEGIN/COMMIT on a dedicated client. Serialization
+   * failures and deadlocks roll back and run `work` again from the start
+   * after a jittered backoff, so `work` must not have side effects outside
+   * the transaction. Any other error rolls back and is rethrown. Once the
+   * attempts are used up the caller gets a TransactionConflictError. A
+   * client whose rollback fails is discarded rather than returned to the
+   * pool, and the error that caused the rollback is the one rethrown.
+   */
+  async run<T>(
+    options: TransactionOptions,
+    work: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      let conflict: { code?: string } | null = null;
+      let brokenConnection: Error | undefined;
+      const client = await pool.connect();
+
+      try {
+        await client.query("BEGIN");
+        if (options.isolationLevel) {
+          await client.query(
+            `SET TRANSACTION ISOLATION LEVEL ${options.isolationLevel}${
+              options.readOnly ? " READ ONLY" : ""
+            }`
+          );
+        }
+
+        const result = await work(client);
+
+        await client.query("COMMIT");
+
+        return result;
+      } catch (error) {
+        try {
+          await client.query("ROLLBACK");
+        } catch (rollbackError) {
+          brokenConnection =
+            rollbackError instanceof Error
+              ? rollbackError
+              : new Error(String(rollbackError));
+          logger.error("Transaction rollback failed", {
+            transaction: options.name,
+            error: brokenConnection.message,
+          });
+          throw error;
+        }
+
+        if (!isRetryableTransactionError(error)) {
+          throw error;
+        }
+
+        conflict = error as { code?: string };
+      } finally {
+        client.release(brokenConnection);
+      }
+
+      if (attempt >= this.maxAttempts) {
+        conflicts.inc({ transaction: options.name });
+        logger.error("Transaction conflicted on every attempt", {
+          transaction: options.name,
+          attempts: attempt,
+          code: conflict.code,
+        });
+        throw new TransactionConflictError();
+      }
+
+      // Full jitter keeps contending clients from retrying in lockstep
+      const delayMs = Math.round(
+        this.random() *
+          Math.min(this.retryMaxMs, this.retryBaseMs * 2 ** (attempt - 1))
+      );
+
+      retries.inc({ transaction: options.name, code: conflict.code ?? "" });
+      logger.warn("Retrying transaction after conflict", {
+        transaction: options.name,
+        attempt,
+        code: conflict.code,
+        delayMs,
+      });
+
+      await this.sleep(delayMs);
+    }
+  }
+}
+
+export const transactionRunner = new TransactionRunner();
@@ -0,0 +1,28 @@
+import { LedgerDirection } from "../models/LedgerEntry";
+import { WalletStatus } from "../models/Wallet";
+import {
+  WalletClosedError,
+  WalletDebitFrozenError,
+  WalletFrozenError,
+} from "./errors";
+
+/**
+ * Throw if a wallet in `status` may not take a posting in `direction`.
+ * Frozen wallets take nothing, debit-frozen wallets only take credits.
+ */
+export function assertWalletAcceptsPosting(
+  walletId: string,
+  status: WalletStatus | undefined,
+  direction: LedgerDirection
+): void {
+  switch (status) {
+    case "closed":
+      throw new WalletClosedError(walletId);
+    case "frozen":
+      throw new WalletFrozenError(walletId);
+    case "debit_frozen":
+      if (direction === "debit") {
+        throw new WalletDebitFrozenError(walletId);
+      }
+  }
+}
@@ -0,0 +1,76 @@
+import { TransferService, transferService } from "../services/TransferService";
+import { logger } from "../utils/logger";
+
+/**
+ * Periodically marks lapsed holds as expired. A hold stops reserving funds
+ * the moment hold_expires_at passes whether or not this has run, so the
+ * interval only bounds how long a lapsed hold still reads as pending.
+ */
+export class HoldExpiryWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private transferService: TransferService,
+    private intervalMs: number,
+    private batchSize: number = 100
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    // Don't keep the process alive just for the sweep
+    this.timer.unref();
+
+    logger.info("Hold expiry worker started", {
+      intervalMs: this.intervalMs,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Expire every lapsed hold. Overlapping ticks are skipped while one is
+   * running.
+   */
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let total = 0;
+
+    try {
+      let expired: number;
+      do {
+        expired = (await this.transferService.expireHolds(this.batchSize))
+          .length;
+        total += expired;
+      } while (expired === this.batchSize);
+    } catch (error) {
+      logger.error("Hold expiry failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.running = false;
+    }
+
+    return total;
+  }
+}
+
+export const holdExpiryWorker = new HoldExpiryWorker(
+  transferService,
+  parseInt(process.env.HOLD_EXPIRY_INTERVAL_MS || "60000", 10)
+);
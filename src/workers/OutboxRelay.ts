@@ -0,0 +1,84 @@
+import { OutboxService, outboxService } from "../services/OutboxService";
+import { EventSink, createSinkFromEnv } from "../events/sinks";
+import { logger } from "../utils/logger";
+
+/**
+ * Polls the outbox and publishes new events to a sink, tracking progress as
+ * the sink's consumer offset. Publishing is at-least-once: a crash between
+ * publish and the offset commit resends the batch.
+ */
+export class OutboxRelay {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private outboxService: OutboxService,
+    private sink: EventSink,
+    private intervalMs: number,
+    private batchSize: number = 100
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    // Don't keep the process alive just for the poller
+    this.timer.unref();
+
+    logger.info("Outbox relay started", {
+      sink: this.sink.name,
+      intervalMs: this.intervalMs,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Publish everything available. Overlapping ticks are skipped while one is
+   * running.
+   */
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let total = 0;
+
+    try {
+      let published: number;
+      do {
+        published = await this.outboxService.consume(
+          this.sink.name,
+          this.batchSize,
+          (events) => this.sink.publish(events)
+        );
+        total += published;
+      } while (published === this.batchSize);
+    } catch (error) {
+      logger.error("Outbox relay failed", {
+        sink: this.sink.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.running = false;
+    }
+
+    return total;
+  }
+}
+
+export const outboxRelay = new OutboxRelay(
+  outboxService,
+  createSinkFromEnv(),
+  parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || "1000", 10)
+);
@@ -0,0 +1,84 @@
+import {
+  PaymentRequestService,
+  paymentRequestService,
+} from "../services/PaymentRequestService";
+import { logger } from "../utils/logger";
+
+/**
+ * Periodically marks lapsed payment requests as expired and publishes
+ * payment_request.expired. A request cannot be accepted once expires_at
+ * passes whether or not this has run, so the interval only bounds how late
+ * the event goes out. Accepts that died before recording their transfer are
+ * settled first, so their requests can expire too.
+ */
+export class PaymentRequestExpiryWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private paymentRequestService: PaymentRequestService,
+    private intervalMs: number,
+    private batchSize: number = 100
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    // Don't keep the process alive just for the sweep
+    this.timer.unref();
+
+    logger.info("Payment request expiry worker started", {
+      intervalMs: this.intervalMs,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Recover stale accepts, then expire every lapsed request. Overlapping
+   * ticks are skipped while one is running.
+   */
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let total = 0;
+
+    try {
+      await this.paymentRequestService.recoverStaleAccepts(this.batchSize);
+
+      let expired: number;
+      do {
+        expired = (
+          await this.paymentRequestService.expireRequests(this.batchSize)
+        ).length;
+        total += expired;
+      } while (expired === this.batchSize);
+    } catch (error) {
+      logger.error("Payment request expiry failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.running = false;
+    }
+
+    return total;
+  }
+}
+
+export const paymentRequestExpiryWorker = new PaymentRequestExpiryWorker(
+  paymentRequestService,
+  parseInt(process.env.PAYMENT_REQUEST_EXPIRY_INTERVAL_MS || "60000", 10)
+);
@@ -0,0 +1,78 @@
+import {
+  WithdrawalService,
+  withdrawalService,
+} from "../services/WithdrawalService";
+import { logger } from "../utils/logger";
+
+/**
+ * Polls for withdrawals whose payout is still to be submitted and submits
+ * them. Each payout is keyed by its withdrawal, so one submitted by a worker
+ * that died before recording the result is not paid twice when retried.
+ */
+export class PayoutWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private withdrawalService: WithdrawalService,
+    private intervalMs: number,
+    private batchSize: number = 10
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    // Don't keep the process alive just for the poller
+    this.timer.unref();
+
+    logger.info("Payout worker started", { intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Submit every due payout. Overlapping ticks are skipped while one is
+   * running.
+   */
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let total = 0;
+
+    try {
+      let claimed: number;
+      do {
+        claimed = await this.withdrawalService.submitDuePayouts(
+          this.batchSize
+        );
+        total += claimed;
+      } while (claimed === this.batchSize);
+    } catch (error) {
+      logger.error("Payout run failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.running = false;
+    }
+
+    return total;
+  }
+}
+
+export const payoutWorker = new PayoutWorker(
+  withdrawalService,
+  parseInt(process.env.PAYOUT_POLL_INTERVAL_MS || "5000", 10)
+);
@@ -0,0 +1,77 @@
+import {
+  ScheduledTransferService,
+  scheduledTransferService,
+} from "../services/ScheduledTransferService";
+import { logger } from "../utils/logger";
+
+/**
+ * Polls for due scheduled transfers and runs them through the transfer
+ * service. Each occurrence carries its own client_reference, so a crash
+ * mid-run never pays an occurrence twice.
+ */
+export class ScheduledTransferWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private scheduledTransferService: ScheduledTransferService,
+    private intervalMs: number,
+    private batchSize: number = 10
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    // Don't keep the process alive just for the poller
+    this.timer.unref();
+
+    logger.info("Scheduled transfer worker started", {
+      intervalMs: this.intervalMs,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run everything due. Overlapping ticks are skipped while one is running.
+   */
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let total = 0;
+
+    try {
+      let attempted: number;
+      do {
+        attempted = await this.scheduledTransferService.runDue(this.batchSize);
+        total += attempted;
+      } while (attempted === this.batchSize);
+    } catch (error) {
+      logger.error("Scheduled transfer run failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.running = false;
+    }
+
+    return total;
+  }
+}
+
+export const scheduledTransferWorker = new ScheduledTransferWorker(
+  scheduledTransferService,
+  parseInt(process.env.SCHEDULED_TRANSFER_POLL_INTERVAL_MS || "30000", 10)
+);
@@ -0,0 +1,80 @@
+import {
+  TransferBatchService,
+  transferBatchService,
+} from "../services/TransferBatchService";
+import { logger } from "../utils/logger";
+
+/**
+ * Polls for queued transfer batches and runs them. A batch and its item
+ * results commit together, so one interrupted mid-run is simply run again
+ * once its lease lapses.
+ */
+export class TransferBatchWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private transferBatchService: TransferBatchService,
+    private intervalMs: number,
+    private batchSize: number = 5
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    // Don't keep the process alive just for the poller
+    this.timer.unref();
+
+    logger.info("Transfer batch worker started", {
+      intervalMs: this.intervalMs,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every queued batch. Overlapping ticks are skipped while one is
+   * running.
+   */
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let total = 0;
+
+    try {
+      let claimed: number;
+      do {
+        claimed = await this.transferBatchService.processPending(
+          this.batchSize
+        );
+        total += claimed;
+      } while (claimed === this.batchSize);
+    } catch (error) {
+      logger.error("Transfer batch run failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.running = false;
+    }
+
+    return total;
+  }
+}
+
+export const transferBatchWorker = new TransferBatchWorker(
+  transferBatchService,
+  parseInt(process.env.TRANSFER_BATCH_POLL_INTERVAL_MS || "1000", 10)
+);
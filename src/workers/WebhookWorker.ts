@@ -0,0 +1,71 @@
+import { WebhookService, webhookService } from "../services/WebhookService";
+import { logger } from "../utils/logger";
+
+/**
+ * Polls the webhook outbox and sends due deliveries. Several instances can
+ * run side by side; each delivery is claimed by exactly one.
+ */
+export class WebhookWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private webhookService: WebhookService,
+    private intervalMs: number,
+    private batchSize: number = 10
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    // Don't keep the process alive just for the poller
+    this.timer.unref();
+
+    logger.info("Webhook worker started", { intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Drain due deliveries. Overlapping ticks are skipped while one is running.
+   */
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let total = 0;
+
+    try {
+      let dispatched: number;
+      do {
+        dispatched = await this.webhookService.dispatchDue(this.batchSize);
+        total += dispatched;
+      } while (dispatched === this.batchSize);
+    } catch (error) {
+      logger.error("Webhook dispatch failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.running = false;
+    }
+
+    return total;
+  }
+}
+
+export const webhookWorker = new WebhookWorker(
+  webhookService,
+  parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || "1000", 10)
+);
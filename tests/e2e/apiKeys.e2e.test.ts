@@ -0,0 +1,165 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: API keys", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let user: { id: string; walletId: string };
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    user = await createTestUser("merchant@example.com", "Merchant");
+  });
+
+  async function createKey(scopes: string[], rateLimitPerMinute?: number) {
+    const response = await request(app)
+      .post("/api/v1/api-keys")
+      .set("Authorization", adminAuthHeader())
+      .send({ name: "Payment processor", scopes, rateLimitPerMinute })
+      .expect(201);
+
+    return response.body;
+  }
+
+  function fund(key: string, ref: string) {
+    return request(app)
+      .post("/api/v1/transactions/fund")
+      .set("X-API-Key", key)
+      .send({ walletId: user.walletId, amount: 1000, externalPaymentRef: ref });
+  }
+
+  it("should only let admins manage keys", async () => {
+    await request(app)
+      .post("/api/v1/api-keys")
+      .set("Authorization", authHeader(user.id))
+      .send({ name: "Mine", scopes: ["funding:write"] })
+      .expect(403);
+  });
+
+  it("should return the key once and never list the secret", async () => {
+    const { api_key, key } = await createKey(["funding:write"]);
+
+    expect(key).toMatch(/^lwk_[0-9a-f]{12}_/);
+    expect(api_key.scopes).toEqual(["funding:write"]);
+
+    const list = await request(app)
+      .get("/api/v1/api-keys")
+      .set("Authorization", adminAuthHeader())
+      .expect(200);
+
+    expect(list.body.api_keys).toHaveLength(1);
+    expect(JSON.stringify(list.body)).not.toContain(key);
+  });
+
+  it("should reject scopes that cannot be granted to keys", async () => {
+    await request(app)
+      .post("/api/v1/api-keys")
+      .set("Authorization", adminAuthHeader())
+      .send({ name: "Too powerful", scopes: ["admin"] })
+      .expect(400);
+  });
+
+  it("should let a funding:write key fund any wallet and record its use", async () => {
+    const { api_key, key } = await createKey(["funding:write"]);
+
+    await fund(key, `payment-key-${Date.now()}`).expect(201);
+
+    const list = await request(app)
+      .get("/api/v1/api-keys")
+      .set("Authorization", adminAuthHeader())
+      .expect(200);
+
+    const listed = list.body.api_keys.find((k: any) => k.id === api_key.id);
+    expect(listed.last_used_at).not.toBeNull();
+  });
+
+  it("should forbid routes outside the key's scopes", async () => {
+    const { key } = await createKey(["funding:write"]);
+
+    await request(app)
+      .get("/api/v1/ledger/trial-balance")
+      .set("X-API-Key", key)
+      .expect(403);
+
+    await request(app)
+      .get("/api/v1/transactions")
+      .query({ walletId: user.walletId })
+      .set("X-API-Key", key)
+      .expect(403);
+  });
+
+  it("should let a ledger:read key read ledger reports but not repair", async () => {
+    const { key } = await createKey(["ledger:read"]);
+
+    await request(app)
+      .get("/api/v1/ledger/trial-balance")
+      .set("X-API-Key", key)
+      .expect(200);
+
+    await request(app)
+      .post("/api/v1/ledger/reconciliation")
+      .set("X-API-Key", key)
+      .expect(403);
+  });
+
+  it("should stop accepting the old key after rotation", async () => {
+    const { api_key, key } = await createKey(["funding:write"]);
+
+    const rotated = await request(app)
+      .post(`/api/v1/api-keys/${api_key.id}/rotate`)
+      .set("Authorization", adminAuthHeader())
+      .expect(200);
+
+    expect(rotated.body.key).not.toBe(key);
+
+    await fund(key, `payment-old-${Date.now()}`).expect(401);
+    await fund(rotated.body.key, `payment-new-${Date.now()}`).expect(201);
+  });
+
+  it("should reject revoked keys", async () => {
+    const { api_key, key } = await createKey(["funding:write"]);
+
+    const revoked = await request(app)
+      .post(`/api/v1/api-keys/${api_key.id}/revoke`)
+      .set("Authorization", adminAuthHeader())
+      .expect(200);
+
+    expect(revoked.body.api_key.revoked_at).not.toBeNull();
+
+    await fund(key, `payment-revoked-${Date.now()}`).expect(401);
+
+    const response = await request(app)
+      .post(`/api/v1/api-keys/${api_key.id}/rotate`)
+      .set("Authorization", adminAuthHeader())
+      .expect(409);
+
+    expect(response.body.error).toBe("API_KEY_REVOKED");
+  });
+
+  it("should enforce the per-key rate limit", async () => {
+    const { key } = await createKey(["funding:write"], 2);
+
+    await fund(key, `payment-rl-1-${Date.now()}`).expect(201);
+    await fund(key, `payment-rl-2-${Date.now()}`).expect(201);
+
+    const response = await fund(key, `payment-rl-3-${Date.now()}`).expect(429);
+
+    expect(response.body.error).toBe("RATE_LIMIT_EXCEEDED");
+    expect(Number(response.headers["retry-after"])).toBeGreaterThan(0);
+  });
+});
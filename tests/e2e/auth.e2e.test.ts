@@ -0,0 +1,197 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import jwt from "jsonwebtoken";
+import {
+  cleanupTestData,
+  createTestUser,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Authentication and authorization", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let alice: { id: string; walletId: string };
+  let bob: { id: string; walletId: string };
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    alice = await createTestUser("alice@example.com", "Alice");
+    bob = await createTestUser("bob@example.com", "Bob");
+
+    await request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .send({
+        walletId: alice.walletId,
+        amount: 10000,
+        externalPaymentRef: `payment-auth-${Date.now()}`,
+      })
+      .expect(201);
+  });
+
+  describe("authentication", () => {
+    it("should reject requests without a bearer token", async () => {
+      const response = await request(app)
+        .get(`/api/v1/wallets/${alice.id}/balance`)
+        .expect(401);
+
+      expect(response.body.error).toBe("UNAUTHORIZED");
+    });
+
+    it("should reject tokens signed with the wrong secret", async () => {
+      const token = jwt.sign({ sub: alice.id }, "not-the-secret", {
+        algorithm: "HS256",
+      });
+
+      const response = await request(app)
+        .get(`/api/v1/wallets/${alice.id}/balance`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(401);
+
+      expect(response.body.error).toBe("UNAUTHORIZED");
+    });
+
+    it("should leave sign-up and health checks public", async () => {
+      await request(app)
+        .post("/api/v1/users")
+        .send({ email: "carol@example.com", name: "Carol" })
+        .expect(201);
+
+      await request(app).get("/api/v1/health").expect(200);
+    });
+  });
+
+  describe("wallet ownership", () => {
+    it("should let the owner transfer from their wallet", async () => {
+      await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", authHeader(alice.id))
+        .send({
+          senderWalletId: alice.walletId,
+          receiverWalletId: bob.walletId,
+          amount: 2500,
+        })
+        .expect(201);
+    });
+
+    it("should forbid transfers from a wallet the caller does not own", async () => {
+      const response = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", authHeader(bob.id))
+        .send({
+          senderWalletId: alice.walletId,
+          receiverWalletId: bob.walletId,
+          amount: 2500,
+        })
+        .expect(403);
+
+      expect(response.body.error).toBe("FORBIDDEN");
+    });
+
+    it("should forbid reading another user's balance and history", async () => {
+      await request(app)
+        .get(`/api/v1/wallets/${alice.id}/balance`)
+        .set("Authorization", authHeader(bob.id))
+        .expect(403);
+
+      // Reported like an unregistered email so it can't be probed
+      const byEmail = await request(app)
+        .get("/api/v1/wallets/balance/by-email/alice@example.com")
+        .set("Authorization", authHeader(bob.id))
+        .expect(404);
+      const unknown = await request(app)
+        .get("/api/v1/wallets/balance/by-email/nobody@example.com")
+        .set("Authorization", authHeader(bob.id))
+        .expect(404);
+      expect(byEmail.body.error).toBe(unknown.body.error);
+
+      await request(app)
+        .get("/api/v1/transactions")
+        .query({ walletId: alice.walletId })
+        .set("Authorization", authHeader(bob.id))
+        .expect(403);
+    });
+
+    it("should let the owner read their own balance and history", async () => {
+      const balance = await request(app)
+        .get(`/api/v1/wallets/${alice.id}/balance`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(balance.body.balance).toBe(10000);
+
+      await request(app)
+        .get("/api/v1/transactions")
+        .query({ walletId: alice.walletId })
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+    });
+
+    it("should let admin tokens act on any wallet", async () => {
+      await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .send({
+          senderWalletId: alice.walletId,
+          receiverWalletId: bob.walletId,
+          amount: 2500,
+        })
+        .expect(201);
+    });
+  });
+
+  describe("back-office routes", () => {
+    it("should require the admin scope", async () => {
+      await request(app)
+        .get("/api/v1/users")
+        .set("Authorization", authHeader(alice.id))
+        .expect(403);
+
+      await request(app)
+        .get("/api/v1/ledger/trial-balance")
+        .set("Authorization", authHeader(alice.id))
+        .expect(403);
+
+      await request(app)
+        .get("/api/v1/ledger/trial-balance")
+        .set("Authorization", adminAuthHeader())
+        .expect(200);
+    });
+
+    it("should only let admins reverse transfers", async () => {
+      const transfer = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", authHeader(alice.id))
+        .send({
+          senderWalletId: alice.walletId,
+          receiverWalletId: bob.walletId,
+          amount: 2500,
+        })
+        .expect(201);
+
+      const transferId = transfer.body.transfer.id;
+
+      await request(app)
+        .post(`/api/v1/transactions/transfer/${transferId}/reverse`)
+        .set("Authorization", authHeader(bob.id))
+        .send({})
+        .expect(403);
+
+      await request(app)
+        .post(`/api/v1/transactions/transfer/${transferId}/reverse`)
+        .set("Authorization", adminAuthHeader())
+        .send({})
+        .expect(201);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  getWalletBalance,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Fees", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let sender: { id: string; walletId: string };
+  let receiver: { id: string; walletId: string };
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    sender = await createTestUser("fee-sender@example.com", "Fee Sender");
+    receiver = await createTestUser("fee-receiver@example.com", "Fee Receiver");
+
+    await request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .set("Idempotency-Key", `fund-fees-${Date.now()}`)
+      .send({
+        walletId: sender.walletId,
+        amount: 10000,
+        externalPaymentRef: `payment-fees-${Date.now()}-${Math.random()}`,
+      })
+      .expect(201);
+  });
+
+  function saveSchedule(body: Record<string, unknown>) {
+    return request(app)
+      .put("/api/v1/fees/schedules")
+      .set("Authorization", adminAuthHeader())
+      .send(body);
+  }
+
+  function transfer(amount: number, key: string) {
+    return request(app)
+      .post("/api/v1/transactions/transfer")
+      .set("Authorization", authHeader(sender.id))
+      .set("Idempotency-Key", key)
+      .send({
+        senderWalletId: sender.walletId,
+        receiverWalletId: receiver.walletId,
+        amount,
+      });
+  }
+
+  it("should only let admins manage fee schedules", async () => {
+    await request(app)
+      .get("/api/v1/fees/schedules")
+      .set("Authorization", authHeader(sender.id))
+      .expect(403);
+  });
+
+  it("should reject percentage rules whose min exceeds max", async () => {
+    const response = await saveSchedule({
+      operation: "transfer",
+      currency: "USD",
+      rule: { type: "percentage", basis_points: 100, min: 500, max: 100 },
+    }).expect(400);
+
+    expect(response.body.error).toBe("VALIDATION_ERROR");
+  });
+
+  it("should quote and charge the fee into the fee revenue wallet", async () => {
+    await saveSchedule({
+      operation: "transfer",
+      currency: "USD",
+      rule: { type: "percentage", basis_points: 100, min: 25, max: 500 },
+    }).expect(200);
+
+    const quote = await request(app)
+      .post("/api/v1/transactions/transfer/quote")
+      .set("Authorization", authHeader(sender.id))
+      .send({
+        senderWalletId: sender.walletId,
+        receiverWalletId: receiver.walletId,
+        amount: 5000,
+      })
+      .expect(200);
+
+    expect(quote.body.quote).toEqual({
+      amount: 5000,
+      currency: "USD",
+      fee_amount: 50,
+      total_debit: 5050,
+    });
+
+    const response = await transfer(5000, `transfer-fees-${Date.now()}`).expect(
+      201
+    );
+
+    expect(response.body.transfer.fee_amount).toBe(50);
+    expect(await getWalletBalance(sender.walletId)).toBe(4950);
+    expect(await getWalletBalance(receiver.walletId)).toBe(5000);
+
+    const history = await request(app)
+      .get(`/api/v1/transactions?walletId=${sender.walletId}`)
+      .set("Authorization", authHeader(sender.id))
+      .expect(200);
+
+    const fee = history.body.transactions.find((t: any) => t.type === "fee");
+    expect(fee).toMatchObject({
+      amount: 50,
+      direction: "debit",
+      transfer_id: response.body.transfer.id,
+    });
+
+    const trialBalance = await request(app)
+      .get("/api/v1/ledger/trial-balance")
+      .set("Authorization", adminAuthHeader())
+      .expect(200);
+
+    const revenue = trialBalance.body.accounts.find(
+      (a: any) => a.system_code === "fee_revenue" && a.currency === "USD"
+    );
+    expect(revenue.balance).toBe(50);
+  });
+
+  it("should prefer the schedule for the sender's tier", async () => {
+    await saveSchedule({
+      operation: "transfer",
+      currency: "USD",
+      rule: { type: "flat", amount: 100 },
+    }).expect(200);
+    await saveSchedule({
+      operation: "transfer",
+      tier: "premium",
+      currency: "USD",
+      rule: { type: "flat", amount: 0 },
+    }).expect(200);
+
+    await request(app)
+      .put(`/api/v1/users/${sender.id}/tier`)
+      .set("Authorization", adminAuthHeader())
+      .send({ tier: "premium" })
+      .expect(200);
+
+    const response = await transfer(1000, `transfer-tier-${Date.now()}`).expect(
+      201
+    );
+
+    expect(response.body.transfer.fee_amount).toBe(0);
+    expect(await getWalletBalance(sender.walletId)).toBe(9000);
+  });
+
+  it("should reject transfers the balance cannot cover with the fee", async () => {
+    await saveSchedule({
+      operation: "transfer",
+      currency: "USD",
+      rule: { type: "flat", amount: 1 },
+    }).expect(200);
+
+    const response = await transfer(
+      10000,
+      `transfer-short-${Date.now()}`
+    ).expect(400);
+
+    expect(response.body.error).toBe("INSUFFICIENT_BALANCE");
+    expect(await getWalletBalance(sender.walletId)).toBe(10000);
+  });
+});
@@ -1,3 +1,5 @@
+import jwt from "jsonwebtoken";
+
 // Import app's pool dynamically to ensure it uses test database config
 // IMPORTANT: We need to use the SAME pool instance that the services use
 // Cache the pool but refresh it when module cache is cleared
@@ -12,12 +14,43 @@ async function getAppPool() {
   return cachedPool;
 }
 
+/**
+ * Helper to build a Bearer header for the given subject
+ * Signed with the HS256 secret set in setup.ts
+ */
+export function authHeader(
+  userId: string,
+  options: { scopes?: string[]; type?: "user" | "service" } = {}
+): string {
+  const token = jwt.sign(
+    {
+      sub: userId,
+      type: options.type || "user",
+      scope: (options.scopes || []).join(" "),
+    },
+    process.env.JWT_SECRET!,
+    { algorithm: "HS256", expiresIn: "5m" }
+  );
+  return `Bearer ${token}`;
+}
+
+/**
+ * Helper to build a Bearer header for a back-office service token
+ */
+export function adminAuthHeader(): string {
+  return authHeader("e2e-back-office", { scopes: ["admin"], type: "service" });
+}
+
 /**
  * Helper to create a test user and wallet
  * Returns both user and wallet ID
  * Uses app's pool to ensure data is visible to the app
  */
-export async function createTestUser(email: string, name: string) {
+export async function createTestUser(
+  email: string,
+  name: string,
+  currency: string = "USD"
+) {
   const pool = await getAppPool();
   const client = await pool.connect();
   try {
@@ -33,12 +66,12 @@ export async function createTestUser(email: string, name: string) {
 
     const user = userResult.rows[0];
 
-    // Create wallet for user and return the wallet ID
+    // Create the user's default wallet and return the wallet ID
     const walletResult = await client.query(
-      `INSERT INTO wallets (user_id)
-       VALUES ($1)
+      `INSERT INTO wallets (user_id, label, is_default, currency)
+       VALUES ($1, 'main', true, $2)
        RETURNING id`,
-      [user.id]
+      [user.id, currency]
     );
 
     const walletId = walletResult.rows[0].id;
@@ -54,14 +87,15 @@ export async function createTestUser(email: string, name: string) {
 }
 
 /**
- * Helper to get a user's wallet ID
+ * Helper to get a user's default wallet ID
  * Uses app's pool to ensure consistency
  */
 export async function getWalletId(userId: string) {
   const pool = await getAppPool();
-  const result = await pool.query("SELECT id FROM wallets WHERE user_id = $1", [
-    userId,
-  ]);
+  const result = await pool.query(
+    "SELECT id FROM wallets WHERE user_id = $1 AND is_default",
+    [userId]
+  );
   return result.rows[0]?.id;
 }
 
@@ -82,6 +116,66 @@ export async function getWalletBalance(walletId: string): Promise<number> {
   return parseInt(result.rows[0]?.balance || "0", 10);
 }
 
+/**
+ * Helper to make a hold lapse now instead of waiting for it
+ * Uses app's pool to ensure consistency
+ */
+export async function expireHold(transferId: string): Promise<void> {
+  const pool = await getAppPool();
+  await pool.query(
+    "UPDATE transfers SET hold_expires_at = NOW() - INTERVAL '1 second' WHERE id = $1",
+    [transferId]
+  );
+}
+
+/**
+ * Helper to make a schedule's next occurrence due now, then run every due
+ * schedule the way the scheduler worker would
+ */
+export async function runScheduleNow(scheduleId: string): Promise<void> {
+  const pool = await getAppPool();
+  await pool.query(
+    "UPDATE scheduled_transfers SET next_run_at = NOW() - INTERVAL '1 second' WHERE id = $1",
+    [scheduleId]
+  );
+  const { scheduledTransferService } = await import(
+    "../../src/services/ScheduledTransferService"
+  );
+  await scheduledTransferService.runDue();
+}
+
+/**
+ * Helper to make a payment request lapse now instead of waiting for it
+ * Uses app's pool to ensure consistency
+ */
+export async function expirePaymentRequest(requestId: string): Promise<void> {
+  const pool = await getAppPool();
+  await pool.query(
+    "UPDATE payment_requests SET expires_at = NOW() - INTERVAL '1 second' WHERE id = $1",
+    [requestId]
+  );
+}
+
+/**
+ * Helper to run every queued transfer batch the way the batch worker would
+ */
+export async function processTransferBatches(): Promise<void> {
+  const { transferBatchService } = await import(
+    "../../src/services/TransferBatchService"
+  );
+  await transferBatchService.processPending(100);
+}
+
+/**
+ * Helper to submit every due payout the way the payout worker would
+ */
+export async function submitDuePayouts(): Promise<number> {
+  const { withdrawalService } = await import(
+    "../../src/services/WithdrawalService"
+  );
+  return withdrawalService.submitDuePayouts(100);
+}
+
 /**
  * Helper to count ledger entries for a wallet
  * Uses app's pool to ensure consistency
@@ -109,9 +203,26 @@ export async function cleanupTestData() {
     // CASCADE ensures foreign key constraints are handled automatically
     // RESTART IDENTITY resets auto-increment sequences
     const tables = [
+      "event_consumer_offsets",
+      "outbox_events",
+      "webhook_deliveries",
+      "webhook_subscriptions",
+      "wallet_balances",
       "ledger_entries",
+      "journals",
+      "scheduled_transfers",
+      "payment_requests",
+      "withdrawals",
+      "transfer_batch_items",
+      "transfer_batches",
+      "transfer_reversals",
       "transfers",
+      "fx_quotes",
+      "fee_schedules",
+      "spending_limits",
       "idempotency_keys",
+      "api_keys",
+      "wallet_status_changes",
       "wallets",
       "users",
     ];
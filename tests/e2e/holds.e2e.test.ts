@@ -0,0 +1,234 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  countLedgerEntries,
+  expireHold,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Holds API", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let alice: { id: string; walletId: string };
+  let bob: { id: string; walletId: string };
+  let carol: { id: string; walletId: string };
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    alice = await createTestUser("alice@example.com", "Alice");
+    bob = await createTestUser("bob@example.com", "Bob");
+    carol = await createTestUser("carol@example.com", "Carol");
+
+    await request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .set("Idempotency-Key", `fund-holds-${alice.id}`)
+      .send({
+        walletId: alice.walletId,
+        amount: 10000,
+        externalPaymentRef: `payment-holds-${alice.id}`,
+      })
+      .expect(201);
+  });
+
+  function placeHold(amount: number, extra: Record<string, unknown> = {}) {
+    return request(app)
+      .post("/api/v1/transactions/holds")
+      .set("Authorization", authHeader(alice.id))
+      .set("Idempotency-Key", `hold-${Date.now()}-${Math.random()}`)
+      .send({
+        senderWalletId: alice.walletId,
+        receiverWalletId: bob.walletId,
+        amount,
+        ...extra,
+      });
+  }
+
+  function balanceOf(userId: string) {
+    return request(app)
+      .get(`/api/v1/wallets/${userId}/balance`)
+      .set("Authorization", authHeader(userId))
+      .expect(200);
+  }
+
+  function capture(holdId: string, body: Record<string, unknown> = {}) {
+    return request(app)
+      .post(`/api/v1/transactions/holds/${holdId}/capture`)
+      .set("Authorization", authHeader(bob.id))
+      .set("Idempotency-Key", `capture-${Date.now()}-${Math.random()}`)
+      .send(body);
+  }
+
+  describe("POST /api/v1/transactions/holds", () => {
+    it("should reserve funds without touching the ledger balance", async () => {
+      const response = await placeHold(4000, { expiresInSeconds: 600 }).expect(
+        201
+      );
+
+      expect(response.body.transfer).toMatchObject({
+        status: "pending",
+        amount: 4000,
+        authorized_amount: 4000,
+      });
+      expect(
+        new Date(response.body.transfer.hold_expires_at).getTime()
+      ).toBeGreaterThan(Date.now());
+
+      const balance = await balanceOf(alice.id);
+      expect(balance.body).toMatchObject({
+        balance: 10000,
+        ledger_balance: 10000,
+        available_balance: 6000,
+      });
+      expect(await countLedgerEntries(alice.walletId)).toBe(1);
+    });
+
+    it("should stop transfers from spending held funds", async () => {
+      await placeHold(8000).expect(201);
+
+      const response = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", authHeader(alice.id))
+        .set("Idempotency-Key", `transfer-holds-${Date.now()}`)
+        .send({
+          senderWalletId: alice.walletId,
+          receiverWalletId: carol.walletId,
+          amount: 3000,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe("INSUFFICIENT_BALANCE");
+    });
+
+    it("should reject a hold larger than the available balance", async () => {
+      await placeHold(6000).expect(201);
+
+      const response = await placeHold(6000).expect(400);
+
+      expect(response.body.error).toBe("INSUFFICIENT_BALANCE");
+    });
+
+    it("should return 403 when the caller does not own the sender wallet", async () => {
+      await request(app)
+        .post("/api/v1/transactions/holds")
+        .set("Authorization", authHeader(carol.id))
+        .set("Idempotency-Key", `hold-forbidden-${Date.now()}`)
+        .send({
+          senderWalletId: alice.walletId,
+          receiverWalletId: bob.walletId,
+          amount: 1000,
+        })
+        .expect(403);
+    });
+  });
+
+  describe("POST /api/v1/transactions/holds/:id/capture", () => {
+    it("should complete the hold for its full amount", async () => {
+      const hold = await placeHold(4000).expect(201);
+
+      const response = await capture(hold.body.transfer.id).expect(200);
+
+      expect(response.body.transfer).toMatchObject({
+        id: hold.body.transfer.id,
+        status: "completed",
+        amount: 4000,
+      });
+      expect((await balanceOf(alice.id)).body).toMatchObject({
+        ledger_balance: 6000,
+        available_balance: 6000,
+      });
+      expect((await balanceOf(bob.id)).body.ledger_balance).toBe(4000);
+    });
+
+    it("should capture part of the hold and release the rest", async () => {
+      const hold = await placeHold(4000).expect(201);
+
+      const response = await capture(hold.body.transfer.id, {
+        amount: 2500,
+      }).expect(200);
+
+      expect(response.body.transfer).toMatchObject({
+        amount: 2500,
+        authorized_amount: 4000,
+        status: "completed",
+      });
+      expect((await balanceOf(alice.id)).body).toMatchObject({
+        ledger_balance: 7500,
+        available_balance: 7500,
+      });
+    });
+
+    it("should reject capturing more than authorized", async () => {
+      const hold = await placeHold(4000).expect(201);
+
+      const response = await capture(hold.body.transfer.id, {
+        amount: 4001,
+      }).expect(400);
+
+      expect(response.body.error).toBe("CAPTURE_AMOUNT_EXCEEDED");
+    });
+
+    it("should reject capturing an expired hold and release its funds", async () => {
+      const hold = await placeHold(4000).expect(201);
+      await expireHold(hold.body.transfer.id);
+
+      const response = await capture(hold.body.transfer.id).expect(409);
+
+      expect(response.body.error).toBe("HOLD_EXPIRED");
+      expect((await balanceOf(alice.id)).body.available_balance).toBe(10000);
+    });
+
+    it("should only let the receiver capture", async () => {
+      const hold = await placeHold(4000).expect(201);
+
+      await request(app)
+        .post(`/api/v1/transactions/holds/${hold.body.transfer.id}/capture`)
+        .set("Authorization", authHeader(alice.id))
+        .set("Idempotency-Key", `capture-forbidden-${Date.now()}`)
+        .send({})
+        .expect(403);
+    });
+  });
+
+  describe("POST /api/v1/transactions/holds/:id/void", () => {
+    it("should release the funds and refuse a later capture", async () => {
+      const hold = await placeHold(4000).expect(201);
+
+      const response = await request(app)
+        .post(`/api/v1/transactions/holds/${hold.body.transfer.id}/void`)
+        .set("Authorization", authHeader(alice.id))
+        .set("Idempotency-Key", `void-${Date.now()}`)
+        .send({})
+        .expect(200);
+
+      expect(response.body.transfer.status).toBe("voided");
+      expect((await balanceOf(alice.id)).body.available_balance).toBe(10000);
+
+      const captured = await capture(hold.body.transfer.id).expect(409);
+      expect(captured.body.error).toBe("INVALID_TRANSFER_STATE");
+    });
+
+    it("should return 403 to a user on neither side", async () => {
+      const hold = await placeHold(4000).expect(201);
+
+      await request(app)
+        .post(`/api/v1/transactions/holds/${hold.body.transfer.id}/void`)
+        .set("Authorization", authHeader(carol.id))
+        .set("Idempotency-Key", `void-forbidden-${Date.now()}`)
+        .send({})
+        .expect(403);
+    });
+  });
+});
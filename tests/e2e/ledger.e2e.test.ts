@@ -0,0 +1,95 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Ledger API", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+  let wallet1Id: string;
+  let wallet2Id: string;
+
+  beforeEach(async () => {
+    await cleanupTestData();
+
+    const user1 = await createTestUser("ledger1@example.com", "Ledger 1");
+    const user2 = await createTestUser("ledger2@example.com", "Ledger 2");
+    wallet1Id = user1.walletId;
+    wallet2Id = user2.walletId;
+  });
+
+  describe("GET /api/v1/ledger/trial-balance", () => {
+    it("should net to zero after funding and transfers", async () => {
+      await request(app)
+        .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `fund-ledger-${Date.now()}`)
+        .send({
+          walletId: wallet1Id,
+          amount: 10000,
+          externalPaymentRef: `payment-ledger-${Date.now()}-${Math.random()}`,
+        })
+        .expect(201);
+
+      await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `transfer-ledger-${Date.now()}`)
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 4000,
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .get("/api/v1/ledger/trial-balance")
+        .set("Authorization", adminAuthHeader())
+        .expect(200);
+
+      const usd = response.body.totals.find((t: any) => t.currency === "USD");
+      expect(usd.debits).toBe(14000);
+      expect(usd.credits).toBe(14000);
+      expect(usd.net).toBe(0);
+
+      const clearing = response.body.accounts.find(
+        (a: any) => a.system_code === "external_funding_clearing"
+      );
+      expect(clearing.balance).toBe(-10000);
+    });
+  });
+
+  describe("GET /api/v1/ledger/reconciliation", () => {
+    it("should report no drift when balances were maintained by postings", async () => {
+      await request(app)
+        .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `fund-reconcile-${Date.now()}`)
+        .send({
+          walletId: wallet1Id,
+          amount: 2500,
+          externalPaymentRef: `payment-reconcile-${Date.now()}-${Math.random()}`,
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .get("/api/v1/ledger/reconciliation")
+        .set("Authorization", adminAuthHeader())
+        .expect(200);
+
+      expect(response.body.consistent).toBe(true);
+      expect(response.body.drifts).toEqual([]);
+    });
+  });
+});
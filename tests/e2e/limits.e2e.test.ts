@@ -0,0 +1,121 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  getWalletBalance,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Spending limits", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let sender: { id: string; walletId: string };
+  let receiver: { id: string; walletId: string };
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    sender = await createTestUser("limit-sender@example.com", "Limit Sender");
+    receiver = await createTestUser("limit-receiver@example.com", "Receiver");
+
+    await request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .set("Idempotency-Key", `fund-limits-${Date.now()}`)
+      .send({
+        walletId: sender.walletId,
+        amount: 100000,
+        externalPaymentRef: `payment-limits-${Date.now()}-${Math.random()}`,
+      })
+      .expect(201);
+  });
+
+  function transfer(amount: number) {
+    return request(app)
+      .post("/api/v1/transactions/transfer")
+      .set("Authorization", authHeader(sender.id))
+      .set("Idempotency-Key", `transfer-limits-${Date.now()}-${Math.random()}`)
+      .send({
+        senderWalletId: sender.walletId,
+        receiverWalletId: receiver.walletId,
+        amount,
+      });
+  }
+
+  it("should only let admins manage limits", async () => {
+    await request(app)
+      .put(`/api/v1/limits/wallets/${sender.walletId}`)
+      .set("Authorization", authHeader(sender.id))
+      .send({ daily_amount: 1 })
+      .expect(403);
+  });
+
+  it("should enforce the tier's daily limit and report what is left", async () => {
+    await request(app)
+      .put("/api/v1/limits/tiers/standard/usd")
+      .set("Authorization", adminAuthHeader())
+      .send({ daily_amount: 30000 })
+      .expect(200);
+
+    await transfer(20000).expect(201);
+
+    const limits = await request(app)
+      .get(`/api/v1/wallets/${sender.walletId}/limits`)
+      .set("Authorization", authHeader(sender.id))
+      .expect(200);
+
+    expect(limits.body.source).toBe("tier");
+    expect(limits.body.usage).toEqual([
+      expect.objectContaining({
+        limit: "daily_amount",
+        max: 30000,
+        used: 20000,
+        remaining: 10000,
+      }),
+    ]);
+
+    const response = await transfer(10001).expect(400);
+
+    expect(response.body.error).toBe("LIMIT_EXCEEDED");
+    expect(response.body.details.limit).toBe("daily_amount");
+    expect(new Date(response.body.details.resets_at).getTime()).toBeGreaterThan(
+      Date.now()
+    );
+    expect(await getWalletBalance(sender.walletId)).toBe(80000);
+  });
+
+  it("should let a wallet limit override the tier default", async () => {
+    await request(app)
+      .put("/api/v1/limits/tiers/standard/USD")
+      .set("Authorization", adminAuthHeader())
+      .send({ max_single_amount: 1000 })
+      .expect(200);
+    await request(app)
+      .put(`/api/v1/limits/wallets/${sender.walletId}`)
+      .set("Authorization", adminAuthHeader())
+      .send({ max_transfer_count: 1, count_window_seconds: 3600 })
+      .expect(200);
+
+    await transfer(5000).expect(201);
+
+    const response = await transfer(1).expect(400);
+    expect(response.body.details.limit).toBe("max_transfer_count");
+  });
+
+  it("should not let other users read a wallet's limits", async () => {
+    await request(app)
+      .get(`/api/v1/wallets/${sender.walletId}/limits`)
+      .set("Authorization", authHeader(receiver.id))
+      .expect(403);
+  });
+});
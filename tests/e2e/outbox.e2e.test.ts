@@ -0,0 +1,117 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import { cleanupTestData, adminAuthHeader } from "./helpers";
+
+describe("E2E: Outbox events", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+  });
+
+  // Load the service after setup.ts has pointed the pool at the test database
+  async function getOutboxService() {
+    const { outboxService } = await import("../../src/services/OutboxService");
+    return outboxService;
+  }
+
+  async function signUp(email: string, name: string) {
+    const response = await request(app)
+      .post("/api/v1/users")
+      .send({ email, name })
+      .expect(201);
+
+    return { id: response.body.user.id, walletId: response.body.wallet.id };
+  }
+
+  async function drain(consumer: string) {
+    const outboxService = await getOutboxService();
+    const received: any[] = [];
+    await outboxService.consume(consumer, 100, async (events) => {
+      received.push(...events);
+    });
+    return received;
+  }
+
+  it("should record events for committed user creation, funding and transfers", async () => {
+    const sender = await signUp("sender@example.com", "Sender");
+    const receiver = await signUp("receiver@example.com", "Receiver");
+
+    await request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .send({
+        walletId: sender.walletId,
+        amount: 5000,
+        externalPaymentRef: `payment-outbox-${Date.now()}`,
+      })
+      .expect(201);
+
+    const transfer = await request(app)
+      .post("/api/v1/transactions/transfer")
+      .set("Authorization", adminAuthHeader())
+      .send({
+        senderWalletId: sender.walletId,
+        receiverWalletId: receiver.walletId,
+        amount: 2000,
+      })
+      .expect(201);
+
+    const events = await drain("e2e-consumer");
+
+    expect(events.map((e) => e.event_type)).toEqual([
+      "user.created",
+      "user.created",
+      "wallet.funded",
+      "transfer.completed",
+    ]);
+    expect(events[3].aggregate_id).toBe(transfer.body.transfer.id);
+
+    // Positions increase, and the consumer does not see them twice
+    const positions = events.map((e) => e.position);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+    expect(await drain("e2e-consumer")).toHaveLength(0);
+  });
+
+  it("should not record events for rolled-back transfers", async () => {
+    const sender = await signUp("broke@example.com", "Broke");
+    const receiver = await signUp("payee@example.com", "Payee");
+
+    await request(app)
+      .post("/api/v1/transactions/transfer")
+      .set("Authorization", adminAuthHeader())
+      .send({
+        senderWalletId: sender.walletId,
+        receiverWalletId: receiver.walletId,
+        amount: 100,
+      })
+      .expect(400);
+
+    const events = await drain("e2e-consumer");
+    expect(events.map((e) => e.event_type)).toEqual([
+      "user.created",
+      "user.created",
+    ]);
+  });
+
+  it("should replay events after an offset reset", async () => {
+    await signUp("replay@example.com", "Replay");
+
+    expect(await drain("e2e-replay")).toHaveLength(1);
+    expect(await drain("e2e-replay")).toHaveLength(0);
+
+    const outboxService = await getOutboxService();
+    await outboxService.resetOffset("e2e-replay", 0);
+
+    expect(await drain("e2e-replay")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,242 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  getWalletBalance,
+  expirePaymentRequest,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Payment Requests API", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let alice: { id: string; walletId: string };
+  let bob: { id: string; walletId: string };
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    alice = await createTestUser("alice@example.com", "Alice");
+    bob = await createTestUser("bob@example.com", "Bob");
+
+    await request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .set("Idempotency-Key", `fund-requests-${bob.id}`)
+      .send({
+        walletId: bob.walletId,
+        amount: 10000,
+        externalPaymentRef: `payment-requests-${bob.id}`,
+      })
+      .expect(201);
+  });
+
+  // Alice asks Bob to pay her
+  function requestMoney(body: Record<string, unknown> = {}) {
+    return request(app)
+      .post("/api/v1/payment-requests")
+      .set("Authorization", authHeader(alice.id))
+      .set("Idempotency-Key", `request-${Date.now()}-${Math.random()}`)
+      .send({
+        requesterWalletId: alice.walletId,
+        payerWalletId: bob.walletId,
+        amount: 3000,
+        memo: "Dinner",
+        ...body,
+      });
+  }
+
+  function act(userId: string, requestId: string, action: string) {
+    return request(app)
+      .post(`/api/v1/payment-requests/${requestId}/${action}`)
+      .set("Authorization", authHeader(userId))
+      .set("Idempotency-Key", `${action}-${requestId}-${Math.random()}`);
+  }
+
+  async function outboxEventTypes(requestId: string): Promise<string[]> {
+    const { pool } = await import("../../src/config/database");
+    const result = await pool.query(
+      "SELECT event_type FROM outbox_events WHERE aggregate_id = $1 ORDER BY position",
+      [requestId]
+    );
+    return result.rows.map((row: any) => row.event_type);
+  }
+
+  describe("POST /api/v1/payment-requests", () => {
+    it("should create a pending request", async () => {
+      const response = await requestMoney({ expiresInSeconds: 3600 }).expect(
+        201
+      );
+
+      expect(response.body.payment_request).toMatchObject({
+        requester_wallet_id: alice.walletId,
+        payer_wallet_id: bob.walletId,
+        amount: 3000,
+        currency: "USD",
+        memo: "Dinner",
+        status: "pending",
+        transfer_id: null,
+      });
+      expect(
+        await outboxEventTypes(response.body.payment_request.id)
+      ).toEqual(["payment_request.created"]);
+    });
+
+    it("should reject a request to the requester's own wallet", async () => {
+      await requestMoney({ payerWalletId: alice.walletId }).expect(400);
+    });
+
+    it("should only let the requester wallet's owner ask", async () => {
+      await request(app)
+        .post("/api/v1/payment-requests")
+        .set("Authorization", authHeader(bob.id))
+        .set("Idempotency-Key", `request-forbidden-${bob.id}`)
+        .send({
+          requesterWalletId: alice.walletId,
+          payerWalletId: bob.walletId,
+          amount: 3000,
+        })
+        .expect(403);
+    });
+  });
+
+  describe("GET /api/v1/payment-requests", () => {
+    it("should list a wallet's incoming requests", async () => {
+      const created = await requestMoney().expect(201);
+
+      const response = await request(app)
+        .get("/api/v1/payment-requests")
+        .query({ walletId: bob.walletId, role: "payer", status: "pending" })
+        .set("Authorization", authHeader(bob.id))
+        .expect(200);
+
+      expect(response.body.payment_requests).toHaveLength(1);
+      expect(response.body.payment_requests[0].id).toBe(
+        created.body.payment_request.id
+      );
+
+      const outgoing = await request(app)
+        .get("/api/v1/payment-requests")
+        .query({ walletId: bob.walletId, role: "requester" })
+        .set("Authorization", authHeader(bob.id))
+        .expect(200);
+
+      expect(outgoing.body.payment_requests).toHaveLength(0);
+    });
+  });
+
+  describe("POST /api/v1/payment-requests/:id/accept", () => {
+    it("should pay the requester from the payer's wallet", async () => {
+      const created = await requestMoney().expect(201);
+      const requestId = created.body.payment_request.id;
+
+      const response = await act(bob.id, requestId, "accept").expect(200);
+
+      expect(response.body.payment_request.status).toBe("accepted");
+      expect(response.body.payment_request.transfer_id).toBeTruthy();
+      expect(await getWalletBalance(bob.walletId)).toBe(7000);
+      expect(await getWalletBalance(alice.walletId)).toBe(3000);
+      expect(await outboxEventTypes(requestId)).toEqual([
+        "payment_request.created",
+        "payment_request.accepted",
+      ]);
+
+      await act(bob.id, requestId, "accept").expect(409);
+      expect(await getWalletBalance(alice.walletId)).toBe(3000);
+    });
+
+    it("should leave the request pending when the payer cannot cover it", async () => {
+      const created = await requestMoney({ amount: 20000 }).expect(201);
+      const requestId = created.body.payment_request.id;
+
+      const response = await act(bob.id, requestId, "accept").expect(400);
+
+      expect(response.body.error).toBe("INSUFFICIENT_BALANCE");
+
+      const current = await request(app)
+        .get(`/api/v1/payment-requests/${requestId}`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(current.body.payment_request.status).toBe("pending");
+    });
+
+    it("should not let the requester accept their own request", async () => {
+      const created = await requestMoney().expect(201);
+
+      await act(alice.id, created.body.payment_request.id, "accept").expect(
+        403
+      );
+    });
+
+    it("should refuse an expired request", async () => {
+      const created = await requestMoney().expect(201);
+      const requestId = created.body.payment_request.id;
+      await expirePaymentRequest(requestId);
+
+      const response = await act(bob.id, requestId, "accept").expect(409);
+
+      expect(response.body.error).toBe("PAYMENT_REQUEST_EXPIRED");
+      expect(await getWalletBalance(bob.walletId)).toBe(10000);
+    });
+  });
+
+  describe("POST /api/v1/payment-requests/:id/decline and cancel", () => {
+    it("should let the payer decline a request", async () => {
+      const created = await requestMoney().expect(201);
+      const requestId = created.body.payment_request.id;
+
+      const response = await act(bob.id, requestId, "decline").expect(200);
+
+      expect(response.body.payment_request.status).toBe("declined");
+      expect(response.body.payment_request.responded_at).toBeTruthy();
+
+      const accepted = await act(bob.id, requestId, "accept").expect(409);
+      expect(accepted.body.error).toBe("INVALID_PAYMENT_REQUEST_STATE");
+    });
+
+    it("should let the requester cancel a request", async () => {
+      const created = await requestMoney().expect(201);
+      const requestId = created.body.payment_request.id;
+
+      await act(bob.id, requestId, "cancel").expect(403);
+
+      const response = await act(alice.id, requestId, "cancel").expect(200);
+
+      expect(response.body.payment_request.status).toBe("cancelled");
+      expect(await outboxEventTypes(requestId)).toEqual([
+        "payment_request.created",
+        "payment_request.cancelled",
+      ]);
+    });
+  });
+
+  describe("expiry", () => {
+    it("should mark lapsed requests expired and publish the event", async () => {
+      const created = await requestMoney().expect(201);
+      const requestId = created.body.payment_request.id;
+      await expirePaymentRequest(requestId);
+
+      const { paymentRequestService } = await import(
+        "../../src/services/PaymentRequestService"
+      );
+      const expired = await paymentRequestService.expireRequests();
+
+      expect(expired.map((r) => r.id)).toEqual([requestId]);
+      expect(await outboxEventTypes(requestId)).toEqual([
+        "payment_request.created",
+        "payment_request.expired",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  getWalletBalance,
+  runScheduleNow,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Scheduled Transfers API", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let alice: { id: string; walletId: string };
+  let bob: { id: string; walletId: string };
+  let carol: { id: string; walletId: string };
+
+  const tomorrow = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    alice = await createTestUser("alice@example.com", "Alice");
+    bob = await createTestUser("bob@example.com", "Bob");
+    carol = await createTestUser("carol@example.com", "Carol");
+
+    await request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .set("Idempotency-Key", `fund-schedules-${alice.id}`)
+      .send({
+        walletId: alice.walletId,
+        amount: 10000,
+        externalPaymentRef: `payment-schedules-${alice.id}`,
+      })
+      .expect(201);
+  });
+
+  function schedule(body: Record<string, unknown> = {}) {
+    return request(app)
+      .post("/api/v1/scheduled-transfers")
+      .set("Authorization", authHeader(alice.id))
+      .set("Idempotency-Key", `schedule-${Date.now()}-${Math.random()}`)
+      .send({
+        senderWalletId: alice.walletId,
+        receiverWalletId: bob.walletId,
+        amount: 3000,
+        startAt: tomorrow().toISOString(),
+        ...body,
+      });
+  }
+
+  describe("POST /api/v1/scheduled-transfers", () => {
+    it("should create an active schedule due at its start", async () => {
+      const startAt = tomorrow().toISOString();
+
+      const response = await schedule({
+        startAt,
+        recurrence: "FREQ=MONTHLY;COUNT=3",
+        memo: "Rent",
+      }).expect(201);
+
+      expect(response.body.scheduled_transfer).toMatchObject({
+        sender_wallet_id: alice.walletId,
+        receiver_wallet_id: bob.walletId,
+        amount: 3000,
+        currency: "USD",
+        memo: "Rent",
+        recurrence: "FREQ=MONTHLY;COUNT=3",
+        status: "active",
+        next_occurrence: 0,
+        next_run_at: startAt,
+      });
+    });
+
+    it("should return 400 for an unsupported recurrence or a past start", async () => {
+      const unsupported = await schedule({
+        recurrence: "FREQ=HOURLY",
+      }).expect(400);
+      expect(unsupported.body.error).toBe("VALIDATION_ERROR");
+
+      await schedule({
+        startAt: new Date(Date.now() - 60000).toISOString(),
+      }).expect(400);
+    });
+
+    it("should return 403 when scheduling from another user's wallet", async () => {
+      await request(app)
+        .post("/api/v1/scheduled-transfers")
+        .set("Authorization", authHeader(carol.id))
+        .set("Idempotency-Key", `schedule-forbidden-${Date.now()}`)
+        .send({
+          senderWalletId: alice.walletId,
+          receiverWalletId: carol.walletId,
+          amount: 3000,
+          startAt: tomorrow().toISOString(),
+        })
+        .expect(403);
+    });
+  });
+
+  describe("running schedules", () => {
+    it("should make one transfer per occurrence and complete after the last", async () => {
+      const created = await schedule({
+        recurrence: "FREQ=DAILY;COUNT=2",
+      }).expect(201);
+      const scheduleId = created.body.scheduled_transfer.id;
+
+      await runScheduleNow(scheduleId);
+      await runScheduleNow(scheduleId);
+
+      expect(await getWalletBalance(alice.walletId)).toBe(4000);
+      expect(await getWalletBalance(bob.walletId)).toBe(6000);
+
+      const response = await request(app)
+        .get(`/api/v1/scheduled-transfers/${scheduleId}`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(response.body.scheduled_transfer).toMatchObject({
+        status: "completed",
+        next_occurrence: 2,
+        next_run_at: null,
+        last_error: null,
+      });
+
+      const transfer = await request(app)
+        .get(
+          `/api/v1/transfers/${response.body.scheduled_transfer.last_transfer_id}`
+        )
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(transfer.body.transfer.client_reference).toBe(
+        `scheduled_${scheduleId}_1`
+      );
+    });
+
+    it("should keep retrying an occurrence the sender cannot afford", async () => {
+      const created = await schedule({ amount: 50000 }).expect(201);
+      const scheduleId = created.body.scheduled_transfer.id;
+
+      await runScheduleNow(scheduleId);
+
+      const response = await request(app)
+        .get(`/api/v1/scheduled-transfers/${scheduleId}`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(response.body.scheduled_transfer).toMatchObject({
+        status: "active",
+        next_occurrence: 0,
+        attempts: 1,
+      });
+      expect(response.body.scheduled_transfer.last_error).toContain(
+        "Insufficient"
+      );
+      expect(
+        new Date(response.body.scheduled_transfer.next_run_at).getTime()
+      ).toBeGreaterThan(Date.now());
+      expect(await getWalletBalance(bob.walletId)).toBe(0);
+    });
+  });
+
+  describe("pause, resume and cancel", () => {
+    it("should not run a paused schedule", async () => {
+      const created = await schedule().expect(201);
+      const scheduleId = created.body.scheduled_transfer.id;
+
+      const paused = await request(app)
+        .post(`/api/v1/scheduled-transfers/${scheduleId}/pause`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+      expect(paused.body.scheduled_transfer.status).toBe("paused");
+
+      await runScheduleNow(scheduleId);
+      expect(await getWalletBalance(bob.walletId)).toBe(0);
+
+      const resumed = await request(app)
+        .post(`/api/v1/scheduled-transfers/${scheduleId}/resume`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+      expect(resumed.body.scheduled_transfer.status).toBe("active");
+    });
+
+    it("should cancel a schedule and refuse to resume it", async () => {
+      const created = await schedule().expect(201);
+      const scheduleId = created.body.scheduled_transfer.id;
+
+      const cancelled = await request(app)
+        .post(`/api/v1/scheduled-transfers/${scheduleId}/cancel`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+      expect(cancelled.body.scheduled_transfer).toMatchObject({
+        status: "cancelled",
+        next_run_at: null,
+      });
+
+      const response = await request(app)
+        .post(`/api/v1/scheduled-transfers/${scheduleId}/resume`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(409);
+      expect(response.body.error).toBe("INVALID_SCHEDULED_TRANSFER_STATE");
+    });
+
+    it("should return 403 to a user who does not own the sender wallet", async () => {
+      const created = await schedule().expect(201);
+
+      await request(app)
+        .post(
+          `/api/v1/scheduled-transfers/${created.body.scheduled_transfer.id}/cancel`
+        )
+        .set("Authorization", authHeader(bob.id))
+        .expect(403);
+    });
+  });
+
+  describe("GET /api/v1/scheduled-transfers", () => {
+    it("should list a wallet's schedules filtered by status", async () => {
+      const first = await schedule().expect(201);
+      const second = await schedule().expect(201);
+
+      await request(app)
+        .post(
+          `/api/v1/scheduled-transfers/${first.body.scheduled_transfer.id}/cancel`
+        )
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      const all = await request(app)
+        .get(`/api/v1/scheduled-transfers?walletId=${alice.walletId}`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+      const active = await request(app)
+        .get(
+          `/api/v1/scheduled-transfers?walletId=${alice.walletId}&status=active`
+        )
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(all.body.scheduled_transfers.map((s: any) => s.id)).toEqual([
+        second.body.scheduled_transfer.id,
+        first.body.scheduled_transfer.id,
+      ]);
+      expect(active.body.scheduled_transfers.map((s: any) => s.id)).toEqual([
+        second.body.scheduled_transfer.id,
+      ]);
+    });
+  });
+});
@@ -16,6 +16,10 @@ process.env.DB_PORT = process.env.DB_PORT || "5432";
 process.env.DB_USER = process.env.DB_USER || "postgres";
 process.env.DB_PASSWORD = process.env.DB_PASSWORD || "postgres";
 process.env.LOG_LEVEL = process.env.LOG_LEVEL || "silent";
+process.env.FX_RATES_FILE =
+  process.env.FX_RATES_FILE ||
+  path.join(process.cwd(), "tests", "e2e", "fixtures", "fx-rates.json");
+process.env.JWT_SECRET = process.env.JWT_SECRET || "e2e-test-secret";
 
 // Note: Module cache clearing is done in globalSetup to ensure it happens
 // before test files are loaded and import the app
@@ -35,9 +39,26 @@ export async function cleanupDatabase() {
   // Truncate all tables (preserves schema, removes data)
   // Only truncate if tables exist (graceful handling)
   const tables = [
+    "withdrawals",
+    "payment_requests",
+    "transfer_batch_items",
+    "transfer_batches",
+    "scheduled_transfers",
+    "event_consumer_offsets",
+    "outbox_events",
+    "webhook_deliveries",
+    "webhook_subscriptions",
+    "wallet_balances",
     "ledger_entries",
+    "journals",
+    "transfer_reversals",
     "transfers",
+    "fx_quotes",
+    "fee_schedules",
+    "spending_limits",
     "idempotency_keys",
+    "api_keys",
+    "wallet_status_changes",
     "wallets",
     "users",
   ];
@@ -10,6 +10,8 @@ import {
   getWalletId,
   getWalletBalance,
   countLedgerEntries,
+  adminAuthHeader,
+  authHeader,
 } from "./helpers";
 
 describe("E2E: Transactions API", () => {
@@ -51,6 +53,7 @@ describe("E2E: Transactions API", () => {
       const uniquePaymentRef = `payment-transactions-${Date.now()}-${Math.random()}`;
       const response = await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", `fund-transactions-${Date.now()}`)
         .send({
           walletId: wallet1Id,
@@ -79,6 +82,7 @@ describe("E2E: Transactions API", () => {
 
       const response1 = await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", idempotencyKey)
         .send({
           walletId: wallet1Id,
@@ -89,6 +93,7 @@ describe("E2E: Transactions API", () => {
 
       const response2 = await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", idempotencyKey)
         .send({
           walletId: wallet1Id,
@@ -117,6 +122,7 @@ describe("E2E: Transactions API", () => {
       // First request with idempotency key and payload A
       await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", idempotencyKey)
         .send({
           walletId: wallet1Id,
@@ -128,6 +134,7 @@ describe("E2E: Transactions API", () => {
       // Second request with same idempotency key but different payload (different amount)
       const response = await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", idempotencyKey)
         .send({
           walletId: wallet1Id,
@@ -153,6 +160,7 @@ describe("E2E: Transactions API", () => {
 
       await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", `fund-2-${Date.now()}`)
         .send({
           walletId: wallet1Id,
@@ -164,6 +172,7 @@ describe("E2E: Transactions API", () => {
       // Try to fund again with same external payment ref (different idempotency key)
       await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", `fund-3-${Date.now()}`)
         .send({
           walletId: wallet1Id,
@@ -180,6 +189,7 @@ describe("E2E: Transactions API", () => {
     it("should return 400 for invalid amount", async () => {
       const response = await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", "fund-invalid")
         .send({
           walletId: wallet1Id,
@@ -195,6 +205,7 @@ describe("E2E: Transactions API", () => {
       const maxAmount = 1_000_000_000_000; // 10 billion dollars in cents
       const response = await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", `fund-max-${Date.now()}`)
         .send({
           walletId: wallet1Id,
@@ -214,6 +225,7 @@ describe("E2E: Transactions API", () => {
       const longPaymentRef = "a".repeat(256); // 256 characters
       const response = await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", `fund-long-ref-${Date.now()}`)
         .send({
           walletId: wallet1Id,
@@ -233,6 +245,7 @@ describe("E2E: Transactions API", () => {
       const longIdempotencyKey = "a".repeat(256); // 256 characters
       const response = await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", longIdempotencyKey)
         .send({
           walletId: wallet1Id,
@@ -251,6 +264,7 @@ describe("E2E: Transactions API", () => {
     it("should return 400 for empty idempotency key", async () => {
       const response = await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", "")
         .send({
           walletId: wallet1Id,
@@ -272,6 +286,7 @@ describe("E2E: Transactions API", () => {
       // Fund wallet1 before each transfer test
       await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", `fund-setup-${Date.now()}`)
         .send({
           walletId: wallet1Id,
@@ -283,6 +298,7 @@ describe("E2E: Transactions API", () => {
     it("should transfer funds successfully", async () => {
       const response = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", "transfer-1")
         .send({
           senderWalletId: wallet1Id,
@@ -297,6 +313,7 @@ describe("E2E: Transactions API", () => {
       expect(response.body.transfer.sender_wallet_id).toBe(wallet1Id);
       expect(response.body.transfer.receiver_wallet_id).toBe(wallet2Id);
       expect(response.body.transfer.status).toBe("completed");
+      expect(response.body.transfer.currency).toBe("USD");
 
       // Verify balances
       const balance1 = await getWalletBalance(wallet1Id);
@@ -308,6 +325,7 @@ describe("E2E: Transactions API", () => {
     it("should return 400 for insufficient balance", async () => {
       const response = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", "transfer-insufficient")
         .send({
           senderWalletId: wallet1Id,
@@ -331,6 +349,7 @@ describe("E2E: Transactions API", () => {
 
       const response1 = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", idempotencyKey)
         .send({
           senderWalletId: wallet1Id,
@@ -341,6 +360,7 @@ describe("E2E: Transactions API", () => {
 
       const response2 = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", idempotencyKey)
         .send({
           senderWalletId: wallet1Id,
@@ -365,6 +385,7 @@ describe("E2E: Transactions API", () => {
       // First request with idempotency key and payload A
       await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", idempotencyKey)
         .send({
           senderWalletId: wallet1Id,
@@ -376,6 +397,7 @@ describe("E2E: Transactions API", () => {
       // Second request with same idempotency key but different payload (different amount)
       const response = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", idempotencyKey)
         .send({
           senderWalletId: wallet1Id,
@@ -400,6 +422,7 @@ describe("E2E: Transactions API", () => {
     it("should return 400 for zero amount", async () => {
       const response = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", "transfer-zero")
         .send({
           senderWalletId: wallet1Id,
@@ -414,6 +437,7 @@ describe("E2E: Transactions API", () => {
     it("should return 400 when transferring from wallet to itself", async () => {
       const response = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", "transfer-self")
         .send({
           senderWalletId: wallet1Id,
@@ -433,6 +457,7 @@ describe("E2E: Transactions API", () => {
       const fakeWalletId = "00000000-0000-0000-0000-000000000000";
       const response = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", "transfer-not-found")
         .send({
           senderWalletId: fakeWalletId,
@@ -449,6 +474,7 @@ describe("E2E: Transactions API", () => {
       const maxAmount = 1_000_000_000_000; // 10 billion dollars in cents
       const response = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", `transfer-max-${Date.now()}`)
         .send({
           senderWalletId: wallet1Id,
@@ -464,10 +490,35 @@ describe("E2E: Transactions API", () => {
       );
     });
 
+    it("should return 400 when sender and receiver currencies differ", async () => {
+      const yenUser = await createTestUser(
+        `yen-${Date.now()}@example.com`,
+        "Yen User",
+        "JPY"
+      );
+
+      const response = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `transfer-currency-${Date.now()}`)
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: yenUser.walletId,
+          amount: 1000,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe("CURRENCY_MISMATCH");
+
+      const balance1 = await getWalletBalance(wallet1Id);
+      expect(balance1).toBe(10000);
+    });
+
     it("should return 400 for idempotency key exceeding 255 characters in transfer", async () => {
       const longIdempotencyKey = "a".repeat(256); // 256 characters
       const response = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", longIdempotencyKey)
         .send({
           senderWalletId: wallet1Id,
@@ -486,6 +537,7 @@ describe("E2E: Transactions API", () => {
     it("should return 400 for empty idempotency key in transfer", async () => {
       const response = await request(app)
         .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", "")
         .send({
           senderWalletId: wallet1Id,
@@ -502,11 +554,428 @@ describe("E2E: Transactions API", () => {
     });
   });
 
+  describe("transfer memos, metadata and client references", () => {
+    beforeEach(async () => {
+      await request(app)
+        .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `fund-details-${Date.now()}`)
+        .send({
+          walletId: wallet1Id,
+          amount: 10000,
+          externalPaymentRef: `details-payment-${Date.now()}`,
+        });
+    });
+
+    it("should store the details and return them in both wallets' history", async () => {
+      const response = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-details-1")
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 1500,
+          memo: "  Order\u0000 #1042\n\tthanks ",
+          metadata: { order_id: "1042", items: 3, gift: false },
+          clientReference: "order-1042",
+        })
+        .expect(201);
+
+      expect(response.body.transfer.memo).toBe("Order #1042 thanks");
+      expect(response.body.transfer.metadata).toEqual({
+        order_id: "1042",
+        items: 3,
+        gift: false,
+      });
+      expect(response.body.transfer.client_reference).toBe("order-1042");
+
+      for (const walletId of [wallet1Id, wallet2Id]) {
+        const history = await request(app)
+          .get(`/api/v1/transactions?walletId=${walletId}&type=transfer`)
+          .set("Authorization", adminAuthHeader())
+          .expect(200);
+
+        expect(history.body.transactions[0]).toMatchObject({
+          memo: "Order #1042 thanks",
+          metadata: { order_id: "1042", items: 3, gift: false },
+          client_reference: "order-1042",
+        });
+      }
+    });
+
+    it("should default to no memo, empty metadata and no client reference", async () => {
+      const response = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-details-plain")
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 1000,
+        })
+        .expect(201);
+
+      expect(response.body.transfer.memo).toBeNull();
+      expect(response.body.transfer.metadata).toEqual({});
+      expect(response.body.transfer.client_reference).toBeNull();
+    });
+
+    it("should return 409 when the sender reuses a client reference", async () => {
+      const first = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-reference-1")
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 1000,
+          clientReference: "invoice-7",
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-reference-2")
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 1000,
+          clientReference: "invoice-7",
+        })
+        .expect(409);
+
+      expect(response.body.error).toBe("DUPLICATE_CLIENT_REFERENCE");
+      expect(response.body.details).toEqual({
+        transfer_id: first.body.transfer.id,
+      });
+      expect(await getWalletBalance(wallet1Id)).toBe(9000);
+    });
+
+    it("should let different senders use the same client reference", async () => {
+      await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-shared-reference-1")
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 2000,
+          clientReference: "shared-ref",
+        })
+        .expect(201);
+
+      await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-shared-reference-2")
+        .send({
+          senderWalletId: wallet2Id,
+          receiverWalletId: wallet1Id,
+          amount: 500,
+          clientReference: "shared-ref",
+        })
+        .expect(201);
+    });
+
+    it("should return 400 for a client reference reserved for payment requests", async () => {
+      const response = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-reserved-reference")
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 1000,
+          clientReference: "payment_request_00000000-0000-0000-0000-000000000000",
+        })
+        .expect(400);
+
+      expect(response.body.message).toContain(
+        "Client reference must not start with payment_request_"
+      );
+      expect(await getWalletBalance(wallet1Id)).toBe(10000);
+    });
+
+    it("should return 400 for a client reference reserved for scheduled transfers", async () => {
+      await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-reserved-scheduled-reference")
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 1000,
+          clientReference: "scheduled_00000000-0000-0000-0000-000000000000_0",
+        })
+        .expect(400);
+    });
+
+    it("should return 400 for a memo over 140 characters", async () => {
+      const response = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-long-memo")
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 1000,
+          memo: "a".repeat(141),
+        })
+        .expect(400);
+
+      expect(response.body.message).toContain(
+        "Memo must not exceed 140 characters"
+      );
+    });
+
+    it("should return 400 for nested or oversized metadata", async () => {
+      const nested = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-nested-metadata")
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 1000,
+          metadata: { order: { id: "1042" } },
+        })
+        .expect(400);
+
+      expect(nested.body.error).toBe("VALIDATION_ERROR");
+
+      const metadata: Record<string, string> = {};
+      for (let i = 0; i < 21; i++) {
+        metadata[`key_${i}`] = "value";
+      }
+
+      const tooMany = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", "transfer-many-metadata")
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 1000,
+          metadata,
+        })
+        .expect(400);
+
+      expect(tooMany.body.message).toContain(
+        "Metadata must not have more than 20 keys"
+      );
+    });
+  });
+
+  describe("POST /api/v1/transactions/transfer/:id/reverse", () => {
+    let transferId: string;
+
+    beforeEach(async () => {
+      await request(app)
+        .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `fund-reverse-${Date.now()}`)
+        .send({
+          walletId: wallet1Id,
+          amount: 10000,
+          externalPaymentRef: `payment-reverse-${Date.now()}-${Math.random()}`,
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `transfer-reverse-${Date.now()}`)
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 4000,
+        })
+        .expect(201);
+
+      transferId = response.body.transfer.id;
+    });
+
+    it("should fully reverse a transfer", async () => {
+      const response = await request(app)
+        .post(`/api/v1/transactions/transfer/${transferId}/reverse`)
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `reverse-full-${Date.now()}`)
+        .send({ reason: "Disputed payment" })
+        .expect(201);
+
+      expect(response.body.reversal.amount).toBe(4000);
+      expect(response.body.reversal.transfer_id).toBe(transferId);
+      expect(response.body.transfer.status).toBe("reversed");
+      expect(response.body.transfer.reversed_amount).toBe(4000);
+
+      expect(await getWalletBalance(wallet1Id)).toBe(10000);
+      expect(await getWalletBalance(wallet2Id)).toBe(0);
+    });
+
+    it("should partially reverse and then refuse to exceed the original amount", async () => {
+      const partial = await request(app)
+        .post(`/api/v1/transactions/transfer/${transferId}/reverse`)
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `reverse-partial-${Date.now()}`)
+        .send({ amount: 1500 })
+        .expect(201);
+
+      expect(partial.body.transfer.status).toBe("partially_reversed");
+      expect(partial.body.transfer.reversed_amount).toBe(1500);
+
+      const response = await request(app)
+        .post(`/api/v1/transactions/transfer/${transferId}/reverse`)
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `reverse-exceed-${Date.now()}`)
+        .send({ amount: 3000 })
+        .expect(400);
+
+      expect(response.body.error).toBe("REVERSAL_AMOUNT_EXCEEDED");
+      expect(await getWalletBalance(wallet1Id)).toBe(7500);
+      expect(await getWalletBalance(wallet2Id)).toBe(2500);
+    });
+
+    it("should return 409 when reversing an already reversed transfer", async () => {
+      await request(app)
+        .post(`/api/v1/transactions/transfer/${transferId}/reverse`)
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `reverse-once-${Date.now()}`)
+        .send({})
+        .expect(201);
+
+      const response = await request(app)
+        .post(`/api/v1/transactions/transfer/${transferId}/reverse`)
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `reverse-twice-${Date.now()}`)
+        .send({})
+        .expect(409);
+
+      expect(response.body.error).toBe("INVALID_TRANSFER_STATE");
+    });
+
+    it("should return 404 for non-existent transfer", async () => {
+      const response = await request(app)
+        .post(
+          "/api/v1/transactions/transfer/00000000-0000-0000-0000-000000000000/reverse"
+        )
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `reverse-missing-${Date.now()}`)
+        .send({})
+        .expect(404);
+
+      expect(response.body.error).toBe("TRANSFER_NOT_FOUND");
+    });
+  });
+
+  describe("FX quotes and cross-currency transfers", () => {
+    let yenWalletId: string;
+
+    beforeEach(async () => {
+      const yenUser = await createTestUser("yen@example.com", "Yen User", "JPY");
+      yenWalletId = yenUser.walletId;
+
+      await request(app)
+        .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `fund-fx-${Date.now()}`)
+        .send({
+          walletId: wallet1Id,
+          amount: 10000,
+          externalPaymentRef: `payment-fx-${Date.now()}-${Math.random()}`,
+        })
+        .expect(201);
+    });
+
+    async function createQuote(amount: number) {
+      const response = await request(app)
+        .post("/api/v1/transactions/fx-quotes")
+        .set("Authorization", adminAuthHeader())
+        .send({ sourceCurrency: "USD", targetCurrency: "JPY", amount })
+        .expect(201);
+      return response.body.quote;
+    }
+
+    it("should quote a locked rate with an expiry", async () => {
+      const quote = await createQuote(4000);
+
+      expect(quote.rate).toBe(150);
+      expect(quote.source_amount).toBe(4000);
+      expect(quote.target_amount).toBe(6000); // $40.00 -> ¥6000
+      expect(new Date(quote.expires_at).getTime()).toBeGreaterThan(Date.now());
+      expect(quote.used).toBe(false);
+    });
+
+    it("should transfer across currencies with a quote", async () => {
+      const quote = await createQuote(4000);
+
+      const response = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `transfer-fx-${Date.now()}`)
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: yenWalletId,
+          amount: 4000,
+          quoteId: quote.id,
+        })
+        .expect(201);
+
+      expect(response.body.transfer.currency).toBe("USD");
+      expect(response.body.transfer.receiver_amount).toBe(6000);
+      expect(response.body.transfer.receiver_currency).toBe("JPY");
+      expect(response.body.transfer.fx_quote_id).toBe(quote.id);
+
+      expect(await getWalletBalance(wallet1Id)).toBe(6000);
+      expect(await getWalletBalance(yenWalletId)).toBe(6000);
+
+      const trialBalance = await request(app)
+        .get("/api/v1/ledger/trial-balance")
+        .set("Authorization", adminAuthHeader())
+        .expect(200);
+      for (const totals of trialBalance.body.totals) {
+        expect(totals.net).toBe(0);
+      }
+    });
+
+    it("should refuse to redeem a quote twice", async () => {
+      const quote = await createQuote(1000);
+      const send = (key: string) =>
+        request(app)
+          .post("/api/v1/transactions/transfer")
+          .set("Authorization", adminAuthHeader())
+          .set("Idempotency-Key", key)
+          .send({
+            senderWalletId: wallet1Id,
+            receiverWalletId: yenWalletId,
+            amount: 1000,
+            quoteId: quote.id,
+          });
+
+      await send(`transfer-fx-once-${Date.now()}`).expect(201);
+      const response = await send(`transfer-fx-twice-${Date.now()}`).expect(409);
+
+      expect(response.body.error).toBe("FX_QUOTE_ALREADY_USED");
+    });
+
+    it("should return 400 when no rate exists for the pair", async () => {
+      const response = await request(app)
+        .post("/api/v1/transactions/fx-quotes")
+        .set("Authorization", adminAuthHeader())
+        .send({ sourceCurrency: "GBP", targetCurrency: "JPY", amount: 1000 })
+        .expect(400);
+
+      expect(response.body.error).toBe("FX_RATE_UNAVAILABLE");
+    });
+  });
+
   describe("GET /api/v1/transactions", () => {
     beforeEach(async () => {
       // Create some transactions
       await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", "fund-query-1")
         .send({
           walletId: wallet1Id,
@@ -516,6 +985,7 @@ describe("E2E: Transactions API", () => {
 
       await request(app)
         .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
         .set("Idempotency-Key", "fund-query-2")
         .send({
           walletId: wallet1Id,
@@ -527,6 +997,7 @@ describe("E2E: Transactions API", () => {
     it("should return ledger entries for a wallet", async () => {
       const response = await request(app)
         .get(`/api/v1/transactions?walletId=${wallet1Id}`)
+        .set("Authorization", adminAuthHeader())
         .expect(200);
 
       expect(response.body).toHaveProperty("transactions");
@@ -538,20 +1009,70 @@ describe("E2E: Transactions API", () => {
       expect(response.body).toHaveProperty("pagination");
     });
 
-    it("should support pagination", async () => {
+    it("should report the running balance after each entry", async () => {
       const response = await request(app)
-        .get(`/api/v1/transactions?walletId=${wallet1Id}&limit=1&offset=0`)
+        .get(`/api/v1/transactions?walletId=${wallet1Id}`)
+        .set("Authorization", adminAuthHeader())
+        .expect(200);
+
+      // Newest first: 5000 then 3000 funded, so 8000 after the latest
+      expect(
+        response.body.transactions.map((tx: any) => tx.balance_after)
+      ).toEqual([8000, 5000]);
+    });
+
+    it("should page through history with an opaque cursor", async () => {
+      const first = await request(app)
+        .get(`/api/v1/transactions?walletId=${wallet1Id}&limit=1`)
+        .set("Authorization", adminAuthHeader())
+        .expect(200);
+
+      expect(first.body.transactions.length).toBe(1);
+      expect(first.body.pagination.limit).toBe(1);
+      expect(first.body.pagination.has_more).toBe(true);
+      expect(typeof first.body.pagination.next_cursor).toBe("string");
+
+      const second = await request(app)
+        .get(
+          `/api/v1/transactions?walletId=${wallet1Id}&limit=1&cursor=${first.body.pagination.next_cursor}`
+        )
+        .set("Authorization", adminAuthHeader())
+        .expect(200);
+
+      expect(second.body.transactions.length).toBe(1);
+      expect(second.body.transactions[0].id).not.toBe(
+        first.body.transactions[0].id
+      );
+      expect(second.body.pagination.has_more).toBe(false);
+      expect(second.body.pagination.next_cursor).toBeNull();
+    });
+
+    it("should filter by amount range and report a total on request", async () => {
+      const response = await request(app)
+        .get(
+          `/api/v1/transactions?walletId=${wallet1Id}&minAmount=4000&direction=credit&type=fund&includeTotal=true`
+        )
+        .set("Authorization", adminAuthHeader())
         .expect(200);
 
       expect(response.body.transactions.length).toBe(1);
-      expect(response.body).toHaveProperty("pagination");
-      expect(response.body.pagination).toHaveProperty("limit");
-      expect(response.body.pagination).toHaveProperty("offset");
+      expect(response.body.transactions[0].amount).toBe(5000);
+      expect(response.body.pagination.total).toBe(1);
+    });
+
+    it("should return 400 for a tampered cursor", async () => {
+      const response = await request(app)
+        .get(`/api/v1/transactions?walletId=${wallet1Id}&cursor=bogus`)
+        .set("Authorization", adminAuthHeader())
+        .expect(400);
+
+      expect(response.body.error).toBe("VALIDATION_ERROR");
     });
 
     it("should return empty array for wallet with no transactions", async () => {
       const response = await request(app)
         .get(`/api/v1/transactions?walletId=${wallet2Id}`)
+        .set("Authorization", adminAuthHeader())
         .expect(200);
 
       expect(response.body.transactions).toEqual([]);
@@ -560,9 +1081,96 @@ describe("E2E: Transactions API", () => {
     it("should return 400 for missing walletId", async () => {
       const response = await request(app)
         .get("/api/v1/transactions")
+        .set("Authorization", adminAuthHeader())
         .expect(400);
 
       expect(response.body).toHaveProperty("error");
     });
   });
+
+  describe("GET /api/v1/transactions/:id", () => {
+    let transferId: string;
+
+    beforeEach(async () => {
+      await request(app)
+        .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `fund-enriched-${Date.now()}`)
+        .send({
+          walletId: wallet1Id,
+          amount: 10000,
+          externalPaymentRef: `payment-enriched-${Date.now()}`,
+        })
+        .expect(201);
+
+      const transfer = await request(app)
+        .post("/api/v1/transactions/transfer")
+        .set("Authorization", authHeader(user1Id))
+        .set("Idempotency-Key", `transfer-enriched-${Date.now()}`)
+        .send({
+          senderWalletId: wallet1Id,
+          receiverWalletId: wallet2Id,
+          amount: 2500,
+        })
+        .expect(201);
+      transferId = transfer.body.transfer.id;
+    });
+
+    it("should show who was paid in history", async () => {
+      const response = await request(app)
+        .get(`/api/v1/transactions?walletId=${wallet1Id}&type=transfer`)
+        .set("Authorization", authHeader(user1Id))
+        .expect(200);
+
+      const [entry] = response.body.transactions;
+      expect(entry.transfer_id).toBe(transferId);
+      expect(entry.status).toBe("completed");
+      expect(entry.counterparty).toEqual({
+        wallet_id: wallet2Id,
+        wallet_label: "main",
+        user_id: user2Id,
+        display_name: "User 2",
+        masked_email: "u***@example.com",
+      });
+    });
+
+    it("should return a single entry to its owner", async () => {
+      const history = await request(app)
+        .get(`/api/v1/transactions?walletId=${wallet2Id}`)
+        .set("Authorization", authHeader(user2Id))
+        .expect(200);
+      const entryId = history.body.transactions[0].id;
+
+      const response = await request(app)
+        .get(`/api/v1/transactions/${entryId}`)
+        .set("Authorization", authHeader(user2Id))
+        .expect(200);
+
+      expect(response.body.transaction.id).toBe(entryId);
+      expect(response.body.transaction.type).toBe("transfer");
+      expect(response.body.transaction.direction).toBe("credit");
+      expect(response.body.transaction.counterparty.user_id).toBe(user1Id);
+    });
+
+    it("should not show an entry to another user", async () => {
+      const history = await request(app)
+        .get(`/api/v1/transactions?walletId=${wallet2Id}`)
+        .set("Authorization", authHeader(user2Id))
+        .expect(200);
+
+      await request(app)
+        .get(`/api/v1/transactions/${history.body.transactions[0].id}`)
+        .set("Authorization", authHeader(user1Id))
+        .expect(403);
+    });
+
+    it("should return 404 for an unknown entry", async () => {
+      const response = await request(app)
+        .get("/api/v1/transactions/123e4567-e89b-12d3-a456-426614174000")
+        .set("Authorization", adminAuthHeader())
+        .expect(404);
+
+      expect(response.body.error).toBe("TRANSACTION_NOT_FOUND");
+    });
+  });
 });
@@ -0,0 +1,270 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  getWalletBalance,
+  processTransferBatches,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Transfer Batches API", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let alice: { id: string; walletId: string };
+  let bob: { id: string; walletId: string };
+  let carol: { id: string; walletId: string };
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    alice = await createTestUser("alice@example.com", "Alice");
+    bob = await createTestUser("bob@example.com", "Bob");
+    carol = await createTestUser("carol@example.com", "Carol");
+
+    await request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .set("Idempotency-Key", `fund-batches-${alice.id}`)
+      .send({
+        walletId: alice.walletId,
+        amount: 10000,
+        externalPaymentRef: `payment-batches-${alice.id}`,
+      })
+      .expect(201);
+  });
+
+  function createBatch(body: Record<string, unknown>) {
+    return request(app)
+      .post("/api/v1/transactions/batches")
+      .set("Authorization", authHeader(alice.id))
+      .set("Idempotency-Key", `batch-${Date.now()}-${Math.random()}`)
+      .send({ senderWalletId: alice.walletId, ...body });
+  }
+
+  function getBatch(batchId: string) {
+    return request(app)
+      .get(`/api/v1/transactions/batches/${batchId}`)
+      .set("Authorization", authHeader(alice.id));
+  }
+
+  describe("POST /api/v1/transactions/batches", () => {
+    it("should queue the batch and pay every item once processed", async () => {
+      const response = await createBatch({
+        items: [
+          {
+            receiverWalletId: bob.walletId,
+            amount: 3000,
+            clientReference: "payout-bob",
+          },
+          { receiverWalletId: carol.walletId, amount: 2000, memo: "Bonus" },
+        ],
+      }).expect(202);
+
+      expect(response.body.batch).toMatchObject({
+        sender_wallet_id: alice.walletId,
+        mode: "all_or_nothing",
+        status: "pending",
+        item_count: 2,
+        total_amount: 5000,
+      });
+
+      await processTransferBatches();
+
+      const result = await getBatch(response.body.batch.id).expect(200);
+
+      expect(result.body.batch).toMatchObject({
+        status: "completed",
+        succeeded_count: 2,
+        failed_count: 0,
+      });
+      expect(result.body.items).toHaveLength(2);
+      expect(result.body.items[0]).toMatchObject({
+        position: 0,
+        client_reference: "payout-bob",
+        status: "completed",
+      });
+      expect(result.body.items[0].transfer_id).toBeTruthy();
+
+      expect(await getWalletBalance(alice.walletId)).toBe(5000);
+      expect(await getWalletBalance(bob.walletId)).toBe(3000);
+      expect(await getWalletBalance(carol.walletId)).toBe(2000);
+    });
+
+    it("should pay nothing when an all_or_nothing item fails", async () => {
+      const response = await createBatch({
+        mode: "all_or_nothing",
+        items: [
+          { receiverWalletId: bob.walletId, amount: 6000 },
+          { receiverWalletId: carol.walletId, amount: 6000 },
+        ],
+      }).expect(202);
+
+      await processTransferBatches();
+
+      const result = await getBatch(response.body.batch.id).expect(200);
+
+      expect(result.body.batch.status).toBe("failed");
+      expect(result.body.batch.error).toContain("Item 1 failed");
+      expect(result.body.items.map((item: any) => item.status)).toEqual([
+        "skipped",
+        "failed",
+      ]);
+      expect(result.body.items[1].error_code).toBe("INSUFFICIENT_BALANCE");
+      expect(await getWalletBalance(alice.walletId)).toBe(10000);
+      expect(await getWalletBalance(bob.walletId)).toBe(0);
+    });
+
+    it("should keep the items that succeed in a best_effort batch", async () => {
+      const response = await createBatch({
+        mode: "best_effort",
+        items: [
+          { receiverWalletId: bob.walletId, amount: 6000 },
+          { receiverWalletId: carol.walletId, amount: 6000 },
+          {
+            receiverWalletId: "00000000-0000-0000-0000-000000000000",
+            amount: 1000,
+          },
+        ],
+      }).expect(202);
+
+      await processTransferBatches();
+
+      const result = await getBatch(response.body.batch.id).expect(200);
+
+      expect(result.body.batch).toMatchObject({
+        status: "partially_completed",
+        succeeded_count: 1,
+        failed_count: 2,
+      });
+      expect(result.body.items.map((item: any) => item.error_code)).toEqual([
+        null,
+        "INSUFFICIENT_BALANCE",
+        "WALLET_NOT_FOUND",
+      ]);
+      expect(await getWalletBalance(alice.walletId)).toBe(4000);
+      expect(await getWalletBalance(bob.walletId)).toBe(6000);
+      expect(await getWalletBalance(carol.walletId)).toBe(0);
+    });
+
+    it("should reject a client reference repeated within the batch", async () => {
+      const response = await createBatch({
+        items: [
+          { receiverWalletId: bob.walletId, amount: 100, clientReference: "x" },
+          { receiverWalletId: carol.walletId, amount: 100, clientReference: "x" },
+        ],
+      }).expect(400);
+
+      expect(response.body.message).toBe(
+        "Item 1 repeats client reference x"
+      );
+    });
+
+    it("should reject an empty batch", async () => {
+      await createBatch({ items: [] }).expect(400);
+    });
+
+    it("should forbid batches from another user's wallet", async () => {
+      await request(app)
+        .post("/api/v1/transactions/batches")
+        .set("Authorization", authHeader(bob.id))
+        .set("Idempotency-Key", `batch-forbidden-${bob.id}`)
+        .send({
+          senderWalletId: alice.walletId,
+          items: [{ receiverWalletId: bob.walletId, amount: 100 }],
+        })
+        .expect(403);
+    });
+  });
+
+  describe("POST /api/v1/transactions/batches/csv", () => {
+    function uploadCsv(csv: string, mode = "best_effort") {
+      return request(app)
+        .post(
+          `/api/v1/transactions/batches/csv?senderWalletId=${alice.walletId}&mode=${mode}`
+        )
+        .set("Authorization", authHeader(alice.id))
+        .set("Idempotency-Key", `batch-csv-${Date.now()}-${Math.random()}`)
+        .set("Content-Type", "text/csv")
+        .send(csv);
+    }
+
+    it("should create a batch from the uploaded rows", async () => {
+      const csv = [
+        "receiver_wallet_id,amount,client_reference,memo",
+        `${bob.walletId},1500,payout-1,"Invoice 7, May"`,
+        `${carol.walletId},2500,,`,
+      ].join("\r\n");
+
+      const response = await uploadCsv(csv).expect(202);
+
+      expect(response.body.batch).toMatchObject({
+        mode: "best_effort",
+        item_count: 2,
+        total_amount: 4000,
+      });
+
+      await processTransferBatches();
+
+      const result = await getBatch(response.body.batch.id).expect(200);
+
+      expect(result.body.batch.status).toBe("completed");
+      expect(result.body.items[0]).toMatchObject({
+        client_reference: "payout-1",
+        memo: "Invoice 7, May",
+      });
+      expect(await getWalletBalance(carol.walletId)).toBe(2500);
+    });
+
+    it("should report invalid rows by line", async () => {
+      const csv = [
+        "receiver_wallet_id,amount",
+        `${bob.walletId},100`,
+        `${carol.walletId},-5`,
+        "not-a-wallet,100",
+      ].join("\n");
+
+      const response = await uploadCsv(csv).expect(400);
+
+      expect(response.body.message).toMatch(
+        /^Invalid CSV: line 3: amount: .*, line 4: receiver_wallet_id: /
+      );
+    });
+
+    it("should reject unknown columns", async () => {
+      const response = await uploadCsv(
+        `receiver_wallet_id,amount,currency\n${bob.walletId},100,USD`
+      ).expect(400);
+
+      expect(response.body.message).toBe(
+        "Invalid CSV: unknown columns currency"
+      );
+    });
+  });
+
+  describe("GET /api/v1/transactions/batches/:id", () => {
+    it("should return 404 for an unknown batch", async () => {
+      await getBatch("00000000-0000-0000-0000-000000000000").expect(404);
+    });
+
+    it("should hide a batch from users who do not own its sender", async () => {
+      const response = await createBatch({
+        items: [{ receiverWalletId: bob.walletId, amount: 100 }],
+      }).expect(202);
+
+      await request(app)
+        .get(`/api/v1/transactions/batches/${response.body.batch.id}`)
+        .set("Authorization", authHeader(bob.id))
+        .expect(403);
+    });
+  });
+});
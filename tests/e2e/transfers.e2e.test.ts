@@ -0,0 +1,236 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Transfers API", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let alice: { id: string; walletId: string };
+  let bob: { id: string; walletId: string };
+  let carol: { id: string; walletId: string };
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    alice = await createTestUser("alice@example.com", "Alice");
+    bob = await createTestUser("bob@example.com", "Bob");
+    carol = await createTestUser("carol@example.com", "Carol");
+
+    for (const user of [alice, bob]) {
+      await request(app)
+        .post("/api/v1/transactions/fund")
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `fund-transfers-${user.id}`)
+        .send({
+          walletId: user.walletId,
+          amount: 10000,
+          externalPaymentRef: `payment-transfers-${user.id}`,
+        })
+        .expect(201);
+    }
+  });
+
+  function transfer(
+    from: { id: string; walletId: string },
+    to: { walletId: string },
+    amount: number
+  ) {
+    return request(app)
+      .post("/api/v1/transactions/transfer")
+      .set("Authorization", authHeader(from.id))
+      .set("Idempotency-Key", `transfer-${Date.now()}-${Math.random()}`)
+      .send({
+        senderWalletId: from.walletId,
+        receiverWalletId: to.walletId,
+        amount,
+      })
+      .expect(201);
+  }
+
+  describe("GET /api/v1/transfers/:id", () => {
+    it("should return the transfer with both ledger legs", async () => {
+      const created = await transfer(alice, bob, 2500);
+      const transferId = created.body.transfer.id;
+
+      const response = await request(app)
+        .get(`/api/v1/transfers/${transferId}`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(response.body.transfer).toMatchObject({
+        id: transferId,
+        sender_wallet_id: alice.walletId,
+        receiver_wallet_id: bob.walletId,
+        amount: 2500,
+        status: "completed",
+      });
+      expect(response.body.transfer.entries).toEqual([
+        expect.objectContaining({
+          wallet_id: alice.walletId,
+          amount: 2500,
+          direction: "debit",
+        }),
+        expect.objectContaining({
+          wallet_id: bob.walletId,
+          amount: 2500,
+          direction: "credit",
+        }),
+      ]);
+      expect(response.body.transfer.entries[0]).not.toHaveProperty(
+        "balance_after"
+      );
+    });
+
+    it("should let the receiver read the transfer", async () => {
+      const created = await transfer(alice, bob, 1000);
+
+      await request(app)
+        .get(`/api/v1/transfers/${created.body.transfer.id}`)
+        .set("Authorization", authHeader(bob.id))
+        .expect(200);
+    });
+
+    it("should return 403 to a user on neither side", async () => {
+      const created = await transfer(alice, bob, 1000);
+
+      const response = await request(app)
+        .get(`/api/v1/transfers/${created.body.transfer.id}`)
+        .set("Authorization", authHeader(carol.id))
+        .expect(403);
+
+      expect(response.body.error).toBe("FORBIDDEN");
+    });
+
+    it("should return 404 for an unknown transfer", async () => {
+      const response = await request(app)
+        .get("/api/v1/transfers/123e4567-e89b-12d3-a456-426614174000")
+        .set("Authorization", adminAuthHeader())
+        .expect(404);
+
+      expect(response.body.error).toBe("TRANSFER_NOT_FOUND");
+    });
+  });
+
+  describe("GET /api/v1/transfers", () => {
+    let sentIds: string[];
+    let receivedId: string;
+
+    beforeEach(async () => {
+      sentIds = [];
+      for (const amount of [100, 200, 300]) {
+        const created = await transfer(alice, bob, amount);
+        sentIds.push(created.body.transfer.id);
+      }
+      const received = await transfer(bob, alice, 50);
+      receivedId = received.body.transfer.id;
+    });
+
+    it("should list both sides newest first with their legs", async () => {
+      const response = await request(app)
+        .get(`/api/v1/transfers?walletId=${alice.walletId}`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(response.body.transfers.map((t: any) => t.id)).toEqual([
+        receivedId,
+        ...[...sentIds].reverse(),
+      ]);
+      for (const item of response.body.transfers) {
+        expect(item.entries).toHaveLength(2);
+      }
+      expect(response.body.pagination).toEqual({
+        limit: 50,
+        count: 4,
+        next_cursor: null,
+        has_more: false,
+      });
+    });
+
+    it("should filter by role", async () => {
+      const sent = await request(app)
+        .get(`/api/v1/transfers?walletId=${alice.walletId}&role=sender`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+      const received = await request(app)
+        .get(`/api/v1/transfers?walletId=${alice.walletId}&role=receiver`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(sent.body.transfers).toHaveLength(3);
+      expect(received.body.transfers.map((t: any) => t.id)).toEqual([
+        receivedId,
+      ]);
+    });
+
+    it("should filter by status", async () => {
+      await request(app)
+        .post(`/api/v1/transactions/transfer/${sentIds[0]}/reverse`)
+        .set("Authorization", adminAuthHeader())
+        .set("Idempotency-Key", `reverse-transfers-${Date.now()}`)
+        .send({})
+        .expect(201);
+
+      const response = await request(app)
+        .get(
+          `/api/v1/transfers?walletId=${alice.walletId}&status=reversed,partially_reversed`
+        )
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(response.body.transfers.map((t: any) => t.id)).toEqual([
+        sentIds[0],
+      ]);
+    });
+
+    it("should page with a cursor without skipping or repeating", async () => {
+      const seen: string[] = [];
+      let cursor: string | null = null;
+
+      do {
+        const query: string = cursor ? `&cursor=${cursor}` : "";
+        const page: any = await request(app)
+          .get(`/api/v1/transfers?walletId=${alice.walletId}&limit=3${query}`)
+          .set("Authorization", authHeader(alice.id))
+          .expect(200);
+        seen.push(...page.body.transfers.map((t: any) => t.id));
+        cursor = page.body.pagination.next_cursor;
+      } while (cursor);
+
+      expect(seen).toEqual([receivedId, ...[...sentIds].reverse()]);
+    });
+
+    it("should return 403 for another user's wallet", async () => {
+      await request(app)
+        .get(`/api/v1/transfers?walletId=${alice.walletId}`)
+        .set("Authorization", authHeader(carol.id))
+        .expect(403);
+    });
+
+    it("should return 400 without walletId or with an unknown status", async () => {
+      await request(app)
+        .get("/api/v1/transfers")
+        .set("Authorization", adminAuthHeader())
+        .expect(400);
+
+      const response = await request(app)
+        .get(`/api/v1/transfers?walletId=${alice.walletId}&status=settled`)
+        .set("Authorization", adminAuthHeader())
+        .expect(400);
+
+      expect(response.body.error).toBe("VALIDATION_ERROR");
+    });
+  });
+});
@@ -26,6 +26,32 @@ describe('E2E: Users API', () => {
       expect(response.body.wallet).toHaveProperty('id');
     });
 
+    it('should create a wallet in the requested currency', async () => {
+      const response = await request(app)
+        .post('/api/v1/users')
+        .send({
+          email: 'yen@example.com',
+          name: 'Yen User',
+          currency: 'jpy',
+        })
+        .expect(201);
+
+      expect(response.body.wallet.currency).toBe('JPY');
+    });
+
+    it('should return 400 for an unsupported currency', async () => {
+      const response = await request(app)
+        .post('/api/v1/users')
+        .send({
+          email: 'xyz@example.com',
+          name: 'XYZ User',
+          currency: 'XYZ',
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('VALIDATION_ERROR');
+    });
+
     it('should return 400 for invalid email', async () => {
       const response = await request(app)
         .post('/api/v1/users')
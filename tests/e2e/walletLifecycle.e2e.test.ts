@@ -0,0 +1,148 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  getWalletBalance,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Wallet lifecycle", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let alice: { id: string; walletId: string };
+  let bob: { id: string; walletId: string };
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    alice = await createTestUser("lifecycle-alice@example.com", "Alice");
+    bob = await createTestUser("lifecycle-bob@example.com", "Bob");
+
+    await fund(alice.walletId, 10000).expect(201);
+  });
+
+  function fund(walletId: string, amount: number) {
+    return request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .set("Idempotency-Key", `fund-lifecycle-${Date.now()}-${Math.random()}`)
+      .send({
+        walletId,
+        amount,
+        externalPaymentRef: `payment-lifecycle-${Date.now()}-${Math.random()}`,
+      });
+  }
+
+  function transfer(from: typeof alice, to: typeof alice, amount: number) {
+    return request(app)
+      .post("/api/v1/transactions/transfer")
+      .set("Authorization", authHeader(from.id))
+      .set(
+        "Idempotency-Key",
+        `transfer-lifecycle-${Date.now()}-${Math.random()}`
+      )
+      .send({
+        senderWalletId: from.walletId,
+        receiverWalletId: to.walletId,
+        amount,
+      });
+  }
+
+  function setStatus(walletId: string, status: string) {
+    return request(app)
+      .put(`/api/v1/wallets/${walletId}/status`)
+      .set("Authorization", adminAuthHeader())
+      .send({ status, reason: "Compliance review" });
+  }
+
+  it("should only let admins change wallet status", async () => {
+    await request(app)
+      .put(`/api/v1/wallets/${alice.walletId}/status`)
+      .set("Authorization", authHeader(alice.id))
+      .send({ status: "frozen", reason: "Trying it myself" })
+      .expect(403);
+  });
+
+  it("should block every posting on a frozen wallet until it is unfrozen", async () => {
+    const frozen = await setStatus(alice.walletId, "frozen").expect(200);
+    expect(frozen.body.wallet.status).toBe("frozen");
+
+    const outgoing = await transfer(alice, bob, 1000).expect(409);
+    expect(outgoing.body.error).toBe("WALLET_FROZEN");
+
+    const funding = await fund(alice.walletId, 1000).expect(409);
+    expect(funding.body.error).toBe("WALLET_FROZEN");
+
+    await setStatus(alice.walletId, "active").expect(200);
+    await transfer(alice, bob, 1000).expect(201);
+
+    const history = await request(app)
+      .get(`/api/v1/wallets/${alice.walletId}/status-history`)
+      .set("Authorization", adminAuthHeader())
+      .expect(200);
+
+    expect(history.body.changes).toEqual([
+      expect.objectContaining({
+        from_status: "active",
+        to_status: "frozen",
+        reason: "Compliance review",
+      }),
+      expect.objectContaining({ from_status: "frozen", to_status: "active" }),
+    ]);
+  });
+
+  it("should let a debit-frozen wallet receive but not send", async () => {
+    await setStatus(alice.walletId, "debit_frozen").expect(200);
+
+    const outgoing = await transfer(alice, bob, 1000).expect(409);
+    expect(outgoing.body.error).toBe("WALLET_DEBIT_FROZEN");
+
+    await fund(bob.walletId, 500).expect(201);
+    await transfer(bob, alice, 500).expect(201);
+
+    expect(await getWalletBalance(alice.walletId)).toBe(10500);
+  });
+
+  it("should refuse to close a wallet that still holds funds", async () => {
+    const response = await request(app)
+      .post(`/api/v1/wallets/${alice.walletId}/close`)
+      .set("Authorization", adminAuthHeader())
+      .set("Idempotency-Key", `close-lifecycle-${Date.now()}`)
+      .send({ reason: "Customer request" })
+      .expect(409);
+
+    expect(response.body.error).toBe("WALLET_NOT_EMPTY");
+  });
+
+  it("should sweep the remaining balance and close for good", async () => {
+    await setStatus(alice.walletId, "frozen").expect(200);
+
+    const closed = await request(app)
+      .post(`/api/v1/wallets/${alice.walletId}/close`)
+      .set("Authorization", adminAuthHeader())
+      .set("Idempotency-Key", `close-lifecycle-${Date.now()}`)
+      .send({ reason: "Customer request", sweepToWalletId: bob.walletId })
+      .expect(200);
+
+    expect(closed.body.wallet.status).toBe("closed");
+    expect(closed.body.sweep_transfer_id).toEqual(expect.any(String));
+    expect(await getWalletBalance(alice.walletId)).toBe(0);
+    expect(await getWalletBalance(bob.walletId)).toBe(10000);
+
+    const incoming = await transfer(bob, alice, 100).expect(409);
+    expect(incoming.body.error).toBe("WALLET_CLOSED");
+
+    const reopen = await setStatus(alice.walletId, "active").expect(409);
+    expect(reopen.body.error).toBe("WALLET_CLOSED");
+  });
+});
@@ -4,7 +4,14 @@ import request from 'supertest';
 // Use the app from global which is set in setup.ts beforeAll
 import appModule from '../../src/app';
 let app: any = (global as any).__TEST_APP__ || appModule;
-import { cleanupTestData, createTestUser, getWalletId, getWalletBalance } from './helpers';
+import {
+  cleanupTestData,
+  createTestUser,
+  getWalletId,
+  getWalletBalance,
+  adminAuthHeader,
+  authHeader,
+} from './helpers';
 
 describe('E2E: Wallets API', () => {
   // Ensure we use the app from global (set in setup.ts beforeAll)
@@ -32,6 +39,7 @@ describe('E2E: Wallets API', () => {
     it('should return 0 balance for new wallet', async () => {
       const response = await request(app)
         .get(`/api/v1/wallets/${userId}/balance`)
+        .set('Authorization', adminAuthHeader())
         .expect(200);
 
       expect(response.body).toHaveProperty('balance');
@@ -44,6 +52,7 @@ describe('E2E: Wallets API', () => {
       const uniquePaymentRef = `payment-wallet-${Date.now()}-${Math.random()}`;
       await request(app)
         .post('/api/v1/transactions/fund')
+        .set('Authorization', adminAuthHeader())
         .set('Idempotency-Key', `fund-wallet-${Date.now()}`)
         .send({
           walletId,
@@ -54,6 +63,7 @@ describe('E2E: Wallets API', () => {
 
       const response = await request(app)
         .get(`/api/v1/wallets/${userId}/balance`)
+        .set('Authorization', adminAuthHeader())
         .expect(200);
 
       expect(response.body.balance).toBe(10000);
@@ -63,10 +73,221 @@ describe('E2E: Wallets API', () => {
       const fakeUserId = '00000000-0000-0000-0000-000000000000';
       const response = await request(app)
         .get(`/api/v1/wallets/${fakeUserId}/balance`)
+        .set('Authorization', adminAuthHeader())
         .expect(404);
 
       expect(response.body).toHaveProperty('error');
       expect(response.body.error).toBe('WALLET_NOT_FOUND');
     });
   });
+
+  describe('Multiple wallets per user', () => {
+    async function openWallet(label: string, currency?: string) {
+      const response = await request(app)
+        .post(`/api/v1/users/${userId}/wallets`)
+        .set('Authorization', authHeader(userId))
+        .send({ label, currency })
+        .expect(201);
+
+      return response.body.wallet;
+    }
+
+    it('should list every wallet with its balance, default first', async () => {
+      const savings = await openWallet('savings');
+      const euros = await openWallet('euros', 'EUR');
+
+      expect(savings.is_default).toBe(false);
+      expect(euros.currency).toBe('EUR');
+
+      const response = await request(app)
+        .get(`/api/v1/users/${userId}/wallets`)
+        .set('Authorization', authHeader(userId))
+        .expect(200);
+
+      expect(response.body.wallets).toEqual([
+        expect.objectContaining({
+          id: walletId,
+          label: 'main',
+          is_default: true,
+          balance: 0,
+        }),
+        expect.objectContaining({ label: 'savings', is_default: false }),
+        expect.objectContaining({ label: 'euros', currency: 'EUR' }),
+      ]);
+    });
+
+    it('should reject a duplicate label', async () => {
+      await openWallet('bills');
+
+      const response = await request(app)
+        .post(`/api/v1/users/${userId}/wallets`)
+        .set('Authorization', authHeader(userId))
+        .send({ label: 'bills' })
+        .expect(409);
+
+      expect(response.body.error).toBe('DUPLICATE_WALLET_LABEL');
+    });
+
+    it('should not let other users open or list wallets', async () => {
+      const other = await createTestUser('other-wallet@example.com', 'Other');
+
+      await request(app)
+        .get(`/api/v1/users/${userId}/wallets`)
+        .set('Authorization', authHeader(other.id))
+        .expect(403);
+      await request(app)
+        .post(`/api/v1/users/${userId}/wallets`)
+        .set('Authorization', authHeader(other.id))
+        .send({ label: 'mine-now' })
+        .expect(403);
+    });
+
+    it('should resolve the balance endpoint through the default wallet', async () => {
+      const savings = await openWallet('savings');
+
+      await request(app)
+        .put(`/api/v1/users/${userId}/wallets/${savings.id}/default`)
+        .set('Authorization', authHeader(userId))
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/v1/wallets/${userId}/balance`)
+        .set('Authorization', authHeader(userId))
+        .expect(200);
+
+      expect(response.body.wallet_id).toBe(savings.id);
+    });
+
+    it('should move funds between pockets with a regular transfer', async () => {
+      const savings = await openWallet('savings');
+
+      await request(app)
+        .post('/api/v1/transactions/fund')
+        .set('Authorization', adminAuthHeader())
+        .set('Idempotency-Key', `fund-pockets-${Date.now()}`)
+        .send({
+          walletId,
+          amount: 10000,
+          externalPaymentRef: `payment-pockets-${Date.now()}-${Math.random()}`,
+        })
+        .expect(201);
+
+      await request(app)
+        .post('/api/v1/transactions/transfer')
+        .set('Authorization', authHeader(userId))
+        .set('Idempotency-Key', `transfer-pockets-${Date.now()}`)
+        .send({
+          senderWalletId: walletId,
+          receiverWalletId: savings.id,
+          amount: 2500,
+        })
+        .expect(201);
+
+      expect(await getWalletBalance(walletId)).toBe(7500);
+      expect(await getWalletBalance(savings.id)).toBe(2500);
+    });
+  });
+
+  describe('GET /api/v1/wallets/:walletId/statements', () => {
+    const from = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const to = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+    beforeEach(async () => {
+      for (const [index, amount] of [10000, 2500].entries()) {
+        await request(app)
+          .post('/api/v1/transactions/fund')
+          .set('Authorization', adminAuthHeader())
+          .set('Idempotency-Key', `fund-statement-${index}-${Date.now()}`)
+          .send({
+            walletId,
+            amount,
+            externalPaymentRef: `payment-statement-${index}-${Date.now()}`,
+          })
+          .expect(201);
+      }
+    });
+
+    it('should return opening and closing balances with running balances as JSON', async () => {
+      const response = await request(app)
+        .get(`/api/v1/wallets/${walletId}/statements`)
+        .query({ from, to })
+        .set('Authorization', authHeader(userId))
+        .expect(200);
+
+      expect(response.body.opening_balance).toBe(0);
+      expect(
+        response.body.entries.map((e: any) => e.balance_after)
+      ).toEqual([10000, 12500]);
+      expect(response.body.closing_balance).toBe(12500);
+      expect(response.body.totals_by_type).toEqual([
+        { type: 'fund', credits: 12500, debits: 0, count: 2 },
+      ]);
+    });
+
+    it('should open with the balance carried into the period', async () => {
+      const response = await request(app)
+        .get(`/api/v1/wallets/${walletId}/statements`)
+        .query({
+          from: to,
+          to: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
+        })
+        .set('Authorization', authHeader(userId))
+        .expect(200);
+
+      expect(response.body.opening_balance).toBe(12500);
+      expect(response.body.entries).toEqual([]);
+      expect(response.body.closing_balance).toBe(12500);
+    });
+
+    it('should download a CSV statement', async () => {
+      const response = await request(app)
+        .get(`/api/v1/wallets/${walletId}/statements`)
+        .query({ from, to, format: 'csv' })
+        .set('Authorization', authHeader(userId))
+        .expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+      expect(response.headers['content-disposition']).toMatch(/\.csv"$/);
+      const rows = response.text.trimEnd().split('\r\n');
+      expect(rows[1]).toMatch(/^opening_balance,.*,0\.00,USD$/);
+      expect(rows[3]).toMatch(/,125\.00,USD$/);
+    });
+
+    it('should download a PDF statement', async () => {
+      const response = await request(app)
+        .get(`/api/v1/wallets/${walletId}/statements`)
+        .query({ from, to, format: 'pdf' })
+        .set('Authorization', authHeader(userId))
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.body.subarray(0, 8).toString()).toBe('%PDF-1.4');
+    });
+
+    it('should not show another user their statement', async () => {
+      const other = await createTestUser('other-statement@example.com', 'Other');
+
+      await request(app)
+        .get(`/api/v1/wallets/${walletId}/statements`)
+        .query({ from, to })
+        .set('Authorization', authHeader(other.id))
+        .expect(403);
+    });
+
+    it('should return 400 for a period that ends before it starts', async () => {
+      const response = await request(app)
+        .get(`/api/v1/wallets/${walletId}/statements`)
+        .query({ from: to, to: from })
+        .set('Authorization', authHeader(userId))
+        .expect(400);
+
+      expect(response.body.error).toBe('VALIDATION_ERROR');
+    });
+  });
 });
@@ -0,0 +1,146 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  authHeader,
+  adminAuthHeader,
+} from "./helpers";
+
+describe("E2E: Webhooks", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let user: { id: string; walletId: string };
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    user = await createTestUser("hooks@example.com", "Hooks User");
+  });
+
+  // Load the service after setup.ts has pointed the pool at the test database
+  async function createDispatcher(status: number) {
+    const { WebhookService } = await import(
+      "../../src/services/WebhookService"
+    );
+    const sent: { url: string; body: string; headers: any }[] = [];
+    const service = new WebhookService(async (url, body, headers) => {
+      sent.push({ url, body, headers });
+      return { status };
+    });
+    return { service, sent };
+  }
+
+  async function subscribe(eventTypes: string[]) {
+    const response = await request(app)
+      .post("/api/v1/webhooks/subscriptions")
+      .set("Authorization", adminAuthHeader())
+      .send({ url: "https://merchant.example.com/hooks", eventTypes })
+      .expect(201);
+
+    return response.body;
+  }
+
+  function fund(ref: string) {
+    return request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .send({ walletId: user.walletId, amount: 2500, externalPaymentRef: ref });
+  }
+
+  it("should only let admins manage subscriptions", async () => {
+    await request(app)
+      .get("/api/v1/webhooks/subscriptions")
+      .set("Authorization", authHeader(user.id))
+      .expect(403);
+  });
+
+  it("should deliver a signed wallet.funded event after funding commits", async () => {
+    const { secret } = await subscribe(["wallet.funded"]);
+    expect(secret).toMatch(/^whsec_/);
+
+    await fund(`payment-hook-${Date.now()}`).expect(201);
+
+    const { service, sent } = await createDispatcher(200);
+    expect(await service.dispatchDue()).toBe(1);
+
+    const event = JSON.parse(sent[0].body);
+    expect(event.type).toBe("wallet.funded");
+    expect(event.data.wallet_id).toBe(user.walletId);
+    expect(event.data.amount).toBe(2500);
+    expect(sent[0].headers["Webhook-Signature"]).toMatch(
+      /^t=\d+,v1=[0-9a-f]{64}$/
+    );
+
+    // Delivered events are not sent again
+    expect(await service.dispatchDue()).toBe(0);
+  });
+
+  it("should not queue events for rejected funding", async () => {
+    await subscribe(["wallet.funded"]);
+    const ref = `payment-dup-${Date.now()}`;
+
+    await fund(ref).expect(201);
+    await fund(ref).expect(409);
+
+    const { service } = await createDispatcher(200);
+    expect(await service.dispatchDue()).toBe(1);
+  });
+
+  it("should dead-letter deliveries that exhaust their attempts and allow a retry", async () => {
+    const previous = process.env.WEBHOOK_MAX_ATTEMPTS;
+    process.env.WEBHOOK_MAX_ATTEMPTS = "1";
+
+    try {
+      await subscribe(["wallet.funded"]);
+      await fund(`payment-dead-${Date.now()}`).expect(201);
+
+      const { service } = await createDispatcher(500);
+      await service.dispatchDue();
+    } finally {
+      process.env.WEBHOOK_MAX_ATTEMPTS = previous;
+    }
+
+    const deadLetters = await request(app)
+      .get("/api/v1/webhooks/dead-letters")
+      .set("Authorization", adminAuthHeader())
+      .expect(200);
+
+    expect(deadLetters.body.deliveries).toHaveLength(1);
+    const delivery = deadLetters.body.deliveries[0];
+    expect(delivery.last_response_status).toBe(500);
+
+    const retried = await request(app)
+      .post(`/api/v1/webhooks/deliveries/${delivery.id}/retry`)
+      .set("Authorization", adminAuthHeader())
+      .expect(200);
+
+    expect(retried.body.delivery.status).toBe("pending");
+
+    const { service, sent } = await createDispatcher(204);
+    expect(await service.dispatchDue()).toBe(1);
+    expect(sent).toHaveLength(1);
+  });
+
+  it("should stop queueing events for disabled subscriptions", async () => {
+    const { subscription } = await subscribe(["wallet.funded"]);
+
+    await request(app)
+      .delete(`/api/v1/webhooks/subscriptions/${subscription.id}`)
+      .set("Authorization", adminAuthHeader())
+      .expect(200);
+
+    await fund(`payment-disabled-${Date.now()}`).expect(201);
+
+    const { service } = await createDispatcher(200);
+    expect(await service.dispatchDue()).toBe(0);
+  });
+});
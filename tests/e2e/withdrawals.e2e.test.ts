@@ -0,0 +1,346 @@
+import request from "supertest";
+// Import app - it will be re-imported in setup.ts beforeAll with correct pool
+// The beforeAll hook ensures the app uses the test database
+// Use the app from global which is set in setup.ts beforeAll
+import appModule from "../../src/app";
+let app: any = (global as any).__TEST_APP__ || appModule;
+import {
+  cleanupTestData,
+  createTestUser,
+  getWalletBalance,
+  authHeader,
+  adminAuthHeader,
+  submitDuePayouts,
+} from "./helpers";
+
+describe("E2E: Withdrawals API", () => {
+  // Ensure we use the app from global (set in setup.ts beforeAll)
+  beforeAll(() => {
+    if ((global as any).__TEST_APP__) {
+      app = (global as any).__TEST_APP__;
+    }
+  });
+
+  let alice: { id: string; walletId: string };
+
+  // A payout provider integration reporting outcomes
+  const providerAuthHeader = () =>
+    authHeader("payout-provider", {
+      scopes: ["payouts:callback"],
+      type: "service",
+    });
+
+  beforeEach(async () => {
+    await cleanupTestData();
+    alice = await createTestUser("alice@example.com", "Alice");
+
+    await request(app)
+      .post("/api/v1/transactions/fund")
+      .set("Authorization", adminAuthHeader())
+      .set("Idempotency-Key", `fund-withdrawals-${alice.id}`)
+      .send({
+        walletId: alice.walletId,
+        amount: 10000,
+        externalPaymentRef: `funding-${alice.id}`,
+      })
+      .expect(201);
+  });
+
+  function withdraw(body: Record<string, unknown> = {}, key?: string) {
+    return request(app)
+      .post("/api/v1/transactions/withdraw")
+      .set("Authorization", authHeader(alice.id))
+      .set("Idempotency-Key", key || `withdraw-${Date.now()}-${Math.random()}`)
+      .send({
+        walletId: alice.walletId,
+        amount: 4000,
+        externalPaymentRef: `payout-${Date.now()}-${Math.random()}`,
+        destination: { type: "bank_account", account_id: "acct_123" },
+        ...body,
+      });
+  }
+
+  async function outboxEventTypes(withdrawalId: string): Promise<string[]> {
+    const { pool } = await import("../../src/config/database");
+    const result = await pool.query(
+      "SELECT event_type FROM outbox_events WHERE aggregate_id = $1 ORDER BY position",
+      [withdrawalId]
+    );
+    return result.rows.map((row: any) => row.event_type);
+  }
+
+  describe("POST /api/v1/transactions/withdraw", () => {
+    it("should debit the wallet and leave the withdrawal pending", async () => {
+      const response = await withdraw().expect(201);
+
+      const { withdrawal } = response.body;
+      expect(withdrawal.status).toBe("pending");
+      expect(withdrawal.amount).toBe(4000);
+      expect(withdrawal.currency).toBe("USD");
+      expect(withdrawal.provider).toBe("local");
+      expect(withdrawal.provider_reference).toMatch(/^local_/);
+      expect(withdrawal.payout_attempts).toBe(1);
+      expect(withdrawal.next_payout_attempt_at).toBeNull();
+      expect(withdrawal.destination).toEqual({
+        type: "bank_account",
+        account_id: "acct_123",
+      });
+      expect(await getWalletBalance(alice.walletId)).toBe(6000);
+      expect(await outboxEventTypes(withdrawal.id)).toEqual([
+        "withdrawal.created",
+      ]);
+    });
+
+    it("should keep the ledger balanced through payout clearing", async () => {
+      await withdraw().expect(201);
+
+      const response = await request(app)
+        .get("/api/v1/ledger/trial-balance")
+        .set("Authorization", adminAuthHeader())
+        .expect(200);
+
+      const usd = response.body.totals.find((t: any) => t.currency === "USD");
+      expect(usd.net).toBe(0);
+
+      const clearing = response.body.accounts.find(
+        (a: any) => a.system_code === "payout_clearing"
+      );
+      expect(clearing.balance).toBe(4000);
+    });
+
+    it("should replay a retried request with the same idempotency key", async () => {
+      const body = { externalPaymentRef: "payout-retry" };
+      const first = await withdraw(body, "withdraw-retry").expect(201);
+      const second = await withdraw(body, "withdraw-retry").expect(201);
+
+      expect(second.body.withdrawal.id).toBe(first.body.withdrawal.id);
+      expect(await getWalletBalance(alice.walletId)).toBe(6000);
+    });
+
+    it("should reject an external payment reference already used", async () => {
+      await withdraw({ externalPaymentRef: "payout-dup" }).expect(201);
+
+      const response = await withdraw({
+        externalPaymentRef: "payout-dup",
+      }).expect(409);
+
+      expect(response.body.error).toBe("DUPLICATE_PAYMENT_REF");
+      expect(await getWalletBalance(alice.walletId)).toBe(6000);
+    });
+
+    it("should reject a reference already used for funding", async () => {
+      const response = await withdraw({
+        externalPaymentRef: `funding-${alice.id}`,
+      }).expect(409);
+
+      expect(response.body.error).toBe("DUPLICATE_PAYMENT_REF");
+    });
+
+    it("should reject a withdrawal above the available balance", async () => {
+      const response = await withdraw({ amount: 10001 }).expect(400);
+
+      expect(response.body.error).toBe("INSUFFICIENT_BALANCE");
+      expect(await getWalletBalance(alice.walletId)).toBe(10000);
+    });
+
+    it("should forbid withdrawing from another user's wallet", async () => {
+      const bob = await createTestUser("bob@example.com", "Bob");
+
+      await request(app)
+        .post("/api/v1/transactions/withdraw")
+        .set("Authorization", authHeader(bob.id))
+        .set("Idempotency-Key", "withdraw-forbidden")
+        .send({
+          walletId: alice.walletId,
+          amount: 1000,
+          externalPaymentRef: "payout-forbidden",
+          destination: { account_id: "acct_bob" },
+        })
+        .expect(403);
+    });
+  });
+
+  describe("payout submission", () => {
+    it("should resubmit a payout whose reference was never recorded", async () => {
+      const created = await withdraw().expect(201);
+      const { id, provider_reference } = created.body.withdrawal;
+
+      // As if the server stopped before the provider's reply was saved
+      const { pool } = await import("../../src/config/database");
+      await pool.query(
+        `UPDATE withdrawals
+        SET provider_reference = NULL, next_payout_attempt_at = NOW()
+        WHERE id = $1`,
+        [id]
+      );
+
+      expect(await submitDuePayouts()).toBe(1);
+
+      const response = await request(app)
+        .get(`/api/v1/transactions/withdrawals/${id}`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      const { withdrawal } = response.body;
+      expect(withdrawal.status).toBe("pending");
+      // Same idempotency key, so the provider returns the same payout
+      expect(withdrawal.provider_reference).toBe(provider_reference);
+      expect(withdrawal.payout_attempts).toBe(2);
+      expect(withdrawal.next_payout_attempt_at).toBeNull();
+      expect(await getWalletBalance(alice.walletId)).toBe(6000);
+    });
+
+    it("should leave a submitted payout alone", async () => {
+      await withdraw().expect(201);
+
+      expect(await submitDuePayouts()).toBe(0);
+    });
+  });
+
+  describe("POST /api/v1/transactions/withdrawals/:id/settle", () => {
+    it("should settle a pending withdrawal", async () => {
+      const created = await withdraw().expect(201);
+      const { id } = created.body.withdrawal;
+
+      const response = await request(app)
+        .post(`/api/v1/transactions/withdrawals/${id}/settle`)
+        .set("Authorization", providerAuthHeader())
+        .expect(200);
+
+      expect(response.body.withdrawal.status).toBe("settled");
+      expect(response.body.withdrawal.completed_at).not.toBeNull();
+      expect(await getWalletBalance(alice.walletId)).toBe(6000);
+      expect(await outboxEventTypes(id)).toEqual([
+        "withdrawal.created",
+        "withdrawal.settled",
+      ]);
+    });
+
+    it("should require the payouts:callback scope", async () => {
+      const created = await withdraw().expect(201);
+
+      await request(app)
+        .post(
+          `/api/v1/transactions/withdrawals/${created.body.withdrawal.id}/settle`
+        )
+        .set("Authorization", authHeader(alice.id))
+        .expect(403);
+    });
+  });
+
+  describe("POST /api/v1/transactions/withdrawals/:id/fail", () => {
+    it("should fail a pending withdrawal and return its debit", async () => {
+      const created = await withdraw().expect(201);
+      const { id } = created.body.withdrawal;
+
+      const response = await request(app)
+        .post(`/api/v1/transactions/withdrawals/${id}/fail`)
+        .set("Authorization", providerAuthHeader())
+        .send({ reason: "Account closed at the bank" })
+        .expect(200);
+
+      const { withdrawal } = response.body;
+      expect(withdrawal.status).toBe("failed");
+      expect(withdrawal.failure_reason).toBe("Account closed at the bank");
+      expect(withdrawal.reversal_transaction_reference).toBe(
+        `withdrawal_reversal_${id}`
+      );
+      expect(await getWalletBalance(alice.walletId)).toBe(10000);
+      expect(await outboxEventTypes(id)).toEqual([
+        "withdrawal.created",
+        "withdrawal.failed",
+      ]);
+    });
+
+    it("should return the debit only once when the callback is repeated", async () => {
+      const created = await withdraw().expect(201);
+      const { id } = created.body.withdrawal;
+
+      for (let i = 0; i < 2; i++) {
+        await request(app)
+          .post(`/api/v1/transactions/withdrawals/${id}/fail`)
+          .set("Authorization", providerAuthHeader())
+          .send({ reason: "Account closed at the bank" })
+          .expect(200);
+      }
+
+      expect(await getWalletBalance(alice.walletId)).toBe(10000);
+    });
+
+    it("should not let a client that creates payouts report one failed", async () => {
+      const created = await withdraw().expect(201);
+
+      await request(app)
+        .post(
+          `/api/v1/transactions/withdrawals/${created.body.withdrawal.id}/fail`
+        )
+        .set(
+          "Authorization",
+          authHeader("payout-client", {
+            scopes: ["payouts:write"],
+            type: "service",
+          })
+        )
+        .send({ reason: "Account closed at the bank" })
+        .expect(403);
+
+      expect(await getWalletBalance(alice.walletId)).toBe(6000);
+    });
+
+    it("should refuse to fail a settled withdrawal", async () => {
+      const created = await withdraw().expect(201);
+      const { id } = created.body.withdrawal;
+
+      await request(app)
+        .post(`/api/v1/transactions/withdrawals/${id}/settle`)
+        .set("Authorization", providerAuthHeader())
+        .expect(200);
+
+      const response = await request(app)
+        .post(`/api/v1/transactions/withdrawals/${id}/fail`)
+        .set("Authorization", providerAuthHeader())
+        .send({ reason: "Too late" })
+        .expect(409);
+
+      expect(response.body.error).toBe("INVALID_WITHDRAWAL_STATE");
+      expect(await getWalletBalance(alice.walletId)).toBe(6000);
+    });
+  });
+
+  describe("GET /api/v1/transactions/withdrawals/:id", () => {
+    it("should return the caller's withdrawal", async () => {
+      const created = await withdraw().expect(201);
+      const { id } = created.body.withdrawal;
+
+      const response = await request(app)
+        .get(`/api/v1/transactions/withdrawals/${id}`)
+        .set("Authorization", authHeader(alice.id))
+        .expect(200);
+
+      expect(response.body.withdrawal.id).toBe(id);
+    });
+
+    it("should return 404 for an unknown withdrawal", async () => {
+      const response = await request(app)
+        .get(
+          "/api/v1/transactions/withdrawals/00000000-0000-0000-0000-000000000000"
+        )
+        .set("Authorization", adminAuthHeader())
+        .expect(404);
+
+      expect(response.body.error).toBe("WITHDRAWAL_NOT_FOUND");
+    });
+  });
+
+  it("should not close a wallet while a withdrawal is pending", async () => {
+    await withdraw({ amount: 10000 }).expect(201);
+
+    const response = await request(app)
+      .post(`/api/v1/wallets/${alice.walletId}/close`)
+      .set("Authorization", adminAuthHeader())
+      .send({ reason: "Customer request" })
+      .expect(409);
+
+    expect(response.body.error).toBe("WALLET_NOT_EMPTY");
+  });
+});
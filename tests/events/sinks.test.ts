@@ -0,0 +1,92 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  BrokerSink,
+  EmitterSink,
+  NdjsonFileSink,
+  createSinkFromEnv,
+} from '../../src/events/sinks';
+import { OutboxEvent } from '../../src/models/OutboxEvent';
+
+describe('event sinks', () => {
+  const event = (position: number): OutboxEvent => ({
+    position,
+    id: `event-${position}`,
+    aggregate_type: 'user',
+    aggregate_id: 'user-123',
+    event_type: 'user.created',
+    payload: { user: { id: 'user-123' } },
+    created_at: new Date('2024-01-01T00:00:00.000Z'),
+  });
+
+  describe('EmitterSink', () => {
+    it('should emit each event under its type and the catch-all name', async () => {
+      const emitter = new EventEmitter();
+      const byType = jest.fn();
+      const all = jest.fn();
+      emitter.on('user.created', byType);
+      emitter.on('event', all);
+
+      await new EmitterSink(emitter).publish([event(1), event(2)]);
+
+      expect(byType).toHaveBeenCalledTimes(2);
+      expect(all.mock.calls.map(([e]) => e.position)).toEqual([1, 2]);
+    });
+  });
+
+  describe('NdjsonFileSink', () => {
+    it('should append one JSON line per event', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+      const file = path.join(dir, 'events.ndjson');
+      const sink = new NdjsonFileSink(file);
+
+      await sink.publish([event(1)]);
+      await sink.publish([event(2), event(3)]);
+
+      const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line).position)).toEqual([1, 2, 3]);
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('BrokerSink', () => {
+    it('should send the batch keyed by aggregate ID', async () => {
+      const producer = { send: jest.fn().mockResolvedValue(undefined) };
+
+      await new BrokerSink(producer, 'ledger-events').publish([event(1)]);
+
+      expect(producer.send).toHaveBeenCalledWith('ledger-events', [
+        {
+          key: 'user-123',
+          value: JSON.stringify(event(1)),
+          headers: { 'event-id': 'event-1', 'event-type': 'user.created' },
+        },
+      ]);
+    });
+  });
+
+  describe('createSinkFromEnv', () => {
+    const original = process.env.OUTBOX_SINK;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.OUTBOX_SINK;
+      } else {
+        process.env.OUTBOX_SINK = original;
+      }
+    });
+
+    it('should default to the in-process emitter', () => {
+      delete process.env.OUTBOX_SINK;
+      expect(createSinkFromEnv()).toBeInstanceOf(EmitterSink);
+    });
+
+    it('should reject unknown sinks', () => {
+      process.env.OUTBOX_SINK = 'carrier-pigeon';
+      expect(() => createSinkFromEnv()).toThrow('Unknown OUTBOX_SINK');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  assertWalletAccess,
+  canAccessUser,
+} from '../../src/middleware/auth';
+import { Principal } from '../../src/models/Principal';
+import { pool } from '../../src/config/database';
+import { ForbiddenError, WalletNotFoundError } from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+describe('assertWalletAccess', () => {
+  const mockPool = pool as any;
+
+  const userWallet = {
+    id: 'wallet-user',
+    user_id: 'user-1',
+    system_code: null,
+    label: 'main',
+    is_default: true,
+    currency: 'USD',
+    status: 'active',
+    created_at: new Date(),
+  };
+
+  const systemWallet = {
+    ...userWallet,
+    id: 'wallet-fees',
+    user_id: null,
+    system_code: 'fee_revenue',
+    label: null,
+    is_default: false,
+  };
+
+  const principal = (overrides: Partial<Principal> = {}): Principal => ({
+    type: 'user',
+    subject: 'user-1',
+    user_id: 'user-1',
+    scopes: [],
+    ...overrides,
+  });
+
+  const service = (scopes: string[] = []) =>
+    principal({ type: 'service', subject: 'client-1', user_id: null, scopes });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should let a user act on their own wallet', async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [userWallet] });
+
+    await expect(
+      assertWalletAccess(principal(), 'wallet-user')
+    ).resolves.toBeUndefined();
+  });
+
+  it("should forbid a user acting on another user's wallet", async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [userWallet] });
+
+    await expect(
+      assertWalletAccess(
+        principal({ subject: 'user-2', user_id: 'user-2' }),
+        'wallet-user'
+      )
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should forbid a user acting on a system wallet', async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [systemWallet] });
+
+    await expect(
+      assertWalletAccess(principal(), 'wallet-fees')
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should forbid a service principal acting on a system wallet', async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [systemWallet] });
+
+    await expect(
+      assertWalletAccess(service(['ledger:read']), 'wallet-fees')
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should forbid a service principal acting on a user wallet', async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [userWallet] });
+
+    await expect(
+      assertWalletAccess(service(), 'wallet-user', 'transfers:write')
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should let a service principal with a bypass scope through', async () => {
+    await expect(
+      assertWalletAccess(
+        service(['transfers:write']),
+        'wallet-user',
+        'transfers:write'
+      )
+    ).resolves.toBeUndefined();
+    expect(mockPool.query).not.toHaveBeenCalled();
+  });
+
+  it('should throw WalletNotFoundError for an unknown wallet', async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+    await expect(assertWalletAccess(service(), 'missing')).rejects.toThrow(
+      WalletNotFoundError
+    );
+  });
+});
+
+describe('canAccessUser', () => {
+  const principal = (overrides: Partial<Principal> = {}): Principal => ({
+    type: 'user',
+    subject: 'user-1',
+    user_id: 'user-1',
+    scopes: [],
+    ...overrides,
+  });
+
+  it('should let a user access themselves', () => {
+    expect(canAccessUser(principal(), 'user-1')).toBe(true);
+  });
+
+  it('should not let a user access another user', () => {
+    expect(canAccessUser(principal(), 'user-2')).toBe(false);
+  });
+
+  it('should let an admin access any user', () => {
+    expect(
+      canAccessUser(
+        principal({ type: 'service', user_id: null, scopes: ['admin'] }),
+        'user-2'
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import { ApiKeyService } from '../../src/services/ApiKeyService';
+import { pool } from '../../src/config/database';
+import {
+  ApiKeyNotFoundError,
+  ApiKeyRevokedError,
+  RateLimitExceededError,
+  UnauthorizedError,
+} from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+describe('ApiKeyService', () => {
+  let apiKeyService: ApiKeyService;
+  const mockPool = pool as any;
+
+  const sha256 = (value: string) =>
+    crypto.createHash('sha256').update(value).digest('hex');
+
+  const secret = 'a'.repeat(32);
+  const key = `lwk_0123456789ab_${secret}`;
+
+  const keyRow = {
+    id: 'key-1',
+    name: 'Payment processor',
+    key_prefix: '0123456789ab',
+    secret_hash: sha256(secret),
+    scopes: ['funding:write'],
+    rate_limit_per_minute: 600,
+    last_used_at: null,
+    rotated_at: null,
+    revoked_at: null,
+    created_at: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    apiKeyService = new ApiKeyService();
+  });
+
+  describe('createKey', () => {
+    it('should store only the hash of the generated secret', async () => {
+      mockPool.query.mockImplementationOnce((_sql: string, params: any[]) =>
+        Promise.resolve({
+          rows: [{ ...keyRow, key_prefix: params[1], secret_hash: params[2] }],
+        })
+      );
+
+      const { api_key, key: issued } = await apiKeyService.createKey({
+        name: 'Payment processor',
+        scopes: ['funding:write'],
+      });
+
+      const match = /^lwk_([0-9a-f]{12})_(.{32})$/.exec(issued);
+      expect(match).not.toBeNull();
+      const [, prefix, issuedSecret] = match!;
+
+      const params = mockPool.query.mock.calls[0][1];
+      expect(params).toEqual([
+        'Payment processor',
+        prefix,
+        sha256(issuedSecret),
+        ['funding:write'],
+        600,
+      ]);
+      expect(params).not.toContain(issuedSecret);
+      expect(api_key.key_prefix).toBe(prefix);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve a valid key to a service principal and record usage', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [keyRow] })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              rate_window_count: 1,
+              rate_limit_per_minute: 600,
+              retry_after: '60',
+            },
+          ],
+        });
+
+      const principal = await apiKeyService.authenticate(key);
+
+      expect(principal).toEqual({
+        type: 'service',
+        subject: 'key-1',
+        user_id: null,
+        scopes: ['funding:write'],
+      });
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET last_used_at = NOW()'),
+        ['key-1']
+      );
+    });
+
+    it('should reject keys that are malformed', async () => {
+      await expect(apiKeyService.authenticate('not-a-key')).rejects.toThrow(
+        UnauthorizedError
+      );
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject a key whose secret does not match', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [keyRow] });
+
+      await expect(
+        apiKeyService.authenticate(`lwk_0123456789ab_${'b'.repeat(32)}`)
+      ).rejects.toThrow('Invalid API key');
+    });
+
+    it('should reject an unknown prefix', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow(
+        'Invalid API key'
+      );
+    });
+
+    it('should reject revoked keys without recording usage', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ ...keyRow, revoked_at: new Date() }],
+      });
+
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow(
+        'API key has been revoked'
+      );
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw RateLimitExceededError once the window is used up', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [keyRow] })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              rate_window_count: 601,
+              rate_limit_per_minute: 600,
+              retry_after: '42',
+            },
+          ],
+        });
+
+      const error = await apiKeyService.authenticate(key).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RateLimitExceededError);
+      expect(error.retryAfterSeconds).toBe(42);
+    });
+  });
+
+  describe('rotateKey', () => {
+    it('should replace the prefix and hash and return the new key', async () => {
+      mockPool.query.mockImplementationOnce((_sql: string, params: any[]) =>
+        Promise.resolve({
+          rows: [{ ...keyRow, key_prefix: params[1], rotated_at: new Date() }],
+        })
+      );
+
+      const { api_key, key: issued } = await apiKeyService.rotateKey('key-1');
+
+      expect(issued).not.toBe(key);
+      expect(issued.startsWith(`lwk_${api_key.key_prefix}_`)).toBe(true);
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('revoked_at IS NULL'),
+        expect.arrayContaining(['key-1'])
+      );
+    });
+
+    it('should refuse to rotate a revoked key', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({
+          rows: [{ ...keyRow, revoked_at: new Date() }],
+        });
+
+      await expect(apiKeyService.rotateKey('key-1')).rejects.toThrow(
+        ApiKeyRevokedError
+      );
+    });
+
+    it('should throw ApiKeyNotFoundError for an unknown key', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await expect(apiKeyService.rotateKey('missing')).rejects.toThrow(
+        ApiKeyNotFoundError
+      );
+    });
+  });
+
+  describe('revokeKey', () => {
+    it('should keep the original revocation time', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ ...keyRow, revoked_at: new Date() }],
+      });
+
+      const apiKey = await apiKeyService.revokeKey('key-1');
+
+      expect(apiKey.revoked_at).not.toBeNull();
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('COALESCE(revoked_at, NOW())'),
+        ['key-1']
+      );
+    });
+
+    it('should throw ApiKeyNotFoundError for an unknown key', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(apiKeyService.revokeKey('missing')).rejects.toThrow(
+        ApiKeyNotFoundError
+      );
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { AuthService, loadAuthConfig } from '../../src/services/AuthService';
+import { UnauthorizedError } from '../../src/utils/errors';
+
+describe('AuthService', () => {
+  const secret = 'test-secret';
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1' };
+
+  let authService: AuthService;
+
+  beforeEach(() => {
+    authService = new AuthService({ hmacSecret: secret, jwks: [jwk] });
+  });
+
+  describe('verifyToken', () => {
+    it('should verify an HS256 token and map it to a user principal', () => {
+      const token = jwt.sign({ sub: 'user-123' }, secret, {
+        algorithm: 'HS256',
+      });
+
+      expect(authService.verifyToken(token)).toEqual({
+        type: 'user',
+        subject: 'user-123',
+        user_id: 'user-123',
+        scopes: [],
+      });
+    });
+
+    it('should verify an RS256 token against the JWKS key named by kid', () => {
+      const token = jwt.sign({ sub: 'user-123' }, privateKey, {
+        algorithm: 'RS256',
+        keyid: 'key-1',
+      });
+
+      expect(authService.verifyToken(token).user_id).toBe('user-123');
+    });
+
+    it('should reject an RS256 token with an unknown kid', () => {
+      const token = jwt.sign({ sub: 'user-123' }, privateKey, {
+        algorithm: 'RS256',
+        keyid: 'key-2',
+      });
+
+      expect(() => authService.verifyToken(token)).toThrow(
+        'Unknown token signing key'
+      );
+    });
+
+    it('should reject an HS256 token signed with the RSA public key', () => {
+      // Classic algorithm confusion: the public key is not a secret
+      const pem = publicKey.export({ format: 'pem', type: 'spki' }) as string;
+      const token = jwt.sign({ sub: 'user-123' }, pem, { algorithm: 'HS256' });
+
+      expect(() => authService.verifyToken(token)).toThrow(UnauthorizedError);
+    });
+
+    it('should reject HS256 tokens when no secret is configured', () => {
+      authService = new AuthService({ jwks: [jwk] });
+      const token = jwt.sign({ sub: 'user-123' }, secret, {
+        algorithm: 'HS256',
+      });
+
+      expect(() => authService.verifyToken(token)).toThrow(
+        'HS256 tokens are not accepted'
+      );
+    });
+
+    it('should reject a token with a bad signature', () => {
+      const token = jwt.sign({ sub: 'user-123' }, 'other-secret', {
+        algorithm: 'HS256',
+      });
+
+      expect(() => authService.verifyToken(token)).toThrow('Invalid token');
+    });
+
+    it('should reject an expired token', () => {
+      const token = jwt.sign(
+        { sub: 'user-123', exp: Math.floor(Date.now() / 1000) - 60 },
+        secret,
+        { algorithm: 'HS256' }
+      );
+
+      expect(() => authService.verifyToken(token)).toThrow('Token has expired');
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(() => authService.verifyToken('not-a-jwt')).toThrow(
+        UnauthorizedError
+      );
+    });
+
+    it('should reject a token without a subject', () => {
+      const token = jwt.sign({ scope: 'admin' }, secret, {
+        algorithm: 'HS256',
+      });
+
+      expect(() => authService.verifyToken(token)).toThrow(
+        'Token has no subject'
+      );
+    });
+
+    it('should enforce the configured issuer and audience', () => {
+      authService = new AuthService({
+        hmacSecret: secret,
+        issuer: 'https://auth.example.com',
+        audience: 'ledger-wallet-service',
+      });
+
+      const wrongIssuer = jwt.sign({ sub: 'user-123' }, secret, {
+        algorithm: 'HS256',
+        issuer: 'https://evil.example.com',
+        audience: 'ledger-wallet-service',
+      });
+      const valid = jwt.sign({ sub: 'user-123' }, secret, {
+        algorithm: 'HS256',
+        issuer: 'https://auth.example.com',
+        audience: 'ledger-wallet-service',
+      });
+
+      expect(() => authService.verifyToken(wrongIssuer)).toThrow(
+        UnauthorizedError
+      );
+      expect(authService.verifyToken(valid).subject).toBe('user-123');
+    });
+
+    it('should map service tokens and their scopes', () => {
+      const token = jwt.sign(
+        { sub: 'back-office', type: 'service', scope: 'admin ledger:read' },
+        secret,
+        { algorithm: 'HS256' }
+      );
+
+      expect(authService.verifyToken(token)).toEqual({
+        type: 'service',
+        subject: 'back-office',
+        user_id: null,
+        scopes: ['admin', 'ledger:read'],
+      });
+    });
+
+    it('should accept scopes as an array claim', () => {
+      const token = jwt.sign({ sub: 'user-123', scopes: ['admin'] }, secret, {
+        algorithm: 'HS256',
+      });
+
+      expect(authService.verifyToken(token).scopes).toEqual(['admin']);
+    });
+  });
+
+  describe('loadAuthConfig', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('should load RSA keys from the JWKS file', () => {
+      const jwksFile = path.join(os.tmpdir(), `jwks-${process.pid}.json`);
+      fs.writeFileSync(jwksFile, JSON.stringify({ keys: [jwk] }));
+      process.env.JWT_JWKS_FILE = jwksFile;
+      delete process.env.JWT_SECRET;
+
+      try {
+        const service = new AuthService(loadAuthConfig());
+        const token = jwt.sign({ sub: 'user-123' }, privateKey, {
+          algorithm: 'RS256',
+          keyid: 'key-1',
+        });
+
+        expect(service.verifyToken(token).user_id).toBe('user-123');
+      } finally {
+        fs.unlinkSync(jwksFile);
+      }
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { FeeService, calculateFee } from '../../src/services/FeeService';
+import { pool } from '../../src/config/database';
+import { FeeScheduleNotFoundError } from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+describe('calculateFee', () => {
+  it('should charge a flat amount regardless of size', () => {
+    expect(calculateFee({ type: 'flat', amount: 30 }, 1)).toBe(30);
+    expect(calculateFee({ type: 'flat', amount: 30 }, 1_000_000)).toBe(30);
+  });
+
+  it('should charge basis points rounded half up', () => {
+    const rule = { type: 'percentage' as const, basis_points: 125 };
+
+    expect(calculateFee(rule, 10000)).toBe(125);
+    // 1.25% of 1234 is 15.425
+    expect(calculateFee(rule, 1234)).toBe(15);
+    // 1.25% of 1240 is 15.5
+    expect(calculateFee(rule, 1240)).toBe(16);
+  });
+
+  it('should clamp percentage fees to min and max', () => {
+    const rule = {
+      type: 'percentage' as const,
+      basis_points: 100,
+      min: 50,
+      max: 500,
+    };
+
+    expect(calculateFee(rule, 1000)).toBe(50);
+    expect(calculateFee(rule, 20000)).toBe(200);
+    expect(calculateFee(rule, 1_000_000)).toBe(500);
+  });
+
+  it('should stay exact for amounts beyond the safe integer range of the product', () => {
+    const rule = { type: 'percentage' as const, basis_points: 9999 };
+
+    expect(calculateFee(rule, 9_000_000_000_000)).toBe(8_999_100_000_000);
+  });
+
+  it('should price the whole amount with the first tier that covers it', () => {
+    const rule = {
+      type: 'tiered' as const,
+      tiers: [
+        { up_to: 10000, rule: { type: 'flat' as const, amount: 0 } },
+        {
+          up_to: 100000,
+          rule: { type: 'percentage' as const, basis_points: 50 },
+        },
+        { up_to: null, rule: { type: 'flat' as const, amount: 1000 } },
+      ],
+    };
+
+    expect(calculateFee(rule, 10000)).toBe(0);
+    expect(calculateFee(rule, 10001)).toBe(50);
+    expect(calculateFee(rule, 100000)).toBe(500);
+    expect(calculateFee(rule, 100001)).toBe(1000);
+  });
+});
+
+describe('FeeService', () => {
+  let feeService: FeeService;
+  const mockPool = pool as any;
+
+  const scheduleRow = {
+    id: 'schedule-1',
+    operation: 'transfer',
+    tier: 'standard',
+    currency: 'USD',
+    rule: { type: 'percentage', basis_points: 100, min: 25 },
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    feeService = new FeeService();
+  });
+
+  describe('quoteForWallet', () => {
+    it('should price with the best matching schedule for the wallet owner', async () => {
+      const client = {
+        query: jest.fn().mockResolvedValue({ rows: [scheduleRow] }),
+      };
+
+      const quote = await feeService.quoteForWallet(
+        'transfer',
+        'wallet-1',
+        'USD',
+        10000,
+        client as any
+      );
+
+      expect(quote).toEqual({ fee_amount: 100, schedule_id: 'schedule-1' });
+      const [sql, params] = client.query.mock.calls[0];
+      expect(sql).toContain('ORDER BY fs.tier NULLS LAST');
+      expect(params).toEqual(['transfer', 'USD', 'wallet-1', 'standard']);
+    });
+
+    it('should charge nothing when no schedule applies', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      const quote = await feeService.quoteForWallet(
+        'fx_transfer',
+        'wallet-1',
+        'EUR',
+        10000
+      );
+
+      expect(quote).toEqual({ fee_amount: 0, schedule_id: null });
+    });
+  });
+
+  describe('upsertSchedule', () => {
+    it('should replace the rule of an existing schedule for the same key', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [scheduleRow] });
+
+      const schedule = await feeService.upsertSchedule({
+        operation: 'transfer',
+        tier: 'standard',
+        currency: 'USD',
+        rule: scheduleRow.rule as any,
+      });
+
+      expect(schedule.id).toBe('schedule-1');
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT');
+      expect(params).toEqual(['transfer', 'standard', 'USD', scheduleRow.rule]);
+    });
+
+    it('should store a missing tier as the catch-all schedule', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ ...scheduleRow, tier: null }],
+      });
+
+      await feeService.upsertSchedule({
+        operation: 'transfer',
+        currency: 'USD',
+        rule: { type: 'flat', amount: 10 },
+      });
+
+      expect(mockPool.query.mock.calls[0][1][1]).toBeNull();
+    });
+  });
+
+  describe('deleteSchedule', () => {
+    it('should throw FeeScheduleNotFoundError for an unknown schedule', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(feeService.deleteSchedule('missing')).rejects.toThrow(
+        FeeScheduleNotFoundError
+      );
+    });
+  });
+});
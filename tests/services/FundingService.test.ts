@@ -1,21 +1,77 @@
 import { FundingService } from '../../src/services/FundingService';
 import { LedgerService } from '../../src/services/LedgerService';
-import { DuplicatePaymentRefError } from '../../src/utils/errors';
+import { WebhookService } from '../../src/services/WebhookService';
+import { OutboxService } from '../../src/services/OutboxService';
+import { pool } from '../../src/config/database';
+import {
+  DuplicatePaymentRefError,
+  WalletNotFoundError,
+  ValidationError,
+  WalletFrozenError,
+} from '../../src/utils/errors';
 
+jest.mock('../../src/config/database');
 jest.mock('../../src/services/LedgerService');
 
 describe('FundingService', () => {
   let fundingService: FundingService;
   let mockLedgerService: jest.Mocked<LedgerService>;
+  let mockWebhookService: jest.Mocked<WebhookService>;
+  let mockOutboxService: jest.Mocked<OutboxService>;
+  const mockPool = pool as any;
+  let mockClient: any;
+
+  const mockEntry = {
+    id: 'entry-123',
+    journal_id: 'journal-123',
+    wallet_id: 'wallet-123',
+    amount: 10000,
+    currency: 'USD',
+    direction: 'credit' as const,
+    transaction_reference: 'fund-uuid',
+    transfer_id: null,
+    external_payment_ref: 'payment-123',
+    balance_after: 10000,
+    created_at: new Date(),
+  };
+
+  const mockClearingEntry = {
+    ...mockEntry,
+    id: 'entry-clearing',
+    wallet_id: 'wallet-clearing',
+    direction: 'debit' as const,
+    external_payment_ref: null,
+    balance_after: -10000,
+  };
 
   beforeEach(() => {
     jest.clearAllMocks();
     mockLedgerService = {
       findEntryByExternalPaymentRef: jest.fn(),
       createEntry: jest.fn(),
+      postJournal: jest.fn(),
+      getSystemWalletId: jest.fn().mockResolvedValue('wallet-clearing'),
+    } as any;
+
+    mockWebhookService = {
+      enqueue: jest.fn(),
     } as any;
 
-    fundingService = new FundingService(mockLedgerService);
+    mockOutboxService = {
+      append: jest.fn(),
+    } as any;
+
+    mockClient = {
+      query: jest.fn().mockResolvedValue({ rows: [{ currency: 'USD' }] }),
+      release: jest.fn(),
+    };
+
+    mockPool.connect.mockResolvedValue(mockClient);
+    fundingService = new FundingService(
+      mockLedgerService,
+      mockWebhookService,
+      mockOutboxService
+    );
   });
 
   describe('fundWallet', () => {
@@ -25,46 +81,83 @@ describe('FundingService', () => {
       externalPaymentRef: 'payment-123',
     };
 
-    it('should create new funding entry when payment ref does not exist', async () => {
+    it('should post a balanced journal against the funding clearing account', async () => {
       mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce(null);
-      
-      const mockEntry = {
-        id: 'entry-123',
-        wallet_id: 'wallet-123',
-        amount: 10000,
-        direction: 'credit' as const,
-        transaction_reference: 'fund-uuid',
-        transfer_id: null,
-        external_payment_ref: 'payment-123',
-        created_at: new Date(),
-      };
-
-      mockLedgerService.createEntry.mockResolvedValueOnce(mockEntry);
+      mockLedgerService.postJournal.mockResolvedValueOnce({
+        journal: {} as any,
+        entries: [mockClearingEntry, mockEntry],
+      });
 
       const entry = await fundingService.fundWallet(fundInput);
 
       expect(entry).toEqual(mockEntry);
       expect(mockLedgerService.findEntryByExternalPaymentRef).toHaveBeenCalledWith('payment-123');
-      expect(mockLedgerService.createEntry).toHaveBeenCalledWith(
+      expect(mockLedgerService.getSystemWalletId).toHaveBeenCalledWith(
+        'external_funding_clearing',
+        'USD',
+        mockClient
+      );
+      expect(mockLedgerService.postJournal).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          type: 'fund',
+          postings: [
+            {
+              wallet_id: 'wallet-clearing',
+              amount: 10000,
+              currency: 'USD',
+              direction: 'debit',
+            },
+            {
+              wallet_id: 'wallet-123',
+              amount: 10000,
+              currency: 'USD',
+              direction: 'credit',
+              external_payment_ref: 'payment-123',
+            },
+          ],
+        })
+      );
+      expect(mockClient.query).toHaveBeenCalledWith('BEGIN');
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should queue wallet.funded for webhooks and the outbox inside the transaction', async () => {
+      mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce(null);
+      mockLedgerService.postJournal.mockResolvedValueOnce({
+        journal: {} as any,
+        entries: [mockClearingEntry, mockEntry],
+      });
+
+      await fundingService.fundWallet(fundInput);
+
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        mockClient,
+        'wallet.funded',
         expect.objectContaining({
           wallet_id: 'wallet-123',
+          entry_id: 'entry-123',
           amount: 10000,
-          direction: 'credit',
+          currency: 'USD',
           external_payment_ref: 'payment-123',
         })
       );
+      expect(mockOutboxService.append).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          aggregate_type: 'wallet',
+          aggregate_id: 'wallet-123',
+          event_type: 'wallet.funded',
+        })
+      );
     });
 
     it('should throw DuplicatePaymentRefError when payment ref already exists', async () => {
       const existingEntry = {
+        ...mockEntry,
         id: 'entry-existing',
-        wallet_id: 'wallet-123',
-        amount: 10000,
-        direction: 'credit' as const,
         transaction_reference: 'fund-old',
-        transfer_id: null,
-        external_payment_ref: 'payment-123',
-        created_at: new Date(),
       };
 
       mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce(existingEntry);
@@ -72,29 +165,107 @@ describe('FundingService', () => {
       await expect(fundingService.fundWallet(fundInput)).rejects.toThrow(
         DuplicatePaymentRefError
       );
-      expect(mockLedgerService.createEntry).not.toHaveBeenCalled();
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
     });
 
-    it('should create entry with correct transaction reference format', async () => {
+    it('should map a unique violation on the payment ref to DuplicatePaymentRefError', async () => {
       mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce(null);
-      
-      const mockEntry = {
-        id: 'entry-123',
-        wallet_id: 'wallet-123',
-        amount: 10000,
-        direction: 'credit' as const,
-        transaction_reference: 'fund-uuid',
-        transfer_id: null,
-        external_payment_ref: 'payment-123',
-        created_at: new Date(),
-      };
+      mockLedgerService.postJournal.mockRejectedValueOnce({
+        code: '23505',
+        constraint: 'ledger_entries_external_payment_ref_key',
+      });
+
+      await expect(fundingService.fundWallet(fundInput)).rejects.toThrow(
+        DuplicatePaymentRefError
+      );
+      expect(mockWebhookService.enqueue).not.toHaveBeenCalled();
+      expect(mockOutboxService.append).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
 
-      mockLedgerService.createEntry.mockResolvedValueOnce(mockEntry);
+    it('should post in the wallet currency against that currency\'s clearing account', async () => {
+      mockClient.query.mockResolvedValue({ rows: [{ currency: 'JPY' }] });
+      mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce(null);
+      mockLedgerService.postJournal.mockResolvedValueOnce({
+        journal: {} as any,
+        entries: [mockClearingEntry, { ...mockEntry, currency: 'JPY' }],
+      });
+
+      await fundingService.fundWallet({ ...fundInput, amount: 500 });
+
+      expect(mockLedgerService.getSystemWalletId).toHaveBeenCalledWith(
+        'external_funding_clearing',
+        'JPY',
+        mockClient
+      );
+      const journalInput = mockLedgerService.postJournal.mock.calls[0][1];
+      expect(journalInput.postings.every((p) => p.currency === 'JPY')).toBe(true);
+    });
+
+    it('should throw WalletNotFoundError when the wallet does not exist', async () => {
+      mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce(null);
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [] }); // wallet lookup
+
+      await expect(fundingService.fundWallet(fundInput)).rejects.toThrow(
+        WalletNotFoundError
+      );
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should refuse to fund a frozen wallet', async () => {
+      mockClient.query.mockResolvedValue({
+        rows: [{ currency: 'USD', status: 'frozen' }],
+      });
+      mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce(null);
+
+      await expect(fundingService.fundWallet(fundInput)).rejects.toThrow(
+        WalletFrozenError
+      );
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should fund a debit-frozen wallet', async () => {
+      mockClient.query.mockResolvedValue({
+        rows: [{ currency: 'USD', status: 'debit_frozen' }],
+      });
+      mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce(null);
+      mockLedgerService.postJournal.mockResolvedValueOnce({
+        journal: {} as any,
+        entries: [mockClearingEntry, mockEntry],
+      });
+
+      await expect(fundingService.fundWallet(fundInput)).resolves.toEqual(
+        mockEntry
+      );
+    });
+
+    it('should reject amounts above the limit for the wallet currency', async () => {
+      mockClient.query.mockResolvedValue({ rows: [{ currency: 'JPY' }] });
+      mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce(null);
+
+      // 10 billion yen is the JPY ceiling; the same minor-unit amount is fine in USD
+      await expect(
+        fundingService.fundWallet({ ...fundInput, amount: 10_000_000_001 })
+      ).rejects.toThrow(ValidationError);
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should create entry with correct transaction reference format', async () => {
+      mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce(null);
+      mockLedgerService.postJournal.mockResolvedValueOnce({
+        journal: {} as any,
+        entries: [mockClearingEntry, mockEntry],
+      });
 
       await fundingService.fundWallet(fundInput);
 
-      const createCall = mockLedgerService.createEntry.mock.calls[0][0];
-      expect(createCall.transaction_reference).toMatch(/^fund_/);
+      const journalInput = mockLedgerService.postJournal.mock.calls[0][1];
+      expect(journalInput.transaction_reference).toMatch(/^fund_/);
     });
   });
 });
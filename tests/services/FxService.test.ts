@@ -0,0 +1,141 @@
+import { FxService } from '../../src/services/FxService';
+import { StaticRateProvider } from '../../src/services/RateProvider';
+import { pool } from '../../src/config/database';
+import {
+  ValidationError,
+  FxRateUnavailableError,
+  FxQuoteNotFoundError,
+  FxQuoteExpiredError,
+  FxQuoteAlreadyUsedError,
+} from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+describe('FxService', () => {
+  let fxService: FxService;
+  const mockPool = pool as any;
+
+  const quoteRow = {
+    id: 'quote-1',
+    source_currency: 'USD',
+    target_currency: 'JPY',
+    rate: '150.250000000000',
+    source_amount: '10000',
+    target_amount: '15025',
+    expires_at: new Date(Date.now() + 60_000),
+    used_at: null,
+    created_at: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fxService = new FxService(
+      new StaticRateProvider({ 'USD/JPY': 150.25, 'EUR/USD': 1.08 })
+    );
+  });
+
+  describe('createQuote', () => {
+    it('should convert between minor units using each currency exponent', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [quoteRow] });
+
+      const quote = await fxService.createQuote({
+        source_currency: 'USD',
+        target_currency: 'JPY',
+        source_amount: 10000,
+      });
+
+      expect(quote.rate).toBe(150.25);
+      expect(quote.target_amount).toBe(15025);
+      // $100.00 at 150.25 is ¥15025
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO fx_quotes'),
+        ['USD', 'JPY', 150.25, 10000, 15025, 60]
+      );
+    });
+
+    it('should use the inverse of a listed pair', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [quoteRow] });
+
+      await fxService.createQuote({
+        source_currency: 'USD',
+        target_currency: 'EUR',
+        source_amount: 10800,
+      });
+
+      const params = mockPool.query.mock.calls[0][1];
+      expect(params[2]).toBeCloseTo(1 / 1.08);
+      expect(params[4]).toBe(10000);
+    });
+
+    it('should throw FxRateUnavailableError for an unknown pair', async () => {
+      await expect(
+        fxService.createQuote({
+          source_currency: 'USD',
+          target_currency: 'KWD',
+          source_amount: 10000,
+        })
+      ).rejects.toThrow(FxRateUnavailableError);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject amounts that convert to zero', async () => {
+      await expect(
+        fxService.createQuote({
+          source_currency: 'JPY',
+          target_currency: 'USD',
+          source_amount: 1,
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('lockQuote', () => {
+    const mockClient = { query: jest.fn() };
+
+    beforeEach(() => {
+      mockClient.query.mockReset();
+    });
+
+    it('should return an unused, unexpired quote', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [{ ...quoteRow, expired: false }],
+      });
+
+      const quote = await fxService.lockQuote(mockClient as any, 'quote-1');
+
+      expect(quote.id).toBe('quote-1');
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('FOR UPDATE'),
+        ['quote-1']
+      );
+    });
+
+    it('should throw FxQuoteNotFoundError for an unknown quote', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        fxService.lockQuote(mockClient as any, 'missing')
+      ).rejects.toThrow(FxQuoteNotFoundError);
+    });
+
+    it('should throw FxQuoteAlreadyUsedError for a redeemed quote', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [{ ...quoteRow, used_at: new Date(), expired: false }],
+      });
+
+      await expect(
+        fxService.lockQuote(mockClient as any, 'quote-1')
+      ).rejects.toThrow(FxQuoteAlreadyUsedError);
+    });
+
+    it('should throw FxQuoteExpiredError past the expiry', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [{ ...quoteRow, expired: true }],
+      });
+
+      await expect(
+        fxService.lockQuote(mockClient as any, 'quote-1')
+      ).rejects.toThrow(FxQuoteExpiredError);
+    });
+  });
+});
@@ -1,6 +1,14 @@
 import { LedgerService } from "../../src/services/LedgerService";
 import { pool } from "../../src/config/database";
-import { WalletNotFoundError } from "../../src/utils/errors";
+import {
+  WalletNotFoundError,
+  UnbalancedJournalError,
+  CurrencyMismatchError,
+  WalletFrozenError,
+  WalletDebitFrozenError,
+  WalletClosedError,
+  ValidationError,
+} from "../../src/utils/errors";
 
 // Mock the database
 jest.mock("../../src/config/database");
@@ -15,7 +23,7 @@ describe("LedgerService", () => {
   });
 
   describe("getBalance", () => {
-    it("should calculate balance correctly from credits and debits", async () => {
+    it("should read the materialized wallet balance", async () => {
       mockPool.query.mockResolvedValueOnce({
         rows: [{ balance: "15000" }],
         rowCount: 1,
@@ -28,9 +36,7 @@ describe("LedgerService", () => {
 
       expect(balance).toBe(15000);
       expect(mockPool.query).toHaveBeenCalledWith(
-        expect.stringContaining(
-          "SUM(amount) FILTER (WHERE direction = 'credit')"
-        ),
+        expect.stringContaining("FROM wallet_balances"),
         ["wallet-123"]
       );
     });
@@ -106,28 +112,152 @@ describe("LedgerService", () => {
     });
   });
 
+
+  describe("getHeldAmount", () => {
+    it("should sum the amount and fee of unexpired pending holds", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ held: "5050" }] } as any);
+
+      const held = await ledgerService.getHeldAmount("wallet-123");
+
+      expect(held).toBe(5050);
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining("hold_expires_at > NOW()"),
+        ["wallet-123", null]
+      );
+    });
+
+    it("should leave out the excluded hold", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ held: "0" }] } as any);
+
+      await ledgerService.getHeldAmount("wallet-123", pool, "hold-1");
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining("IS DISTINCT FROM $2"),
+        ["wallet-123", "hold-1"]
+      );
+    });
+  });
+
+  describe("getBalances", () => {
+    it("should subtract held funds from the ledger balance", async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ balance: "10000" }] } as any)
+        .mockResolvedValueOnce({ rows: [{ held: "2500" }] } as any);
+
+      const balances = await ledgerService.getBalances("wallet-123");
+
+      expect(balances).toEqual({
+        ledger_balance: 10000,
+        available_balance: 7500,
+      });
+    });
+  });
+  describe("computeBalance", () => {
+    it("should calculate balance correctly from credits and debits", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ balance: "15000" }] });
+
+      const balance = await ledgerService.computeBalance("wallet-123");
+
+      expect(balance).toBe(15000);
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "SUM(amount) FILTER (WHERE direction = 'credit')"
+        ),
+        ["wallet-123"]
+      );
+    });
+  });
+
+  describe("reconcileBalances", () => {
+    it("should report wallets whose materialized balance drifted", async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            wallet_id: "wallet-123",
+            materialized_balance: "12000",
+            ledger_balance: "10000",
+          },
+        ],
+      });
+
+      const drifts = await ledgerService.reconcileBalances();
+
+      expect(drifts).toEqual([
+        {
+          wallet_id: "wallet-123",
+          materialized_balance: 12000,
+          ledger_balance: 10000,
+          drift: 2000,
+        },
+      ]);
+      expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+
+    it("should rewrite drifted balances from the ledger when repairing", async () => {
+      const mockClient = { query: jest.fn().mockResolvedValue({}), release: jest.fn() };
+      mockPool.connect.mockResolvedValueOnce(mockClient);
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            wallet_id: "wallet-123",
+            materialized_balance: "12000",
+            ledger_balance: "10000",
+          },
+        ],
+      });
+
+      await ledgerService.reconcileBalances({ repair: true });
+
+      expect(mockClient.query).toHaveBeenCalledWith("BEGIN");
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining("FOR UPDATE"),
+        ["wallet-123"]
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining("UPDATE wallet_balances"),
+        ["wallet-123"]
+      );
+      expect(mockClient.query).toHaveBeenCalledWith("COMMIT");
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it("should return an empty list when balances match the ledger", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      const drifts = await ledgerService.reconcileBalances({ repair: true });
+
+      expect(drifts).toEqual([]);
+      expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+  });
+
   describe("createEntry", () => {
     const mockEntry = {
       id: "entry-123",
+      journal_id: "journal-123",
       wallet_id: "wallet-123",
       amount: "10000",
       direction: "credit",
       transaction_reference: "ref-123",
       transfer_id: null,
       external_payment_ref: null,
+      balance_after: "25000",
       created_at: new Date(),
     };
 
     it("should create a ledger entry successfully", async () => {
       // Mock wallet exists check
       mockPool.query.mockResolvedValueOnce({
-        rows: [{ id: "wallet-123" }],
+        rows: [{ id: "wallet-123", currency: "USD" }],
         rowCount: 1,
         command: "SELECT",
         oid: 0,
         fields: [],
       });
 
+      // Mock wallet_balances upsert
+      mockPool.query.mockResolvedValueOnce({ rows: [{ balance: "25000" }] });
+
       // Mock entry creation
       mockPool.query.mockResolvedValueOnce({
         rows: [mockEntry],
@@ -138,8 +268,10 @@ describe("LedgerService", () => {
       } as any);
 
       const entry = await ledgerService.createEntry({
+        journal_id: "journal-123",
         wallet_id: "wallet-123",
         amount: 10000,
+        currency: "USD",
         direction: "credit",
         transaction_reference: "ref-123",
       });
@@ -147,7 +279,41 @@ describe("LedgerService", () => {
       expect(entry.id).toBe("entry-123");
       expect(entry.amount).toBe(10000);
       expect(entry.direction).toBe("credit");
-      expect(mockPool.query).toHaveBeenCalledTimes(2);
+      expect(entry.balance_after).toBe(25000);
+      expect(mockPool.query).toHaveBeenCalledTimes(3);
+      expect(mockPool.query).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("INSERT INTO wallet_balances"),
+        ["wallet-123", 10000]
+      );
+    });
+
+    it("should record the balance left by the posting on the entry", async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: "wallet-123", currency: "USD" }] })
+        .mockResolvedValueOnce({ rows: [{ balance: "7500" }] })
+        .mockResolvedValueOnce({
+          rows: [{ ...mockEntry, direction: "debit", balance_after: "7500" }],
+        });
+
+      const entry = await ledgerService.createEntry({
+        journal_id: "journal-123",
+        wallet_id: "wallet-123",
+        amount: 2500,
+        currency: "USD",
+        direction: "debit",
+        transaction_reference: "ref-123",
+      });
+
+      expect(entry.balance_after).toBe(7500);
+      expect(mockPool.query).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("RETURNING balance"),
+        ["wallet-123", -2500]
+      );
+      const [insertSql, insertParams] = mockPool.query.mock.calls[2];
+      expect(insertSql).toContain("INSERT INTO ledger_entries");
+      expect(insertParams[8]).toBe("7500");
     });
 
     it("should throw WalletNotFoundError if wallet does not exist", async () => {
@@ -161,8 +327,10 @@ describe("LedgerService", () => {
 
       await expect(
         ledgerService.createEntry({
+          journal_id: "journal-123",
           wallet_id: "non-existent",
           amount: 10000,
+          currency: "USD",
           direction: "credit",
           transaction_reference: "ref-123",
         })
@@ -171,13 +339,15 @@ describe("LedgerService", () => {
 
     it("should create entry with transfer_id when provided", async () => {
       mockPool.query.mockResolvedValueOnce({
-        rows: [{ id: "wallet-123" }],
+        rows: [{ id: "wallet-123", currency: "USD" }],
         rowCount: 1,
         command: "SELECT",
         oid: 0,
         fields: [],
       });
 
+      mockPool.query.mockResolvedValueOnce({ rows: [{ balance: "0" }] });
+
       mockPool.query.mockResolvedValueOnce({
         rows: [{ ...mockEntry, transfer_id: "transfer-123" }],
         rowCount: 1,
@@ -187,8 +357,10 @@ describe("LedgerService", () => {
       });
 
       const entry = await ledgerService.createEntry({
+        journal_id: "journal-123",
         wallet_id: "wallet-123",
         amount: 10000,
+        currency: "USD",
         direction: "debit",
         transaction_reference: "ref-123",
         transfer_id: "transfer-123",
@@ -196,51 +368,568 @@ describe("LedgerService", () => {
 
       expect(entry.transfer_id).toBe("transfer-123");
     });
-  });
 
-  describe("getEntries", () => {
-    it("should return paginated ledger entries", async () => {
-      const mockEntries = [
-        {
-          id: "entry-1",
+    it("should throw CurrencyMismatchError if the posting currency differs from the wallet", async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ id: "wallet-123", currency: "JPY" }],
+      });
+
+      await expect(
+        ledgerService.createEntry({
+          journal_id: "journal-123",
           wallet_id: "wallet-123",
-          amount: "10000",
+          amount: 10000,
+          currency: "USD",
           direction: "credit",
-          transaction_reference: "ref-1",
-          transfer_id: null,
-          external_payment_ref: null,
-          created_at: new Date(),
-        },
+          transaction_reference: "ref-123",
+        })
+      ).rejects.toThrow(CurrencyMismatchError);
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+
+    const postingInput = {
+      journal_id: "journal-123",
+      wallet_id: "wallet-123",
+      amount: 10000,
+      currency: "USD",
+      transaction_reference: "ref-123",
+    };
+
+    it("should reject any posting to a frozen wallet", async () => {
+      mockPool.query.mockResolvedValue({
+        rows: [{ id: "wallet-123", currency: "USD", status: "frozen" }],
+      });
+
+      await expect(
+        ledgerService.createEntry({ ...postingInput, direction: "credit" })
+      ).rejects.toThrow(WalletFrozenError);
+      await expect(
+        ledgerService.createEntry({ ...postingInput, direction: "debit" })
+      ).rejects.toThrow(WalletFrozenError);
+      expect(mockPool.query).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject debits but accept credits on a debit-frozen wallet", async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [{ id: "wallet-123", currency: "USD", status: "debit_frozen" }],
+        })
+        .mockResolvedValueOnce({
+          rows: [{ id: "wallet-123", currency: "USD", status: "debit_frozen" }],
+        })
+        .mockResolvedValueOnce({ rows: [{ balance: "25000" }] })
+        .mockResolvedValueOnce({ rows: [mockEntry] });
+
+      await expect(
+        ledgerService.createEntry({ ...postingInput, direction: "debit" })
+      ).rejects.toThrow(WalletDebitFrozenError);
+
+      const entry = await ledgerService.createEntry({
+        ...postingInput,
+        direction: "credit",
+      });
+      expect(entry.id).toBe("entry-123");
+    });
+
+    it("should reject postings to a closed wallet", async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ id: "wallet-123", currency: "USD", status: "closed" }],
+      });
+
+      await expect(
+        ledgerService.createEntry({ ...postingInput, direction: "credit" })
+      ).rejects.toThrow(WalletClosedError);
+    });
+
+    it("should post to a frozen wallet when the status check is skipped", async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [{ id: "wallet-123", currency: "USD", status: "frozen" }],
+        })
+        .mockResolvedValueOnce({ rows: [{ balance: "0" }] })
+        .mockResolvedValueOnce({
+          rows: [{ ...mockEntry, direction: "debit", balance_after: "0" }],
+        });
+
+      const entry = await ledgerService.createEntry({
+        ...postingInput,
+        direction: "debit",
+        skip_status_check: true,
+      });
+
+      expect(entry.direction).toBe("debit");
+    });
+  });
+
+  describe("postJournal", () => {
+    const mockClient = { query: jest.fn() };
+
+    beforeEach(() => {
+      mockClient.query.mockReset();
+    });
+
+    it("should insert the journal header and every posting on the given client", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: "journal-1",
+              type: "fund",
+              transaction_reference: "fund_1",
+              transfer_id: null,
+              created_at: new Date(),
+            },
+          ],
+        }) // INSERT INTO journals
+        .mockResolvedValueOnce({ rows: [{ id: "wallet-clearing", currency: "USD" }] }) // wallet check
+        .mockResolvedValueOnce({ rows: [{ balance: "-500" }] }) // wallet_balances upsert
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: "entry-1",
+              journal_id: "journal-1",
+              wallet_id: "wallet-clearing",
+              amount: "500",
+              direction: "debit",
+              transaction_reference: "fund_1",
+            },
+          ],
+        })
+        .mockResolvedValueOnce({ rows: [{ id: "wallet-123", currency: "USD" }] }) // wallet check
+        .mockResolvedValueOnce({ rows: [{ balance: "500" }] }) // wallet_balances upsert
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: "entry-2",
+              journal_id: "journal-1",
+              wallet_id: "wallet-123",
+              amount: "500",
+              direction: "credit",
+              transaction_reference: "fund_1",
+            },
+          ],
+        });
+
+      const { journal, entries } = await ledgerService.postJournal(
+        mockClient as any,
         {
-          id: "entry-2",
+          type: "fund",
+          transaction_reference: "fund_1",
+          postings: [
+            { wallet_id: "wallet-clearing", amount: 500, currency: "USD", direction: "debit" },
+            { wallet_id: "wallet-123", amount: 500, currency: "USD", direction: "credit" },
+          ],
+        }
+      );
+
+      expect(journal.id).toBe("journal-1");
+      expect(entries).toHaveLength(2);
+      expect(entries.every((e) => e.journal_id === "journal-1")).toBe(true);
+      expect(mockClient.query).toHaveBeenCalledTimes(7);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO wallet_balances"),
+        ["wallet-clearing", -500]
+      );
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it("should reject postings that do not net to zero", async () => {
+      await expect(
+        ledgerService.postJournal(mockClient as any, {
+          type: "transfer",
+          transaction_reference: "transfer_1",
+          postings: [
+            { wallet_id: "wallet-1", amount: 500, currency: "USD", direction: "debit" },
+            { wallet_id: "wallet-2", amount: 400, currency: "USD", direction: "credit" },
+          ],
+        })
+      ).rejects.toThrow(UnbalancedJournalError);
+
+      expect(mockClient.query).not.toHaveBeenCalled();
+    });
+
+    it("should reject a journal with a single posting", async () => {
+      await expect(
+        ledgerService.postJournal(mockClient as any, {
+          type: "fund",
+          transaction_reference: "fund_1",
+          postings: [{ wallet_id: "wallet-1", amount: 500, currency: "USD", direction: "credit" }],
+        })
+      ).rejects.toThrow(UnbalancedJournalError);
+    });
+
+    it("should require each currency to net to zero on its own", async () => {
+      await expect(
+        ledgerService.postJournal(mockClient as any, {
+          type: "transfer",
+          transaction_reference: "transfer_1",
+          postings: [
+            { wallet_id: "wallet-1", amount: 500, currency: "USD", direction: "debit" },
+            { wallet_id: "wallet-2", amount: 500, currency: "EUR", direction: "credit" },
+          ],
+        })
+      ).rejects.toThrow(UnbalancedJournalError);
+
+      expect(mockClient.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getSystemWalletId", () => {
+    it("should return the existing system wallet", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: "wallet-clearing" }] });
+
+      const walletId = await ledgerService.getSystemWalletId(
+        "external_funding_clearing",
+        "USD"
+      );
+
+      expect(walletId).toBe("wallet-clearing");
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it("should create the system wallet on first use", async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: "wallet-new" }] });
+
+      const walletId = await ledgerService.getSystemWalletId(
+        "external_funding_clearing",
+        "USD"
+      );
+
+      expect(walletId).toBe("wallet-new");
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining("ON CONFLICT (system_code, currency) DO NOTHING"),
+        ["external_funding_clearing", "USD"]
+      );
+    });
+  });
+
+  describe("getTrialBalance", () => {
+    it("should total debits and credits per currency", async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            wallet_id: "wallet-clearing",
+            user_id: null,
+            system_code: "external_funding_clearing",
+            currency: "USD",
+            total_debits: "10000",
+            total_credits: "0",
+          },
+          {
+            wallet_id: "wallet-1",
+            user_id: "user-1",
+            system_code: null,
+            currency: "USD",
+            total_debits: "3000",
+            total_credits: "10000",
+          },
+          {
+            wallet_id: "wallet-2",
+            user_id: "user-2",
+            system_code: null,
+            currency: "USD",
+            total_debits: "0",
+            total_credits: "3000",
+          },
+          {
+            wallet_id: "wallet-jpy-clearing",
+            user_id: null,
+            system_code: "external_funding_clearing",
+            currency: "JPY",
+            total_debits: "500",
+            total_credits: "0",
+          },
+          {
+            wallet_id: "wallet-jpy",
+            user_id: "user-3",
+            system_code: null,
+            currency: "JPY",
+            total_debits: "0",
+            total_credits: "500",
+          },
+        ],
+      });
+
+      const trialBalance = await ledgerService.getTrialBalance();
+
+      expect(trialBalance.accounts[0].balance).toBe(-10000);
+      expect(trialBalance.accounts[1].balance).toBe(7000);
+      expect(trialBalance.totals).toEqual([
+        { currency: "USD", total_debits: 13000, total_credits: 13000, net: 0 },
+        { currency: "JPY", total_debits: 500, total_credits: 500, net: 0 },
+      ]);
+    });
+  });
+
+  describe("getEntries", () => {
+    const mockRow = (id: string, createdAt: string, extra = {}) => ({
+      id,
+      wallet_id: "wallet-123",
+      amount: "10000",
+      direction: "credit",
+      transaction_reference: `ref-${id}`,
+      transfer_id: null,
+      external_payment_ref: null,
+      type: "fund",
+      created_at: new Date(createdAt),
+      cursor_created_at: createdAt,
+      ...extra,
+    });
+
+    it("should return a page of entries newest first", async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          mockRow("entry-1", "2024-01-02 10:00:00.000002"),
+          mockRow("entry-2", "2024-01-02 10:00:00.000001", {
+            amount: "5000",
+            direction: "debit",
+            type: "fee",
+          }),
+        ],
+      });
+
+      const page = await ledgerService.getEntries({
+        wallet_id: "wallet-123",
+        limit: 50,
+      });
+
+      expect(page.entries).toHaveLength(2);
+      expect(page.entries[0].amount).toBe(10000);
+      expect(page.entries[1].type).toBe("fee");
+      expect(page.next_cursor).toBeNull();
+      expect(page.total).toBeUndefined();
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining("ORDER BY le.created_at DESC, le.id DESC"),
+        ["wallet-123", 51]
+      );
+    });
+
+    it("should return a cursor from the last row when more rows exist", async () => {
+      const id1 = "00000000-0000-0000-0000-000000000001";
+      const id2 = "00000000-0000-0000-0000-000000000002";
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [
+            mockRow(id2, "2024-01-02 10:00:00.000002"),
+            mockRow(id1, "2024-01-02 10:00:00.000001"),
+          ],
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const page = await ledgerService.getEntries({
+        wallet_id: "wallet-123",
+        limit: 1,
+      });
+
+      expect(page.entries.map((e) => e.id)).toEqual([id2]);
+      expect(page.next_cursor).toEqual(expect.any(String));
+
+      await ledgerService.getEntries({
+        wallet_id: "wallet-123",
+        limit: 1,
+        cursor: page.next_cursor!,
+      });
+
+      // The cursor carries the database timestamp, microseconds included
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining("(le.created_at, le.id) < ($2::timestamp, $3::uuid)"),
+        ["wallet-123", "2024-01-02 10:00:00.000002", id2, 2]
+      );
+    });
+
+    it("should apply every filter as a bound parameter", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+      const from = new Date("2024-01-01T00:00:00Z");
+      const to = new Date("2024-02-01T00:00:00Z");
+
+      await ledgerService.getEntries({
+        wallet_id: "wallet-123",
+        limit: 10,
+        direction: "debit",
+        types: ["transfer", "fee"],
+        min_amount: 100,
+        max_amount: 5000,
+        from,
+        to,
+        counterparty_wallet_id: "wallet-456",
+      });
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain("le.direction = $2");
+      expect(sql).toContain("j.type = ANY($3::journal_type[])");
+      expect(sql).toContain("le.amount >= $4");
+      expect(sql).toContain("le.amount <= $5");
+      expect(sql).toContain("le.created_at >= $6");
+      expect(sql).toContain("le.created_at < $7");
+      expect(sql).toContain("$8 IN (t.sender_wallet_id, t.receiver_wallet_id)");
+      expect(params).toEqual([
+        "wallet-123",
+        "debit",
+        ["transfer", "fee"],
+        100,
+        5000,
+        from,
+        to,
+        "wallet-456",
+        11,
+      ]);
+    });
+
+    it("should count matching entries when a total is requested", async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ total: "42" }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const page = await ledgerService.getEntries({
+        wallet_id: "wallet-123",
+        limit: 10,
+        direction: "credit",
+        include_total: true,
+      });
+
+      expect(page.total).toBe(42);
+      expect(mockPool.query).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining("SELECT COUNT(*) AS total"),
+        ["wallet-123", "credit"]
+      );
+    });
+
+    it("should reject a malformed cursor", async () => {
+      await expect(
+        ledgerService.getEntries({
           wallet_id: "wallet-123",
-          amount: "5000",
-          direction: "debit",
-          transaction_reference: "ref-2",
-          transfer_id: "transfer-123",
-          external_payment_ref: null,
-          created_at: new Date(),
-        },
-      ];
+          limit: 10,
+          cursor: "not-a-cursor",
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
 
+  describe("getEntriesByTransactionReferences", () => {
+    it("should read every reference in one query", async () => {
       mockPool.query.mockResolvedValueOnce({
-        rows: mockEntries,
-        rowCount: 2,
-        command: "SELECT",
-        oid: 0,
-        fields: [],
+        rows: [
+          {
+            id: "entry-1",
+            amount: "1000",
+            balance_after: "1000",
+            transaction_reference: "transfer_1",
+          },
+        ],
       });
 
-      const entries = await ledgerService.getEntries("wallet-123", 50, 0);
+      const entries = await ledgerService.getEntriesByTransactionReferences([
+        "transfer_1",
+        "transfer_2",
+      ]);
 
-      expect(entries).toHaveLength(2);
-      expect(entries[0].amount).toBe(10000);
-      expect(entries[1].amount).toBe(5000);
+      expect(entries).toHaveLength(1);
+      expect(entries[0].amount).toBe(1000);
       expect(mockPool.query).toHaveBeenCalledWith(
-        expect.stringContaining("ORDER BY created_at DESC"),
-        ["wallet-123", 50, 0]
+        expect.stringContaining("transaction_reference = ANY($1)"),
+        [["transfer_1", "transfer_2"]]
       );
     });
+
+    it("should not query for an empty list", async () => {
+      await expect(
+        ledgerService.getEntriesByTransactionReferences([])
+      ).resolves.toEqual([]);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getHistoryEntry", () => {
+    const row = {
+      id: "entry-1",
+      journal_id: "journal-1",
+      wallet_id: "wallet-123",
+      amount: "2500",
+      currency: "USD",
+      direction: "debit",
+      transaction_reference: "transfer_1",
+      transfer_id: "transfer-1",
+      external_payment_ref: null,
+      balance_after: "7500",
+      created_at: new Date(),
+      type: "transfer",
+      transfer_status: "partially_reversed",
+      counterparty_wallet_id: "wallet-456",
+      counterparty_label: "main",
+      counterparty_user_id: "user-456",
+      counterparty_name: "Jane Doe",
+      counterparty_email: "jane.doe@example.com",
+      memo: "Order #1042",
+      metadata: { order_id: "1042" },
+      client_reference: "order-1042",
+    };
+
+    it("should report the transfer status and a masked counterparty", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [row] });
+
+      const entry = await ledgerService.getHistoryEntry("entry-1");
+
+      expect(entry).toEqual(
+        expect.objectContaining({
+          id: "entry-1",
+          type: "transfer",
+          status: "partially_reversed",
+          balance_after: 7500,
+          counterparty: {
+            wallet_id: "wallet-456",
+            wallet_label: "main",
+            user_id: "user-456",
+            display_name: "Jane Doe",
+            masked_email: "j***@example.com",
+          },
+          memo: "Order #1042",
+          metadata: { order_id: "1042" },
+          client_reference: "order-1042",
+        })
+      );
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining("LEFT JOIN users cu ON cu.id = cw.user_id"),
+        ["entry-1"]
+      );
+    });
+
+    it("should report entries without a transfer as completed with no counterparty", async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            ...row,
+            type: "fund",
+            transfer_id: null,
+            transfer_status: null,
+            counterparty_wallet_id: null,
+            counterparty_label: null,
+            counterparty_user_id: null,
+            counterparty_name: null,
+            counterparty_email: null,
+            memo: null,
+            metadata: null,
+            client_reference: null,
+          },
+        ],
+      });
+
+      const entry = await ledgerService.getHistoryEntry("entry-1");
+
+      expect(entry!.status).toBe("completed");
+      expect(entry!.counterparty).toBeNull();
+      expect(entry!.memo).toBeNull();
+    });
+
+    it("should return null when the entry does not exist", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(ledgerService.getHistoryEntry("missing")).resolves.toBeNull();
+    });
   });
 
   describe("findEntryByExternalPaymentRef", () => {
@@ -0,0 +1,137 @@
+import { OutboxService } from '../../src/services/OutboxService';
+import { pool } from '../../src/config/database';
+
+jest.mock('../../src/config/database');
+
+describe('OutboxService', () => {
+  let outboxService: OutboxService;
+  const mockPool = pool as any;
+  let mockClient: any;
+
+  const eventRow = (position: number) => ({
+    position: String(position),
+    id: `event-${position}`,
+    aggregate_type: 'transfer',
+    aggregate_id: 'transfer-123',
+    event_type: 'transfer.completed',
+    payload: { transfer: { id: 'transfer-123' } },
+    created_at: new Date(),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn(),
+    };
+
+    mockPool.connect.mockResolvedValue(mockClient);
+    outboxService = new OutboxService();
+  });
+
+  describe('append', () => {
+    it('should insert the event on the caller\'s transaction client', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [eventRow(7)] }) };
+
+      const event = await outboxService.append(client as any, {
+        aggregate_type: 'transfer',
+        aggregate_id: 'transfer-123',
+        event_type: 'transfer.completed',
+        payload: { transfer: { id: 'transfer-123' } },
+      });
+
+      expect(event.position).toBe(7);
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO outbox_events'),
+        [
+          'transfer',
+          'transfer-123',
+          'transfer.completed',
+          JSON.stringify({ transfer: { id: 'transfer-123' } }),
+        ]
+      );
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consume', () => {
+    it('should hand the batch to the handler and advance the offset', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // ensure offset row
+        .mockResolvedValueOnce({ rows: [{ last_position: '4' }] }) // lock offset
+        .mockResolvedValueOnce({ rows: [eventRow(5), eventRow(6)] }) // events
+        .mockResolvedValueOnce({}) // UPDATE offset
+        .mockResolvedValueOnce({}); // COMMIT
+      const handler = jest.fn().mockResolvedValue(undefined);
+
+      const handled = await outboxService.consume('emitter', 10, handler);
+
+      expect(handled).toBe(2);
+      expect(handler.mock.calls[0][0].map((e: any) => e.position)).toEqual([5, 6]);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('pg_snapshot_xmin'),
+        [4, 10]
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE event_consumer_offsets'),
+        ['emitter', 6]
+      );
+      expect(mockClient.query).toHaveBeenLastCalledWith('COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should skip when another relay holds the consumer', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // ensure offset row
+        .mockResolvedValueOnce({ rows: [] }) // offset locked elsewhere
+        .mockResolvedValueOnce({}); // COMMIT
+      const handler = jest.fn();
+
+      const handled = await outboxService.consume('emitter', 10, handler);
+
+      expect(handled).toBe(0);
+      expect(handler).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenLastCalledWith('COMMIT');
+    });
+
+    it('should leave the offset alone when the handler fails', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // ensure offset row
+        .mockResolvedValueOnce({ rows: [{ last_position: '0' }] })
+        .mockResolvedValueOnce({ rows: [eventRow(1)] })
+        .mockResolvedValueOnce({}); // ROLLBACK
+      const handler = jest.fn().mockRejectedValue(new Error('sink down'));
+
+      await expect(
+        outboxService.consume('ndjson', 10, handler)
+      ).rejects.toThrow('sink down');
+
+      expect(mockClient.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE event_consumer_offsets'),
+        expect.anything()
+      );
+      expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('resetOffset', () => {
+    it('should upsert the consumer offset so later events are replayed', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ consumer: 'broker', last_position: '0', updated_at: new Date() }],
+      });
+
+      const offset = await outboxService.resetOffset('broker', 0);
+
+      expect(offset.last_position).toBe(0);
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT (consumer) DO UPDATE'),
+        ['broker', 0]
+      );
+    });
+  });
+});
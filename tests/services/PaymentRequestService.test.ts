@@ -0,0 +1,514 @@
+import {
+  PaymentRequestService,
+  paymentRequestReference,
+} from '../../src/services/PaymentRequestService';
+import { TransferService } from '../../src/services/TransferService';
+import { WebhookService } from '../../src/services/WebhookService';
+import { OutboxService } from '../../src/services/OutboxService';
+import { pool } from '../../src/config/database';
+import {
+  CurrencyMismatchError,
+  DuplicateClientReferenceError,
+  InsufficientBalanceError,
+  InvalidPaymentRequestStateError,
+  PaymentRequestExpiredError,
+  PaymentRequestNotFoundError,
+  ValidationError,
+  WalletClosedError,
+} from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('PaymentRequestService', () => {
+  let paymentRequestService: PaymentRequestService;
+  let mockTransferService: jest.Mocked<TransferService>;
+  let mockWebhookService: jest.Mocked<WebhookService>;
+  let mockOutboxService: jest.Mocked<OutboxService>;
+  const mockPool = pool as any;
+  let mockClient: any;
+
+  const requestRow = (overrides: Record<string, any> = {}) => ({
+    id: 'request-1',
+    requester_wallet_id: 'wallet-1',
+    payer_wallet_id: 'wallet-2',
+    amount: '5000',
+    currency: 'USD',
+    memo: 'Dinner',
+    metadata: {},
+    status: 'pending',
+    expires_at: new Date(Date.now() + DAY_MS),
+    transfer_id: null,
+    responded_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTransferService = {
+      transfer: jest.fn(),
+      findMatchingTransfer: jest.fn(),
+    } as any;
+
+    mockWebhookService = {
+      enqueue: jest.fn(),
+    } as any;
+
+    mockOutboxService = {
+      append: jest.fn(),
+    } as any;
+
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn(),
+    };
+
+    mockPool.connect.mockResolvedValue(mockClient);
+    paymentRequestService = new PaymentRequestService(
+      mockTransferService,
+      mockWebhookService,
+      mockOutboxService
+    );
+  });
+
+  describe('createRequest', () => {
+    const input = {
+      requester_wallet_id: 'wallet-1',
+      payer_wallet_id: 'wallet-2',
+      amount: 5000,
+      memo: 'Dinner',
+    };
+
+    const wallets = (payer: Record<string, any> = {}) => ({
+      rows: [
+        { id: 'wallet-1', currency: 'USD', status: 'active' },
+        { id: 'wallet-2', currency: 'USD', status: 'active', ...payer },
+      ],
+    });
+
+    it('should insert a pending request and publish payment_request.created', async () => {
+      mockPool.query.mockResolvedValueOnce(wallets());
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [requestRow()] }) // INSERT
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const request = await paymentRequestService.createRequest({
+        ...input,
+        expires_in_seconds: 3600,
+      });
+
+      expect(request.status).toBe('pending');
+      expect(request.amount).toBe(5000);
+      expect(mockClient.query.mock.calls[1][1]).toEqual([
+        'wallet-1',
+        'wallet-2',
+        5000,
+        'USD',
+        'Dinner',
+        '{}',
+        3600,
+      ]);
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        mockClient,
+        'payment_request.created',
+        { payment_request: request }
+      );
+      expect(mockOutboxService.append).toHaveBeenCalledWith(mockClient, {
+        aggregate_type: 'payment_request',
+        aggregate_id: 'request-1',
+        event_type: 'payment_request.created',
+        payload: { payment_request: request },
+      });
+    });
+
+    it('should default the lifetime to seven days', async () => {
+      mockPool.query.mockResolvedValueOnce(wallets());
+      mockClient.query
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ rows: [requestRow()] })
+        .mockResolvedValueOnce({});
+
+      await paymentRequestService.createRequest(input);
+
+      expect(mockClient.query.mock.calls[1][1][6]).toBe(7 * 24 * 60 * 60);
+    });
+
+    it('should reject a request to the same wallet', async () => {
+      await expect(
+        paymentRequestService.createRequest({
+          ...input,
+          payer_wallet_id: 'wallet-1',
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject a closed payer wallet', async () => {
+      mockPool.query.mockResolvedValueOnce(wallets({ status: 'closed' }));
+
+      await expect(paymentRequestService.createRequest(input)).rejects.toThrow(
+        WalletClosedError
+      );
+    });
+
+    it('should reject wallets of different currencies', async () => {
+      mockPool.query.mockResolvedValueOnce(wallets({ currency: 'EUR' }));
+
+      await expect(paymentRequestService.createRequest(input)).rejects.toThrow(
+        CurrencyMismatchError
+      );
+      expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptRequest', () => {
+    const claimed = {
+      rows: [requestRow({ status: 'accepted', responded_at: new Date() })],
+    };
+
+    it('should pay the request from the payer and record the transfer', async () => {
+      mockPool.query.mockResolvedValueOnce(claimed);
+      mockTransferService.transfer.mockResolvedValueOnce({
+        id: 'transfer-1',
+      } as any);
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [requestRow({ status: 'accepted', transfer_id: 'transfer-1' })],
+        })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const request = await paymentRequestService.acceptRequest('request-1');
+
+      expect(request.status).toBe('accepted');
+      expect(request.transfer_id).toBe('transfer-1');
+      expect(mockTransferService.transfer).toHaveBeenCalledWith({
+        sender_wallet_id: 'wallet-2',
+        receiver_wallet_id: 'wallet-1',
+        amount: 5000,
+        memo: 'Dinner',
+        metadata: {},
+        client_reference: paymentRequestReference('request-1'),
+      });
+      expect(mockClient.query.mock.calls[1][1]).toEqual([
+        'request-1',
+        'transfer-1',
+      ]);
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        mockClient,
+        'payment_request.accepted',
+        { payment_request: request }
+      );
+    });
+
+    it('should record the transfer an interrupted accept already made', async () => {
+      mockPool.query.mockResolvedValueOnce(claimed);
+      mockTransferService.transfer.mockRejectedValueOnce(
+        new DuplicateClientReferenceError(
+          paymentRequestReference('request-1'),
+          'transfer-0'
+        )
+      );
+      mockTransferService.findMatchingTransfer.mockResolvedValueOnce({
+        id: 'transfer-0',
+      } as any);
+      mockClient.query
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({
+          rows: [requestRow({ status: 'accepted', transfer_id: 'transfer-0' })],
+        })
+        .mockResolvedValueOnce({});
+
+      const request = await paymentRequestService.acceptRequest('request-1');
+
+      expect(request.transfer_id).toBe('transfer-0');
+      expect(mockTransferService.findMatchingTransfer).toHaveBeenCalledWith(
+        'transfer-0',
+        {
+          sender_wallet_id: 'wallet-2',
+          receiver_wallet_id: 'wallet-1',
+          amount: 5000,
+          currency: 'USD',
+        }
+      );
+    });
+
+    it('should not take a transfer that does not pay the request for its own', async () => {
+      mockPool.query.mockResolvedValueOnce(claimed).mockResolvedValueOnce({
+        rows: [],
+      });
+      mockTransferService.transfer.mockRejectedValueOnce(
+        new DuplicateClientReferenceError(
+          paymentRequestReference('request-1'),
+          'transfer-other'
+        )
+      );
+      mockTransferService.findMatchingTransfer.mockResolvedValueOnce(null);
+
+      await expect(
+        paymentRequestService.acceptRequest('request-1')
+      ).rejects.toThrow(DuplicateClientReferenceError);
+
+      expect(mockPool.query.mock.calls[1][0]).toContain("status = 'pending'");
+      expect(mockClient.query).not.toHaveBeenCalled();
+      expect(mockWebhookService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should put the request back to pending when the transfer fails', async () => {
+      mockPool.query.mockResolvedValueOnce(claimed).mockResolvedValueOnce({
+        rows: [],
+      });
+      mockTransferService.transfer.mockRejectedValueOnce(
+        new InsufficientBalanceError()
+      );
+
+      await expect(
+        paymentRequestService.acceptRequest('request-1')
+      ).rejects.toThrow(InsufficientBalanceError);
+
+      expect(mockPool.query.mock.calls[1][0]).toContain("status = 'pending'");
+      expect(mockPool.query.mock.calls[1][1]).toEqual(['request-1']);
+      expect(mockWebhookService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a request that has expired', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] }) // claim
+        .mockResolvedValueOnce({
+          rows: [requestRow({ expires_at: new Date(Date.now() - 1000) })],
+        });
+
+      await expect(
+        paymentRequestService.acceptRequest('request-1')
+      ).rejects.toThrow(PaymentRequestExpiredError);
+      expect(mockTransferService.transfer).not.toHaveBeenCalled();
+    });
+
+    it('should not take over a stale accept once the request has expired', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] }) // claim
+        .mockResolvedValueOnce({
+          rows: [
+            requestRow({
+              status: 'accepted',
+              responded_at: new Date(Date.now() - DAY_MS),
+              expires_at: new Date(Date.now() - 1000),
+            }),
+          ],
+        });
+
+      await expect(
+        paymentRequestService.acceptRequest('request-1')
+      ).rejects.toThrow(PaymentRequestExpiredError);
+      expect(mockPool.query.mock.calls[0][0]).toMatch(
+        /expires_at > NOW\(\)\s+AND \(status = 'pending'\s+OR status = 'accepted'/
+      );
+      expect(mockTransferService.transfer).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a request that is no longer pending', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [requestRow({ status: 'cancelled' })] });
+
+      await expect(
+        paymentRequestService.acceptRequest('request-1')
+      ).rejects.toThrow(
+        'Payment request request-1 is cancelled and cannot be accepted'
+      );
+    });
+
+    it('should refuse a request another accept is paying', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [requestRow({ status: 'accepted' })] });
+
+      await expect(
+        paymentRequestService.acceptRequest('request-1')
+      ).rejects.toThrow(InvalidPaymentRequestStateError);
+    });
+
+    it('should throw PaymentRequestNotFoundError for an unknown request', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        paymentRequestService.acceptRequest('request-1')
+      ).rejects.toThrow(PaymentRequestNotFoundError);
+    });
+  });
+
+  describe('declineRequest and cancelRequest', () => {
+    it('should decline a pending request and publish payment_request.declined', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [requestRow()] }) // lock
+        .mockResolvedValueOnce({ rows: [requestRow({ status: 'declined' })] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const request = await paymentRequestService.declineRequest('request-1');
+
+      expect(request.status).toBe('declined');
+      expect(mockClient.query.mock.calls[2][1]).toEqual([
+        'request-1',
+        'declined',
+      ]);
+      expect(mockOutboxService.append).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({ event_type: 'payment_request.declined' })
+      );
+    });
+
+    it('should cancel a pending request', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ rows: [requestRow()] })
+        .mockResolvedValueOnce({ rows: [requestRow({ status: 'cancelled' })] })
+        .mockResolvedValueOnce({});
+
+      const request = await paymentRequestService.cancelRequest('request-1');
+
+      expect(request.status).toBe('cancelled');
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        mockClient,
+        'payment_request.cancelled',
+        { payment_request: request }
+      );
+    });
+
+    it('should refuse to cancel a request that was accepted', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ rows: [requestRow({ status: 'accepted' })] });
+
+      await expect(
+        paymentRequestService.cancelRequest('request-1')
+      ).rejects.toThrow(
+        'Payment request request-1 is accepted and cannot be cancelled'
+      );
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should refuse to decline a request that has expired', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({
+          rows: [requestRow({ expires_at: new Date(Date.now() - 1000) })],
+        });
+
+      await expect(
+        paymentRequestService.declineRequest('request-1')
+      ).rejects.toThrow(PaymentRequestExpiredError);
+    });
+  });
+
+  describe('recoverStaleAccepts', () => {
+    const staleClaim = requestRow({
+      status: 'accepted',
+      responded_at: new Date(Date.now() - 120_000),
+    });
+
+    it('should record the transfer a dead accept made', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'request-1' }] });
+      mockTransferService.findMatchingTransfer.mockResolvedValueOnce({
+        id: 'transfer-0',
+      } as any);
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [staleClaim] }) // lock stale claim
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2' }] }) // lock payer
+        .mockResolvedValueOnce({ rows: [{ id: 'transfer-0' }] }) // by reference
+        .mockResolvedValueOnce({
+          rows: [{ ...staleClaim, transfer_id: 'transfer-0' }],
+        })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const recovered = await paymentRequestService.recoverStaleAccepts(10);
+
+      expect(recovered.map((request) => request.transfer_id)).toEqual([
+        'transfer-0',
+      ]);
+      expect(mockClient.query.mock.calls[3][1]).toEqual([
+        'wallet-2',
+        paymentRequestReference('request-1'),
+      ]);
+      expect(mockTransferService.findMatchingTransfer).toHaveBeenCalledWith(
+        'transfer-0',
+        expect.objectContaining({ amount: 5000 }),
+        mockClient
+      );
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        mockClient,
+        'payment_request.accepted',
+        { payment_request: recovered[0] }
+      );
+    });
+
+    it('should put a claim that paid nothing back to pending', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'request-1' }] });
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [staleClaim] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2' }] })
+        .mockResolvedValueOnce({ rows: [] }) // no transfer
+        .mockResolvedValueOnce({ rows: [requestRow()] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const recovered = await paymentRequestService.recoverStaleAccepts();
+
+      expect(recovered.map((request) => request.status)).toEqual(['pending']);
+      expect(mockClient.query.mock.calls[4][0]).toContain(
+        "status = 'pending'"
+      );
+      expect(mockWebhookService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should skip a claim a retried accept picked up meanwhile', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'request-1' }] });
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const recovered = await paymentRequestService.recoverStaleAccepts();
+
+      expect(recovered).toEqual([]);
+      expect(mockClient.query).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('expireRequests', () => {
+    it('should mark lapsed requests expired and publish an event for each', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [
+            requestRow({ status: 'expired' }),
+            requestRow({ id: 'request-2', status: 'expired' }),
+          ],
+        })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const expired = await paymentRequestService.expireRequests(50);
+
+      expect(expired.map((request) => request.id)).toEqual([
+        'request-1',
+        'request-2',
+      ]);
+      expect(mockClient.query.mock.calls[1][1]).toEqual([50]);
+      expect(mockWebhookService.enqueue).toHaveBeenCalledTimes(2);
+      expect(mockOutboxService.append).toHaveBeenLastCalledWith(
+        mockClient,
+        expect.objectContaining({
+          aggregate_id: 'request-2',
+          event_type: 'payment_request.expired',
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,442 @@
+import {
+  ScheduledTransferService,
+  occurrenceReference,
+} from '../../src/services/ScheduledTransferService';
+import { TransferService } from '../../src/services/TransferService';
+import { pool } from '../../src/config/database';
+import {
+  CurrencyMismatchError,
+  DuplicateClientReferenceError,
+  InsufficientBalanceError,
+  InvalidScheduledTransferStateError,
+  ValidationError,
+  WalletClosedError,
+  WalletNotFoundError,
+} from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ScheduledTransferService', () => {
+  let scheduledTransferService: ScheduledTransferService;
+  let mockTransferService: jest.Mocked<TransferService>;
+  const mockPool = pool as any;
+  let mockClient: any;
+
+  const start = new Date(Date.now() + DAY_MS);
+
+  const scheduleRow = (overrides: Record<string, any> = {}) => ({
+    id: 'schedule-1',
+    sender_wallet_id: 'wallet-1',
+    receiver_wallet_id: 'wallet-2',
+    amount: '5000',
+    currency: 'USD',
+    memo: 'Rent',
+    metadata: {},
+    start_at: start,
+    recurrence: 'FREQ=MONTHLY;COUNT=3',
+    status: 'active',
+    next_occurrence: 0,
+    next_run_at: start,
+    attempts: 0,
+    last_error: null,
+    last_run_at: null,
+    last_transfer_id: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTransferService = {
+      transfer: jest.fn(),
+      findMatchingTransfer: jest.fn(),
+    } as any;
+
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn(),
+    };
+
+    mockPool.connect.mockResolvedValue(mockClient);
+    scheduledTransferService = new ScheduledTransferService(
+      mockTransferService
+    );
+  });
+
+  describe('createSchedule', () => {
+    const input = {
+      sender_wallet_id: 'wallet-1',
+      receiver_wallet_id: 'wallet-2',
+      amount: 5000,
+      start_at: start,
+      recurrence: 'FREQ=MONTHLY;COUNT=3',
+    };
+
+    const wallets = (receiver: Record<string, any> = {}) => ({
+      rows: [
+        { id: 'wallet-1', currency: 'USD', status: 'active' },
+        { id: 'wallet-2', currency: 'USD', status: 'active', ...receiver },
+      ],
+    });
+
+    it('should create an active schedule that first runs at its start', async () => {
+      mockPool.query
+        .mockResolvedValueOnce(wallets())
+        .mockResolvedValueOnce({ rows: [scheduleRow()] });
+
+      const schedule = await scheduledTransferService.createSchedule(input);
+
+      expect(schedule).toMatchObject({
+        id: 'schedule-1',
+        amount: 5000,
+        status: 'active',
+        next_occurrence: 0,
+        next_run_at: start,
+      });
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO scheduled_transfers'),
+        [
+          'wallet-1',
+          'wallet-2',
+          5000,
+          'USD',
+          null,
+          '{}',
+          start,
+          'FREQ=MONTHLY;COUNT=3',
+        ]
+      );
+    });
+
+    it('should reject a start in the past', async () => {
+      await expect(
+        scheduledTransferService.createSchedule({
+          ...input,
+          start_at: new Date(Date.now() - DAY_MS),
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject a recurrence that ends before the start', async () => {
+      await expect(
+        scheduledTransferService.createSchedule({
+          ...input,
+          recurrence: 'FREQ=DAILY;UNTIL=20200101',
+        })
+      ).rejects.toThrow('Recurrence ends before the start time');
+    });
+
+    it('should reject unknown, closed and cross-currency wallets', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [wallets().rows[0]] })
+        .mockResolvedValueOnce(wallets({ status: 'closed' }))
+        .mockResolvedValueOnce(wallets({ currency: 'EUR' }));
+
+      await expect(
+        scheduledTransferService.createSchedule(input)
+      ).rejects.toThrow(WalletNotFoundError);
+      await expect(
+        scheduledTransferService.createSchedule(input)
+      ).rejects.toThrow(WalletClosedError);
+      await expect(
+        scheduledTransferService.createSchedule(input)
+      ).rejects.toThrow(CurrencyMismatchError);
+    });
+  });
+
+  describe('runDue', () => {
+    const advanceParams = () => mockPool.query.mock.calls[1][1];
+
+    it('should pay the due occurrence and move to the next one', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [scheduleRow()] }) // claim
+        .mockResolvedValueOnce({}); // advance
+      mockTransferService.transfer.mockResolvedValueOnce({
+        id: 'transfer-1',
+      } as any);
+
+      const ran = await scheduledTransferService.runDue();
+
+      expect(ran).toBe(1);
+      expect(mockPool.query.mock.calls[0][0]).toContain(
+        'FOR UPDATE SKIP LOCKED'
+      );
+      expect(mockTransferService.transfer).toHaveBeenCalledWith({
+        sender_wallet_id: 'wallet-1',
+        receiver_wallet_id: 'wallet-2',
+        amount: 5000,
+        memo: 'Rent',
+        metadata: {},
+        client_reference: occurrenceReference('schedule-1', 0),
+      });
+      const nextMonth = advanceParams()[4] as Date;
+      expect(advanceParams()).toEqual([
+        'schedule-1',
+        1,
+        null,
+        'transfer-1',
+        nextMonth,
+        'completed',
+      ]);
+      expect(nextMonth.getTime()).toBeGreaterThan(start.getTime());
+    });
+
+    it('should skip occurrences missed while the worker was down', async () => {
+      const pastStart = new Date(Date.now() - 3.5 * DAY_MS);
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [
+            scheduleRow({
+              start_at: pastStart,
+              next_run_at: pastStart,
+              recurrence: 'FREQ=DAILY',
+            }),
+          ],
+        })
+        .mockResolvedValueOnce({});
+      mockTransferService.transfer.mockResolvedValueOnce({
+        id: 'transfer-1',
+      } as any);
+
+      await scheduledTransferService.runDue();
+
+      expect(mockTransferService.transfer).toHaveBeenCalledTimes(1);
+      expect(advanceParams()[1]).toBe(4);
+      expect(advanceParams()[4]).toEqual(
+        new Date(pastStart.getTime() + 4 * DAY_MS)
+      );
+    });
+
+    it('should complete a schedule whose remaining occurrences were all missed', async () => {
+      const pastStart = new Date(Date.now() - 3.5 * DAY_MS);
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [
+            scheduleRow({
+              start_at: pastStart,
+              next_run_at: pastStart,
+              recurrence: 'FREQ=DAILY;COUNT=3',
+            }),
+          ],
+        })
+        .mockResolvedValueOnce({});
+      mockTransferService.transfer.mockResolvedValueOnce({
+        id: 'transfer-1',
+      } as any);
+
+      await scheduledTransferService.runDue();
+
+      expect(advanceParams()[1]).toBe(1);
+      expect(advanceParams()[4]).toBeNull();
+      expect(advanceParams()[5]).toBe('completed');
+    });
+
+    it('should complete a one-off once it is paid', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [scheduleRow({ recurrence: null })] })
+        .mockResolvedValueOnce({});
+      mockTransferService.transfer.mockResolvedValueOnce({
+        id: 'transfer-1',
+      } as any);
+
+      await scheduledTransferService.runDue();
+
+      expect(advanceParams()[4]).toBeNull();
+      expect(advanceParams()[5]).toBe('completed');
+    });
+
+    it('should record the existing transfer when the occurrence was already paid', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [scheduleRow()] })
+        .mockResolvedValueOnce({});
+      mockTransferService.transfer.mockRejectedValueOnce(
+        new DuplicateClientReferenceError(
+          occurrenceReference('schedule-1', 0),
+          'transfer-earlier'
+        )
+      );
+      mockTransferService.findMatchingTransfer.mockResolvedValueOnce({
+        id: 'transfer-earlier',
+      } as any);
+
+      await scheduledTransferService.runDue();
+
+      expect(mockTransferService.findMatchingTransfer).toHaveBeenCalledWith(
+        'transfer-earlier',
+        {
+          sender_wallet_id: 'wallet-1',
+          receiver_wallet_id: 'wallet-2',
+          amount: 5000,
+          currency: 'USD',
+        }
+      );
+      expect(advanceParams()[3]).toBe('transfer-earlier');
+      expect(advanceParams()[2]).toBeNull();
+    });
+
+    it('should not record a transfer under the reference that did not pay the occurrence', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [scheduleRow()] })
+        .mockResolvedValueOnce({});
+      mockTransferService.transfer.mockRejectedValueOnce(
+        new DuplicateClientReferenceError(
+          occurrenceReference('schedule-1', 0),
+          'transfer-other'
+        )
+      );
+      mockTransferService.findMatchingTransfer.mockResolvedValueOnce(null);
+
+      await scheduledTransferService.runDue();
+
+      expect(mockPool.query.mock.calls[1][0]).toContain('attempts = $2');
+      expect(advanceParams()).not.toContain('transfer-other');
+    });
+
+    it('should retry a failed occurrence with exponential backoff', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [scheduleRow({ attempts: 1 })] })
+        .mockResolvedValueOnce({});
+      mockTransferService.transfer.mockRejectedValueOnce(
+        new InsufficientBalanceError('Insufficient balance')
+      );
+
+      await scheduledTransferService.runDue();
+
+      expect(mockPool.query.mock.calls[1][0]).toContain('attempts = $2');
+      expect(advanceParams()).toEqual([
+        'schedule-1',
+        2,
+        'Insufficient balance',
+        7200,
+      ]);
+    });
+
+    it('should give the occurrence up after the last attempt and move on', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [scheduleRow({ attempts: 3 })] })
+        .mockResolvedValueOnce({});
+      mockTransferService.transfer.mockRejectedValueOnce(
+        new InsufficientBalanceError('Insufficient balance')
+      );
+
+      await scheduledTransferService.runDue();
+
+      expect(advanceParams()[1]).toBe(1);
+      expect(advanceParams()[2]).toBe('Insufficient balance');
+      expect(advanceParams()[4]).toBeInstanceOf(Date);
+      expect(advanceParams()[5]).toBe('failed');
+    });
+
+    it('should fail the schedule at once on an error retrying cannot fix', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [scheduleRow()] })
+        .mockResolvedValueOnce({});
+      mockTransferService.transfer.mockRejectedValueOnce(
+        new WalletClosedError('wallet-2')
+      );
+
+      await scheduledTransferService.runDue();
+
+      expect(advanceParams()[4]).toBeNull();
+      expect(advanceParams()[5]).toBe('failed');
+    });
+  });
+
+  describe('pauseSchedule', () => {
+    it('should pause an active schedule', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [scheduleRow()] }) // lock
+        .mockResolvedValueOnce({ rows: [scheduleRow({ status: 'paused' })] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const schedule = await scheduledTransferService.pauseSchedule(
+        'schedule-1'
+      );
+
+      expect(schedule.status).toBe('paused');
+    });
+
+    it('should refuse to pause a schedule that is not active', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [scheduleRow({ status: 'paused' })] });
+
+      await expect(
+        scheduledTransferService.pauseSchedule('schedule-1')
+      ).rejects.toThrow(InvalidScheduledTransferStateError);
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('resumeSchedule', () => {
+    it('should skip the occurrences that fell due while paused', async () => {
+      const pastStart = new Date(Date.now() - 2.5 * DAY_MS);
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [
+            scheduleRow({
+              status: 'paused',
+              start_at: pastStart,
+              recurrence: 'FREQ=DAILY',
+            }),
+          ],
+        })
+        .mockResolvedValueOnce({ rows: [scheduleRow()] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      await scheduledTransferService.resumeSchedule('schedule-1');
+
+      expect(mockClient.query.mock.calls[2][1]).toEqual([
+        'schedule-1',
+        'active',
+        3,
+        new Date(pastStart.getTime() + 3 * DAY_MS),
+      ]);
+    });
+
+    it('should complete a schedule with no occurrences left', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [
+            scheduleRow({
+              status: 'paused',
+              start_at: new Date(Date.now() - 10 * DAY_MS),
+              recurrence: 'FREQ=DAILY;COUNT=2',
+            }),
+          ],
+        })
+        .mockResolvedValueOnce({ rows: [scheduleRow()] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      await scheduledTransferService.resumeSchedule('schedule-1');
+
+      expect(mockClient.query.mock.calls[2][1]).toEqual([
+        'schedule-1',
+        'completed',
+        0,
+        null,
+      ]);
+    });
+  });
+
+  describe('cancelSchedule', () => {
+    it('should refuse to cancel a finished schedule', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [scheduleRow({ status: 'completed' })],
+        });
+
+      await expect(
+        scheduledTransferService.cancelSchedule('schedule-1')
+      ).rejects.toThrow(InvalidScheduledTransferStateError);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { SpendingLimitService } from '../../src/services/SpendingLimitService';
+import { pool } from '../../src/config/database';
+import {
+  LimitExceededError,
+  SpendingLimitNotFoundError,
+  WalletNotFoundError,
+} from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+describe('SpendingLimitService', () => {
+  let spendingLimitService: SpendingLimitService;
+  const mockPool = pool as any;
+  let mockClient: any;
+
+  const dailyResetsAt = new Date('2024-01-02T00:00:00.000Z');
+
+  const limitRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'limit-1',
+    wallet_id: null,
+    tier: 'standard',
+    currency: 'USD',
+    wallet_currency: 'USD',
+    max_single_amount: '100000',
+    daily_amount: '50000',
+    monthly_amount: null,
+    max_transfer_count: '3',
+    count_window_seconds: '60',
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  const usageRow = (overrides: Record<string, unknown> = {}) => ({
+    daily_used: '0',
+    monthly_used: '0',
+    window_count: '0',
+    window_resets_at: null,
+    daily_resets_at: dailyResetsAt,
+    monthly_resets_at: new Date('2024-02-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+    spendingLimitService = new SpendingLimitService();
+  });
+
+  describe('assertWithinLimits', () => {
+    it('should allow a transfer inside every limit', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [limitRow()] })
+        .mockResolvedValueOnce({ rows: [usageRow({ daily_used: '20000' })] });
+
+      await expect(
+        spendingLimitService.assertWithinLimits(mockClient, 'wallet-1', 30000)
+      ).resolves.toBeUndefined();
+    });
+
+    it('should skip usage queries for wallets without limits', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [{ id: null, wallet_currency: 'USD' }],
+      });
+
+      await spendingLimitService.assertWithinLimits(mockClient, 'wallet-1', 1);
+
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the daily limit and when it resets', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [limitRow()] })
+        .mockResolvedValueOnce({ rows: [usageRow({ daily_used: '20001' })] });
+
+      const error = await spendingLimitService
+        .assertWithinLimits(mockClient, 'wallet-1', 30000)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(LimitExceededError);
+      expect(error.limit).toBe('daily_amount');
+      expect(error.resetsAt).toEqual(dailyResetsAt);
+      expect(error.details).toEqual({
+        limit: 'daily_amount',
+        resets_at: dailyResetsAt,
+      });
+      expect(error.message).toContain('$299.99 remaining');
+    });
+
+    it('should check the single transfer limit first', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [limitRow()] })
+        .mockResolvedValueOnce({ rows: [usageRow({ daily_used: '50000' })] });
+
+      await expect(
+        spendingLimitService.assertWithinLimits(mockClient, 'wallet-1', 100001)
+      ).rejects.toMatchObject({ limit: 'max_single_amount', resetsAt: null });
+    });
+
+    it('should count transfers in the rolling window', async () => {
+      const windowResetsAt = new Date('2024-01-01T12:01:00.000Z');
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [limitRow()] })
+        .mockResolvedValueOnce({
+          rows: [
+            usageRow({ window_count: '3', window_resets_at: windowResetsAt }),
+          ],
+        });
+
+      await expect(
+        spendingLimitService.assertWithinLimits(mockClient, 'wallet-1', 1)
+      ).rejects.toMatchObject({
+        limit: 'max_transfer_count',
+        resetsAt: windowResetsAt,
+      });
+      expect(mockClient.query.mock.calls[1][1]).toEqual(['wallet-1', 60]);
+    });
+
+    it('should throw WalletNotFoundError for an unknown wallet', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        spendingLimitService.assertWithinLimits(mockClient, 'missing', 1)
+      ).rejects.toThrow(WalletNotFoundError);
+    });
+  });
+
+  describe('getWalletLimits', () => {
+    it('should report remaining allowance for each configured limit', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [limitRow({ wallet_id: 'wallet-1', tier: null })],
+        })
+        .mockResolvedValueOnce({
+          rows: [usageRow({ daily_used: '45000', window_count: '1' })],
+        });
+
+      const limits = await spendingLimitService.getWalletLimits('wallet-1');
+
+      expect(limits.source).toBe('wallet');
+      expect(limits.usage.map((u) => u.limit)).toEqual([
+        'max_single_amount',
+        'daily_amount',
+        'max_transfer_count',
+      ]);
+      expect(limits.usage[1]).toEqual({
+        limit: 'daily_amount',
+        max: 50000,
+        used: 45000,
+        remaining: 5000,
+        resets_at: dailyResetsAt,
+      });
+      expect(limits.usage[2].remaining).toBe(2);
+    });
+  });
+
+  describe('upsertWalletLimit', () => {
+    it('should treat omitted values as unlimited', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [limitRow({ wallet_id: 'wallet-1', tier: null })],
+      });
+
+      await spendingLimitService.upsertWalletLimit('wallet-1', {
+        daily_amount: 50000,
+      });
+
+      expect(mockPool.query.mock.calls[0][1]).toEqual([
+        'wallet-1',
+        null,
+        50000,
+        null,
+        null,
+        null,
+      ]);
+    });
+
+    it('should throw WalletNotFoundError when the wallet does not exist', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        spendingLimitService.upsertWalletLimit('missing', {})
+      ).rejects.toThrow(WalletNotFoundError);
+    });
+  });
+
+  describe('deleteLimit', () => {
+    it('should throw SpendingLimitNotFoundError for an unknown limit', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(spendingLimitService.deleteLimit('missing')).rejects.toThrow(
+        SpendingLimitNotFoundError
+      );
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { StatementService } from '../../src/services/StatementService';
+import { pool } from '../../src/config/database';
+import { StatementWriter } from '../../src/models/Statement';
+import { ValidationError, WalletNotFoundError } from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+describe('StatementService', () => {
+  let statementService: StatementService;
+  let writer: jest.Mocked<StatementWriter>;
+  const mockPool = pool as any;
+  let mockClient: any;
+
+  const request = {
+    wallet_id: '123e4567-e89b-12d3-a456-426614174000',
+    from: new Date('2024-01-01T00:00:00.000Z'),
+    to: new Date('2024-02-01T00:00:00.000Z'),
+  };
+
+  const row = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    type: 'fund',
+    direction: 'credit',
+    amount: '1000',
+    balance_after: '1000',
+    transaction_reference: `ref-${id}`,
+    transfer_id: null,
+    created_at: new Date('2024-01-05T00:00:00.000Z'),
+    cursor_created_at: '2024-01-05 00:00:00.123456',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    statementService = new StatementService(2);
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn(),
+    };
+    mockPool.connect.mockResolvedValue(mockClient);
+    writer = {
+      begin: jest.fn().mockResolvedValue(undefined),
+      lines: jest.fn().mockResolvedValue(undefined),
+      end: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should open with the balance after the last entry before the period', async () => {
+    mockClient.query
+      .mockResolvedValueOnce({}) // BEGIN
+      .mockResolvedValueOnce({}) // SET TRANSACTION
+      .mockResolvedValueOnce({ rows: [{ currency: 'USD', label: 'main' }] })
+      .mockResolvedValueOnce({ rows: [{ balance_after: '5000' }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const summary = await statementService.writeStatement(request, writer);
+
+    expect(writer.begin).toHaveBeenCalledWith(
+      expect.objectContaining({
+        wallet_id: request.wallet_id,
+        currency: 'USD',
+        label: 'main',
+        opening_balance: 5000,
+      })
+    );
+    expect(writer.lines).not.toHaveBeenCalled();
+    expect(summary.closing_balance).toBe(5000);
+    expect(summary.entry_count).toBe(0);
+    expect(writer.end).toHaveBeenCalledWith(summary);
+  });
+
+  it('should read entries in keyset batches and total them by type', async () => {
+    mockClient.query
+      .mockResolvedValueOnce({}) // BEGIN
+      .mockResolvedValueOnce({}) // SET TRANSACTION
+      .mockResolvedValueOnce({ rows: [{ currency: 'USD', label: null }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({
+        rows: [
+          row('00000000-0000-0000-0000-000000000001'),
+          row('00000000-0000-0000-0000-000000000002', {
+            type: 'transfer',
+            direction: 'debit',
+            amount: '300',
+            balance_after: '700',
+          }),
+        ],
+      })
+      .mockResolvedValueOnce({
+        rows: [
+          row('00000000-0000-0000-0000-000000000003', {
+            amount: '50',
+            balance_after: '750',
+          }),
+        ],
+      })
+      .mockResolvedValueOnce({}); // COMMIT
+
+    const summary = await statementService.writeStatement(request, writer);
+
+    expect(writer.begin).toHaveBeenCalledWith(
+      expect.objectContaining({ opening_balance: 0 })
+    );
+    expect(writer.lines).toHaveBeenCalledTimes(2);
+    expect(writer.lines.mock.calls[1][0][0]).toEqual(
+      expect.objectContaining({ amount: 50, balance_after: 750 })
+    );
+    expect(summary).toEqual({
+      closing_balance: 750,
+      total_credits: 1050,
+      total_debits: 300,
+      entry_count: 3,
+      totals_by_type: [
+        { type: 'fund', credits: 1050, debits: 0, count: 2 },
+        { type: 'transfer', credits: 0, debits: 300, count: 1 },
+      ],
+    });
+
+    // The second batch continues after the last row of the first
+    expect(mockClient.query).toHaveBeenNthCalledWith(
+      6,
+      expect.stringContaining('(le.created_at, le.id) > ($4::timestamp, $5::uuid)'),
+      [
+        request.wallet_id,
+        request.from,
+        request.to,
+        '2024-01-05 00:00:00.123456',
+        '00000000-0000-0000-0000-000000000002',
+        2,
+      ]
+    );
+  });
+
+  it('should read everything from one read-only snapshot', async () => {
+    mockClient.query
+      .mockResolvedValueOnce({}) // BEGIN
+      .mockResolvedValueOnce({}) // SET TRANSACTION
+      .mockResolvedValueOnce({ rows: [{ currency: 'USD', label: null }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({}); // COMMIT
+
+    await statementService.writeStatement(request, writer);
+
+    expect(mockPool.connect).toHaveBeenCalledTimes(1);
+    expect(mockPool.query).not.toHaveBeenCalled();
+    expect(mockClient.query.mock.calls[1][0]).toBe(
+      'SET TRANSACTION ISOLATION LEVEL REPEATABLE READ READ ONLY'
+    );
+    expect(mockClient.query).toHaveBeenLastCalledWith('COMMIT');
+    expect(mockClient.release).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw WalletNotFoundError before writing anything', async () => {
+    mockClient.query
+      .mockResolvedValueOnce({}) // BEGIN
+      .mockResolvedValueOnce({}) // SET TRANSACTION
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      statementService.writeStatement(request, writer)
+    ).rejects.toThrow(WalletNotFoundError);
+    expect(writer.begin).not.toHaveBeenCalled();
+  });
+
+  it('should reject a period that ends before it starts', async () => {
+    await expect(
+      statementService.writeStatement(
+        { ...request, from: request.to, to: request.from },
+        writer
+      )
+    ).rejects.toThrow(ValidationError);
+    expect(mockPool.connect).not.toHaveBeenCalled();
+  });
+});
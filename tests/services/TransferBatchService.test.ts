@@ -0,0 +1,363 @@
+import { TransferBatchService } from '../../src/services/TransferBatchService';
+import { TransferService } from '../../src/services/TransferService';
+import { pool } from '../../src/config/database';
+import {
+  InsufficientBalanceError,
+  ValidationError,
+  WalletClosedError,
+  WalletNotFoundError,
+} from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+describe('TransferBatchService', () => {
+  let transferBatchService: TransferBatchService;
+  let mockTransferService: jest.Mocked<TransferService>;
+  const mockPool = pool as any;
+  let mockClient: any;
+
+  const batchRow = (overrides: Record<string, any> = {}) => ({
+    id: 'batch-1',
+    sender_wallet_id: 'wallet-1',
+    currency: 'USD',
+    mode: 'best_effort',
+    status: 'processing',
+    item_count: 2,
+    total_amount: '7000',
+    succeeded_count: 0,
+    failed_count: 0,
+    error: null,
+    attempts: 1,
+    created_at: new Date(),
+    started_at: new Date(),
+    completed_at: null,
+    ...overrides,
+  });
+
+  const itemRows = {
+    rows: [
+      {
+        id: 'item-1',
+        batch_id: 'batch-1',
+        position: 0,
+        receiver_wallet_id: 'wallet-2',
+        amount: '3000',
+        memo: null,
+        metadata: {},
+        client_reference: 'payout-1',
+        status: 'pending',
+      },
+      {
+        id: 'item-2',
+        batch_id: 'batch-1',
+        position: 1,
+        receiver_wallet_id: 'wallet-3',
+        amount: '4000',
+        memo: 'Bonus',
+        metadata: {},
+        client_reference: null,
+        status: 'pending',
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTransferService = {
+      transferMany: jest.fn(),
+    } as any;
+
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn(),
+    };
+
+    mockPool.connect.mockResolvedValue(mockClient);
+    transferBatchService = new TransferBatchService(mockTransferService);
+  });
+
+  describe('createBatch', () => {
+    const input = {
+      sender_wallet_id: 'wallet-1',
+      mode: 'all_or_nothing' as const,
+      items: [
+        { receiver_wallet_id: 'wallet-2', amount: 3000, client_reference: 'payout-1' },
+        { receiver_wallet_id: 'wallet-3', amount: 4000, memo: 'Bonus' },
+      ],
+    };
+
+    it('should insert the batch and its items in one transaction', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ id: 'wallet-1', currency: 'USD', status: 'active' }],
+      });
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [batchRow({ mode: 'all_or_nothing', status: 'pending' })],
+        }) // Insert batch
+        .mockResolvedValueOnce({}) // Insert items
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const batch = await transferBatchService.createBatch(input);
+
+      expect(batch.status).toBe('pending');
+      expect(batch.total_amount).toBe(7000);
+      expect(mockClient.query.mock.calls[1][1]).toEqual([
+        'wallet-1',
+        'USD',
+        'all_or_nothing',
+        2,
+        7000,
+      ]);
+      expect(mockClient.query.mock.calls[2][1]).toEqual([
+        'batch-1',
+        ['wallet-2', 'wallet-3'],
+        [3000, 4000],
+        [null, 'Bonus'],
+        ['{}', '{}'],
+        ['payout-1', null],
+      ]);
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should reject more items than the configured maximum', async () => {
+      const items = Array.from({ length: 1001 }, () => input.items[1]);
+
+      await expect(
+        transferBatchService.createBatch({ ...input, items })
+      ).rejects.toThrow('A batch can hold at most 1000 items, got 1001');
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject an item paying the sender', async () => {
+      await expect(
+        transferBatchService.createBatch({
+          ...input,
+          items: [...input.items, { receiver_wallet_id: 'wallet-1', amount: 100 }],
+        })
+      ).rejects.toThrow('Item 2 transfers funds from a wallet to itself');
+    });
+
+    it('should reject a client reference used twice in the batch', async () => {
+      await expect(
+        transferBatchService.createBatch({
+          ...input,
+          items: [input.items[0], { ...input.items[1], client_reference: 'payout-1' }],
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw WalletNotFoundError for an unknown sender', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(transferBatchService.createBatch(input)).rejects.toThrow(
+        WalletNotFoundError
+      );
+    });
+
+    it('should reject a closed sender', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ id: 'wallet-1', currency: 'USD', status: 'closed' }],
+      });
+
+      await expect(transferBatchService.createBatch(input)).rejects.toThrow(
+        WalletClosedError
+      );
+      expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processPending', () => {
+    const transfer = (id: string) => ({ transfer: { id } as any });
+    const failure = { error: new InsufficientBalanceError() };
+
+    const runBatch = (mode: string) => {
+      mockPool.query.mockResolvedValueOnce({ rows: [batchRow({ mode })] }); // Claim
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [{ status: 'processing' }] })
+        .mockResolvedValueOnce(itemRows)
+        .mockResolvedValue({ rows: [batchRow({ mode, status: 'completed' })] });
+    };
+
+    const queryFor = (fragment: string) =>
+      mockClient.query.mock.calls.find(([sql]: [string]) =>
+        sql.includes(fragment)
+      );
+
+    it('should pay every item and mark the batch completed', async () => {
+      runBatch('best_effort');
+      mockTransferService.transferMany.mockResolvedValueOnce([
+        transfer('transfer-1'),
+        transfer('transfer-2'),
+      ]);
+
+      const claimed = await transferBatchService.processPending(5);
+
+      expect(claimed).toBe(1);
+      expect(mockTransferService.transferMany).toHaveBeenCalledWith(
+        mockClient,
+        'wallet-1',
+        [
+          {
+            receiver_wallet_id: 'wallet-2',
+            amount: 3000,
+            memo: undefined,
+            metadata: {},
+            client_reference: 'payout-1',
+          },
+          {
+            receiver_wallet_id: 'wallet-3',
+            amount: 4000,
+            memo: 'Bonus',
+            metadata: {},
+            client_reference: undefined,
+          },
+        ],
+        false
+      );
+      expect(queryFor('UPDATE transfer_batch_items')[1].slice(1, 3)).toEqual([
+        ['completed', 'completed'],
+        ['transfer-1', 'transfer-2'],
+      ]);
+      expect(queryFor('UPDATE transfer_batches')[1]).toEqual([
+        'batch-1',
+        'completed',
+        2,
+        0,
+        null,
+      ]);
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should keep the paid items of a best_effort batch', async () => {
+      runBatch('best_effort');
+      mockTransferService.transferMany.mockResolvedValueOnce([
+        transfer('transfer-1'),
+        failure,
+      ]);
+
+      await transferBatchService.processPending(5);
+
+      const items = queryFor('UPDATE transfer_batch_items')[1];
+      expect(items[1]).toEqual(['completed', 'failed']);
+      expect(items[3]).toEqual([null, 'INSUFFICIENT_BALANCE']);
+      expect(queryFor('UPDATE transfer_batches')[1].slice(1)).toEqual([
+        'partially_completed',
+        1,
+        1,
+        null,
+      ]);
+      expect(mockClient.query).not.toHaveBeenCalledWith(
+        'ROLLBACK TO SAVEPOINT transfer_batch'
+      );
+    });
+
+    it('should roll back an all_or_nothing batch at its first failure', async () => {
+      runBatch('all_or_nothing');
+      mockTransferService.transferMany.mockResolvedValueOnce([
+        transfer('transfer-1'),
+        failure,
+      ]);
+
+      await transferBatchService.processPending(5);
+
+      expect(mockTransferService.transferMany.mock.calls[0][3]).toBe(true);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        'ROLLBACK TO SAVEPOINT transfer_batch'
+      );
+      expect(queryFor('UPDATE transfer_batch_items')[1][1]).toEqual([
+        'skipped',
+        'failed',
+      ]);
+      const batchUpdate = queryFor('UPDATE transfer_batches')[1];
+      expect(batchUpdate.slice(1, 4)).toEqual(['failed', 0, 1]);
+      expect(batchUpdate[4]).toMatch(/^Item 1 failed, so no item was paid: /);
+    });
+
+    it('should leave a batch another worker already settled', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [batchRow()] });
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [{ status: 'completed' }] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      await transferBatchService.processPending(5);
+
+      expect(mockTransferService.transferMany).not.toHaveBeenCalled();
+    });
+
+    it('should fail the batch when its sender cannot be locked', async () => {
+      runBatch('best_effort');
+      mockTransferService.transferMany.mockRejectedValueOnce(
+        new WalletNotFoundError('wallet-1')
+      );
+      mockPool.query.mockResolvedValue({});
+
+      await transferBatchService.processPending(5);
+
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockPool.query.mock.calls[1][0]).toContain("status = 'skipped'");
+      expect(mockPool.query.mock.calls[2][1]).toEqual([
+        'batch-1',
+        'Wallet wallet-1 not found',
+      ]);
+    });
+
+    it('should leave the batch for retry on a database error', async () => {
+      runBatch('best_effort');
+      mockTransferService.transferMany.mockRejectedValueOnce(
+        new Error('connection reset')
+      );
+
+      await transferBatchService.processPending(5);
+
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+      expect(mockPool.query.mock.calls[0][0]).toContain(
+        'attempts = attempts + 1'
+      );
+    });
+
+    it('should fail the batch when its last attempt hits a database error', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [batchRow({ attempts: 5 })],
+      });
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [{ status: 'processing' }] })
+        .mockResolvedValueOnce(itemRows)
+        .mockResolvedValue({});
+      mockTransferService.transferMany.mockRejectedValueOnce(
+        new Error('connection reset')
+      );
+      mockPool.query.mockResolvedValue({});
+
+      await transferBatchService.processPending(5);
+
+      expect(mockPool.query.mock.calls[1][0]).toContain("status = 'skipped'");
+      expect(mockPool.query.mock.calls[2][1]).toEqual([
+        'batch-1',
+        'Gave up after 5 attempts: connection reset',
+      ]);
+    });
+
+    it('should give up a batch whose runs kept dying without running it', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [batchRow({ attempts: 6 })] })
+        .mockResolvedValue({});
+
+      await transferBatchService.processPending(5);
+
+      expect(mockPool.connect).not.toHaveBeenCalled();
+      expect(mockTransferService.transferMany).not.toHaveBeenCalled();
+      expect(mockPool.query.mock.calls[2][0]).toContain("status = 'failed'");
+      expect(mockPool.query.mock.calls[2][1]).toEqual([
+        'batch-1',
+        'Gave up after 5 attempts that did not finish',
+      ]);
+    });
+  });
+});
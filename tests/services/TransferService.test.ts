@@ -1,13 +1,38 @@
 import { TransferService } from '../../src/services/TransferService';
 import { LedgerService } from '../../src/services/LedgerService';
+import { FxService } from '../../src/services/FxService';
+import { WebhookService } from '../../src/services/WebhookService';
+import { OutboxService } from '../../src/services/OutboxService';
+import { FeeService } from '../../src/services/FeeService';
+import { SpendingLimitService } from '../../src/services/SpendingLimitService';
 import { pool } from '../../src/config/database';
-import { InsufficientBalanceError, WalletNotFoundError } from '../../src/utils/errors';
+import { encodeCursor } from '../../src/utils/cursor';
+import {
+  InsufficientBalanceError,
+  WalletNotFoundError,
+  TransferNotFoundError,
+  InvalidTransferStateError,
+  ReversalAmountExceededError,
+  CurrencyMismatchError,
+  FxQuoteExpiredError,
+  LimitExceededError,
+  WalletFrozenError,
+  WalletDebitFrozenError,
+  DuplicateClientReferenceError,
+  HoldExpiredError,
+  CaptureAmountExceededError,
+} from '../../src/utils/errors';
 
 jest.mock('../../src/config/database');
 
 describe('TransferService', () => {
   let transferService: TransferService;
   let mockLedgerService: jest.Mocked<LedgerService>;
+  let mockFxService: jest.Mocked<FxService>;
+  let mockWebhookService: jest.Mocked<WebhookService>;
+  let mockOutboxService: jest.Mocked<OutboxService>;
+  let mockFeeService: jest.Mocked<FeeService>;
+  let mockSpendingLimitService: jest.Mocked<SpendingLimitService>;
   const mockPool = pool as any;
   let mockClient: any;
 
@@ -19,6 +44,35 @@ describe('TransferService', () => {
       getEntries: jest.fn(),
       findEntryByExternalPaymentRef: jest.fn(),
       getEntriesByTransactionReference: jest.fn(),
+      getEntriesByTransactionReferences: jest.fn().mockResolvedValue([]),
+      getHeldAmount: jest.fn().mockResolvedValue(0),
+      postJournal: jest.fn().mockResolvedValue({ journal: {}, entries: [] }),
+      getSystemWalletId: jest.fn(
+        async (code: string, currency: string) => `${code}-${currency}`
+      ),
+    } as any;
+
+    mockFxService = {
+      lockQuote: jest.fn(),
+      markQuoteUsed: jest.fn(),
+    } as any;
+
+    mockWebhookService = {
+      enqueue: jest.fn(),
+    } as any;
+
+    mockOutboxService = {
+      append: jest.fn(),
+    } as any;
+
+    mockFeeService = {
+      quoteForWallet: jest
+        .fn()
+        .mockResolvedValue({ fee_amount: 0, schedule_id: null }),
+    } as any;
+
+    mockSpendingLimitService = {
+      assertWithinLimits: jest.fn(),
     } as any;
 
     mockClient = {
@@ -27,7 +81,14 @@ describe('TransferService', () => {
     };
 
     mockPool.connect.mockResolvedValue(mockClient);
-    transferService = new TransferService(mockLedgerService);
+    transferService = new TransferService(
+      mockLedgerService,
+      mockFxService,
+      mockWebhookService,
+      mockOutboxService,
+      mockFeeService,
+      mockSpendingLimitService
+    );
   });
 
   describe('transfer', () => {
@@ -42,8 +103,8 @@ describe('TransferService', () => {
       mockClient.query
         .mockResolvedValueOnce({}) // BEGIN
         .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
-        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1' }] }) // Lock wallet-1
-        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2' }] }) // Lock wallet-2
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] }) // Lock wallet-1
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] }) // Lock wallet-2
         .mockResolvedValueOnce({ rows: [{ balance: '10000' }] }) // Balance check
         .mockResolvedValueOnce({
           rows: [{
@@ -55,8 +116,6 @@ describe('TransferService', () => {
             created_at: new Date(),
           }],
         }) // Create transfer
-        .mockResolvedValueOnce({}) // Create debit entry
-        .mockResolvedValueOnce({}) // Create credit entry
         .mockResolvedValueOnce({}) // Update transfer status
         .mockResolvedValueOnce({ rows: [{ // SELECT transfer after update
           id: 'transfer-123',
@@ -72,16 +131,72 @@ describe('TransferService', () => {
 
       expect(transfer.id).toBe('transfer-123');
       expect(transfer.amount).toBe(5000);
+      expect(mockLedgerService.postJournal).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          type: 'transfer',
+          postings: [
+            { wallet_id: 'wallet-1', amount: 5000, currency: 'USD', direction: 'debit' },
+            { wallet_id: 'wallet-2', amount: 5000, currency: 'USD', direction: 'credit' },
+          ],
+        })
+      );
       expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
       expect(mockClient.release).toHaveBeenCalled();
     });
 
+    it('should queue transfer.completed for webhooks and the outbox inside the transaction', async () => {
+      const transferRow = {
+        id: 'transfer-123',
+        sender_wallet_id: 'wallet-1',
+        receiver_wallet_id: 'wallet-2',
+        amount: '5000',
+        currency: 'USD',
+        status: 'completed',
+        created_at: new Date(),
+      };
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+        .mockResolvedValueOnce({ rows: [{ balance: '10000' }] })
+        .mockResolvedValueOnce({ rows: [transferRow] }) // Create transfer
+        .mockResolvedValueOnce({}) // Update transfer status
+        .mockResolvedValueOnce({ rows: [transferRow] }) // SELECT transfer
+        .mockResolvedValueOnce({}); // COMMIT
+
+      await transferService.transfer(transferInput);
+
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        mockClient,
+        'transfer.completed',
+        { transfer: expect.objectContaining({ id: 'transfer-123', status: 'completed' }) }
+      );
+      const enqueueOrder = mockWebhookService.enqueue.mock.invocationCallOrder[0];
+      const commitCall = mockClient.query.mock.calls.findIndex(
+        (call: any[]) => call[0] === 'COMMIT'
+      );
+      expect(enqueueOrder).toBeLessThan(
+        mockClient.query.mock.invocationCallOrder[commitCall]
+      );
+      expect(mockOutboxService.append).toHaveBeenCalledWith(mockClient, {
+        aggregate_type: 'transfer',
+        aggregate_id: 'transfer-123',
+        event_type: 'transfer.completed',
+        payload: { transfer: expect.objectContaining({ id: 'transfer-123' }) },
+      });
+      expect(mockOutboxService.append.mock.invocationCallOrder[0]).toBeLessThan(
+        mockClient.query.mock.invocationCallOrder[commitCall]
+      );
+    });
+
     it('should throw InsufficientBalanceError if balance is insufficient', async () => {
       mockClient.query
         .mockResolvedValueOnce({}) // BEGIN
         .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
-        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1' }] }) // Lock wallet-1
-        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2' }] }) // Lock wallet-2
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] }) // Lock wallet-1
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] }) // Lock wallet-2
         .mockResolvedValueOnce({ rows: [{ balance: '1000' }] }); // Insufficient balance
 
       await expect(transferService.transfer(transferInput)).rejects.toThrow(
@@ -90,6 +205,176 @@ describe('TransferService', () => {
 
       expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
       expect(mockClient.release).toHaveBeenCalled();
+      expect(mockWebhookService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should format the insufficient balance message in the wallet currency', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'KWD' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'KWD' }] })
+        .mockResolvedValueOnce({ rows: [{ balance: '1234' }] });
+
+      await expect(transferService.transfer(transferInput)).rejects.toThrow(
+        // Intl separates the currency code with a non-breaking space
+        /Available: KWD\s1\.234, Required: KWD\s5\.000/
+      );
+    });
+
+    it('should reject transfers between wallets of different currencies', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'JPY' }] });
+
+      await expect(transferService.transfer(transferInput)).rejects.toThrow(
+        CurrencyMismatchError
+      );
+
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should reject transfers out of a debit-frozen wallet', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({
+          rows: [{ id: 'wallet-1', currency: 'USD', status: 'debit_frozen' }],
+        })
+        .mockResolvedValueOnce({
+          rows: [{ id: 'wallet-2', currency: 'USD', status: 'active' }],
+        });
+
+      await expect(transferService.transfer(transferInput)).rejects.toThrow(
+        WalletDebitFrozenError
+      );
+
+      expect(mockSpendingLimitService.assertWithinLimits).not.toHaveBeenCalled();
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should reject transfers into a frozen wallet', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({
+          rows: [{ id: 'wallet-1', currency: 'USD', status: 'active' }],
+        })
+        .mockResolvedValueOnce({
+          rows: [{ id: 'wallet-2', currency: 'USD', status: 'frozen' }],
+        });
+
+      await expect(transferService.transfer(transferInput)).rejects.toThrow(
+        WalletFrozenError
+      );
+
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    describe('with an FX quote', () => {
+      const fxInput = { ...transferInput, quote_id: 'quote-1' };
+      const quote = {
+        id: 'quote-1',
+        source_currency: 'USD',
+        target_currency: 'JPY',
+        rate: 150,
+        source_amount: 5000,
+        target_amount: 7500,
+        expires_at: new Date(Date.now() + 60_000),
+        used_at: null,
+        created_at: new Date(),
+      };
+
+      it('should debit the sender and credit the quoted amount through FX clearing', async () => {
+        mockFxService.lockQuote.mockResolvedValueOnce(quote);
+        const transferRow = {
+          id: 'transfer-fx',
+          sender_wallet_id: 'wallet-1',
+          receiver_wallet_id: 'wallet-2',
+          amount: '5000',
+          currency: 'USD',
+          receiver_amount: '7500',
+          receiver_currency: 'JPY',
+          fx_quote_id: 'quote-1',
+          status: 'completed',
+          created_at: new Date(),
+        };
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'JPY' }] })
+          .mockResolvedValueOnce({ rows: [{ balance: '10000' }] }) // Balance check
+          .mockResolvedValueOnce({ rows: [transferRow] }) // Create transfer
+          .mockResolvedValueOnce({}) // Update transfer status
+          .mockResolvedValueOnce({ rows: [transferRow] }) // SELECT transfer
+          .mockResolvedValueOnce({}); // COMMIT
+
+        const transfer = await transferService.transfer(fxInput);
+
+        expect(transfer.receiver_amount).toBe(7500);
+        expect(transfer.receiver_currency).toBe('JPY');
+        expect(mockFxService.lockQuote).toHaveBeenCalledWith(mockClient, 'quote-1');
+        expect(mockLedgerService.postJournal).toHaveBeenCalledWith(
+          mockClient,
+          expect.objectContaining({
+            postings: [
+              { wallet_id: 'wallet-1', amount: 5000, currency: 'USD', direction: 'debit' },
+              { wallet_id: 'fx_clearing-USD', amount: 5000, currency: 'USD', direction: 'credit' },
+              { wallet_id: 'fx_clearing-JPY', amount: 7500, currency: 'JPY', direction: 'debit' },
+              { wallet_id: 'wallet-2', amount: 7500, currency: 'JPY', direction: 'credit' },
+            ],
+          })
+        );
+        expect(mockFxService.markQuoteUsed).toHaveBeenCalledWith(mockClient, 'quote-1');
+        expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+      });
+
+      it('should reject a quote for a different currency pair', async () => {
+        mockFxService.lockQuote.mockResolvedValueOnce({ ...quote, target_currency: 'EUR' });
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'JPY' }] });
+
+        await expect(transferService.transfer(fxInput)).rejects.toThrow(
+          CurrencyMismatchError
+        );
+        expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+        expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      });
+
+      it('should reject an amount that differs from the quote', async () => {
+        mockFxService.lockQuote.mockResolvedValueOnce({ ...quote, source_amount: 4000 });
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'JPY' }] });
+
+        await expect(transferService.transfer(fxInput)).rejects.toThrow(
+          'does not match quoted amount'
+        );
+        expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      });
+
+      it('should propagate an expired quote', async () => {
+        mockFxService.lockQuote.mockRejectedValueOnce(new FxQuoteExpiredError('quote-1'));
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'JPY' }] });
+
+        await expect(transferService.transfer(fxInput)).rejects.toThrow(
+          FxQuoteExpiredError
+        );
+        expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      });
     });
 
     it('should throw WalletNotFoundError if wallet does not exist', async () => {
@@ -115,12 +400,10 @@ describe('TransferService', () => {
       mockClient.query
         .mockResolvedValueOnce({}) // BEGIN
         .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
-        .mockResolvedValueOnce({ rows: [{ id: 'wallet-a' }] }) // Lock wallet-a first (sorted)
-        .mockResolvedValueOnce({ rows: [{ id: 'wallet-z' }] }) // Lock wallet-z second
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-a', currency: 'USD' }] }) // Lock wallet-a first (sorted)
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-z', currency: 'USD' }] }) // Lock wallet-z second
         .mockResolvedValueOnce({ rows: [{ balance: '10000' }] })
         .mockResolvedValueOnce({ rows: [{ id: 'transfer-123', status: 'pending', created_at: new Date() }] })
-        .mockResolvedValueOnce({})
-        .mockResolvedValueOnce({})
         .mockResolvedValueOnce({}) // Update transfer status
         .mockResolvedValueOnce({ rows: [{ // SELECT transfer after update
           id: 'transfer-123',
@@ -143,12 +426,247 @@ describe('TransferService', () => {
       expect(lockCalls[1][1][0]).toBe('wallet-z'); // First parameter of second lock call
     });
 
+    describe('with a fee schedule', () => {
+      beforeEach(() => {
+        mockFeeService.quoteForWallet.mockResolvedValue({
+          fee_amount: 150,
+          schedule_id: 'schedule-1',
+        });
+      });
+
+      it('should charge the fee on top of amount into the fee revenue wallet', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ balance: '5150' }] }) // Balance check
+          .mockResolvedValueOnce({}) // Create transfer
+          .mockResolvedValueOnce({}) // Update transfer status
+          .mockResolvedValueOnce({ rows: [{
+            id: 'transfer-123',
+            sender_wallet_id: 'wallet-1',
+            receiver_wallet_id: 'wallet-2',
+            amount: '5000',
+            fee_amount: '150',
+            status: 'completed',
+            created_at: new Date(),
+          }] })
+          .mockResolvedValueOnce({}); // COMMIT
+
+        const transfer = await transferService.transfer(transferInput);
+
+        expect(transfer.fee_amount).toBe(150);
+        expect(mockFeeService.quoteForWallet).toHaveBeenCalledWith(
+          'transfer',
+          'wallet-1',
+          'USD',
+          5000,
+          mockClient
+        );
+
+        const insertCall = mockClient.query.mock.calls.find((call: any) =>
+          call[0]?.includes('INSERT INTO transfers')
+        );
+        expect(insertCall[1][8]).toBe(150);
+
+        expect(mockLedgerService.postJournal).toHaveBeenCalledTimes(2);
+        expect(mockLedgerService.postJournal).toHaveBeenCalledWith(
+          mockClient,
+          expect.objectContaining({
+            type: 'fee',
+            postings: [
+              { wallet_id: 'wallet-1', amount: 150, currency: 'USD', direction: 'debit' },
+              { wallet_id: 'fee_revenue-USD', amount: 150, currency: 'USD', direction: 'credit' },
+            ],
+          })
+        );
+      });
+
+      it('should require the balance to cover amount plus fee', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ balance: '5000' }] });
+
+        await expect(transferService.transfer(transferInput)).rejects.toThrow(
+          /Required: \$51\.50/
+        );
+        expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      });
+
+      it('should price cross-currency transfers as fx_transfer', async () => {
+        mockFxService.lockQuote.mockResolvedValueOnce({
+          id: 'quote-1',
+          source_currency: 'USD',
+          target_currency: 'EUR',
+          source_amount: 5000,
+          target_amount: 4600,
+        } as any);
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'EUR' }] })
+          .mockResolvedValueOnce({ rows: [{ balance: '0' }] });
+
+        await expect(
+          transferService.transfer({ ...transferInput, quote_id: 'quote-1' })
+        ).rejects.toThrow(InsufficientBalanceError);
+        expect(mockFeeService.quoteForWallet).toHaveBeenCalledWith(
+          'fx_transfer',
+          'wallet-1',
+          'USD',
+          5000,
+          mockClient
+        );
+      });
+
+      it('should price moves between wallets of the same user as internal_transfer', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({
+            rows: [{ id: 'wallet-1', user_id: 'user-1', currency: 'USD' }],
+          })
+          .mockResolvedValueOnce({
+            rows: [{ id: 'wallet-2', user_id: 'user-1', currency: 'USD' }],
+          })
+          .mockResolvedValueOnce({ rows: [{ balance: '0' }] });
+
+        await expect(transferService.transfer(transferInput)).rejects.toThrow(
+          InsufficientBalanceError
+        );
+        expect(mockFeeService.quoteForWallet).toHaveBeenCalledWith(
+          'internal_transfer',
+          'wallet-1',
+          'USD',
+          5000,
+          mockClient
+        );
+      });
+    });
+
+    it('should check spending limits on the locked sender before moving funds', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] });
+      mockSpendingLimitService.assertWithinLimits.mockRejectedValueOnce(
+        new LimitExceededError('daily_amount', new Date(), 'Transfer exceeds the daily limit')
+      );
+
+      await expect(transferService.transfer(transferInput)).rejects.toThrow(
+        LimitExceededError
+      );
+
+      expect(mockSpendingLimitService.assertWithinLimits).toHaveBeenCalledWith(
+        mockClient,
+        'wallet-1',
+        5000
+      );
+      const lockCall = mockClient.query.mock.invocationCallOrder[3];
+      expect(
+        mockSpendingLimitService.assertWithinLimits.mock.invocationCallOrder[0]
+      ).toBeGreaterThan(lockCall);
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    describe('with a memo, metadata and client reference', () => {
+      const detailedInput = {
+        ...transferInput,
+        memo: 'Order #1042',
+        metadata: { order_id: '1042', paid: true },
+        client_reference: 'order-1042',
+      };
+
+      it('should store the details on the transfer', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [] }) // Client reference check
+          .mockResolvedValueOnce({ rows: [{ balance: '10000' }] })
+          .mockResolvedValueOnce({}) // Create transfer
+          .mockResolvedValueOnce({}) // Update transfer status
+          .mockResolvedValueOnce({ rows: [{
+            id: 'transfer-123',
+            sender_wallet_id: 'wallet-1',
+            receiver_wallet_id: 'wallet-2',
+            amount: '5000',
+            status: 'completed',
+            memo: 'Order #1042',
+            metadata: { order_id: '1042', paid: true },
+            client_reference: 'order-1042',
+            created_at: new Date(),
+          }] })
+          .mockResolvedValueOnce({}); // COMMIT
+
+        const transfer = await transferService.transfer(detailedInput);
+
+        expect(transfer.memo).toBe('Order #1042');
+        expect(transfer.metadata).toEqual({ order_id: '1042', paid: true });
+        expect(transfer.client_reference).toBe('order-1042');
+
+        const insert = mockClient.query.mock.calls.find(([sql]: [string]) =>
+          sql.includes('INSERT INTO transfers')
+        );
+        expect(insert[1].slice(9, 12)).toEqual([
+          'Order #1042',
+          JSON.stringify({ order_id: '1042', paid: true }),
+          'order-1042',
+        ]);
+      });
+
+      it('should reject a client reference the sender already used', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'transfer-1' }] }); // Client reference check
+
+        const error = await transferService
+          .transfer(detailedInput)
+          .catch((e) => e);
+
+        expect(error).toBeInstanceOf(DuplicateClientReferenceError);
+        expect(error.details).toEqual({ transfer_id: 'transfer-1' });
+        expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+        expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      });
+
+      it('should map a unique violation on the client reference index', async () => {
+        const uniqueViolation = Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'idx_transfers_sender_client_reference',
+        });
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [] }) // Client reference check
+          .mockResolvedValueOnce({ rows: [{ balance: '10000' }] })
+          .mockRejectedValueOnce(uniqueViolation); // Create transfer
+
+        await expect(transferService.transfer(detailedInput)).rejects.toThrow(
+          DuplicateClientReferenceError
+        );
+      });
+    });
+
     it('should rollback on any error', async () => {
       mockClient.query
         .mockResolvedValueOnce({}) // BEGIN
         .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
-        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1' }] })
-        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
         .mockResolvedValueOnce({ rows: [{ balance: '10000' }] })
         .mockRejectedValueOnce(new Error('Database error')); // Simulate error
 
@@ -158,4 +676,867 @@ describe('TransferService', () => {
       expect(mockClient.release).toHaveBeenCalled();
     });
   });
+
+  describe('previewFee', () => {
+    it('should return the fee and total debit without opening a transaction', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          { id: 'wallet-2', currency: 'USD' },
+          { id: 'wallet-1', currency: 'USD' },
+        ],
+      });
+      mockFeeService.quoteForWallet.mockResolvedValueOnce({
+        fee_amount: 25,
+        schedule_id: 'schedule-1',
+      });
+
+      const preview = await transferService.previewFee({
+        sender_wallet_id: 'wallet-1',
+        receiver_wallet_id: 'wallet-2',
+        amount: 5000,
+      });
+
+      expect(preview).toEqual({
+        amount: 5000,
+        currency: 'USD',
+        fee_amount: 25,
+        total_debit: 5025,
+      });
+      expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should throw WalletNotFoundError when a wallet is missing', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ id: 'wallet-1', currency: 'USD' }],
+      });
+
+      await expect(
+        transferService.previewFee({
+          sender_wallet_id: 'wallet-1',
+          receiver_wallet_id: 'wallet-2',
+          amount: 5000,
+        })
+      ).rejects.toThrow(WalletNotFoundError);
+    });
+  });
+
+  describe('holds', () => {
+    const holdInput = {
+      sender_wallet_id: 'wallet-1',
+      receiver_wallet_id: 'wallet-2',
+      amount: 5000,
+    };
+
+    const pendingHold = {
+      id: 'hold-1',
+      sender_wallet_id: 'wallet-1',
+      receiver_wallet_id: 'wallet-2',
+      amount: '5000',
+      currency: 'USD',
+      receiver_amount: '5000',
+      receiver_currency: 'USD',
+      fee_amount: '0',
+      authorized_amount: '5000',
+      hold_expires_at: new Date(Date.now() + 60_000),
+      status: 'pending',
+      created_at: new Date(),
+    };
+
+    describe('placeHold', () => {
+      it('should record a pending transfer without posting to the ledger', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ balance: '10000' }] }) // Balance check
+          .mockResolvedValueOnce({ rows: [pendingHold] }) // INSERT hold
+          .mockResolvedValueOnce({}); // COMMIT
+
+        const hold = await transferService.placeHold({
+          ...holdInput,
+          expires_in_seconds: 600,
+        });
+
+        expect(hold.status).toBe('pending');
+        expect(hold.authorized_amount).toBe(5000);
+        expect(mockSpendingLimitService.assertWithinLimits).toHaveBeenCalledWith(
+          mockClient,
+          'wallet-1',
+          5000
+        );
+        expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+        expect(mockWebhookService.enqueue).not.toHaveBeenCalled();
+
+        const insert = mockClient.query.mock.calls.find(([sql]: [string]) =>
+          sql.includes('INSERT INTO transfers')
+        );
+        expect(insert[1].slice(12)).toEqual([5000, 600]);
+      });
+
+      it('should reject a hold the available balance cannot cover', async () => {
+        mockLedgerService.getHeldAmount.mockResolvedValueOnce(6000);
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ balance: '10000' }] }); // Balance check
+
+        await expect(transferService.placeHold(holdInput)).rejects.toThrow(
+          'Insufficient balance. Available: $40.00, Required: $50.00'
+        );
+        expect(mockLedgerService.getHeldAmount).toHaveBeenCalledWith(
+          'wallet-1',
+          mockClient,
+          undefined
+        );
+      });
+
+      it('should reject a hold between currencies', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'EUR' }] });
+
+        await expect(transferService.placeHold(holdInput)).rejects.toThrow(
+          CurrencyMismatchError
+        );
+      });
+    });
+
+    describe('captureHold', () => {
+      function mockCapture(captured: Record<string, any>) {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ ...pendingHold, hold_expired: false }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+          .mockResolvedValueOnce({ rows: [{ balance: '5000' }] }) // Balance check
+          .mockResolvedValueOnce({}) // UPDATE amounts
+          .mockResolvedValueOnce({}) // UPDATE status
+          .mockResolvedValueOnce({ rows: [{ ...pendingHold, ...captured }] })
+          .mockResolvedValueOnce({}); // COMMIT
+      }
+
+      it('should post the full authorized amount by default', async () => {
+        mockCapture({ status: 'completed' });
+
+        const transfer = await transferService.captureHold({
+          transfer_id: 'hold-1',
+        });
+
+        expect(transfer.status).toBe('completed');
+        expect(mockLedgerService.postJournal).toHaveBeenCalledWith(
+          mockClient,
+          expect.objectContaining({
+            type: 'transfer',
+            transaction_reference: 'transfer_hold-1',
+            postings: [
+              { wallet_id: 'wallet-1', amount: 5000, currency: 'USD', direction: 'debit' },
+              { wallet_id: 'wallet-2', amount: 5000, currency: 'USD', direction: 'credit' },
+            ],
+          })
+        );
+        // The hold's own reservation must not count against it
+        expect(mockLedgerService.getHeldAmount).toHaveBeenCalledWith(
+          'wallet-1',
+          mockClient,
+          'hold-1'
+        );
+        expect(mockSpendingLimitService.assertWithinLimits).not.toHaveBeenCalled();
+        expect(mockOutboxService.append).toHaveBeenCalledWith(
+          mockClient,
+          expect.objectContaining({ event_type: 'transfer.completed' })
+        );
+      });
+
+      it('should capture less than authorized and re-quote the fee', async () => {
+        mockFeeService.quoteForWallet.mockResolvedValueOnce({
+          fee_amount: 30,
+          schedule_id: 'schedule-1',
+        });
+        mockCapture({ amount: '3000', fee_amount: '30', status: 'completed' });
+
+        const transfer = await transferService.captureHold({
+          transfer_id: 'hold-1',
+          amount: 3000,
+        });
+
+        expect(transfer.amount).toBe(3000);
+        expect(transfer.authorized_amount).toBe(5000);
+        expect(mockFeeService.quoteForWallet).toHaveBeenCalledWith(
+          'transfer',
+          'wallet-1',
+          'USD',
+          3000,
+          mockClient
+        );
+        expect(mockClient.query).toHaveBeenCalledWith(
+          expect.stringContaining('SET amount = $2'),
+          ['hold-1', 3000, 30]
+        );
+      });
+
+      it('should refuse to capture more than authorized', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ ...pendingHold, hold_expired: false }] });
+
+        await expect(
+          transferService.captureHold({ transfer_id: 'hold-1', amount: 5001 })
+        ).rejects.toThrow(CaptureAmountExceededError);
+        expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      });
+
+      it('should refuse to capture an expired hold', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({ rows: [{ ...pendingHold, hold_expired: true }] });
+
+        await expect(
+          transferService.captureHold({ transfer_id: 'hold-1' })
+        ).rejects.toThrow(HoldExpiredError);
+        expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      });
+
+      it('should refuse a transfer that is not a hold', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+          .mockResolvedValueOnce({
+            rows: [{ ...pendingHold, authorized_amount: null, status: 'completed' }],
+          });
+
+        await expect(
+          transferService.captureHold({ transfer_id: 'hold-1' })
+        ).rejects.toThrow(InvalidTransferStateError);
+      });
+    });
+
+    describe('voidHold', () => {
+      it('should mark a pending hold voided', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({ rows: [{ ...pendingHold, hold_expired: false }] })
+          .mockResolvedValueOnce({ rows: [{ ...pendingHold, status: 'voided' }] })
+          .mockResolvedValueOnce({}); // COMMIT
+
+        const hold = await transferService.voidHold('hold-1');
+
+        expect(hold.status).toBe('voided');
+        expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      });
+
+      it('should refuse to void a hold that was already captured', async () => {
+        mockClient.query
+          .mockResolvedValueOnce({}) // BEGIN
+          .mockResolvedValueOnce({ rows: [{ ...pendingHold, status: 'completed' }] });
+
+        await expect(transferService.voidHold('hold-1')).rejects.toThrow(
+          InvalidTransferStateError
+        );
+        expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      });
+    });
+
+    describe('expireHolds', () => {
+      it('should mark lapsed holds expired and return them', async () => {
+        mockPool.query.mockResolvedValueOnce({
+          rows: [{ ...pendingHold, status: 'expired' }],
+        });
+
+        const expired = await transferService.expireHolds(10);
+
+        expect(expired.map((hold) => hold.status)).toEqual(['expired']);
+        expect(mockPool.query).toHaveBeenCalledWith(
+          expect.stringContaining('FOR UPDATE SKIP LOCKED'),
+          [10]
+        );
+      });
+    });
+  });
+
+  describe('transferMany', () => {
+    const wallets = {
+      rows: [
+        { id: 'wallet-1', currency: 'USD' },
+        { id: 'wallet-2', currency: 'USD' },
+        { id: 'wallet-3', currency: 'USD' },
+      ],
+    };
+
+    const items = [
+      { receiver_wallet_id: 'wallet-2', amount: 3000, client_reference: 'payout-1' },
+      { receiver_wallet_id: 'wallet-3', amount: 4000 },
+    ];
+
+    const completedRow = (id: string, receiverWalletId: string, amount: string) => ({
+      rows: [{
+        id,
+        sender_wallet_id: 'wallet-1',
+        receiver_wallet_id: receiverWalletId,
+        amount,
+        status: 'completed',
+        created_at: new Date(),
+      }],
+    });
+
+    it('should lock every wallet once and make each transfer under a savepoint', async () => {
+      mockClient.query
+        .mockResolvedValueOnce(wallets) // Lock wallets
+        .mockResolvedValueOnce({}) // SAVEPOINT
+        .mockResolvedValueOnce({ rows: [] }) // Client reference check
+        .mockResolvedValueOnce({ rows: [{ balance: '10000' }] })
+        .mockResolvedValueOnce({}) // Create transfer
+        .mockResolvedValueOnce({}) // Update transfer status
+        .mockResolvedValueOnce(completedRow('transfer-1', 'wallet-2', '3000'))
+        .mockResolvedValueOnce({}) // RELEASE SAVEPOINT
+        .mockResolvedValueOnce({}) // SAVEPOINT
+        .mockResolvedValueOnce({ rows: [{ balance: '7000' }] })
+        .mockResolvedValueOnce({}) // Create transfer
+        .mockResolvedValueOnce({}) // Update transfer status
+        .mockResolvedValueOnce(completedRow('transfer-2', 'wallet-3', '4000'))
+        .mockResolvedValueOnce({}); // RELEASE SAVEPOINT
+
+      const outcomes = await transferService.transferMany(
+        mockClient,
+        'wallet-1',
+        items,
+        true
+      );
+
+      expect(outcomes.map((o: any) => o.transfer.id)).toEqual([
+        'transfer-1',
+        'transfer-2',
+      ]);
+      expect(mockClient.query.mock.calls[0][1]).toEqual([
+        ['wallet-1', 'wallet-2', 'wallet-3'],
+      ]);
+      expect(
+        mockClient.query.mock.calls.filter(([sql]: [string]) =>
+          sql.includes('FOR UPDATE')
+        )
+      ).toHaveLength(1);
+      expect(mockLedgerService.postJournal).toHaveBeenCalledTimes(2);
+      expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should return a failed item in its place and carry on', async () => {
+      mockClient.query
+        .mockResolvedValueOnce(wallets) // Lock wallets
+        .mockResolvedValueOnce({}) // SAVEPOINT
+        .mockResolvedValueOnce({ rows: [] }) // Client reference check
+        .mockResolvedValueOnce({ rows: [{ balance: '1000' }] })
+        .mockResolvedValueOnce({}) // ROLLBACK TO SAVEPOINT
+        .mockResolvedValueOnce({}) // SAVEPOINT
+        .mockResolvedValueOnce({ rows: [{ balance: '4000' }] })
+        .mockResolvedValueOnce({}) // Create transfer
+        .mockResolvedValueOnce({}) // Update transfer status
+        .mockResolvedValueOnce(completedRow('transfer-2', 'wallet-3', '4000'))
+        .mockResolvedValueOnce({}); // RELEASE SAVEPOINT
+
+      const outcomes: any[] = await transferService.transferMany(
+        mockClient,
+        'wallet-1',
+        items,
+        false
+      );
+
+      expect(outcomes[0].error).toBeInstanceOf(InsufficientBalanceError);
+      expect(outcomes[1].transfer.id).toBe('transfer-2');
+      expect(mockClient.query).toHaveBeenCalledWith(
+        'ROLLBACK TO SAVEPOINT transfer_many_item'
+      );
+    });
+
+    it('should stop at the first failure when asked to', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [wallets.rows[0], wallets.rows[2]] })
+        .mockResolvedValueOnce({}) // SAVEPOINT
+        .mockResolvedValueOnce({}); // ROLLBACK TO SAVEPOINT
+
+      const outcomes: any[] = await transferService.transferMany(
+        mockClient,
+        'wallet-1',
+        items,
+        true
+      );
+
+      expect(outcomes).toHaveLength(1);
+      expect(outcomes[0].error).toBeInstanceOf(WalletNotFoundError);
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow errors that are not business errors', async () => {
+      mockClient.query
+        .mockResolvedValueOnce(wallets) // Lock wallets
+        .mockResolvedValueOnce({}) // SAVEPOINT
+        .mockResolvedValueOnce({ rows: [] }) // Client reference check
+        .mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(
+        transferService.transferMany(mockClient, 'wallet-1', items, false)
+      ).rejects.toThrow('Database error');
+    });
+
+    it('should throw WalletNotFoundError when the sender is missing', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [wallets.rows[1]] });
+
+      await expect(
+        transferService.transferMany(mockClient, 'wallet-1', items, false)
+      ).rejects.toThrow(WalletNotFoundError);
+    });
+  });
+
+  describe('sweepBalance', () => {
+    const closing = { id: 'wallet-1', user_id: 'user-1', currency: 'USD', status: 'frozen' };
+    const target = { id: 'wallet-2', user_id: 'user-1', currency: 'USD', status: 'active' };
+
+    it('should complete the sweep as a transfer and publish it', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [closing] }) // Lock wallet-1
+        .mockResolvedValueOnce({ rows: [target] }) // Lock wallet-2
+        .mockResolvedValueOnce({ rows: [{ balance: '2500' }] }) // Balance check
+        .mockResolvedValueOnce({}) // INSERT pending transfer
+        .mockResolvedValueOnce({}) // Update transfer status
+        .mockResolvedValueOnce({ rows: [{
+          id: 'transfer-sweep',
+          sender_wallet_id: 'wallet-1',
+          receiver_wallet_id: 'wallet-2',
+          amount: '2500',
+          currency: 'USD',
+          fee_amount: '0',
+          status: 'completed',
+          created_at: new Date(),
+        }] }); // SELECT transfer
+
+      const transfer = await transferService.sweepBalance(
+        mockClient,
+        'wallet-1',
+        'wallet-2',
+        2500
+      );
+
+      expect(transfer.status).toBe('completed');
+      expect(mockLedgerService.postJournal).toHaveBeenCalledTimes(1);
+      expect(mockLedgerService.postJournal).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          type: 'transfer',
+          // The closing wallet may be frozen
+          skip_status_check: true,
+          postings: [
+            { wallet_id: 'wallet-1', amount: 2500, currency: 'USD', direction: 'debit' },
+            { wallet_id: 'wallet-2', amount: 2500, currency: 'USD', direction: 'credit' },
+          ],
+        })
+      );
+      expect(mockFeeService.quoteForWallet).not.toHaveBeenCalled();
+      expect(mockSpendingLimitService.assertWithinLimits).not.toHaveBeenCalled();
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        mockClient,
+        'transfer.completed',
+        { transfer: expect.objectContaining({ id: 'transfer-sweep' }) }
+      );
+      expect(mockOutboxService.append).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          aggregate_id: 'transfer-sweep',
+          event_type: 'transfer.completed',
+        })
+      );
+    });
+
+    it('should reject a target in another currency', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [closing] })
+        .mockResolvedValueOnce({ rows: [{ ...target, currency: 'EUR' }] });
+
+      await expect(
+        transferService.sweepBalance(mockClient, 'wallet-1', 'wallet-2', 2500)
+      ).rejects.toThrow(CurrencyMismatchError);
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should reject a frozen target', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [closing] })
+        .mockResolvedValueOnce({ rows: [{ ...target, status: 'frozen' }] });
+
+      await expect(
+        transferService.sweepBalance(mockClient, 'wallet-1', 'wallet-2', 2500)
+      ).rejects.toThrow(WalletFrozenError);
+    });
+
+    it('should refuse to sweep funds still reserved by a hold', async () => {
+      mockLedgerService.getHeldAmount.mockResolvedValueOnce(1000);
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [closing] })
+        .mockResolvedValueOnce({ rows: [target] })
+        .mockResolvedValueOnce({ rows: [{ balance: '2500' }] });
+
+      await expect(
+        transferService.sweepBalance(mockClient, 'wallet-1', 'wallet-2', 2500)
+      ).rejects.toThrow(InsufficientBalanceError);
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reverseTransfer', () => {
+    const completedTransfer = {
+      id: 'transfer-123',
+      sender_wallet_id: 'wallet-1',
+      receiver_wallet_id: 'wallet-2',
+      amount: '5000',
+      currency: 'USD',
+      reversed_amount: '0',
+      status: 'completed',
+      created_at: new Date(),
+    };
+
+    it('should post a compensating journal and mark the transfer reversed', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [completedTransfer] }) // Lock transfer
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] }) // Lock wallet-1
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] }) // Lock wallet-2
+        .mockResolvedValueOnce({ rows: [{ balance: '5000' }] }) // Receiver balance
+        .mockResolvedValueOnce({
+          rows: [{
+            id: 'reversal-1',
+            transfer_id: 'transfer-123',
+            amount: '5000',
+            reason: 'Disputed',
+            created_at: new Date(),
+          }],
+        }) // INSERT reversal
+        .mockResolvedValueOnce({
+          rows: [{ ...completedTransfer, reversed_amount: '5000', status: 'reversed' }],
+        }) // UPDATE transfer
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const { transfer, reversal } = await transferService.reverseTransfer({
+        transfer_id: 'transfer-123',
+        reason: 'Disputed',
+      });
+
+      expect(reversal.amount).toBe(5000);
+      expect(transfer.status).toBe('reversed');
+      expect(transfer.reversed_amount).toBe(5000);
+      expect(mockLedgerService.postJournal).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          type: 'reversal',
+          transaction_reference: 'reversal_reversal-1',
+          transfer_id: 'transfer-123',
+          postings: [
+            { wallet_id: 'wallet-2', amount: 5000, currency: 'USD', direction: 'debit' },
+            { wallet_id: 'wallet-1', amount: 5000, currency: 'USD', direction: 'credit' },
+          ],
+        })
+      );
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        mockClient,
+        'transfer.reversed',
+        {
+          transfer: expect.objectContaining({ status: 'reversed' }),
+          reversal: expect.objectContaining({ id: 'reversal-1' }),
+        }
+      );
+      expect(mockOutboxService.append).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          aggregate_id: 'transfer-123',
+          event_type: 'transfer.reversed',
+        })
+      );
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should refuse to reverse more than the remaining amount', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({
+          rows: [{ ...completedTransfer, reversed_amount: '3000', status: 'partially_reversed' }],
+        });
+
+      await expect(
+        transferService.reverseTransfer({ transfer_id: 'transfer-123', amount: 2500 })
+      ).rejects.toThrow(ReversalAmountExceededError);
+
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should refuse to reverse a transfer that is already fully reversed', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({
+          rows: [{ ...completedTransfer, reversed_amount: '5000', status: 'reversed' }],
+        });
+
+      await expect(
+        transferService.reverseTransfer({ transfer_id: 'transfer-123' })
+      ).rejects.toThrow(InvalidTransferStateError);
+    });
+
+    it('should only reverse FX transfers in full', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({
+          rows: [{
+            ...completedTransfer,
+            receiver_amount: '7500',
+            receiver_currency: 'JPY',
+            fx_quote_id: 'quote-1',
+          }],
+        });
+
+      await expect(
+        transferService.reverseTransfer({ transfer_id: 'transfer-123', amount: 1000 })
+      ).rejects.toThrow(InvalidTransferStateError);
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should throw TransferNotFoundError for an unknown transfer', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        transferService.reverseTransfer({ transfer_id: 'missing' })
+      ).rejects.toThrow(TransferNotFoundError);
+
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should throw InsufficientBalanceError when the receiver already spent the funds', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [completedTransfer] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+        .mockResolvedValueOnce({ rows: [{ balance: '1000' }] });
+
+      await expect(
+        transferService.reverseTransfer({ transfer_id: 'transfer-123', amount: 2000 })
+      ).rejects.toThrow(InsufficientBalanceError);
+
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should not let the receiver give back funds reserved by an open hold', async () => {
+      mockLedgerService.getHeldAmount.mockResolvedValueOnce(4000);
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [completedTransfer] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-1', currency: 'USD' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-2', currency: 'USD' }] })
+        .mockResolvedValueOnce({ rows: [{ balance: '5000' }] }); // Receiver balance
+
+      await expect(
+        transferService.reverseTransfer({ transfer_id: 'transfer-123', amount: 2000 })
+      ).rejects.toThrow(InsufficientBalanceError);
+
+      expect(mockLedgerService.getHeldAmount).toHaveBeenCalledWith(
+        'wallet-2',
+        mockClient,
+        undefined
+      );
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('findMatchingTransfer', () => {
+    const expected = {
+      sender_wallet_id: 'wallet-1',
+      receiver_wallet_id: 'wallet-2',
+      amount: 5000,
+      currency: 'USD',
+    };
+    const transferRow = {
+      id: 'transfer-0',
+      ...expected,
+      amount: '5000',
+      status: 'completed',
+      created_at: new Date(),
+    };
+
+    it('should return a completed transfer paying what was expected', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [transferRow] });
+
+      const transfer = await transferService.findMatchingTransfer(
+        'transfer-0',
+        expected
+      );
+
+      expect(transfer?.id).toBe('transfer-0');
+    });
+
+    it.each([
+      ['another receiver', { receiver_wallet_id: 'wallet-3' }],
+      ['another amount', { amount: '4999' }],
+      ['another currency', { currency: 'EUR' }],
+      ['a hold', { status: 'pending' }],
+      ['a voided hold', { status: 'voided' }],
+    ])('should return null for %s', async (_label, overrides) => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ ...transferRow, ...overrides }],
+      });
+
+      await expect(
+        transferService.findMatchingTransfer('transfer-0', expected)
+      ).resolves.toBeNull();
+    });
+
+    it('should return null for an unknown transfer', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        transferService.findMatchingTransfer('missing', expected)
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('getTransferWithEntries', () => {
+    it('should return the transfer with the entries of its journal', async () => {
+      const entries = [
+        { id: 'entry-1', wallet_id: 'wallet-1', direction: 'debit' },
+        { id: 'entry-2', wallet_id: 'wallet-2', direction: 'credit' },
+      ];
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ id: 'transfer-1', amount: '5000', status: 'completed' }],
+      });
+      mockLedgerService.getEntriesByTransactionReference.mockResolvedValueOnce(
+        entries as any
+      );
+
+      const transfer = await transferService.getTransferWithEntries('transfer-1');
+
+      expect(transfer!.id).toBe('transfer-1');
+      expect(transfer!.entries).toEqual(entries);
+      expect(mockLedgerService.getEntriesByTransactionReference).toHaveBeenCalledWith(
+        'transfer_transfer-1'
+      );
+    });
+
+    it('should return null for an unknown transfer', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        transferService.getTransferWithEntries('missing')
+      ).resolves.toBeNull();
+      expect(mockLedgerService.getEntriesByTransactionReference).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listTransfers', () => {
+    const row = (id: string) => ({
+      id,
+      sender_wallet_id: 'wallet-1',
+      receiver_wallet_id: 'wallet-2',
+      amount: '1000',
+      status: 'completed',
+      created_at: new Date(),
+      cursor_created_at: '2024-01-01 00:00:00.123456',
+    });
+
+    it('should list both sides by default and attach each transfer\'s entries', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [row('transfer-1'), row('transfer-2')] });
+      mockLedgerService.getEntriesByTransactionReferences.mockResolvedValueOnce([
+        { id: 'entry-1', transaction_reference: 'transfer_transfer-1' },
+        { id: 'entry-2', transaction_reference: 'transfer_transfer-2' },
+        { id: 'entry-3', transaction_reference: 'transfer_transfer-1' },
+      ] as any);
+
+      const page = await transferService.listTransfers({
+        wallet_id: 'wallet-1',
+        limit: 10,
+      });
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('(t.sender_wallet_id = $1 OR t.receiver_wallet_id = $1)');
+      expect(params).toEqual(['wallet-1', 11]);
+      expect(page.next_cursor).toBeNull();
+      expect(page.transfers.map((t) => t.entries.map((e) => e.id))).toEqual([
+        ['entry-1', 'entry-3'],
+        ['entry-2'],
+      ]);
+      expect(mockLedgerService.getEntriesByTransactionReferences).toHaveBeenCalledWith([
+        'transfer_transfer-1',
+        'transfer_transfer-2',
+      ]);
+    });
+
+    it('should filter by role, status and period after the cursor', async () => {
+      const from = new Date('2024-01-01T00:00:00Z');
+      const to = new Date('2024-02-01T00:00:00Z');
+      const cursor = encodeCursor({
+        created_at: '2024-01-15 10:00:00.5',
+        id: '123e4567-e89b-12d3-a456-426614174000',
+      });
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await transferService.listTransfers({
+        wallet_id: 'wallet-1',
+        limit: 10,
+        role: 'receiver',
+        statuses: ['reversed', 'partially_reversed'],
+        from,
+        to,
+        cursor,
+      });
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('t.receiver_wallet_id = $1');
+      expect(sql).not.toContain('t.sender_wallet_id = $1');
+      expect(sql).toContain('t.status = ANY($2::transfer_status[])');
+      expect(sql).toContain('(t.created_at, t.id) < ($5::timestamp, $6::uuid)');
+      expect(params).toEqual([
+        'wallet-1',
+        ['reversed', 'partially_reversed'],
+        from,
+        to,
+        '2024-01-15 10:00:00.5',
+        '123e4567-e89b-12d3-a456-426614174000',
+        11,
+      ]);
+    });
+
+    it('should return a cursor for the last row when there are more', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          row('123e4567-e89b-12d3-a456-426614174001'),
+          row('123e4567-e89b-12d3-a456-426614174002'),
+        ],
+      });
+
+      const page = await transferService.listTransfers({
+        wallet_id: 'wallet-1',
+        limit: 1,
+      });
+
+      expect(page.transfers).toHaveLength(1);
+      expect(page.next_cursor).toBe(
+        encodeCursor({
+          created_at: '2024-01-01 00:00:00.123456',
+          id: '123e4567-e89b-12d3-a456-426614174001',
+        })
+      );
+    });
+  });
 });
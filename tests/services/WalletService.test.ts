@@ -1,7 +1,18 @@
 import { WalletService } from "../../src/services/WalletService";
 import { LedgerService } from "../../src/services/LedgerService";
+import { OutboxService } from "../../src/services/OutboxService";
+import { TransferService } from "../../src/services/TransferService";
 import { pool } from "../../src/config/database";
-import { DuplicateEmailError, UserNotFoundError } from "../../src/utils/errors";
+import {
+  DuplicateEmailError,
+  DuplicateWalletLabelError,
+  UserNotFoundError,
+  WalletNotFoundError,
+  ValidationError,
+  WalletClosedError,
+  WalletNotEmptyError,
+  CurrencyMismatchError,
+} from "../../src/utils/errors";
 
 jest.mock("../../src/config/database");
 jest.mock("../../src/services/LedgerService");
@@ -9,6 +20,8 @@ jest.mock("../../src/services/LedgerService");
 describe("WalletService", () => {
   let walletService: WalletService;
   let mockLedgerService: jest.Mocked<LedgerService>;
+  let mockOutboxService: jest.Mocked<OutboxService>;
+  let mockTransferService: jest.Mocked<TransferService>;
   const mockPool = pool as any;
   let mockClient: any;
 
@@ -25,9 +38,23 @@ describe("WalletService", () => {
 
     mockLedgerService = {
       getBalance: jest.fn(),
+      getHeldAmount: jest.fn(),
+      postJournal: jest.fn(),
     } as any;
 
-    walletService = new WalletService(mockLedgerService);
+    mockOutboxService = {
+      append: jest.fn(),
+    } as any;
+
+    mockTransferService = {
+      sweepBalance: jest.fn(),
+    } as any;
+
+    walletService = new WalletService(
+      mockLedgerService,
+      mockOutboxService,
+      mockTransferService
+    );
   });
 
   describe("createUser", () => {
@@ -69,6 +96,12 @@ describe("WalletService", () => {
         user_id: "user-123",
         created_at: mockWallet.created_at,
       });
+      expect(mockOutboxService.append).toHaveBeenCalledWith(mockClient, {
+        aggregate_type: "user",
+        aggregate_id: "user-123",
+        event_type: "user.created",
+        payload: result,
+      });
       expect(mockClient.query).toHaveBeenCalledWith("BEGIN");
       expect(mockClient.query).toHaveBeenCalledWith("COMMIT");
       expect(mockClient.release).toHaveBeenCalled();
@@ -182,6 +215,38 @@ describe("WalletService", () => {
     });
   });
 
+  describe("setUserTier", () => {
+    it("should update and return the user with the new tier", async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            id: "user-123",
+            email: "test@example.com",
+            name: "Test User",
+            tier: "premium",
+            created_at: new Date(),
+          },
+        ],
+      });
+
+      const user = await walletService.setUserTier("user-123", "premium");
+
+      expect(user.tier).toBe("premium");
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining("UPDATE users SET tier"),
+        ["user-123", "premium"]
+      );
+    });
+
+    it("should throw UserNotFoundError when user does not exist", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        walletService.setUserTier("user-123", "premium")
+      ).rejects.toThrow(UserNotFoundError);
+    });
+  });
+
   describe("getUserByEmail", () => {
     it("should return user when found by email", async () => {
       const mockUser = {
@@ -220,8 +285,168 @@ describe("WalletService", () => {
     });
   });
 
+  describe("createWallet", () => {
+    const createWalletInput = {
+      user_id: "user-123",
+      label: "savings",
+      currency: "EUR",
+    };
+
+    it("should open a labelled wallet that is not the default", async () => {
+      const mockWallet = {
+        id: "wallet-456",
+        user_id: "user-123",
+        label: "savings",
+        is_default: false,
+        currency: "EUR",
+        status: "active",
+        created_at: new Date("2024-01-01"),
+      };
+
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [mockWallet] }) // INSERT INTO wallets
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const wallet = await walletService.createWallet(createWalletInput);
+
+      expect(wallet).toEqual(mockWallet);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO wallets"),
+        ["user-123", "savings", "EUR"]
+      );
+      expect(mockOutboxService.append).toHaveBeenCalledWith(mockClient, {
+        aggregate_type: "wallet",
+        aggregate_id: "wallet-456",
+        event_type: "wallet.created",
+        payload: { wallet },
+      });
+    });
+
+    it("should throw UserNotFoundError when the user does not exist", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [] }); // INSERT ... SELECT FROM users
+
+      await expect(
+        walletService.createWallet(createWalletInput)
+      ).rejects.toThrow(UserNotFoundError);
+      expect(mockOutboxService.append).not.toHaveBeenCalled();
+    });
+
+    it("should throw DuplicateWalletLabelError when the label is taken", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockRejectedValueOnce({
+          code: "23505",
+          constraint: "idx_wallets_user_label",
+        });
+
+      await expect(
+        walletService.createWallet(createWalletInput)
+      ).rejects.toThrow(DuplicateWalletLabelError);
+      expect(mockClient.query).toHaveBeenCalledWith("ROLLBACK");
+    });
+  });
+
+  describe("listUserWallets", () => {
+    it("should return every wallet with its balances", async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: "user-123" }] }) // user lookup
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: "wallet-1",
+              label: "main",
+              is_default: true,
+              balance: "500",
+            },
+            {
+              id: "wallet-2",
+              label: "bills",
+              is_default: false,
+              balance: 0,
+            },
+          ],
+        });
+      mockLedgerService.getHeldAmount.mockImplementation(async (walletId) =>
+        walletId === "wallet-1" ? 200 : 0
+      );
+
+      const wallets = await walletService.listUserWallets("user-123");
+
+      expect(
+        wallets.map((w) => [w.label, w.ledger_balance, w.available_balance])
+      ).toEqual([
+        ["main", 500, 300],
+        ["bills", 0, 0],
+      ]);
+      expect(mockLedgerService.getHeldAmount).toHaveBeenCalledWith("wallet-1");
+    });
+
+    it("should throw UserNotFoundError when the user does not exist", async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        walletService.listUserWallets("user-123")
+      ).rejects.toThrow(UserNotFoundError);
+    });
+  });
+
+  describe("setDefaultWallet", () => {
+    const wallets = [
+      { id: "wallet-1", is_default: true, status: "active" },
+      { id: "wallet-2", is_default: false, status: "active" },
+    ];
+
+    it("should clear the old default before setting the new one", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: wallets }) // lock user's wallets
+        .mockResolvedValueOnce({}) // clear old default
+        .mockResolvedValueOnce({ rows: [{ ...wallets[1], is_default: true }] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const wallet = await walletService.setDefaultWallet(
+        "user-123",
+        "wallet-2"
+      );
+
+      expect(wallet.is_default).toBe(true);
+      const updates = mockClient.query.mock.calls
+        .map((call: any[]) => call[0])
+        .filter((sql: string) => sql.startsWith("UPDATE wallets"));
+      expect(updates).toEqual([
+        expect.stringContaining("is_default = false"),
+        expect.stringContaining("is_default = true"),
+      ]);
+    });
+
+    it("should throw WalletNotFoundError for a wallet the user does not own", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: wallets });
+
+      await expect(
+        walletService.setDefaultWallet("user-123", "wallet-other")
+      ).rejects.toThrow(WalletNotFoundError);
+    });
+
+    it("should refuse a closed wallet", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [wallets[0], { ...wallets[1], status: "closed" }],
+        });
+
+      await expect(
+        walletService.setDefaultWallet("user-123", "wallet-2")
+      ).rejects.toThrow(WalletClosedError);
+    });
+  });
+
   describe("getWalletByUserId", () => {
-    it("should return wallet when found", async () => {
+    it("should return the user's default wallet", async () => {
       const mockWallet = {
         id: "wallet-123",
         user_id: "user-123",
@@ -240,7 +465,7 @@ describe("WalletService", () => {
         created_at: mockWallet.created_at,
       });
       expect(mockPool.query).toHaveBeenCalledWith(
-        "SELECT * FROM wallets WHERE user_id = $1",
+        "SELECT * FROM wallets WHERE user_id = $1 AND is_default",
         ["user-123"]
       );
     });
@@ -322,4 +547,277 @@ describe("WalletService", () => {
       expect(wallet).toBeNull();
     });
   });
+
+  describe("setWalletStatus", () => {
+    const activeWallet = {
+      id: "wallet-123",
+      user_id: "user-123",
+      system_code: null,
+      currency: "USD",
+      status: "active",
+      created_at: new Date("2024-01-01"),
+    };
+
+    const statusInput = {
+      wallet_id: "wallet-123",
+      status: "frozen" as const,
+      reason: "Suspected account takeover",
+      changed_by: "admin-1",
+    };
+
+    it("should update the status and record an audit row", async () => {
+      const change = {
+        id: "change-1",
+        wallet_id: "wallet-123",
+        from_status: "active",
+        to_status: "frozen",
+        reason: "Suspected account takeover",
+        changed_by: "admin-1",
+        sweep_transfer_id: null,
+        created_at: new Date(),
+      };
+
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [activeWallet] }) // lock wallet
+        .mockResolvedValueOnce({ rows: [{ ...activeWallet, status: "frozen" }] })
+        .mockResolvedValueOnce({ rows: [change] }) // audit row
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const wallet = await walletService.setWalletStatus(statusInput);
+
+      expect(wallet.status).toBe("frozen");
+      expect(mockClient.query).toHaveBeenCalledWith(
+        "UPDATE wallets SET status = $2 WHERE id = $1 RETURNING *",
+        ["wallet-123", "frozen"]
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO wallet_status_changes"),
+        [
+          "wallet-123",
+          "active",
+          "frozen",
+          "Suspected account takeover",
+          "admin-1",
+          null,
+        ]
+      );
+      expect(mockOutboxService.append).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          aggregate_id: "wallet-123",
+          event_type: "wallet.status_changed",
+        })
+      );
+    });
+
+    it("should not write anything when the status is unchanged", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ ...activeWallet, status: "frozen" }] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const wallet = await walletService.setWalletStatus(statusInput);
+
+      expect(wallet.status).toBe("frozen");
+      expect(mockClient.query).toHaveBeenCalledTimes(3);
+      expect(mockOutboxService.append).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to reopen a closed wallet", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ ...activeWallet, status: "closed" }] });
+
+      await expect(
+        walletService.setWalletStatus({ ...statusInput, status: "active" })
+      ).rejects.toThrow(WalletClosedError);
+      expect(mockClient.query).toHaveBeenCalledWith("ROLLBACK");
+    });
+
+    it("should refuse to change the status of a system account", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [
+            { ...activeWallet, user_id: null, system_code: "fee_revenue" },
+          ],
+        });
+
+      await expect(walletService.setWalletStatus(statusInput)).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("closeWallet", () => {
+    const wallet = {
+      id: "wallet-a",
+      user_id: "user-123",
+      system_code: null,
+      currency: "USD",
+      status: "frozen",
+      created_at: new Date("2024-01-01"),
+    };
+    const target = { ...wallet, id: "wallet-b", status: "active" };
+
+    const closeInput = {
+      wallet_id: "wallet-a",
+      reason: "Customer request",
+      changed_by: "admin-1",
+    };
+
+    it("should close an empty wallet without a sweep", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [wallet] }) // lock wallet
+        .mockResolvedValueOnce({ rows: [] }) // pending withdrawals
+        .mockResolvedValueOnce({ rows: [{ balance: "0" }] }) // balance
+        .mockResolvedValueOnce({}) // void pending holds
+        .mockResolvedValueOnce({}) // cancel schedules
+        .mockResolvedValueOnce({}) // cancel payment requests
+        .mockResolvedValueOnce({ rows: [{ ...wallet, status: "closed" }] })
+        .mockResolvedValueOnce({ rows: [{ id: "change-1" }] }) // audit row
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const result = await walletService.closeWallet(closeInput);
+
+      expect(result.wallet.status).toBe("closed");
+      expect(result.sweep_transfer_id).toBeNull();
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to close the default wallet while the user has others open", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [{ ...wallet, is_default: true }] })
+        .mockResolvedValueOnce({ rows: [{ "?column?": 1 }] }); // other wallets
+
+      await expect(walletService.closeWallet(closeInput)).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockClient.query).toHaveBeenCalledWith("ROLLBACK");
+    });
+
+    it("should throw WalletNotEmptyError when funds remain and no sweep target is given", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [wallet] }) // lock wallet
+        .mockResolvedValueOnce({ rows: [] }) // pending withdrawals
+        .mockResolvedValueOnce({ rows: [{ balance: "2500" }] }); // balance
+
+      await expect(walletService.closeWallet(closeInput)).rejects.toThrow(
+        WalletNotEmptyError
+      );
+      expect(mockClient.query).toHaveBeenCalledWith("ROLLBACK");
+    });
+
+    it("should refuse to close a wallet with pending withdrawals", async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [wallet] }) // lock wallet
+        .mockResolvedValueOnce({ rows: [{ "?column?": 1 }] }); // pending withdrawals
+
+      await expect(walletService.closeWallet(closeInput)).rejects.toThrow(
+        WalletNotEmptyError
+      );
+      expect(mockClient.query).toHaveBeenCalledWith("ROLLBACK");
+    });
+
+    it("should sweep the balance to the target as a transfer before closing", async () => {
+      mockTransferService.sweepBalance.mockResolvedValueOnce({
+        id: "transfer-sweep",
+      } as any);
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [wallet] }) // lock wallet-a
+        .mockResolvedValueOnce({ rows: [target] }) // lock wallet-b
+        .mockResolvedValueOnce({ rows: [] }) // pending withdrawals
+        .mockResolvedValueOnce({ rows: [{ balance: "2500" }] }) // balance
+        .mockResolvedValueOnce({}) // void pending holds
+        .mockResolvedValueOnce({}) // cancel schedules
+        .mockResolvedValueOnce({}) // cancel payment requests
+        .mockResolvedValueOnce({ rows: [{ ...wallet, status: "closed" }] })
+        .mockResolvedValueOnce({ rows: [{ id: "change-1" }] }) // audit row
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const result = await walletService.closeWallet({
+        ...closeInput,
+        sweep_to_wallet_id: "wallet-b",
+      });
+
+      expect(result.sweep_transfer_id).toBe("transfer-sweep");
+      expect(mockTransferService.sweepBalance).toHaveBeenCalledWith(
+        mockClient,
+        "wallet-a",
+        "wallet-b",
+        2500
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO wallet_status_changes"),
+        expect.arrayContaining(["transfer-sweep"])
+      );
+    });
+
+    it("should void holds before sweeping so they cannot reserve the balance", async () => {
+      mockTransferService.sweepBalance.mockResolvedValueOnce({
+        id: "transfer-sweep",
+      } as any);
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [wallet] }) // lock wallet-a
+        .mockResolvedValueOnce({ rows: [target] }) // lock wallet-b
+        .mockResolvedValueOnce({ rows: [] }) // pending withdrawals
+        .mockResolvedValueOnce({ rows: [{ balance: "2500" }] }) // balance
+        .mockResolvedValueOnce({}) // void pending holds
+        .mockResolvedValueOnce({}) // cancel schedules
+        .mockResolvedValueOnce({}) // cancel payment requests
+        .mockResolvedValueOnce({ rows: [{ ...wallet, status: "closed" }] })
+        .mockResolvedValueOnce({ rows: [{ id: "change-1" }] }) // audit row
+        .mockResolvedValueOnce({}); // COMMIT
+
+      await walletService.closeWallet({
+        ...closeInput,
+        sweep_to_wallet_id: "wallet-b",
+      });
+
+      const voidCall = mockClient.query.mock.invocationCallOrder[6];
+      const sweepCall =
+        mockTransferService.sweepBalance.mock.invocationCallOrder[0];
+      expect(mockClient.query.mock.calls[6][0]).toContain("'voided'");
+      expect(voidCall).toBeLessThan(sweepCall);
+    });
+
+    it("should roll back the close when the sweep is rejected", async () => {
+      mockTransferService.sweepBalance.mockRejectedValueOnce(
+        new CurrencyMismatchError("Cannot sweep a USD wallet into a EUR wallet")
+      );
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET TRANSACTION ISOLATION LEVEL
+        .mockResolvedValueOnce({ rows: [wallet] }) // lock wallet-a
+        .mockResolvedValueOnce({ rows: [{ ...target, currency: "EUR" }] })
+        .mockResolvedValueOnce({ rows: [] }) // pending withdrawals
+        .mockResolvedValueOnce({ rows: [{ balance: "2500" }] }) // balance
+        .mockResolvedValueOnce({}); // void pending holds
+
+      await expect(
+        walletService.closeWallet({
+          ...closeInput,
+          sweep_to_wallet_id: "wallet-b",
+        })
+      ).rejects.toThrow(CurrencyMismatchError);
+      expect(mockClient.query).toHaveBeenCalledWith("ROLLBACK");
+      expect(mockClient.query).not.toHaveBeenCalledWith(
+        expect.stringContaining("UPDATE wallets"),
+        expect.anything()
+      );
+    });
+  });
 });
@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import {
+  WebhookService,
+  signWebhookPayload,
+} from '../../src/services/WebhookService';
+import { pool } from '../../src/config/database';
+import {
+  WebhookDeliveryNotFoundError,
+  WebhookSubscriptionNotFoundError,
+} from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+describe('WebhookService', () => {
+  let webhookService: WebhookService;
+  let transport: jest.Mock;
+  const mockPool = pool as any;
+
+  const payload = {
+    id: 'event-1',
+    type: 'transfer.completed',
+    created_at: '2024-01-01T00:00:00.000Z',
+    data: { transfer: { id: 'transfer-1' } },
+  };
+
+  const claimedRow = {
+    id: 'delivery-1',
+    subscription_id: 'sub-1',
+    event_id: 'event-1',
+    event_type: 'transfer.completed',
+    payload,
+    status: 'pending',
+    attempts: 0,
+    url: 'https://merchant.example.com/hooks',
+    secret: 'whsec_test',
+    subscription_disabled_at: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transport = jest.fn();
+    webhookService = new WebhookService(transport);
+  });
+
+  describe('enqueue', () => {
+    it('should fan the event out to matching subscriptions on the given client', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+
+      const event = await webhookService.enqueue(
+        client as any,
+        'wallet.funded',
+        { wallet_id: 'wallet-1' }
+      );
+
+      expect(event.type).toBe('wallet.funded');
+      expect(event.data).toEqual({ wallet_id: 'wallet-1' });
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('$2 = ANY(event_types)'),
+        [event.id, 'wallet.funded', JSON.stringify(event)]
+      );
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispatchDue', () => {
+    it('should POST the signed payload and mark the delivery delivered', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [claimedRow] }) // claim
+        .mockResolvedValueOnce({ rows: [] }); // mark delivered
+      transport.mockResolvedValueOnce({ status: 200 });
+
+      const dispatched = await webhookService.dispatchDue();
+
+      expect(dispatched).toBe(1);
+      const [url, body, headers] = transport.mock.calls[0];
+      expect(url).toBe('https://merchant.example.com/hooks');
+      expect(JSON.parse(body)).toEqual(payload);
+      expect(headers['Webhook-Id']).toBe('event-1');
+
+      const timestamp = Number(headers['Webhook-Timestamp']);
+      const expected = crypto
+        .createHmac('sha256', 'whsec_test')
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+      expect(headers['Webhook-Signature']).toBe(`t=${timestamp},v1=${expected}`);
+
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining("status = 'delivered'"),
+        ['delivery-1', 200]
+      );
+    });
+
+    it('should back off exponentially after a failed attempt', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ ...claimedRow, attempts: 2 }] })
+        .mockResolvedValueOnce({ rows: [] });
+      transport.mockResolvedValueOnce({ status: 500 });
+
+      await webhookService.dispatchDue();
+
+      // Third attempt failed: 30s * 2^2
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('next_attempt_at'),
+        ['delivery-1', 3, 'pending', 120, 500, 'Endpoint responded 500']
+      );
+    });
+
+    it('should treat network errors as failed attempts', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [claimedRow] })
+        .mockResolvedValueOnce({ rows: [] });
+      transport.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      await webhookService.dispatchDue();
+
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.any(String),
+        ['delivery-1', 1, 'pending', 30, null, 'connect ECONNREFUSED']
+      );
+    });
+
+    it('should dead-letter a delivery once its attempts are used up', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ ...claimedRow, attempts: 7 }] })
+        .mockResolvedValueOnce({ rows: [] });
+      transport.mockResolvedValueOnce({ status: 503 });
+
+      await webhookService.dispatchDue();
+
+      expect(mockPool.query.mock.calls[1][1]).toEqual(
+        expect.arrayContaining(['delivery-1', 8, 'dead_lettered'])
+      );
+    });
+
+    it('should dead-letter deliveries of disabled subscriptions without sending', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [{ ...claimedRow, subscription_disabled_at: new Date() }],
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await webhookService.dispatchDue();
+
+      expect(transport).not.toHaveBeenCalled();
+      expect(mockPool.query.mock.calls[1][1]).toEqual(
+        expect.arrayContaining(['dead_lettered', 'Subscription disabled'])
+      );
+    });
+  });
+
+  describe('createSubscription', () => {
+    it('should generate a signing secret and return it once', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 'sub-1',
+            url: 'https://merchant.example.com/hooks',
+            event_types: ['transfer.completed'],
+            secret: 'whsec_stored',
+            disabled_at: null,
+            created_at: new Date(),
+          },
+        ],
+      });
+
+      const { subscription, secret } = await webhookService.createSubscription({
+        url: 'https://merchant.example.com/hooks',
+        event_types: ['transfer.completed'],
+      });
+
+      expect(secret).toMatch(/^whsec_/);
+      expect(subscription).not.toHaveProperty('secret');
+    });
+  });
+
+  describe('disableSubscription', () => {
+    it('should throw WebhookSubscriptionNotFoundError for an unknown subscription', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(webhookService.disableSubscription('missing')).rejects.toThrow(
+        WebhookSubscriptionNotFoundError
+      );
+    });
+  });
+
+  describe('retryDelivery', () => {
+    it('should only requeue dead-lettered deliveries', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(webhookService.retryDelivery('delivery-1')).rejects.toThrow(
+        WebhookDeliveryNotFoundError
+      );
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining("status = 'dead_lettered'"),
+        ['delivery-1']
+      );
+    });
+  });
+
+  describe('signWebhookPayload', () => {
+    it('should sign the timestamp and body together', () => {
+      const a = signWebhookPayload('secret', 1700000000, '{"a":1}');
+      const b = signWebhookPayload('secret', 1700000001, '{"a":1}');
+
+      expect(a).toMatch(/^[0-9a-f]{64}$/);
+      expect(a).not.toBe(b);
+    });
+  });
+});
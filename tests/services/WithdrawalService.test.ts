@@ -0,0 +1,690 @@
+import { WithdrawalService } from '../../src/services/WithdrawalService';
+import { LedgerService } from '../../src/services/LedgerService';
+import { WebhookService } from '../../src/services/WebhookService';
+import { OutboxService } from '../../src/services/OutboxService';
+import { SpendingLimitService } from '../../src/services/SpendingLimitService';
+import { PayoutProvider } from '../../src/services/PayoutProvider';
+import { pool } from '../../src/config/database';
+import {
+  DuplicatePaymentRefError,
+  InsufficientBalanceError,
+  InvalidWithdrawalStateError,
+  LimitExceededError,
+  PayoutRejectedError,
+  WalletDebitFrozenError,
+  WalletNotFoundError,
+  WithdrawalNotFoundError,
+} from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+jest.mock('../../src/services/LedgerService');
+
+describe('WithdrawalService', () => {
+  let withdrawalService: WithdrawalService;
+  let mockLedgerService: jest.Mocked<LedgerService>;
+  let mockWebhookService: jest.Mocked<WebhookService>;
+  let mockOutboxService: jest.Mocked<OutboxService>;
+  let mockSpendingLimitService: jest.Mocked<SpendingLimitService>;
+  let mockPayoutProvider: jest.Mocked<PayoutProvider>;
+  const mockPool = pool as any;
+  let mockClient: any;
+
+  const withdrawalRow = (overrides: Record<string, any> = {}) => ({
+    id: 'withdrawal-1',
+    wallet_id: 'wallet-1',
+    amount: '5000',
+    currency: 'USD',
+    external_payment_ref: 'payout-123',
+    destination: { account_id: 'acct_1' },
+    status: 'pending',
+    provider: 'fake',
+    provider_reference: null,
+    payout_attempts: 0,
+    next_payout_attempt_at: new Date(),
+    last_payout_error: null,
+    failure_reason: null,
+    transaction_reference: 'withdrawal_withdrawal-1',
+    reversal_transaction_reference: null,
+    created_at: new Date(),
+    completed_at: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLedgerService = {
+      findEntryByExternalPaymentRef: jest.fn().mockResolvedValue(null),
+      getHeldAmount: jest.fn().mockResolvedValue(0),
+      getSystemWalletId: jest.fn().mockResolvedValue('wallet-clearing'),
+      postJournal: jest.fn(),
+    } as any;
+
+    mockWebhookService = {
+      enqueue: jest.fn(),
+    } as any;
+
+    mockOutboxService = {
+      append: jest.fn(),
+    } as any;
+
+    mockSpendingLimitService = {
+      assertWithinLimits: jest.fn(),
+    } as any;
+
+    mockPayoutProvider = {
+      name: 'fake',
+      createPayout: jest.fn().mockResolvedValue('fake_ref_1'),
+    };
+
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn(),
+    };
+
+    mockPool.connect.mockResolvedValue(mockClient);
+    withdrawalService = new WithdrawalService(
+      mockLedgerService,
+      mockWebhookService,
+      mockOutboxService,
+      mockSpendingLimitService,
+      mockPayoutProvider
+    );
+  });
+
+  describe('withdraw', () => {
+    const input = {
+      wallet_id: 'wallet-1',
+      amount: 5000,
+      external_payment_ref: 'payout-123',
+      destination: { account_id: 'acct_1' },
+    };
+
+    const mockDebit = () =>
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [{ currency: 'USD', status: 'active' }],
+        }) // lock wallet
+        .mockResolvedValueOnce({ rows: [{ balance: '8000' }] }); // balance
+
+    it('should debit the wallet into payout clearing and send the payout', async () => {
+      mockDebit()
+        .mockImplementationOnce((_sql: string, params: any[]) =>
+          Promise.resolve({
+            rows: [withdrawalRow({ id: params[0] })],
+          })
+        ) // INSERT INTO withdrawals
+        .mockResolvedValueOnce({}); // COMMIT
+      mockPool.query
+        .mockImplementationOnce((_sql: string, params: any[]) =>
+          Promise.resolve({
+            rows: [withdrawalRow({ id: params[0], payout_attempts: 1 })],
+          })
+        ) // claim payout
+        .mockImplementationOnce((_sql: string, params: any[]) =>
+          Promise.resolve({
+            rows: [
+              withdrawalRow({
+                id: params[0],
+                payout_attempts: 1,
+                provider_reference: params[1],
+                next_payout_attempt_at: null,
+              }),
+            ],
+          })
+        ); // record provider reference
+
+      const withdrawal = await withdrawalService.withdraw(input);
+
+      expect(withdrawal.status).toBe('pending');
+      expect(withdrawal.amount).toBe(5000);
+      expect(withdrawal.provider_reference).toBe('fake_ref_1');
+      expect(withdrawal.next_payout_attempt_at).toBeNull();
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('next_payout_attempt_at'),
+        expect.any(Array)
+      );
+      expect(mockLedgerService.getSystemWalletId).toHaveBeenCalledWith(
+        'payout_clearing',
+        'USD',
+        mockClient
+      );
+      expect(mockLedgerService.postJournal).toHaveBeenCalledWith(mockClient, {
+        type: 'withdrawal',
+        transaction_reference: `withdrawal_${withdrawal.id}`,
+        postings: [
+          {
+            wallet_id: 'wallet-1',
+            amount: 5000,
+            currency: 'USD',
+            direction: 'debit',
+            external_payment_ref: 'payout-123',
+          },
+          {
+            wallet_id: 'wallet-clearing',
+            amount: 5000,
+            currency: 'USD',
+            direction: 'credit',
+          },
+        ],
+      });
+      expect(mockPayoutProvider.createPayout).toHaveBeenCalledWith({
+        withdrawal_id: withdrawal.id,
+        amount: 5000,
+        currency: 'USD',
+        destination: { account_id: 'acct_1' },
+        external_payment_ref: 'payout-123',
+        idempotency_key: withdrawal.id,
+      });
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        mockClient,
+        'withdrawal.created',
+        expect.any(Object)
+      );
+      expect(mockOutboxService.append).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          aggregate_type: 'withdrawal',
+          event_type: 'withdrawal.created',
+        })
+      );
+    });
+
+    it('should reject a reference already used by a funding or withdrawal', async () => {
+      mockLedgerService.findEntryByExternalPaymentRef.mockResolvedValueOnce({
+        id: 'entry-1',
+      } as any);
+
+      await expect(withdrawalService.withdraw(input)).rejects.toThrow(
+        DuplicatePaymentRefError
+      );
+      expect(mockPool.connect).not.toHaveBeenCalled();
+      expect(mockPayoutProvider.createPayout).not.toHaveBeenCalled();
+    });
+
+    it('should map a unique violation on the reference to DuplicatePaymentRefError', async () => {
+      mockDebit();
+      mockLedgerService.postJournal.mockRejectedValueOnce(
+        Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'ledger_entries_external_payment_ref_key',
+        })
+      );
+
+      await expect(withdrawalService.withdraw(input)).rejects.toThrow(
+        DuplicatePaymentRefError
+      );
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should not withdraw funds reserved by holds', async () => {
+      mockDebit();
+      mockLedgerService.getHeldAmount.mockResolvedValueOnce(4000);
+
+      await expect(withdrawalService.withdraw(input)).rejects.toThrow(
+        InsufficientBalanceError
+      );
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should count against the wallet spending limits', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [{ currency: 'USD', status: 'active' }],
+        }); // lock wallet
+      mockSpendingLimitService.assertWithinLimits.mockRejectedValueOnce(
+        new LimitExceededError('daily_amount', null, 'Daily limit reached')
+      );
+
+      await expect(withdrawalService.withdraw(input)).rejects.toThrow(
+        LimitExceededError
+      );
+      expect(mockSpendingLimitService.assertWithinLimits).toHaveBeenCalledWith(
+        mockClient,
+        'wallet-1',
+        5000
+      );
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      expect(mockPayoutProvider.createPayout).not.toHaveBeenCalled();
+    });
+
+    it('should reject a debit-frozen wallet', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [{ currency: 'USD', status: 'debit_frozen' }],
+        });
+
+      await expect(withdrawalService.withdraw(input)).rejects.toThrow(
+        WalletDebitFrozenError
+      );
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should throw WalletNotFoundError for an unknown wallet', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(withdrawalService.withdraw(input)).rejects.toThrow(
+        WalletNotFoundError
+      );
+    });
+
+    it('should fail and return the debit of a payout the provider refuses', async () => {
+      mockDebit()
+        .mockImplementationOnce((_sql: string, params: any[]) =>
+          Promise.resolve({ rows: [withdrawalRow({ id: params[0] })] })
+        ) // INSERT INTO withdrawals
+        .mockResolvedValueOnce({}) // COMMIT
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [withdrawalRow()] }) // lock withdrawal
+        .mockResolvedValueOnce({
+          rows: [
+            withdrawalRow({
+              status: 'failed',
+              failure_reason: 'Destination account closed',
+              reversal_transaction_reference:
+                'withdrawal_reversal_withdrawal-1',
+              completed_at: new Date(),
+            }),
+          ],
+        }) // UPDATE withdrawals
+        .mockResolvedValueOnce({}); // COMMIT
+      mockPool.query.mockResolvedValueOnce({
+        rows: [withdrawalRow({ payout_attempts: 1 })],
+      }); // claim payout
+      mockPayoutProvider.createPayout.mockRejectedValueOnce(
+        new PayoutRejectedError('Destination account closed')
+      );
+
+      const withdrawal = await withdrawalService.withdraw(input);
+
+      expect(withdrawal.status).toBe('failed');
+      expect(withdrawal.failure_reason).toBe('Destination account closed');
+      expect(mockLedgerService.postJournal).toHaveBeenLastCalledWith(
+        mockClient,
+        expect.objectContaining({ type: 'reversal' })
+      );
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave the payout for a retry when the provider cannot be reached', async () => {
+      mockDebit()
+        .mockImplementationOnce((_sql: string, params: any[]) =>
+          Promise.resolve({ rows: [withdrawalRow({ id: params[0] })] })
+        ) // INSERT INTO withdrawals
+        .mockResolvedValueOnce({}); // COMMIT
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ payout_attempts: 1 })],
+        }) // claim payout
+        .mockResolvedValueOnce({
+          rows: [
+            withdrawalRow({
+              payout_attempts: 1,
+              last_payout_error: 'socket hang up',
+            }),
+          ],
+        }); // schedule retry
+      mockPayoutProvider.createPayout.mockRejectedValueOnce(
+        new Error('socket hang up')
+      );
+
+      const withdrawal = await withdrawalService.withdraw(input);
+
+      expect(withdrawal.status).toBe('pending');
+      expect(withdrawal.provider_reference).toBeNull();
+      expect(withdrawal.last_payout_error).toBe('socket hang up');
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('last_payout_error = $3'),
+        ['withdrawal-1', 60, 'socket hang up']
+      );
+      expect(mockLedgerService.postJournal).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return a refused payout settled meanwhile as it is', async () => {
+      mockDebit()
+        .mockImplementationOnce((_sql: string, params: any[]) =>
+          Promise.resolve({ rows: [withdrawalRow({ id: params[0] })] })
+        ) // INSERT INTO withdrawals
+        .mockResolvedValueOnce({}) // COMMIT
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [
+            withdrawalRow({ status: 'settled', completed_at: new Date() }),
+          ],
+        }) // lock withdrawal
+        .mockResolvedValueOnce({}); // ROLLBACK
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ payout_attempts: 1 })],
+        }) // claim payout
+        .mockResolvedValueOnce({
+          rows: [
+            withdrawalRow({ status: 'settled', completed_at: new Date() }),
+          ],
+        }); // SELECT withdrawal
+      mockPayoutProvider.createPayout.mockRejectedValueOnce(
+        new PayoutRejectedError('Destination account closed')
+      );
+
+      const withdrawal = await withdrawalService.withdraw(input);
+
+      expect(withdrawal.status).toBe('settled');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockLedgerService.postJournal).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the committed withdrawal if submitting its payout errors', async () => {
+      mockDebit()
+        .mockImplementationOnce((_sql: string, params: any[]) =>
+          Promise.resolve({ rows: [withdrawalRow({ id: params[0] })] })
+        ) // INSERT INTO withdrawals
+        .mockResolvedValueOnce({}); // COMMIT
+      mockPool.query.mockRejectedValueOnce(new Error('Connection terminated'));
+
+      const withdrawal = await withdrawalService.withdraw(input);
+
+      expect(withdrawal.status).toBe('pending');
+      expect(withdrawal.provider_reference).toBeNull();
+      expect(mockPayoutProvider.createPayout).not.toHaveBeenCalled();
+    });
+
+    it('should leave the payout to the worker that claimed it first', async () => {
+      mockDebit()
+        .mockImplementationOnce((_sql: string, params: any[]) =>
+          Promise.resolve({ rows: [withdrawalRow({ id: params[0] })] })
+        ) // INSERT INTO withdrawals
+        .mockResolvedValueOnce({}); // COMMIT
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [] }) // claim payout
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ payout_attempts: 1 })],
+        }); // SELECT withdrawal
+
+      const withdrawal = await withdrawalService.withdraw(input);
+
+      expect(withdrawal.status).toBe('pending');
+      expect(mockPayoutProvider.createPayout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitDuePayouts', () => {
+    it('should resubmit a due payout with the same idempotency key', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ payout_attempts: 2 })],
+        }) // claim payouts
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ provider_reference: 'fake_ref_1' })],
+        }); // record provider reference
+
+      const claimed = await withdrawalService.submitDuePayouts(10);
+
+      expect(claimed).toBe(1);
+      expect(mockPool.query.mock.calls[0][0]).toContain('FOR UPDATE SKIP LOCKED');
+      expect(mockPool.query.mock.calls[0][1]).toEqual([10, 300]);
+      expect(mockPayoutProvider.createPayout).toHaveBeenCalledWith(
+        expect.objectContaining({
+          withdrawal_id: 'withdrawal-1',
+          idempotency_key: 'withdrawal-1',
+        })
+      );
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('provider_reference = $2'),
+        ['withdrawal-1', 'fake_ref_1']
+      );
+    });
+
+    it('should carry on with the batch after one payout errors', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [
+            withdrawalRow({ id: 'withdrawal-1', payout_attempts: 1 }),
+            withdrawalRow({ id: 'withdrawal-2', payout_attempts: 1 }),
+          ],
+        }) // claim payouts
+        .mockRejectedValueOnce(new Error('Connection terminated')) // first reference
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ id: 'withdrawal-2' })],
+        }); // record provider reference
+
+      const claimed = await withdrawalService.submitDuePayouts(10);
+
+      expect(claimed).toBe(2);
+      expect(mockPayoutProvider.createPayout).toHaveBeenCalledTimes(2);
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('provider_reference = $2'),
+        ['withdrawal-2', 'fake_ref_1']
+      );
+    });
+
+    it('should back off exponentially between retries', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ payout_attempts: 3 })],
+        }) // claim payouts
+        .mockResolvedValueOnce({ rows: [withdrawalRow()] }); // schedule retry
+      mockPayoutProvider.createPayout.mockRejectedValueOnce(
+        new Error('Gateway timeout')
+      );
+
+      await withdrawalService.submitDuePayouts(10);
+
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.any(String),
+        ['withdrawal-1', 240, 'Gateway timeout']
+      );
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should leave the payout for review once its attempts are used up', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ payout_attempts: 5 })],
+        }) // claim payouts
+        .mockImplementationOnce((_sql: string, params: any[]) =>
+          Promise.resolve({
+            rows: [
+              withdrawalRow({
+                payout_attempts: 5,
+                next_payout_attempt_at: null,
+                last_payout_error: params[1],
+              }),
+            ],
+          })
+        ); // hold for review
+      mockPayoutProvider.createPayout.mockRejectedValueOnce(
+        new Error('Gateway timeout')
+      );
+
+      await withdrawalService.submitDuePayouts(10);
+
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('next_payout_attempt_at = NULL'),
+        [
+          'withdrawal-1',
+          'Payout could not be submitted after 5 attempts: Gateway timeout',
+        ]
+      );
+      // The provider may have paid it, so the debit is not returned
+      expect(mockPool.connect).not.toHaveBeenCalled();
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should leave a payout whose earlier submissions never finished for review', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ payout_attempts: 6 })],
+        }) // claim payouts
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ next_payout_attempt_at: null })],
+        }); // hold for review
+
+      await withdrawalService.submitDuePayouts(10);
+
+      expect(mockPayoutProvider.createPayout).not.toHaveBeenCalled();
+      expect(mockPool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('next_payout_attempt_at = NULL'),
+        ['withdrawal-1', 'Payout submission did not finish after 5 attempts']
+      );
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should return 0 when nothing is due', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      expect(await withdrawalService.submitDuePayouts(10)).toBe(0);
+      expect(mockPayoutProvider.createPayout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleWithdrawal', () => {
+    it('should settle a pending withdrawal', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [withdrawalRow()] }) // lock withdrawal
+        .mockResolvedValueOnce({
+          rows: [
+            withdrawalRow({ status: 'settled', completed_at: new Date() }),
+          ],
+        }) // UPDATE withdrawals
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const withdrawal =
+        await withdrawalService.settleWithdrawal('withdrawal-1');
+
+      expect(withdrawal.status).toBe('settled');
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        mockClient,
+        'withdrawal.settled',
+        { withdrawal }
+      );
+    });
+
+    it('should leave an already settled withdrawal as it is', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [
+            withdrawalRow({ status: 'settled', completed_at: new Date() }),
+          ],
+        })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const withdrawal =
+        await withdrawalService.settleWithdrawal('withdrawal-1');
+
+      expect(withdrawal.status).toBe('settled');
+      expect(mockWebhookService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to settle a failed withdrawal', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [withdrawalRow({ status: 'failed' })] });
+
+      await expect(
+        withdrawalService.settleWithdrawal('withdrawal-1')
+      ).rejects.toThrow(InvalidWithdrawalStateError);
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should throw WithdrawalNotFoundError for an unknown withdrawal', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(
+        withdrawalService.settleWithdrawal('withdrawal-1')
+      ).rejects.toThrow(WithdrawalNotFoundError);
+    });
+  });
+
+  describe('failWithdrawal', () => {
+    it('should return the debit to the wallet and record the reason', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [withdrawalRow()] }) // lock withdrawal
+        .mockImplementationOnce((_sql: string, params: any[]) =>
+          Promise.resolve({
+            rows: [
+              withdrawalRow({
+                status: 'failed',
+                failure_reason: params[1],
+                reversal_transaction_reference: params[2],
+                completed_at: new Date(),
+              }),
+            ],
+          })
+        ) // UPDATE withdrawals
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const withdrawal = await withdrawalService.failWithdrawal(
+        'withdrawal-1',
+        'Bank rejected the payout'
+      );
+
+      expect(withdrawal.status).toBe('failed');
+      expect(withdrawal.failure_reason).toBe('Bank rejected the payout');
+      expect(mockLedgerService.postJournal).toHaveBeenCalledWith(mockClient, {
+        type: 'reversal',
+        transaction_reference: 'withdrawal_reversal_withdrawal-1',
+        skip_status_check: true,
+        postings: [
+          {
+            wallet_id: 'wallet-clearing',
+            amount: 5000,
+            currency: 'USD',
+            direction: 'debit',
+          },
+          {
+            wallet_id: 'wallet-1',
+            amount: 5000,
+            currency: 'USD',
+            direction: 'credit',
+          },
+        ],
+      });
+      expect(mockOutboxService.append).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          aggregate_id: 'withdrawal-1',
+          event_type: 'withdrawal.failed',
+        })
+      );
+    });
+
+    it('should not return the debit of an already failed withdrawal twice', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [withdrawalRow({ status: 'failed' })] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const withdrawal = await withdrawalService.failWithdrawal(
+        'withdrawal-1',
+        'Bank rejected the payout'
+      );
+
+      expect(withdrawal.status).toBe('failed');
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to fail a settled withdrawal', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({
+          rows: [withdrawalRow({ status: 'settled' })],
+        });
+
+      await expect(
+        withdrawalService.failWithdrawal('withdrawal-1', 'Too late')
+      ).rejects.toThrow(InvalidWithdrawalStateError);
+      expect(mockLedgerService.postJournal).not.toHaveBeenCalled();
+    });
+  });
+});
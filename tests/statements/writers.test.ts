@@ -0,0 +1,160 @@
+import { PassThrough } from 'stream';
+import {
+  CsvStatementWriter,
+  JsonStatementWriter,
+  PdfStatementWriter,
+} from '../../src/statements/writers';
+import {
+  StatementHeader,
+  StatementLine,
+  StatementSummary,
+  StatementWriter,
+} from '../../src/models/Statement';
+
+describe('statement writers', () => {
+  const header: StatementHeader = {
+    wallet_id: 'wallet-123',
+    currency: 'USD',
+    label: 'main',
+    from: new Date('2024-01-01T00:00:00.000Z'),
+    to: new Date('2024-02-01T00:00:00.000Z'),
+    opening_balance: 1000,
+    generated_at: new Date('2024-02-01T08:00:00.000Z'),
+  };
+
+  const line = (index: number, overrides: Partial<StatementLine> = {}): StatementLine => ({
+    entry_id: `entry-${index}`,
+    created_at: new Date(`2024-01-0${(index % 9) + 1}T10:00:00.000Z`),
+    type: 'fund',
+    direction: 'credit',
+    amount: 2550,
+    balance_after: 1000 + 2550 * index,
+    transaction_reference: `fund_${index}`,
+    transfer_id: null,
+    ...overrides,
+  });
+
+  const summary: StatementSummary = {
+    closing_balance: 2550,
+    total_credits: 2550,
+    total_debits: 1000,
+    entry_count: 2,
+    totals_by_type: [
+      { type: 'fund', credits: 2550, debits: 0, count: 1 },
+      { type: 'transfer', credits: 0, debits: 1000, count: 1 },
+    ],
+  };
+
+  async function render(
+    create: (out: PassThrough) => StatementWriter,
+    batches: StatementLine[][]
+  ): Promise<Buffer> {
+    const out = new PassThrough();
+    const chunks: Buffer[] = [];
+    out.on('data', (chunk) => chunks.push(chunk));
+
+    const writer = create(out);
+    await writer.begin(header);
+    for (const batch of batches) {
+      await writer.lines(batch);
+    }
+    await writer.end(summary);
+    out.end();
+
+    return Buffer.concat(chunks);
+  }
+
+  describe('JsonStatementWriter', () => {
+    it('should stream one valid document across batches', async () => {
+      const body = await render((out) => new JsonStatementWriter(out), [
+        [line(1)],
+        [line(2, { direction: 'debit', type: 'transfer' })],
+      ]);
+
+      const statement = JSON.parse(body.toString());
+      expect(statement.wallet_id).toBe('wallet-123');
+      expect(statement.opening_balance).toBe(1000);
+      expect(statement.entries.map((e: any) => e.entry_id)).toEqual([
+        'entry-1',
+        'entry-2',
+      ]);
+      expect(statement.closing_balance).toBe(2550);
+      expect(statement.totals_by_type).toHaveLength(2);
+    });
+
+    it('should produce an empty entries array for a quiet period', async () => {
+      const body = await render((out) => new JsonStatementWriter(out), []);
+
+      expect(JSON.parse(body.toString()).entries).toEqual([]);
+    });
+  });
+
+  describe('CsvStatementWriter', () => {
+    it('should frame entries with opening, closing and total rows in major units', async () => {
+      const body = await render((out) => new CsvStatementWriter(out), [
+        [line(1), line(2, { direction: 'debit', amount: 1000, balance_after: 2550 })],
+      ]);
+
+      const rows = body.toString().trimEnd().split('\r\n');
+      expect(rows[0]).toBe(
+        'row,date,type,direction,reference,transfer_id,debit,credit,balance,currency'
+      );
+      expect(rows[1]).toBe('opening_balance,2024-01-01 00:00:00,,,,,,,10.00,USD');
+      expect(rows[2]).toBe(
+        'entry,2024-01-02 10:00:00,fund,credit,fund_1,,,25.50,35.50,USD'
+      );
+      expect(rows[3]).toBe(
+        'entry,2024-01-03 10:00:00,fund,debit,fund_2,,10.00,,25.50,USD'
+      );
+      expect(rows[4]).toBe('closing_balance,2024-02-01 00:00:00,,,,,,,25.50,USD');
+      expect(rows[5]).toBe('total,,fund,,,,0.00,25.50,,USD');
+      expect(rows[6]).toBe('total,,transfer,,,,10.00,0.00,,USD');
+      expect(rows[7]).toBe('total,,,,,,10.00,25.50,,USD');
+    });
+
+    it('should quote fields containing separators', async () => {
+      const body = await render((out) => new CsvStatementWriter(out), [
+        [line(1, { transaction_reference: 'ref, "quoted"' })],
+      ]);
+
+      expect(body.toString()).toContain('"ref, ""quoted"""');
+    });
+  });
+
+  describe('PdfStatementWriter', () => {
+    it('should write a well-formed PDF whose cross-reference table points at each object', async () => {
+      const body = await render((out) => new PdfStatementWriter(out), [
+        [line(1), line(2)],
+      ]);
+      const text = body.toString('latin1');
+
+      expect(text.startsWith('%PDF-1.4')).toBe(true);
+      expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(text).toContain('(Account Statement) Tj');
+      expect(text).toContain('(Opening balance: 10.00) Tj');
+      expect(text).toContain('(Closing balance: 25.50) Tj');
+
+      const startxref = parseInt(text.match(/startxref\n(\d+)/)![1], 10);
+      expect(text.slice(startxref, startxref + 4)).toBe('xref');
+
+      const offsets = text
+        .slice(startxref)
+        .split('\n')
+        .filter((row) => / 00000 n $/.test(row))
+        .map((row) => parseInt(row, 10));
+      offsets.forEach((offset, index) => {
+        expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    it('should start new pages as entries run past the bottom margin', async () => {
+      const lines = Array.from({ length: 120 }, (_, i) => line(i));
+      const body = await render((out) => new PdfStatementWriter(out), [lines]);
+      const text = body.toString('latin1');
+
+      const pageCount = parseInt(text.match(/\/Count (\d+)/)![1], 10);
+      expect(pageCount).toBeGreaterThan(1);
+      expect(text).toContain(`(Page ${pageCount}) Tj`);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { parseCsv } from '../../src/utils/csv';
+import { ValidationError } from '../../src/utils/errors';
+
+describe('csv', () => {
+  describe('parseCsv', () => {
+    it('should split rows and fields and record the line of each row', () => {
+      expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([
+        { line: 1, fields: ['a', 'b', 'c'] },
+        { line: 2, fields: ['1', '2', '3'] },
+      ]);
+    });
+
+    it('should accept CRLF line endings and a missing final newline', () => {
+      expect(parseCsv('a,b\r\n1,2')).toEqual([
+        { line: 1, fields: ['a', 'b'] },
+        { line: 2, fields: ['1', '2'] },
+      ]);
+    });
+
+    it('should unquote fields with commas, escaped quotes and newlines', () => {
+      expect(parseCsv('memo,amount\n"Rent, May ""flat 2""\nthanks",500\nx,1')).toEqual([
+        { line: 1, fields: ['memo', 'amount'] },
+        { line: 2, fields: ['Rent, May "flat 2"\nthanks', '500'] },
+        { line: 4, fields: ['x', '1'] },
+      ]);
+    });
+
+    it('should keep empty fields', () => {
+      expect(parseCsv('a,,c\n,,')).toEqual([
+        { line: 1, fields: ['a', '', 'c'] },
+        { line: 2, fields: ['', '', ''] },
+      ]);
+    });
+
+    it('should skip a byte order mark and blank lines', () => {
+      expect(parseCsv('\uFEFFa,b\n\n1,2\n\n')).toEqual([
+        { line: 1, fields: ['a', 'b'] },
+        { line: 3, fields: ['1', '2'] },
+      ]);
+      expect(parseCsv('')).toEqual([]);
+    });
+
+    it('should reject an unterminated quoted field', () => {
+      expect(() => parseCsv('a,b\n"open,1\n2,3')).toThrow(ValidationError);
+      expect(() => parseCsv('a,b\n"open,1\n2,3')).toThrow(
+        'Invalid CSV: unterminated quoted field starting on line 2'
+      );
+    });
+  });
+});
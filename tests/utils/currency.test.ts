@@ -0,0 +1,70 @@
+import {
+  getCurrencyExponent,
+  getMaxAmount,
+  assertAmountWithinLimit,
+  formatAmount,
+  toMajorUnits,
+  isSupportedCurrency,
+  convertAmount,
+} from '../../src/utils/currency';
+import { ValidationError } from '../../src/utils/errors';
+
+describe('currency', () => {
+  describe('getCurrencyExponent', () => {
+    it('should return ISO 4217 minor-unit exponents', () => {
+      expect(getCurrencyExponent('JPY')).toBe(0);
+      expect(getCurrencyExponent('USD')).toBe(2);
+      expect(getCurrencyExponent('KWD')).toBe(3);
+    });
+
+    it('should reject unsupported currencies', () => {
+      expect(isSupportedCurrency('XYZ')).toBe(false);
+      expect(() => getCurrencyExponent('XYZ')).toThrow(ValidationError);
+    });
+  });
+
+  describe('assertAmountWithinLimit', () => {
+    it('should scale the maximum with the currency exponent', () => {
+      expect(getMaxAmount('JPY')).toBe(10_000_000_000);
+      expect(getMaxAmount('USD')).toBe(1_000_000_000_000);
+      expect(getMaxAmount('KWD')).toBe(10_000_000_000_000);
+    });
+
+    it('should throw ValidationError above the currency maximum', () => {
+      expect(() => assertAmountWithinLimit(1_000_000_000_000, 'USD')).not.toThrow();
+      expect(() => assertAmountWithinLimit(1_000_000_000_001, 'USD')).toThrow(
+        'Amount exceeds maximum allowed value for USD'
+      );
+    });
+  });
+
+  describe('formatAmount', () => {
+    it('should format minor units using the currency exponent', () => {
+      expect(formatAmount(12345, 'USD')).toBe('$123.45');
+      expect(formatAmount(500, 'JPY')).toBe('¥500');
+      expect(formatAmount(1234, 'KWD')).toMatch(/^KWD\s1\.234$/);
+    });
+  });
+
+  describe('toMajorUnits', () => {
+    it('should render a plain decimal with the currency exponent', () => {
+      expect(toMajorUnits(12345, 'USD')).toBe('123.45');
+      expect(toMajorUnits(-5, 'USD')).toBe('-0.05');
+      expect(toMajorUnits(500, 'JPY')).toBe('500');
+      expect(toMajorUnits(1234, 'KWD')).toBe('1.234');
+      expect(toMajorUnits(0, 'KWD')).toBe('0.000');
+    });
+  });
+
+  describe('convertAmount', () => {
+    it('should rescale between exponents and round down', () => {
+      expect(convertAmount(10000, 'USD', 'JPY', 150.257)).toBe(15025);
+      expect(convertAmount(1000, 'JPY', 'USD', 0.0066)).toBe(660);
+      expect(convertAmount(100, 'USD', 'KWD', 0.307)).toBe(307);
+    });
+
+    it('should not lose a minor unit to floating point noise', () => {
+      expect(convertAmount(100, 'USD', 'EUR', 0.29)).toBe(29);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { encodeCursor, decodeCursor } from '../../src/utils/cursor';
+import { ValidationError } from '../../src/utils/errors';
+
+describe('cursor', () => {
+  const cursor = {
+    created_at: '2024-01-02 10:00:00.123456',
+    id: '123e4567-e89b-12d3-a456-426614174000',
+  };
+
+  it('should round-trip a keyset position through an opaque token', () => {
+    const token = encodeCursor(cursor);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(token)).toEqual(cursor);
+  });
+
+  it('should reject tokens that are not cursors', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(ValidationError);
+    expect(() =>
+      decodeCursor(Buffer.from('{"a":1}').toString('base64url'))
+    ).toThrow(ValidationError);
+  });
+
+  it('should reject cursors that would inject into the keyset comparison', () => {
+    const tampered = Buffer.from(
+      JSON.stringify(["2024-01-02'; DROP TABLE users; --", cursor.id])
+    ).toString('base64url');
+
+    expect(() => decodeCursor(tampered)).toThrow(ValidationError);
+  });
+});
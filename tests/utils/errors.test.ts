@@ -7,6 +7,44 @@ import {
   DuplicatePaymentRefError,
   IdempotencyKeyConflictError,
   ValidationError,
+  UnbalancedJournalError,
+  TransferNotFoundError,
+  TransactionNotFoundError,
+  InvalidTransferStateError,
+  ReversalAmountExceededError,
+  CurrencyMismatchError,
+  FxRateUnavailableError,
+  FxQuoteNotFoundError,
+  FxQuoteExpiredError,
+  FxQuoteAlreadyUsedError,
+  UnauthorizedError,
+  ForbiddenError,
+  ApiKeyNotFoundError,
+  ApiKeyRevokedError,
+  RateLimitExceededError,
+  WebhookSubscriptionNotFoundError,
+  WebhookDeliveryNotFoundError,
+  TransactionConflictError,
+  FeeScheduleNotFoundError,
+  LimitExceededError,
+  SpendingLimitNotFoundError,
+  WalletFrozenError,
+  WalletDebitFrozenError,
+  WalletClosedError,
+  WalletNotEmptyError,
+  DuplicateWalletLabelError,
+  DuplicateClientReferenceError,
+  HoldExpiredError,
+  CaptureAmountExceededError,
+  ScheduledTransferNotFoundError,
+  InvalidScheduledTransferStateError,
+  TransferBatchNotFoundError,
+  PaymentRequestNotFoundError,
+  InvalidPaymentRequestStateError,
+  PaymentRequestExpiredError,
+  WithdrawalNotFoundError,
+  InvalidWithdrawalStateError,
+  PayoutRejectedError,
 } from '../../src/utils/errors';
 
 describe('Error Classes', () => {
@@ -99,4 +137,326 @@ describe('Error Classes', () => {
       expect(error.message).toBe('Invalid input');
     });
   });
+
+  describe('UnbalancedJournalError', () => {
+    it('should have correct status code and code', () => {
+      const error = new UnbalancedJournalError();
+      expect(error.statusCode).toBe(500);
+      expect(error.code).toBe('UNBALANCED_JOURNAL');
+    });
+  });
+
+  describe('TransferNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new TransferNotFoundError('transfer-123');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('TRANSFER_NOT_FOUND');
+      expect(error.message).toContain('transfer-123');
+    });
+  });
+
+  describe('TransactionNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new TransactionNotFoundError('entry-123');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('TRANSACTION_NOT_FOUND');
+      expect(error.message).toContain('entry-123');
+    });
+  });
+
+  describe('InvalidTransferStateError', () => {
+    it('should have correct status code and code', () => {
+      const error = new InvalidTransferStateError('Transfer is failed');
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('INVALID_TRANSFER_STATE');
+    });
+  });
+
+  describe('ReversalAmountExceededError', () => {
+    it('should report requested and reversible amounts', () => {
+      const error = new ReversalAmountExceededError(6000, 5000);
+      expect(error.statusCode).toBe(400);
+      expect(error.code).toBe('REVERSAL_AMOUNT_EXCEEDED');
+      expect(error.message).toContain('6000');
+      expect(error.message).toContain('5000');
+    });
+  });
+
+  describe('CurrencyMismatchError', () => {
+    it('should have correct status code and code', () => {
+      const error = new CurrencyMismatchError('USD wallet cannot receive JPY');
+      expect(error.statusCode).toBe(400);
+      expect(error.code).toBe('CURRENCY_MISMATCH');
+    });
+  });
+
+  describe('FxRateUnavailableError', () => {
+    it('should name the missing pair', () => {
+      const error = new FxRateUnavailableError('USD', 'KWD');
+      expect(error.statusCode).toBe(400);
+      expect(error.code).toBe('FX_RATE_UNAVAILABLE');
+      expect(error.message).toContain('USD/KWD');
+    });
+  });
+
+  describe('FxQuoteNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new FxQuoteNotFoundError('quote-123');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('FX_QUOTE_NOT_FOUND');
+    });
+  });
+
+  describe('FxQuoteExpiredError', () => {
+    it('should have correct status code and code', () => {
+      const error = new FxQuoteExpiredError('quote-123');
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('FX_QUOTE_EXPIRED');
+    });
+  });
+
+  describe('FxQuoteAlreadyUsedError', () => {
+    it('should have correct status code and code', () => {
+      const error = new FxQuoteAlreadyUsedError('quote-123');
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('FX_QUOTE_ALREADY_USED');
+    });
+  });
+
+  describe('UnauthorizedError', () => {
+    it('should have correct status code and code', () => {
+      const error = new UnauthorizedError();
+      expect(error.statusCode).toBe(401);
+      expect(error.code).toBe('UNAUTHORIZED');
+      expect(error.message).toBe('Authentication required');
+    });
+  });
+
+  describe('ForbiddenError', () => {
+    it('should have correct status code and code', () => {
+      const error = new ForbiddenError();
+      expect(error.statusCode).toBe(403);
+      expect(error.code).toBe('FORBIDDEN');
+    });
+  });
+
+  describe('ApiKeyNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new ApiKeyNotFoundError('key-123');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('API_KEY_NOT_FOUND');
+    });
+  });
+
+  describe('ApiKeyRevokedError', () => {
+    it('should have correct status code and code', () => {
+      const error = new ApiKeyRevokedError('key-123');
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('API_KEY_REVOKED');
+    });
+  });
+
+  describe('RateLimitExceededError', () => {
+    it('should carry the retry delay', () => {
+      const error = new RateLimitExceededError(30);
+      expect(error.statusCode).toBe(429);
+      expect(error.code).toBe('RATE_LIMIT_EXCEEDED');
+      expect(error.retryAfterSeconds).toBe(30);
+    });
+  });
+
+  describe('WebhookSubscriptionNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new WebhookSubscriptionNotFoundError('sub-123');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('WEBHOOK_SUBSCRIPTION_NOT_FOUND');
+    });
+  });
+
+  describe('WebhookDeliveryNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new WebhookDeliveryNotFoundError('delivery-123');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('WEBHOOK_DELIVERY_NOT_FOUND');
+    });
+  });
+
+  describe('TransactionConflictError', () => {
+    it('should be a retryable service error', () => {
+      const error = new TransactionConflictError();
+      expect(error.statusCode).toBe(503);
+      expect(error.code).toBe('TRANSACTION_CONFLICT');
+    });
+  });
+
+  describe('FeeScheduleNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new FeeScheduleNotFoundError('schedule-123');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('FEE_SCHEDULE_NOT_FOUND');
+    });
+  });
+
+  describe('LimitExceededError', () => {
+    it('should report the limit and when it resets', () => {
+      const resetsAt = new Date('2024-01-02T00:00:00.000Z');
+      const error = new LimitExceededError('daily_amount', resetsAt, 'Over');
+      expect(error.statusCode).toBe(400);
+      expect(error.code).toBe('LIMIT_EXCEEDED');
+      expect(error.details).toEqual({
+        limit: 'daily_amount',
+        resets_at: resetsAt,
+      });
+    });
+  });
+
+  describe('SpendingLimitNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new SpendingLimitNotFoundError('limit-123');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('SPENDING_LIMIT_NOT_FOUND');
+    });
+  });
+
+  describe('wallet status errors', () => {
+    it('should use a distinct code for each status', () => {
+      const errors = [
+        new WalletFrozenError('wallet-123'),
+        new WalletDebitFrozenError('wallet-123'),
+        new WalletClosedError('wallet-123'),
+        new WalletNotEmptyError('Wallet still holds funds'),
+      ];
+
+      expect(errors.map((e) => e.statusCode)).toEqual([409, 409, 409, 409]);
+      expect(errors.map((e) => e.code)).toEqual([
+        'WALLET_FROZEN',
+        'WALLET_DEBIT_FROZEN',
+        'WALLET_CLOSED',
+        'WALLET_NOT_EMPTY',
+      ]);
+    });
+  });
+
+  describe('DuplicateWalletLabelError', () => {
+    it('should have correct status code and code', () => {
+      const error = new DuplicateWalletLabelError('savings');
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('DUPLICATE_WALLET_LABEL');
+      expect(error.message).toContain('savings');
+    });
+  });
+
+  describe('DuplicateClientReferenceError', () => {
+    it('should have correct status code, code and the existing transfer', () => {
+      const error = new DuplicateClientReferenceError('order-1', 'transfer-1');
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('DUPLICATE_CLIENT_REFERENCE');
+      expect(error.message).toContain('order-1');
+      expect(error.details).toEqual({ transfer_id: 'transfer-1' });
+    });
+  });
+
+  describe('HoldExpiredError', () => {
+    it('should have correct status code and code', () => {
+      const error = new HoldExpiredError('hold-1');
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('HOLD_EXPIRED');
+      expect(error.message).toContain('hold-1');
+    });
+  });
+
+  describe('CaptureAmountExceededError', () => {
+    it('should have correct status code, code and both amounts', () => {
+      const error = new CaptureAmountExceededError(6000, 5000);
+      expect(error.statusCode).toBe(400);
+      expect(error.code).toBe('CAPTURE_AMOUNT_EXCEEDED');
+      expect(error.message).toBe(
+        'Capture amount 6000 exceeds authorized amount 5000'
+      );
+    });
+  });
+
+  describe('ScheduledTransferNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new ScheduledTransferNotFoundError('schedule-1');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('SCHEDULED_TRANSFER_NOT_FOUND');
+      expect(error.message).toContain('schedule-1');
+    });
+  });
+
+  describe('InvalidScheduledTransferStateError', () => {
+    it('should have correct status code and code', () => {
+      const error = new InvalidScheduledTransferStateError(
+        'Scheduled transfer schedule-1 is cancelled and cannot be paused'
+      );
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('INVALID_SCHEDULED_TRANSFER_STATE');
+    });
+  });
+
+  describe('TransferBatchNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new TransferBatchNotFoundError('batch-1');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('TRANSFER_BATCH_NOT_FOUND');
+      expect(error.message).toContain('batch-1');
+    });
+  });
+
+  describe('PaymentRequestNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new PaymentRequestNotFoundError('request-1');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('PAYMENT_REQUEST_NOT_FOUND');
+      expect(error.message).toContain('request-1');
+    });
+  });
+
+  describe('InvalidPaymentRequestStateError', () => {
+    it('should have correct status code and code', () => {
+      const error = new InvalidPaymentRequestStateError(
+        'Payment request request-1 is declined and cannot be accepted'
+      );
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('INVALID_PAYMENT_REQUEST_STATE');
+    });
+  });
+
+  describe('PaymentRequestExpiredError', () => {
+    it('should have correct status code and code', () => {
+      const error = new PaymentRequestExpiredError('request-1');
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('PAYMENT_REQUEST_EXPIRED');
+      expect(error.message).toBe('Payment request request-1 has expired');
+    });
+  });
+
+  describe('WithdrawalNotFoundError', () => {
+    it('should have correct status code and code', () => {
+      const error = new WithdrawalNotFoundError('withdrawal-1');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('WITHDRAWAL_NOT_FOUND');
+      expect(error.message).toContain('withdrawal-1');
+    });
+  });
+
+  describe('InvalidWithdrawalStateError', () => {
+    it('should have correct status code and code', () => {
+      const error = new InvalidWithdrawalStateError(
+        'Withdrawal withdrawal-1 is settled and cannot be failed'
+      );
+      expect(error.statusCode).toBe(409);
+      expect(error.code).toBe('INVALID_WITHDRAWAL_STATE');
+    });
+  });
+
+  describe('PayoutRejectedError', () => {
+    it('should have correct status code and code', () => {
+      const error = new PayoutRejectedError('Destination account closed');
+      expect(error.statusCode).toBe(422);
+      expect(error.code).toBe('PAYOUT_REJECTED');
+      expect(error.message).toBe('Destination account closed');
+    });
+  });
 });
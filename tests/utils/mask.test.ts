@@ -0,0 +1,13 @@
+import { maskEmail } from '../../src/utils/mask';
+
+describe('maskEmail', () => {
+  it('should keep the first character and the domain', () => {
+    expect(maskEmail('jane.doe@example.com')).toBe('j***@example.com');
+    expect(maskEmail('j@example.com')).toBe('j***@example.com');
+  });
+
+  it('should hide malformed addresses entirely', () => {
+    expect(maskEmail('not-an-email')).toBe('***');
+    expect(maskEmail('@example.com')).toBe('***');
+  });
+});
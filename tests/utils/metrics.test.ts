@@ -0,0 +1,52 @@
+import { MetricsRegistry } from '../../src/utils/metrics';
+
+describe('MetricsRegistry', () => {
+  it('should count per label set', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('retries_total', 'Retries');
+
+    counter.inc({ transaction: 'transfer' });
+    counter.inc({ transaction: 'transfer' });
+    counter.inc({ transaction: 'fund_wallet' }, 3);
+
+    expect(counter.get({ transaction: 'transfer' })).toBe(2);
+    expect(counter.get({ transaction: 'fund_wallet' })).toBe(3);
+    expect(counter.get({ transaction: 'create_user' })).toBe(0);
+  });
+
+  it('should return the same counter for the same name', () => {
+    const registry = new MetricsRegistry();
+
+    expect(registry.counter('a_total', 'A')).toBe(
+      registry.counter('a_total', 'A')
+    );
+  });
+
+  it('should render the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    registry
+      .counter('retries_total', 'Retries')
+      .inc({ code: '40001', name: 'x' });
+    registry.counter('requests_total', 'Requests').inc();
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP retries_total Retries',
+        '# TYPE retries_total counter',
+        'retries_total{code="40001",name="x"} 1',
+        '',
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total 1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should escape label values', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('errors_total', 'Errors').inc({ message: 'say "hi"' });
+
+    expect(registry.render()).toContain('errors_total{message="say \\"hi\\""} 1');
+  });
+});
@@ -0,0 +1,91 @@
+import { parseRecurrence, occurrenceAt } from '../../src/utils/recurrence';
+import { ValidationError } from '../../src/utils/errors';
+
+describe('recurrence', () => {
+  describe('parseRecurrence', () => {
+    it('should parse a rule with defaults for missing parts', () => {
+      expect(parseRecurrence('FREQ=WEEKLY')).toEqual({
+        freq: 'WEEKLY',
+        interval: 1,
+        count: null,
+        until: null,
+      });
+      expect(parseRecurrence('freq=monthly;interval=3;count=4')).toEqual({
+        freq: 'MONTHLY',
+        interval: 3,
+        count: 4,
+        until: null,
+      });
+    });
+
+    it('should treat a bare UNTIL date as the end of that day', () => {
+      expect(parseRecurrence('FREQ=DAILY;UNTIL=20250131').until).toEqual(
+        new Date('2025-01-31T23:59:59.999Z')
+      );
+      expect(
+        parseRecurrence('FREQ=DAILY;UNTIL=20250131T090000Z').until
+      ).toEqual(new Date('2025-01-31T09:00:00Z'));
+    });
+
+    it.each([
+      'FREQ=HOURLY',
+      'INTERVAL=2',
+      'FREQ=DAILY;INTERVAL=0',
+      'FREQ=DAILY;COUNT=1001',
+      'FREQ=DAILY;COUNT=2;UNTIL=20250131',
+      'FREQ=DAILY;UNTIL=20250231',
+      'FREQ=DAILY;BYDAY=MO',
+      'FREQ=DAILY;FREQ=WEEKLY',
+      'FREQ=DAILY;',
+    ])('should reject %s', (rule) => {
+      expect(() => parseRecurrence(rule)).toThrow(ValidationError);
+    });
+  });
+
+  describe('occurrenceAt', () => {
+    const start = new Date('2025-01-31T09:00:00Z');
+
+    it('should give a one-off a single occurrence at start', () => {
+      expect(occurrenceAt(start, null, 0)).toEqual(start);
+      expect(occurrenceAt(start, null, 1)).toBeNull();
+    });
+
+    it('should step daily and weekly rules by their interval', () => {
+      const daily = parseRecurrence('FREQ=DAILY;INTERVAL=2');
+      const weekly = parseRecurrence('FREQ=WEEKLY');
+
+      expect(occurrenceAt(start, daily, 3)).toEqual(
+        new Date('2025-02-06T09:00:00Z')
+      );
+      expect(occurrenceAt(start, weekly, 2)).toEqual(
+        new Date('2025-02-14T09:00:00Z')
+      );
+    });
+
+    it('should clamp monthly occurrences to the end of shorter months', () => {
+      const monthly = parseRecurrence('FREQ=MONTHLY');
+
+      expect(occurrenceAt(start, monthly, 1)).toEqual(
+        new Date('2025-02-28T09:00:00Z')
+      );
+      expect(occurrenceAt(start, monthly, 2)).toEqual(
+        new Date('2025-03-31T09:00:00Z')
+      );
+      expect(occurrenceAt(start, monthly, 12)).toEqual(
+        new Date('2026-01-31T09:00:00Z')
+      );
+    });
+
+    it('should stop after COUNT occurrences or past UNTIL', () => {
+      const counted = parseRecurrence('FREQ=DAILY;COUNT=3');
+      const until = parseRecurrence('FREQ=WEEKLY;UNTIL=20250214');
+
+      expect(occurrenceAt(start, counted, 2)).not.toBeNull();
+      expect(occurrenceAt(start, counted, 3)).toBeNull();
+      expect(occurrenceAt(start, until, 2)).toEqual(
+        new Date('2025-02-14T09:00:00Z')
+      );
+      expect(occurrenceAt(start, until, 3)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  TransactionRunner,
+  isRetryableTransactionError,
+} from '../../src/utils/transaction';
+import { metrics } from '../../src/utils/metrics';
+import { pool } from '../../src/config/database';
+import { TransactionConflictError } from '../../src/utils/errors';
+
+jest.mock('../../src/config/database');
+
+describe('TransactionRunner', () => {
+  const mockPool = pool as any;
+  let mockClient: any;
+  let sleep: jest.Mock;
+  let runner: TransactionRunner;
+
+  const serializationFailure = Object.assign(
+    new Error('could not serialize access'),
+    { code: '40001' }
+  );
+  const deadlock = Object.assign(new Error('deadlock detected'), {
+    code: '40P01',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    metrics.reset();
+
+    mockClient = {
+      query: jest.fn().mockResolvedValue({}),
+      release: jest.fn(),
+    };
+    mockPool.connect.mockResolvedValue(mockClient);
+
+    sleep = jest.fn().mockResolvedValue(undefined);
+    runner = new TransactionRunner(sleep, () => 0.5);
+  });
+
+  it('should run the work between BEGIN and COMMIT at the requested isolation level', async () => {
+    const result = await runner.run(
+      { name: 'test', isolationLevel: 'SERIALIZABLE' },
+      async (client) => {
+        await client.query('SELECT 1');
+        return 'done';
+      }
+    );
+
+    expect(result).toBe('done');
+    expect(mockClient.query.mock.calls.map((call: any[]) => call[0])).toEqual([
+      'BEGIN',
+      'SET TRANSACTION ISOLATION LEVEL SERIALIZABLE',
+      'SELECT 1',
+      'COMMIT',
+    ]);
+    expect(mockClient.release).toHaveBeenCalledTimes(1);
+  });
+
+  it('should start a read-only transaction when asked', async () => {
+    await runner.run(
+      { name: 'test', isolationLevel: 'REPEATABLE READ', readOnly: true },
+      async (client) => client.query('SELECT 1')
+    );
+
+    expect(mockClient.query.mock.calls[1][0]).toBe(
+      'SET TRANSACTION ISOLATION LEVEL REPEATABLE READ READ ONLY'
+    );
+  });
+
+  it('should retry serialization failures and deadlocks with backoff', async () => {
+    const work = jest
+      .fn()
+      .mockRejectedValueOnce(serializationFailure)
+      .mockRejectedValueOnce(deadlock)
+      .mockResolvedValueOnce('done');
+
+    const result = await runner.run({ name: 'transfer' }, work);
+
+    expect(result).toBe('done');
+    expect(work).toHaveBeenCalledTimes(3);
+    // Half of 20ms, then half of 40ms
+    expect(sleep.mock.calls).toEqual([[10], [20]]);
+    expect(mockClient.release).toHaveBeenCalledTimes(3);
+    expect(
+      metrics
+        .counter('db_transaction_retries_total', '')
+        .get({ transaction: 'transfer', code: '40001' })
+    ).toBe(1);
+    expect(
+      metrics
+        .counter('db_transaction_retries_total', '')
+        .get({ transaction: 'transfer', code: '40P01' })
+    ).toBe(1);
+  });
+
+  it('should retry a conflict raised at COMMIT', async () => {
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql === 'COMMIT' && mockClient.query.mock.calls.length < 4) {
+        throw serializationFailure;
+      }
+      return {};
+    });
+
+    await runner.run({ name: 'test' }, async () => 'done');
+
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+  });
+
+  it('should give up with TransactionConflictError after the last attempt', async () => {
+    const work = jest.fn().mockRejectedValue(serializationFailure);
+
+    await expect(runner.run({ name: 'transfer' }, work)).rejects.toThrow(
+      TransactionConflictError
+    );
+
+    expect(work).toHaveBeenCalledTimes(5);
+    expect(sleep).toHaveBeenCalledTimes(4);
+    expect(
+      metrics
+        .counter('db_transaction_conflicts_total', '')
+        .get({ transaction: 'transfer' })
+    ).toBe(1);
+  });
+
+  it('should cap the backoff delay', async () => {
+    process.env.TX_RETRY_MAX_MS = '50';
+    runner = new TransactionRunner(sleep, () => 1);
+    delete process.env.TX_RETRY_MAX_MS;
+    const work = jest.fn().mockRejectedValue(deadlock);
+
+    await expect(runner.run({ name: 'test' }, work)).rejects.toThrow(
+      TransactionConflictError
+    );
+
+    expect(sleep.mock.calls).toEqual([[20], [40], [50], [50]]);
+  });
+
+  it('should roll back and rethrow other errors without retrying', async () => {
+    const error = new Error('boom');
+    const work = jest.fn().mockRejectedValue(error);
+
+    await expect(runner.run({ name: 'test' }, work)).rejects.toBe(error);
+
+    expect(work).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+    expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(mockClient.release).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow the original error and discard the client when ROLLBACK fails', async () => {
+    const error = new Error('boom');
+    const rollbackError = new Error('Connection terminated');
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql === 'ROLLBACK') {
+        throw rollbackError;
+      }
+      return {};
+    });
+
+    await expect(
+      runner.run({ name: 'test' }, async () => {
+        throw error;
+      })
+    ).rejects.toBe(error);
+
+    expect(mockClient.release).toHaveBeenCalledWith(rollbackError);
+  });
+
+  it('should not retry a conflict whose ROLLBACK fails', async () => {
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql === 'ROLLBACK') {
+        throw new Error('Connection terminated');
+      }
+      return {};
+    });
+    const work = jest.fn().mockRejectedValue(serializationFailure);
+
+    await expect(runner.run({ name: 'test' }, work)).rejects.toBe(
+      serializationFailure
+    );
+
+    expect(work).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  describe('isRetryableTransactionError', () => {
+    it('should only match serialization failures and deadlocks', () => {
+      expect(isRetryableTransactionError(serializationFailure)).toBe(true);
+      expect(isRetryableTransactionError(deadlock)).toBe(true);
+      expect(isRetryableTransactionError({ code: '23505' })).toBe(false);
+      expect(isRetryableTransactionError(undefined)).toBe(false);
+    });
+  });
+});